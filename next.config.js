@@ -9,25 +9,31 @@ const nextConfig = {
   // Ensure proper handling of forwarded headers
   async headers() {
     return [
-
       {
-        // Default security headers for all other paths
+        // Default security headers for all paths
         source: '/:path*',
         headers: [
           {
             key: 'X-Content-Type-Options',
             value: 'nosniff',
           },
-          {
-            key: 'X-Frame-Options',
-            value: 'DENY',
-          },
           {
             key: 'X-XSS-Protection',
             value: '1; mode=block',
           },
         ],
       },
+      {
+        // The RSVP widget under /embed is meant to be framed; the middleware gives it a
+        // frame-ancestors policy listing the sites each event allows instead
+        source: '/:path((?!embed/).*)',
+        headers: [
+          {
+            key: 'X-Frame-Options',
+            value: 'DENY',
+          },
+        ],
+      },
     ];
   },
 };
@@ -0,0 +1,23 @@
+-- Editable email templates: banner heading plus per-event overrides
+
+-- AlterTable
+ALTER TABLE "EmailTemplate" ADD COLUMN "heading" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable
+CREATE TABLE "EventEmailTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "heading" TEXT NOT NULL DEFAULT '',
+    "body" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EventEmailTemplate_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EventEmailTemplate_eventId_idx" ON "EventEmailTemplate"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventEmailTemplate_eventId_name_key" ON "EventEmailTemplate"("eventId", "name");
@@ -0,0 +1,33 @@
+-- Outbound email queue with retry state and delivery log
+
+-- CreateTable
+CREATE TABLE "OutboundEmail" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventId" TEXT,
+    "guestId" TEXT,
+    "type" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "replyTo" TEXT,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "lastError" TEXT,
+    "nextRetryAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" DATETIME,
+    "smtpHost" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "OutboundEmail_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "OutboundEmail_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "Guest" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OutboundEmail_status_nextRetryAt_idx" ON "OutboundEmail"("status", "nextRetryAt");
+
+-- CreateIndex
+CREATE INDEX "OutboundEmail_eventId_idx" ON "OutboundEmail"("eventId");
+
+-- CreateIndex
+CREATE INDEX "OutboundEmail_guestId_idx" ON "OutboundEmail"("guestId");
@@ -0,0 +1,56 @@
+-- Track each reminder sent to a guest (per schedule slot and channel)
+-- instead of a single reminderSentAt / smsReminderSentAt timestamp
+
+-- CreateTable
+CREATE TABLE "ReminderDelivery" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "guestId" TEXT NOT NULL,
+    "slot" TEXT,
+    "channel" TEXT NOT NULL,
+    "sentAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ReminderDelivery_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "Guest" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ReminderDelivery_guestId_idx" ON "ReminderDelivery"("guestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReminderDelivery_guestId_slot_channel_key" ON "ReminderDelivery"("guestId", "slot", "channel");
+
+-- Carry over reminders already sent. The slot is unknown, so they are recorded
+-- like manual reminders and cover any schedule slot that opened before them.
+INSERT INTO "ReminderDelivery" ("id", "guestId", "slot", "channel", "sentAt")
+SELECT 'migrated-email-' || "id", "id", NULL, 'email', "reminderSentAt" FROM "Guest" WHERE "reminderSentAt" IS NOT NULL;
+
+INSERT INTO "ReminderDelivery" ("id", "guestId", "slot", "channel", "sentAt")
+SELECT 'migrated-sms-' || "id", "id", NULL, 'sms', "smsReminderSentAt" FROM "Guest" WHERE "smsReminderSentAt" IS NOT NULL;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Guest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT,
+    "name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "dietaryNotes" TEXT,
+    "notifyByEmail" BOOLEAN NOT NULL DEFAULT true,
+    "notifyBySms" BOOLEAN NOT NULL DEFAULT false,
+    "token" TEXT NOT NULL,
+    "invitedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" DATETIME,
+    "maxGuests" INTEGER,
+    CONSTRAINT "Guest_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Guest" ("id", "eventId", "email", "phone", "name", "status", "dietaryNotes", "notifyByEmail", "notifyBySms", "token", "invitedAt", "respondedAt", "maxGuests")
+SELECT "id", "eventId", "email", "phone", "name", "status", "dietaryNotes", "notifyByEmail", "notifyBySms", "token", "invitedAt", "respondedAt", "maxGuests" FROM "Guest";
+DROP TABLE "Guest";
+ALTER TABLE "new_Guest" RENAME TO "Guest";
+CREATE UNIQUE INDEX "Guest_token_key" ON "Guest"("token");
+CREATE INDEX "Guest_eventId_idx" ON "Guest"("eventId");
+CREATE INDEX "Guest_token_idx" ON "Guest"("token");
+CREATE UNIQUE INDEX "Guest_eventId_email_key" ON "Guest"("eventId", "email");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,10 @@
+-- Custom RSVP questions per event, with answers stored on each guest
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "rsvpQuestions" TEXT;
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN "rsvpAnswers" TEXT;
+
+-- AlterTable
+ALTER TABLE "AdditionalGuest" ADD COLUMN "rsvpAnswers" TEXT;
@@ -0,0 +1,7 @@
+-- Event capacity with a first come, first served waitlist
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "capacity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN "waitlistedAt" DATETIME;
@@ -0,0 +1,7 @@
+-- Door check-in timestamps for invitees and their additional guests
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN "checkedInAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "AdditionalGuest" ADD COLUMN "checkedInAt" DATETIME;
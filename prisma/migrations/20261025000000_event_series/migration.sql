@@ -0,0 +1,59 @@
+-- Recurring event series; each occurrence is an Event linked to its series
+
+-- CreateTable
+CREATE TABLE "EventSeries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "hostId" TEXT NOT NULL,
+    "recurrence" TEXT NOT NULL,
+    "exceptions" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EventSeries_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EventSeries_hostId_idx" ON "EventSeries"("hostId");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Event" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "slug" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "locationName" TEXT,
+    "streetAddress1" TEXT,
+    "streetAddress2" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zipCode" TEXT,
+    "date" DATETIME NOT NULL,
+    "endDate" DATETIME,
+    "rsvpDeadline" DATETIME,
+    "timezone" TEXT,
+    "coverImage" TEXT,
+    "photoAlbumUrl" TEXT,
+    "reminderSchedule" TEXT,
+    "rsvpQuestions" TEXT,
+    "maxGuestsPerInvitee" INTEGER,
+    "capacity" INTEGER,
+    "replyTo" TEXT,
+    "hostId" TEXT NOT NULL,
+    "seriesId" TEXT,
+    "isPublic" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Event_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Event_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "EventSeries" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Event" ("id", "slug", "title", "description", "locationName", "streetAddress1", "streetAddress2", "city", "state", "zipCode", "date", "endDate", "rsvpDeadline", "timezone", "coverImage", "photoAlbumUrl", "reminderSchedule", "rsvpQuestions", "maxGuestsPerInvitee", "capacity", "replyTo", "hostId", "isPublic", "createdAt", "updatedAt")
+SELECT "id", "slug", "title", "description", "locationName", "streetAddress1", "streetAddress2", "city", "state", "zipCode", "date", "endDate", "rsvpDeadline", "timezone", "coverImage", "photoAlbumUrl", "reminderSchedule", "rsvpQuestions", "maxGuestsPerInvitee", "capacity", "replyTo", "hostId", "isPublic", "createdAt", "updatedAt" FROM "Event";
+DROP TABLE "Event";
+ALTER TABLE "new_Event" RENAME TO "Event";
+CREATE UNIQUE INDEX "Event_slug_key" ON "Event"("slug");
+CREATE INDEX "Event_hostId_idx" ON "Event"("hostId");
+CREATE INDEX "Event_date_idx" ON "Event"("date");
+CREATE INDEX "Event_seriesId_idx" ON "Event"("seriesId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,42 @@
+-- Sessions within an event, each with its own time, place, capacity and guest responses
+
+-- CreateTable
+CREATE TABLE "EventSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "locationName" TEXT,
+    "streetAddress1" TEXT,
+    "streetAddress2" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zipCode" TEXT,
+    "date" DATETIME NOT NULL,
+    "endDate" DATETIME,
+    "capacity" INTEGER,
+    "inviteAll" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EventSession_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "SessionGuest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "guestId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "respondedAt" DATETIME,
+    CONSTRAINT "SessionGuest_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "EventSession" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SessionGuest_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "Guest" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EventSession_eventId_idx" ON "EventSession"("eventId");
+
+-- CreateIndex
+CREATE INDEX "SessionGuest_guestId_idx" ON "SessionGuest"("guestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionGuest_sessionId_guestId_key" ON "SessionGuest"("sessionId", "guestId");
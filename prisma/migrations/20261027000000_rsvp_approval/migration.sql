@@ -0,0 +1,7 @@
+-- Host approval for public RSVPs from people not on the guest list
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "requireApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN "requestedStatus" TEXT;
@@ -0,0 +1,6 @@
+-- One-time codes that confirm a public RSVP change for an email already on the guest list
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN "verificationCode" TEXT;
+ALTER TABLE "Guest" ADD COLUMN "verificationExpiresAt" DATETIME;
+ALTER TABLE "Guest" ADD COLUMN "verificationAttempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+-- Record whether a guest answered from the public page, their RSVP link or a one-click email button
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN "respondedVia" TEXT;
@@ -0,0 +1,4 @@
+-- Let hosts turn the proof-of-work spam check off for a single event
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "spamProtection" BOOLEAN NOT NULL DEFAULT true;
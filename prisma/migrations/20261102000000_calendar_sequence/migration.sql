@@ -0,0 +1,4 @@
+-- Count calendar-relevant edits so exported events replace older copies (ICS SEQUENCE)
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "calendarSequence" INTEGER NOT NULL DEFAULT 0;
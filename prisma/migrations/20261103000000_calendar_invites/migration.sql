@@ -0,0 +1,5 @@
+-- Calendar invites (iMIP) sent with queued guest emails
+
+-- AlterTable
+ALTER TABLE "OutboundEmail" ADD COLUMN "calendarMethod" TEXT;
+ALTER TABLE "OutboundEmail" ADD COLUMN "calendarInvite" TEXT;
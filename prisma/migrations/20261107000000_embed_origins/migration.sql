@@ -0,0 +1,4 @@
+-- Sites allowed to embed an event's RSVP widget
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "embedOrigins" TEXT;
@@ -0,0 +1,10 @@
+-- Spam check solutions already accepted, shared by every instance
+
+-- CreateTable
+CREATE TABLE "UsedChallenge" (
+    "signature" TEXT NOT NULL PRIMARY KEY,
+    "expiresAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "UsedChallenge_expiresAt_idx" ON "UsedChallenge"("expiresAt");
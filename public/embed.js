@@ -0,0 +1,53 @@
+/**
+ * OwnRSVP RSVP widget. Paste this where the form should appear on your website:
+ *
+ *   <script src="https://rsvp.example.com/embed.js" data-event="your-event-slug" async></script>
+ *
+ * Options: data-theme="auto|light|dark", data-accent="#c2410c", data-headcount="0"
+ * (hide how many people are coming).
+ *
+ * The frame grows with the form. The widget's messages are fired on the element
+ * around the frame, and bubble up to the document, as "ownrsvp:ready",
+ * "ownrsvp:resize", "ownrsvp:rsvp" and "ownrsvp:headcount" events with the
+ * message as event.detail:
+ *
+ *   document.addEventListener('ownrsvp:rsvp', function (e) {
+ *     if (e.detail.rsvp.status === 'ATTENDING') showThankYou();
+ *   });
+ */
+(function () {
+  var script = document.currentScript;
+  var slug = script && script.getAttribute('data-event');
+  if (!slug) return;
+
+  var base = new URL(script.src).origin;
+  var params = new URLSearchParams();
+  var theme = script.getAttribute('data-theme');
+  var accent = script.getAttribute('data-accent');
+  var headcount = script.getAttribute('data-headcount');
+  if (theme) params.set('theme', theme);
+  if (accent) params.set('accent', accent.replace(/^#/, ''));
+  if (headcount === '0' || headcount === 'false') params.set('headcount', '0');
+  var query = params.toString();
+
+  var iframe = document.createElement('iframe');
+  iframe.src = base + '/embed/events/' + encodeURIComponent(slug) + (query ? '?' + query : '');
+  iframe.title = 'RSVP';
+  iframe.style.cssText = 'border:0;display:block;width:100%;max-width:640px;height:720px';
+
+  var container = document.createElement('div');
+  container.className = 'ownrsvp-embed';
+  container.appendChild(iframe);
+  script.parentNode.insertBefore(container, script.nextSibling);
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== base || event.source !== iframe.contentWindow) return;
+    var message = event.data;
+    if (!message || message.source !== 'ownrsvp') return;
+
+    if (typeof message.height === 'number') {
+      iframe.style.height = message.height + 'px';
+    }
+    container.dispatchEvent(new CustomEvent('ownrsvp:' + message.type, { detail: message, bubbles: true }));
+  });
+})();
@@ -0,0 +1,52 @@
+/**
+ * Hand one email, read from stdin, to /api/inbound/email.
+ *
+ * A local stand-in for an inbound mail service: point a mail server's pipe
+ * transport, procmail or fetchmail (--mda) at it to feed calendar replies from a
+ * mailbox to OwnRSVP, or replay a saved message while developing:
+ *
+ *   npm run email:inbound < reply.eml
+ *
+ * Uses NEXT_PUBLIC_APP_URL and INBOUND_EMAIL_SECRET from the environment.
+ */
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function main() {
+  const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  if (!secret) {
+    console.error('INBOUND_EMAIL_SECRET is not set');
+    process.exit(1);
+  }
+
+  const message = await readStdin();
+  const response = await fetch(`${appUrl}/api/inbound/email`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${secret}`,
+      'Content-Type': 'message/rfc822',
+    },
+    body: message,
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    console.error(`Inbound email failed (${response.status}):`, result.error || response.statusText);
+    // Exit code 75 (EX_TEMPFAIL) asks the mail server to try again later
+    process.exit(response.status >= 500 ? 75 : 1);
+  }
+
+  console.log(`Calendar replies: ${result.replies}, RSVPs updated: ${result.updated}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(75);
+});
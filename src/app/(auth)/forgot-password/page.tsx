@@ -8,6 +8,8 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/components/ui/use-toast';
 import { Loader2, ArrowLeft, Mail, CheckCircle } from 'lucide-react';
+import { getChallengeSolution } from '@/lib/challenge-solver';
+import { requestApi } from '@/lib/api-client';
 
 export default function ForgotPasswordPage() {
   const { toast } = useToast();
@@ -23,17 +25,10 @@ export default function ForgotPasswordPage() {
     const emailValue = formData.get('email') as string || email;
 
     try {
-      const response = await fetch('/api/auth/forgot-password', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email: emailValue }),
-      });
-
-      const data = await response.json();
+      // Solves the spam check when it's turned on in admin settings, otherwise resolves to undefined
+      const challenge = await getChallengeSolution();
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Something went wrong');
-      }
+      await requestApi('requestPasswordReset', { body: { email: emailValue, challenge } });
 
       setIsSubmitted(true);
     } catch (error) {
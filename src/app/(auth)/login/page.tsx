@@ -42,7 +42,9 @@ export default function LoginPage() {
       if (result?.error) {
         toast({
           title: 'Error',
-          description: 'Invalid email/username or password. Please check your credentials and try again.',
+          description: result.code === 'rate_limited'
+            ? 'Too many sign-in attempts. Please wait a few minutes and try again.'
+            : 'Invalid email/username or password. Please check your credentials and try again.',
           variant: 'destructive',
         });
       } else if (result?.ok) {
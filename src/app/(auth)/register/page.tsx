@@ -18,6 +18,7 @@ import {
 } from '@/components/ui/card';
 import { Sparkles, Loader2, ShieldCheck } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 export default function RegisterPage() {
   const router = useRouter();
@@ -36,8 +37,7 @@ export default function RegisterPage() {
   useEffect(() => {
     async function checkRegistration() {
       try {
-        const res = await fetch('/api/auth/public-register');
-        const data = await res.json();
+        const data = await requestApi('getRegistrationStatus');
         setRegistrationEnabled(data.registrationEnabled);
       } catch {
         setRegistrationEnabled(false);
@@ -53,17 +53,7 @@ export default function RegisterPage() {
     setIsLoading(true);
 
     try {
-      const res = await fetch('/api/auth/public-register', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Registration failed');
-      }
+      await requestApi('registerFirstAdmin', { body: formData });
 
       // Auto-login with the credentials just used
       const signInResult = await signIn('credentials', {
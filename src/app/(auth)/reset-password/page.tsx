@@ -10,6 +10,7 @@ import { PasswordInput } from '@/components/ui/password-input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/components/ui/use-toast';
 import { Loader2, Lock, CheckCircle, XCircle, ArrowLeft } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
 
 function ResetPasswordContent() {
   const { toast } = useToast();
@@ -34,8 +35,7 @@ function ResetPasswordContent() {
       }
 
       try {
-        const response = await fetch(`/api/auth/reset-password?token=${token}`);
-        const data = await response.json();
+        const data = await requestApi('checkPasswordResetToken', { query: { token } });
 
         if (data.valid) {
           setIsValid(true);
@@ -54,6 +54,7 @@ function ResetPasswordContent() {
 
   async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
+    if (!token) return;
 
     if (password !== confirmPassword) {
       toast({
@@ -76,17 +77,7 @@ function ResetPasswordContent() {
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/auth/reset-password', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ token, password }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to reset password');
-      }
+      await requestApi('resetPassword', { body: { token, password } });
 
       setIsSuccess(true);
 
@@ -5,6 +5,7 @@ import { prisma } from '@/lib/prisma';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AdminUserManagement } from '@/components/admin-user-management';
 import { ConfigManagement } from '@/components/config-management';
+import { EmailDeliveryLog } from '@/components/email-delivery-log';
 import { RestartServerButton } from '@/components/restart-server-button';
 import { FactoryResetButton } from '@/components/factory-reset-button';
 import { Users, Calendar, Shield } from 'lucide-react';
@@ -108,6 +109,10 @@ export default async function AdminPage() {
       <div className="mb-8 mt-8">
         <ConfigManagement />
       </div>
+
+      <div className="mb-8">
+        <EmailDeliveryLog showEvent />
+      </div>
     </div>
   );
 }
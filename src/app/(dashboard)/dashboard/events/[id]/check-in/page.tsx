@@ -0,0 +1,55 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { ArrowLeft } from 'lucide-react';
+import { formatEventDateTime } from '@/lib/timezone';
+import { CheckInClient } from '@/components/check-in-client';
+
+interface CheckInPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function CheckInPage({ params, searchParams }: CheckInPageProps) {
+  const { id } = await params;
+  const { token } = await searchParams;
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    notFound();
+  }
+
+  // Hosts and co-hosts who can edit guests can work the door
+  const canManage = await canManageEvent(session.user.id, id, 'editGuests');
+  if (!canManage) {
+    notFound();
+  }
+
+  const event = await prisma.event.findUnique({
+    where: { id },
+    select: { id: true, title: true, date: true, timezone: true },
+  });
+
+  if (!event) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-6">
+      <Link href={`/dashboard/events/${event.id}`} className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4">
+        <ArrowLeft className="w-4 h-4" />
+        Back to Event
+      </Link>
+
+      <div className="mb-6">
+        <p className="label-mono mb-1">Door check-in</p>
+        <h1 className="text-2xl font-semibold leading-tight">{event.title}</h1>
+        <p className="text-sm text-muted-foreground">{formatEventDateTime(event.date, event.timezone)}</p>
+      </div>
+
+      <CheckInClient eventId={event.id} initialToken={token ?? null} />
+    </div>
+  );
+}
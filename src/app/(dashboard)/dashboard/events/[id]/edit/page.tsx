@@ -9,6 +9,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowLeft, Loader2, Trash2, Bell } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
@@ -16,7 +23,11 @@ import { ImageUpload } from '@/components/image-upload';
 import { ReminderManager } from '@/components/reminder-manager';
 import { Reminder, parseReminderSchedule, serializeReminderSchedule } from '@/lib/reminder-utils';
 import { TimezoneSelector } from '@/components/timezone-selector';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { describeRecurrenceRule, parseRecurrenceRule } from '@/lib/recurrence';
 import { getBrowserTimezone } from '@/lib/timezone';
+import { COMMENT_MODE_OPTIONS, CommentMode } from '@/lib/comments';
+import { requestApi } from '@/lib/api-client';
 
 export default function EditEventPage() {
   const router = useRouter();
@@ -47,21 +58,30 @@ export default function EditEventPage() {
     replyTo: '',
     reminderSchedule: [] as Reminder[],
     maxGuestsPerInvitee: null as number | null,
+    capacity: null as number | null,
+    requireApproval: false,
+    commentMode: 'OPEN' as CommentMode,
+    spamProtection: true,
     unlimitedGuests: true,
   });
   const [notifyGuests, setNotifyGuests] = useState(false);
+  // Set when the event is one date of a recurring series
+  const [seriesDescription, setSeriesDescription] = useState<string | null>(null);
+  const [seriesScope, setSeriesScope] = useState<'this' | 'future'>('this');
 
   useEffect(() => {
     async function fetchEvent() {
       try {
-        const response = await fetch(`/api/events/${params.id}`);
-        if (!response.ok) throw new Error('Failed to fetch event');
-        
-        const { event } = await response.json();
+        const { event } = await requestApi('getEventDetails', { params: { id: params.id as string } });
         const date = new Date(event.date);
         const endDate = event.endDate ? new Date(event.endDate) : null;
         const rsvpDeadline = event.rsvpDeadline ? new Date(event.rsvpDeadline) : null;
         
+        if (event.series) {
+          const rule = parseRecurrenceRule(event.series.recurrence);
+          setSeriesDescription(rule ? describeRecurrenceRule(rule) : 'Repeating event');
+        }
+
         // Parse reminder schedule (handles both old and new formats)
         const reminderSchedule = parseReminderSchedule(event.reminderSchedule);
 
@@ -87,6 +107,10 @@ export default function EditEventPage() {
           reminderSchedule,
           maxGuestsPerInvitee: event.maxGuestsPerInvitee,
           unlimitedGuests: event.maxGuestsPerInvitee === null,
+          capacity: event.capacity ?? null,
+          requireApproval: event.requireApproval ?? false,
+          commentMode: event.commentMode ?? 'OPEN',
+          spamProtection: event.spamProtection ?? true,
         });
       } catch {
         toast({
@@ -167,10 +191,9 @@ export default function EditEventPage() {
         }
       }
 
-      const response = await fetch(`/api/events/${params.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await requestApi('updateEvent', {
+        params: { id: params.id as string },
+        body: {
           title,
           description: description || null,
           locationName: locationName || null,
@@ -188,24 +211,23 @@ export default function EditEventPage() {
           replyTo: (replyTo && replyTo.trim() !== '') ? replyTo : null,
           reminderSchedule: serializeReminderSchedule(reminderSchedule),
           maxGuestsPerInvitee: !formData.unlimitedGuests && formData.maxGuestsPerInvitee ? formData.maxGuestsPerInvitee : null,
+          capacity: formData.capacity || null,
+          requireApproval: formData.requireApproval,
+          commentMode: formData.commentMode,
+          spamProtection: formData.spamProtection,
           notifyGuests,
-        }),
+          scope: seriesScope,
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        logger.error('API Error Response:', JSON.stringify(data, null, 2));
-        logger.error('Response Status:', response.status);
-        const errorMessage = data.error || (data.details ? JSON.stringify(data.details) : 'Failed to update event');
-        throw new Error(errorMessage);
-      }
-      
       toast({
         title: 'Event updated',
-        description: data.changesNotified 
-          ? `Your changes have been saved and guests have been notified.`
-          : 'Your changes have been saved.',
+        description: [
+          data.occurrencesUpdated
+            ? `Your changes have been saved to this date and ${data.occurrencesUpdated} later date${data.occurrencesUpdated !== 1 ? 's' : ''}.`
+            : 'Your changes have been saved.',
+          data.changesNotified ? 'Guests have been notified.' : '',
+        ].filter(Boolean).join(' '),
       });
 
       router.push(`/dashboard/events/${params.id}`);
@@ -223,21 +245,25 @@ export default function EditEventPage() {
   }
 
   async function handleDelete() {
-    if (!confirm('Are you sure you want to delete this event? This action cannot be undone.')) {
+    const deleteLaterDates = seriesDescription !== null && seriesScope === 'future';
+    const message = deleteLaterDates
+      ? 'Are you sure you want to delete this date and every later date in the series? This action cannot be undone.'
+      : 'Are you sure you want to delete this event? This action cannot be undone.';
+    if (!confirm(message)) {
       return;
     }
 
     setIsDeleting(true);
 
     try {
-      const response = await fetch(`/api/events/${params.id}`, {
-        method: 'DELETE',
+      await requestApi('deleteEvent', {
+        params: { id: params.id as string },
+        query: {
+          scope: deleteLaterDates ? 'future' : undefined,
+          notify: notifyGuests ? 'true' : undefined,
+        },
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to delete event');
-      }
-
       toast({
         title: 'Event deleted',
         description: 'The event has been permanently deleted.',
@@ -516,6 +542,8 @@ export default function EditEventPage() {
               reminders={formData.reminderSchedule}
               onChange={(reminders) => setFormData({ ...formData, reminderSchedule: reminders })}
               disabled={isLoading}
+              eventDate={formData.date && formData.time ? new Date(`${formData.date}T${formData.time}:00`) : null}
+              timezone={formData.timezone || getBrowserTimezone()}
             />
 
             <div className="space-y-2">
@@ -567,6 +595,116 @@ export default function EditEventPage() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="capacity">Event Capacity (Optional)</Label>
+              <Input
+                id="capacity"
+                type="number"
+                min="1"
+                value={formData.capacity || ''}
+                onChange={(e) => {
+                  const value = e.target.value ? parseInt(e.target.value) : null;
+                  setFormData({
+                    ...formData,
+                    capacity: value,
+                  });
+                }}
+                disabled={isLoading}
+                placeholder="Unlimited"
+              />
+              <p className="text-xs text-muted-foreground">
+                Total number of people who can attend, counting additional guests. Once full, new
+                RSVPs join a waitlist and are let in automatically when spots open up.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="requireApproval"
+                  checked={formData.requireApproval}
+                  onCheckedChange={(checked) => setFormData({ ...formData, requireApproval: checked as boolean })}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="requireApproval" className="text-sm font-normal cursor-pointer">
+                  Require approval for public RSVPs
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground pl-6">
+                RSVPs from people who aren&apos;t on the guest list wait for you to approve them. They
+                only get a confirmation and a link to their RSVP once approved.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="commentMode">Guest Wall</Label>
+              <Select
+                value={formData.commentMode}
+                onValueChange={(value) => setFormData({ ...formData, commentMode: value as CommentMode })}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="commentMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMENT_MODE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {COMMENT_MODE_OPTIONS.find((option) => option.value === formData.commentMode)?.description}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="spamProtection"
+                  checked={formData.spamProtection}
+                  onCheckedChange={(checked) => setFormData({ ...formData, spamProtection: checked as boolean })}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="spamProtection" className="text-sm font-normal cursor-pointer">
+                  Spam check on public forms
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground pl-6">
+                The RSVP form and guest wall solve a short puzzle in the browser before submitting, which
+                keeps bots out. Only applies when spam protection is turned on in admin settings.
+              </p>
+            </div>
+
+            {/* Recurring series */}
+            {seriesDescription && (
+              <div className="space-y-3 rounded-[3px] border border-border p-4">
+                <div>
+                  <Label className="font-medium">This event repeats</Label>
+                  <p className="text-sm text-muted-foreground">{seriesDescription}</p>
+                </div>
+                <RadioGroup
+                  value={seriesScope}
+                  onValueChange={(value) => setSeriesScope(value as 'this' | 'future')}
+                  disabled={isLoading}
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="this" id="scope-this" />
+                    <Label htmlFor="scope-this" className="font-normal">This date only</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="future" id="scope-future" />
+                    <Label htmlFor="scope-future" className="font-normal">This and all later dates</Label>
+                  </div>
+                </RadioGroup>
+                <p className="text-xs text-muted-foreground">
+                  Later dates move by the same amount if you change the start time or date.
+                  Saving and deleting both use this choice.
+                </p>
+              </div>
+            )}
+
             {/* Notify Guests */}
             <div className="bg-accent/[0.07] border-l-2 border-l-accent rounded-[3px] p-4">
               <div className="flex items-start gap-3">
@@ -582,7 +720,8 @@ export default function EditEventPage() {
                     Notify guests of changes
                   </Label>
                   <p className="text-sm text-muted-foreground">
-                    Send an email/SMS notification to all guests if you change the date, time, location, or title.
+                    Send an email/SMS notification to all guests if you change the date, time, location, or title,
+                    with an updated calendar invite. Deleting the event emails them a cancellation instead.
                   </p>
                 </div>
               </div>
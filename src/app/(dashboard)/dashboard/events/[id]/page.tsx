@@ -3,11 +3,12 @@ import Link from 'next/link';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getAppUrl } from '@/lib/config';
-import { canManageEvent, getEventRole } from '@/lib/event-access';
+import { canManageEvent, getEventRole, getEventPermissions } from '@/lib/event-access';
+import { getSessionStats } from '@/lib/event-sessions';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Calendar, MapPin, Clock, Link as LinkIcon, Edit, Navigation } from 'lucide-react';
+import { ArrowLeft, Calendar, MapPin, Clock, Link as LinkIcon, Edit, Navigation, Webhook, Code } from 'lucide-react';
 import { isPast } from 'date-fns';
 import { formatEventDateTime, formatEventDateTimeShort } from '@/lib/timezone';
 import { EventPageClient } from '@/components/event-page-client';
@@ -17,7 +18,18 @@ import { DeleteEventButton } from '@/components/delete-event-button';
 import { ManageCoHosts } from '@/components/manage-cohosts';
 import { QRCode } from '@/components/qr-code';
 import { ReminderSection } from '@/components/reminder-section';
-import { formatAddressOneLine, formatAddressMultiLine, formatAddressForMaps, hasAddress } from '@/lib/address-utils';
+import { RsvpQuestionSection } from '@/components/rsvp-question-section';
+import { EventSessionSection } from '@/components/event-session-section';
+import { EmailTemplateSection } from '@/components/email-template-section';
+import { EmailDeliveryLog } from '@/components/email-delivery-log';
+import { WebhookSettings } from '@/components/webhook-settings';
+import { EmbedSettings } from '@/components/embed-settings';
+import { RsvpApprovalQueue } from '@/components/rsvp-approval-queue';
+import { PENDING_APPROVAL } from '@/lib/rsvp-approval';
+import { formatAddressMultiLine, formatAddressForMaps, hasAddress } from '@/lib/address-utils';
+import { getImageUrl } from '@/lib/media-variants';
+import { toCalendarEvent } from '@/lib/calendar';
+import { parseEmbedOrigins } from '@/lib/embed';
 
 interface EventPageProps {
   params: Promise<{ id: string }>;
@@ -31,8 +43,8 @@ export default async function EventPage({ params }: EventPageProps) {
     notFound();
   }
 
-  // Check if user can manage this event (host, co-host, or admin)
-  const canManage = await canManageEvent(session.user.id, id);
+  // Check if user can see this event (host, co-host, viewer, or admin)
+  const canManage = await canManageEvent(session.user.id, id, 'viewGuests');
   if (!canManage) {
     notFound();
   }
@@ -41,6 +53,8 @@ export default async function EventPage({ params }: EventPageProps) {
   const userRole = await getEventRole(session.user.id, id);
   const isHost = userRole === 'HOST';
   const isAdmin = userRole === 'ADMIN';
+  // Viewers get a read-only page
+  const permissions = getEventPermissions(userRole);
 
   const event = await prisma.event.findUnique({
     where: { id },
@@ -52,14 +66,21 @@ export default async function EventPage({ params }: EventPageProps) {
         orderBy: { invitedAt: 'desc' },
         include: {
           additionalGuests: true,
+          reminderDeliveries: {
+            select: { sentAt: true },
+          },
         },
       },
       comments: {
-        orderBy: { createdAt: 'desc' },
+        where: { parentId: null },
+        orderBy: [{ pinned: 'desc' }, { createdAt: 'desc' }],
         include: {
           guest: {
             select: { name: true, email: true },
           },
+          replies: {
+            orderBy: { createdAt: 'asc' },
+          },
         },
       },
       coHosts: {
@@ -80,20 +101,27 @@ export default async function EventPage({ params }: EventPageProps) {
     notFound();
   }
 
+  // RSVPs waiting for a host's approval are reviewed separately and aren't on the guest list yet
+  const approvalRequests = event.guests.filter((g: typeof event.guests[0]) => g.status === PENDING_APPROVAL);
+  const guests = event.guests.filter((g: typeof event.guests[0]) => g.status !== PENDING_APPROVAL);
+
   // Calculate total attendees including additional guests
-  const attendingGuests = event.guests.filter((g: typeof event.guests[0]) => g.status === 'ATTENDING');
+  const attendingGuests = guests.filter((g: typeof event.guests[0]) => g.status === 'ATTENDING');
   const totalAttendees = attendingGuests.reduce((sum: number, guest) => {
     return sum + 1 + (guest.additionalGuests?.length || 0); // 1 for main guest + additional guests
   }, 0);
 
   const stats = {
-    total: event.guests.length,
+    total: guests.length,
     attending: totalAttendees, // Total number of people attending (including additional guests)
-    notAttending: event.guests.filter((g: typeof event.guests[0]) => g.status === 'NOT_ATTENDING').length,
-    maybe: event.guests.filter((g: typeof event.guests[0]) => g.status === 'MAYBE').length,
-    pending: event.guests.filter((g: typeof event.guests[0]) => g.status === 'PENDING').length,
+    notAttending: guests.filter((g: typeof event.guests[0]) => g.status === 'NOT_ATTENDING').length,
+    maybe: guests.filter((g: typeof event.guests[0]) => g.status === 'MAYBE').length,
+    pending: guests.filter((g: typeof event.guests[0]) => g.status === 'PENDING').length,
+    waitlisted: guests.filter((g: typeof event.guests[0]) => g.status === 'WAITLISTED').length,
   };
 
+  const sessions = await getSessionStats(event.id);
+
   const appUrl = await getAppUrl();
   const publicUrl = `${appUrl}/events/${event.slug}`;
 
@@ -113,7 +141,7 @@ export default async function EventPage({ params }: EventPageProps) {
           {event.coverImage && (
             <div className="w-full max-h-[480px] overflow-hidden bg-foreground/[0.04] flex items-center justify-center border-b border-border">
               <img
-                src={event.coverImage}
+                src={getImageUrl(event.coverImage, 'card')}
                 alt={event.title}
                 className="w-full max-h-[480px] object-contain"
               />
@@ -126,12 +154,14 @@ export default async function EventPage({ params }: EventPageProps) {
                 <div className="flex items-start justify-between gap-4">
                   <h1 className="text-2xl font-semibold leading-none tracking-tight">{event.title}</h1>
                   <div className="flex gap-2">
-                    <Link href={`/dashboard/events/${event.id}/edit`}>
-                      <Button variant="outline" size="sm" className="gap-2">
-                        <Edit className="w-4 h-4" />
-                        Edit
-                      </Button>
-                    </Link>
+                    {permissions.editEvent && (
+                      <Link href={`/dashboard/events/${event.id}/edit`}>
+                        <Button variant="outline" size="sm" className="gap-2">
+                          <Edit className="w-4 h-4" />
+                          Edit
+                        </Button>
+                      </Link>
+                    )}
                     {(isAdmin || isHost) && (
                       <DeleteEventButton eventId={event.id} eventTitle={event.title} />
                     )}
@@ -187,14 +217,7 @@ export default async function EventPage({ params }: EventPageProps) {
                   )}
                 </div>
               </div>
-              <AddToCalendar
-                title={event.title}
-                description={event.description || ''}
-                location={formatAddressOneLine(event)}
-                startDate={event.date}
-                endDate={event.endDate}
-                url={publicUrl}
-              />
+              <AddToCalendar event={toCalendarEvent(event, publicUrl)} />
             </div>
           </CardHeader>
           {event.description && (
@@ -205,14 +228,88 @@ export default async function EventPage({ params }: EventPageProps) {
         </Card>
 
         {/* Reminder Schedule */}
-        {(isHost || isAdmin || userRole === 'COHOST') && (
+        {permissions.editEvent && (
           <ReminderSection
             eventId={event.id}
             reminderSchedule={event.reminderSchedule}
-            canEdit={isHost || isAdmin || userRole === 'COHOST'}
+            canEdit={permissions.editEvent}
+            eventDate={event.date}
+            timezone={event.timezone}
           />
         )}
 
+        {/* RSVP Questions */}
+        {permissions.editEvent && (
+          <RsvpQuestionSection
+            eventId={event.id}
+            rsvpQuestions={event.rsvpQuestions}
+            canEdit={permissions.editEvent}
+          />
+        )}
+
+        {/* Sessions */}
+        {(permissions.editEvent || sessions.length > 0) && (
+          <EventSessionSection
+            eventId={event.id}
+            sessions={sessions}
+            guests={guests}
+            timezone={event.timezone}
+            canEdit={permissions.editEvent}
+          />
+        )}
+
+        {/* Email Templates */}
+        {permissions.editEvent && (
+          <EmailTemplateSection eventId={event.id} />
+        )}
+
+        {/* Email Delivery */}
+        {permissions.sendMessages && (
+          <EmailDeliveryLog eventId={event.id} />
+        )}
+
+        {/* Webhooks */}
+        {permissions.editEvent && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Webhook className="w-5 h-5" />
+                Webhooks
+              </CardTitle>
+              <CardDescription>
+                Send this event&apos;s RSVPs, check-ins and changes to another app. Webhooks on your profile cover all your events.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WebhookSettings eventId={event.id} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Embeddable RSVP widget */}
+        {permissions.editEvent && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Code className="w-5 h-5" />
+                Embed on Your Website
+              </CardTitle>
+              <CardDescription>
+                Put the RSVP form and headcount on your wedding or club website.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EmbedSettings
+                eventId={event.id}
+                slug={event.slug}
+                appUrl={appUrl}
+                isPublic={event.isPublic}
+                initialOrigins={parseEmbedOrigins(event.embedOrigins)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Photo Album */}
         {event.photoAlbumUrl && (
           <Card>
@@ -270,17 +367,26 @@ export default async function EventPage({ params }: EventPageProps) {
         <ManageCoHosts
           eventId={event.id}
           coHosts={event.coHosts}
-          isHost={isHost || isAdmin}
+          isHost={permissions.manageCoHosts}
         />
 
+        {/* RSVPs awaiting approval */}
+        {permissions.editGuests && approvalRequests.length > 0 && (
+          <RsvpApprovalQueue eventId={event.id} requests={approvalRequests} />
+        )}
+
         <EventPageClient
           eventId={event.id}
           eventSlug={event.slug}
-          guests={event.guests}
+          guests={guests}
           comments={event.comments}
           stats={stats}
           maxGuestsPerInvitee={event.maxGuestsPerInvitee}
+          capacity={event.capacity}
+          sessions={sessions}
+          rsvpQuestions={event.rsvpQuestions}
           appUrl={appUrl}
+          permissions={permissions}
         />
       </div>
     </div>
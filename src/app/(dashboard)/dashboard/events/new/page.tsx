@@ -9,6 +9,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowLeft, Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
@@ -16,7 +23,12 @@ import { ImageUpload } from '@/components/image-upload';
 import { ReminderManager } from '@/components/reminder-manager';
 import { Reminder, serializeReminderSchedule } from '@/lib/reminder-utils';
 import { TimezoneSelector } from '@/components/timezone-selector';
+import { RecurrenceEditor } from '@/components/recurrence-editor';
+import { RecurrenceRule, serializeRecurrenceRule } from '@/lib/recurrence';
 import { getBrowserTimezone } from '@/lib/timezone';
+import { COMMENT_MODE_OPTIONS, CommentMode } from '@/lib/comments';
+import { requestApi } from '@/lib/api-client';
+import type { ApiRequestBody } from '@/lib/api-routes';
 
 export default function NewEventPage() {
   const router = useRouter();
@@ -45,6 +57,12 @@ export default function NewEventPage() {
     reminderSchedule: [] as Reminder[],
     maxGuestsPerInvitee: null as number | null,
     unlimitedGuests: true,
+    capacity: null as number | null,
+    requireApproval: false,
+    commentMode: 'OPEN' as CommentMode,
+    spamProtection: true,
+    recurrence: null as RecurrenceRule | null,
+    recurrenceExceptions: [] as string[],
   });
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -114,7 +132,7 @@ export default function NewEventPage() {
       const photoAlbumUrl = formDataObj.get('photoAlbumUrl') as string;
       const replyTo = formDataObj.get('replyTo') as string;
 
-      const payload: Record<string, any> = {
+      const payload: ApiRequestBody<'createEvent'> = {
         title,
         description,
         locationName: locationName || null,
@@ -149,24 +167,25 @@ export default function NewEventPage() {
         payload.maxGuestsPerInvitee = null;
       }
 
-      const response = await fetch('/api/events', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-
-      const data = await response.json();
+      payload.capacity = formData.capacity || null;
+      payload.requireApproval = formData.requireApproval;
+      payload.commentMode = formData.commentMode;
+      payload.spamProtection = formData.spamProtection;
 
-      if (!response.ok) {
-        logger.error('API Error Response:', JSON.stringify(data, null, 2));
-        logger.error('Response Status:', response.status);
-        const errorMessage = data.error || (data.details ? JSON.stringify(data.details) : 'Failed to create event');
-        throw new Error(errorMessage);
+      if (formData.recurrence) {
+        payload.recurrence = {
+          rule: serializeRecurrenceRule(formData.recurrence),
+          exceptions: formData.recurrenceExceptions,
+        };
       }
 
+      const data = await requestApi('createEvent', { body: payload });
+
       toast({
-        title: 'Event created!',
-        description: 'Now add guests to send invitations.',
+        title: data.occurrences ? `${data.occurrences} dates created!` : 'Event created!',
+        description: data.occurrences
+          ? 'Guests and co-hosts you add are shared with the later dates.'
+          : 'Now add guests to send invitations.',
       });
 
       router.push(`/dashboard/events/${data.event.id}`);
@@ -406,6 +425,15 @@ export default function NewEventPage() {
               disabled={isLoading}
             />
 
+            <RecurrenceEditor
+              rule={formData.recurrence}
+              exceptions={formData.recurrenceExceptions}
+              onChange={(recurrence, recurrenceExceptions) => setFormData({ ...formData, recurrence, recurrenceExceptions })}
+              disabled={isLoading}
+              startDate={formData.date && formData.time ? new Date(`${formData.date}T${formData.time}:00`) : null}
+              timezone={formData.timezone || getBrowserTimezone()}
+            />
+
             <div className="grid sm:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="rsvpDeadlineDate">RSVP Deadline Date (optional)</Label>
@@ -438,6 +466,8 @@ export default function NewEventPage() {
               reminders={formData.reminderSchedule}
               onChange={(reminders) => setFormData({ ...formData, reminderSchedule: reminders })}
               disabled={isLoading}
+              eventDate={formData.date && formData.time ? new Date(`${formData.date}T${formData.time}:00`) : null}
+              timezone={formData.timezone || getBrowserTimezone()}
             />
 
             <div className="space-y-2">
@@ -489,6 +519,88 @@ export default function NewEventPage() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="capacity">Event Capacity (Optional)</Label>
+              <Input
+                id="capacity"
+                type="number"
+                min="1"
+                value={formData.capacity || ''}
+                onChange={(e) => {
+                  const value = e.target.value ? parseInt(e.target.value) : null;
+                  setFormData({
+                    ...formData,
+                    capacity: value,
+                  });
+                }}
+                disabled={isLoading}
+                placeholder="Unlimited"
+              />
+              <p className="text-xs text-muted-foreground">
+                Total number of people who can attend, counting additional guests. Once full, new
+                RSVPs join a waitlist and are let in automatically when spots open up.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="requireApproval"
+                  checked={formData.requireApproval}
+                  onCheckedChange={(checked) => setFormData({ ...formData, requireApproval: checked as boolean })}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="requireApproval" className="text-sm font-normal cursor-pointer">
+                  Require approval for public RSVPs
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground pl-6">
+                RSVPs from people who aren&apos;t on the guest list wait for you to approve them. They
+                only get a confirmation and a link to their RSVP once approved.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="commentMode">Guest Wall</Label>
+              <Select
+                value={formData.commentMode}
+                onValueChange={(value) => setFormData({ ...formData, commentMode: value as CommentMode })}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="commentMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMENT_MODE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {COMMENT_MODE_OPTIONS.find((option) => option.value === formData.commentMode)?.description}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="spamProtection"
+                  checked={formData.spamProtection}
+                  onCheckedChange={(checked) => setFormData({ ...formData, spamProtection: checked as boolean })}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="spamProtection" className="text-sm font-normal cursor-pointer">
+                  Spam check on public forms
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground pl-6">
+                The RSVP form and guest wall solve a short puzzle in the browser before submitting, which
+                keeps bots out. Only applies when spam protection is turned on in admin settings.
+              </p>
+            </div>
+
             <div className="flex gap-4 pt-4">
               <Button type="submit" className="flex-1" disabled={isLoading} data-testid="event-submit-button">
                 {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
@@ -10,6 +10,7 @@ import { formatEventDateTimeShort } from '@/lib/timezone';
 import { EventCardActions } from '@/components/event-card-actions';
 import { PastEventsBulkActions } from '@/components/past-events-bulk-actions';
 import { formatAddressOneLine, hasAddress } from '@/lib/address-utils';
+import { getImageUrl } from '@/lib/media-variants';
 
 export default async function DashboardPage() {
   const session = await auth();
@@ -88,7 +89,7 @@ export default async function DashboardPage() {
   // Check permissions for all events
   const eventsWithPermissions = await Promise.all(
     events.map(async (event) => {
-      const canManage = await canManageEvent(session.user.id, event.id);
+      const canManage = await canManageEvent(session.user.id, event.id, 'editEvent');
       return { ...event, canManage };
     })
   );
@@ -153,7 +154,7 @@ export default async function DashboardPage() {
                         {event.coverImage && (
                           <div className="w-full h-40 overflow-hidden bg-muted">
                             <img
-                              src={event.coverImage}
+                              src={getImageUrl(event.coverImage, 'thumb')}
                               alt={event.title}
                               className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                             />
@@ -12,10 +12,14 @@ import { Label } from '@/components/ui/label';
 import { PasswordInput } from '@/components/ui/password-input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { ArrowLeft, Loader2, User, Sun, Moon, Monitor, Lock, AlertCircle, Bell } from 'lucide-react';
+import { ArrowLeft, Loader2, User, Sun, Moon, Monitor, Lock, AlertCircle, Bell, CalendarDays, Webhook, KeyRound } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
+import { CalendarFeedSettings } from '@/components/calendar-feed-settings';
+import { WebhookSettings } from '@/components/webhook-settings';
+import { ApiTokenSettings } from '@/components/api-token-settings';
 import { useToast } from '@/components/ui/use-toast';
 import { cn, isValidEmail } from '@/lib/utils';
+import { requestApi } from '@/lib/api-client';
 
 function ProfilePageContent() {
   const { data: session, update } = useSession();
@@ -45,32 +49,19 @@ function ProfilePageContent() {
   useEffect(() => {
     async function fetchUserData() {
       try {
-        const response = await fetch('/api/user/profile');
-        if (response.ok) {
-          const data = await response.json();
-          if (data.user) {
-            setName(data.user.name || '');
-            // Ensure username is set - if null/undefined, generate a default or show error
-            if (!data.user.username) {
-              logger.warn('User does not have a username. This should not happen after migration.');
-              // Try to generate a username from email as fallback
-              const emailPrefix = data.user.email?.split('@')[0]?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'user';
-              setUsername(emailPrefix);
-            } else {
-              setUsername(data.user.username);
-            }
-            setEmail(data.user.email || '');
-            setNotifyOnRsvpChanges(data.user.notifyOnRsvpChanges ?? true);
-          }
+        const { user } = await requestApi('getProfile');
+        setName(user.name || '');
+        // Ensure username is set - if null/undefined, generate a default or show error
+        if (!user.username) {
+          logger.warn('User does not have a username. This should not happen after migration.');
+          // Try to generate a username from email as fallback
+          const emailPrefix = user.email?.split('@')[0]?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'user';
+          setUsername(emailPrefix);
         } else {
-          const errorData = await response.json();
-          logger.error('Failed to fetch user data:', errorData);
-          toast({
-            title: 'Error',
-            description: errorData.error || 'Failed to load profile data',
-            variant: 'destructive',
-          });
+          setUsername(user.username);
         }
+        setEmail(user.email || '');
+        setNotifyOnRsvpChanges(user.notifyOnRsvpChanges ?? true);
       } catch (error) {
         logger.error('Failed to fetch user data:', error);
         toast({
@@ -110,18 +101,7 @@ function ProfilePageContent() {
     }
 
     try {
-      const response = await fetch('/api/user/profile', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, username, email }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        logger.error('Profile update error:', data);
-        throw new Error(data.error || data.details?.[0]?.message || 'Failed to update profile');
-      }
+      const data = await requestApi('updateProfile', { body: { name, username, email } });
 
       // Update session with new name and email
       await update({ 
@@ -144,16 +124,12 @@ function ProfilePageContent() {
     }
   }
 
-  async function handleThemeChange(newTheme: string) {
+  async function handleThemeChange(newTheme: 'light' | 'dark' | 'system') {
     setTheme(newTheme);
     setIsSavingTheme(true);
 
     try {
-      await fetch('/api/user/profile', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ theme: newTheme }),
-      });
+      await requestApi('updateProfile', { body: { theme: newTheme } });
 
       toast({
         title: 'Theme updated',
@@ -191,17 +167,7 @@ function ProfilePageContent() {
     setIsChangingPassword(true);
 
     try {
-      const response = await fetch('/api/user/profile', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ currentPassword, newPassword }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to change password');
-      }
+      await requestApi('updateProfile', { body: { currentPassword, newPassword } });
 
       toast({
         title: 'Password changed',
@@ -227,7 +193,7 @@ function ProfilePageContent() {
     { value: 'light', label: 'Light', icon: Sun },
     { value: 'dark', label: 'Dark', icon: Moon },
     { value: 'system', label: 'System', icon: Monitor },
-  ];
+  ] as const;
 
   return (
     <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -457,24 +423,16 @@ function ProfilePageContent() {
                     setNotifyOnRsvpChanges(newValue);
                     setIsSavingNotification(true);
                     try {
-                      const response = await fetch('/api/user/profile', {
-                        method: 'PATCH',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ notifyOnRsvpChanges: newValue }),
+                      await requestApi('updateProfile', { body: { notifyOnRsvpChanges: newValue } });
+                      toast({
+                        title: 'Notification preference updated',
+                        description: newValue 
+                          ? 'You will receive email notifications when guests RSVP or update their RSVP.'
+                          : 'You will no longer receive RSVP change notifications.',
                       });
-                      if (response.ok) {
-                        toast({
-                          title: 'Notification preference updated',
-                          description: newValue 
-                            ? 'You will receive email notifications when guests RSVP or update their RSVP.'
-                            : 'You will no longer receive RSVP change notifications.',
-                        });
-                      } else {
-                        // Revert on error
-                        setNotifyOnRsvpChanges(!newValue);
-                        throw new Error('Failed to update notification preference');
-                      }
                     } catch (error) {
+                      // Revert on error
+                      setNotifyOnRsvpChanges(!newValue);
                       toast({
                         title: 'Error',
                         description: 'Failed to update notification preference',
@@ -501,6 +459,64 @@ function ProfilePageContent() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Calendar Feeds */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 rounded-[3px] bg-primary/10 flex items-center justify-center">
+                <CalendarDays className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Calendar Feeds</CardTitle>
+                <CardDescription>
+                  Subscribe in Google Calendar, Outlook or Apple Calendar to keep your events up to date
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <CalendarFeedSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 rounded-[3px] bg-primary/10 flex items-center justify-center">
+                <Webhook className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Webhooks</CardTitle>
+                <CardDescription>
+                  Send RSVPs, check-ins and event changes for every event you host to another app
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <WebhookSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 rounded-[3px] bg-primary/10 flex items-center justify-center">
+                <KeyRound className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">API Tokens</CardTitle>
+                <CardDescription>
+                  Let scripts read your events and manage guests through the REST API
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ApiTokenSettings />
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
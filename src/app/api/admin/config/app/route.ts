@@ -2,22 +2,9 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getAppUrl, updateAppUrl } from '@/lib/config';
-import { z } from 'zod';
+import { appUrlConfigSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
-const appUrlSchema = z.object({
-  appUrl: z.string()
-    .min(1, 'App URL is required')
-    .refine((url) => {
-      try {
-        new URL(url);
-        return true;
-      } catch {
-        return false;
-      }
-    }, 'Must be a valid URL (e.g., https://rsvp.example.com)'),
-});
-
 /**
  * GET - Retrieve current app URL configuration
  */
@@ -85,7 +72,7 @@ export async function PATCH(request: Request) {
     }
 
     const body = await request.json();
-    const parsed = appUrlSchema.safeParse(body);
+    const parsed = appUrlConfigSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
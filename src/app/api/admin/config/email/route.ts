@@ -3,17 +3,9 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getEmailConfig, updateEmailConfig, syncToEnvFile } from '@/lib/config';
 import { sendInvitation } from '@/lib/email';
-import { z } from 'zod';
+import { emailConfigSchema, testEmailSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
-const emailConfigSchema = z.object({
-  host: z.string().min(1, 'SMTP host is required'),
-  port: z.string().min(1, 'SMTP port is required'),
-  user: z.string().min(1, 'SMTP username is required'),
-  password: z.string().min(1, 'SMTP password is required'),
-  from: z.string().optional(),
-});
-
 /**
  * GET - Retrieve current email configuration (masked password)
  */
@@ -142,22 +134,16 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { testEmail } = body;
+    const parsed = testEmailSchema.safeParse(body);
 
-    if (!testEmail || typeof testEmail !== 'string') {
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'testEmail is required' },
+        { error: parsed.error.errors[0].message },
         { status: 400 }
       );
     }
 
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(testEmail)) {
-      return NextResponse.json(
-        { error: 'Invalid email format' },
-        { status: 400 }
-      );
-    }
+    const { testEmail } = parsed.data;
 
     const config = await getEmailConfig();
     if (!config) {
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_RATE_LIMITS, getRateLimitConfig, updateRateLimitConfig } from '@/lib/config';
+import { rateLimitConfigSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+async function requireAdmin() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  // Check if user is admin
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+
+  if (user?.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * GET - Retrieve current rate limiting configuration
+ */
+export async function GET() {
+  try {
+    const admin = await requireAdmin();
+    if (admin.error) return admin.error;
+
+    const config = await getRateLimitConfig();
+
+    return NextResponse.json({ ...config, defaults: DEFAULT_RATE_LIMITS });
+  } catch (error) {
+    logger.error('Get rate limit config error', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Update rate limiting configuration
+ */
+export async function PATCH(request: Request) {
+  try {
+    const admin = await requireAdmin();
+    if (admin.error) return admin.error;
+
+    const body = await request.json();
+    const parsed = rateLimitConfigSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    await updateRateLimitConfig(parsed.data, admin.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rate limits updated successfully',
+      ...(await getRateLimitConfig()),
+    });
+  } catch (error) {
+    logger.error('Update rate limit config error', error);
+    return NextResponse.json(
+      { error: 'Failed to update rate limit configuration' },
+      { status: 500 }
+    );
+  }
+}
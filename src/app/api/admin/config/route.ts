@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { getEmailConfig, syncToEnvFile } from '@/lib/config';
+import { isSmsConfigured } from '@/lib/sms';
 import { logger } from '@/lib/logger';
 
 /**
@@ -25,11 +26,15 @@ export async function GET() {
     }
 
     const emailConfig = await getEmailConfig();
+    const smsConfigured = await isSmsConfigured();
 
     return NextResponse.json({
       email: {
         configured: !!emailConfig,
       },
+      sms: {
+        configured: smsConfigured,
+      },
     });
   } catch (error) {
     logger.error('Get config status error', error);
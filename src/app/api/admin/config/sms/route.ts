@@ -0,0 +1,173 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getSmsConfig, updateSmsConfig } from '@/lib/config';
+import { isMaskedSecret, maskSecret } from '@/lib/config-utils';
+import { isSmsConfigured, sendSms } from '@/lib/sms';
+import { smsConfigSchema, testSmsSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET - Retrieve current SMS configuration (masked auth token)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const config = await getSmsConfig();
+
+    if (!config) {
+      return NextResponse.json({
+        configured: false,
+        config: null,
+      });
+    }
+
+    return NextResponse.json({
+      configured: await isSmsConfigured(),
+      config: {
+        ...config,
+        authToken: config.authToken ? maskSecret(config.authToken) : '',
+      },
+    });
+  } catch (error) {
+    logger.error('Get SMS config error', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Update SMS configuration
+ */
+export async function PATCH(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = smsConfigSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const config = parsed.data;
+
+    if (config.provider === 'twilio') {
+      // A masked token means the admin left the stored secret untouched
+      const authToken = isMaskedSecret(config.authToken) ? undefined : config.authToken;
+      await updateSmsConfig({ ...config, authToken }, session.user.id);
+    } else {
+      await updateSmsConfig(config, session.user.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'SMS configuration updated successfully',
+      configured: await isSmsConfigured(),
+    });
+  } catch (error) {
+    logger.error('Update SMS config error', error);
+    return NextResponse.json(
+      { error: 'Failed to update SMS configuration' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Send test SMS
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = testSmsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isSmsConfigured())) {
+      return NextResponse.json({
+        success: false,
+        error: 'SMS not configured',
+        message: 'Please configure an SMS provider before testing',
+      }, { status: 400 });
+    }
+
+    try {
+      const result = await sendSms({
+        to: parsed.data.testPhone,
+        body: 'OwnRSVP test message: your SMS configuration is working.',
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: `Test SMS sent successfully to ${parsed.data.testPhone}`,
+        provider: result.provider,
+      });
+    } catch (smsError) {
+      logger.error('Test SMS error', smsError);
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to send test SMS',
+        details: smsError instanceof Error ? smsError.message : String(smsError),
+      }, { status: 500 });
+    }
+  } catch (error) {
+    logger.error('Test SMS endpoint error', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
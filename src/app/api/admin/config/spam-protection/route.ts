@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getSpamProtectionConfig, updateSpamProtectionConfig } from '@/lib/config';
+import { spamProtectionConfigSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+async function requireAdmin() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  // Check if user is admin
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+
+  if (user?.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * GET - Retrieve current spam protection configuration
+ */
+export async function GET() {
+  try {
+    const admin = await requireAdmin();
+    if (admin.error) return admin.error;
+
+    return NextResponse.json(await getSpamProtectionConfig());
+  } catch (error) {
+    logger.error('Get spam protection config error', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Update spam protection configuration
+ */
+export async function PATCH(request: Request) {
+  try {
+    const admin = await requireAdmin();
+    if (admin.error) return admin.error;
+
+    const body = await request.json();
+    const parsed = spamProtectionConfigSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    await updateSpamProtectionConfig(parsed.data, admin.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Spam protection updated successfully',
+      ...(await getSpamProtectionConfig()),
+    });
+  } catch (error) {
+    logger.error('Update spam protection config error', error);
+    return NextResponse.json(
+      { error: 'Failed to update spam protection configuration' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_EMAIL_TEMPLATES, isEmailTemplateName } from '@/lib/email-templates';
+import { emailTemplateSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * PUT - Save a global email template
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { name } = await params;
+    if (!isEmailTemplateName(name)) {
+      return NextResponse.json({ error: 'Unknown email template' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = emailTemplateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const template = await prisma.emailTemplate.upsert({
+      where: { name },
+      update: parsed.data,
+      create: { name, ...parsed.data },
+    });
+
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    logger.error('Update email template error', error);
+    return NextResponse.json(
+      { error: 'Failed to save email template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Reset a global email template to the built-in default
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { name } = await params;
+    if (!isEmailTemplateName(name)) {
+      return NextResponse.json({ error: 'Unknown email template' }, { status: 404 });
+    }
+
+    await prisma.emailTemplate.deleteMany({ where: { name } });
+
+    return NextResponse.json({ success: true, template: DEFAULT_EMAIL_TEMPLATES[name] });
+  } catch (error) {
+    logger.error('Reset email template error', error);
+    return NextResponse.json(
+      { error: 'Failed to reset email template' },
+      { status: 500 }
+    );
+  }
+}
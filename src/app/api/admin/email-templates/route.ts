@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_NAMES,
+  withTemplateDefaults,
+} from '@/lib/email-templates';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET - List the global email templates (stored or built-in default)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const stored = await prisma.emailTemplate.findMany({
+      where: { name: { in: [...EMAIL_TEMPLATE_NAMES] } },
+    });
+    const storedByName = new Map(stored.map((t) => [t.name, t]));
+
+    const templates = EMAIL_TEMPLATE_NAMES.map((name) => {
+      const template = storedByName.get(name);
+      return {
+        name,
+        template: withTemplateDefaults(name, template),
+        isCustomized: !!template,
+        fallback: DEFAULT_EMAIL_TEMPLATES[name],
+      };
+    });
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    logger.error('Get email templates error', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
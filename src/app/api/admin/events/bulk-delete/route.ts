@@ -1,12 +1,9 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
+import { bulkDeleteEventsSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
-
-const bulkDeleteSchema = z.object({
-  eventIds: z.array(z.string().min(1)).min(1, 'At least one event ID is required'),
-});
+import { deleteUnusedMedia } from '@/lib/media';
 
 export async function POST(request: Request) {
   try {
@@ -26,7 +23,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const parsed = bulkDeleteSchema.safeParse(body);
+    const parsed = bulkDeleteEventsSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -46,6 +43,7 @@ export async function POST(request: Request) {
         id: true,
         title: true,
         date: true,
+        coverImage: true,
       },
     });
 
@@ -94,6 +92,8 @@ export async function POST(request: Request) {
       }
     }
 
+    await deleteUnusedMedia(events.map((event) => event.coverImage));
+
     if (results.failedCount > 0) {
       return NextResponse.json(
         {
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { clearMediaStore } from '@/lib/media';
 
 export async function POST(request: Request) {
   try {
@@ -26,38 +27,50 @@ export async function POST(request: Request) {
     // Delete all data in the correct order to respect foreign key constraints
     logger.info('Starting factory reset...');
 
-    // 1. Delete all events (cascades to guests, comments, co-hosts, updates)
+    // 1. Delete all events (cascades to guests, comments, co-hosts, updates, queued emails)
     const deletedEvents = await prisma.event.deleteMany({});
     logger.info(`Deleted ${deletedEvents.count} events`);
 
-    // 2. Delete all user invitations
+    // 2. Delete any queued emails left without an event
+    const deletedEmails = await prisma.outboundEmail.deleteMany({});
+    logger.info(`Deleted ${deletedEmails.count} queued emails`);
+
+    // 3. Delete all user invitations
     const deletedInvitations = await prisma.userInvitation.deleteMany({});
     logger.info(`Deleted ${deletedInvitations.count} user invitations`);
 
-    // 3. Delete all password reset tokens
+    // 4. Delete all password reset tokens
     const deletedPasswordTokens = await prisma.passwordResetToken.deleteMany({});
     logger.info(`Deleted ${deletedPasswordTokens.count} password reset tokens`);
 
-    // 4. Delete all app configuration
+    // 5. Delete all app configuration
     const deletedConfig = await prisma.appConfig.deleteMany({});
     logger.info(`Deleted ${deletedConfig.count} app config entries`);
 
-    // 5. Delete all OAuth accounts
+    // 6. Delete all customized email templates
+    const deletedTemplates = await prisma.emailTemplate.deleteMany({});
+    logger.info(`Deleted ${deletedTemplates.count} email templates`);
+
+    // 7. Delete all OAuth accounts
     const deletedAccounts = await prisma.account.deleteMany({});
     logger.info(`Deleted ${deletedAccounts.count} OAuth accounts`);
 
-    // 6. Delete all sessions
+    // 8. Delete all sessions
     const deletedSessions = await prisma.session.deleteMany({});
     logger.info(`Deleted ${deletedSessions.count} sessions`);
 
-    // 7. Delete all verification tokens
+    // 9. Delete all verification tokens
     const deletedVerificationTokens = await prisma.verificationToken.deleteMany({});
     logger.info(`Deleted ${deletedVerificationTokens.count} verification tokens`);
 
-    // 8. Delete all users (this will cascade to any remaining related data)
+    // 10. Delete all users (this will cascade to any remaining related data)
     const deletedUsers = await prisma.user.deleteMany({});
     logger.info(`Deleted ${deletedUsers.count} users`);
 
+    // 11. Delete uploaded images
+    const deletedImages = await clearMediaStore();
+    logger.info(`Deleted ${deletedImages} uploaded images`);
+
     logger.info('Factory reset completed - all data deleted');
 
     return NextResponse.json({
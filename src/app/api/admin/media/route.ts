@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { countInlineCoverImages, getMediaDir, migrateInlineCoverImages } from '@/lib/media';
+import { logger } from '@/lib/logger';
+
+async function requireAdmin() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  // Check if user is admin
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+
+  if (user?.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * GET - Where uploaded images are stored, and how many cover images are still
+ * saved inline in the database
+ */
+export async function GET() {
+  try {
+    const admin = await requireAdmin();
+    if (admin.error) return admin.error;
+
+    return NextResponse.json({
+      mediaDir: getMediaDir(),
+      inlineCoverImages: await countInlineCoverImages(),
+    });
+  } catch (error) {
+    logger.error('Get media storage error', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Move cover images saved inline in the database to the media store
+ */
+export async function POST() {
+  try {
+    const admin = await requireAdmin();
+    if (admin.error) return admin.error;
+
+    const result = await migrateInlineCoverImages();
+
+    return NextResponse.json({
+      ...result,
+      inlineCoverImages: await countInlineCoverImages(),
+    });
+  } catch (error) {
+    logger.error('Migrate cover images error', error);
+    return NextResponse.json(
+      { error: 'Failed to move cover images' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { retryOutboundEmail } from '@/lib/email-queue';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ messageId: string }>;
+}
+
+/**
+ * POST - Requeue a failed or pending email immediately
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { messageId } = await params;
+
+    const message = await prisma.outboundEmail.findUnique({
+      where: { id: messageId },
+      select: { id: true, status: true },
+    });
+
+    if (!message) {
+      return NextResponse.json({ error: 'Email not found' }, { status: 404 });
+    }
+
+    if (message.status === 'SENT' || message.status === 'SENDING') {
+      return NextResponse.json(
+        { error: 'Only failed or pending emails can be retried' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await retryOutboundEmail(message.id);
+
+    return NextResponse.json({ success: true, status: updated.status });
+  } catch (error) {
+    logger.error('Retry email error', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
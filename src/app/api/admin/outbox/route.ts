@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { isOutboundEmailStatus, listOutboundEmails } from '@/lib/email-queue';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET - Delivery log of queued guest emails across all events
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    const result = await listOutboundEmails({
+      status: isOutboundEmailStatus(status) ? status : undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('Get outbox error', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
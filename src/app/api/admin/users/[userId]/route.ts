@@ -2,20 +2,13 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
-import { z } from 'zod';
+import { updateUserSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
   params: Promise<{ userId: string }>;
 }
 
-const updateUserSchema = z.object({
-  name: z.string().min(1).optional(),
-  email: z.string().email().optional(),
-  role: z.enum(['ADMIN', 'USER']).optional(),
-  password: z.string().min(6).optional(),
-});
-
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
     const { userId } = await params;
@@ -1,14 +1,13 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
+import { forgotPasswordSchema } from '@/lib/schemas';
 import { nanoid } from 'nanoid';
 import { sendPasswordResetEmail } from '@/lib/email';
+import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
+import { isChallengeRequired, verifyChallengeSolution } from '@/lib/challenge';
+import { tooManyRequestsResponse } from '@/lib/api-response';
 import { logger } from '@/lib/logger';
 
-const forgotPasswordSchema = z.object({
-  email: z.string().email('Invalid email address'),
-});
-
 export async function POST(request: Request) {
   try {
     const body = await request.json();
@@ -21,7 +20,19 @@ export async function POST(request: Request) {
       );
     }
 
-    const { email } = parsed.data;
+    const { email, challenge } = parsed.data;
+
+    const rateLimit = await checkRateLimit('passwordReset', { ip: getClientIp(request), target: email });
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
+    if ((await isChallengeRequired()) && !(await verifyChallengeSolution(challenge))) {
+      return NextResponse.json(
+        { error: 'The spam check failed. Please try again.', code: 'CHALLENGE_FAILED' },
+        { status: 400 }
+      );
+    }
 
     // Find user by email
     const user = await prisma.user.findUnique({
@@ -1,19 +1,13 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
-import { z } from 'zod';
+import { acceptInvitationSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
   params: Promise<{ token: string }>;
 }
 
-const acceptInvitationSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  username: z.string().min(1, 'Username is required').regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-});
-
 // GET endpoint to verify token validity
 export async function GET(request: Request, { params }: RouteParams) {
   try {
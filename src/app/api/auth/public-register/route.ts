@@ -1,28 +1,9 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
-import { z } from 'zod';
-import { isValidEmail } from '@/lib/utils';
+import { publicRegisterSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
-const registerSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  username: z
-    .string()
-    .min(1, 'Username is required')
-    .regex(
-      /^[a-zA-Z0-9_]+$/,
-      'Username can only contain letters, numbers, and underscores'
-    ),
-  email: z
-    .string()
-    .min(1, 'Email is required')
-    .refine((val) => isValidEmail(val), {
-      message: 'Invalid email address format',
-    }),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-});
-
 /**
  * POST /api/auth/public-register
  *
@@ -44,7 +25,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const parsed = registerSchema.safeParse(body);
+    const parsed = publicRegisterSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
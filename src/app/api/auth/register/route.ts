@@ -2,31 +2,12 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
-import { z } from 'zod';
+import { createUserSchema } from '@/lib/schemas';
 import { nanoid } from 'nanoid';
 import { sendUserInvitationEmail } from '@/lib/email';
 import { isValidEmail } from '@/lib/utils';
 import { logger } from '@/lib/logger';
 
-const registerSchema = z.object({
-  name: z.string().optional(),
-  email: z.string().min(1, 'Email is required').refine((val) => isValidEmail(val), {
-    message: 'Invalid email address format',
-  }),
-  password: z.string().min(6, 'Password must be at least 6 characters').optional(),
-  role: z.enum(['ADMIN', 'USER']).optional().default('USER'),
-  sendInvitation: z.boolean().optional().default(false),
-}).refine((data) => {
-  // If not sending invitation, password is required
-  if (!data.sendInvitation && !data.password) {
-    return false;
-  }
-  return true;
-}, {
-  message: 'Password is required when not sending invitation',
-  path: ['password'],
-});
-
 export async function POST(request: Request) {
   try {
     // Check if user is authenticated and is an admin
@@ -52,7 +33,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const parsed = registerSchema.safeParse(body);
+    const parsed = createUserSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -1,14 +1,9 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
+import { resetPasswordSchema } from '@/lib/schemas';
 import bcrypt from 'bcryptjs';
 import { logger } from '@/lib/logger';
 
-const resetPasswordSchema = z.object({
-  token: z.string().min(1, 'Token is required'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-});
-
 export async function POST(request: Request) {
   try {
     const body = await request.json();
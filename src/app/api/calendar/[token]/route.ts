@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { generateCalendarFeed } from '@/lib/calendar-feed';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * A subscribed calendar feed. The link ends in .ics, which some calendar apps expect.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+
+    const content = await generateCalendarFeed(token.replace(/\.ics$/, ''));
+
+    if (content === null) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="ownrsvp.ics"',
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+  } catch (error) {
+    logger.error('Calendar feed error', error);
+    return NextResponse.json(
+      { error: 'Failed to generate calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { createChallenge, isChallengeRequired } from '@/lib/challenge';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Issue a proof-of-work challenge for a public form.
+ * Returns { challenge: null } when spam protection is turned off.
+ */
+export async function GET() {
+  try {
+    const challenge = (await isChallengeRequired()) ? await createChallenge() : null;
+
+    return NextResponse.json(
+      { challenge },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Create challenge error', error);
+    return NextResponse.json(
+      { error: 'Failed to create spam check' },
+      { status: 500 }
+    );
+  }
+}
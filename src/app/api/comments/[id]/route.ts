@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { moderateCommentSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function findModeratableComment(id: string) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const comment = await prisma.comment.findUnique({ where: { id } });
+  if (!comment || !(await canManageEvent(session.user.id, comment.eventId, 'moderateComments'))) {
+    return { error: NextResponse.json({ error: 'Comment not found' }, { status: 404 }) };
+  }
+
+  return { comment };
+}
+
+// PATCH /api/comments/[id] - Approve, hide, show, pin or unpin a message
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await findModeratableComment(id);
+    if (result.error) return result.error;
+    const { comment } = result;
+
+    const body = await request.json();
+    const parsed = moderateCommentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.pinned && comment.parentId) {
+      return NextResponse.json({ error: 'Replies cannot be pinned' }, { status: 400 });
+    }
+
+    const updated = await prisma.comment.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return NextResponse.json({ comment: updated });
+  } catch (error) {
+    logger.error('Moderate comment error', error);
+    return NextResponse.json(
+      { error: 'Failed to update comment' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/comments/[id] - Delete a message and its replies
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await findModeratableComment(id);
+    if (result.error) return result.error;
+
+    await prisma.comment.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Delete comment error', error);
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    );
+  }
+}
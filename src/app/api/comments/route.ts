@@ -1,14 +1,17 @@
 import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
+import { canManageEvent } from '@/lib/event-access';
+import { canPostComment, getNewCommentStatus } from '@/lib/comments';
+import { PENDING_APPROVAL } from '@/lib/rsvp-approval';
+import { getEventHostsForNotification, sendCommentNotification } from '@/lib/email';
+import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
+import { isChallengeRequired, verifyChallengeSolution } from '@/lib/challenge';
+import { tooManyRequestsResponse } from '@/lib/api-response';
+import { dispatchWebhookEvent, toWebhookComment } from '@/lib/webhooks';
+import { commentSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
-const commentSchema = z.object({
-  eventId: z.string(),
-  authorName: z.string().min(1, 'Name is required'),
-  content: z.string().min(1, 'Message is required').max(1000, 'Message is too long'),
-});
-
 export async function POST(request: Request) {
   try {
     const body = await request.json();
@@ -21,7 +24,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const { eventId, authorName, content } = parsed.data;
+    const { eventId, authorName, content, token, parentId, challenge } = parsed.data;
 
     // Check if event exists
     const event = await prisma.event.findUnique({
@@ -32,15 +35,112 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
+    // Hosts and co-hosts post as themselves, with a host badge, whatever the wall setting
+    const session = await auth();
+    const userId = session?.user?.id;
+    const isHost = userId
+      ? await canManageEvent(userId, eventId, 'moderateComments')
+      : false;
+
+    if (parentId) {
+      if (!isHost) {
+        return NextResponse.json({ error: 'Only hosts can reply to messages' }, { status: 403 });
+      }
+      const parent = await prisma.comment.findUnique({ where: { id: parentId } });
+      if (!parent || parent.eventId !== eventId || parent.parentId) {
+        return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+      }
+    }
+
+    if (isHost && userId) {
+      const comment = await prisma.comment.create({
+        data: {
+          eventId,
+          userId,
+          parentId: parentId || null,
+          authorName: session?.user?.name || authorName,
+          content,
+        },
+      });
+
+      await dispatchWebhookEvent('comment.created', eventId, { comment: toWebhookComment(comment) });
+
+      return NextResponse.json({ comment });
+    }
+
+    // Guests posting from their RSVP link are also limited per link; without an IP address,
+    // everyone else shares the event's fallback bucket
+    const rateLimit = await checkRateLimit('comment', {
+      ip: getClientIp(request),
+      target: token ? `${eventId}:${token}` : null,
+      fallback: eventId,
+    });
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
+    const guest = token
+      ? await prisma.guest.findUnique({ where: { token } })
+      : null;
+    const isInvitee = !!guest && guest.eventId === eventId && guest.status !== PENDING_APPROVAL;
+
+    if (!canPostComment(event.commentMode, isInvitee)) {
+      return NextResponse.json(
+        {
+          error: event.commentMode === 'OFF'
+            ? 'Comments are turned off for this event'
+            : 'Only invited guests can post on this event. Open the page from your RSVP link to leave a message.',
+        },
+        { status: 403 }
+      );
+    }
+
+    // Guests posting from their RSVP link have already proven who they are
+    if (!isInvitee && (await isChallengeRequired(event)) && !(await verifyChallengeSolution(challenge))) {
+      return NextResponse.json(
+        { error: 'The spam check failed. Please try again.', code: 'CHALLENGE_FAILED' },
+        { status: 400 }
+      );
+    }
+
     const comment = await prisma.comment.create({
       data: {
         eventId,
+        guestId: isInvitee ? guest.id : null,
         authorName,
         content,
+        status: getNewCommentStatus(event.commentMode),
       },
     });
 
-    return NextResponse.json({ comment });
+    await dispatchWebhookEvent('comment.created', eventId, { comment: toWebhookComment(comment) });
+
+    // Let hosts know (async, don't block response)
+    const { getAppUrl } = await import('@/lib/config');
+    const appUrl = await getAppUrl();
+    const eventUrl = `${appUrl}/dashboard/events/${eventId}`;
+
+    getEventHostsForNotification(eventId)
+      .then((hosts) =>
+        Promise.all(
+          hosts.map((host) =>
+            sendCommentNotification({
+              to: host.email,
+              hostName: host.name,
+              eventTitle: event.title,
+              comment,
+              eventUrl,
+            }).catch((error) => {
+              logger.error(`Failed to send comment notification to host ${host.email}`, error);
+            })
+          )
+        )
+      )
+      .catch((error) => {
+        logger.error('Failed to send comment notifications', error);
+      });
+
+    return NextResponse.json({ comment, pendingModeration: comment.status === 'PENDING' });
   } catch (error) {
     logger.error('Comment error', error);
     return NextResponse.json(
@@ -49,4 +149,3 @@ export async function POST(request: Request) {
     );
   }
 }
-
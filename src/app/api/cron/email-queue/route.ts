@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { processEmailQueue } from '@/lib/email-queue';
+import { logger } from '@/lib/logger';
+
+// Drains the outbound email queue. Called every minute by the built-in scheduler,
+// or by an external cron service when running without it. Protect with a secret in production.
+export async function POST(request: Request) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await processEmailQueue();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    logger.error('Cron email queue error', error);
+    return NextResponse.json(
+      { error: 'Failed to process email queue' },
+      { status: 500 }
+    );
+  }
+}
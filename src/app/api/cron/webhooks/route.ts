@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { processWebhookQueue } from '@/lib/webhooks';
+import { logger } from '@/lib/logger';
+
+// Sends queued webhook deliveries. Called every minute by the built-in scheduler,
+// or by an external cron service when running without it. Protect with a secret in production.
+export async function POST(request: Request) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await processWebhookQueue();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    logger.error('Cron webhook queue error', error);
+    return NextResponse.json(
+      { error: 'Failed to process webhook queue' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,20 +2,14 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { canManageEvent } from '@/lib/event-access';
-import { sendBroadcastEmail } from '@/lib/email';
-import { z } from 'zod';
+import { sendBroadcast } from '@/lib/broadcasts';
+import { broadcastSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-const broadcastSchema = z.object({
-  subject: z.string().min(1, 'Subject is required'),
-  message: z.string().min(1, 'Message is required'),
-  filterStatus: z.enum(['ALL', 'ATTENDING', 'NOT_ATTENDING', 'MAYBE', 'PENDING']).optional().default('ALL'),
-});
-
 export async function POST(request: Request, { params }: RouteParams) {
   try {
     const { id: eventId } = await params;
@@ -26,7 +20,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     }
 
     // Check if user can manage this event
-    const canManage = await canManageEvent(session.user.id, eventId);
+    const canManage = await canManageEvent(session.user.id, eventId, 'sendMessages');
     if (!canManage) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
@@ -41,62 +35,18 @@ export async function POST(request: Request, { params }: RouteParams) {
       );
     }
 
-    const { subject, message, filterStatus } = parsed.data;
-
-    // Get event with guests
-    const event = await prisma.event.findUnique({
-      where: { id: eventId },
-      include: {
-        guests: {
-          where: filterStatus !== 'ALL' ? { status: filterStatus } : undefined,
-        },
-      },
-    });
+    const result = await sendBroadcast(eventId, parsed.data, session.user.id);
 
-    if (!event) {
+    if (!result) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
-    const guests = event.guests;
-    let sentCount = 0;
-    const errors: string[] = [];
-
-    // Send emails
-    for (const guest of guests) {
-      if (guest.notifyByEmail) {
-        try {
-          await sendBroadcastEmail({
-            to: guest.email,
-            guestName: guest.name,
-            subject,
-            message,
-            eventTitle: event.title,
-            replyTo: event.replyTo,
-          });
-          sentCount++;
-        } catch (error) {
-          logger.error(`Failed to send to ${guest.email}`, error);
-          errors.push(guest.email);
-        }
-      }
-    }
-
-    // Record the update
-    await prisma.eventUpdate.create({
-      data: {
-        eventId,
-        subject,
-        message,
-        sentVia: 'EMAIL',
-        sentTo: sentCount,
-        sentBy: session.user.id,
-      },
-    });
-
     return NextResponse.json({
       success: true,
-      sentTo: sentCount,
-      errors: errors.length > 0 ? errors : undefined,
+      sentTo: result.sentTo,
+      emailsSent: result.emailsSent,
+      smsSent: result.smsSent,
+      errors: result.errors.length > 0 ? result.errors : undefined,
     });
   } catch (error) {
     logger.error('Broadcast error', error);
@@ -117,7 +67,7 @@ export async function GET(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const canManage = await canManageEvent(session.user.id, eventId);
+    const canManage = await canManageEvent(session.user.id, eventId, 'viewGuests');
     if (!canManage) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
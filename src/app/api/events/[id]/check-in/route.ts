@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { getCheckInStats } from '@/lib/check-in';
+import { PENDING_APPROVAL } from '@/lib/rsvp-approval';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
+import { checkInSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const checkInGuestSelect = {
+  id: true,
+  name: true,
+  email: true,
+  status: true,
+  checkedInAt: true,
+  additionalGuests: {
+    select: { id: true, name: true, checkedInAt: true },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+async function loadCheckInGuests(eventId: string) {
+  return prisma.guest.findMany({
+    where: { eventId, status: { not: PENDING_APPROVAL } },
+    select: checkInGuestSelect,
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Guest list for the door, with arrived-vs-expected counts.
+ * Pass ?token= to look up a single guest from a scanned ticket.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'viewGuests');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const token = new URL(request.url).searchParams.get('token');
+    if (token) {
+      const guest = await prisma.guest.findUnique({
+        where: { token },
+        select: { ...checkInGuestSelect, eventId: true },
+      });
+
+      if (!guest || guest.eventId !== id) {
+        return NextResponse.json({ error: 'This ticket is not for this event' }, { status: 404 });
+      }
+
+      return NextResponse.json({ guest });
+    }
+
+    const guests = await loadCheckInGuests(id);
+
+    return NextResponse.json({ guests, stats: getCheckInStats(guests) });
+  } catch (error) {
+    logger.error('Get check-in list error', error);
+    return NextResponse.json(
+      { error: 'Failed to load check-in list' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Mark an invitee and/or their additional guests as arrived (or undo it).
+ * People who were already checked in are returned as duplicates rather than re-stamped.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'editGuests');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = checkInSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { guestId, includeInvitee, additionalGuestIds, undo } = parsed.data;
+
+    const guest = await prisma.guest.findUnique({
+      where: { id: guestId },
+      select: { ...checkInGuestSelect, eventId: true },
+    });
+
+    if (!guest || guest.eventId !== id) {
+      return NextResponse.json({ error: 'Guest not found' }, { status: 404 });
+    }
+
+    const people = [
+      ...(includeInvitee ? [{ id: guest.id, name: guest.name || guest.email, checkedInAt: guest.checkedInAt, isInvitee: true }] : []),
+      ...guest.additionalGuests
+        .filter((additionalGuest) => additionalGuestIds.includes(additionalGuest.id))
+        .map((additionalGuest) => ({ ...additionalGuest, isInvitee: false })),
+    ];
+
+    if (people.length === 0) {
+      return NextResponse.json({ error: 'Select at least one person to check in' }, { status: 400 });
+    }
+
+    const checkedInAt = undo ? null : new Date();
+    const duplicates: { name: string; checkedInAt: Date }[] = [];
+    const arrived: { id: string; name: string; isInvitee: boolean }[] = [];
+
+    for (const person of people) {
+      // Only stamp people whose state is changing, so a second scanner can't overwrite the first arrival time
+      const where = { id: person.id, checkedInAt: undo ? { not: null } : null };
+      const result = person.isInvitee
+        ? await prisma.guest.updateMany({ where, data: { checkedInAt } })
+        : await prisma.additionalGuest.updateMany({ where: { ...where, guestId }, data: { checkedInAt } });
+
+      if (result.count === 0 && checkedInAt) {
+        duplicates.push({ name: person.name, checkedInAt: person.checkedInAt ?? checkedInAt });
+      } else if (result.count > 0 && checkedInAt) {
+        arrived.push({ id: person.id, name: person.name, isInvitee: person.isInvitee });
+      }
+    }
+
+    if (arrived.length > 0) {
+      await dispatchWebhookEvent('checkin', id, {
+        guest: { id: guest.id, name: guest.name, email: guest.email, status: guest.status },
+        people: arrived,
+        checkedInAt,
+      });
+    }
+
+    if (duplicates.length > 0) {
+      logger.warn('Duplicate check-in', { eventId: id, guestId, count: duplicates.length });
+    }
+
+    const guests = await loadCheckInGuests(id);
+    const updatedGuest = guests.find((g) => g.id === guestId);
+
+    return NextResponse.json({ guest: updatedGuest, duplicates, stats: getCheckInStats(guests) });
+  } catch (error) {
+    logger.error('Check-in error', error);
+    return NextResponse.json(
+      { error: 'Failed to check in guest' },
+      { status: 500 }
+    );
+  }
+}
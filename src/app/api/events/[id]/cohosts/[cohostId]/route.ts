@@ -2,17 +2,24 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { isEventHost } from '@/lib/event-access';
-import { z } from 'zod';
+import { updateCoHostSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
+import { getFutureOccurrences } from '@/lib/event-series';
+
+// Co-host changes carry over to later dates of a series
+async function getLaterOccurrenceIds(eventId: string): Promise<string[]> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, seriesId: true, date: true },
+  });
+
+  return event ? (await getFutureOccurrences(event)).map((occurrence) => occurrence.id) : [];
+}
 
 interface RouteParams {
   params: Promise<{ id: string; cohostId: string }>;
 }
 
-const updateCoHostSchema = z.object({
-  role: z.enum(['COHOST', 'VIEWER']),
-});
-
 // PATCH /api/events/[id]/cohosts/[cohostId] - Update co-host role
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
@@ -61,6 +68,14 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       },
     });
 
+    const laterOccurrenceIds = await getLaterOccurrenceIds(eventId);
+    if (laterOccurrenceIds.length > 0) {
+      await prisma.eventCoHost.updateMany({
+        where: { userId: coHost.userId, eventId: { in: laterOccurrenceIds } },
+        data: { role: parsed.data.role },
+      });
+    }
+
     return NextResponse.json({ coHost });
   } catch (error) {
     logger.error('Update co-host error', error);
@@ -111,6 +126,13 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       where: { id: cohostId },
     });
 
+    const laterOccurrenceIds = await getLaterOccurrenceIds(eventId);
+    if (laterOccurrenceIds.length > 0) {
+      await prisma.eventCoHost.deleteMany({
+        where: { userId: coHost.userId, eventId: { in: laterOccurrenceIds } },
+      });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     logger.error('Remove co-host error', error);
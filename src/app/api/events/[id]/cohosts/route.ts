@@ -2,18 +2,14 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { canManageEvent, isEventHost } from '@/lib/event-access';
-import { z } from 'zod';
+import { addCoHostSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
+import { getFutureOccurrences } from '@/lib/event-series';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-const addCoHostSchema = z.object({
-  email: z.string().email('Valid email is required'),
-  role: z.enum(['COHOST', 'VIEWER']).optional().default('COHOST'),
-});
-
 // GET /api/events/[id]/cohosts - List all co-hosts
 export async function GET(request: Request, { params }: RouteParams) {
   try {
@@ -25,7 +21,7 @@ export async function GET(request: Request, { params }: RouteParams) {
     }
 
     // Check if user can view this event
-    const canView = await canManageEvent(session.user.id, eventId);
+    const canView = await canManageEvent(session.user.id, eventId, 'viewGuests');
     if (!canView) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
@@ -105,7 +101,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     // Check if this user is already the host
     const event = await prisma.event.findUnique({
       where: { id: eventId },
-      select: { hostId: true },
+      select: { id: true, hostId: true, seriesId: true, date: true },
     });
 
     if (event?.hostId === userToAdd.id) {
@@ -150,6 +146,18 @@ export async function POST(request: Request, { params }: RouteParams) {
       },
     });
 
+    // Co-hosts of a series help run every later date too
+    if (event) {
+      const laterOccurrences = await getFutureOccurrences(event);
+      for (const occurrence of laterOccurrences) {
+        await prisma.eventCoHost.upsert({
+          where: { eventId_userId: { eventId: occurrence.id, userId: userToAdd.id } },
+          create: { eventId: occurrence.id, userId: userToAdd.id, role },
+          update: { role },
+        });
+      }
+    }
+
     return NextResponse.json({ coHost });
   } catch (error) {
     logger.error('Add co-host error', error);
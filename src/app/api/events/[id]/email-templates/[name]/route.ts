@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { isEmailTemplateName, withTemplateDefaults } from '@/lib/email-templates';
+import { emailTemplateSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; name: string }>;
+}
+
+/**
+ * PUT - Save this event's override of an email template
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, name } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!isEmailTemplateName(name)) {
+      return NextResponse.json({ error: 'Unknown email template' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = emailTemplateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const template = await prisma.eventEmailTemplate.upsert({
+      where: { eventId_name: { eventId: id, name } },
+      update: parsed.data,
+      create: { eventId: id, name, ...parsed.data },
+    });
+
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    logger.error('Update event email template error', error);
+    return NextResponse.json(
+      { error: 'Failed to save email template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove this event's override so the global template is used again
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, name } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!isEmailTemplateName(name)) {
+      return NextResponse.json({ error: 'Unknown email template' }, { status: 404 });
+    }
+
+    await prisma.eventEmailTemplate.deleteMany({
+      where: { eventId: id, name },
+    });
+
+    const globalTemplate = await prisma.emailTemplate.findUnique({
+      where: { name },
+    });
+
+    return NextResponse.json({
+      success: true,
+      template: withTemplateDefaults(name, globalTemplate),
+    });
+  } catch (error) {
+    logger.error('Reset event email template error', error);
+    return NextResponse.json(
+      { error: 'Failed to reset email template' },
+      { status: 500 }
+    );
+  }
+}
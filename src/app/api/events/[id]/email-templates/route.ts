@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { EMAIL_TEMPLATE_NAMES, withTemplateDefaults } from '@/lib/email-templates';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET - List the email templates used for this event.
+ * Templates without an override fall back to the global template.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'viewGuests');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [globalTemplates, overrides] = await Promise.all([
+      prisma.emailTemplate.findMany({
+        where: { name: { in: [...EMAIL_TEMPLATE_NAMES] } },
+      }),
+      prisma.eventEmailTemplate.findMany({
+        where: { eventId: id },
+      }),
+    ]);
+    const globalByName = new Map(globalTemplates.map((t) => [t.name, t]));
+    const overrideByName = new Map(overrides.map((t) => [t.name, t]));
+
+    const templates = EMAIL_TEMPLATE_NAMES.map((name) => {
+      const fallback = withTemplateDefaults(name, globalByName.get(name));
+      const override = overrideByName.get(name);
+      return {
+        name,
+        template: override ? withTemplateDefaults(name, override) : fallback,
+        isCustomized: !!override,
+        fallback,
+      };
+    });
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    logger.error('Get event email templates error', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email templates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { normalizeEmbedOrigin, parseEmbedOrigins, serializeEmbedOrigins } from '@/lib/embed';
+import { updateEmbedSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH - Set the websites allowed to embed the event's RSVP widget.
+ * An empty list turns embedding off.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = updateEmbedSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const origins: string[] = [];
+    for (const value of parsed.data.origins) {
+      const origin = normalizeEmbedOrigin(value);
+      if (!origin) {
+        return NextResponse.json(
+          { error: `"${value}" is not a website address` },
+          { status: 400 }
+        );
+      }
+      if (!origins.includes(origin)) {
+        origins.push(origin);
+      }
+    }
+
+    const event = await prisma.event.update({
+      where: { id },
+      data: { embedOrigins: serializeEmbedOrigins(origins) },
+      select: { id: true, embedOrigins: true },
+    });
+
+    return NextResponse.json({ embedOrigins: parseEmbedOrigins(event.embedOrigins) });
+  } catch (error) {
+    logger.error('Update embed settings error', error);
+    return NextResponse.json(
+      { error: 'Failed to update embed settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { canManageEvent } from '@/lib/event-access';
+import { approveGuest, denyGuest } from '@/lib/rsvp-approval';
+import { rsvpApprovalSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; guestId: string }>;
+}
+
+// POST /api/events/[id]/guests/[guestId]/approval - Approve or deny an RSVP awaiting approval
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id: eventId, guestId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const canManage = await canManageEvent(session.user.id, eventId, 'editGuests');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = rsvpApprovalSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { action, message } = parsed.data;
+    const note = message?.trim() || null;
+
+    if (action === 'approve') {
+      const status = await approveGuest(eventId, guestId, note);
+      if (!status) {
+        return NextResponse.json({ error: 'RSVP request not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, status });
+    }
+
+    const denied = await denyGuest(eventId, guestId, note);
+    if (!denied) {
+      return NextResponse.json({ error: 'RSVP request not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('RSVP approval error', error);
+    return NextResponse.json(
+      { error: 'Failed to review RSVP' },
+      { status: 500 }
+    );
+  }
+}
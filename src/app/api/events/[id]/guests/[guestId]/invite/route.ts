@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
-import { sendInvitation } from '@/lib/email';
+import { canManageEvent } from '@/lib/event-access';
+import { getInvitationEvent, sendGuestInvitation } from '@/lib/guests';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
@@ -23,27 +24,9 @@ export async function POST(request: Request, { params }: RouteParams) {
     }
 
     // Verify event ownership and get event details
-    const event = await prisma.event.findUnique({
-      where: { id: eventId },
-      select: {
-        id: true,
-        hostId: true,
-        title: true,
-        date: true,
-        locationName: true,
-        streetAddress1: true,
-        streetAddress2: true,
-        city: true,
-        state: true,
-        zipCode: true,
-        description: true,
-        coverImage: true,
-        replyTo: true,
-        host: { select: { name: true } },
-      },
-    });
+    const event = await getInvitationEvent(eventId);
 
-    if (!event || event.hostId !== session.user.id) {
+    if (!event || (event.hostId !== session.user.id && !(await canManageEvent(session.user.id, eventId, 'sendMessages')))) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
@@ -56,27 +39,9 @@ export async function POST(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: 'Guest not found' }, { status: 404 });
     }
 
-    // Send invitation email
+    // Send invitation email, and text it if the guest opted in to SMS
     try {
-      await sendInvitation({
-        to: guest.email,
-        guestName: guest.name,
-        event: {
-          title: event.title,
-          date: event.date,
-          locationName: event.locationName,
-          streetAddress1: event.streetAddress1,
-          streetAddress2: event.streetAddress2,
-          city: event.city,
-          state: event.state,
-          zipCode: event.zipCode,
-          description: event.description,
-          coverImage: event.coverImage,
-        },
-        rsvpToken: guest.token,
-        hostName: event.host.name,
-        replyTo: event.replyTo,
-      });
+      await sendGuestInvitation(event, guest);
     } catch (error) {
       logger.error('Failed to send invitation email', error);
       return NextResponse.json(
@@ -1,7 +1,10 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
 import { sendReminder } from '@/lib/email';
+import { sendReminderSms, shouldSendSms } from '@/lib/sms';
+import { recordManualReminder } from '@/lib/reminders';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
@@ -35,7 +38,7 @@ export async function POST(request: Request, { params }: RouteParams) {
       },
     });
 
-    if (!event || event.hostId !== session.user.id) {
+    if (!event || (event.hostId !== session.user.id && !(await canManageEvent(session.user.id, eventId, 'sendMessages')))) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
@@ -62,6 +65,7 @@ export async function POST(request: Request, { params }: RouteParams) {
           to: guest.email,
           guestName: guest.name,
           event: {
+            id: event.id,
             title: event.title,
             date: event.date,
             locationName: event.locationName,
@@ -74,6 +78,8 @@ export async function POST(request: Request, { params }: RouteParams) {
           },
           rsvpToken: guest.token,
           replyTo: event.replyTo,
+          guestId: guest.id,
+          queue: true,
         });
       } catch (error) {
         logger.error('Failed to send reminder email', error);
@@ -84,13 +90,29 @@ export async function POST(request: Request, { params }: RouteParams) {
       }
     }
 
-    // Update reminder sent timestamp
-    await prisma.guest.update({
-      where: { id: guestId },
-      data: {
-        reminderSentAt: new Date(),
-      },
-    });
+    // Send SMS reminder
+    let smsSent = false;
+    if (shouldSendSms(guest)) {
+      try {
+        await sendReminderSms({
+          to: guest.phone!,
+          guestName: guest.name,
+          event,
+          rsvpToken: guest.token,
+        });
+        smsSent = true;
+      } catch (error) {
+        logger.error('Failed to send reminder SMS', error);
+      }
+    }
+
+    // Record the reminders so scheduled ones don't repeat them
+    if (guest.notifyByEmail) {
+      await recordManualReminder(guest.id, 'email');
+    }
+    if (smsSent) {
+      await recordManualReminder(guest.id, 'sms');
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,26 +1,15 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
-import { validateGuestLimit } from '@/lib/rsvp-validation';
-import { z } from 'zod';
+import { canManageEvent } from '@/lib/event-access';
+import { removeGuest, updateGuest } from '@/lib/guests';
+import { updateGuestSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
   params: Promise<{ id: string; guestId: string }>;
 }
 
-const updateGuestSchema = z.object({
-  name: z.string().min(1, 'Name is required').optional(),
-  email: z.string().email('Invalid email').optional(),
-  phone: z.string().optional().nullable(),
-  status: z.enum(['PENDING', 'ATTENDING', 'NOT_ATTENDING', 'MAYBE']).optional(),
-  additionalGuests: z.array(z.string().min(1, 'Guest name is required')).optional(),
-  dietaryNotes: z.string().optional().nullable(),
-  notifyByEmail: z.boolean().optional(),
-  notifyBySms: z.boolean().optional(),
-  maxGuests: z.number().int().min(1).nullable().optional(),
-});
-
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
     const { id: eventId, guestId } = await params;
@@ -34,7 +23,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       where: { id: eventId },
     });
 
-    if (!event || event.hostId !== session.user.id) {
+    if (!event || (event.hostId !== session.user.id && !(await canManageEvent(session.user.id, eventId, 'editGuests')))) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
@@ -58,73 +47,12 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
-    const { name, email, phone, status, additionalGuests, dietaryNotes, notifyByEmail, notifyBySms, maxGuests } = parsed.data;
-
-    // Check email uniqueness if email is being changed
-    if (email && email !== existingGuest.email) {
-      const emailExists = await prisma.guest.findUnique({
-        where: { eventId_email: { eventId, email } },
-      });
-
-      if (emailExists) {
-        return NextResponse.json(
-          { error: 'This email is already used for another guest in this event' },
-          { status: 400 }
-        );
-      }
-    }
+    const { guest: updatedGuest, error } = await updateGuest(event, existingGuest, parsed.data);
 
-    // Filter out empty additional guest names
-    const validAdditionalGuests = (additionalGuests || [])
-      .filter((g: string) => g.trim().length > 0)
-      .map((g: string) => g.trim());
-
-    // Validate guest limit if status is ATTENDING or being changed to ATTENDING
-    const finalStatus = status !== undefined ? status : existingGuest.status;
-    if (finalStatus === 'ATTENDING') {
-      // Use per-guest limit if set, otherwise use global limit
-      const guestMaxGuests = maxGuests !== undefined ? maxGuests : existingGuest.maxGuests;
-      const validation = validateGuestLimit(event.maxGuestsPerInvitee, validAdditionalGuests.length, guestMaxGuests);
-      if (!validation.valid) {
-        return NextResponse.json(
-          { error: validation.error },
-          { status: 400 }
-        );
-      }
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
     }
 
-    // Delete existing additional guests if we're updating them
-    if (additionalGuests !== undefined) {
-      await prisma.additionalGuest.deleteMany({
-        where: { guestId },
-      });
-    }
-
-    // Update guest
-    const updatedGuest = await prisma.guest.update({
-      where: { id: guestId },
-      data: {
-        ...(name !== undefined && { name }),
-        ...(email !== undefined && { email }),
-        ...(phone !== undefined && { phone }),
-        ...(status !== undefined && { status }),
-        ...(dietaryNotes !== undefined && { dietaryNotes }),
-        ...(notifyByEmail !== undefined && { notifyByEmail }),
-        ...(notifyBySms !== undefined && { notifyBySms: notifyBySms && !!phone }),
-        ...(maxGuests !== undefined && { maxGuests }),
-        ...(additionalGuests !== undefined && {
-          additionalGuests: {
-            create: validAdditionalGuests.map((guestName: string) => ({
-              name: guestName,
-            })),
-          },
-        }),
-      },
-      include: {
-        additionalGuests: true,
-      },
-    });
-
     return NextResponse.json({ guest: updatedGuest });
   } catch (error) {
     logger.error('Update guest error', error);
@@ -148,14 +76,14 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       where: { id: eventId },
     });
 
-    if (!event || event.hostId !== session.user.id) {
+    if (!event || (event.hostId !== session.user.id && !(await canManageEvent(session.user.id, eventId, 'editGuests')))) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
-    // Delete guest
-    await prisma.guest.delete({
-      where: { id: guestId },
-    });
+    const deletedGuest = await removeGuest(eventId, guestId);
+    if (!deletedGuest) {
+      return NextResponse.json({ error: 'Guest not found' }, { status: 404 });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
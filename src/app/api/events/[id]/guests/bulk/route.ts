@@ -3,19 +3,16 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { canManageEvent } from '@/lib/event-access';
 import { sendInvitation, sendReminder } from '@/lib/email';
-import { z } from 'zod';
+import { sendInvitationSms, sendReminderSms, shouldSendSms } from '@/lib/sms';
+import { recordManualReminder } from '@/lib/reminders';
+import { promoteWaitlistedGuests } from '@/lib/waitlist';
+import { bulkGuestActionSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-const bulkActionSchema = z.object({
-  action: z.enum(['invite', 'remind', 'delete', 'changeStatus']),
-  guestIds: z.array(z.string()).min(1, 'At least one guest must be selected'),
-  status: z.enum(['PENDING', 'ATTENDING', 'NOT_ATTENDING', 'MAYBE']).optional(),
-});
-
 export async function POST(request: Request, { params }: RouteParams) {
   try {
     const { id: eventId } = await params;
@@ -25,7 +22,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     }
 
     // Verify user can manage this event
-    const canManage = await canManageEvent(session.user.id, eventId);
+    const canManage = await canManageEvent(session.user.id, eventId, 'editGuests');
     if (!canManage) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
@@ -36,6 +33,9 @@ export async function POST(request: Request, { params }: RouteParams) {
         id: true,
         title: true,
         date: true,
+        endDate: true,
+        timezone: true,
+        calendarSequence: true,
         locationName: true,
         streetAddress1: true,
         streetAddress2: true,
@@ -54,7 +54,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const parsed = bulkActionSchema.safeParse(body);
+    const parsed = bulkGuestActionSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -73,12 +73,25 @@ export async function POST(request: Request, { params }: RouteParams) {
       );
     }
 
+    // Invitations and reminders message guests, which needs its own permission
+    if (action === 'invite' || action === 'remind') {
+      const canMessage = await canManageEvent(session.user.id, eventId, 'sendMessages');
+      if (!canMessage) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
     // Fetch all guests
     const guests = await prisma.guest.findMany({
       where: {
         id: { in: guestIds },
         eventId,
       },
+      include: {
+        reminderDeliveries: {
+          select: { channel: true },
+        },
+      },
     });
 
     if (guests.length === 0) {
@@ -103,8 +116,12 @@ export async function POST(request: Request, { params }: RouteParams) {
                   to: guest.email,
                   guestName: guest.name,
                   event: {
+                    id: event.id,
                     title: event.title,
                     date: event.date,
+                    endDate: event.endDate,
+                    timezone: event.timezone,
+                    calendarSequence: event.calendarSequence,
                     locationName: event.locationName,
                     streetAddress1: event.streetAddress1,
                     streetAddress2: event.streetAddress2,
@@ -117,6 +134,8 @@ export async function POST(request: Request, { params }: RouteParams) {
                   rsvpToken: guest.token,
                   hostName: event.host.name,
                   replyTo: event.replyTo,
+                  guestId: guest.id,
+                  queue: true,
                 });
                 successCount++;
               } catch (error) {
@@ -127,6 +146,21 @@ export async function POST(request: Request, { params }: RouteParams) {
             } else {
               successCount++;
             }
+
+            if (shouldSendSms(guest)) {
+              try {
+                await sendInvitationSms({
+                  to: guest.phone!,
+                  guestName: guest.name,
+                  event,
+                  rsvpToken: guest.token,
+                  hostName: event.host.name,
+                });
+              } catch (error) {
+                logger.error(`Failed to send invitation SMS to ${guest.phone}`, error);
+                errors.push(`${guest.email}: Failed to send invitation SMS`);
+              }
+            }
             break;
           }
 
@@ -137,12 +171,15 @@ export async function POST(request: Request, { params }: RouteParams) {
               continue;
             }
 
-            if (guest.notifyByEmail && !guest.reminderSentAt) {
+            const remindedBy = new Set(guest.reminderDeliveries.map((delivery) => delivery.channel));
+
+            if (guest.notifyByEmail && !remindedBy.has('email')) {
               try {
                 await sendReminder({
                   to: guest.email,
                   guestName: guest.name,
                   event: {
+                    id: event.id,
                     title: event.title,
                     date: event.date,
                     locationName: event.locationName,
@@ -155,14 +192,11 @@ export async function POST(request: Request, { params }: RouteParams) {
                   },
                   rsvpToken: guest.token,
                   replyTo: event.replyTo,
+                  guestId: guest.id,
+                  queue: true,
                 });
 
-                await prisma.guest.update({
-                  where: { id: guest.id },
-                  data: {
-                    reminderSentAt: new Date(),
-                  },
-                });
+                await recordManualReminder(guest.id, 'email');
                 successCount++;
               } catch (error) {
                 logger.error(`Failed to send reminder email to ${guest.email}`, error);
@@ -172,6 +206,22 @@ export async function POST(request: Request, { params }: RouteParams) {
             } else {
               successCount++;
             }
+
+            if (shouldSendSms(guest) && !remindedBy.has('sms')) {
+              try {
+                await sendReminderSms({
+                  to: guest.phone!,
+                  guestName: guest.name,
+                  event,
+                  rsvpToken: guest.token,
+                });
+
+                await recordManualReminder(guest.id, 'sms');
+              } catch (error) {
+                logger.error(`Failed to send reminder SMS to ${guest.phone}`, error);
+                errors.push(`${guest.email}: Failed to send reminder SMS`);
+              }
+            }
             break;
           }
 
@@ -188,6 +238,9 @@ export async function POST(request: Request, { params }: RouteParams) {
               where: { id: guest.id },
               data: {
                 status: status!,
+                ...(status !== guest.status && {
+                  waitlistedAt: status === 'WAITLISTED' ? new Date() : null,
+                }),
                 respondedAt: status !== 'PENDING' ? new Date() : null,
               },
             });
@@ -203,6 +256,13 @@ export async function POST(request: Request, { params }: RouteParams) {
       }
     }
 
+    // Removed or re-statused guests may have freed up spots for the waitlist
+    if ((action === 'delete' || action === 'changeStatus') && successCount > 0) {
+      await promoteWaitlistedGuests(eventId).catch((error) => {
+        logger.error('Failed to promote waitlisted guests', error);
+      });
+    }
+
     return NextResponse.json({
       success: true,
       successCount,
@@ -1,8 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { prisma } from '@/lib/prisma';
 import { canManageEvent } from '@/lib/event-access';
-import { format } from 'date-fns';
+import { buildGuestExport } from '@/lib/guest-export';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
@@ -19,70 +18,21 @@ export async function GET(request: Request, { params }: RouteParams) {
     }
 
     // Check if user can manage this event
-    const canManage = await canManageEvent(session.user.id, eventId);
+    const canManage = await canManageEvent(session.user.id, eventId, 'exportGuests');
     if (!canManage) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
-    const event = await prisma.event.findUnique({
-      where: { id: eventId },
-      include: {
-        guests: {
-          include: {
-            additionalGuests: true,
-          },
-          orderBy: { name: 'asc' },
-        },
-      },
-    });
+    const guestExport = await buildGuestExport(eventId);
 
-    if (!event) {
+    if (!guestExport) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
-    // Build CSV content
-    const headers = [
-      'Name',
-      'Email',
-      'Phone',
-      'Status',
-      'Additional Guests',
-      'Dietary Notes',
-      'RSVP Date',
-      'Invited Date',
-    ];
-
-    const rows = event.guests.map((guest) => {
-      const additionalGuestNames = guest.additionalGuests
-        .map((ag) => ag.name)
-        .join('; ');
-
-      return [
-        escapeCSV(guest.name || ''),
-        escapeCSV(guest.email),
-        escapeCSV(guest.phone || ''),
-        guest.status,
-        escapeCSV(additionalGuestNames),
-        escapeCSV(guest.dietaryNotes || ''),
-        guest.respondedAt ? format(new Date(guest.respondedAt), 'yyyy-MM-dd HH:mm') : '',
-        format(new Date(guest.invitedAt), 'yyyy-MM-dd HH:mm'),
-      ];
-    });
-
-    const csvContent = [
-      headers.join(','),
-      ...rows.map((row) => row.join(',')),
-    ].join('\n');
-
-    // Generate filename
-    const eventSlug = event.slug || 'event';
-    const dateStr = format(new Date(), 'yyyy-MM-dd');
-    const filename = `${eventSlug}-guests-${dateStr}.csv`;
-
-    return new NextResponse(csvContent, {
+    return new NextResponse(guestExport.csv, {
       headers: {
         'Content-Type': 'text/csv',
-        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Disposition': `attachment; filename="${guestExport.filename}"`,
       },
     });
   } catch (error) {
@@ -93,14 +43,3 @@ export async function GET(request: Request, { params }: RouteParams) {
     );
   }
 }
-
-// Helper to escape CSV values
-function escapeCSV(value: string): string {
-  if (!value) return '';
-  // If the value contains commas, quotes, or newlines, wrap in quotes and escape internal quotes
-  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-    return `"${value.replace(/"/g, '""')}"`;
-  }
-  return value;
-}
-
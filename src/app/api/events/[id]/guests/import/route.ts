@@ -2,29 +2,17 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { canManageEvent } from '@/lib/event-access';
-import { z } from 'zod';
+import { guestImportRowSchema, guestImportSchema } from '@/lib/schemas';
 import { sendInvitation } from '@/lib/email';
+import { sendInvitationSms, shouldSendSms } from '@/lib/sms';
 import { logger } from '@/lib/logger';
+import { addGuestToOccurrences, getFutureOccurrences } from '@/lib/event-series';
+import { dispatchWebhookEvent, toWebhookGuest } from '@/lib/webhooks';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-const guestRowSchema = z.object({
-  email: z.string().email('Invalid email'),
-  name: z.string().optional(),
-  phone: z.string().optional(),
-});
-
-const importSchema = z.object({
-  guests: z.array(z.object({
-    email: z.string().email('Invalid email'),
-    name: z.string().optional(),
-    phone: z.string().optional(),
-  })),
-  sendInvites: z.boolean().optional().default(false),
-});
-
 export async function POST(request: Request, { params }: RouteParams) {
   try {
     const { id: eventId } = await params;
@@ -35,7 +23,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     }
 
     // Check if user can manage this event
-    const canManage = await canManageEvent(session.user.id, eventId);
+    const canManage = await canManageEvent(session.user.id, eventId, 'editGuests');
     if (!canManage) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
@@ -50,7 +38,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const parsed = importSchema.safeParse(body);
+    const parsed = guestImportSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -68,6 +56,9 @@ export async function POST(request: Request, { params }: RouteParams) {
     });
     const existingEmails = new Set(existingGuests.map((g) => g.email.toLowerCase()));
 
+    // Occurrences of a series share one guest list
+    const laterOccurrenceIds = (await getFutureOccurrences(event)).map((occurrence) => occurrence.id);
+
     // Process each guest
     const results = {
       imported: 0,
@@ -77,7 +68,7 @@ export async function POST(request: Request, { params }: RouteParams) {
 
     for (const guestData of guests) {
       // Validate individual guest
-      const guestParsed = guestRowSchema.safeParse(guestData);
+      const guestParsed = guestImportRowSchema.safeParse(guestData);
       if (!guestParsed.success) {
         results.errors.push(`Invalid data for ${guestData.email || 'unknown'}: ${guestParsed.error.errors[0].message}`);
         continue;
@@ -92,7 +83,7 @@ export async function POST(request: Request, { params }: RouteParams) {
       }
 
       try {
-        await prisma.guest.create({
+        const guest = await prisma.guest.create({
           data: {
             eventId,
             email: email.toLowerCase(),
@@ -102,8 +93,20 @@ export async function POST(request: Request, { params }: RouteParams) {
           },
         });
 
+        if (laterOccurrenceIds.length > 0) {
+          await addGuestToOccurrences(laterOccurrenceIds, {
+            email: email.toLowerCase(),
+            name: name || null,
+            phone: phone || null,
+            notifyByEmail: true,
+            notifyBySms: false,
+          });
+        }
+
         existingEmails.add(email.toLowerCase());
         results.imported++;
+
+        await dispatchWebhookEvent('guest.added', eventId, { guest: toWebhookGuest(guest) });
       } catch (error) {
         results.errors.push(`Failed to add ${email}`);
       }
@@ -128,7 +131,9 @@ export async function POST(request: Request, { params }: RouteParams) {
           email: true,
           name: true,
           token: true,
+          phone: true,
           notifyByEmail: true,
+          notifyBySms: true,
         },
       });
 
@@ -139,6 +144,9 @@ export async function POST(request: Request, { params }: RouteParams) {
           id: true,
           title: true,
           date: true,
+          endDate: true,
+          timezone: true,
+          calendarSequence: true,
           locationName: true,
           streetAddress1: true,
           streetAddress2: true,
@@ -168,6 +176,8 @@ export async function POST(request: Request, { params }: RouteParams) {
       const invitationResults = {
         emailsSent: 0,
         emailsFailed: 0,
+        smsSent: 0,
+        smsFailed: 0,
       };
 
       await Promise.all(
@@ -178,8 +188,12 @@ export async function POST(request: Request, { params }: RouteParams) {
                 to: guest.email,
                 guestName: guest.name,
                 event: {
+                  id: eventWithHost.id,
                   title: eventWithHost.title,
                   date: eventWithHost.date,
+                  endDate: eventWithHost.endDate,
+                  timezone: eventWithHost.timezone,
+                  calendarSequence: eventWithHost.calendarSequence,
                   locationName: eventWithHost.locationName,
                   streetAddress1: eventWithHost.streetAddress1,
                   streetAddress2: eventWithHost.streetAddress2,
@@ -192,6 +206,8 @@ export async function POST(request: Request, { params }: RouteParams) {
                 rsvpToken: guest.token,
                 hostName: eventWithHost.host.name,
                 replyTo: eventWithHost.replyTo,
+                guestId: guest.id,
+                queue: true,
               });
               invitationResults.emailsSent++;
             } catch (error) {
@@ -199,6 +215,22 @@ export async function POST(request: Request, { params }: RouteParams) {
               invitationResults.emailsFailed++;
             }
           }
+
+          if (shouldSendSms(guest)) {
+            try {
+              await sendInvitationSms({
+                to: guest.phone!,
+                guestName: guest.name,
+                event: eventWithHost,
+                rsvpToken: guest.token,
+                hostName: eventWithHost.host.name,
+              });
+              invitationResults.smsSent++;
+            } catch (error) {
+              logger.error(`Failed to send SMS invitation to ${guest.phone}`, error);
+              invitationResults.smsFailed++;
+            }
+          }
         })
       );
 
@@ -1,19 +1,10 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { prisma } from '@/lib/prisma';
 import { canManageEvent } from '@/lib/event-access';
-import { sendInvitation } from '@/lib/email';
-import { z } from 'zod';
+import { addGuest, getInvitationEvent } from '@/lib/guests';
+import { addGuestSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
-const addGuestSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  phone: z.string().optional(),
-  name: z.string().optional(),
-  notifyByEmail: z.boolean().optional().default(true),
-  sendInvite: z.boolean().optional().default(true),
-});
-
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
@@ -27,29 +18,12 @@ export async function POST(request: Request, { params }: RouteParams) {
     }
 
     // Verify user can manage this event (host, co-host, or admin)
-    const canManage = await canManageEvent(session.user.id, eventId);
+    const canManage = await canManageEvent(session.user.id, eventId, 'editGuests');
     if (!canManage) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
-    const event = await prisma.event.findUnique({
-      where: { id: eventId },
-      select: {
-        id: true,
-        title: true,
-        date: true,
-        locationName: true,
-        streetAddress1: true,
-        streetAddress2: true,
-        city: true,
-        state: true,
-        zipCode: true,
-        description: true,
-        coverImage: true,
-        replyTo: true,
-        host: { select: { name: true } },
-      },
-    });
+    const event = await getInvitationEvent(eventId);
 
     if (!event) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
@@ -65,56 +39,10 @@ export async function POST(request: Request, { params }: RouteParams) {
       );
     }
 
-    const { email, phone, name, notifyByEmail, sendInvite } = parsed.data;
-
-    // Check if guest already exists
-    const existingGuest = await prisma.guest.findUnique({
-      where: { eventId_email: { eventId, email } },
-    });
-
-    if (existingGuest) {
-      return NextResponse.json(
-        { error: 'This guest has already been added' },
-        { status: 400 }
-      );
-    }
-
-    // Create guest
-    const guest = await prisma.guest.create({
-      data: {
-        eventId,
-        email,
-        phone: phone || null,
-        name: name || null,
-        notifyByEmail,
-      },
-    });
+    const { guest, error } = await addGuest(event, parsed.data);
 
-    // Send invitation if requested
-    if (sendInvite && notifyByEmail) {
-      try {
-        await sendInvitation({
-          to: email,
-          guestName: name,
-          event: {
-            title: event.title,
-            date: event.date,
-            locationName: event.locationName,
-            streetAddress1: event.streetAddress1,
-            streetAddress2: event.streetAddress2,
-            city: event.city,
-            state: event.state,
-            zipCode: event.zipCode,
-            description: event.description,
-            coverImage: event.coverImage,
-          },
-          rsvpToken: guest.token,
-          hostName: event.host.name,
-          replyTo: event.replyTo,
-        });
-      } catch (error) {
-        logger.error('Failed to send invitation email', error);
-      }
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
     }
 
     return NextResponse.json({ guest });
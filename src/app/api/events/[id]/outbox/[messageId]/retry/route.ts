@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { retryOutboundEmail } from '@/lib/email-queue';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; messageId: string }>;
+}
+
+/**
+ * POST - Requeue a failed or pending email immediately
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, messageId } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'sendMessages');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const message = await prisma.outboundEmail.findFirst({
+      where: { id: messageId, eventId: id },
+      select: { id: true, status: true },
+    });
+
+    if (!message) {
+      return NextResponse.json({ error: 'Email not found' }, { status: 404 });
+    }
+
+    if (message.status === 'SENT' || message.status === 'SENDING') {
+      return NextResponse.json(
+        { error: 'Only failed or pending emails can be retried' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await retryOutboundEmail(message.id);
+
+    return NextResponse.json({ success: true, status: updated.status });
+  } catch (error) {
+    logger.error('Retry event email error', error);
+    return NextResponse.json(
+      { error: 'Failed to retry email' },
+      { status: 500 }
+    );
+  }
+}
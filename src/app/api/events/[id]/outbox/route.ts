@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { canManageEvent } from '@/lib/event-access';
+import { isOutboundEmailStatus, listOutboundEmails } from '@/lib/email-queue';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET - Delivery log of the emails queued for this event's guests
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'viewGuests');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    const result = await listOutboundEmails({
+      eventId: id,
+      status: isOutboundEmailStatus(status) ? status : undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('Get event outbox error', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email delivery log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { serializeRsvpQuestions, validateRsvpQuestions } from '@/lib/rsvp-questions';
+import { updateQuestionsSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Check if user can manage this event
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = updateQuestionsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { questions } = parsed.data;
+
+    const validation = validateRsvpQuestions(questions);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.update({
+      where: { id },
+      data: {
+        rsvpQuestions: serializeRsvpQuestions(questions),
+      },
+      select: {
+        id: true,
+        title: true,
+        rsvpQuestions: true,
+      },
+    });
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    logger.error('Update RSVP questions error', error);
+    return NextResponse.json(
+      { error: 'Failed to update RSVP questions' },
+      { status: 500 }
+    );
+  }
+}
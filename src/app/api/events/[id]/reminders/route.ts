@@ -4,21 +4,13 @@ import { prisma } from '@/lib/prisma';
 import { canManageEvent } from '@/lib/event-access';
 import { parseReminderSchedule, serializeReminderSchedule, validateReminders } from '@/lib/reminder-utils';
 import { z } from 'zod';
+import { updateRemindersSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-const updateRemindersSchema = z.object({
-  reminderSchedule: z.array(
-    z.object({
-      type: z.enum(['day', 'hour']),
-      value: z.number().positive(),
-    })
-  ).optional().nullable(),
-});
-
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
     const session = await auth();
@@ -29,7 +21,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     const { id } = await params;
 
     // Check if user can manage this event
-    const canManage = await canManageEvent(session.user.id, id);
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
     if (!canManage) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
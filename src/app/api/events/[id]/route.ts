@@ -1,13 +1,22 @@
 import { NextResponse } from 'next/server';
+import type { Event } from '@prisma/client';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { canManageEvent } from '@/lib/event-access';
-import { sendEventChangeEmail } from '@/lib/email';
-import { z } from 'zod';
+import { sendEventCancellation, sendEventChangeEmail } from '@/lib/email';
+import { sendEventChangeSms, shouldSendSms } from '@/lib/sms';
+import { updateEventSchema } from '@/lib/schemas';
 import { format } from 'date-fns';
 import { parseReminderSchedule, serializeReminderSchedule, validateReminders } from '@/lib/reminder-utils';
 import { logger } from '@/lib/logger';
 import { formatAddressOneLine, AddressFields } from '@/lib/address-utils';
+import { promoteWaitlistedGuests } from '@/lib/waitlist';
+import { getFutureOccurrences } from '@/lib/event-series';
+import { parseRecurrenceExceptions } from '@/lib/recurrence';
+import { formatDateInTimezone } from '@/lib/timezone';
+import { deleteUnusedMedia, saveDataUrlImage } from '@/lib/media';
+import { hasCalendarChanges } from '@/lib/calendar';
+import { dispatchWebhookEvent, getChangedEventFields, toWebhookEvent } from '@/lib/webhooks';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -22,7 +31,7 @@ export async function GET(request: Request, { params }: RouteParams) {
     }
 
     // Check if user can manage this event (host, co-host, or admin)
-    const canManage = await canManageEvent(session.user.id, id);
+    const canManage = await canManageEvent(session.user.id, id, 'viewGuests');
     if (!canManage) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
@@ -53,6 +62,9 @@ export async function GET(request: Request, { params }: RouteParams) {
           orderBy: { sentAt: 'desc' },
           take: 10,
         },
+        series: {
+          select: { id: true, recurrence: true, exceptions: true },
+        },
       },
     });
 
@@ -70,44 +82,14 @@ export async function GET(request: Request, { params }: RouteParams) {
   }
 }
 
-const updateEventSchema = z.object({
-  title: z.string().min(1, 'Title is required').optional(),
-  description: z.string().nullable().optional(),
-  // Structured address fields
-  locationName: z.string().nullable().optional(),
-  streetAddress1: z.string().nullable().optional(),
-  streetAddress2: z.string().nullable().optional(),
-  city: z.string().nullable().optional(),
-  state: z.string().nullable().optional(),
-  zipCode: z.string().nullable().optional(),
-  date: z.string().transform((val) => {
-    const date = new Date(val);
-    if (isNaN(date.getTime())) {
-      throw new Error(`Invalid date format: ${val}`);
-    }
-    if (date.getFullYear() < 1900 || date.getFullYear() > 2100) {
-      throw new Error(`Invalid year: ${date.getFullYear()}. Date: ${val}`);
-    }
-    return date;
-  }).optional(),
-  endDate: z.string().optional().nullable().transform((val) => val && val.trim() !== '' ? new Date(val) : null),
-  rsvpDeadline: z.string().optional().nullable().transform((val) => val && val.trim() !== '' ? new Date(val) : null),
-  timezone: z.string().optional(),
-  coverImage: z.string().nullable().optional(),
-  photoAlbumUrl: z.string().nullable().optional(),
-  reminderSchedule: z.string().optional().nullable(),
-  maxGuestsPerInvitee: z.number().int().min(1).nullable().optional(),
-  replyTo: z.string().email().nullable().optional().or(z.literal('')),
-  isPublic: z.boolean().optional(),
-  notifyGuests: z.boolean().optional().default(false),
-});
+type EventChange = { field: string; oldValue: string; newValue: string };
 
 // Helper to detect significant changes
 function detectChanges(
   existing: { title: string; date: Date } & AddressFields,
   updated: { title?: string; date?: Date } & Partial<AddressFields>
-): { field: string; oldValue: string; newValue: string }[] {
-  const changes: { field: string; oldValue: string; newValue: string }[] = [];
+): EventChange[] {
+  const changes: EventChange[] = [];
 
   if (updated.title && updated.title !== existing.title) {
     changes.push({
@@ -159,6 +141,115 @@ function detectChanges(
   return changes;
 }
 
+// Email/SMS every guest about changed event details and record the update.
+// Emails carry an updated calendar invite, which replaces the guest's copy.
+async function notifyGuestsOfChanges(
+  event: Event,
+  changes: EventChange[],
+  sentBy: string
+) {
+  const guests = await prisma.guest.findMany({
+    where: { eventId: event.id },
+    select: {
+      id: true,
+      email: true,
+      phone: true,
+      name: true,
+      status: true,
+      notifyByEmail: true,
+      notifyBySms: true,
+      token: true,
+    },
+  });
+
+  // Send notifications to all guests with proper error handling
+  try {
+    await Promise.all(
+      guests.map(async (guest) => {
+        const notificationPromises: Promise<void>[] = [];
+
+        if (guest.notifyByEmail) {
+          notificationPromises.push(
+            sendEventChangeEmail({
+              to: guest.email,
+              guestName: guest.name,
+              eventTitle: event.title,
+              eventId: event.id,
+              changes,
+              rsvpToken: guest.token,
+              replyTo: event.replyTo,
+              event,
+              guestStatus: guest.status,
+              guestId: guest.id,
+              queue: true,
+            }).catch((error) => {
+              logger.error(`Failed to send email to ${guest.email}`, error);
+              // Don't throw - we want to continue sending to other guests
+            })
+          );
+        }
+
+        if (shouldSendSms(guest)) {
+          notificationPromises.push(
+            sendEventChangeSms({
+              to: guest.phone!,
+              guestName: guest.name,
+              eventTitle: event.title,
+              changes,
+              rsvpToken: guest.token,
+            })
+              .then(() => undefined)
+              .catch((error) => {
+                logger.error(`Failed to send SMS to ${guest.phone}`, error);
+              })
+          );
+        }
+
+        await Promise.all(notificationPromises);
+      })
+    );
+    logger.info(`Successfully sent notifications to ${guests.length} guests`);
+  } catch (error) {
+    logger.error('Error during notification sending', error);
+    // Continue execution - notifications are not critical to the update operation
+  }
+
+  // Record the update
+  await prisma.eventUpdate.create({
+    data: {
+      eventId: event.id,
+      subject: 'Event Details Changed',
+      message: changes.map((c) => `${c.field}: ${c.oldValue} → ${c.newValue}`).join('\n'),
+      sentVia: guests.some((guest) => shouldSendSms(guest)) ? 'BOTH' : 'EMAIL',
+      sentTo: guests.length,
+      sentBy,
+    },
+  });
+}
+
+// Email every guest that an event is cancelled, removing it from their calendar
+async function notifyGuestsOfCancellation(event: Event) {
+  const guests = await prisma.guest.findMany({
+    where: { eventId: event.id, notifyByEmail: true },
+    select: { email: true, name: true, status: true },
+  });
+
+  await Promise.all(
+    guests.map((guest) =>
+      sendEventCancellation({
+        to: guest.email,
+        guestName: guest.name,
+        event,
+        guestStatus: guest.status,
+        replyTo: event.replyTo,
+        queue: true,
+      }).catch((error) => {
+        logger.error(`Failed to send cancellation email to ${guest.email}`, error);
+      })
+    )
+  );
+}
+
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
@@ -168,7 +259,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     }
 
     // Check if user can manage this event (host, co-host, or admin)
-    const canManage = await canManageEvent(session.user.id, id);
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
     if (!canManage) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
@@ -191,7 +282,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
-    const { notifyGuests, photoAlbumUrl: rawPhotoAlbumUrl, reminderSchedule, maxGuestsPerInvitee, replyTo: rawReplyTo, timezone, ...updateData } = parsed.data;
+    const { notifyGuests, scope, photoAlbumUrl: rawPhotoAlbumUrl, reminderSchedule, maxGuestsPerInvitee, capacity, replyTo: rawReplyTo, timezone, ...updateData } = parsed.data;
 
     // Validate end date is not before start date
     const finalDate = updateData.date || existingEvent.date;
@@ -297,6 +388,16 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     }
     if (updateData.coverImage !== undefined) {
       updateFields.coverImage = updateData.coverImage || null;
+      // Cover images sent inline as base64 go to the media store like uploaded ones
+      if (updateFields.coverImage?.startsWith('data:')) {
+        updateFields.coverImage = await saveDataUrlImage(updateFields.coverImage);
+        if (!updateFields.coverImage) {
+          return NextResponse.json(
+            { error: 'Cover image must be a JPG, PNG, GIF or WebP image' },
+            { status: 400 }
+          );
+        }
+      }
     }
     if (photoAlbumUrl !== undefined) {
       updateFields.photoAlbumUrl = photoAlbumUrl;
@@ -305,6 +406,10 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     if (maxGuestsPerInvitee !== undefined) {
       updateFields.maxGuestsPerInvitee = maxGuestsPerInvitee;
     }
+    // Only include capacity if it's explicitly provided
+    if (capacity !== undefined) {
+      updateFields.capacity = capacity;
+    }
     // Only include replyTo if it's explicitly provided
     if (replyTo !== undefined) {
       updateFields.replyTo = replyTo;
@@ -318,70 +423,90 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       updateFields.timezone = timezone || null;
     }
 
+    // Calendar apps only replace their copy of an event when its SEQUENCE goes up
+    if (hasCalendarChanges(existingEvent, updateFields)) {
+      updateFields.calendarSequence = { increment: 1 };
+    }
+
     const event = await prisma.event.update({
       where: { id },
       data: updateFields,
     });
 
-    // Send notifications if requested and there are significant changes
-    if (notifyGuests && changes.length > 0) {
-      const guests = await prisma.guest.findMany({
-        where: { eventId: id },
-        select: {
-          email: true,
-          phone: true,
-          name: true,
-          notifyByEmail: true,
-          notifyBySms: true,
-          token: true,
-        },
+    // A larger (or removed) capacity may make room for waitlisted guests
+    if (capacity !== undefined) {
+      await promoteWaitlistedGuests(id).catch((error) => {
+        logger.error('Failed to promote waitlisted guests', error);
       });
+    }
 
-      // Send notifications to all guests with proper error handling
-      try {
-        await Promise.all(
-          guests.map(async (guest) => {
-            const notificationPromises: Promise<void>[] = [];
-
-            if (guest.notifyByEmail) {
-              notificationPromises.push(
-                sendEventChangeEmail({
-                  to: guest.email,
-                  guestName: guest.name,
-                  eventTitle: event.title,
-                  changes,
-                  rsvpToken: guest.token,
-                  replyTo: event.replyTo,
-                }).catch((error) => {
-                  logger.error(`Failed to send email to ${guest.email}`, error);
-                  // Don't throw - we want to continue sending to other guests
-                })
-              );
-            }
-
-            await Promise.all(notificationPromises);
-          })
-        );
-        logger.info(`Successfully sent notifications to ${guests.length} guests`);
-      } catch (error) {
-        logger.error('Error during notification sending', error);
-        // Continue execution - notifications are not critical to the update operation
+    // Later occurrences get the same changes; their dates move by the same amount as this one
+    const occurrencesToUpdate = scope === 'future' ? await getFutureOccurrences(existingEvent) : [];
+    const sharedFields = { ...updateFields };
+    delete sharedFields.date;
+    delete sharedFields.endDate;
+    delete sharedFields.rsvpDeadline;
+    const dateShift = updateData.date ? updateData.date.getTime() - existingEvent.date.getTime() : 0;
+    const updatedOccurrences = [];
+
+    for (const occurrence of occurrencesToUpdate) {
+      const occurrenceDate = new Date(occurrence.date.getTime() + dateShift);
+      const occurrenceFields: Record<string, unknown> = { ...sharedFields, date: occurrenceDate };
+
+      // End time and RSVP deadline keep the same offset from the start as on this event
+      for (const field of ['endDate', 'rsvpDeadline'] as const) {
+        if (updateFields[field] !== undefined) {
+          occurrenceFields[field] = updateFields[field]
+            ? new Date(occurrenceDate.getTime() + (updateFields[field].getTime() - finalDate.getTime()))
+            : null;
+        } else if (occurrence[field]) {
+          occurrenceFields[field] = new Date(occurrence[field]!.getTime() + dateShift);
+        }
       }
 
-      // Record the update
-      await prisma.eventUpdate.create({
-        data: {
-          eventId: id,
-          subject: 'Event Details Changed',
-          message: changes.map((c) => `${c.field}: ${c.oldValue} → ${c.newValue}`).join('\n'),
-          sentVia: 'BOTH',
-          sentTo: guests.length,
-          sentBy: session.user.id,
-        },
+      const updatedOccurrence = await prisma.event.update({
+        where: { id: occurrence.id },
+        data: occurrenceFields,
       });
+      updatedOccurrences.push({ before: occurrence, after: updatedOccurrence });
+
+      if (capacity !== undefined) {
+        await promoteWaitlistedGuests(occurrence.id).catch((error) => {
+          logger.error('Failed to promote waitlisted guests', error);
+        });
+      }
+    }
+
+    // Remove replaced cover images once nothing uses them
+    if (updateFields.coverImage !== undefined) {
+      await deleteUnusedMedia([existingEvent.coverImage, ...occurrencesToUpdate.map((occurrence) => occurrence.coverImage)]);
+    }
+
+    for (const { before, after } of [{ before: existingEvent, after: event }, ...updatedOccurrences]) {
+      const changedFields = getChangedEventFields(before, after);
+      if (changedFields.length > 0) {
+        await dispatchWebhookEvent('event.updated', after.id, { event: toWebhookEvent(after), changedFields });
+      }
+    }
+
+    // Send notifications if requested and there are significant changes
+    if (notifyGuests && changes.length > 0) {
+      await notifyGuestsOfChanges(event, changes, session.user.id);
+    }
+    if (notifyGuests) {
+      for (const { before, after } of updatedOccurrences) {
+        const occurrenceChanges = detectChanges(before, { ...updateData, date: after.date });
+        if (occurrenceChanges.length > 0) {
+          await notifyGuestsOfChanges(after, occurrenceChanges, session.user.id);
+        }
+      }
     }
 
-    return NextResponse.json({ event, changesNotified: notifyGuests && changes.length > 0 ? changes.length : 0 });
+    return NextResponse.json({
+      event,
+      changesNotified: notifyGuests && changes.length > 0 ? changes.length : 0,
+      occurrencesUpdated: updatedOccurrences.length,
+    });
   } catch (error) {
     logger.error('Update event error', error);
     return NextResponse.json(
@@ -400,7 +525,7 @@ export async function DELETE(request: Request, { params }: RouteParams) {
     }
 
     // Check if user can manage this event (host, co-host, or admin)
-    const canManage = await canManageEvent(session.user.id, id);
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
     if (!canManage) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
@@ -413,11 +538,54 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
+    // ?scope=future also cancels every later occurrence of the series
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope');
+    const laterOccurrences = scope === 'future' ? await getFutureOccurrences(existingEvent) : [];
+
+    // ?notify=true emails guests a cancellation before their invitations are deleted
+    if (searchParams.get('notify') === 'true') {
+      for (const cancelled of [existingEvent, ...laterOccurrences]) {
+        await notifyGuestsOfCancellation(cancelled);
+      }
+    }
+
     await prisma.event.delete({
       where: { id },
     });
 
-    return NextResponse.json({ success: true });
+    if (laterOccurrences.length > 0) {
+      await prisma.event.deleteMany({
+        where: { id: { in: laterOccurrences.map((occurrence) => occurrence.id) } },
+      });
+    }
+
+    await deleteUnusedMedia([existingEvent.coverImage, ...laterOccurrences.map((occurrence) => occurrence.coverImage)]);
+
+    if (existingEvent.seriesId) {
+      const remaining = await prisma.event.count({
+        where: { seriesId: existingEvent.seriesId },
+      });
+      const series = await prisma.eventSeries.findUnique({
+        where: { id: existingEvent.seriesId },
+      });
+
+      if (series && remaining === 0) {
+        await prisma.eventSeries.delete({
+          where: { id: series.id },
+        });
+      } else if (series && scope !== 'future') {
+        // Remember a cancelled date so the series still knows it was skipped
+        const exceptions = parseRecurrenceExceptions(series.exceptions);
+        exceptions.push(formatDateInTimezone(existingEvent.date, existingEvent.timezone, 'yyyy-MM-dd'));
+        await prisma.eventSeries.update({
+          where: { id: series.id },
+          data: { exceptions: JSON.stringify(exceptions) },
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, deleted: 1 + laterOccurrences.length });
   } catch (error) {
     logger.error('Delete event error', error);
     return NextResponse.json(
@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { setSessionInvites } from '@/lib/event-sessions';
+import { updateSessionSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; sessionId: string }>;
+}
+
+// PATCH /api/events/[id]/sessions/[sessionId] - Update a session or its invite list
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, sessionId } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingSession = await prisma.eventSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!existingSession || existingSession.eventId !== id) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = updateSessionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { guestIds, ...data } = parsed.data;
+
+    const finalDate = data.date ?? existingSession.date;
+    const finalEndDate = data.endDate !== undefined ? data.endDate : existingSession.endDate;
+    if (finalEndDate && finalEndDate < finalDate) {
+      return NextResponse.json(
+        { error: 'Session end time cannot be before its start time' },
+        { status: 400 }
+      );
+    }
+
+    const eventSession = await prisma.eventSession.update({
+      where: { id: sessionId },
+      data,
+    });
+
+    if (guestIds && !eventSession.inviteAll) {
+      // Only guests of this event can be invited
+      const guests = await prisma.guest.findMany({
+        where: { eventId: id, id: { in: guestIds } },
+        select: { id: true },
+      });
+      await setSessionInvites(sessionId, guests.map((guest) => guest.id));
+    }
+
+    return NextResponse.json({ session: eventSession });
+  } catch (error) {
+    logger.error('Update session error', error);
+    return NextResponse.json(
+      { error: 'Failed to update session' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/events/[id]/sessions/[sessionId] - Remove a session and its responses
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, sessionId } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingSession = await prisma.eventSession.findUnique({
+      where: { id: sessionId },
+      select: { eventId: true },
+    });
+
+    if (!existingSession || existingSession.eventId !== id) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    await prisma.eventSession.delete({
+      where: { id: sessionId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Delete session error', error);
+    return NextResponse.json(
+      { error: 'Failed to delete session' },
+      { status: 500 }
+    );
+  }
+}
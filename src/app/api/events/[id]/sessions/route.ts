@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { getSessionStats, setSessionInvites } from '@/lib/event-sessions';
+import { createSessionSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/events/[id]/sessions - Sessions with per-session RSVP counts
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'viewGuests');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sessions = await getSessionStats(id);
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    logger.error('Get sessions error', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/events/[id]/sessions - Add a session
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canManage = await canManageEvent(session.user.id, id, 'editEvent');
+    if (!canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = createSessionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { guestIds, ...data } = parsed.data;
+
+    if (data.endDate && data.endDate < data.date) {
+      return NextResponse.json(
+        { error: 'Session end time cannot be before its start time' },
+        { status: 400 }
+      );
+    }
+
+    const eventSession = await prisma.eventSession.create({
+      data: {
+        ...data,
+        eventId: id,
+      },
+    });
+
+    if (!data.inviteAll && guestIds.length > 0) {
+      // Only guests of this event can be invited
+      const guests = await prisma.guest.findMany({
+        where: { eventId: id, id: { in: guestIds } },
+        select: { id: true },
+      });
+      await setSessionInvites(eventSession.id, guests.map((guest) => guest.id));
+    }
+
+    return NextResponse.json({ session: eventSession });
+  } catch (error) {
+    logger.error('Create session error', error);
+    return NextResponse.json(
+      { error: 'Failed to create session' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,9 @@ import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
 import { canManageEvent } from '@/lib/event-access';
-import { z } from 'zod';
+import { bulkDeleteEventsSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
-const bulkDeleteSchema = z.object({
-  eventIds: z.array(z.string().min(1)).min(1, 'At least one event ID is required'),
-});
-
 export async function POST(request: Request) {
   try {
     const session = await auth();
@@ -17,7 +13,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const parsed = bulkDeleteSchema.safeParse(body);
+    const parsed = bulkDeleteEventsSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -54,7 +50,7 @@ export async function POST(request: Request) {
     // Verify user can manage each event
     const permissionChecks = await Promise.all(
       events.map(async (event) => {
-        const canManage = await canManageEvent(session.user.id, event.id);
+        const canManage = await canManageEvent(session.user.id, event.id, 'editEvent');
         return { event, canManage };
       })
     );
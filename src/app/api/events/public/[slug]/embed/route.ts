@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseEmbedOrigins } from '@/lib/embed';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET - The sites allowed to frame a public event's RSVP widget. The middleware turns
+ * them into the widget page's frame-ancestors policy, since it can't read the database.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { slug } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { isPublic: true, embedOrigins: true },
+    });
+
+    if (!event || !event.isPublic) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { origins: parseEmbedOrigins(event.embedOrigins) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Get embed origins error', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch embed origins' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getAttendingHeadcount } from '@/lib/waitlist';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET - How many people are coming to a public event, for the embedded RSVP widget.
+ * The same numbers the public event page shows.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { slug } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true, isPublic: true, capacity: true },
+    });
+
+    if (!event || !event.isPublic) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const attending = await getAttendingHeadcount(event.id);
+
+    return NextResponse.json(
+      {
+        headcount: {
+          attending,
+          capacity: event.capacity,
+          spotsLeft: event.capacity !== null ? Math.max(event.capacity - attending, 0) : null,
+        },
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Get event headcount error', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch headcount' },
+      { status: 500 }
+    );
+  }
+}
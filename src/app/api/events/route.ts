@@ -1,42 +1,24 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
+import { createEventSchema } from '@/lib/schemas';
 import { nanoid } from 'nanoid';
 import { generateSlug } from '@/lib/utils';
 import { parseReminderSchedule, serializeReminderSchedule, validateReminders } from '@/lib/reminder-utils';
+import { getOccurrenceDates, parseRecurrenceRule, serializeRecurrenceRule, validateRecurrenceRule } from '@/lib/recurrence';
+import { formatDateInTimezone } from '@/lib/timezone';
+import { saveDataUrlImage } from '@/lib/media';
 import { logger } from '@/lib/logger';
 
-const createEventSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().optional(),
-  // Structured address fields
-  locationName: z.string().nullable().optional(),
-  streetAddress1: z.string().nullable().optional(),
-  streetAddress2: z.string().nullable().optional(),
-  city: z.string().nullable().optional(),
-  state: z.string().nullable().optional(),
-  zipCode: z.string().nullable().optional(),
-  date: z.string().transform((val) => {
-    const date = new Date(val);
-    if (isNaN(date.getTime())) {
-      throw new Error(`Invalid date format: ${val}`);
-    }
-    if (date.getFullYear() < 1900 || date.getFullYear() > 2100) {
-      throw new Error(`Invalid year: ${date.getFullYear()}. Date: ${val}`);
-    }
-    return date;
-  }),
-  endDate: z.string().optional().transform((val) => val && val.trim() !== '' ? new Date(val) : undefined),
-  rsvpDeadline: z.string().optional().nullable().transform((val) => val ? new Date(val) : undefined),
-  timezone: z.string().optional(),
-  coverImage: z.string().nullable().optional(),
-  photoAlbumUrl: z.string().optional(),
-  reminderSchedule: z.string().optional(),
-  maxGuestsPerInvitee: z.number().int().min(1).nullable().optional(),
-  replyTo: z.string().email().optional().or(z.literal('')),
-  isPublic: z.boolean().optional().default(true),
-});
+async function generateUniqueSlug(baseSlug: string): Promise<string> {
+  let slug = baseSlug;
+
+  while (await prisma.event.findUnique({ where: { slug } })) {
+    slug = `${baseSlug}-${nanoid(4)}`;
+  }
+
+  return slug;
+}
 
 export async function POST(request: Request) {
   try {
@@ -57,7 +39,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const { title, description, locationName, streetAddress1, streetAddress2, city, state, zipCode, date, endDate, rsvpDeadline, timezone, coverImage, photoAlbumUrl: rawPhotoAlbumUrl, reminderSchedule, maxGuestsPerInvitee, replyTo, isPublic } = parsed.data;
+    const { title, description, locationName, streetAddress1, streetAddress2, city, state, zipCode, date, endDate, rsvpDeadline, timezone, coverImage, photoAlbumUrl: rawPhotoAlbumUrl, reminderSchedule, maxGuestsPerInvitee, capacity, replyTo, isPublic, requireApproval, commentMode, spamProtection, recurrence } = parsed.data;
 
     // Validate end date is not before start date
     if (endDate && endDate < date) {
@@ -90,16 +72,35 @@ export async function POST(request: Request) {
       }
     }
 
-    // Generate unique slug
-    const baseSlug = generateSlug(title);
-    let slug = baseSlug;
-    let counter = 0;
-
-    while (await prisma.event.findUnique({ where: { slug } })) {
-      counter++;
-      slug = `${baseSlug}-${nanoid(4)}`;
+    // Work out the dates of a repeating event up front so a bad rule fails before anything is created
+    let occurrenceDates: Date[] = [];
+    if (recurrence) {
+      const rule = parseRecurrenceRule(recurrence.rule);
+      if (!rule) {
+        return NextResponse.json(
+          { error: 'Invalid repeat rule' },
+          { status: 400 }
+        );
+      }
+      const validation = validateRecurrenceRule(rule);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: validation.error },
+          { status: 400 }
+        );
+      }
+      occurrenceDates = getOccurrenceDates(date, timezone, rule, recurrence.exceptions);
+      if (occurrenceDates.length < 2) {
+        return NextResponse.json(
+          { error: 'The repeat rule must produce at least two dates' },
+          { status: 400 }
+        );
+      }
     }
 
+    // Generate unique slug
+    const slug = await generateUniqueSlug(generateSlug(title));
+
     // Parse and validate reminderSchedule (handles both old and new formats)
     let reminderScheduleValue: string | null = null;
     if (reminderSchedule) {
@@ -122,6 +123,18 @@ export async function POST(request: Request) {
       }
     }
 
+    // Cover images sent inline as base64 go to the media store like uploaded ones
+    let coverImageUrl = coverImage || null;
+    if (coverImageUrl?.startsWith('data:')) {
+      coverImageUrl = await saveDataUrlImage(coverImageUrl);
+      if (!coverImageUrl) {
+        return NextResponse.json(
+          { error: 'Cover image must be a JPG, PNG, GIF or WebP image' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Build the data object for Prisma - explicitly set all fields
     // Note: Only include reminderSchedule if it has a value, otherwise omit it
     const eventData: any = {
@@ -138,11 +151,15 @@ export async function POST(request: Request) {
       endDate: endDate ? (endDate instanceof Date ? endDate : new Date(endDate)) : null,
       rsvpDeadline: rsvpDeadline ? (rsvpDeadline instanceof Date ? rsvpDeadline : new Date(rsvpDeadline)) : null,
       timezone: timezone ? String(timezone) : null,
-      coverImage: coverImage ? String(coverImage) : null,
+      coverImage: coverImageUrl,
       photoAlbumUrl: (photoAlbumUrl && photoAlbumUrl.trim() !== '') ? String(photoAlbumUrl) : null,
       maxGuestsPerInvitee: maxGuestsPerInvitee !== undefined ? maxGuestsPerInvitee : null,
+      capacity: capacity !== undefined ? capacity : null,
       replyTo: (replyTo && replyTo.trim() !== '') ? String(replyTo) : null,
       isPublic: Boolean(isPublic ?? true),
+      requireApproval: Boolean(requireApproval),
+      commentMode,
+      spamProtection,
       hostId: String(session.user.id),
     };
 
@@ -169,6 +186,36 @@ export async function POST(request: Request) {
       }))
     });
 
+    if (recurrence && occurrenceDates.length > 0) {
+      const series = await prisma.eventSeries.create({
+        data: {
+          hostId: String(session.user.id),
+          recurrence: serializeRecurrenceRule(parseRecurrenceRule(recurrence.rule)!),
+          exceptions: recurrence.exceptions.length > 0 ? JSON.stringify(recurrence.exceptions) : null,
+        },
+      });
+
+      // Each occurrence is a full event; end time and RSVP deadline keep the same offset from the start
+      const occurrences = [];
+      for (const occurrenceDate of occurrenceDates) {
+        const offset = occurrenceDate.getTime() - eventData.date.getTime();
+        occurrences.push(await prisma.event.create({
+          data: {
+            ...eventData,
+            slug: offset === 0
+              ? eventData.slug
+              : await generateUniqueSlug(`${generateSlug(title)}-${formatDateInTimezone(occurrenceDate, timezone, 'yyyy-MM-dd')}`),
+            date: occurrenceDate,
+            endDate: eventData.endDate ? new Date(eventData.endDate.getTime() + offset) : null,
+            rsvpDeadline: eventData.rsvpDeadline ? new Date(eventData.rsvpDeadline.getTime() + offset) : null,
+            seriesId: series.id,
+          },
+        }));
+      }
+
+      return NextResponse.json({ event: occurrences[0], occurrences: occurrences.length });
+    }
+
     const event = await prisma.event.create({
       data: eventData,
     });
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import {
+  checkInboundEmailSecret,
+  isInboundEmailEnabled,
+  MAX_INBOUND_EMAIL_SIZE,
+  processInboundEmail,
+} from '@/lib/imip';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST - Receive an email forwarded from the calendar reply mailbox, so guests'
+ * Accept/Decline clicks in their calendar app update their RSVP.
+ *
+ * The body is the raw message (message/rfc822), or form data with the raw message
+ * in an "email" (SendGrid) or "body-mime" (Mailgun) field. The secret goes in an
+ * "Authorization: Bearer" header or, for services that only take a URL, ?secret=.
+ */
+export async function POST(request: Request) {
+  try {
+    if (!isInboundEmailEnabled()) {
+      return NextResponse.json({ error: 'Inbound email is not enabled' }, { status: 404 });
+    }
+
+    const authHeader = request.headers.get('authorization');
+    const secret = authHeader?.startsWith('Bearer ')
+      ? authHeader.slice('Bearer '.length)
+      : new URL(request.url).searchParams.get('secret');
+    if (!checkInboundEmailSecret(secret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contentLength = parseInt(request.headers.get('content-length') || '0', 10);
+    if (contentLength > MAX_INBOUND_EMAIL_SIZE) {
+      return NextResponse.json({ error: 'Message is too large' }, { status: 413 });
+    }
+
+    let raw: string;
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.startsWith('multipart/form-data') || contentType.startsWith('application/x-www-form-urlencoded')) {
+      const formData = await request.formData();
+      const field = formData.get('email') ?? formData.get('body-mime');
+      raw = typeof field === 'string' ? field : field ? await field.text() : '';
+    } else {
+      raw = await request.text();
+    }
+
+    if (!raw.trim() || raw.length > MAX_INBOUND_EMAIL_SIZE) {
+      return NextResponse.json({ error: 'Expected a raw email message' }, { status: 400 });
+    }
+
+    // Messages without a calendar reply are accepted and ignored, so the sender doesn't retry them
+    const result = await processInboundEmail(raw);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Inbound email error', error);
+    return NextResponse.json(
+      { error: 'Failed to process inbound email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { readMedia } from '@/lib/media';
+import { MEDIA_VARIANTS, MediaVariant } from '@/lib/media-variants';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET - Serve an uploaded image. ?size=card|email|thumb picks a smaller copy.
+ * Images never change once uploaded, so browsers and proxies can cache them for good.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const size = new URL(request.url).searchParams.get('size');
+    const variant: MediaVariant = MEDIA_VARIANTS.includes(size as MediaVariant) ? (size as MediaVariant) : 'original';
+
+    const media = await readMedia(id, variant);
+    if (!media) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(media.data), {
+      headers: {
+        'Content-Type': media.mimeType,
+        'Content-Length': String(media.data.length),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    logger.error('Serve image error', error);
+    return NextResponse.json(
+      { error: 'Failed to load image' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { detectImageType, MAX_MEDIA_FILE_SIZE, saveMedia } from '@/lib/media';
+import { MEDIA_VARIANTS, MediaVariant } from '@/lib/media-variants';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST - Upload an image to the media store.
+ * Takes multipart form data with one file per size (original, card, email, thumb);
+ * only the original is required, and the server makes the sizes left out. Returns
+ * the URL to save on the event.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json({ error: 'Expected an image upload' }, { status: 400 });
+    }
+
+    const files: Partial<Record<MediaVariant, Buffer>> = {};
+    for (const variant of MEDIA_VARIANTS) {
+      const file = formData.get(variant);
+      if (!file || typeof file === 'string') continue;
+
+      if (file.size > MAX_MEDIA_FILE_SIZE) {
+        return NextResponse.json(
+          { error: `Images must be ${MAX_MEDIA_FILE_SIZE / (1024 * 1024)}MB or smaller` },
+          { status: 400 }
+        );
+      }
+
+      const data = Buffer.from(await file.arrayBuffer());
+      if (!detectImageType(data)) {
+        return NextResponse.json(
+          { error: 'Please upload a JPG, PNG, GIF or WebP image' },
+          { status: 400 }
+        );
+      }
+      files[variant] = data;
+    }
+
+    if (!files.original) {
+      return NextResponse.json({ error: 'No image was uploaded' }, { status: 400 });
+    }
+
+    const url = await saveMedia(files);
+
+    return NextResponse.json({ url }, { status: 201 });
+  } catch (error) {
+    logger.error('Upload image error', error);
+    return NextResponse.json(
+      { error: 'Failed to upload image' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCalendarFeedUrl, getOrCreateGuestCalendarFeed } from '@/lib/calendar-feed';
+import { isEmailConfigured, sendCalendarFeedLink } from '@/lib/email';
+import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
+import { tooManyRequestsResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Email the guest a link to a calendar feed of every event their address is invited to.
+ * The link isn't returned here: hosts can see their guests' RSVP links, and the feed
+ * covers other hosts' events too.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+
+    const guest = await prisma.guest.findUnique({
+      where: { token },
+      select: { email: true, name: true },
+    });
+
+    if (!guest) {
+      return NextResponse.json({ error: 'RSVP not found' }, { status: 404 });
+    }
+
+    const rateLimit = await checkRateLimit('editLink', { ip: getClientIp(request), target: `calendar-feed:${guest.email}` });
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
+    if (!(await isEmailConfigured())) {
+      return NextResponse.json(
+        { error: "This server can't send email, so the calendar feed link can't be sent" },
+        { status: 503 }
+      );
+    }
+
+    const feed = await getOrCreateGuestCalendarFeed(guest.email);
+    await sendCalendarFeedLink({
+      to: guest.email,
+      guestName: guest.name,
+      feedUrl: await getCalendarFeedUrl(feed.token),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `We emailed a link to subscribe to ${guest.email}.`,
+    });
+  } catch (error) {
+    logger.error('Guest calendar feed error', error);
+    return NextResponse.json({ error: 'Failed to send calendar feed link' }, { status: 500 });
+  }
+}
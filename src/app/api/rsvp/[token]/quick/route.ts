@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { sendConfirmation } from '@/lib/email';
+import { sendConfirmationSms, shouldSendSms } from '@/lib/sms';
 import { getAppUrl } from '@/lib/config';
 import { logger } from '@/lib/logger';
+import { promoteWaitlistedGuests, resolveAttendingStatus } from '@/lib/waitlist';
+import { PENDING_APPROVAL } from '@/lib/rsvp-approval';
+import { dispatchWebhookEvent, getRsvpWebhookType, toWebhookGuest } from '@/lib/webhooks';
 import { isPast } from 'date-fns';
 
 interface RouteParams {
@@ -13,19 +17,38 @@ const validStatuses = ['ATTENDING', 'NOT_ATTENDING', 'MAYBE'] as const;
 type RsvpStatus = typeof validStatuses[number];
 
 /**
- * Handle one-click RSVP from email
+ * One-click RSVP links in emails land here. Mail scanners and link previewers fetch
+ * links before the guest ever clicks them, so this only forwards to the confirmation
+ * page, which records the answer with a POST.
  * GET /api/rsvp/[token]/quick?status=ATTENDING|NOT_ATTENDING|MAYBE
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status') as RsvpStatus | null;
+  const appUrl = await getAppUrl();
+
+  if (!status || !validStatuses.includes(status)) {
+    return NextResponse.redirect(`${appUrl}/rsvp/${token}?error=invalid_status`);
+  }
+
+  return NextResponse.redirect(`${appUrl}/rsvp/${token}/quick?status=${status}`);
+}
+
+/**
+ * Record a one-click RSVP, submitted from the confirmation page
+ * POST /api/rsvp/[token]/quick (form field: status)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { token } = await params;
-    const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status') as RsvpStatus | null;
+    const formData = await request.formData();
+    const status = formData.get('status') as RsvpStatus | null;
 
     // Validate status parameter
     if (!status || !validStatuses.includes(status)) {
       const appUrl = await getAppUrl();
-      return NextResponse.redirect(`${appUrl}/rsvp/${token}?error=invalid_status`);
+      return NextResponse.redirect(`${appUrl}/rsvp/${token}?error=invalid_status`, 303);
     }
 
     // Find guest by token
@@ -37,6 +60,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             id: true,
             title: true,
             date: true,
+            endDate: true,
+            timezone: true,
+            calendarSequence: true,
             locationName: true,
             streetAddress1: true,
             streetAddress2: true,
@@ -47,14 +73,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             slug: true,
             rsvpDeadline: true,
             replyTo: true,
+            capacity: true,
           },
         },
+        _count: {
+          select: { additionalGuests: true },
+        },
       },
     });
 
-    if (!guest) {
+    if (!guest || guest.status === PENDING_APPROVAL) {
       const appUrl = await getAppUrl();
-      return NextResponse.redirect(`${appUrl}?error=invalid_token`);
+      return NextResponse.redirect(`${appUrl}?error=invalid_token`, 303);
     }
 
     const appUrl = await getAppUrl();
@@ -62,28 +92,64 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     // Check RSVP deadline
     if (guest.event.rsvpDeadline && isPast(new Date(guest.event.rsvpDeadline))) {
       return NextResponse.redirect(
-        `${appUrl}/events/${guest.event.slug}?error=deadline_passed`
+        `${appUrl}/events/${guest.event.slug}?error=deadline_passed`,
+        303
       );
     }
 
+    // Parties that don't fit under the event's capacity join the waitlist
+    let finalStatus: string = status;
+    if (status === 'ATTENDING' && guest.event.capacity !== null) {
+      const resolved = await resolveAttendingStatus(guest.event, 1 + guest._count.additionalGuests, guest);
+      if (resolved.error) {
+        return NextResponse.redirect(
+          `${appUrl}/events/${guest.event.slug}?error=event_full`,
+          303
+        );
+      }
+      finalStatus = resolved.status;
+    }
+
     // Update guest status
     const previousStatus = guest.status;
     await prisma.guest.update({
       where: { id: guest.id },
       data: {
-        status,
+        status: finalStatus,
+        ...(finalStatus !== previousStatus && {
+          waitlistedAt: finalStatus === 'WAITLISTED' ? new Date() : null,
+        }),
         respondedAt: new Date(),
+        respondedVia: 'QUICK_LINK',
       },
     });
 
+    if (finalStatus !== previousStatus) {
+      await dispatchWebhookEvent(getRsvpWebhookType(previousStatus), guest.event.id, {
+        guest: toWebhookGuest({ ...guest, status: finalStatus, respondedVia: 'QUICK_LINK', respondedAt: new Date() }),
+        previousStatus,
+      });
+    }
+
+    // A guest giving up their spot (or their place in line) may let waitlisted guests in
+    if (previousStatus === 'ATTENDING' || previousStatus === 'WAITLISTED') {
+      await promoteWaitlistedGuests(guest.event.id).catch((error) => {
+        logger.error('Failed to promote waitlisted guests', error);
+      });
+    }
+
     // Send confirmation email
     try {
       await sendConfirmation({
         to: guest.email,
         guestName: guest.name,
         event: {
+          id: guest.event.id,
           title: guest.event.title,
           date: guest.event.date,
+          endDate: guest.event.endDate,
+          timezone: guest.event.timezone,
+          calendarSequence: guest.event.calendarSequence,
           locationName: guest.event.locationName,
           streetAddress1: guest.event.streetAddress1,
           streetAddress2: guest.event.streetAddress2,
@@ -92,18 +158,36 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           zipCode: guest.event.zipCode,
           description: guest.event.description,
         },
-        status,
+        status: finalStatus,
         rsvpToken: token,
         replyTo: guest.event.replyTo,
+        guestId: guest.id,
+        queue: true,
       });
     } catch (emailError) {
       logger.error('Failed to send confirmation email for quick RSVP', emailError);
       // Continue even if email fails - RSVP was recorded
     }
 
+    if (shouldSendSms(guest)) {
+      try {
+        await sendConfirmationSms({
+          to: guest.phone!,
+          guestName: guest.name,
+          event: guest.event,
+          status: finalStatus,
+          rsvpToken: token,
+        });
+      } catch (smsError) {
+        logger.error('Failed to send confirmation SMS for quick RSVP', smsError);
+      }
+    }
+
     // Build success message based on status
     let message = 'rsvp_confirmed';
-    if (status === 'ATTENDING') {
+    if (finalStatus === 'WAITLISTED') {
+      message = 'rsvp_waitlisted';
+    } else if (status === 'ATTENDING') {
       message = 'rsvp_attending';
     } else if (status === 'MAYBE') {
       message = 'rsvp_maybe';
@@ -113,11 +197,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // Redirect to event page with token for prefilling and success message
     return NextResponse.redirect(
-      `${appUrl}/events/${guest.event.slug}?token=${token}&success=${message}`
+      `${appUrl}/events/${guest.event.slug}?token=${token}&success=${message}`,
+      303
     );
   } catch (error) {
     logger.error('Quick RSVP error', error);
     const appUrl = await getAppUrl();
-    return NextResponse.redirect(`${appUrl}?error=rsvp_failed`);
+    return NextResponse.redirect(`${appUrl}?error=rsvp_failed`, 303);
   }
 }
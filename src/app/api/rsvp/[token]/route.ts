@@ -1,22 +1,26 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { sendConfirmation, sendRsvpChangeNotification, getEventHostsForNotification } from '@/lib/email';
+import { sendConfirmationSms, shouldSendSms } from '@/lib/sms';
 import { validateGuestLimit } from '@/lib/rsvp-validation';
-import { z } from 'zod';
+import {
+  parseRsvpAnswers,
+  parseRsvpQuestions,
+  serializeRsvpAnswers,
+  validateRsvpSubmission,
+} from '@/lib/rsvp-questions';
+import { promoteWaitlistedGuests, resolveAttendingStatus } from '@/lib/waitlist';
+import { PENDING_APPROVAL } from '@/lib/rsvp-approval';
+import { applyRsvpToSeries, getFutureOccurrences } from '@/lib/event-series';
+import { getGuestSessions, saveSessionResponses, validateSessionResponses } from '@/lib/event-sessions';
+import { dispatchWebhookEvent, getRsvpWebhookType, toWebhookGuest } from '@/lib/webhooks';
+import { updateRsvpSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
   params: Promise<{ token: string }>;
 }
 
-const updateRsvpSchema = z.object({
-  name: z.string().min(1, 'Name is required').optional(),
-  phone: z.string().optional().nullable(),
-  status: z.enum(['ATTENDING', 'NOT_ATTENDING', 'MAYBE']).optional(),
-  additionalGuests: z.array(z.string().min(1, 'Guest name is required')).optional(),
-  dietaryNotes: z.string().optional().nullable(),
-});
-
 export async function GET(request: Request, { params }: RouteParams) {
   try {
     const { token } = await params;
@@ -39,20 +43,29 @@ export async function GET(request: Request, { params }: RouteParams) {
             slug: true,
             rsvpDeadline: true,
             maxGuestsPerInvitee: true,
+            rsvpQuestions: true,
+            seriesId: true,
           },
         },
         additionalGuests: true,
       },
     });
 
-    if (!guest) {
+    // RSVPs awaiting approval can't be viewed or changed until a host lets them in
+    if (!guest || guest.status === PENDING_APPROVAL) {
       return NextResponse.json({ error: 'RSVP not found' }, { status: 404 });
     }
 
     // Check if RSVP deadline has passed
     const deadlinePassed = guest.event.rsvpDeadline && new Date() > new Date(guest.event.rsvpDeadline);
 
-    return NextResponse.json({ guest, deadlinePassed });
+    // Recurring events let the guest answer for the later dates too
+    const laterDates = (await getFutureOccurrences(guest.event)).length;
+
+    // Sessions this guest is invited to, with their current answers
+    const sessions = await getGuestSessions(guest.eventId, guest.id);
+
+    return NextResponse.json({ guest, deadlinePassed, laterDates, sessions });
   } catch (error) {
     logger.error('Get RSVP error', error);
     return NextResponse.json(
@@ -76,7 +89,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
-    const { name, phone, status, additionalGuests, dietaryNotes } = parsed.data;
+    const { name, phone, status, additionalGuests, dietaryNotes, answers, additionalGuestAnswers, applyToSeries, sessions } = parsed.data;
 
     // Get existing guest with full event details
     const existingGuest = await prisma.guest.findUnique({
@@ -96,7 +109,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       },
     });
 
-    if (!existingGuest) {
+    if (!existingGuest || existingGuest.status === PENDING_APPROVAL) {
       return NextResponse.json({ error: 'RSVP not found' }, { status: 404 });
     }
 
@@ -108,13 +121,13 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
-    // Filter out empty additional guest names
+    // Filter out empty additional guest names, keeping each guest's answers with them
     const validAdditionalGuests = (additionalGuests || [])
-      .filter((g: string) => g.trim().length > 0)
-      .map((g: string) => g.trim());
+      .map((guestName: string, index: number) => ({ name: guestName.trim(), answers: additionalGuestAnswers?.[index] }))
+      .filter((g) => g.name.length > 0);
 
     // Validate guest limit if status is ATTENDING or being changed to ATTENDING
-    const finalStatus = status || existingGuest.status;
+    let finalStatus = status || existingGuest.status;
     if (finalStatus === 'ATTENDING') {
       // Use per-guest limit if set, otherwise use global limit
       const validation = validateGuestLimit(existingGuest.event.maxGuestsPerInvitee, validAdditionalGuests.length, existingGuest.maxGuests);
@@ -126,6 +139,53 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       }
     }
 
+    // Custom questions are only asked of guests who are attending
+    const updatingAnswers = answers !== undefined || additionalGuests !== undefined;
+    const questionResult = validateRsvpSubmission(
+      updatingAnswers && (finalStatus === 'ATTENDING' || finalStatus === 'WAITLISTED') ? parseRsvpQuestions(existingGuest.event.rsvpQuestions) : [],
+      {
+        name: name || existingGuest.name || existingGuest.email,
+        answers: answers ?? parseRsvpAnswers(existingGuest.rsvpAnswers),
+        additionalGuests: validAdditionalGuests,
+      }
+    );
+    if (!questionResult.valid) {
+      return NextResponse.json(
+        { error: questionResult.error },
+        { status: 400 }
+      );
+    }
+
+    const partySize = 1 + (additionalGuests !== undefined ? validAdditionalGuests.length : existingGuest.additionalGuests.length);
+
+    if (sessions !== undefined) {
+      const sessionResult = await validateSessionResponses(
+        existingGuest.eventId,
+        existingGuest.id,
+        sessions,
+        partySize,
+        finalStatus === 'ATTENDING'
+      );
+      if (!sessionResult.valid) {
+        return NextResponse.json(
+          { error: sessionResult.error },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Parties that don't fit under the event's capacity join the waitlist
+    if (finalStatus === 'ATTENDING') {
+      const resolved = await resolveAttendingStatus(existingGuest.event, partySize, existingGuest);
+      if (resolved.error) {
+        return NextResponse.json(
+          { error: resolved.error },
+          { status: 400 }
+        );
+      }
+      finalStatus = resolved.status;
+    }
+
     // Delete existing additional guests if we're updating them
     if (additionalGuests !== undefined) {
       await prisma.additionalGuest.deleteMany({
@@ -139,14 +199,20 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       data: {
         ...(name !== undefined && { name }),
         ...(phone !== undefined && { phone }),
-        ...(status !== undefined && { status }),
+        ...(finalStatus !== existingGuest.status && {
+          status: finalStatus,
+          waitlistedAt: finalStatus === 'WAITLISTED' ? new Date() : null,
+        }),
         ...(dietaryNotes !== undefined && { dietaryNotes }),
         ...(phone !== undefined && { notifyBySms: !!phone }),
+        ...(updatingAnswers && { rsvpAnswers: serializeRsvpAnswers(questionResult.guestAnswers) }),
         respondedAt: new Date(),
+        respondedVia: 'EDIT_LINK',
         ...(additionalGuests !== undefined && {
           additionalGuests: {
-            create: validAdditionalGuests.map((guestName: string) => ({
-              name: guestName,
+            create: validAdditionalGuests.map((additionalGuest, index) => ({
+              name: additionalGuest.name,
+              rsvpAnswers: serializeRsvpAnswers(questionResult.additionalGuestAnswers[index]),
             })),
           },
         }),
@@ -166,6 +232,10 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       },
     });
 
+    if (sessions !== undefined) {
+      await saveSessionResponses(existingGuest.id, sessions);
+    }
+
     // Get full event details for notifications
     const fullEvent = await prisma.event.findUnique({
       where: { id: existingGuest.eventId },
@@ -188,8 +258,12 @@ export async function PATCH(request: Request, { params }: RouteParams) {
           to: existingGuest.email,
           guestName: updatedGuest.name || existingGuest.email,
           event: {
+            id: updatedGuest.event.id,
             title: updatedGuest.event.title,
             date: updatedGuest.event.date,
+            endDate: updatedGuest.event.endDate,
+            timezone: updatedGuest.event.timezone,
+            calendarSequence: updatedGuest.event.calendarSequence,
             locationName: updatedGuest.event.locationName,
             streetAddress1: updatedGuest.event.streetAddress1,
             streetAddress2: updatedGuest.event.streetAddress2,
@@ -200,22 +274,55 @@ export async function PATCH(request: Request, { params }: RouteParams) {
           status: finalStatus,
           rsvpToken: token,
           replyTo: updatedGuest.event.replyTo,
+          guestId: existingGuest.id,
+          queue: true,
         }).catch((error) => {
           logger.error('Failed to send confirmation email', error);
         })
       );
     }
 
+    if (shouldSendSms(updatedGuest)) {
+      confirmationPromises.push(
+        sendConfirmationSms({
+          to: updatedGuest.phone!,
+          guestName: updatedGuest.name || existingGuest.email,
+          event: updatedGuest.event,
+          status: finalStatus,
+          rsvpToken: token,
+        }).catch((error) => {
+          logger.error('Failed to send confirmation SMS', error);
+        })
+      );
+    }
+
     await Promise.all(confirmationPromises);
 
+    // A guest giving up their spot (or their place in line) may let waitlisted guests in
+    if (existingGuest.status === 'ATTENDING' || existingGuest.status === 'WAITLISTED') {
+      await promoteWaitlistedGuests(existingGuest.eventId).catch((error) => {
+        logger.error('Failed to promote waitlisted guests', error);
+      });
+    }
+
+    let seriesUpdated = 0;
+    if (applyToSeries) {
+      seriesUpdated = await applyRsvpToSeries(existingGuest.event, updatedGuest, updatedGuest.additionalGuests).catch((error) => {
+        logger.error('Failed to apply RSVP to the series', error);
+        return 0;
+      });
+    }
+
     // Detect what changed for notifications
-    const statusChanged = status !== undefined && status !== existingGuest.status;
+    const statusChanged = finalStatus !== existingGuest.status;
     const nameChanged = name !== undefined && name !== existingGuest.name;
     const additionalGuestsChanged = additionalGuests !== undefined;
     const dietaryNotesChanged = dietaryNotes !== undefined && dietaryNotes !== existingGuest.dietaryNotes;
+    const answersChanged = updatingAnswers && serializeRsvpAnswers(questionResult.guestAnswers) !== existingGuest.rsvpAnswers;
     const phoneChanged = phone !== undefined && phone !== existingGuest.phone;
+    const sessionsChanged = sessions !== undefined && sessions.length > 0;
     
-    const hasChanges = statusChanged || nameChanged || additionalGuestsChanged || dietaryNotesChanged || phoneChanged;
+    const hasChanges = statusChanged || nameChanged || additionalGuestsChanged || dietaryNotesChanged || phoneChanged || answersChanged || sessionsChanged;
     
     // Determine change type
     let changeType: 'NEW' | 'UPDATED' | 'STATUS_CHANGED' = 'UPDATED';
@@ -223,6 +330,13 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       changeType = 'STATUS_CHANGED';
     }
 
+    if (hasChanges) {
+      await dispatchWebhookEvent(getRsvpWebhookType(existingGuest.status), existingGuest.eventId, {
+        guest: toWebhookGuest(updatedGuest),
+        previousStatus: existingGuest.status,
+      });
+    }
+
     // Send notifications to hosts (async, don't block response)
     if (hasChanges && fullEvent) {
       const { getAppUrl } = await import('@/lib/config');
@@ -267,7 +381,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
         });
     }
 
-    return NextResponse.json({ guest: updatedGuest });
+    return NextResponse.json({ guest: updatedGuest, seriesUpdated });
   } catch (error) {
     logger.error('Update RSVP error', error);
     return NextResponse.json(
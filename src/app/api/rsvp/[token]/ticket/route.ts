@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { prisma } from '@/lib/prisma';
+import { getAppUrl } from '@/lib/config';
+import { getTicketUrl } from '@/lib/check-in';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Ticket QR code as a PNG, for embedding in emails.
+ * Only attending guests have a valid ticket.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+
+    const guest = await prisma.guest.findUnique({
+      where: { token },
+      select: { status: true },
+    });
+
+    if (!guest || guest.status !== 'ATTENDING') {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    const appUrl = await getAppUrl();
+    const png = await QRCode.toBuffer(getTicketUrl(appUrl, token), {
+      errorCorrectionLevel: 'M',
+      margin: 2,
+      width: 300,
+    });
+
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+  } catch (error) {
+    logger.error('Ticket QR error', error);
+    return NextResponse.json(
+      { error: 'Failed to generate ticket' },
+      { status: 500 }
+    );
+  }
+}
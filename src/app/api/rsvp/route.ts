@@ -1,24 +1,25 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { sendConfirmation, sendRsvpChangeNotification, getEventHostsForNotification } from '@/lib/email';
+import { sendConfirmationSms, shouldSendSms } from '@/lib/sms';
 import { validateGuestLimit } from '@/lib/rsvp-validation';
-import { z } from 'zod';
+import { parseRsvpQuestions, serializeRsvpAnswers, validateRsvpSubmission } from '@/lib/rsvp-questions';
+import { promoteWaitlistedGuests, resolveAttendingStatus } from '@/lib/waitlist';
+import { applyRsvpToSeries } from '@/lib/event-series';
+import { saveSessionResponses, validateSessionResponses } from '@/lib/event-sessions';
+import { needsApproval, PENDING_APPROVAL } from '@/lib/rsvp-approval';
+import { checkVerificationCode, issueVerificationCode } from '@/lib/rsvp-verification';
+import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
+import { isChallengeRequired, verifyChallengeSolution } from '@/lib/challenge';
+import { tooManyRequestsResponse } from '@/lib/api-response';
+import { dispatchWebhookEvent, getRsvpWebhookType, toWebhookGuest } from '@/lib/webhooks';
+import { publicRsvpSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
-const rsvpSchema = z.object({
-  eventId: z.string(),
-  name: z.string().min(1, 'Name is required'),
-  email: z.string().email('Invalid email'),
-  phone: z.string().optional(),
-  status: z.enum(['ATTENDING', 'NOT_ATTENDING', 'MAYBE']),
-  additionalGuests: z.array(z.string().min(1, 'Guest name is required')).optional().default([]),
-  dietaryNotes: z.string().optional(),
-});
-
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const parsed = rsvpSchema.safeParse(body);
+    const parsed = publicRsvpSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -27,10 +28,18 @@ export async function POST(request: Request) {
       );
     }
 
-    const { eventId, name, email, phone, status, additionalGuests, dietaryNotes } = parsed.data;
+    const { eventId, name, email, phone, status, additionalGuests, dietaryNotes, answers, additionalGuestAnswers, applyToSeries, sessions, token, verificationCode, challenge } = parsed.data;
+
+    // The email is the caller's choice, so without an IP address the event's fallback bucket limits them too
+    const rateLimit = await checkRateLimit('rsvp', { ip: getClientIp(request), target: `${eventId}:${email}`, fallback: eventId });
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
 
-    // Filter out empty guest names
-    const validAdditionalGuests = (additionalGuests || []).filter((g: string) => g.trim().length > 0);
+    // Filter out empty guest names, keeping each guest's answers with them
+    const validAdditionalGuests = (additionalGuests || [])
+      .map((guestName: string, index: number) => ({ name: guestName.trim(), answers: additionalGuestAnswers[index] }))
+      .filter((g) => g.name.length > 0);
 
     // Check if event exists and get full event details
     const event = await prisma.event.findUnique({
@@ -63,6 +72,30 @@ export async function POST(request: Request) {
       include: { additionalGuests: true },
     });
 
+    // Guests using their own RSVP link have already proven who they are
+    const hasGuestToken = !!existingGuest && token === existingGuest.token;
+    if (!hasGuestToken && (await isChallengeRequired(event)) && !(await verifyChallengeSolution(challenge))) {
+      return NextResponse.json(
+        { error: 'The spam check failed. Please try again.', code: 'CHALLENGE_FAILED' },
+        { status: 400 }
+      );
+    }
+
+    // Anyone can type an invitee's email, so changing an existing RSVP from the public form
+    // needs proof the person owns it before anything is saved
+    if (existingGuest && token !== existingGuest.token) {
+      if (!verificationCode) {
+        await issueVerificationCode(existingGuest, event);
+        return NextResponse.json({ verificationRequired: true });
+      }
+      if (!(await checkVerificationCode(existingGuest, verificationCode))) {
+        return NextResponse.json(
+          { error: 'That code is invalid or has expired. Request a new code and try again.' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Validate guest limit if status is ATTENDING
     if (status === 'ATTENDING') {
       // Use per-guest limit if set, otherwise use global limit
@@ -76,6 +109,55 @@ export async function POST(request: Request) {
       }
     }
 
+    // Custom questions are only asked of guests who are attending
+    const questionResult = validateRsvpSubmission(
+      status === 'ATTENDING' ? parseRsvpQuestions(event.rsvpQuestions) : [],
+      { name, answers, additionalGuests: validAdditionalGuests }
+    );
+    if (!questionResult.valid) {
+      return NextResponse.json(
+        { error: questionResult.error },
+        { status: 400 }
+      );
+    }
+
+    const sessionResult = await validateSessionResponses(
+      eventId,
+      existingGuest?.id,
+      sessions,
+      1 + validAdditionalGuests.length,
+      status === 'ATTENDING'
+    );
+    if (!sessionResult.valid) {
+      return NextResponse.json(
+        { error: sessionResult.error },
+        { status: 400 }
+      );
+    }
+
+    // On events that require approval, RSVPs from people not on the guest list wait for a host.
+    // Capacity is checked when the request is approved.
+    const awaitingApproval = needsApproval(event, existingGuest);
+
+    // Parties that don't fit under the event's capacity join the waitlist
+    let finalStatus: string = status;
+    if (awaitingApproval) {
+      finalStatus = PENDING_APPROVAL;
+    } else if (status === 'ATTENDING') {
+      const resolved = await resolveAttendingStatus(event, 1 + validAdditionalGuests.length, existingGuest);
+      if (resolved.error) {
+        return NextResponse.json(
+          { error: resolved.error },
+          { status: 400 }
+        );
+      }
+      finalStatus = resolved.status;
+    }
+    // Guests already waiting keep their place in line
+    const waitlistedAt = finalStatus === 'WAITLISTED'
+      ? (existingGuest?.status === 'WAITLISTED' && existingGuest.waitlistedAt) || new Date()
+      : null;
+
     let guest;
 
     if (existingGuest) {
@@ -90,14 +172,23 @@ export async function POST(request: Request) {
         data: {
           name,
           phone: phone || existingGuest.phone,
-          status,
+          status: finalStatus,
+          requestedStatus: awaitingApproval ? status : null,
+          waitlistedAt,
           dietaryNotes: status === 'ATTENDING' ? dietaryNotes : null,
           notifyBySms: phone ? true : existingGuest.notifyBySms,
           respondedAt: new Date(),
+          respondedVia: 'FORM',
+          rsvpAnswers: serializeRsvpAnswers(questionResult.guestAnswers),
+          // The code has been used
+          verificationCode: null,
+          verificationExpiresAt: null,
+          verificationAttempts: 0,
           additionalGuests: {
             create: status === 'ATTENDING'
-              ? validAdditionalGuests.map((guestName: string) => ({
-                  name: guestName.trim(),
+              ? validAdditionalGuests.map((additionalGuest, index) => ({
+                  name: additionalGuest.name,
+                  rsvpAnswers: serializeRsvpAnswers(questionResult.additionalGuestAnswers[index]),
                 }))
               : [],
           },
@@ -112,15 +203,20 @@ export async function POST(request: Request) {
           email,
           phone: phone || null,
           name,
-          status,
+          status: finalStatus,
+          requestedStatus: awaitingApproval ? status : null,
+          waitlistedAt,
           dietaryNotes: status === 'ATTENDING' ? dietaryNotes : null,
           notifyByEmail: true,
           notifyBySms: !!phone,
           respondedAt: new Date(),
+          respondedVia: 'FORM',
+          rsvpAnswers: serializeRsvpAnswers(questionResult.guestAnswers),
           additionalGuests: {
             create: status === 'ATTENDING'
-              ? validAdditionalGuests.map((guestName: string) => ({
-                  name: guestName.trim(),
+              ? validAdditionalGuests.map((additionalGuest, index) => ({
+                  name: additionalGuest.name,
+                  rsvpAnswers: serializeRsvpAnswers(questionResult.additionalGuestAnswers[index]),
                 }))
               : [],
           },
@@ -129,18 +225,24 @@ export async function POST(request: Request) {
       });
     }
 
-    // Send confirmations
+    await saveSessionResponses(guest.id, sessions);
+
+    // Send confirmations - guests awaiting approval get theirs, with their RSVP link, once approved
     const confirmationPromises = [];
 
     // Send email confirmation
-    if (guest.notifyByEmail) {
+    if (guest.notifyByEmail && !awaitingApproval) {
       confirmationPromises.push(
         sendConfirmation({
           to: email,
           guestName: name,
           event: {
+            id: event.id,
             title: event.title,
             date: event.date,
+            endDate: event.endDate,
+            timezone: event.timezone,
+            calendarSequence: event.calendarSequence,
             locationName: event.locationName,
             streetAddress1: event.streetAddress1,
             streetAddress2: event.streetAddress2,
@@ -148,17 +250,54 @@ export async function POST(request: Request) {
             state: event.state,
             zipCode: event.zipCode,
           },
-          status,
+          status: finalStatus,
           rsvpToken: guest.token,
           replyTo: event.replyTo,
+          guestId: guest.id,
+          queue: true,
         }).catch((error) => {
           logger.error('Failed to send confirmation email', error);
         })
       );
     }
 
+    // Send SMS confirmation
+    if (!awaitingApproval && shouldSendSms(guest)) {
+      confirmationPromises.push(
+        sendConfirmationSms({
+          to: guest.phone!,
+          guestName: name,
+          event,
+          status: finalStatus,
+          rsvpToken: guest.token,
+        }).catch((error) => {
+          logger.error('Failed to send confirmation SMS', error);
+        })
+      );
+    }
+
     await Promise.all(confirmationPromises);
 
+    // A guest giving up their spot (or their place in line) may let waitlisted guests in
+    if (existingGuest && (existingGuest.status === 'ATTENDING' || existingGuest.status === 'WAITLISTED')) {
+      await promoteWaitlistedGuests(eventId).catch((error) => {
+        logger.error('Failed to promote waitlisted guests', error);
+      });
+    }
+
+    let seriesUpdated = 0;
+    if (applyToSeries && !awaitingApproval) {
+      seriesUpdated = await applyRsvpToSeries(event, guest, guest.additionalGuests).catch((error) => {
+        logger.error('Failed to apply RSVP to the series', error);
+        return 0;
+      });
+    }
+
+    await dispatchWebhookEvent(getRsvpWebhookType(existingGuest?.status), eventId, {
+      guest: toWebhookGuest(guest),
+      previousStatus: existingGuest?.status ?? null,
+    });
+
     // Send notifications to hosts (async, don't block response)
     const { getAppUrl } = await import('@/lib/config');
     const appUrl = await getAppUrl();
@@ -188,7 +327,7 @@ export async function POST(request: Request) {
               additionalGuests: guest.additionalGuests,
               dietaryNotes: guest.dietaryNotes,
             },
-            changeType: existingGuest ? 'UPDATED' : 'NEW',
+            changeType: awaitingApproval ? 'APPROVAL_REQUESTED' : existingGuest ? 'UPDATED' : 'NEW',
             eventUrl,
           }).catch((error) => {
             logger.error(`Failed to send RSVP notification to host ${host.email}`, error);
@@ -200,7 +339,12 @@ export async function POST(request: Request) {
         logger.error('Failed to send host notifications', error);
       });
 
-    return NextResponse.json({ guest });
+    // The guest record holds their RSVP token, which they only get once approved
+    if (awaitingApproval) {
+      return NextResponse.json({ pendingApproval: true });
+    }
+
+    return NextResponse.json({ guest, seriesUpdated });
   } catch (error) {
     logger.error('RSVP error', error);
     return NextResponse.json(
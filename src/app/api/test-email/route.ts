@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { validateSmtpConfig } from '@/lib/env-validation';
 import { sendInvitation } from '@/lib/email';
 import { getEmailConfig } from '@/lib/config';
+import { testEmailSchema } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
 
 /**
@@ -30,23 +31,16 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { testEmail } = body;
+    const parsed = testEmailSchema.safeParse(body);
 
-    if (!testEmail || typeof testEmail !== 'string') {
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'testEmail is required' },
+        { error: parsed.error.errors[0].message },
         { status: 400 }
       );
     }
 
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(testEmail)) {
-      return NextResponse.json(
-        { error: 'Invalid email format' },
-        { status: 400 }
-      );
-    }
+    const { testEmail } = parsed.data;
 
     // Check SMTP configuration
     const smtpConfig = await validateSmtpConfig();
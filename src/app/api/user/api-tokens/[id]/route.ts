@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE - Revoke a token; scripts using it stop working immediately
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const { count } = await prisma.apiToken.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'API token not found' }, { status: 404 });
+    }
+
+    logger.info('API token revoked', { userId: session.user.id, id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Revoke API token error', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { createApiToken, toApiTokenResponse } from '@/lib/api-tokens';
+import { createApiTokenSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET - The user's API tokens (never the tokens themselves)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const apiTokens = await prisma.apiToken.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ tokens: apiTokens.map(toApiTokenResponse) });
+  } catch (error) {
+    logger.error('Get API tokens error', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Create a token. The response is the only time the token is shown.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = createApiTokenSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { token, apiToken } = await createApiToken(session.user.id, parsed.data);
+
+    logger.info('API token created', { userId: session.user.id, id: apiToken.id });
+
+    return NextResponse.json({ token, apiToken: toApiTokenResponse(apiToken) }, { status: 201 });
+  } catch (error) {
+    logger.error('Create API token error', error);
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getCalendarFeedUrl, getOrCreateGuestCalendarFeed } from '@/lib/calendar-feed';
+import { isEmailConfigured, sendCalendarFeedLink } from '@/lib/email';
+import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
+import { tooManyRequestsResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+
+/**
+ * Email the user a link to the feed of events their account email is invited to.
+ * Account emails aren't verified, so the link goes to the address rather than back to
+ * whoever asked, and an existing link for that address is reused, never replaced.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, name: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rateLimit = await checkRateLimit('editLink', { ip: getClientIp(request), target: `calendar-feed:${user.email}` });
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
+    if (!(await isEmailConfigured())) {
+      return NextResponse.json(
+        { error: "This server can't send email, so the calendar feed link can't be sent" },
+        { status: 503 }
+      );
+    }
+
+    const feed = await getOrCreateGuestCalendarFeed(user.email);
+    await sendCalendarFeedLink({
+      to: user.email,
+      guestName: user.name,
+      feedUrl: await getCalendarFeedUrl(feed.token),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `We emailed a link to subscribe to ${user.email}.`,
+    });
+  } catch (error) {
+    logger.error('Invited calendar feed error', error);
+    return NextResponse.json({ error: 'Failed to send calendar feed link' }, { status: 500 });
+  }
+}
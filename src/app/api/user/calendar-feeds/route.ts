@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getCalendarFeedUrl, getHostCalendarFeed, resetHostCalendarFeed, revokeHostCalendarFeed } from '@/lib/calendar-feed';
+import { logger } from '@/lib/logger';
+
+/**
+ * Link to the feed of events the user hosts; null while it's off. The feed of events
+ * they're invited to is only ever emailed (see ./invited).
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const feed = await getHostCalendarFeed(session.user.id);
+
+    return NextResponse.json({
+      hosting: feed ? await getCalendarFeedUrl(feed.token) : null,
+    });
+  } catch (error) {
+    logger.error('Get calendar feeds error', error);
+    return NextResponse.json({ error: 'Failed to load calendar feeds' }, { status: 500 });
+  }
+}
+
+/**
+ * Turn the host feed on, or replace its link (revoking the old one)
+ */
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const feed = await resetHostCalendarFeed(session.user.id);
+
+    return NextResponse.json({ url: await getCalendarFeedUrl(feed.token) });
+  } catch (error) {
+    logger.error('Reset calendar feed error', error);
+    return NextResponse.json({ error: 'Failed to create calendar feed' }, { status: 500 });
+  }
+}
+
+/**
+ * Turn the host feed off
+ */
+export async function DELETE() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await revokeHostCalendarFeed(session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Revoke calendar feed error', error);
+    return NextResponse.json({ error: 'Failed to turn off calendar feed' }, { status: 500 });
+  }
+}
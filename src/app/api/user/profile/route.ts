@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
+import { updateProfileSchema } from '@/lib/schemas';
 import bcrypt from 'bcryptjs';
 import { isValidEmail } from '@/lib/utils';
 import { logger } from '@/lib/logger';
@@ -14,26 +14,6 @@ type UserWithOptionalUsername = {
   theme: string | null;
 };
 
-const updateProfileSchema = z.object({
-  name: z.string().optional().transform((val) => val === '' ? undefined : val),
-  username: z.string().min(1, 'Username is required').regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores').optional(),
-  email: z.string().min(1, 'Email is required').refine((val) => isValidEmail(val), {
-    message: 'Invalid email address format',
-  }).optional(),
-  theme: z.enum(['light', 'dark', 'system']).optional(),
-  notifyOnRsvpChanges: z.boolean().optional(),
-  currentPassword: z.string().optional(),
-  newPassword: z.string().min(6, 'Password must be at least 6 characters').optional(),
-}).refine((data) => {
-  // If one password field is provided, both must be provided
-  if (data.currentPassword || data.newPassword) {
-    return data.currentPassword && data.newPassword;
-  }
-  return true;
-}, {
-  message: 'Both current password and new password are required',
-});
-
 export async function PATCH(request: Request) {
   try {
     const session = await auth();
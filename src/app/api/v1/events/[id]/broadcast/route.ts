@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { authenticateApiRequest, checkApiEventAccess } from '@/lib/api-tokens';
+import { internalErrorResponse, notFoundResponse, successResponse, validationErrorResponse } from '@/lib/api-response';
+import { broadcastSchema } from '@/lib/schemas';
+import { sendBroadcast } from '@/lib/broadcasts';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/v1/events/:id/broadcast - Send an update to the guest list
+ * Scope: messages:send
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'messages:send');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'sendMessages');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = broadcastSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const result = await sendBroadcast(eventId, parsed.data, authResult.userId);
+
+    if (!result) {
+      return notFoundResponse('Event');
+    }
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('API broadcast error', error);
+    return internalErrorResponse('Failed to send broadcast');
+  }
+}
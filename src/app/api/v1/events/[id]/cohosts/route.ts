@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, checkApiEventAccess } from '@/lib/api-tokens';
+import { internalErrorResponse, notFoundResponse, successResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/events/:id/cohosts - The event's host and co-hosts
+ * Scope: events:read
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'events:read');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'viewGuests');
+    if (denied) {
+      return denied;
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        host: { select: { id: true, name: true, email: true } },
+        coHosts: {
+          include: { user: { select: { id: true, name: true, email: true } } },
+          orderBy: { invitedAt: 'asc' },
+        },
+      },
+    });
+
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+
+    return successResponse({
+      host: event.host,
+      coHosts: event.coHosts.map((coHost) => ({
+        ...coHost.user,
+        role: coHost.role,
+        addedAt: coHost.invitedAt,
+      })),
+    });
+  } catch (error) {
+    logger.error('API list co-hosts error', error);
+    return internalErrorResponse('Failed to fetch co-hosts');
+  }
+}
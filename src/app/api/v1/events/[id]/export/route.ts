@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { authenticateApiRequest, checkApiEventAccess } from '@/lib/api-tokens';
+import { internalErrorResponse, notFoundResponse } from '@/lib/api-response';
+import { buildGuestExport } from '@/lib/guest-export';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/events/:id/export - The guest list as CSV, as in the dashboard export
+ * Scope: events:read
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'events:read');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'exportGuests');
+    if (denied) {
+      return denied;
+    }
+
+    const guestExport = await buildGuestExport(eventId);
+
+    if (!guestExport) {
+      return notFoundResponse('Event');
+    }
+
+    return new NextResponse(guestExport.csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${guestExport.filename}"`,
+      },
+    });
+  } catch (error) {
+    logger.error('API export guests error', error);
+    return internalErrorResponse('Failed to export guests');
+  }
+}
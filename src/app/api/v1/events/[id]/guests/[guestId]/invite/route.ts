@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, checkApiEventAccess } from '@/lib/api-tokens';
+import { errorResponse, internalErrorResponse, notFoundResponse, successResponse } from '@/lib/api-response';
+import { getInvitationEvent, sendGuestInvitation } from '@/lib/guests';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; guestId: string }>;
+}
+
+/**
+ * POST /api/v1/events/:id/guests/:guestId/invite - Send (or resend) a guest's invitation
+ * Scope: messages:send
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'messages:send');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId, guestId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'sendMessages');
+    if (denied) {
+      return denied;
+    }
+
+    const event = await getInvitationEvent(eventId);
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+
+    const guest = await prisma.guest.findUnique({
+      where: { id: guestId },
+    });
+
+    if (!guest || guest.eventId !== eventId) {
+      return notFoundResponse('Guest');
+    }
+
+    try {
+      await sendGuestInvitation(event, guest);
+    } catch (error) {
+      logger.error('Failed to send invitation email', error);
+      return errorResponse('Failed to send invitation email', 502, 'EMAIL_FAILED');
+    }
+
+    return successResponse(undefined, 'Invitation sent');
+  } catch (error) {
+    logger.error('API send invitation error', error);
+    return internalErrorResponse('Failed to send invitation');
+  }
+}
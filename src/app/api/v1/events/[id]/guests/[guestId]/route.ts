@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, checkApiEventAccess } from '@/lib/api-tokens';
+import {
+  errorResponse,
+  internalErrorResponse,
+  notFoundResponse,
+  successResponse,
+  validationErrorResponse,
+} from '@/lib/api-response';
+import { updateGuestSchema } from '@/lib/schemas';
+import { removeGuest, updateGuest } from '@/lib/guests';
+import { parseRsvpAnswers } from '@/lib/rsvp-questions';
+import { toWebhookGuest } from '@/lib/webhooks';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; guestId: string }>;
+}
+
+async function findEventGuest(eventId: string, guestId: string) {
+  const guest = await prisma.guest.findUnique({
+    where: { id: guestId },
+    include: { additionalGuests: true },
+  });
+
+  return guest && guest.eventId === eventId ? guest : null;
+}
+
+/**
+ * GET /api/v1/events/:id/guests/:guestId - A guest with their RSVP answers
+ * Scope: events:read
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'events:read');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId, guestId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'viewGuests');
+    if (denied) {
+      return denied;
+    }
+
+    const guest = await findEventGuest(eventId, guestId);
+    if (!guest) {
+      return notFoundResponse('Guest');
+    }
+
+    return successResponse({
+      guest: { ...toWebhookGuest(guest), answers: parseRsvpAnswers(guest.rsvpAnswers) },
+    });
+  } catch (error) {
+    logger.error('API get guest error', error);
+    return internalErrorResponse('Failed to fetch guest');
+  }
+}
+
+/**
+ * PATCH /api/v1/events/:id/guests/:guestId - Edit a guest
+ * Scope: guests:write
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'guests:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId, guestId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'editGuests');
+    if (denied) {
+      return denied;
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, maxGuestsPerInvitee: true },
+    });
+    const existingGuest = event && (await findEventGuest(eventId, guestId));
+    if (!event || !existingGuest) {
+      return notFoundResponse(event ? 'Guest' : 'Event');
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = updateGuestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const result = await updateGuest(event, existingGuest, parsed.data);
+
+    if (result.error !== undefined) {
+      return errorResponse(result.error, 400, 'VALIDATION_ERROR');
+    }
+
+    return successResponse({ guest: toWebhookGuest(result.guest) });
+  } catch (error) {
+    logger.error('API update guest error', error);
+    return internalErrorResponse('Failed to update guest');
+  }
+}
+
+/**
+ * DELETE /api/v1/events/:id/guests/:guestId - Remove a guest
+ * Scope: guests:write
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'guests:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId, guestId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'editGuests');
+    if (denied) {
+      return denied;
+    }
+
+    if (!(await removeGuest(eventId, guestId))) {
+      return notFoundResponse('Guest');
+    }
+
+    return successResponse(undefined, 'Guest removed');
+  } catch (error) {
+    logger.error('API remove guest error', error);
+    return internalErrorResponse('Failed to remove guest');
+  }
+}
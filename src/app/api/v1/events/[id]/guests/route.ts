@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, checkApiEventAccess } from '@/lib/api-tokens';
+import {
+  errorResponse,
+  forbiddenResponse,
+  internalErrorResponse,
+  notFoundResponse,
+  successResponse,
+  validationErrorResponse,
+} from '@/lib/api-response';
+import { addGuestSchema, apiGuestListQuerySchema } from '@/lib/schemas';
+import { addGuest, getInvitationEvent } from '@/lib/guests';
+import { toWebhookGuest } from '@/lib/webhooks';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/events/:id/guests - The guest list, by name
+ * Scope: events:read. Query: ?page=&limit=&status=
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'events:read');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'viewGuests');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = apiGuestListQuerySchema.safeParse({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      status: searchParams.get('status') || undefined,
+    });
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { page, limit, status } = parsed.data;
+    const where = { eventId, ...(status && { status }) };
+
+    const [guests, total] = await Promise.all([
+      prisma.guest.findMany({
+        where,
+        include: { additionalGuests: true },
+        orderBy: { name: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.guest.count({ where }),
+    ]);
+
+    return successResponse({
+      guests: guests.map(toWebhookGuest),
+      pagination: { page, limit, total },
+    });
+  } catch (error) {
+    logger.error('API list guests error', error);
+    return internalErrorResponse('Failed to fetch guests');
+  }
+}
+
+/**
+ * POST /api/v1/events/:id/guests - Add a guest
+ * Scope: guests:write, plus messages:send unless "sendInvite" is false
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'guests:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'editGuests');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = addGuestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    if (parsed.data.sendInvite && !authResult.scopes.includes('messages:send')) {
+      return forbiddenResponse('Sending the invitation needs the messages:send scope. Set "sendInvite" to false to add the guest without one.');
+    }
+
+    const event = await getInvitationEvent(eventId);
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+
+    const result = await addGuest(event, parsed.data);
+
+    if (result.error !== undefined) {
+      return errorResponse(result.error, 409, 'DUPLICATE_ENTRY');
+    }
+
+    return successResponse({ guest: toWebhookGuest(result.guest) }, undefined, 201);
+  } catch (error) {
+    logger.error('API add guest error', error);
+    return internalErrorResponse('Failed to add guest');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, checkApiEventAccess } from '@/lib/api-tokens';
+import { internalErrorResponse, notFoundResponse, successResponse } from '@/lib/api-response';
+import { toWebhookEvent } from '@/lib/webhooks';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/events/:id - An event's details
+ * Scope: events:read
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'events:read');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'viewGuests');
+    if (denied) {
+      return denied;
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event) {
+      return notFoundResponse('Event');
+    }
+
+    return successResponse({ event: toWebhookEvent(event) });
+  } catch (error) {
+    logger.error('API get event error', error);
+    return internalErrorResponse('Failed to fetch event');
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest, checkApiEventAccess } from '@/lib/api-tokens';
+import { internalErrorResponse, successResponse } from '@/lib/api-response';
+import { parseRsvpAnswers } from '@/lib/rsvp-questions';
+import { PENDING_APPROVAL } from '@/lib/rsvp-approval';
+import { toWebhookGuest } from '@/lib/webhooks';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/events/:id/rsvps - RSVP totals and every guest who has answered, latest first
+ * Scope: events:read
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'events:read');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { id: eventId } = await params;
+    const denied = await checkApiEventAccess(authResult.userId, eventId, 'viewGuests');
+    if (denied) {
+      return denied;
+    }
+
+    const guests = await prisma.guest.findMany({
+      where: { eventId },
+      include: { additionalGuests: true },
+      orderBy: { respondedAt: 'desc' },
+    });
+
+    const counts: Record<string, number> = {
+      ATTENDING: 0,
+      NOT_ATTENDING: 0,
+      MAYBE: 0,
+      PENDING: 0,
+      WAITLISTED: 0,
+      [PENDING_APPROVAL]: 0,
+    };
+    let headcount = 0;
+
+    for (const guest of guests) {
+      counts[guest.status] = (counts[guest.status] || 0) + 1;
+      if (guest.status === 'ATTENDING') {
+        headcount += 1 + guest.additionalGuests.length;
+      }
+    }
+
+    const responses = guests
+      .filter((guest) => guest.status !== 'PENDING' && guest.status !== PENDING_APPROVAL)
+      .map((guest) => ({ ...toWebhookGuest(guest), answers: parseRsvpAnswers(guest.rsvpAnswers) }));
+
+    return successResponse({ counts, headcount, responses });
+  } catch (error) {
+    logger.error('API list RSVPs error', error);
+    return internalErrorResponse('Failed to fetch RSVPs');
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authenticateApiRequest } from '@/lib/api-tokens';
+import { internalErrorResponse, successResponse, validationErrorResponse } from '@/lib/api-response';
+import { paginationSchema } from '@/lib/schemas';
+import { toWebhookEvent } from '@/lib/webhooks';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/v1/events - Events the token's user hosts or co-hosts, soonest first
+ * Scope: events:read. Query: ?page=&limit=
+ */
+export async function GET(request: Request) {
+  try {
+    const authResult = await authenticateApiRequest(request, 'events:read');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+    const { userId } = authResult;
+
+    const { searchParams } = new URL(request.url);
+    const parsed = paginationSchema.safeParse({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { page, limit } = parsed.data;
+    const where = {
+      OR: [{ hostId: userId }, { coHosts: { some: { userId } } }],
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.event.findMany({
+        where,
+        include: { coHosts: { where: { userId }, select: { role: true } } },
+        orderBy: { date: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.event.count({ where }),
+    ]);
+
+    return successResponse({
+      events: events.map((event) => ({
+        ...toWebhookEvent(event),
+        role: event.hostId === userId ? 'HOST' : event.coHosts[0]?.role ?? 'COHOST',
+      })),
+      pagination: { page, limit, total },
+    });
+  } catch (error) {
+    logger.error('API list events error', error);
+    return internalErrorResponse('Failed to fetch events');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+import { getAppUrl } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/openapi.json - The OpenAPI 3.1 description of the API. Public, so
+ * client generators and API tools can fetch it without a token.
+ */
+export async function GET() {
+  try {
+    const document = buildOpenApiDocument(await getAppUrl());
+
+    return NextResponse.json(document, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (error) {
+    logger.error('OpenAPI document error', error);
+    return NextResponse.json(
+      { error: 'Failed to build API description' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageWebhook, listWebhookDeliveries } from '@/lib/webhooks';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET - A webhook's recent deliveries
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const webhook = await prisma.webhook.findUnique({ where: { id } });
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    if (!(await canManageWebhook(session.user.id, webhook))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const deliveries = await listWebhookDeliveries(id);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    logger.error('Get webhook deliveries error', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
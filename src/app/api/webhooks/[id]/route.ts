@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageWebhook, toWebhookResponse } from '@/lib/webhooks';
+import { updateWebhookSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH - Change a webhook's URL or events, or turn it on or off
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const webhook = await prisma.webhook.findUnique({ where: { id } });
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    if (!(await canManageWebhook(session.user.id, webhook))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = updateWebhookSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { url, events, active } = parsed.data;
+
+    const updated = await prisma.webhook.update({
+      where: { id },
+      data: {
+        ...(url !== undefined && { url }),
+        ...(events !== undefined && { events: JSON.stringify(events) }),
+        ...(active !== undefined && { active }),
+      },
+    });
+
+    return NextResponse.json({ webhook: toWebhookResponse(updated) });
+  } catch (error) {
+    logger.error('Update webhook error', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a webhook and its delivery history
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const webhook = await prisma.webhook.findUnique({ where: { id } });
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    if (!(await canManageWebhook(session.user.id, webhook))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await prisma.webhook.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Delete webhook error', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
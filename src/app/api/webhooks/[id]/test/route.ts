@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageWebhook, sendTestWebhook } from '@/lib/webhooks';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST - Send a test ("ping") delivery right away and report how the endpoint answered
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const webhook = await prisma.webhook.findUnique({ where: { id } });
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    if (!(await canManageWebhook(session.user.id, webhook))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const delivery = await sendTestWebhook(webhook);
+
+    return NextResponse.json({
+      success: delivery.status === 'SENT',
+      responseStatus: delivery.responseStatus,
+      error: delivery.lastError,
+    });
+  } catch (error) {
+    logger.error('Test webhook error', error);
+    return NextResponse.json(
+      { error: 'Failed to send test webhook' },
+      { status: 500 }
+    );
+  }
+}
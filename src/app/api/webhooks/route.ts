@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageEvent } from '@/lib/event-access';
+import { generateWebhookSecret, toWebhookResponse } from '@/lib/webhooks';
+import { createWebhookSchema } from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET - The user's account-wide webhooks, or an event's webhooks with ?eventId=
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const eventId = searchParams.get('eventId');
+
+    if (eventId && !(await canManageEvent(session.user.id, eventId, 'editEvent'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const webhooks = await prisma.webhook.findMany({
+      where: eventId ? { eventId } : { userId: session.user.id, eventId: null },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ webhooks: webhooks.map(toWebhookResponse) });
+  } catch (error) {
+    logger.error('Get webhooks error', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Add a webhook
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = createWebhookSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { url, events, eventId } = parsed.data;
+
+    if (eventId && !(await canManageEvent(session.user.id, eventId, 'editEvent'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        userId: session.user.id,
+        eventId: eventId || null,
+        url,
+        secret: generateWebhookSecret(),
+        events: JSON.stringify(events),
+      },
+    });
+
+    return NextResponse.json({ webhook: toWebhookResponse(webhook) }, { status: 201 });
+  } catch (error) {
+    logger.error('Create webhook error', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { PublicNav } from '@/components/public-nav';
+import { ApiExplorer } from '@/components/api-explorer';
+import { buildOpenApiDocument, OPENAPI_DOCUMENT_PATH } from '@/lib/openapi';
+import { getAppUrl } from '@/lib/config';
+
+// The server URL in the document comes from the database
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'API Reference | OwnRSVP',
+};
+
+export default async function ApiDocsPage() {
+  const document = buildOpenApiDocument(await getAppUrl());
+
+  return (
+    <div className="min-h-screen aurora-bg">
+      <PublicNav />
+
+      <div className="pt-28 pb-16 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-10">
+            <p className="label-mono mb-3">Version {document.info.version}</p>
+            <h1 className="headline text-4xl md:text-5xl mb-2">API Reference</h1>
+            <p className="text-lg text-muted-foreground">
+              Manage your events and guest lists from scripts and other apps. Send a personal API token as{' '}
+              <code className="font-mono text-sm">Authorization: Bearer &lt;token&gt;</code>.
+            </p>
+            <p className="text-muted-foreground mt-2">
+              Events, Guests and Messages are the stable API. The sections after them are the routes the
+              app&apos;s own pages call with your session; they&apos;re listed for completeness and may change
+              between releases.
+            </p>
+            <p className="text-sm text-muted-foreground mt-2">
+              OpenAPI 3.1 description:{' '}
+              <Link href={OPENAPI_DOCUMENT_PATH} className="text-primary hover:underline font-mono">
+                {OPENAPI_DOCUMENT_PATH}
+              </Link>
+            </p>
+            <hr className="ink-rule-double mt-6" />
+          </div>
+
+          <ApiExplorer document={document} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { isPast } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { getAppUrl } from '@/lib/config';
+import { formatEventDateTime } from '@/lib/timezone';
+import { formatAddressOneLine, hasAddress } from '@/lib/address-utils';
+import { parseRsvpQuestions } from '@/lib/rsvp-questions';
+import { getFutureOccurrences } from '@/lib/event-series';
+import { getGuestSessions } from '@/lib/event-sessions';
+import { isChallengeRequired } from '@/lib/challenge';
+import { getAttendingHeadcount } from '@/lib/waitlist';
+import {
+  getFramingOrigin,
+  hexToHslChannels,
+  isEmbedOriginAllowed,
+  parseEmbedOptions,
+  parseEmbedOrigins,
+} from '@/lib/embed';
+import { EmbedRsvpWidget } from '@/components/embed-rsvp-widget';
+import { cn } from '@/lib/utils';
+
+// Which site is framing the widget comes from each request's headers
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'RSVP | OwnRSVP',
+  robots: { index: false, follow: false },
+};
+
+interface EmbedPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ theme?: string; accent?: string; headcount?: string }>;
+}
+
+/**
+ * The RSVP widget shown in an iframe on a host's own website. The middleware's
+ * frame-ancestors policy keeps browsers from framing it anywhere else; the form also
+ * only renders when the Referer is one of the sites the host allowed.
+ */
+export default async function EmbedEventPage({ params, searchParams }: EmbedPageProps) {
+  const { slug } = await params;
+  const options = parseEmbedOptions(await searchParams);
+
+  const event = await prisma.event.findUnique({
+    where: { slug },
+  });
+
+  if (!event || !event.isPublic) {
+    notFound();
+  }
+
+  const appUrl = await getAppUrl();
+  const eventUrl = `${appUrl}/events/${slug}`;
+  const parentOrigin = getFramingOrigin(headers().get('referer'));
+  const allowed = isEmbedOriginAllowed(parseEmbedOrigins(event.embedOrigins), parentOrigin);
+
+  const themeClass = options.theme === 'auto' ? undefined : options.theme;
+  const accentStyle = options.accent
+    ? ({ '--primary': hexToHslChannels(options.accent), '--ring': hexToHslChannels(options.accent) } as React.CSSProperties)
+    : undefined;
+
+  if (!allowed || !parentOrigin) {
+    return (
+      <div className={cn('min-h-screen bg-background text-foreground', themeClass)} style={accentStyle}>
+        <div className="p-6 text-center space-y-2">
+          <p className="font-medium">{event.title}</p>
+          <p className="text-sm text-muted-foreground">
+            This RSVP form can&apos;t be shown on this website.
+          </p>
+          <a href={eventUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline">
+            RSVP on the event page
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  const [attending, laterOccurrences, sessions, spamProtection] = await Promise.all([
+    getAttendingHeadcount(event.id),
+    getFutureOccurrences(event),
+    getGuestSessions(event.id),
+    isChallengeRequired(event),
+  ]);
+
+  return (
+    <div className={cn('min-h-screen bg-background text-foreground', themeClass)} style={accentStyle}>
+      <EmbedRsvpWidget
+        slug={slug}
+        parentOrigin={parentOrigin}
+        eventUrl={eventUrl}
+        event={{
+          id: event.id,
+          title: event.title,
+          when: formatEventDateTime(event.date, event.timezone),
+          where: hasAddress(event) ? formatAddressOneLine(event) : null,
+          timezone: event.timezone,
+          maxGuestsPerInvitee: event.maxGuestsPerInvitee,
+          requireApproval: event.requireApproval,
+        }}
+        questions={parseRsvpQuestions(event.rsvpQuestions)}
+        laterDates={laterOccurrences.length}
+        sessions={sessions}
+        spamProtection={spamProtection}
+        rsvpDeadlinePassed={event.rsvpDeadline ? isPast(new Date(event.rsvpDeadline)) : false}
+        initialHeadcount={{
+          attending,
+          capacity: event.capacity,
+          spotsLeft: event.capacity !== null ? Math.max(event.capacity - attending, 0) : null,
+        }}
+        showHeadcount={options.headcount}
+      />
+    </div>
+  );
+}
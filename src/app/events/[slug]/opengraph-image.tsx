@@ -0,0 +1,69 @@
+import { ImageResponse } from 'next/og';
+import { getShareCoverImage, getSharePreview, SHARE_IMAGE_SIZE } from '@/lib/share-preview';
+
+export const alt = 'Event invitation';
+export const size = SHARE_IMAGE_SIZE;
+export const contentType = 'image/png';
+
+/**
+ * Share image for link previews: title, date in the event's timezone, venue and cover image.
+ * Private and missing events get a plain OwnRSVP card.
+ */
+export default async function Image({ params }: { params: { slug: string } }) {
+  const preview = await getSharePreview(params.slug);
+  const cover = preview ? await getShareCoverImage(preview.coverImage) : null;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          backgroundColor: '#f4ede0',
+          color: '#1c1917',
+        }}
+      >
+        <div
+          style={{
+            flex: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            padding: '64px',
+            borderLeft: '16px solid #d6371c',
+          }}
+        >
+          <div style={{ display: 'flex', fontSize: 28, letterSpacing: 4, color: '#d6371c', textTransform: 'uppercase' }}>
+            {preview ? "You're invited" : 'OwnRSVP'}
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div style={{ display: 'flex', fontSize: preview && preview.title.length > 40 ? 56 : 72, fontWeight: 700, lineHeight: 1.1 }}>
+              {preview ? preview.title : 'Event invitations made simple'}
+            </div>
+            {preview && (
+              <div style={{ display: 'flex', flexDirection: 'column', marginTop: 32, fontSize: 30, color: '#57534e' }}>
+                <div style={{ display: 'flex' }}>{preview.dateLabel}</div>
+                {preview.venue && <div style={{ display: 'flex', marginTop: 8 }}>{preview.venue}</div>}
+              </div>
+            )}
+          </div>
+          <div style={{ display: 'flex', fontSize: 24, color: '#78716c' }}>
+            {preview ? 'RSVP with OwnRSVP' : 'Self-hosted event invitations and RSVPs'}
+          </div>
+        </div>
+        {cover && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={cover}
+            alt=""
+            width={460}
+            height={SHARE_IMAGE_SIZE.height}
+            style={{ objectFit: 'cover' }}
+          />
+        )}
+      </div>
+    ),
+    size
+  );
+}
@@ -1,11 +1,14 @@
+import type { Metadata } from 'next';
 import { notFound } from 'next/navigation';
+import Link from 'next/link';
 import { prisma } from '@/lib/prisma';
 import { getAppUrl } from '@/lib/config';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Calendar, MapPin, Users, MessageSquare, Clock, Navigation } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Calendar, CalendarRange, MapPin, Users, MessageSquare, Clock, Navigation, Repeat, Pin } from 'lucide-react';
 import { formatDistanceToNow, isPast } from 'date-fns';
-import { formatEventDateTime, formatEventDateTimeShort } from '@/lib/timezone';
+import { formatEventDateTime, formatEventDateTimeShort, formatTimeInTimezone } from '@/lib/timezone';
 import { PublicRsvpForm } from '@/components/public-rsvp-form';
 import { PublicCommentForm } from '@/components/public-comment-form';
 import { PublicNav } from '@/components/public-nav';
@@ -13,12 +16,55 @@ import { AddToCalendar } from '@/components/add-to-calendar';
 import { ManageRsvp } from '@/components/manage-rsvp';
 import { QRCode } from '@/components/qr-code';
 import { formatAddressOneLine, formatAddressMultiLine, formatAddressForMaps, hasAddress } from '@/lib/address-utils';
+import { parseRsvpQuestions } from '@/lib/rsvp-questions';
+import { getFutureOccurrences } from '@/lib/event-series';
+import { getGuestSessions } from '@/lib/event-sessions';
+import { canPostComment } from '@/lib/comments';
+import { isChallengeRequired } from '@/lib/challenge';
+import { getSharePreview } from '@/lib/share-preview';
+import { getImageUrl } from '@/lib/media-variants';
+import { toCalendarEvent } from '@/lib/calendar';
 
 interface EventPageProps {
   params: Promise<{ slug: string }>;
   searchParams: Promise<{ email?: string; token?: string; success?: string; error?: string }>;
 }
 
+/**
+ * Title, description and link preview cards. The share image comes from opengraph-image.tsx.
+ */
+export async function generateMetadata({ params }: EventPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const preview = await getSharePreview(slug);
+
+  // Private events give nothing away to crawlers
+  if (!preview) {
+    return { robots: { index: false, follow: false } };
+  }
+
+  const appUrl = await getAppUrl();
+  const url = `${appUrl}/events/${slug}`;
+
+  return {
+    metadataBase: new URL(appUrl),
+    title: `${preview.title} | OwnRSVP`,
+    description: preview.description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'website',
+      siteName: 'OwnRSVP',
+      url,
+      title: preview.title,
+      description: preview.description,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: preview.title,
+      description: preview.description,
+    },
+  };
+}
+
 export default async function PublicEventPage({ params, searchParams }: EventPageProps) {
   const { slug } = await params;
   const { email, token } = await searchParams;
@@ -39,9 +85,17 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
           },
         },
       },
+      // Hosts see pending and hidden messages from the dashboard; the public wall only shows visible ones
       comments: {
-        orderBy: { createdAt: 'desc' },
+        where: { parentId: null, status: 'VISIBLE' },
+        orderBy: [{ pinned: 'desc' }, { createdAt: 'desc' }],
         take: 20,
+        include: {
+          replies: {
+            where: { status: 'VISIBLE' },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
       },
     },
   });
@@ -55,6 +109,7 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
   // Find guest by token or email if provided
   let guestToken: string | null = null;
   let guestEmail: string | null = null;
+  let guestId: string | null = null;
   let prefillData: {
     name: string | null;
     email: string;
@@ -74,9 +129,11 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
         phone: true,
         dietaryNotes: true,
         eventId: true,
+        id: true,
       },
     });
     if (guest && guest.eventId === event.id) {
+      guestId = guest.id;
       guestToken = guest.token;
       guestEmail = guest.email;
       prefillData = {
@@ -88,23 +145,9 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
       };
     }
   } else if (email) {
-    // Email-based lookup (legacy support)
-    const guest = await prisma.guest.findUnique({
-      where: {
-        eventId_email: {
-          eventId: event.id,
-          email: decodeURIComponent(email),
-        },
-      },
-      select: {
-        token: true,
-        email: true,
-      },
-    });
-    if (guest) {
-      guestToken = guest.token;
-      guestEmail = guest.email;
-    }
+    // ?email= only prefills the "send me my edit link" form - the RSVP link itself
+    // goes to the inbox, so knowing someone's email isn't enough to change their RSVP
+    guestEmail = decodeURIComponent(email);
   }
 
   // Count total attendees including additional guests
@@ -112,6 +155,20 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
     return sum + 1 + (guest.additionalGuests?.length || 0); // 1 for main guest + additional guests
   }, 0);
 
+  const spotsLeft = event.capacity !== null ? Math.max(event.capacity - attendingCount, 0) : null;
+
+  // Later dates of a recurring event
+  const laterOccurrences = await getFutureOccurrences(event);
+
+  // Sessions open to everyone, plus any this invitee was picked for
+  const sessions = await getGuestSessions(event.id, guestId);
+
+  // Guests opening the page from their RSVP link count as invitees on the guest wall
+  const canComment = canPostComment(event.commentMode, !!guestToken);
+
+  // Public forms solve a proof-of-work spam check before submitting
+  const spamProtection = await isChallengeRequired(event);
+
   // Check if RSVP deadline has passed
   const rsvpDeadlinePassed = event.rsvpDeadline ? isPast(new Date(event.rsvpDeadline)) : false;
 
@@ -126,7 +183,7 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
             {event.coverImage && (
               <div className="w-full max-h-[520px] overflow-hidden bg-foreground/[0.04] flex items-center justify-center border-b border-border">
                 <img
-                  src={event.coverImage}
+                  src={getImageUrl(event.coverImage, 'card')}
                   alt={event.title}
                   className="w-full max-h-[520px] object-contain"
                 />
@@ -191,6 +248,13 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
                     Each invitee may bring up to {event.maxGuestsPerInvitee - 1} additional guest{event.maxGuestsPerInvitee - 1 !== 1 ? 's' : ''} ({event.maxGuestsPerInvitee} total, including themselves).
                   </p>
                 )}
+                {spotsLeft !== null && !rsvpDeadlinePassed && (
+                  <p className="text-sm text-muted-foreground max-w-md mx-auto">
+                    {spotsLeft > 0
+                      ? `${spotsLeft} ${spotsLeft === 1 ? 'spot' : 'spots'} left.`
+                      : "This event is full. RSVP to join the waitlist - we'll email you if a spot opens up."}
+                  </p>
+                )}
               </div>
 
               <div className="flex flex-wrap items-center justify-center gap-3 mt-6">
@@ -199,12 +263,8 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
                   {attendingCount} {attendingCount === 1 ? 'guest' : 'guests'} attending
                 </span>
                 <AddToCalendar
-                  title={event.title}
-                  description={event.description || ''}
-                  location={formatAddressOneLine(event)}
-                  startDate={event.date}
-                  endDate={event.endDate}
-                  url={`${appUrl}/events/${event.slug}`}
+                  event={toCalendarEvent(event, `${appUrl}/events/${event.slug}`)}
+                  rsvpToken={guestToken || undefined}
                 />
               </div>
             </CardHeader>
@@ -221,6 +281,77 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
             </CardContent>
           </Card>
 
+          {/* Sessions */}
+          {sessions.length > 0 && (
+            <Card className="border border-border animate-slide-up" style={{ animationDelay: '0.05s' }}>
+              <CardHeader>
+                <CardTitle className="text-xl flex items-center gap-2">
+                  <CalendarRange className="w-5 h-5 text-primary" />
+                  Schedule
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-4">
+                  {sessions.map((session) => (
+                    <li key={session.id} className="space-y-1">
+                      <p className="font-medium">{session.name}</p>
+                      <p className="text-sm text-muted-foreground flex items-center gap-2">
+                        <Clock className="w-4 h-4" />
+                        {formatEventDateTimeShort(session.date, event.timezone)}
+                        {session.endDate && ` - ${formatTimeInTimezone(session.endDate, event.timezone)}`}
+                      </p>
+                      {hasAddress(session) && (
+                        <a
+                          href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(formatAddressForMaps(session))}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-primary hover:underline flex items-center gap-2"
+                        >
+                          <MapPin className="w-4 h-4" />
+                          {formatAddressOneLine(session)}
+                        </a>
+                      )}
+                      {session.description && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{session.description}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Other dates in the series */}
+          {laterOccurrences.length > 0 && (
+            <Card className="border border-border animate-slide-up" style={{ animationDelay: '0.05s' }}>
+              <CardHeader>
+                <CardTitle className="text-xl flex items-center gap-2">
+                  <Repeat className="w-5 h-5 text-primary" />
+                  More Dates
+                </CardTitle>
+                <CardDescription>
+                  This event repeats. Each date has its own RSVP.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2">
+                  {laterOccurrences.slice(0, 6).map((occurrence) => (
+                    <li key={occurrence.id}>
+                      <Link href={`/events/${occurrence.slug}`} className="text-primary hover:underline">
+                        {formatEventDateTimeShort(occurrence.date, occurrence.timezone)}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+                {laterOccurrences.length > 6 && (
+                  <p className="text-sm text-muted-foreground mt-2">
+                    and {laterOccurrences.length - 6} more
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Photo Album */}
           {event.photoAlbumUrl && (
             <Card className="border border-border animate-slide-up" style={{ animationDelay: '0.05s' }}>
@@ -267,6 +398,8 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
               <CardDescription>
                 {rsvpDeadlinePassed
                   ? 'The RSVP deadline for this event has passed'
+                  : event.requireApproval
+                  ? 'Let the host know if you can make it. New RSVPs are reviewed by the host before they are confirmed.'
                   : 'Let the host know if you can make it'
                 }
               </CardDescription>
@@ -279,7 +412,17 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
                   <p className="text-sm">Contact the host directly if you need to make changes.</p>
                 </div>
               ) : (
-                <PublicRsvpForm eventId={event.id} slug={slug} maxGuestsPerInvitee={event.maxGuestsPerInvitee} prefillData={prefillData} />
+                <PublicRsvpForm
+                  eventId={event.id}
+                  slug={slug}
+                  maxGuestsPerInvitee={event.maxGuestsPerInvitee}
+                  questions={parseRsvpQuestions(event.rsvpQuestions)}
+                  laterDates={laterOccurrences.length}
+                  sessions={sessions}
+                  timezone={event.timezone}
+                  prefillData={prefillData}
+                  spamProtection={spamProtection}
+                />
               )}
             </CardContent>
           </Card>
@@ -322,54 +465,85 @@ export default async function PublicEventPage({ params, searchParams }: EventPag
           )}
 
           {/* Guest Wall */}
-          <Card className="border border-border animate-slide-up" style={{ animationDelay: '0.3s' }}>
-            <CardHeader>
-              <CardTitle className="text-xl flex items-center gap-2">
-                <MessageSquare className="w-5 h-5 text-primary" />
-                Guest Wall
-              </CardTitle>
-              <CardDescription>
-                Leave a message for the host and other guests
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <PublicCommentForm eventId={event.id} />
-              
-              {event.comments.length > 0 ? (
-                <div className="space-y-4 pt-4 border-t">
-                  <h3 className="text-sm font-medium text-muted-foreground mb-2">
-                    Messages ({event.comments.length})
-                  </h3>
-                  {event.comments.map((comment: typeof event.comments[0]) => (
-                    <div key={comment.id} className="flex gap-3 pb-4 border-b last:border-0 last:pb-0">
-                      <Avatar className="w-10 h-10 shrink-0">
-                        <AvatarFallback className="bg-accent/15 text-accent text-sm font-semibold">
-                          {comment.authorName.charAt(0).toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-1">
-                          <p className="font-medium text-sm">{comment.authorName}</p>
-                          <span className="text-xs text-muted-foreground">
-                            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                          </span>
+          {event.commentMode !== 'OFF' && (
+            <Card className="border border-border animate-slide-up" style={{ animationDelay: '0.3s' }}>
+              <CardHeader>
+                <CardTitle className="text-xl flex items-center gap-2">
+                  <MessageSquare className="w-5 h-5 text-primary" />
+                  Guest Wall
+                </CardTitle>
+                <CardDescription>
+                  {canComment
+                    ? 'Leave a message for the host and other guests'
+                    : 'Open this page from your RSVP link to leave a message'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {canComment && (
+                  <PublicCommentForm
+                    eventId={event.id}
+                    token={guestToken || undefined}
+                    defaultName={prefillData?.name || undefined}
+                    spamProtection={spamProtection}
+                  />
+                )}
+
+                {event.comments.length > 0 ? (
+                  <div className="space-y-4 pt-4 border-t">
+                    <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                      Messages ({event.comments.length})
+                    </h3>
+                    {event.comments.map((comment: typeof event.comments[0]) => (
+                      <div key={comment.id} className="flex gap-3 pb-4 border-b last:border-0 last:pb-0">
+                        <Avatar className="w-10 h-10 shrink-0">
+                          <AvatarFallback className="bg-accent/15 text-accent text-sm font-semibold">
+                            {comment.authorName.charAt(0).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            <p className="font-medium text-sm">{comment.authorName}</p>
+                            {comment.userId && (
+                              <Badge variant="outline" className="text-xs py-0">Host</Badge>
+                            )}
+                            {comment.pinned && (
+                              <Pin className="w-3 h-3 text-muted-foreground" aria-label="Pinned" />
+                            )}
+                            <span className="text-xs text-muted-foreground">
+                              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                            </span>
+                          </div>
+                          <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
+                            {comment.content}
+                          </p>
+                          {comment.replies.map((reply) => (
+                            <div key={reply.id} className="mt-3 pl-3 border-l-2 border-accent/40">
+                              <div className="flex items-center gap-2 mb-1">
+                                <p className="font-medium text-sm">{reply.authorName}</p>
+                                <Badge variant="outline" className="text-xs py-0">Host</Badge>
+                                <span className="text-xs text-muted-foreground">
+                                  {formatDistanceToNow(new Date(reply.createdAt), { addSuffix: true })}
+                                </span>
+                              </div>
+                              <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
+                                {reply.content}
+                              </p>
+                            </div>
+                          ))}
                         </div>
-                        <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
-                          {comment.content}
-                        </p>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-8 text-muted-foreground border-t pt-8">
-                  <MessageSquare className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                  <p>No messages yet.</p>
-                  <p className="text-sm">Be the first to leave a message!</p>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground border-t pt-8">
+                    <MessageSquare className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>No messages yet.</p>
+                    <p className="text-sm">Be the first to leave a message!</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
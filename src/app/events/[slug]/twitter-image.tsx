@@ -0,0 +1,9 @@
+import Image from './opengraph-image';
+import { SHARE_IMAGE_SIZE } from '@/lib/share-preview';
+
+// Twitter cards use the same share image as Open Graph
+export const alt = 'Event invitation';
+export const size = SHARE_IMAGE_SIZE;
+export const contentType = 'image/png';
+
+export default Image;
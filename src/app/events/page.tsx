@@ -6,6 +6,7 @@ import { Calendar, MapPin, Users, ArrowRight } from 'lucide-react';
 import { formatEventDateTimeShort } from '@/lib/timezone';
 import { PublicNav } from '@/components/public-nav';
 import { formatAddressOneLine, hasAddress } from '@/lib/address-utils';
+import { getImageUrl } from '@/lib/media-variants';
 
 // Force dynamic rendering to avoid database queries at build time
 export const dynamic = 'force-dynamic';
@@ -68,7 +69,7 @@ export default async function PublicEventsPage() {
                     {event.coverImage && (
                       <div className="w-full h-48 overflow-hidden bg-muted">
                         <img
-                          src={event.coverImage}
+                          src={getImageUrl(event.coverImage, 'thumb')}
                           alt={event.title}
                           className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                         />
@@ -12,6 +12,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Loader2, Sparkles, CheckCircle2, AlertCircle } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { PublicNav } from '@/components/public-nav';
+import { requestApi } from '@/lib/api-client';
 
 export default function InviteAcceptancePage() {
   const params = useParams();
@@ -38,8 +39,7 @@ export default function InviteAcceptancePage() {
   useEffect(() => {
     async function verifyToken() {
       try {
-        const response = await fetch(`/api/auth/invite/${token}`);
-        const data = await response.json();
+        const data = await requestApi('getInvitation', { params: { token } });
 
         if (!data.valid) {
           setIsValid(false);
@@ -49,8 +49,8 @@ export default function InviteAcceptancePage() {
           }
         } else {
           setIsValid(true);
-          setEmail(data.email);
-          setRole(data.role);
+          setEmail(data.email || '');
+          setRole(data.role || '');
           setHasTemporaryUsername(data.hasTemporaryUsername || false);
           // Pre-fill name and username if available (username only if not temporary)
           setFormData((prev) => ({
@@ -98,22 +98,15 @@ export default function InviteAcceptancePage() {
     }
 
     try {
-      const response = await fetch(`/api/auth/invite/${token}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await requestApi('acceptInvitation', {
+        params: { token },
+        body: {
           name: formData.name,
           username: formData.username,
           password: formData.password,
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to accept invitation');
-      }
-
       toast({
         title: 'Success!',
         description: 'Your account has been set up. Signing you in...',
@@ -6,31 +6,38 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, Check, X, HelpCircle, Plus, Trash2, ArrowLeft } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { validateGuestLimit } from '@/lib/rsvp-validation';
+import { RsvpAnswers, parseRsvpAnswers, parseRsvpQuestions, validateRsvpSubmission } from '@/lib/rsvp-questions';
+import { RsvpQuestionFields } from '@/components/rsvp-question-fields';
+import { RsvpSession, SessionRsvpFields, getInitialSessionChoices, getSessionResponses } from '@/components/session-rsvp-fields';
 import { cn } from '@/lib/utils';
 import Link from 'next/link';
 import { formatEventDateTime } from '@/lib/timezone';
 import { formatAddressMultiLine, hasAddress, AddressFields } from '@/lib/address-utils';
+import { requestApi } from '@/lib/api-client';
 
 interface Guest {
   id: string;
   name: string | null;
   email: string;
   phone: string | null;
-  status: 'PENDING' | 'ATTENDING' | 'NOT_ATTENDING' | 'MAYBE';
+  status: 'PENDING' | 'PENDING_APPROVAL' | 'ATTENDING' | 'NOT_ATTENDING' | 'MAYBE' | 'WAITLISTED';
   dietaryNotes: string | null;
-  additionalGuests: Array<{ id: string; name: string }>;
+  rsvpAnswers: string | null;
+  additionalGuests: Array<{ id: string; name: string; rsvpAnswers: string | null }>;
   maxGuests?: number | null;
   event: {
     id: string;
     title: string;
-    date: Date;
+    date: string;
     timezone: string | null;
     slug: string;
     maxGuestsPerInvitee: number | null;
+    rsvpQuestions: string | null;
   } & AddressFields;
 }
 
@@ -43,15 +50,26 @@ export default function EditRsvpPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [guest, setGuest] = useState<Guest | null>(null);
-  const [selectedStatus, setSelectedStatus] = useState<string | null>(null);
+  const [selectedStatus, setSelectedStatus] = useState<'ATTENDING' | 'NOT_ATTENDING' | 'MAYBE' | null>(null);
+  // Later dates of a recurring event this RSVP can also be applied to
+  const [laterDates, setLaterDates] = useState(0);
+  const [applyToSeries, setApplyToSeries] = useState(false);
+  // Sessions the guest is invited to, and which ones they'll attend
+  const [sessions, setSessions] = useState<RsvpSession[]>([]);
+  const [sessionChoices, setSessionChoices] = useState<Record<string, boolean>>({});
   
   const [formData, setFormData] = useState({
     name: '',
     phone: '',
     additionalGuests: [] as string[],
     dietaryNotes: '',
+    answers: {} as RsvpAnswers,
+    additionalGuestAnswers: [] as RsvpAnswers[],
   });
 
+  const questions = useMemo(() => parseRsvpQuestions(guest?.event.rsvpQuestions), [guest]);
+  const hasAttendeeQuestions = questions.some((q) => q.scope === 'attendee');
+
   // Calculate guest limit validation
   const guestLimitValidation = useMemo(() => {
     if (!guest || selectedStatus !== 'ATTENDING') {
@@ -66,18 +84,21 @@ export default function EditRsvpPage() {
   useEffect(() => {
     async function fetchRsvp() {
       try {
-        const response = await fetch(`/api/rsvp/${token}`);
-        if (!response.ok) {
-          throw new Error('Failed to load RSVP');
-        }
-        const data = await response.json();
+        const data = await requestApi('getRsvp', { params: { token } });
         setGuest(data.guest);
-        setSelectedStatus(data.guest.status);
+        setLaterDates(data.laterDates);
+        setSessions(data.sessions);
+        setSessionChoices(getInitialSessionChoices(data.sessions));
+        // Waitlisted guests still want to attend - resubmitting keeps their place in line
+        const status = data.guest.status === 'WAITLISTED' ? 'ATTENDING' : data.guest.status;
+        setSelectedStatus(status === 'PENDING' || status === 'PENDING_APPROVAL' ? null : status);
         setFormData({
           name: data.guest.name || '',
           phone: data.guest.phone || '',
-          additionalGuests: data.guest.additionalGuests?.map((ag: { name: string }) => ag.name) || [],
+          additionalGuests: data.guest.additionalGuests.map((ag) => ag.name),
           dietaryNotes: data.guest.dietaryNotes || '',
+          answers: parseRsvpAnswers(data.guest.rsvpAnswers),
+          additionalGuestAnswers: data.guest.additionalGuests.map((ag) => parseRsvpAnswers(ag.rsvpAnswers)),
         });
       } catch (error) {
         toast({
@@ -118,32 +139,54 @@ export default function EditRsvpPage() {
         });
         return;
       }
+
+      const questionValidation = validateRsvpSubmission(questions, {
+        name: formData.name,
+        answers: formData.answers,
+        additionalGuests: formData.additionalGuests
+          .map((guestName, index) => ({ name: guestName.trim(), answers: formData.additionalGuestAnswers[index] }))
+          .filter((g) => g.name.length > 0),
+      });
+      if (!questionValidation.valid) {
+        toast({
+          title: 'Please answer all required questions',
+          description: questionValidation.error,
+          variant: 'destructive',
+        });
+        return;
+      }
     }
 
     setIsSubmitting(true);
 
+    // Drop blank guest rows, keeping each guest's answers with them
+    const namedGuests = formData.additionalGuests
+      .map((guestName, index) => ({ name: guestName, answers: formData.additionalGuestAnswers[index] || {} }))
+      .filter((g) => g.name.trim().length > 0);
+
     try {
-      const response = await fetch(`/api/rsvp/${token}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await requestApi('updateRsvp', {
+        params: { token },
+        body: {
           name: formData.name,
           phone: formData.phone || null,
           status: selectedStatus,
-          additionalGuests: formData.additionalGuests.filter((g) => g.trim().length > 0),
+          additionalGuests: namedGuests.map(({ name }) => name),
+          additionalGuestAnswers: namedGuests.map(({ answers }) => answers),
           dietaryNotes: formData.dietaryNotes || null,
-        }),
+          answers: formData.answers,
+          applyToSeries: laterDates > 0 && applyToSeries,
+          sessions: getSessionResponses(sessions, sessionChoices, selectedStatus),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update RSVP');
-      }
-
       toast({
-        title: 'RSVP Updated!',
-        description: 'Your response has been updated.',
+        title: data.guest?.status === 'WAITLISTED' ? "You're on the waitlist" : 'RSVP Updated!',
+        description: data.guest?.status === 'WAITLISTED'
+          ? "The event is full. We'll email you if a spot opens up."
+          : data.seriesUpdated
+          ? `Your response has been updated for this date and ${data.seriesUpdated} later date${data.seriesUpdated !== 1 ? 's' : ''}.`
+          : 'Your response has been updated.',
       });
 
       router.push(`/events/${guest?.event.slug}`);
@@ -205,6 +248,11 @@ export default function EditRsvpPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {guest.status === 'WAITLISTED' && (
+                <div className="mb-6 bg-accent/[0.07] border-l-2 border-l-accent rounded-[3px] p-4 text-sm">
+                  The event is full, so you&apos;re on the waitlist. We&apos;ll email you if a spot opens up.
+                </div>
+              )}
               <form onSubmit={handleSubmit} className="space-y-6">
                 {/* Response Options */}
                 <div className="grid grid-cols-3 gap-3">
@@ -314,6 +362,17 @@ export default function EditRsvpPage() {
 
                 {selectedStatus === 'ATTENDING' && (
                   <>
+                    {/* Sessions */}
+                    {sessions.length > 0 && (
+                      <SessionRsvpFields
+                        sessions={sessions}
+                        timezone={guest.event.timezone}
+                        attending={sessionChoices}
+                        onChange={setSessionChoices}
+                        disabled={isSubmitting}
+                      />
+                    )}
+
                     {/* Additional Guests */}
                     <div className="space-y-3">
                       <div className="flex items-center justify-between">
@@ -364,6 +423,7 @@ export default function EditRsvpPage() {
                               setFormData({
                                 ...formData,
                                 additionalGuests: formData.additionalGuests.filter((_, i) => i !== index),
+                                additionalGuestAnswers: formData.additionalGuestAnswers.filter((_, i) => i !== index),
                               });
                             }}
                             disabled={isSubmitting}
@@ -379,6 +439,7 @@ export default function EditRsvpPage() {
                           setFormData({
                             ...formData,
                             additionalGuests: [...formData.additionalGuests, ''],
+                            additionalGuestAnswers: [...formData.additionalGuestAnswers, {}],
                           });
                         }}
                         disabled={isSubmitting || !canAddMoreGuests}
@@ -417,9 +478,74 @@ export default function EditRsvpPage() {
                         disabled={isSubmitting}
                       />
                     </div>
+
+                    {/* Custom Questions */}
+                    {questions.length > 0 && (
+                      <div className="space-y-4">
+                        <RsvpQuestionFields
+                          questions={questions}
+                          scope="party"
+                          answers={formData.answers}
+                          onChange={(answers) => setFormData({ ...formData, answers })}
+                          idPrefix="party"
+                          disabled={isSubmitting}
+                        />
+                        {hasAttendeeQuestions && (
+                          <>
+                            <div className="space-y-4 rounded-[3px] border border-border p-4">
+                              <p className="font-medium">{formData.name || 'You'}</p>
+                              <RsvpQuestionFields
+                                questions={questions}
+                                scope="attendee"
+                                answers={formData.answers}
+                                onChange={(answers) => setFormData({ ...formData, answers })}
+                                idPrefix="invitee"
+                                disabled={isSubmitting}
+                              />
+                            </div>
+                            {formData.additionalGuests.map((guestName, index) => (
+                              <div key={index} className="space-y-4 rounded-[3px] border border-border p-4">
+                                <p className="font-medium">{guestName || `Guest ${index + 1}`}</p>
+                                <RsvpQuestionFields
+                                  questions={questions}
+                                  scope="attendee"
+                                  answers={formData.additionalGuestAnswers[index] || {}}
+                                  onChange={(answers) => {
+                                    const newAnswers = [...formData.additionalGuestAnswers];
+                                    newAnswers[index] = answers;
+                                    setFormData({ ...formData, additionalGuestAnswers: newAnswers });
+                                  }}
+                                  idPrefix={`guest-${index}`}
+                                  disabled={isSubmitting}
+                                />
+                              </div>
+                            ))}
+                          </>
+                        )}
+                      </div>
+                    )}
                   </>
                 )}
 
+                {laterDates > 0 && (
+                  <div className="flex items-start gap-3 rounded-[3px] border border-border p-4">
+                    <Checkbox
+                      id="applyToSeries"
+                      checked={applyToSeries}
+                      onCheckedChange={(checked) => setApplyToSeries(!!checked)}
+                      disabled={isSubmitting}
+                    />
+                    <div className="space-y-1">
+                      <Label htmlFor="applyToSeries" className="cursor-pointer font-medium">
+                        Use this answer for all {laterDates} later date{laterDates !== 1 ? 's' : ''}
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        This event repeats. Leave unchecked to change this date only.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
                 <Button type="submit" className="w-full" size="lg" disabled={isSubmitting || !selectedStatus}>
                   {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                   Update RSVP
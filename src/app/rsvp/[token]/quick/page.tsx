@@ -0,0 +1,103 @@
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { isPast } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { PENDING_APPROVAL } from '@/lib/rsvp-approval';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Calendar } from 'lucide-react';
+import { formatEventDateTime } from '@/lib/timezone';
+import { PublicNav } from '@/components/public-nav';
+
+interface QuickRsvpPageProps {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ status?: string }>;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  ATTENDING: "Yes, I'll be there!",
+  MAYBE: 'Maybe',
+  NOT_ATTENDING: "Can't make it",
+};
+
+/**
+ * Where the one-click RSVP buttons in emails land. Opening the page doesn't change
+ * anything; the answer is only recorded when the guest presses Confirm. It isn't
+ * submitted for them: mail security tools open links in headless browsers that run
+ * scripts and report the page as visible, so only a real click can be trusted.
+ */
+export default async function QuickRsvpPage({ params, searchParams }: QuickRsvpPageProps) {
+  const { token } = await params;
+  const { status } = await searchParams;
+
+  const guest = await prisma.guest.findUnique({
+    where: { token },
+    include: {
+      event: {
+        select: {
+          title: true,
+          date: true,
+          timezone: true,
+          slug: true,
+          rsvpDeadline: true,
+        },
+      },
+    },
+  });
+
+  if (!guest || guest.status === PENDING_APPROVAL) {
+    notFound();
+  }
+
+  if (!status || !STATUS_LABELS[status]) {
+    redirect(`/rsvp/${token}`);
+  }
+
+  const deadlinePassed = guest.event.rsvpDeadline ? isPast(new Date(guest.event.rsvpDeadline)) : false;
+
+  return (
+    <div className="min-h-screen aurora-bg">
+      <PublicNav />
+
+      <div className="pt-24 pb-16 px-4">
+        <div className="max-w-md mx-auto">
+          <Card className="border border-border animate-slide-up">
+            <CardHeader className="text-center">
+              <p className="label-mono mb-2">— RSVP —</p>
+              <CardTitle className="text-2xl">{guest.event.title}</CardTitle>
+              <CardDescription className="flex items-center justify-center gap-2">
+                <Calendar className="w-4 h-4 text-primary" />
+                {formatEventDateTime(guest.event.date, guest.event.timezone)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 text-center">
+              {deadlinePassed ? (
+                <>
+                  <p className="text-muted-foreground">The RSVP deadline for this event has passed.</p>
+                  <Link href={`/events/${guest.event.slug}`}>
+                    <Button variant="outline">View event</Button>
+                  </Link>
+                </>
+              ) : (
+                <>
+                  <p className="text-muted-foreground">
+                    {guest.name ? `${guest.name}, your` : 'Your'} answer: <strong className="text-foreground">{STATUS_LABELS[status]}</strong>
+                  </p>
+                  <form method="POST" action={`/api/rsvp/${token}/quick`}>
+                    <input type="hidden" name="status" value={status} />
+                    <Button type="submit" className="w-full">
+                      Confirm RSVP
+                    </Button>
+                  </form>
+                  <Link href={`/rsvp/${token}/edit`} className="block text-sm text-primary hover:underline">
+                    Change my answer or add details
+                  </Link>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/prisma';
+import { getAppUrl } from '@/lib/config';
+import { canManageEvent } from '@/lib/event-access';
+import { getTicketUrl } from '@/lib/check-in';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Calendar, Check, MapPin, ScanLine } from 'lucide-react';
+import { formatEventDateTime } from '@/lib/timezone';
+import { formatAddressMultiLine, hasAddress } from '@/lib/address-utils';
+import { PublicNav } from '@/components/public-nav';
+import { QRCode } from '@/components/qr-code';
+
+interface TicketPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function TicketPage({ params }: TicketPageProps) {
+  const { token } = await params;
+
+  const guest = await prisma.guest.findUnique({
+    where: { token },
+    include: {
+      event: {
+        select: {
+          id: true,
+          title: true,
+          date: true,
+          timezone: true,
+          locationName: true,
+          streetAddress1: true,
+          streetAddress2: true,
+          city: true,
+          state: true,
+          zipCode: true,
+        },
+      },
+      additionalGuests: {
+        select: { id: true, name: true, checkedInAt: true },
+      },
+    },
+  });
+
+  if (!guest) {
+    notFound();
+  }
+
+  // Hosts who scan a ticket with their phone's camera land here; send them on to check-in
+  const session = await auth();
+  const canCheckIn = session?.user?.id ? await canManageEvent(session.user.id, guest.eventId, 'editGuests') : false;
+
+  const appUrl = await getAppUrl();
+  const isAttending = guest.status === 'ATTENDING';
+  const party = [
+    { id: guest.id, name: guest.name || guest.email, checkedInAt: guest.checkedInAt },
+    ...guest.additionalGuests,
+  ];
+
+  return (
+    <div className="min-h-screen aurora-bg">
+      <PublicNav />
+
+      <div className="pt-24 pb-16 px-4">
+        <div className="max-w-md mx-auto space-y-6">
+          <Card className="border border-border overflow-hidden animate-slide-up">
+            <div className="h-1.5 bg-primary" />
+            <CardHeader className="text-center pb-2 pt-8">
+              <p className="label-mono mb-4">— Ticket —</p>
+              <CardTitle className="text-3xl mb-4 leading-[1.05]">{guest.event.title}</CardTitle>
+              <div className="space-y-2 text-sm text-muted-foreground">
+                <p className="flex items-center justify-center gap-2 text-foreground font-medium">
+                  <Calendar className="w-4 h-4 text-primary" />
+                  {formatEventDateTime(guest.event.date, guest.event.timezone)}
+                </p>
+                {hasAddress(guest.event) && (
+                  <p className="flex items-center justify-center gap-2 whitespace-pre-line">
+                    <MapPin className="w-4 h-4 text-primary flex-shrink-0" />
+                    {formatAddressMultiLine(guest.event)}
+                  </p>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6 pt-6">
+              {isAttending ? (
+                <>
+                  <QRCode value={getTicketUrl(appUrl, token)} size={240} />
+                  <p className="text-sm text-muted-foreground text-center">
+                    Show this code at the door to check in.
+                  </p>
+                  <div className="space-y-2">
+                    <p className="label-mono">Admits {party.length}</p>
+                    {party.map((person) => (
+                      <div
+                        key={person.id}
+                        className="flex items-center justify-between gap-2 p-2 border rounded-[3px] bg-muted/40"
+                      >
+                        <span className="font-medium truncate">{person.name}</span>
+                        {person.checkedInAt && (
+                          <span className="flex items-center gap-1 text-xs text-primary shrink-0">
+                            <Check className="w-3 h-3" />
+                            Checked in
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <div className="text-center space-y-3 py-4">
+                  <p className="text-muted-foreground">
+                    {guest.status === 'WAITLISTED'
+                      ? "You're on the waitlist. Your ticket will work once a spot opens up."
+                      : "This ticket isn't valid because you haven't RSVP'd as attending."}
+                  </p>
+                  <Link href={`/rsvp/${token}/edit`}>
+                    <Button variant="outline">Update your RSVP</Button>
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {canCheckIn && (
+            <Link href={`/dashboard/events/${guest.eventId}/check-in?token=${token}`} className="block">
+              <Button className="w-full gap-2">
+                <ScanLine className="w-4 h-4" />
+                Check in this party
+              </Button>
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
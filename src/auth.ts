@@ -1,16 +1,22 @@
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
 import Credentials from 'next-auth/providers/credentials';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
 import { getOrCreateAuthSecret } from '@/lib/auth-secret';
+import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
 
 const loginSchema = z.object({
   email: z.string().min(1), // This field accepts either email or username
   password: z.string().min(1),
 });
 
+// Lets the login page tell throttled attempts apart from a wrong password
+class RateLimitedSignin extends CredentialsSignin {
+  code = 'rate_limited';
+}
+
 // Get or auto-generate AUTH_SECRET for one-click Docker deployment
 const authSecret = getOrCreateAuthSecret();
 
@@ -33,13 +39,18 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         email: { label: 'Email or Username', type: 'text' },
         password: { label: 'Password', type: 'password' },
       },
-      async authorize(credentials) {
-        try {
-          const parsed = loginSchema.safeParse(credentials);
-          if (!parsed.success) return null;
+      async authorize(credentials, request) {
+        const parsed = loginSchema.safeParse(credentials);
+        if (!parsed.success) return null;
 
-          const { email: identifier, password } = parsed.data;
+        const { email: identifier, password } = parsed.data;
 
+        const rateLimit = await checkRateLimit('login', { ip: getClientIp(request), target: identifier });
+        if (!rateLimit.allowed) {
+          throw new RateLimitedSignin();
+        }
+
+        try {
           // Try to find user by email first, then by username
           const user = await prisma.user.findFirst({
             where: {
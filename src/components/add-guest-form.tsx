@@ -16,6 +16,7 @@ import {
 } from '@/components/ui/dialog';
 import { Plus, Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 interface AddGuestFormProps {
   eventId: string;
@@ -29,6 +30,7 @@ export function AddGuestForm({ eventId }: AddGuestFormProps) {
   const [email, setEmail] = useState('');
   const [phone, setPhone] = useState('');
   const [name, setName] = useState('');
+  const [notifyBySms, setNotifyBySms] = useState(false);
   const [sendInvite, setSendInvite] = useState(true);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -36,24 +38,18 @@ export function AddGuestForm({ eventId }: AddGuestFormProps) {
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}/guests`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await requestApi('addEventGuest', {
+        params: { id: eventId },
+        body: {
           email,
           phone: phone || undefined,
           name,
           notifyByEmail: true,
+          notifyBySms: notifyBySms && !!phone,
           sendInvite,
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to add guest');
-      }
-
       toast({
         title: 'Guest added!',
         description: sendInvite
@@ -65,6 +61,7 @@ export function AddGuestForm({ eventId }: AddGuestFormProps) {
       setEmail('');
       setPhone('');
       setName('');
+      setNotifyBySms(false);
 
       // Refresh to show new guest
       router.refresh();
@@ -131,6 +128,22 @@ export function AddGuestForm({ eventId }: AddGuestFormProps) {
               />
             </div>
 
+            {phone && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="notifyBySms"
+                  checked={notifyBySms}
+                  onChange={(e) => setNotifyBySms(e.target.checked)}
+                  className="h-4 w-4 rounded-[2px] border-input accent-primary"
+                  disabled={isLoading}
+                />
+                <Label htmlFor="notifyBySms" className="text-sm font-normal">
+                  Also send invitations and reminders by text message
+                </Label>
+              </div>
+            )}
+
             <div className="flex items-center space-x-2">
               <input
                 type="checkbox"
@@ -10,62 +10,57 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Calendar, ChevronDown } from 'lucide-react';
-import { generateGoogleCalendarUrl, generateOutlookCalendarUrl, downloadIcalFile } from '@/lib/calendar';
+import { Calendar, ChevronDown, Rss } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useApiOperation } from '@/hooks/use-api';
+import {
+  CalendarEvent,
+  generateGoogleCalendarUrl,
+  generateOutlookCalendarUrl,
+  downloadIcalFile,
+} from '@/lib/calendar';
 
 interface AddToCalendarProps {
-  title: string;
-  description: string;
-  location: string | null;
-  startDate: Date;
-  endDate: Date | null;
-  url?: string;
+  event: CalendarEvent;
+  /** Set for invited guests, who can also subscribe to all their invitations */
+  rsvpToken?: string;
 }
 
-export function AddToCalendar({
-  title,
-  description,
-  location,
-  startDate,
-  endDate,
-  url,
-}: AddToCalendarProps) {
+export function AddToCalendar({ event, rsvpToken }: AddToCalendarProps) {
+  const { toast } = useToast();
+
   const handleGoogleCalendar = () => {
-    const googleUrl = generateGoogleCalendarUrl({
-      title,
-      description,
-      location: location || '',
-      startDate,
-      endDate,
-      url,
-    });
-    window.open(googleUrl, '_blank');
+    window.open(generateGoogleCalendarUrl(event), '_blank');
   };
 
   const handleOutlookCalendar = () => {
-    const outlookUrl = generateOutlookCalendarUrl({
-      title,
-      description,
-      location: location || '',
-      startDate,
-      endDate,
-      url,
-    });
-    window.open(outlookUrl, '_blank');
+    window.open(generateOutlookCalendarUrl(event), '_blank');
   };
 
   const handleIcalDownload = () => {
-    downloadIcalFile(
-      {
-        title,
-        description,
-        location: location || '',
-        startDate,
-        endDate,
-        url,
-      },
-      `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.ics`
-    );
+    downloadIcalFile(event, `${event.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.ics`);
+  };
+
+  const { execute: sendFeedLink } = useApiOperation('sendGuestCalendarFeed', {
+    onSuccess: (data) => {
+      toast({
+        title: 'Check your email',
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubscribe = () => {
+    if (rsvpToken) {
+      sendFeedLink({ params: { token: rsvpToken } });
+    }
   };
 
   return (
@@ -98,6 +93,18 @@ export function AddToCalendar({
             <span className="text-xs text-muted-foreground">Downloads .ics file</span>
           </div>
         </DropdownMenuItem>
+        {rsvpToken && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={handleSubscribe}>
+              <Rss className="w-4 h-4 mr-2" />
+              <div className="flex flex-col">
+                <span className="font-medium">Subscribe to all my invitations</span>
+                <span className="text-xs text-muted-foreground">Emails you a link that keeps your calendar up to date</span>
+              </div>
+            </DropdownMenuItem>
+          </>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
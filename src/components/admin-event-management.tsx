@@ -18,6 +18,7 @@ import { Loader2, Trash2, Calendar, Users, CheckSquare, Square, ExternalLink } f
 import { useToast } from '@/components/ui/use-toast';
 import { formatEventDateTimeShort } from '@/lib/timezone';
 import Link from 'next/link';
+import { requestApi } from '@/lib/api-client';
 
 interface Event {
   id: string;
@@ -88,20 +89,12 @@ export function AdminEventManagement({ events: initialEvents }: AdminEventManage
     setIsBulkDeleting(true);
 
     try {
-      const response = await fetch('/api/admin/events/bulk-delete', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await requestApi('adminDeleteEvents', {
+        body: {
           eventIds: Array.from(selectedEvents),
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to delete events');
-      }
-
       if (data.failedCount > 0) {
         toast({
           title: 'Partial success',
@@ -139,14 +132,7 @@ export function AdminEventManagement({ events: initialEvents }: AdminEventManage
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete event');
-      }
+      await requestApi('deleteEvent', { params: { id: eventId } });
 
       toast({
         title: 'Event deleted',
@@ -28,6 +28,7 @@ import { Loader2, Plus, Shield, User, Trash2, Edit, Lock, Mail } from 'lucide-re
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/components/ui/use-toast';
 import { formatDistanceToNow } from 'date-fns';
+import { requestApi } from '@/lib/api-client';
 
 interface User {
   id: string;
@@ -84,24 +85,16 @@ export function AdminUserManagement({ users: initialUsers }: AdminUserManagement
     }
 
     try {
-      const response = await fetch('/api/auth/register', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await requestApi('createUser', {
+        body: {
           name: name || undefined,
           email,
           password: sendInvitation ? undefined : password,
           role,
           sendInvitation,
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to create user');
-      }
-
       toast({
         title: 'User created!',
         description: data.invitationSent 
@@ -145,22 +138,15 @@ export function AdminUserManagement({ users: initialUsers }: AdminUserManagement
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/admin/users/${editingUser.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await requestApi('updateUser', {
+        params: { userId: editingUser.id },
+        body: {
           name: editName,
           email: editEmail,
           role: editRole,
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update user');
-      }
-
       toast({
         title: 'User updated!',
         description: `${data.user.name || data.user.email} has been updated.`,
@@ -212,18 +198,11 @@ export function AdminUserManagement({ users: initialUsers }: AdminUserManagement
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/admin/users/${editingUser.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password: newPassword }),
+      await requestApi('updateUser', {
+        params: { userId: editingUser.id },
+        body: { password: newPassword },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to change password');
-      }
-
       toast({
         title: 'Password changed!',
         description: `Password for ${editingUser.email} has been updated.`,
@@ -252,14 +231,7 @@ export function AdminUserManagement({ users: initialUsers }: AdminUserManagement
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/admin/users/${userId}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete user');
-      }
+      await requestApi('deleteUser', { params: { userId } });
 
       toast({
         title: 'User deleted',
@@ -0,0 +1,265 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Play } from 'lucide-react';
+import type { JsonSchema } from '@/lib/json-schema';
+import type { OpenApiDocument, OpenApiOperation } from '@/lib/openapi';
+
+interface ApiExplorerProps {
+  document: OpenApiDocument;
+}
+
+interface ExplorerOperation extends OpenApiOperation {
+  method: string;
+  path: string;
+}
+
+interface ExplorerResult {
+  status: number;
+  body: string;
+}
+
+const METHOD_STYLES: Record<string, string> = {
+  get: 'bg-primary/10 text-primary border-primary/30',
+  post: 'bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/30',
+  patch: 'bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/30',
+  put: 'bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/30',
+  delete: 'bg-destructive/10 text-destructive border-destructive/30',
+};
+
+// A starting point for the request body, from the schema's defaults and types
+function exampleFor(schema: JsonSchema): unknown {
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+      const example: Record<string, unknown> = {};
+      for (const name of Object.keys(properties)) {
+        example[name] = exampleFor(properties[name]);
+      }
+      return example;
+    }
+    case 'array':
+      return [];
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return false;
+    case 'string':
+      return schema.format === 'email' ? 'guest@example.com' : '';
+    default:
+      return null;
+  }
+}
+
+function listOperations(document: OpenApiDocument): ExplorerOperation[] {
+  return Object.keys(document.paths).flatMap((path) =>
+    Object.keys(document.paths[path]).map((method) => ({ ...document.paths[path][method], method, path }))
+  );
+}
+
+function OperationCard({ operation, token }: { operation: ExplorerOperation; token: string }) {
+  const parameters = operation.parameters || [];
+  const bodySchema = operation.requestBody?.content['application/json']?.schema;
+  const successStatus = Object.keys(operation.responses)[0];
+  const successResponse = operation.responses[successStatus];
+  const responseSchema = 'content' in successResponse ? successResponse.content?.['application/json']?.schema : undefined;
+
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(() => (bodySchema ? JSON.stringify(exampleFor(bodySchema), null, 2) : ''));
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<ExplorerResult | null>(null);
+
+  async function handleSend(e: React.FormEvent) {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      let url = operation.path;
+      const search = new URLSearchParams();
+      for (const parameter of parameters) {
+        const value = values[parameter.name]?.trim();
+        if (parameter.in === 'path') {
+          url = url.replace(`{${parameter.name}}`, encodeURIComponent(value || ''));
+        } else if (value) {
+          search.set(parameter.name, value);
+        }
+      }
+      const queryString = search.toString();
+
+      const response = await fetch(queryString ? `${url}?${queryString}` : url, {
+        method: operation.method.toUpperCase(),
+        headers: {
+          ...(!!token && { Authorization: `Bearer ${token.trim()}` }),
+          ...(bodySchema && { 'Content-Type': 'application/json' }),
+        },
+        ...(bodySchema && { body }),
+      });
+
+      const text = await response.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON, e.g. a CSV export
+      }
+      setResult({ status: response.status, body: formatted });
+    } catch (error) {
+      setResult({ status: 0, body: error instanceof Error ? error.message : 'Request failed' });
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <Card id={operation.operationId}>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline" className={`font-mono uppercase ${METHOD_STYLES[operation.method] || ''}`}>
+            {operation.method}
+          </Badge>
+          <code className="font-mono text-sm break-all">{operation.path}</code>
+        </div>
+        <CardTitle className="text-lg pt-1">{operation.summary}</CardTitle>
+        {operation.description && (
+          <p className="text-sm text-muted-foreground whitespace-pre-line">{operation.description.replace(/`/g, '')}</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSend} className="space-y-4">
+          {parameters.length > 0 && (
+            <div className="grid sm:grid-cols-2 gap-3">
+              {parameters.map((parameter) => (
+                <div key={`${parameter.in}-${parameter.name}`} className="space-y-1">
+                  <Label htmlFor={`${operation.operationId}-${parameter.name}`} className="font-mono text-xs">
+                    {parameter.name}
+                    <span className="text-muted-foreground font-sans">
+                      {' '}({parameter.in}{parameter.required ? ', required' : ''})
+                    </span>
+                  </Label>
+                  <Input
+                    id={`${operation.operationId}-${parameter.name}`}
+                    value={values[parameter.name] || ''}
+                    onChange={(e) => setValues((current) => ({ ...current, [parameter.name]: e.target.value }))}
+                    placeholder={
+                      Array.isArray(parameter.schema.enum)
+                        ? parameter.schema.enum.join(' | ')
+                        : parameter.description || String(parameter.schema.default ?? '')
+                    }
+                    required={parameter.required}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {bodySchema && (
+            <div className="space-y-1">
+              <Label htmlFor={`${operation.operationId}-body`}>Request body</Label>
+              <Textarea
+                id={`${operation.operationId}-body`}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={Math.min(12, body.split('\n').length + 1)}
+                className="font-mono text-xs"
+              />
+            </div>
+          )}
+
+          <Button type="submit" size="sm" disabled={isSending}>
+            {isSending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+            Send Request
+          </Button>
+        </form>
+
+        {result && (
+          <div className="space-y-1">
+            <p className="label-mono">
+              {result.status === 0 ? 'Network error' : `Response ${result.status}`}
+            </p>
+            <pre className="max-h-80 overflow-auto rounded-[3px] border bg-muted/50 p-3 text-xs">{result.body}</pre>
+          </div>
+        )}
+
+        {(bodySchema || responseSchema) && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-muted-foreground">Schemas</summary>
+            <div className="mt-2 space-y-3">
+              {bodySchema && (
+                <div>
+                  <p className="label-mono mb-1">Request</p>
+                  <pre className="max-h-80 overflow-auto rounded-[3px] border bg-muted/50 p-3 text-xs">
+                    {JSON.stringify(bodySchema, null, 2)}
+                  </pre>
+                </div>
+              )}
+              {responseSchema && (
+                <div>
+                  <p className="label-mono mb-1">Response {successStatus}</p>
+                  <pre className="max-h-80 overflow-auto rounded-[3px] border bg-muted/50 p-3 text-xs">
+                    {JSON.stringify(responseSchema, null, 2)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Interactive API reference: every operation in the OpenAPI document, with a form
+ * to call it using a personal API token
+ */
+export function ApiExplorer({ document }: ApiExplorerProps) {
+  const [token, setToken] = useState('');
+  const operations = listOperations(document);
+
+  return (
+    <div className="space-y-10">
+      <Card>
+        <CardContent className="pt-6 space-y-2">
+          <Label htmlFor="api-explorer-token">API token</Label>
+          <Input
+            id="api-explorer-token"
+            type="password"
+            placeholder="ownrsvp_…"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className="font-mono"
+            autoComplete="off"
+          />
+          <p className="text-sm text-muted-foreground">
+            Requests below are sent from your browser with this token, or with your session when it&apos;s
+            empty and you&apos;re signed in. Create a token under Profile → API Tokens.
+          </p>
+        </CardContent>
+      </Card>
+
+      {document.tags.map((tag) => (
+        <section key={tag.name} className="space-y-4">
+          <div>
+            <h2 className="headline text-2xl">{tag.name}</h2>
+            <p className="text-muted-foreground">{tag.description}</p>
+          </div>
+          {operations
+            .filter((operation) => operation.tags.includes(tag.name))
+            .map((operation) => (
+              <OperationCard key={operation.operationId} operation={operation} token={token} />
+            ))}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CopyButton } from '@/components/copy-button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { API_TOKEN_SCOPE_DEFINITIONS, API_TOKEN_SCOPES, ApiTokenScope } from '@/lib/api-token-scopes';
+import { requestApi } from '@/lib/api-client';
+
+interface ApiTokenEntry {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+];
+
+export function ApiTokenSettings() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [tokens, setTokens] = useState<ApiTokenEntry[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['events:read']);
+  const [expiry, setExpiry] = useState('90');
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  async function loadTokens() {
+    setIsLoading(true);
+    try {
+      const data = await requestApi('listApiTokens');
+      setTokens(data.tokens);
+    } catch (error) {
+      logger.error('Failed to load API tokens:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function toggleScope(scope: ApiTokenScope, checked: boolean) {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((selected) => selected !== scope)));
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const data = await requestApi('createApiToken', {
+        body: {
+          name,
+          scopes,
+          expiresInDays: expiry === 'never' ? null : Number(expiry),
+        },
+      });
+
+      setTokens((current) => [data.apiToken, ...current]);
+      setNewToken(data.token);
+      setName('');
+      setScopes(['events:read']);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create API token',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function handleRevoke(token: ApiTokenEntry) {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+
+    setRevokingId(token.id);
+    try {
+      await requestApi('revokeApiToken', { params: { id: token.id } });
+
+      setTokens((current) => current.filter((t) => t.id !== token.id));
+      toast({
+        title: 'API token revoked',
+        description: `"${token.name}" no longer works.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to revoke API token',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  }
+
+  function describeToken(token: ApiTokenEntry): string {
+    const used = token.lastUsedAt
+      ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+      : 'Never used';
+    if (!token.expiresAt) {
+      return `${used} · No expiry`;
+    }
+    const expiresAt = new Date(token.expiresAt);
+    return `${used} · ${expiresAt <= new Date() ? 'Expired' : 'Expires'} ${format(expiresAt, 'MMM d, yyyy')}`;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {newToken && (
+        <div className="space-y-2 p-4 rounded-[3px] border border-primary/30 bg-primary/5">
+          <Label htmlFor="new-api-token">Your new token</Label>
+          <p className="text-sm text-muted-foreground">
+            Copy it now. It won&apos;t be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input id="new-api-token" value={newToken} readOnly className="font-mono text-xs" />
+            <CopyButton text={newToken} />
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setNewToken(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <div className="divide-y border rounded-[3px]">
+          {tokens.map((token) => (
+            <div key={token.id} className="p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium truncate">{token.name}</p>
+                <p className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</p>
+                <p className="text-xs text-muted-foreground">
+                  {token.scopes.map((scope) => API_TOKEN_SCOPE_DEFINITIONS[scope].label).join(' · ')}
+                </p>
+                <p className="text-xs text-muted-foreground">{describeToken(token)}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRevoke(token)}
+                disabled={revokingId === token.id}
+              >
+                {revokingId === token.id ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4 mr-2" />
+                )}
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-4">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-token-name">Token name</Label>
+            <Input
+              id="api-token-name"
+              placeholder="Guest list sync"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="api-token-expiry">Expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="api-token-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Allow the token to</Label>
+          <div className="space-y-3">
+            {API_TOKEN_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-start gap-2 cursor-pointer">
+                <Checkbox
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  className="mt-0.5"
+                />
+                <span className="text-sm">
+                  <span className="font-medium">{API_TOKEN_SCOPE_DEFINITIONS[scope].label}</span>
+                  <span className="block text-xs text-muted-foreground">{API_TOKEN_SCOPE_DEFINITIONS[scope].description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button type="submit" size="sm" disabled={isCreating || scopes.length === 0}>
+          {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Create Token
+        </Button>
+      </form>
+      <p className="text-sm text-muted-foreground">
+        Tokens act as you on every event you host or co-host. Send one as <code className="font-mono text-xs">Authorization: Bearer &lt;token&gt;</code> to the <code className="font-mono text-xs">/api/v1</code> API.{' '}
+        <Link href="/docs/api" className="text-primary hover:underline">API reference</Link>
+      </p>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Loader2, Save, Globe } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { logger } from '@/lib/logger';
+import { requestApi } from '@/lib/api-client';
 
 interface AppUrlConfigProps {
   onConfigChange?: () => void;
@@ -32,13 +33,10 @@ export function AppUrlConfig({ onConfigChange }: AppUrlConfigProps) {
   async function loadConfig() {
     setIsLoading(true);
     try {
-      const response = await fetch('/api/admin/config/app');
-      if (response.ok) {
-        const data = await response.json();
-        setAppUrl(data.appUrl || '');
-        setOriginalUrl(data.appUrl || '');
-        setSource(data.source || 'environment');
-      }
+      const data = await requestApi('getAppUrlConfig');
+      setAppUrl(data.appUrl || '');
+      setOriginalUrl(data.appUrl || '');
+      setSource(data.source || 'environment');
     } catch (error) {
       logger.error('Failed to load app URL config:', error);
     } finally {
@@ -70,27 +68,17 @@ export function AppUrlConfig({ onConfigChange }: AppUrlConfigProps) {
 
     setIsSaving(true);
     try {
-      const response = await fetch('/api/admin/config/app', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ appUrl }),
-      });
-
-      const data = await response.json();
+      const data = await requestApi('updateAppUrlConfig', { body: { appUrl } });
 
-      if (response.ok) {
-        toast({
-          title: 'App URL saved!',
-          description: 'All invitation and RSVP links will now use this URL.',
-        });
-        setOriginalUrl(data.appUrl);
-        setAppUrl(data.appUrl);
-        setSource('database');
-        setHasChanges(false);
-        onConfigChange?.();
-      } else {
-        throw new Error(data.error || 'Failed to save configuration');
-      }
+      toast({
+        title: 'App URL saved!',
+        description: 'All invitation and RSVP links will now use this URL.',
+      });
+      setOriginalUrl(data.appUrl);
+      setAppUrl(data.appUrl);
+      setSource('database');
+      setHasChanges(false);
+      onConfigChange?.();
     } catch (error) {
       toast({
         title: 'Error',
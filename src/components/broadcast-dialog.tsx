@@ -23,6 +23,7 @@ import {
 } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
 import { Megaphone, Loader2, Send } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
 
 interface BroadcastDialogProps {
   eventId: string;
@@ -32,6 +33,7 @@ interface BroadcastDialogProps {
     notAttending: number;
     maybe: number;
     pending: number;
+    waitlisted: number;
   };
 }
 
@@ -41,7 +43,8 @@ export function BroadcastDialog({ eventId, stats }: BroadcastDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [subject, setSubject] = useState('');
   const [message, setMessage] = useState('');
-  const [filterStatus, setFilterStatus] = useState<'ALL' | 'ATTENDING' | 'NOT_ATTENDING' | 'MAYBE' | 'PENDING'>('ALL');
+  const [filterStatus, setFilterStatus] = useState<'ALL' | 'ATTENDING' | 'NOT_ATTENDING' | 'MAYBE' | 'PENDING' | 'WAITLISTED'>('ALL');
+  const [channel, setChannel] = useState<'EMAIL' | 'SMS' | 'BOTH'>('EMAIL');
 
   const getRecipientCount = () => {
     switch (filterStatus) {
@@ -53,6 +56,8 @@ export function BroadcastDialog({ eventId, stats }: BroadcastDialogProps) {
         return stats.maybe;
       case 'PENDING':
         return stats.pending;
+      case 'WAITLISTED':
+        return stats.waitlisted;
       default:
         return stats.total;
     }
@@ -71,22 +76,16 @@ export function BroadcastDialog({ eventId, stats }: BroadcastDialogProps) {
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}/broadcast`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await requestApi('broadcastUpdate', {
+        params: { id: eventId },
+        body: {
           subject,
           message,
           filterStatus,
-        }),
+          channel,
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send broadcast');
-      }
-
       toast({
         title: 'Broadcast sent!',
         description: `Message sent to ${data.sentTo} guest${data.sentTo !== 1 ? 's' : ''}.`,
@@ -96,6 +95,7 @@ export function BroadcastDialog({ eventId, stats }: BroadcastDialogProps) {
       setSubject('');
       setMessage('');
       setFilterStatus('ALL');
+      setChannel('EMAIL');
       setIsOpen(false);
     } catch (error) {
       toast({
@@ -125,7 +125,7 @@ export function BroadcastDialog({ eventId, stats }: BroadcastDialogProps) {
             Send Broadcast
           </DialogTitle>
           <DialogDescription>
-            Send an email update to your guests.
+            Send an email or text message update to your guests.
           </DialogDescription>
         </DialogHeader>
 
@@ -147,8 +147,35 @@ export function BroadcastDialog({ eventId, stats }: BroadcastDialogProps) {
                 <SelectItem value="PENDING">Pending ({stats.pending})</SelectItem>
                 <SelectItem value="MAYBE">Maybe ({stats.maybe})</SelectItem>
                 <SelectItem value="NOT_ATTENDING">Not Attending ({stats.notAttending})</SelectItem>
+                {stats.waitlisted > 0 && (
+                  <SelectItem value="WAITLISTED">Waitlisted ({stats.waitlisted})</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Delivery Channel */}
+          <div className="space-y-2">
+            <Label>Send Via</Label>
+            <Select
+              value={channel}
+              onValueChange={(v) => setChannel(v as typeof channel)}
+              disabled={isLoading}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="EMAIL">Email</SelectItem>
+                <SelectItem value="SMS">Text message (SMS)</SelectItem>
+                <SelectItem value="BOTH">Email and text message</SelectItem>
               </SelectContent>
             </Select>
+            {channel !== 'EMAIL' && (
+              <p className="text-xs text-muted-foreground">
+                Text messages only go to guests who have a phone number and opted in to SMS.
+              </p>
+            )}
           </div>
 
           {/* Subject */}
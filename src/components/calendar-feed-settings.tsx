@@ -0,0 +1,153 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CopyButton } from '@/components/copy-button';
+import { Loader2, Mail, RefreshCw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { toWebcalUrl } from '@/lib/calendar';
+import { requestApi } from '@/lib/api-client';
+
+export function CalendarFeedSettings() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFeed();
+  }, []);
+
+  async function loadFeed() {
+    setIsLoading(true);
+    try {
+      const data = await requestApi('getCalendarFeeds');
+      setUrl(data.hosting);
+    } catch (error) {
+      logger.error('Failed to load calendar feeds:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleReset() {
+    setIsSaving(true);
+    try {
+      const data = await requestApi('resetCalendarFeed');
+
+      const replaced = url !== null;
+      setUrl(data.url);
+      toast({
+        title: replaced ? 'Feed link replaced' : 'Calendar feed turned on',
+        description: replaced
+          ? 'The old link no longer works. Subscribe again with the new one.'
+          : 'Subscribe to the link in your calendar app.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create calendar feed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleRevoke() {
+    setIsSaving(true);
+    try {
+      await requestApi('revokeCalendarFeed');
+
+      setUrl(null);
+      toast({
+        title: 'Calendar feed turned off',
+        description: 'Calendars subscribed to it will stop updating.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to turn off calendar feed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleSendInvited() {
+    setIsSending(true);
+    try {
+      const data = await requestApi('sendInvitedCalendarFeed');
+      toast({ title: 'Check your email', description: data.message });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send calendar feed link',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="calendar-feed-hosting">Events I host</Label>
+        <p className="text-sm text-muted-foreground">Every event you host or co-host.</p>
+        {url ? (
+          <>
+            <div className="flex gap-2">
+              <Input id="calendar-feed-hosting" value={url} readOnly className="font-mono text-xs" />
+              <CopyButton text={url} />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild size="sm">
+                <a href={toWebcalUrl(url)}>Subscribe</a>
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleReset} disabled={isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                New Link
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleRevoke} disabled={isSaving}>
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button variant="secondary" size="sm" onClick={handleReset} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Turn On
+          </Button>
+        )}
+        <p className="text-sm text-muted-foreground">
+          Anyone with the link can see these events. If it gets out, replace it or turn the feed off.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label>Events I&apos;m invited to</Label>
+        <p className="text-sm text-muted-foreground">
+          Every event your email address is invited to, with your RSVP. Events you decline are left out.
+          The link is emailed to your address, and stays the same each time you ask for it.
+        </p>
+        <Button variant="secondary" size="sm" onClick={handleSendInvited} disabled={isSending}>
+          {isSending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Mail className="w-4 h-4 mr-2" />}
+          Email Me the Link
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertTriangle, Camera, CameraOff, Check, Loader2, Search, Undo2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CheckInStats, extractTicketToken } from '@/lib/check-in';
+import { requestApi } from '@/lib/api-client';
+
+interface CheckInPerson {
+  id: string;
+  name: string;
+  checkedInAt: string | null;
+}
+
+interface CheckInGuest {
+  id: string;
+  name: string | null;
+  email: string;
+  status: string;
+  checkedInAt: string | null;
+  additionalGuests: CheckInPerson[];
+}
+
+interface CheckInClientProps {
+  eventId: string;
+  /** Ticket token to open straight away, e.g. from a ticket scanned with the phone's camera */
+  initialToken: string | null;
+}
+
+// BarcodeDetector isn't in the DOM typings yet
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const STATUS_LABELS: Record<string, string> = {
+  ATTENDING: 'Attending',
+  NOT_ATTENDING: 'Not Attending',
+  MAYBE: 'Maybe',
+  PENDING: 'Pending',
+  WAITLISTED: 'Waitlisted',
+};
+
+const REFRESH_INTERVAL_MS = 15000;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+export function CheckInClient({ eventId, initialToken }: CheckInClientProps) {
+  const { toast } = useToast();
+  const [guests, setGuests] = useState<CheckInGuest[]>([]);
+  const [stats, setStats] = useState<CheckInStats>({ expected: 0, arrived: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selectedGuestId, setSelectedGuestId] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanSupported, setScanSupported] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const selectedGuest = guests.find((g) => g.id === selectedGuestId) ?? null;
+
+  const loadGuests = useCallback(async () => {
+    try {
+      const data = await requestApi('getCheckInList', { params: { id: eventId } });
+      if ('guests' in data) {
+        setGuests(data.guests);
+        setStats(data.stats);
+      }
+    } catch (error) {
+      logger.error('Load check-in list error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  // Keep counts live when several people are working the door
+  useEffect(() => {
+    loadGuests();
+    const interval = setInterval(loadGuests, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadGuests]);
+
+  const openTicket = useCallback(async (token: string) => {
+    try {
+      const data = await requestApi('getCheckInList', { params: { id: eventId }, query: { token } });
+      if (!('guest' in data)) {
+        throw new Error('Ticket not found');
+      }
+      setGuests((current) =>
+        current.some((g) => g.id === data.guest.id)
+          ? current.map((g) => (g.id === data.guest.id ? data.guest : g))
+          : [...current, data.guest]
+      );
+      setSelectedGuestId(data.guest.id);
+      setSearch('');
+
+      if (data.guest.checkedInAt) {
+        toast({
+          title: 'Ticket already scanned',
+          description: `${data.guest.name || data.guest.email} checked in at ${format(new Date(data.guest.checkedInAt), 'h:mm a')}`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Ticket not recognised',
+        description: error instanceof Error ? error.message : 'Ticket not found',
+        variant: 'destructive',
+      });
+    }
+  }, [eventId, toast]);
+
+  useEffect(() => {
+    if (initialToken) {
+      openTicket(initialToken);
+    }
+  }, [initialToken, openTicket]);
+
+  const stopScanning = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  }, []);
+
+  useEffect(() => {
+    setScanSupported(!!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia);
+    return stopScanning;
+  }, [stopScanning]);
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!isScanning || !Detector) return;
+
+    // The video element only exists while scanning, so attach the camera once it has rendered
+    if (videoRef.current && streamRef.current) {
+      videoRef.current.srcObject = streamRef.current;
+      videoRef.current.play().catch(() => {});
+    }
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    let cancelled = false;
+
+    const detect = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        if (video.readyState >= 2) {
+          const codes = await detector.detect(video);
+          const token = codes.length > 0 ? extractTicketToken(codes[0].rawValue) : null;
+          if (token && !cancelled) {
+            stopScanning();
+            await openTicket(token);
+            return;
+          }
+        }
+      } catch (error) {
+        logger.error('QR detection error:', error);
+      }
+      setTimeout(detect, 250);
+    };
+    detect();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isScanning, openTicket, stopScanning]);
+
+  const startScanning = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setIsScanning(true);
+      setSelectedGuestId(null);
+    } catch (error) {
+      logger.error('Camera error:', error);
+      toast({
+        title: 'Camera unavailable',
+        description: 'Allow camera access, or search for the guest instead.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const checkIn = async (guest: CheckInGuest, people: { invitee: boolean; additionalGuestIds: string[] }, undo = false) => {
+    setSavingId(people.invitee ? guest.id : people.additionalGuestIds[0] ?? guest.id);
+    try {
+      const data = await requestApi('checkInGuest', {
+        params: { id: eventId },
+        body: {
+          guestId: guest.id,
+          includeInvitee: people.invitee,
+          additionalGuestIds: people.additionalGuestIds,
+          undo,
+        },
+      });
+
+      setGuests((current) => current.map((g) => (g.id === guest.id ? data.guest : g)));
+      setStats(data.stats);
+
+      if (data.duplicates.length > 0) {
+        toast({
+          title: 'Already checked in',
+          description: data.duplicates
+            .map((d) => `${d.name} at ${format(new Date(d.checkedInAt), 'h:mm a')}`)
+            .join(', '),
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to check in',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Handheld scanners type the ticket link and press Enter
+    if (e.key === 'Enter') {
+      const token = search.includes('/rsvp/') ? extractTicketToken(search) : null;
+      if (token) {
+        e.preventDefault();
+        openTicket(token);
+      }
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const matches = query
+    ? guests.filter(
+        (guest) =>
+          guest.name?.toLowerCase().includes(query) ||
+          guest.email.toLowerCase().includes(query) ||
+          guest.additionalGuests.some((ag) => ag.name.toLowerCase().includes(query))
+      )
+    : [];
+
+  const renderPerson = (guest: CheckInGuest, person: CheckInPerson, isInvitee: boolean) => {
+    const people = isInvitee
+      ? { invitee: true, additionalGuestIds: [] }
+      : { invitee: false, additionalGuestIds: [person.id] };
+    return (
+      <div
+        key={person.id}
+        className={cn(
+          'flex items-center justify-between gap-3 p-3 border rounded-[3px]',
+          person.checkedInAt ? 'bg-primary/[0.06] border-primary/30' : 'bg-card'
+        )}
+      >
+        <div className="min-w-0">
+          <p className="font-medium truncate">{person.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {person.checkedInAt
+              ? `Checked in at ${format(new Date(person.checkedInAt), 'h:mm a')}`
+              : isInvitee ? 'Invitee' : 'Additional guest'}
+          </p>
+        </div>
+        {person.checkedInAt ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => checkIn(guest, people, true)}
+            disabled={savingId !== null}
+            className="gap-1 shrink-0"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            onClick={() => checkIn(guest, people)}
+            disabled={savingId !== null}
+            className="gap-1 shrink-0"
+          >
+            {savingId === person.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Check in
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Arrived vs expected */}
+      <Card>
+        <CardContent className="flex items-center justify-between p-4">
+          <div>
+            <p className="label-mono">Arrived</p>
+            <p className="text-3xl font-display font-semibold text-primary">
+              {stats.arrived}
+              <span className="text-lg text-muted-foreground"> / {stats.expected}</span>
+            </p>
+          </div>
+          <p className="text-sm text-muted-foreground text-right">
+            {stats.expected > stats.arrived
+              ? `${stats.expected - stats.arrived} still expected`
+              : 'Everyone expected is here'}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Scan or search */}
+      <div className="space-y-3">
+        {scanSupported && (
+          <Button
+            variant={isScanning ? 'outline' : 'default'}
+            className="w-full gap-2"
+            onClick={isScanning ? stopScanning : startScanning}
+          >
+            {isScanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+            {isScanning ? 'Stop scanning' : 'Scan ticket'}
+          </Button>
+        )}
+        {isScanning && (
+          <video
+            ref={videoRef}
+            className="w-full rounded-[3px] border bg-black aspect-square object-cover"
+            muted
+            playsInline
+          />
+        )}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="Search by name or email"
+            className="pl-9"
+          />
+        </div>
+        {!scanSupported && (
+          <p className="text-xs text-muted-foreground">
+            This browser can&apos;t scan QR codes here. Search for guests, or scan tickets with your phone&apos;s camera app.
+          </p>
+        )}
+        {matches.length > 0 && (
+          <div className="border rounded-[3px] divide-y">
+            {matches.slice(0, 20).map((guest) => (
+              <button
+                key={guest.id}
+                onClick={() => {
+                  setSelectedGuestId(guest.id);
+                  setSearch('');
+                }}
+                className="w-full flex items-center justify-between gap-2 p-3 text-left hover:bg-muted/50"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{guest.name || guest.email}</p>
+                  <p className="text-xs text-muted-foreground truncate">{guest.email}</p>
+                </div>
+                <Badge variant="outline" className="shrink-0">
+                  {STATUS_LABELS[guest.status] ?? guest.status}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        )}
+        {query && matches.length === 0 && !isLoading && (
+          <p className="text-sm text-muted-foreground text-center py-2">No guests match &quot;{search}&quot;</p>
+        )}
+      </div>
+
+      {/* Selected party */}
+      {selectedGuest && (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <CardTitle className="text-lg truncate">{selectedGuest.name || selectedGuest.email}</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Party of {1 + selectedGuest.additionalGuests.length}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedGuestId(null)} className="h-8 w-8 p-0">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {selectedGuest.status !== 'ATTENDING' && (
+              <div className="flex items-start gap-2 bg-accent/[0.07] border-l-2 border-l-accent rounded-[3px] p-3 text-sm">
+                <AlertTriangle className="w-4 h-4 text-accent shrink-0 mt-0.5" />
+                <span>
+                  This guest&apos;s RSVP is <strong>{STATUS_LABELS[selectedGuest.status] ?? selectedGuest.status}</strong>,
+                  not attending.
+                </span>
+              </div>
+            )}
+            {renderPerson(
+              selectedGuest,
+              { id: selectedGuest.id, name: selectedGuest.name || selectedGuest.email, checkedInAt: selectedGuest.checkedInAt },
+              true
+            )}
+            {selectedGuest.additionalGuests.map((person) => renderPerson(selectedGuest, person, false))}
+            {[selectedGuest, ...selectedGuest.additionalGuests].filter((p) => !p.checkedInAt).length > 1 && (
+              <Button
+                className="w-full gap-2"
+                onClick={() =>
+                  checkIn(selectedGuest, {
+                    invitee: !selectedGuest.checkedInAt,
+                    additionalGuestIds: selectedGuest.additionalGuests.filter((ag) => !ag.checkedInAt).map((ag) => ag.id),
+                  })
+                }
+                disabled={savingId !== null}
+              >
+                <Check className="w-4 h-4" />
+                Check in everyone
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+}
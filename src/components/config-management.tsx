@@ -5,11 +5,18 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { EmailConfig } from './email-config';
+import { SmsConfig } from './sms-config';
+import { EmailTemplateEditor } from './email-template-editor';
 import { AppUrlConfig } from './app-url-config';
+import { RateLimitConfig } from './rate-limit-config';
+import { SpamProtectionConfig } from './spam-protection-config';
+import { MediaStorageConfig } from './media-storage-config';
 import { CheckCircle2, XCircle, Loader2, Globe } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
 
 export function ConfigManagement() {
   const [emailConfigured, setEmailConfigured] = useState<boolean | null>(null);
+  const [smsConfigured, setSmsConfigured] = useState<boolean | null>(null);
   const [appUrlConfigured, setAppUrlConfigured] = useState<boolean | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -20,20 +27,14 @@ export function ConfigManagement() {
   async function loadStatus() {
     setIsLoading(true);
     try {
-      const [configResponse, appUrlResponse] = await Promise.all([
-        fetch('/api/admin/config'),
-        fetch('/api/admin/config/app'),
+      const [status, appUrl] = await Promise.all([
+        requestApi('getConfigStatus'),
+        requestApi('getAppUrlConfig'),
       ]);
 
-      if (configResponse.ok) {
-        const data = await configResponse.json();
-        setEmailConfigured(data.email?.configured || false);
-      }
-
-      if (appUrlResponse.ok) {
-        const data = await appUrlResponse.json();
-        setAppUrlConfigured(data.configured || false);
-      }
+      setEmailConfigured(status.email.configured);
+      setSmsConfigured(status.sms.configured);
+      setAppUrlConfigured(appUrl.configured);
     } catch (error) {
       logger.error('Failed to load config status:', error);
     } finally {
@@ -120,6 +121,83 @@ export function ConfigManagement() {
           <EmailConfig onConfigChange={handleConfigChange} />
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>SMS Configuration</CardTitle>
+              <CardDescription>
+                Configure a text message provider for invitations, reminders and updates
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {smsConfigured ? (
+                <Badge variant="default" className="gap-1">
+                  <CheckCircle2 className="w-3 h-3" />
+                  SMS
+                </Badge>
+              ) : (
+                <Badge variant="secondary" className="gap-1">
+                  <XCircle className="w-3 h-3" />
+                  SMS
+                </Badge>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <SmsConfig onConfigChange={handleConfigChange} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rate Limiting</CardTitle>
+          <CardDescription>
+            Slow down spam and password guessing on RSVPs, guest wall messages, emailed links and sign-in
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RateLimitConfig />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spam Protection</CardTitle>
+          <CardDescription>
+            Make public forms solve a proof-of-work check in the browser, without a third-party CAPTCHA
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SpamProtectionConfig />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Media Storage</CardTitle>
+          <CardDescription>
+            Event cover images are stored as files, in several sizes for pages, lists and emails
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MediaStorageConfig />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Email Templates</CardTitle>
+          <CardDescription>
+            Edit the emails sent to guests. Hosts can further customize them for individual events.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EmailTemplateEditor />
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Trash2, Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 interface DeleteEventButtonProps {
   eventId: string;
@@ -26,14 +27,7 @@ export function DeleteEventButton({ eventId, eventTitle, variant = 'destructive'
     setIsDeleting(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete event');
-      }
+      await requestApi('deleteEvent', { params: { id: eventId } });
 
       toast({
         title: 'Event deleted',
@@ -24,6 +24,8 @@ import {
 import { Loader2, Mail, Phone, Plus, Trash2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { Checkbox } from '@/components/ui/checkbox';
+import { requestApi } from '@/lib/api-client';
+import type { UpdateGuestInput } from '@/lib/schemas';
 
 interface AdditionalGuest {
   id: string;
@@ -84,27 +86,20 @@ export function EditGuestForm({ eventId, guest, open, onOpenChange, onSuccess }:
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}/guests/${guest.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await requestApi('updateEventGuest', {
+        params: { id: eventId, guestId: guest.id },
+        body: {
           name: name || undefined,
           email: email !== guest.email ? email : undefined,
           phone: phone || null,
-          status,
+          status: status as UpdateGuestInput['status'],
           dietaryNotes: dietaryNotes || null,
           additionalGuests: additionalGuests.filter((g) => g.trim().length > 0),
           notifyByEmail,
           notifyBySms,
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update guest');
-      }
-
       toast({
         title: 'Guest updated!',
         description: 'The guest information has been updated.',
@@ -187,11 +182,12 @@ export function EditGuestForm({ eventId, guest, open, onOpenChange, onSuccess }:
                   <SelectItem value="ATTENDING">Attending</SelectItem>
                   <SelectItem value="MAYBE">Maybe</SelectItem>
                   <SelectItem value="NOT_ATTENDING">Not Attending</SelectItem>
+                  <SelectItem value="WAITLISTED">Waitlisted</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
-            {status === 'ATTENDING' && (
+            {(status === 'ATTENDING' || status === 'WAITLISTED') && (
               <>
                 <div className="space-y-3">
                   <Label>Additional Guests</Label>
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { PasswordInput } from '@/components/ui/password-input';
 import { Loader2, Mail, Save, X } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 interface EmailConfigData {
   host: string;
@@ -15,6 +16,7 @@ interface EmailConfigData {
   user: string;
   password: string;
   from?: string;
+  rateLimit?: string;
 }
 
 interface EmailConfigProps {
@@ -33,6 +35,7 @@ export function EmailConfig({ onConfigChange }: EmailConfigProps) {
     user: '',
     password: '',
     from: '',
+    rateLimit: '',
   });
   const [originalConfig, setOriginalConfig] = useState<EmailConfigData | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
@@ -51,31 +54,30 @@ export function EmailConfig({ onConfigChange }: EmailConfigProps) {
   async function loadConfig() {
     setIsLoading(true);
     try {
-      const response = await fetch('/api/admin/config/email');
-      if (response.ok) {
-        const data = await response.json();
-        if (data.configured && data.config) {
-          const newConfig = {
-            host: data.config.host || '',
-            port: data.config.port || '587',
-            user: data.config.user || '',
-            password: data.config.password || '',
-            from: data.config.from || '',
-          };
-          setConfig(newConfig);
-          setOriginalConfig(newConfig);
-        } else {
-          // Config not set yet - set originalConfig to empty defaults so changes can be detected
-          const emptyConfig = {
-            host: '',
-            port: '587',
-            user: '',
-            password: '',
-            from: '',
-          };
-          setConfig(emptyConfig);
-          setOriginalConfig(emptyConfig);
-        }
+      const data = await requestApi('getEmailConfig');
+      if (data.configured && data.config) {
+        const newConfig = {
+          host: data.config.host || '',
+          port: data.config.port || '587',
+          user: data.config.user || '',
+          password: data.config.password || '',
+          from: data.config.from || '',
+          rateLimit: data.config.rateLimit || '',
+        };
+        setConfig(newConfig);
+        setOriginalConfig(newConfig);
+      } else {
+        // Config not set yet - set originalConfig to empty defaults so changes can be detected
+        const emptyConfig = {
+          host: '',
+          port: '587',
+          user: '',
+          password: '',
+          from: '',
+          rateLimit: '',
+        };
+        setConfig(emptyConfig);
+        setOriginalConfig(emptyConfig);
       }
     } catch (error) {
       logger.error('Failed to load email config:', error);
@@ -86,6 +88,7 @@ export function EmailConfig({ onConfigChange }: EmailConfigProps) {
         user: '',
         password: '',
         from: '',
+        rateLimit: '',
       };
       setConfig(emptyConfig);
       setOriginalConfig(emptyConfig);
@@ -106,27 +109,17 @@ export function EmailConfig({ onConfigChange }: EmailConfigProps) {
 
     setIsSaving(true);
     try {
-      const response = await fetch('/api/admin/config/email', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(config),
-      });
-
-      const data = await response.json();
+      const data = await requestApi('updateEmailConfig', { body: config });
 
-      if (response.ok) {
-        toast({
-          title: 'Configuration saved!',
-          description: data.restartRequired
-            ? 'Configuration saved. Please restart the server for changes to take effect.'
-            : 'Email configuration updated successfully.',
-        });
-        setOriginalConfig({ ...config });
-        setHasChanges(false);
-        onConfigChange?.();
-      } else {
-        throw new Error(data.error || 'Failed to save configuration');
-      }
+      toast({
+        title: 'Configuration saved!',
+        description: data.restartRequired
+          ? 'Configuration saved. Please restart the server for changes to take effect.'
+          : 'Email configuration updated successfully.',
+      });
+      setOriginalConfig({ ...config });
+      setHasChanges(false);
+      onConfigChange?.();
     } catch (error) {
       toast({
         title: 'Error',
@@ -150,23 +143,13 @@ export function EmailConfig({ onConfigChange }: EmailConfigProps) {
 
     setIsTesting(true);
     try {
-      const response = await fetch('/api/admin/config/email', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ testEmail }),
-      });
+      await requestApi('sendTestEmail', { body: { testEmail } });
 
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        toast({
-          title: 'Test email sent!',
-          description: `Test email sent to ${testEmail}. Please check your inbox.`,
-        });
-        setTestEmail('');
-      } else {
-        throw new Error(data.error || data.details || 'Failed to send test email');
-      }
+      toast({
+        title: 'Test email sent!',
+        description: `Test email sent to ${testEmail}. Please check your inbox.`,
+      });
+      setTestEmail('');
     } catch (error) {
       toast({
         title: 'Error',
@@ -257,6 +240,21 @@ export function EmailConfig({ onConfigChange }: EmailConfigProps) {
             Format: Name &lt;email@yourdomain.com&gt; - must match your verified domain
           </p>
         </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="smtp-rate-limit">Rate Limit</Label>
+          <Input
+            id="smtp-rate-limit"
+            type="number"
+            min="0"
+            value={config.rateLimit}
+            onChange={(e) => setConfig(prev => ({ ...prev, rateLimit: e.target.value }))}
+            placeholder="30"
+          />
+          <p className="text-xs text-muted-foreground">
+            Maximum emails per minute sent through this server. Queued emails wait for the next window. Use 0 for no limit.
+          </p>
+        </div>
       </div>
 
       <div className="flex items-center gap-3 pt-4 border-t">
@@ -0,0 +1,212 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, RefreshCw, RotateCcw, Send } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { EMAIL_TEMPLATE_DEFINITIONS, isEmailTemplateName } from '@/lib/email-templates';
+import { cn } from '@/lib/utils';
+import { requestApi } from '@/lib/api-client';
+
+type DeliveryStatus = 'PENDING' | 'SENDING' | 'SENT' | 'FAILED';
+
+interface OutboundEmailEntry {
+  id: string;
+  type: string;
+  to: string;
+  subject: string;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  nextRetryAt: string;
+  sentAt: string | null;
+  createdAt: string;
+  guest: { name: string | null } | null;
+  event: { id: string; title: string } | null;
+}
+
+const statusConfig: Record<DeliveryStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Queued', className: 'bg-muted text-muted-foreground' },
+  SENDING: { label: 'Sending', className: 'bg-accent/15 text-accent' },
+  SENT: { label: 'Sent', className: 'bg-primary/15 text-primary' },
+  FAILED: { label: 'Failed', className: 'bg-destructive/15 text-destructive' },
+};
+
+const STATUS_FILTERS: DeliveryStatus[] = ['PENDING', 'SENDING', 'SENT', 'FAILED'];
+
+interface EmailDeliveryLogProps {
+  /** The event whose emails to list; without one, every event's (admin view) */
+  eventId?: string;
+  /** Show which event each message belongs to (admin view) */
+  showEvent?: boolean;
+}
+
+export function EmailDeliveryLog({ eventId, showEvent = false }: EmailDeliveryLogProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<'ALL' | DeliveryStatus>('ALL');
+  const [messages, setMessages] = useState<OutboundEmailEntry[]>([]);
+  const [counts, setCounts] = useState<Record<DeliveryStatus, number> | null>(null);
+
+  const loadMessages = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = { status: filter === 'ALL' ? undefined : filter };
+      const data = eventId
+        ? await requestApi('listEventOutbox', { params: { id: eventId }, query })
+        : await requestApi('listOutbox', { query });
+      setMessages(data.messages);
+      setCounts(data.counts);
+    } catch (error) {
+      logger.error('Failed to load email delivery log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, filter]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  async function handleRetry(message: OutboundEmailEntry) {
+    setRetryingId(message.id);
+    try {
+      if (eventId) {
+        await requestApi('retryEventEmail', { params: { id: eventId, messageId: message.id } });
+      } else {
+        await requestApi('retryEmail', { params: { messageId: message.id } });
+      }
+
+      toast({
+        title: 'Email requeued',
+        description: `The email to ${message.to} will be sent again shortly.`,
+      });
+      await loadMessages();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to retry email',
+        variant: 'destructive',
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  }
+
+  function describeDelivery(message: OutboundEmailEntry): string {
+    if (message.status === 'SENT' && message.sentAt) {
+      return `Sent ${formatDistanceToNow(new Date(message.sentAt), { addSuffix: true })}`;
+    }
+    if (message.status === 'FAILED') {
+      return `Gave up after ${message.attempts} attempt${message.attempts !== 1 ? 's' : ''}`;
+    }
+    if (message.status === 'PENDING' && message.attempts > 0) {
+      return `Attempt ${message.attempts + 1} of ${message.maxAttempts} ${formatDistanceToNow(new Date(message.nextRetryAt), { addSuffix: true })}`;
+    }
+    return `Queued ${formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}`;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Send className="w-5 h-5" />
+              Email Delivery
+            </CardTitle>
+            <CardDescription>
+              Invitations, reminders and updates are queued and retried automatically if the mail server rejects them
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={filter} onValueChange={(value) => setFilter(value as 'ALL' | DeliveryStatus)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All</SelectItem>
+                {STATUS_FILTERS.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {statusConfig[status].label}
+                    {counts ? ` (${counts[status]})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={loadMessages} disabled={isLoading} title="Refresh">
+              <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && messages.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No emails to show.</p>
+        ) : (
+          <div className="divide-y">
+            {messages.map((message) => (
+              <div key={message.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium truncate">
+                    {message.guest?.name ? `${message.guest.name} <${message.to}>` : message.to}
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {isEmailTemplateName(message.type) ? EMAIL_TEMPLATE_DEFINITIONS[message.type].label : message.type}
+                    {' · '}
+                    {message.subject}
+                    {showEvent && message.event && ` · ${message.event.title}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeDelivery(message)}</p>
+                  {message.lastError && message.status !== 'SENT' && (
+                    <p className="text-xs text-destructive break-words">{message.lastError}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge
+                    variant="secondary"
+                    className={cn('w-[80px] justify-center', statusConfig[message.status]?.className)}
+                  >
+                    {statusConfig[message.status]?.label || message.status}
+                  </Badge>
+                  {(message.status === 'FAILED' || message.status === 'PENDING') && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRetry(message)}
+                      disabled={retryingId === message.id}
+                      title="Retry now"
+                    >
+                      {retryingId === message.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,309 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, RotateCcw, Save, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useDebounce } from '@/hooks/use-debounce';
+import {
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_NAMES,
+  SAMPLE_EMAIL_TEMPLATE_DATA,
+  renderEmailTemplate,
+  EmailTemplateContent,
+  EmailTemplateName,
+} from '@/lib/email-templates';
+import { requestApi } from '@/lib/api-client';
+
+interface TemplateEntry {
+  name: EmailTemplateName;
+  template: EmailTemplateContent;
+  isCustomized: boolean;
+  fallback: EmailTemplateContent;
+}
+
+interface EmailTemplateEditorProps {
+  /** Edit this event's templates instead of the site-wide ones */
+  eventId?: string;
+  resetLabel?: string;
+}
+
+export function EmailTemplateEditor({ eventId, resetLabel = 'Reset to Default' }: EmailTemplateEditorProps) {
+  const { toast } = useToast();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [templates, setTemplates] = useState<TemplateEntry[]>([]);
+  const [selectedName, setSelectedName] = useState<EmailTemplateName>(EMAIL_TEMPLATE_NAMES[0]);
+  const [draft, setDraft] = useState<EmailTemplateContent | null>(null);
+
+  const selected = templates.find((t) => t.name === selectedName);
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[selectedName];
+  const hasChanges = !!selected && !!draft && JSON.stringify(draft) !== JSON.stringify(selected.template);
+
+  const debouncedDraft = useDebounce(draft, 300);
+  const preview = useMemo(() => {
+    if (!debouncedDraft) return null;
+    return renderEmailTemplate(selectedName, debouncedDraft, SAMPLE_EMAIL_TEMPLATE_DATA);
+  }, [selectedName, debouncedDraft]);
+
+  useEffect(() => {
+    async function loadTemplates() {
+      setIsLoading(true);
+      try {
+        const data = eventId
+          ? await requestApi('listEventEmailTemplates', { params: { id: eventId } })
+          : await requestApi('listEmailTemplates');
+        setTemplates(data.templates);
+      } catch (error) {
+        logger.error('Failed to load email templates:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadTemplates();
+  }, [eventId]);
+
+  useEffect(() => {
+    setDraft(selected ? { ...selected.template } : null);
+  }, [selected]);
+
+  function updateTemplate(name: EmailTemplateName, template: EmailTemplateContent, isCustomized: boolean) {
+    setTemplates((prev) =>
+      prev.map((t) => (t.name === name ? { ...t, template, isCustomized } : t))
+    );
+  }
+
+  function insertVariable(variable: string) {
+    if (!draft) return;
+    const token = `{{${variable}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + token + draft.body.slice(end) });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+
+    if (!draft.subject.trim() || !draft.body.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Subject and body are required',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (eventId) {
+        await requestApi('saveEventEmailTemplate', { params: { id: eventId, name: selectedName }, body: draft });
+      } else {
+        await requestApi('saveEmailTemplate', { params: { name: selectedName }, body: draft });
+      }
+
+      updateTemplate(selectedName, { ...draft }, true);
+      toast({
+        title: 'Template saved!',
+        description: `The ${definition.label.toLowerCase()} email has been updated.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save template',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleReset() {
+    setIsResetting(true);
+    try {
+      const data = eventId
+        ? await requestApi('resetEventEmailTemplate', { params: { id: eventId, name: selectedName } })
+        : await requestApi('resetEmailTemplate', { params: { name: selectedName } });
+
+      updateTemplate(selectedName, data.template, false);
+      toast({
+        title: 'Template reset',
+        description: `The ${definition.label.toLowerCase()} email has been reset.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reset template',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResetting(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!selected || !draft) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">Unable to load email templates.</p>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="email-template-name">Template</Label>
+          <Select
+            value={selectedName}
+            onValueChange={(value) => setSelectedName(value as EmailTemplateName)}
+            disabled={isSaving || isResetting}
+          >
+            <SelectTrigger id="email-template-name">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((t) => (
+                <SelectItem key={t.name} value={t.name}>
+                  {EMAIL_TEMPLATE_DEFINITIONS[t.name].label}
+                  {t.isCustomized ? ' (customized)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{definition.description}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email-template-subject">Subject</Label>
+          <Input
+            id="email-template-subject"
+            value={draft.subject}
+            onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email-template-heading">Heading</Label>
+          <Input
+            id="email-template-heading"
+            value={draft.heading}
+            onChange={(e) => setDraft({ ...draft, heading: e.target.value })}
+            placeholder={selected.fallback.heading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email-template-body">Body (HTML)</Label>
+          <Textarea
+            id="email-template-body"
+            ref={bodyRef}
+            value={draft.body}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            className="font-mono text-xs min-h-[320px]"
+            spellCheck={false}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Merge Variables</Label>
+          <div className="flex flex-wrap gap-1.5">
+            {definition.variables.map((variable) => (
+              <button
+                key={variable.name}
+                type="button"
+                onClick={() => insertVariable(variable.name)}
+                title={variable.description}
+              >
+                <Badge variant="secondary" className="font-mono cursor-pointer hover:bg-secondary/60">
+                  {`{{${variable.name}}}`}
+                </Badge>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Click a variable to insert it into the body. Wrap optional sections in{' '}
+            <code>{'{{#if address}}...{{/if}}'}</code> to hide them when a value is empty.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 pt-4 border-t">
+          <Button onClick={handleSave} disabled={isSaving || isResetting || !hasChanges} className="flex-1">
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="w-4 h-4 mr-2" />
+                Save Template
+              </>
+            )}
+          </Button>
+          {hasChanges && (
+            <Button
+              variant="outline"
+              onClick={() => setDraft({ ...selected.template })}
+              disabled={isSaving || isResetting}
+            >
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+          {selected.isCustomized && (
+            <Button variant="outline" onClick={handleReset} disabled={isSaving || isResetting}>
+              {isResetting ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <RotateCcw className="w-4 h-4 mr-2" />
+              )}
+              {resetLabel}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Preview</Label>
+        <div className="rounded-[3px] border bg-muted/30 px-3 py-2 text-sm">
+          <span className="text-muted-foreground">Subject: </span>
+          {preview?.subject}
+        </div>
+        <iframe
+          title="Email preview"
+          srcDoc={preview?.html || ''}
+          sandbox=""
+          className="w-full h-[640px] rounded-[3px] border bg-white"
+        />
+        <p className="text-xs text-muted-foreground">Rendered with sample guest and event data.</p>
+      </div>
+    </div>
+  );
+}
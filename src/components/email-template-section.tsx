@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { EmailTemplateEditor } from '@/components/email-template-editor';
+import { Edit, Mail } from 'lucide-react';
+
+interface EmailTemplateSectionProps {
+  eventId: string;
+}
+
+export function EmailTemplateSection({ eventId }: EmailTemplateSectionProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Mail className="w-5 h-5" />
+                Email Templates
+              </CardTitle>
+              <CardDescription>
+                Customize the invitations, reminders and updates guests receive for this event
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsDialogOpen(true)}
+              className="gap-2"
+            >
+              <Edit className="w-4 h-4" />
+              Customize
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Email Templates</DialogTitle>
+            <DialogDescription>
+              Changes here only apply to this event. Templates you haven&apos;t customized use the site-wide version.
+            </DialogDescription>
+          </DialogHeader>
+          {isDialogOpen && (
+            <EmailTemplateEditor
+              eventId={eventId}
+              resetLabel="Use Site Template"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
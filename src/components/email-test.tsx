@@ -8,6 +8,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Loader2, Mail, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { ApiError, requestApi } from '@/lib/api-client';
 
 export function EmailTest() {
   const { toast } = useToast();
@@ -33,18 +34,7 @@ export function EmailTest() {
   async function checkConfig() {
     setIsCheckingConfig(true);
     try {
-      const response = await fetch('/api/test-email');
-      if (response.ok) {
-        const data = await response.json();
-        setConfigStatus(data);
-      } else {
-        setConfigStatus({
-          configured: false,
-          missing: [],
-          warnings: [],
-          config: null,
-        });
-      }
+      setConfigStatus(await requestApi('getSmtpStatus'));
     } catch (error) {
       logger.error('Failed to check email config:', error);
       setConfigStatus({
@@ -71,30 +61,15 @@ export function EmailTest() {
 
     setIsLoading(true);
     try {
-      const response = await fetch('/api/test-email', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ testEmail }),
+      await requestApi('sendSmtpTestEmail', { body: { testEmail } });
+      toast({
+        title: 'Test email sent!',
+        description: `Test email sent to ${testEmail}. Please check your inbox.`,
       });
-
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        toast({
-          title: 'Test email sent!',
-          description: `Test email sent to ${testEmail}. Please check your inbox.`,
-        });
-        setTestEmail('');
-      } else {
-        toast({
-          title: 'Failed to send test email',
-          description: data.error || data.details || 'Unknown error occurred',
-          variant: 'destructive',
-        });
-      }
+      setTestEmail('');
     } catch (error) {
       toast({
-        title: 'Error',
+        title: error instanceof ApiError ? 'Failed to send test email' : 'Error',
         description: error instanceof Error ? error.message : 'Failed to send test email',
         variant: 'destructive',
       });
@@ -0,0 +1,171 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Calendar, Clock, MapPin, Users } from 'lucide-react';
+import { PublicRsvpForm } from '@/components/public-rsvp-form';
+import type { RsvpQuestion } from '@/lib/rsvp-questions';
+import type { RsvpSession } from '@/components/session-rsvp-fields';
+import { EMBED_MESSAGE_SOURCE, EmbedHeadcount, EmbedMessage, EmbedRsvp } from '@/lib/embed';
+import { requestApi } from '@/lib/api-client';
+
+// The widget checks for new RSVPs this often while it's open
+const HEADCOUNT_REFRESH_MS = 60 * 1000;
+
+interface EmbedRsvpWidgetProps {
+  slug: string;
+  /** The site framing the widget; messages are only posted there */
+  parentOrigin: string;
+  eventUrl: string;
+  event: {
+    id: string;
+    title: string;
+    when: string;
+    where: string | null;
+    timezone: string | null;
+    maxGuestsPerInvitee: number | null;
+    requireApproval: boolean;
+  };
+  questions: RsvpQuestion[];
+  laterDates: number;
+  sessions: RsvpSession[];
+  spamProtection: boolean;
+  rsvpDeadlinePassed: boolean;
+  initialHeadcount: EmbedHeadcount;
+  showHeadcount: boolean;
+}
+
+export function EmbedRsvpWidget({
+  slug,
+  parentOrigin,
+  eventUrl,
+  event,
+  questions,
+  laterDates,
+  sessions,
+  spamProtection,
+  rsvpDeadlinePassed,
+  initialHeadcount,
+  showHeadcount,
+}: EmbedRsvpWidgetProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [headcount, setHeadcount] = useState(initialHeadcount);
+  const headcountRef = useRef(initialHeadcount);
+
+  const post = useCallback(
+    (message: EmbedMessage) => {
+      window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, ...message }, parentOrigin);
+    },
+    [parentOrigin]
+  );
+
+  const refreshHeadcount = useCallback(async () => {
+    try {
+      const { headcount: next } = await requestApi('getPublicHeadcount', { params: { slug } });
+      const current = headcountRef.current;
+      if (current.attending !== next.attending || current.spotsLeft !== next.spotsLeft) {
+        headcountRef.current = next;
+        setHeadcount(next);
+        post({ type: 'headcount', slug, headcount: next });
+      }
+    } catch (error) {
+      logger.error('Failed to refresh headcount:', error);
+    }
+  }, [slug, post]);
+
+  // Tell the page we're here, then keep the frame as tall as the form
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    post({ type: 'ready', slug, height: container.scrollHeight });
+
+    let lastHeight = container.scrollHeight;
+    const observer = new ResizeObserver(() => {
+      const height = container.scrollHeight;
+      if (height !== lastHeight) {
+        lastHeight = height;
+        post({ type: 'resize', height });
+      }
+    });
+    observer.observe(container);
+
+    return () => observer.disconnect();
+  }, [slug, post]);
+
+  useEffect(() => {
+    if (!showHeadcount) return;
+    const interval = setInterval(refreshHeadcount, HEADCOUNT_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [showHeadcount, refreshHeadcount]);
+
+  function handleRsvp(rsvp: EmbedRsvp) {
+    post({ type: 'rsvp', slug, rsvp });
+    if (showHeadcount) {
+      refreshHeadcount();
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="p-4 sm:p-6 space-y-5">
+      <div className="space-y-2">
+        <h1 className="headline text-2xl sm:text-3xl leading-tight">{event.title}</h1>
+        <div className="space-y-1 text-sm text-muted-foreground">
+          <p className="flex items-center gap-2">
+            <Calendar className="w-4 h-4 text-primary shrink-0" />
+            {event.when}
+          </p>
+          {event.where && (
+            <p className="flex items-center gap-2">
+              <MapPin className="w-4 h-4 text-primary shrink-0" />
+              {event.where}
+            </p>
+          )}
+          {showHeadcount && (
+            <p className="flex items-center gap-2" data-testid="embed-headcount">
+              <Users className="w-4 h-4 text-primary shrink-0" />
+              {headcount.attending} attending
+              {headcount.spotsLeft !== null && (
+                <span>· {headcount.spotsLeft > 0 ? `${headcount.spotsLeft} spots left` : 'Full, new RSVPs join the waitlist'}</span>
+              )}
+            </p>
+          )}
+        </div>
+        <hr className="ink-rule-double" />
+      </div>
+
+      {rsvpDeadlinePassed ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <Clock className="w-10 h-10 mx-auto mb-3 opacity-50" />
+          <p>The RSVP deadline has passed.</p>
+        </div>
+      ) : (
+        <>
+          {event.requireApproval && (
+            <p className="text-sm text-muted-foreground">
+              New RSVPs are reviewed by the host before they are confirmed.
+            </p>
+          )}
+          <PublicRsvpForm
+            eventId={event.id}
+            slug={slug}
+            maxGuestsPerInvitee={event.maxGuestsPerInvitee}
+            questions={questions}
+            laterDates={laterDates}
+            sessions={sessions}
+            timezone={event.timezone}
+            spamProtection={spamProtection}
+            onRsvp={handleRsvp}
+          />
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground text-center">
+        <a href={eventUrl} target="_blank" rel="noopener noreferrer" className="hover:text-primary hover:underline">
+          Open the event page
+        </a>
+        {' · '}Powered by OwnRSVP
+      </p>
+    </div>
+  );
+}
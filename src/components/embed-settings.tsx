@@ -0,0 +1,177 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CopyButton } from '@/components/copy-button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { buildEmbedSnippets, DEFAULT_EMBED_OPTIONS, EmbedTheme, MAX_EMBED_ORIGINS } from '@/lib/embed';
+import { requestApi } from '@/lib/api-client';
+
+interface EmbedSettingsProps {
+  eventId: string;
+  slug: string;
+  appUrl: string;
+  isPublic: boolean;
+  initialOrigins: string[];
+}
+
+const THEME_OPTIONS: { value: EmbedTheme; label: string }[] = [
+  { value: 'auto', label: "Match the visitor's device" },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+];
+
+export function EmbedSettings({ eventId, slug, appUrl, isPublic, initialOrigins }: EmbedSettingsProps) {
+  const { toast } = useToast();
+  const [origins, setOrigins] = useState<string[]>(initialOrigins);
+  const [originsText, setOriginsText] = useState(initialOrigins.join('\n'));
+  const [isSaving, setIsSaving] = useState(false);
+  const [theme, setTheme] = useState<EmbedTheme>(DEFAULT_EMBED_OPTIONS.theme);
+  const [useAccent, setUseAccent] = useState(false);
+  const [accent, setAccent] = useState('#c2410c');
+  const [headcount, setHeadcount] = useState(DEFAULT_EMBED_OPTIONS.headcount);
+
+  const snippets = buildEmbedSnippets(appUrl, slug, {
+    theme,
+    accent: useAccent ? accent.replace(/^#/, '') : null,
+    headcount,
+  });
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const data = await requestApi('updateEmbedOrigins', {
+        params: { id: eventId },
+        body: {
+          origins: originsText.split('\n').map((line) => line.trim()).filter(Boolean),
+        },
+      });
+
+      setOrigins(data.embedOrigins);
+      setOriginsText(data.embedOrigins.join('\n'));
+      toast({
+        title: 'Websites saved',
+        description: data.embedOrigins.length > 0
+          ? 'The RSVP widget can be added to these websites.'
+          : 'The RSVP widget is turned off.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save websites',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {!isPublic && (
+        <p className="text-sm text-muted-foreground p-3 rounded-[3px] border border-border">
+          Only public events can be embedded. Make the event public under Edit Event to use the widget.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="embed-origins">Allowed websites</Label>
+        <Textarea
+          id="embed-origins"
+          value={originsText}
+          onChange={(e) => setOriginsText(e.target.value)}
+          placeholder={'https://ourwedding.example.com\nhttps://www.example-club.org'}
+          rows={3}
+          className="font-mono text-xs"
+        />
+        <p className="text-xs text-muted-foreground">
+          One per line, up to {MAX_EMBED_ORIGINS}. The widget only shows the RSVP form on these websites; leave empty to turn it off.
+        </p>
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Websites
+        </Button>
+      </div>
+
+      {origins.length > 0 && (
+        <>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="embed-theme">Theme</Label>
+              <Select value={theme} onValueChange={(value) => setTheme(value as EmbedTheme)}>
+                <SelectTrigger id="embed-theme">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {THEME_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="embed-accent">Accent color</Label>
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  checked={useAccent}
+                  onCheckedChange={(checked) => setUseAccent(checked === true)}
+                  aria-label="Use a custom accent color"
+                />
+                <Input
+                  id="embed-accent"
+                  type="color"
+                  value={accent}
+                  onChange={(e) => {
+                    setAccent(e.target.value);
+                    setUseAccent(true);
+                  }}
+                  className="w-16 h-9 p-1"
+                />
+              </div>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <Checkbox checked={headcount} onCheckedChange={(checked) => setHeadcount(checked === true)} />
+            <span className="text-sm">Show how many people are coming</span>
+          </label>
+
+          <div className="space-y-2">
+            <Label htmlFor="embed-script">Script tag</Label>
+            <div className="flex gap-2">
+              <Textarea id="embed-script" value={snippets.script} readOnly rows={2} className="font-mono text-xs" />
+              <CopyButton text={snippets.script} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Grows with the form, and fires <code className="font-mono">ownrsvp:rsvp</code> events on your page when someone RSVPs.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="embed-iframe">Or an iframe</Label>
+            <div className="flex gap-2">
+              <Textarea id="embed-iframe" value={snippets.iframe} readOnly rows={2} className="font-mono text-xs" />
+              <CopyButton text={snippets.iframe} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              For site builders that don&apos;t allow scripts. Your page can listen for the widget&apos;s postMessage events from {appUrl.replace(/\/$/, '')}.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
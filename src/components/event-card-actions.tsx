@@ -13,6 +13,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { MoreVertical, Edit, Trash2, Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 interface EventCardActionsProps {
   eventId: string;
@@ -33,14 +34,7 @@ export function EventCardActions({ eventId, eventTitle, canManage }: EventCardAc
     setIsDeleting(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete event');
-      }
+      await requestApi('deleteEvent', { params: { id: eventId } });
 
       toast({
         title: 'Event deleted',
@@ -1,25 +1,111 @@
 'use client';
+import { logger } from '@/lib/logger';
 
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { MessageSquare } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { Check, Eye, EyeOff, Loader2, MessageSquare, Pin, PinOff, Reply, Trash2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { requestApi } from '@/lib/api-client';
 
-interface Comment {
+export interface EventComment {
   id: string;
   authorName: string;
   content: string;
   createdAt: Date;
+  userId?: string | null;
+  status?: string;
+  pinned?: boolean;
   guest?: {
     name: string | null;
     email: string;
   } | null;
+  replies?: EventComment[];
 }
 
 interface EventCommentsProps {
-  comments: Comment[];
+  eventId: string;
+  comments: EventComment[];
+  canModerate?: boolean;
 }
 
-export function EventComments({ comments }: EventCommentsProps) {
+export function EventComments({ eventId, comments, canModerate = false }: EventCommentsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState('');
+
+  const moderate = async (comment: EventComment, changes: { status?: 'VISIBLE' | 'HIDDEN'; pinned?: boolean }) => {
+    setBusyId(comment.id);
+    try {
+      await requestApi('moderateComment', { params: { id: comment.id }, body: changes });
+
+      router.refresh();
+    } catch (error) {
+      logger.error('Moderate comment error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update message',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteComment = async (comment: EventComment) => {
+    if (!confirm('Are you sure you want to delete this message?')) return;
+
+    setBusyId(comment.id);
+    try {
+      await requestApi('deleteComment', { params: { id: comment.id } });
+
+      toast({
+        title: 'Message deleted',
+        description: 'The message has been removed from the guest wall.',
+      });
+
+      router.refresh();
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete message',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const postReply = async (comment: EventComment) => {
+    if (!replyContent.trim()) return;
+
+    setBusyId(comment.id);
+    try {
+      await requestApi('postComment', {
+        body: { eventId, authorName: 'Host', content: replyContent, parentId: comment.id },
+      });
+
+      setReplyingTo(null);
+      setReplyContent('');
+      router.refresh();
+    } catch (error) {
+      logger.error('Reply to comment error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to post reply',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
   if (comments.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -30,6 +116,114 @@ export function EventComments({ comments }: EventCommentsProps) {
     );
   }
 
+  const renderComment = (comment: EventComment, isReply: boolean) => {
+    const isBusy = busyId === comment.id;
+
+    return (
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2 mb-1">
+          <span className="font-medium text-sm">{comment.authorName}</span>
+          {comment.userId && (
+            <Badge variant="outline" className="text-xs py-0">Host</Badge>
+          )}
+          {comment.status === 'PENDING' && (
+            <Badge variant="outline" className="text-xs py-0 border-accent/40 text-accent">Awaiting approval</Badge>
+          )}
+          {comment.status === 'HIDDEN' && (
+            <Badge variant="outline" className="text-xs py-0 text-muted-foreground">Hidden</Badge>
+          )}
+          {comment.pinned && (
+            <Pin className="w-3 h-3 text-muted-foreground" aria-label="Pinned" />
+          )}
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          </span>
+        </div>
+        <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{comment.content}</p>
+
+        {canModerate && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {comment.status === 'PENDING' && (
+              <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => moderate(comment, { status: 'VISIBLE' })} disabled={isBusy}>
+                <Check className="w-3 h-3" />
+                Approve
+              </Button>
+            )}
+            {comment.status === 'HIDDEN' ? (
+              <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => moderate(comment, { status: 'VISIBLE' })} disabled={isBusy}>
+                <Eye className="w-3 h-3" />
+                Show
+              </Button>
+            ) : (
+              <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => moderate(comment, { status: 'HIDDEN' })} disabled={isBusy}>
+                <EyeOff className="w-3 h-3" />
+                Hide
+              </Button>
+            )}
+            {!isReply && (
+              <>
+                <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => moderate(comment, { pinned: !comment.pinned })} disabled={isBusy}>
+                  {comment.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                  {comment.pinned ? 'Unpin' : 'Pin'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1"
+                  onClick={() => {
+                    setReplyContent('');
+                    setReplyingTo(replyingTo === comment.id ? null : comment.id);
+                  }}
+                  disabled={isBusy}
+                >
+                  <Reply className="w-3 h-3" />
+                  Reply
+                </Button>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-destructive hover:text-destructive"
+              onClick={() => deleteComment(comment)}
+              disabled={isBusy}
+            >
+              {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+              Delete
+            </Button>
+          </div>
+        )}
+
+        {comment.replies?.map((reply) => (
+          <div key={reply.id} className="mt-3 pl-3 border-l-2 border-accent/40">
+            {renderComment(reply, true)}
+          </div>
+        ))}
+
+        {replyingTo === comment.id && (
+          <div className="mt-3 space-y-2">
+            <Textarea
+              placeholder="Write a reply..."
+              value={replyContent}
+              onChange={(e) => setReplyContent(e.target.value)}
+              rows={2}
+              disabled={isBusy}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => postReply(comment)} disabled={isBusy || !replyContent.trim()}>
+                {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Post Reply
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setReplyingTo(null)} disabled={isBusy}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       {comments.length > 0 && (
@@ -44,18 +238,9 @@ export function EventComments({ comments }: EventCommentsProps) {
               {comment.authorName.charAt(0).toUpperCase()}
             </AvatarFallback>
           </Avatar>
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center gap-2 mb-1">
-              <span className="font-medium text-sm">{comment.authorName}</span>
-              <span className="text-xs text-muted-foreground">
-                {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-              </span>
-            </div>
-            <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{comment.content}</p>
-          </div>
+          {renderComment(comment, false)}
         </div>
       ))}
     </div>
   );
 }
-
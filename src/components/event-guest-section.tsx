@@ -5,17 +5,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { GuestList } from '@/components/guest-list';
 import { AddGuestForm } from '@/components/add-guest-form';
-import { EventComments } from '@/components/event-comments';
+import { EventComments, EventComment } from '@/components/event-comments';
 import { PublicCommentForm } from '@/components/public-comment-form';
 import { ImportGuestsDialog } from '@/components/import-guests-dialog';
 import { BroadcastDialog } from '@/components/broadcast-dialog';
 import { GuestLimitEditor } from '@/components/guest-limit-editor';
 import { Download, Upload } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import type { EventPermissions } from '@/lib/event-access';
+import { requestApi } from '@/lib/api-client';
 
 interface AdditionalGuest {
   id: string;
   name: string;
+  rsvpAnswers?: string | null;
 }
 
 interface Guest {
@@ -28,48 +31,42 @@ interface Guest {
   notifyBySms: boolean;
   invitedAt: Date;
   respondedAt: Date | null;
-  reminderSentAt: Date | null;
+  reminderDeliveries: { sentAt: Date }[];
+  rsvpAnswers?: string | null;
   additionalGuests?: AdditionalGuest[];
   token: string;
 }
 
-interface Comment {
-  id: string;
-  authorName: string;
-  content: string;
-  createdAt: Date;
-}
-
 interface EventGuestSectionProps {
   eventId: string;
   guests: Guest[];
-  comments: Comment[];
+  comments: EventComment[];
   stats: {
     total: number;
     attending: number;
     notAttending: number;
     maybe: number;
     pending: number;
+    waitlisted: number;
   };
   filterStatus: string | null;
   maxGuestsPerInvitee?: number | null;
+  rsvpQuestions?: string | null;
   appUrl: string;
+  permissions: EventPermissions;
 }
 
-export function EventGuestSection({ eventId, guests, comments, stats, filterStatus, maxGuestsPerInvitee, appUrl }: EventGuestSectionProps) {
+export function EventGuestSection({ eventId, guests, comments, stats, filterStatus, maxGuestsPerInvitee, rsvpQuestions, appUrl, permissions }: EventGuestSectionProps) {
   const { toast } = useToast();
   const [isImportOpen, setIsImportOpen] = useState(false);
 
   const handleExport = async () => {
     try {
-      const response = await fetch(`/api/events/${eventId}/guests/export`);
-      if (!response.ok) throw new Error('Failed to export');
-      
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
+      const file = await requestApi('exportGuestList', { params: { id: eventId } });
+      const url = window.URL.createObjectURL(file);
       const a = document.createElement('a');
       a.href = url;
-      a.download = response.headers.get('Content-Disposition')?.split('filename=')[1]?.replace(/"/g, '') || 'guests.csv';
+      a.download = file.name;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -99,22 +96,30 @@ export function EventGuestSection({ eventId, guests, comments, stats, filterStat
               <CardDescription>Manage your guest list and send invitations</CardDescription>
             </div>
             <div className="flex flex-wrap gap-2">
-              <BroadcastDialog eventId={eventId} stats={stats} />
-              <Button variant="outline" size="sm" onClick={handleExport} className="gap-2">
-                <Download className="w-4 h-4" />
-                Export
-              </Button>
-              <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)} className="gap-2">
-                <Upload className="w-4 h-4" />
-                Import
-              </Button>
-              <AddGuestForm eventId={eventId} />
+              {permissions.sendMessages && <BroadcastDialog eventId={eventId} stats={stats} />}
+              {permissions.exportGuests && (
+                <Button variant="outline" size="sm" onClick={handleExport} className="gap-2">
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              )}
+              {permissions.editGuests && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)} className="gap-2">
+                    <Upload className="w-4 h-4" />
+                    Import
+                  </Button>
+                  <AddGuestForm eventId={eventId} />
+                </>
+              )}
             </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          <GuestLimitEditor eventId={eventId} maxGuestsPerInvitee={maxGuestsPerInvitee ?? null} />
-          <GuestList guests={guests} eventId={eventId} filterStatus={filterStatus} globalMaxGuests={maxGuestsPerInvitee} appUrl={appUrl} />
+          {permissions.editGuests && (
+            <GuestLimitEditor eventId={eventId} maxGuestsPerInvitee={maxGuestsPerInvitee ?? null} />
+          )}
+          <GuestList guests={guests} eventId={eventId} filterStatus={filterStatus} globalMaxGuests={maxGuestsPerInvitee} rsvpQuestions={rsvpQuestions} appUrl={appUrl} permissions={permissions} />
         </CardContent>
       </Card>
 
@@ -127,16 +132,18 @@ export function EventGuestSection({ eventId, guests, comments, stats, filterStat
         <CardContent className="space-y-6">
           <PublicCommentForm eventId={eventId} />
           <div className="border-t pt-4">
-            <EventComments comments={comments} />
+            <EventComments eventId={eventId} comments={comments} canModerate={permissions.moderateComments} />
           </div>
         </CardContent>
       </Card>
 
-      <ImportGuestsDialog
-        open={isImportOpen}
-        onOpenChange={setIsImportOpen}
-        eventId={eventId}
-      />
+      {permissions.editGuests && (
+        <ImportGuestsDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          eventId={eventId}
+        />
+      )}
     </div>
   );
 }
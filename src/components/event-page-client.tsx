@@ -3,14 +3,17 @@
 import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Link as LinkIcon, Calendar } from 'lucide-react';
+import { Link as LinkIcon, Calendar, ScanLine } from 'lucide-react';
 import Link from 'next/link';
 import { EventGuestSection } from '@/components/event-guest-section';
-import { RsvpSummary } from '@/components/rsvp-summary';
+import { RsvpSummary, RsvpSummaryProps } from '@/components/rsvp-summary';
+import type { EventComment } from '@/components/event-comments';
+import type { EventPermissions } from '@/lib/event-access';
 
 interface AdditionalGuest {
   id: string;
   name: string;
+  rsvpAnswers?: string | null;
 }
 
 interface Guest {
@@ -23,35 +26,34 @@ interface Guest {
   notifyBySms: boolean;
   invitedAt: Date;
   respondedAt: Date | null;
-  reminderSentAt: Date | null;
+  reminderDeliveries: { sentAt: Date }[];
+  rsvpAnswers?: string | null;
   additionalGuests?: AdditionalGuest[];
   token: string;
 }
 
-interface Comment {
-  id: string;
-  authorName: string;
-  content: string;
-  createdAt: Date;
-}
-
 interface EventPageClientProps {
   eventId: string;
   eventSlug: string;
   guests: Guest[];
-  comments: Comment[];
+  comments: EventComment[];
   stats: {
     total: number;
     attending: number;
     notAttending: number;
     maybe: number;
     pending: number;
+    waitlisted: number;
   };
   maxGuestsPerInvitee?: number | null;
+  capacity?: number | null;
+  sessions?: RsvpSummaryProps['sessions'];
+  rsvpQuestions?: string | null;
   appUrl: string;
+  permissions: EventPermissions;
 }
 
-export function EventPageClient({ eventId, eventSlug, guests, comments, stats, maxGuestsPerInvitee, appUrl }: EventPageClientProps) {
+export function EventPageClient({ eventId, eventSlug, guests, comments, stats, maxGuestsPerInvitee, capacity, sessions, rsvpQuestions, appUrl, permissions }: EventPageClientProps) {
   const [selectedFilter, setSelectedFilter] = useState<string | null>(null);
 
   return (
@@ -65,14 +67,16 @@ export function EventPageClient({ eventId, eventSlug, guests, comments, stats, m
           stats={stats}
           filterStatus={selectedFilter}
           maxGuestsPerInvitee={maxGuestsPerInvitee}
+          rsvpQuestions={rsvpQuestions}
           appUrl={appUrl}
+          permissions={permissions}
         />
       </div>
 
       {/* Sidebar */}
       <div className="lg:col-span-1 space-y-6">
         {/* RSVP Stats */}
-        <RsvpSummary stats={stats} selectedFilter={selectedFilter} onFilterChange={setSelectedFilter} />
+        <RsvpSummary stats={stats} capacity={capacity} sessions={sessions} selectedFilter={selectedFilter} onFilterChange={setSelectedFilter} />
 
         {/* Quick Actions */}
         <Card>
@@ -86,12 +90,22 @@ export function EventPageClient({ eventId, eventSlug, guests, comments, stats, m
                 View Public Page
               </Button>
             </Link>
-            <Link href={`/dashboard/events/${eventId}/edit`} className="block">
-              <Button variant="outline" className="w-full justify-start gap-2">
-                <Calendar className="w-4 h-4" />
-                Edit Event Details
-              </Button>
-            </Link>
+            {permissions.editEvent && (
+              <Link href={`/dashboard/events/${eventId}/edit`} className="block">
+                <Button variant="outline" className="w-full justify-start gap-2">
+                  <Calendar className="w-4 h-4" />
+                  Edit Event Details
+                </Button>
+              </Link>
+            )}
+            {permissions.editGuests && (
+              <Link href={`/dashboard/events/${eventId}/check-in`} className="block">
+                <Button variant="outline" className="w-full justify-start gap-2">
+                  <ScanLine className="w-4 h-4" />
+                  Door Check-in
+                </Button>
+              </Link>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,430 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { formatEventDateTimeShort } from '@/lib/timezone';
+import { formatAddressOneLine } from '@/lib/address-utils';
+import { CalendarRange, Edit, Loader2, Plus, Trash2 } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
+
+interface EventSession {
+  id: string;
+  name: string;
+  description: string | null;
+  locationName: string | null;
+  streetAddress1: string | null;
+  streetAddress2: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode: string | null;
+  date: Date;
+  endDate: Date | null;
+  capacity: number | null;
+  inviteAll: boolean;
+  invitedGuestIds: string[];
+  stats: { invited: number; attending: number; notAttending: number; pending: number };
+}
+
+interface EventSessionSectionProps {
+  eventId: string;
+  sessions: EventSession[];
+  guests: { id: string; name: string | null; email: string }[];
+  timezone?: string | null;
+  canEdit: boolean;
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  date: '',
+  time: '',
+  endTime: '',
+  locationName: '',
+  streetAddress1: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  capacity: '',
+  inviteAll: true,
+  guestIds: [] as string[],
+};
+
+export function EventSessionSection({ eventId, sessions, guests, timezone, canEdit }: EventSessionSectionProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const openDialog = (session?: EventSession) => {
+    if (session) {
+      const date = new Date(session.date);
+      setForm({
+        name: session.name,
+        description: session.description || '',
+        date: format(date, 'yyyy-MM-dd'),
+        time: format(date, 'HH:mm'),
+        endTime: session.endDate ? format(new Date(session.endDate), 'HH:mm') : '',
+        locationName: session.locationName || '',
+        streetAddress1: session.streetAddress1 || '',
+        city: session.city || '',
+        state: session.state || '',
+        zipCode: session.zipCode || '',
+        capacity: session.capacity?.toString() || '',
+        inviteAll: session.inviteAll,
+        guestIds: session.invitedGuestIds,
+      });
+    } else {
+      setForm(emptyForm);
+    }
+    setEditingId(session?.id ?? null);
+    setIsDialogOpen(true);
+  };
+
+  const toggleGuest = (guestId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      guestIds: checked ? [...prev.guestIds, guestId] : prev.guestIds.filter((id) => id !== guestId),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.date || !form.time) {
+      toast({
+        title: 'Missing details',
+        description: 'Give the session a name, date and start time.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const start = new Date(`${form.date}T${form.time}:00`);
+    // Sessions end on the day they start, or the next day if the end time is earlier
+    let end: Date | null = null;
+    if (form.endTime) {
+      end = new Date(`${form.date}T${form.endTime}:00`);
+      if (end < start) {
+        end.setDate(end.getDate() + 1);
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const body = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        date: start.toISOString(),
+        endDate: end ? end.toISOString() : null,
+        locationName: form.locationName || null,
+        streetAddress1: form.streetAddress1 || null,
+        city: form.city || null,
+        state: form.state || null,
+        zipCode: form.zipCode || null,
+        capacity: form.capacity ? parseInt(form.capacity) : null,
+        inviteAll: form.inviteAll,
+        guestIds: form.guestIds,
+      };
+
+      if (editingId) {
+        await requestApi('updateSession', { params: { id: eventId, sessionId: editingId }, body });
+      } else {
+        await requestApi('createSession', { params: { id: eventId }, body });
+      }
+
+      toast({
+        title: editingId ? 'Session updated' : 'Session added',
+        description: 'Invited guests can now RSVP to it.',
+      });
+
+      setIsDialogOpen(false);
+      router.refresh();
+    } catch (error) {
+      logger.error('Save session error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save session',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (session: EventSession) => {
+    if (!confirm(`Remove "${session.name}"? Guests' answers for this session will be deleted.`)) {
+      return;
+    }
+
+    setDeletingId(session.id);
+    try {
+      await requestApi('deleteSession', { params: { id: eventId, sessionId: session.id } });
+
+      toast({ title: 'Session removed' });
+      router.refresh();
+    } catch (error) {
+      logger.error('Delete session error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete session',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <CalendarRange className="w-5 h-5" />
+                Sessions
+              </CardTitle>
+              <CardDescription>
+                Parts of the event with their own time and place, each with its own RSVP
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button variant="outline" size="sm" onClick={() => openDialog()} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Add Session
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {sessions.length > 0 ? (
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-start justify-between gap-2 p-3 border rounded-lg bg-muted/50"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium truncate">{session.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatEventDateTimeShort(session.date, timezone)}
+                      {formatAddressOneLine(session) && ` · ${formatAddressOneLine(session)}`}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline" className="text-xs py-0">
+                        {session.inviteAll ? 'All guests' : `${session.stats.invited} invited`}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs py-0">
+                        {session.stats.attending}{session.capacity != null && ` / ${session.capacity}`} attending
+                      </Badge>
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(session)} aria-label={`Edit ${session.name}`}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(session)}
+                        disabled={deletingId === session.id}
+                        aria-label={`Remove ${session.name}`}
+                      >
+                        {deletingId === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No sessions. Split the event into a ceremony, reception, after-party and more.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Session' : 'Add Session'}</DialogTitle>
+            <DialogDescription>
+              Times are in your browser&apos;s timezone. Leave the location blank to use the event&apos;s.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="session-name">Name *</Label>
+              <Input
+                id="session-name"
+                placeholder="Reception"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-description">Description</Label>
+              <Textarea
+                id="session-description"
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="session-date">Date *</Label>
+                <Input
+                  id="session-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="session-time">Starts *</Label>
+                <Input
+                  id="session-time"
+                  type="time"
+                  value={form.time}
+                  onChange={(e) => setForm({ ...form, time: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="session-end-time">Ends</Label>
+                <Input
+                  id="session-end-time"
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-location">Venue</Label>
+              <Input
+                id="session-location"
+                placeholder="Garden Terrace"
+                value={form.locationName}
+                onChange={(e) => setForm({ ...form, locationName: e.target.value })}
+                disabled={isSaving}
+              />
+              <Input
+                placeholder="Street address"
+                value={form.streetAddress1}
+                onChange={(e) => setForm({ ...form, streetAddress1: e.target.value })}
+                disabled={isSaving}
+              />
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  placeholder="City"
+                  value={form.city}
+                  onChange={(e) => setForm({ ...form, city: e.target.value })}
+                  disabled={isSaving}
+                />
+                <Input
+                  placeholder="State"
+                  value={form.state}
+                  onChange={(e) => setForm({ ...form, state: e.target.value })}
+                  disabled={isSaving}
+                />
+                <Input
+                  placeholder="ZIP"
+                  value={form.zipCode}
+                  onChange={(e) => setForm({ ...form, zipCode: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-capacity">Capacity</Label>
+              <Input
+                id="session-capacity"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={form.capacity}
+                onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Who&apos;s invited</Label>
+              <RadioGroup
+                value={form.inviteAll ? 'all' : 'selected'}
+                onValueChange={(value) => setForm({ ...form, inviteAll: value === 'all' })}
+                disabled={isSaving}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="all" id="session-invite-all" />
+                  <Label htmlFor="session-invite-all" className="font-normal">Every guest, including public RSVPs</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="selected" id="session-invite-selected" />
+                  <Label htmlFor="session-invite-selected" className="font-normal">Only the guests I choose</Label>
+                </div>
+              </RadioGroup>
+              {!form.inviteAll && (
+                <div className="max-h-56 overflow-y-auto space-y-2 rounded-[3px] border border-border p-3">
+                  {guests.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Add guests to the event first.</p>
+                  ) : (
+                    guests.map((guest) => (
+                      <div key={guest.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`session-guest-${guest.id}`}
+                          checked={form.guestIds.includes(guest.id)}
+                          onCheckedChange={(checked) => toggleGuest(guest.id, checked === true)}
+                          disabled={isSaving}
+                        />
+                        <Label htmlFor={`session-guest-${guest.id}`} className="font-normal truncate">
+                          {guest.name || guest.email}
+                        </Label>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editingId ? 'Save Session' : 'Add Session'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -17,6 +17,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Loader2, RotateCcw, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 export function FactoryResetButton() {
   const { toast } = useToast();
@@ -43,15 +44,7 @@ export function FactoryResetButton() {
 
     setIsResetting(true);
     try {
-      const response = await fetch('/api/admin/factory-reset', {
-        method: 'POST',
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to reset to factory defaults');
-      }
+      await requestApi('factoryReset');
 
       toast({
         title: 'Factory Reset Complete',
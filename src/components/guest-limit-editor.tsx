@@ -9,6 +9,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Loader2, Edit, Save, X, Users, User } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { useRouter } from 'next/navigation';
+import { requestApi } from '@/lib/api-client';
 
 interface GuestLimitEditorProps {
   eventId: string;
@@ -30,20 +31,13 @@ export function GuestLimitEditor({ eventId, maxGuestsPerInvitee: initialMaxGuest
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      const response = await fetch(`/api/events/${eventId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await requestApi('updateEvent', {
+        params: { id: eventId },
+        body: {
           maxGuestsPerInvitee: unlimitedGuests ? null : maxGuestsPerInvitee,
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update guest limit');
-      }
-
       toast({
         title: 'Guest limit updated',
         description: unlimitedGuests 
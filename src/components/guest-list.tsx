@@ -6,12 +6,15 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Mail, Trash2, Send, Clock, Loader2, Phone, Edit, Users, CheckSquare, Square, Link2 } from 'lucide-react';
+import { Mail, Trash2, Send, Clock, Loader2, Phone, Edit, Users, CheckSquare, Square, Link2, Zap, CalendarCheck } from 'lucide-react';
+import { format } from 'date-fns';
 import { useToast } from '@/components/ui/use-toast';
 import { cn } from '@/lib/utils';
 import { EditGuestForm } from '@/components/edit-guest-form';
+import type { EventPermissions } from '@/lib/event-access';
 import { SendInvitationDialog } from '@/components/send-invitation-dialog';
 import { PerGuestLimitEditor } from '@/components/per-guest-limit-editor';
+import { RsvpAnswers, formatRsvpAnswer, parseRsvpAnswers, parseRsvpQuestions } from '@/lib/rsvp-questions';
 import {
   Select,
   SelectContent,
@@ -25,10 +28,13 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { requestApi } from '@/lib/api-client';
+import type { UpdateGuestInput } from '@/lib/schemas';
 
 interface AdditionalGuest {
   id: string;
   name: string;
+  rsvpAnswers?: string | null;
 }
 
 interface Guest {
@@ -37,12 +43,15 @@ interface Guest {
   phone: string | null;
   name: string | null;
   status: string;
+  waitlistedAt?: Date | null;
   notifyByEmail: boolean;
   notifyBySms: boolean;
   invitedAt: Date;
   respondedAt: Date | null;
-  reminderSentAt: Date | null;
+  respondedVia?: string | null;
+  reminderDeliveries: { sentAt: Date }[];
   dietaryNotes?: string | null;
+  rsvpAnswers?: string | null;
   additionalGuests?: AdditionalGuest[];
   maxGuests?: number | null;
   token: string;
@@ -53,7 +62,9 @@ interface GuestListProps {
   eventId: string;
   filterStatus?: string | null;
   globalMaxGuests?: number | null;
+  rsvpQuestions?: string | null;
   appUrl: string;
+  permissions: EventPermissions;
 }
 
 const statusConfig: Record<string, { label: string; className: string }> = {
@@ -61,17 +72,25 @@ const statusConfig: Record<string, { label: string; className: string }> = {
   ATTENDING: { label: 'Attending', className: 'bg-primary/15 text-primary' },
   NOT_ATTENDING: { label: 'Not Attending', className: 'bg-foreground/10 text-foreground' },
   MAYBE: { label: 'Maybe', className: 'bg-accent/15 text-accent' },
+  WAITLISTED: { label: 'Waitlisted', className: 'border border-dashed border-accent/50 bg-accent/[0.06] text-accent' },
 };
 
 function getStatusConfig(status: string) {
   return statusConfig[status] ?? { label: status, className: 'bg-muted text-muted-foreground' };
 }
 
-export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appUrl }: GuestListProps) {
+export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, rsvpQuestions, appUrl, permissions }: GuestListProps) {
   // Filter guests by status if filter is provided
   const filteredGuests = filterStatus
     ? guests.filter((guest) => guest.status === filterStatus)
     : guests;
+  // Place in line for each waitlisted guest, first come first served
+  const waitlistPositions = new Map(
+    guests
+      .filter((guest) => guest.status === 'WAITLISTED')
+      .sort((a, b) => new Date(a.waitlistedAt ?? 0).getTime() - new Date(b.waitlistedAt ?? 0).getTime())
+      .map((guest, index) => [guest.id, index + 1] as const)
+  );
   const router = useRouter();
   const { toast } = useToast();
   const [loadingStates, setLoadingStates] = useState<Record<string, string>>({});
@@ -81,6 +100,13 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
   const [isBulkLoading, setIsBulkLoading] = useState(false);
   const [editingLimitGuestId, setEditingLimitGuestId] = useState<string | null>(null);
   const [bulkSelectMode, setBulkSelectMode] = useState(false);
+  const questions = parseRsvpQuestions(rsvpQuestions);
+
+  // "Question: answer" lines for the questions a guest has answered
+  const describeAnswers = (answers: RsvpAnswers) =>
+    questions
+      .filter((question) => answers[question.id] !== undefined)
+      .map((question) => `${question.label}: ${formatRsvpAnswer(answers[question.id])}`);
 
   const setLoading = (guestId: string, action: string) => {
     setLoadingStates((prev) => ({ ...prev, [guestId]: action }));
@@ -118,13 +144,7 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
   const sendReminder = async (guestId: string) => {
     setLoading(guestId, 'remind');
     try {
-      const response = await fetch(`/api/events/${eventId}/guests/${guestId}/remind`, {
-        method: 'POST',
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to send reminder');
-      }
+      await requestApi('sendGuestReminder', { params: { id: eventId, guestId } });
 
       toast({
         title: 'Reminder sent!',
@@ -146,13 +166,7 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
 
     setLoading(guestId, 'delete');
     try {
-      const response = await fetch(`/api/events/${eventId}/guests/${guestId}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to remove guest');
-      }
+      await requestApi('removeEventGuest', { params: { id: eventId, guestId } });
 
       toast({
         title: 'Guest removed',
@@ -191,7 +205,7 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
     setSelectedGuests(newSelected);
   };
 
-  const handleBulkAction = async (action: 'invite' | 'remind' | 'delete' | 'changeStatus', status?: string) => {
+  const handleBulkAction = async (action: 'invite' | 'remind' | 'delete' | 'changeStatus', status?: UpdateGuestInput['status']) => {
     if (selectedGuests.size === 0) return;
 
     if (action === 'delete' && !confirm(`Are you sure you want to delete ${selectedGuests.size} guest(s)?`)) {
@@ -200,22 +214,15 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
 
     setIsBulkLoading(true);
     try {
-      const response = await fetch(`/api/events/${eventId}/guests/bulk`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const result = await requestApi('bulkUpdateGuests', {
+        params: { id: eventId },
+        body: {
           action,
           guestIds: Array.from(selectedGuests),
           ...(status && { status }),
-        }),
+        },
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to process bulk operation');
-      }
-
-      const result = await response.json();
-
       if (result.failedCount > 0) {
         toast({
           title: 'Bulk operation completed with errors',
@@ -280,7 +287,7 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
     <TooltipProvider delayDuration={100}>
       <div className="space-y-4">
       {/* Bulk Select Toggle */}
-      {filteredGuests.length > 0 && (
+      {filteredGuests.length > 0 && permissions.editGuests && (
         <div className="flex items-center justify-start">
           <Button
             variant="outline"
@@ -313,26 +320,30 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
             </span>
           </div>
           <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handleBulkAction('invite')}
-              disabled={isBulkLoading}
-            >
-              <Send className="w-4 h-4 mr-2" />
-              Send Invitations
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handleBulkAction('remind')}
-              disabled={isBulkLoading}
-            >
-              <Clock className="w-4 h-4 mr-2" />
-              Send Reminders
-            </Button>
+            {permissions.sendMessages && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleBulkAction('invite')}
+                  disabled={isBulkLoading}
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  Send Invitations
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleBulkAction('remind')}
+                  disabled={isBulkLoading}
+                >
+                  <Clock className="w-4 h-4 mr-2" />
+                  Send Reminders
+                </Button>
+              </>
+            )}
             <Select
-              onValueChange={(value) => handleBulkAction('changeStatus', value)}
+              onValueChange={(value) => handleBulkAction('changeStatus', value as UpdateGuestInput['status'])}
               disabled={isBulkLoading}
             >
               <SelectTrigger className="w-[140px]">
@@ -343,6 +354,7 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
                 <SelectItem value="NOT_ATTENDING">Not Attending</SelectItem>
                 <SelectItem value="MAYBE">Maybe</SelectItem>
                 <SelectItem value="PENDING">Pending</SelectItem>
+                <SelectItem value="WAITLISTED">Waitlisted</SelectItem>
               </SelectContent>
             </Select>
             <Button
@@ -417,12 +429,25 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
                   <div className="text-sm text-muted-foreground mt-1">
                     <p className="font-medium mb-1">Additional Guests:</p>
                     <ul className="list-disc list-inside space-y-0.5">
-                      {guest.additionalGuests.map((ag) => (
-                        <li key={ag.id}>{ag.name}</li>
-                      ))}
+                      {guest.additionalGuests.map((ag) => {
+                        const answers = describeAnswers(parseRsvpAnswers(ag.rsvpAnswers));
+                        return (
+                          <li key={ag.id}>
+                            {ag.name}
+                            {answers.length > 0 && ` (${answers.join('; ')})`}
+                          </li>
+                        );
+                      })}
                     </ul>
                   </div>
                 )}
+                {describeAnswers(parseRsvpAnswers(guest.rsvpAnswers)).length > 0 && (
+                  <ul className="text-sm text-muted-foreground mt-1 space-y-0.5">
+                    {describeAnswers(parseRsvpAnswers(guest.rsvpAnswers)).map((answer) => (
+                      <li key={answer}>{answer}</li>
+                    ))}
+                  </ul>
+                )}
                 {guest.maxGuests !== null && guest.maxGuests !== undefined && (
                   <div className="text-xs mt-1">
                     <Badge variant="outline" className="text-xs py-0">
@@ -443,50 +468,82 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
                       SMS
                     </Badge>
                   )}
+                  {/* Answered with a one-click email button - worth a look if lots arrive right after a send */}
+                  {guest.respondedVia === 'QUICK_LINK' && guest.respondedAt && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Badge variant="outline" className="text-xs py-0">
+                          <Zap className="w-3 h-3 mr-1" />
+                          Quick link
+                        </Badge>
+                      </TooltipTrigger>
+                      <TooltipContent side="top">
+                        Answered from a one-click email button on {format(new Date(guest.respondedAt), 'MMM d, h:mm a')}
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+                  {guest.respondedVia === 'CALENDAR' && guest.respondedAt && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Badge variant="outline" className="text-xs py-0">
+                          <CalendarCheck className="w-3 h-3 mr-1" />
+                          Calendar
+                        </Badge>
+                      </TooltipTrigger>
+                      <TooltipContent side="top">
+                        Answered from the calendar invite on {format(new Date(guest.respondedAt), 'MMM d, h:mm a')}
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
                 </div>
               </div>
             </div>
             <div className="flex items-center gap-2 shrink-0">
               <Badge className={cn('shrink-0 w-[110px] justify-center text-center', getStatusConfig(guest.status).className)} variant="secondary">
                 {getStatusConfig(guest.status).label}
+                {guest.status === 'WAITLISTED' && waitlistPositions.has(guest.id) && ` #${waitlistPositions.get(guest.id)}`}
               </Badge>
               <div className="flex gap-1">
                 {/* Send Invitation / Resend Link button - available for all guests */}
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => openInviteDialog(guest)}
-                      disabled={isLoading}
-                      data-testid={`guest-send-invite-${guest.email}`}
-                    >
-                      <Send className="w-4 h-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" className="text-base font-medium">
-                    <p>{guest.status === 'PENDING' ? 'Send Invitation' : 'Resend Invite Link'}</p>
-                  </TooltipContent>
-                </Tooltip>
-                {/* Copy RSVP Link button */}
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => copyRsvpLink(guest.token)}
-                      disabled={isLoading}
-                      data-testid={`guest-copy-link-${guest.email}`}
-                    >
-                      <Link2 className="w-4 h-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" className="text-base font-medium">
-                    <p>Copy RSVP Link</p>
-                  </TooltipContent>
-                </Tooltip>
+                {permissions.sendMessages && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openInviteDialog(guest)}
+                        disabled={isLoading}
+                        data-testid={`guest-send-invite-${guest.email}`}
+                      >
+                        <Send className="w-4 h-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="top" className="text-base font-medium">
+                      <p>{guest.status === 'PENDING' ? 'Send Invitation' : 'Resend Invite Link'}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
+                {/* Copy RSVP Link button - the link lets whoever has it change the RSVP */}
+                {permissions.editGuests && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => copyRsvpLink(guest.token)}
+                        disabled={isLoading}
+                        data-testid={`guest-copy-link-${guest.email}`}
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="top" className="text-base font-medium">
+                      <p>Copy RSVP Link</p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
                 {/* Send Reminder button - only for PENDING guests who haven't received a reminder */}
-                {guest.status === 'PENDING' && guest.reminderSentAt === null && (
+                {permissions.sendMessages && guest.status === 'PENDING' && guest.reminderDeliveries.length === 0 && (
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
@@ -507,57 +564,61 @@ export function GuestList({ guests, eventId, filterStatus, globalMaxGuests, appU
                     </TooltipContent>
                   </Tooltip>
                 )}
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => setEditingLimitGuestId(guest.id)}
-                      disabled={isLoading}
-                    >
-                      <Users className="w-4 h-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" className="text-base font-medium">
-                    <p>Edit Guest Limit</p>
-                  </TooltipContent>
-                </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => setEditingGuestId(guest.id)}
-                      disabled={isLoading}
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" className="text-base font-medium">
-                    <p>Edit Guest</p>
-                  </TooltipContent>
-                </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => deleteGuest(guest.id)}
-                      disabled={isLoading}
-                      className="text-destructive hover:text-destructive"
-                      data-testid={`guest-delete-${guest.email}`}
-                    >
-                      {loadingAction === 'delete' ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Trash2 className="w-4 h-4" />
-                      )}
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" className="text-base font-medium">
-                    <p>Remove Guest</p>
-                  </TooltipContent>
-                </Tooltip>
+                {permissions.editGuests && (
+                  <>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditingLimitGuestId(guest.id)}
+                          disabled={isLoading}
+                        >
+                          <Users className="w-4 h-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" className="text-base font-medium">
+                        <p>Edit Guest Limit</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditingGuestId(guest.id)}
+                          disabled={isLoading}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" className="text-base font-medium">
+                        <p>Edit Guest</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteGuest(guest.id)}
+                          disabled={isLoading}
+                          className="text-destructive hover:text-destructive"
+                          data-testid={`guest-delete-${guest.email}`}
+                        >
+                          {loadingAction === 'delete' ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" className="text-base font-medium">
+                        <p>Remove Guest</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </>
+                )}
               </div>
             </div>
           </div>
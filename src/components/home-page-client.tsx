@@ -13,6 +13,7 @@ import { Calendar, Mail, Users, CalendarHeart, ArrowRight, Check, Loader2 } from
 import { PublicNav } from '@/components/public-nav';
 import { useToast } from '@/components/ui/use-toast';
 import { logger } from '@/lib/logger';
+import { requestApi } from '@/lib/api-client';
 
 function HomePageContent() {
   const router = useRouter();
@@ -29,8 +30,7 @@ function HomePageContent() {
   useEffect(() => {
     async function checkSetup() {
       try {
-        const res = await fetch('/api/auth/public-register');
-        const data = await res.json();
+        const data = await requestApi('getRegistrationStatus');
         if (data.registrationEnabled) {
           // No users exist - redirect to registration
           router.replace('/register');
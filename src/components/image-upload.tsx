@@ -7,10 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Image as ImageIcon, X, Upload, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import imageCompression from 'browser-image-compression';
+import { getImageUrl, MEDIA_VARIANT_SIZES, MEDIA_VARIANTS, MediaVariant } from '@/lib/media-variants';
+import { requestApi } from '@/lib/api-client';
 
 interface ImageUploadProps {
   value?: string | null;
-  onChange: (base64: string | null) => void;
+  onChange: (url: string | null) => void;
   disabled?: boolean;
   label?: string;
   description?: string;
@@ -38,57 +40,42 @@ export function ImageUpload({
     }
 
     setIsCompressing(true);
-    setCompressionStatus('Compressing image...');
+    setCompressionStatus('Resizing image...');
 
+    let files: Partial<Record<MediaVariant, File>> = {};
     try {
-      const originalSize = file.size;
-      const originalSizeMB = (originalSize / (1024 * 1024)).toFixed(2);
-
-      // Compression options
-      const options = {
-        maxSizeMB: 5, // Target 5MB
-        maxWidthOrHeight: 2000, // Max dimensions
-        useWebWorker: true,
-        // Preserve PNG if original is PNG (for transparency), otherwise use JPEG for better compression
-        fileType: file.type === 'image/png' ? 'image/png' : 'image/jpeg',
-        initialQuality: 0.85, // Good balance between quality and size
-      };
-
-      // Compress the image
-      const compressedFile = await imageCompression(file, options);
-      const compressedSize = compressedFile.size;
-      const compressedSizeMB = (compressedSize / (1024 * 1024)).toFixed(2);
-      const reduction = ((1 - compressedSize / originalSize) * 100).toFixed(1);
-
-      setCompressionStatus(
-        `Compressed from ${originalSizeMB}MB to ${compressedSizeMB}MB (${reduction}% reduction)`
-      );
-
-      // Convert compressed image to base64
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        setPreview(base64String);
-        onChange(base64String);
-        setIsCompressing(false);
-        // Clear status message after a short delay
-        setTimeout(() => setCompressionStatus(null), 3000);
-      };
-      reader.readAsDataURL(compressedFile);
+      // Make each size the site and emails use, largest first
+      for (const variant of MEDIA_VARIANTS) {
+        const resized = await imageCompression(file, {
+          maxSizeMB: variant === 'original' ? 5 : 1,
+          maxWidthOrHeight: MEDIA_VARIANT_SIZES[variant],
+          useWebWorker: true,
+          // Preserve PNG if original is PNG (for transparency), otherwise use JPEG for better compression
+          fileType: file.type === 'image/png' ? 'image/png' : 'image/jpeg',
+          initialQuality: 0.85, // Good balance between quality and size
+        });
+        files[variant] = resized;
+      }
     } catch (error) {
       logger.error('Image compression error:', error);
+      // Fall back to uploading the original file; the other sizes are served from it
+      files = { original: file };
+    }
+
+    try {
+      setCompressionStatus('Uploading image...');
+      const data = await requestApi('uploadImage', { body: { ...files, original: files.original || file } });
+
+      setPreview(data.url);
+      onChange(data.url);
+      setCompressionStatus('Image uploaded');
+    } catch (error) {
+      logger.error('Image upload error:', error);
+      setCompressionStatus(error instanceof Error ? error.message : 'Failed to upload image');
+    } finally {
       setIsCompressing(false);
-      setCompressionStatus('Compression failed, using original image');
-      
-      // Fallback to original file if compression fails
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        setPreview(base64String);
-        onChange(base64String);
-        setTimeout(() => setCompressionStatus(null), 3000);
-      };
-      reader.readAsDataURL(file);
+      // Clear status message after a short delay
+      setTimeout(() => setCompressionStatus(null), 3000);
     }
   };
 
@@ -149,7 +136,7 @@ export function ImageUpload({
         <div className="relative group">
           <div className="relative w-full h-64 rounded-[3px] overflow-hidden border-2 border-dashed border-border bg-muted">
             <img
-              src={preview}
+              src={getImageUrl(preview, 'card')}
               alt="Event preview"
               className="w-full h-full object-contain"
             />
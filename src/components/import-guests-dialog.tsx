@@ -22,6 +22,7 @@ import {
 } from '@/components/ui/table';
 import { useToast } from '@/components/ui/use-toast';
 import { Upload, Loader2, FileSpreadsheet, Download, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
 
 interface ParsedGuest {
   email: string;
@@ -141,24 +142,17 @@ export function ImportGuestsDialog({ open, onOpenChange, eventId }: ImportGuests
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}/guests/import`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await requestApi('importGuests', {
+        params: { id: eventId },
+        body: {
           guests: validGuests.map((g) => ({
             email: g.email,
             name: g.name,
             phone: g.phone,
           })),
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to import');
-      }
-
       setImportResults(data.results);
 
       toast({
@@ -25,6 +25,7 @@ import {
 } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
 import { Users, Plus, Trash2, Loader2, Shield, Eye } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
 
 interface CoHost {
   id: string;
@@ -57,18 +58,11 @@ export function ManageCoHosts({ eventId, coHosts: initialCoHosts, isHost }: Mana
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}/cohosts`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, role }),
+      const data = await requestApi('addCoHost', {
+        params: { id: eventId },
+        body: { email, role },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to add co-host');
-      }
-
       setCoHosts([...coHosts, data.coHost]);
       setEmail('');
       setRole('COHOST');
@@ -95,13 +89,7 @@ export function ManageCoHosts({ eventId, coHosts: initialCoHosts, isHost }: Mana
     setDeletingId(cohostId);
 
     try {
-      const response = await fetch(`/api/events/${eventId}/cohosts/${cohostId}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to remove co-host');
-      }
+      await requestApi('removeCoHost', { params: { id: eventId, cohostId } });
 
       setCoHosts(coHosts.filter((ch) => ch.id !== cohostId));
 
@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, Mail, ExternalLink } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 interface ManageRsvpProps {
   eventId: string;
@@ -24,17 +25,7 @@ export function ManageRsvp({ eventId, guestEmail, rsvpToken }: ManageRsvpProps)
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/rsvp/send-edit-link', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, eventId }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send edit link');
-      }
+      await requestApi('sendRsvpEditLink', { body: { email, eventId } });
 
       toast({
         title: 'Edit link sent!',
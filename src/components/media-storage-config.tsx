@@ -0,0 +1,99 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, Image as ImageIcon } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
+
+export function MediaStorageConfig() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [mediaDir, setMediaDir] = useState<string | null>(null);
+  const [inlineCoverImages, setInlineCoverImages] = useState(0);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  async function loadStatus() {
+    setIsLoading(true);
+    try {
+      const data = await requestApi('getMediaStorage');
+      setMediaDir(data.mediaDir);
+      setInlineCoverImages(data.inlineCoverImages);
+    } catch (error) {
+      logger.error('Failed to load media storage status:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleMigrate() {
+    setIsMigrating(true);
+    try {
+      const data = await requestApi('migrateCoverImages');
+
+      setInlineCoverImages(data.inlineCoverImages);
+      toast({
+        title: 'Cover images moved',
+        description: data.failed
+          ? `${data.migrated} moved. ${data.failed} couldn't be read and were left as they were.`
+          : `${data.migrated} cover image${data.migrated === 1 ? '' : 's'} moved to the media store.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to move cover images',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsMigrating(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {mediaDir && (
+        <p className="text-sm text-muted-foreground">
+          Uploaded images are stored in <code className="text-foreground">{mediaDir}</code>. Set{' '}
+          <code className="text-foreground">MEDIA_DIR</code> to keep them somewhere else, such as a separate volume.
+        </p>
+      )}
+
+      {inlineCoverImages > 0 ? (
+        <div className="space-y-3">
+          <p className="text-sm">
+            {inlineCoverImages} event{inlineCoverImages === 1 ? ' has its' : 's have their'} cover image saved
+            in the database from before images were stored as files, which slows down event lists and emails.
+          </p>
+          <Button onClick={handleMigrate} disabled={isMigrating}>
+            {isMigrating ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Moving images...
+              </>
+            ) : (
+              <>
+                <ImageIcon className="w-4 h-4 mr-2" />
+                Move to Media Store
+              </>
+            )}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">All cover images are stored as files.</p>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import { Loader2, Trash2, Users } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { formatEventDateTimeShort } from '@/lib/timezone';
 import { EventCardActions } from '@/components/event-card-actions';
+import { getImageUrl } from '@/lib/media-variants';
+import { requestApi } from '@/lib/api-client';
 
 interface PastEvent {
   id: string;
@@ -99,20 +101,12 @@ export function PastEventsBulkActions({ events: initialEvents, isAdmin = false }
     setIsBulkDeleting(true);
 
     try {
-      const response = await fetch('/api/events/bulk-delete', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await requestApi('bulkDeleteEvents', {
+        body: {
           eventIds: Array.from(selectedEvents),
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to delete events');
-      }
-
       if (data.failedCount > 0) {
         toast({
           title: 'Partial success',
@@ -219,7 +213,7 @@ export function PastEventsBulkActions({ events: initialEvents, isAdmin = false }
                 {event.coverImage && (
                   <div className="w-full h-40 overflow-hidden">
                     <img
-                      src={event.coverImage}
+                      src={getImageUrl(event.coverImage, 'thumb')}
                       alt={event.title}
                       className="w-full h-full object-contain"
                     />
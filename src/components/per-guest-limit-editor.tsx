@@ -16,6 +16,7 @@ import {
 import { Loader2, Save, X } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { useRouter } from 'next/navigation';
+import { requestApi } from '@/lib/api-client';
 
 interface PerGuestLimitEditorProps {
   eventId: string;
@@ -65,20 +66,13 @@ export function PerGuestLimitEditor({
         valueToSave = maxGuests || null;
       }
 
-      const response = await fetch(`/api/events/${eventId}/guests/${guestId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await requestApi('updateEventGuest', {
+        params: { id: eventId, guestId },
+        body: {
           maxGuests: valueToSave,
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update guest limit');
-      }
-
       toast({
         title: 'Guest limit updated',
         description: useGlobal
@@ -7,16 +7,22 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Loader2, Send } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { getChallengeSolution } from '@/lib/challenge-solver';
+import { requestApi } from '@/lib/api-client';
 
 interface PublicCommentFormProps {
   eventId: string;
+  // The guest's RSVP token, so their message is linked to their RSVP
+  token?: string;
+  defaultName?: string;
+  spamProtection?: boolean; // Solve a proof-of-work spam check before posting
 }
 
-export function PublicCommentForm({ eventId }: PublicCommentFormProps) {
+export function PublicCommentForm({ eventId, token, defaultName, spamProtection = false }: PublicCommentFormProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
-  const [name, setName] = useState('');
+  const [name, setName] = useState(defaultName || '');
   const [content, setContent] = useState('');
 
   async function handleSubmit(e: React.FormEvent) {
@@ -24,24 +30,21 @@ export function PublicCommentForm({ eventId }: PublicCommentFormProps) {
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/comments', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ eventId, authorName: name, content }),
-      });
-
-      const data = await response.json();
+      // Guests with their RSVP link don't need the spam check
+      const challenge = spamProtection && !token ? await getChallengeSolution() : undefined;
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to post comment');
-      }
+      const data = await requestApi('postComment', {
+        body: { eventId, authorName: name, content, token, challenge },
+      });
 
       toast({
-        title: 'Comment posted!',
-        description: 'Your message has been added to the guest wall.',
+        title: data.pendingModeration ? 'Message sent for review' : 'Comment posted!',
+        description: data.pendingModeration
+          ? 'Your message will appear on the guest wall once the host approves it.'
+          : 'Your message has been added to the guest wall.',
       });
 
-      setName('');
+      setName(defaultName || '');
       setContent('');
 
       // Refresh to show new comment
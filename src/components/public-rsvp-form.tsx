@@ -5,15 +5,26 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Loader2, Check, X, HelpCircle, Plus, Trash2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { validateGuestLimit } from '@/lib/rsvp-validation';
+import { RsvpAnswers, RsvpQuestion, validateRsvpSubmission } from '@/lib/rsvp-questions';
+import { RsvpQuestionFields } from '@/components/rsvp-question-fields';
+import { RsvpSession, SessionRsvpFields, getInitialSessionChoices, getSessionResponses } from '@/components/session-rsvp-fields';
 import { cn } from '@/lib/utils';
+import { getChallengeSolution } from '@/lib/challenge-solver';
+import type { EmbedRsvp } from '@/lib/embed';
+import { requestApi } from '@/lib/api-client';
 
 interface PublicRsvpFormProps {
   eventId: string;
   slug: string;
   maxGuestsPerInvitee?: number | null;
+  questions?: RsvpQuestion[];
+  laterDates?: number; // Later occurrences of a recurring event that the guest can answer for too
+  sessions?: RsvpSession[]; // Sessions of the event the guest is invited to
+  timezone?: string | null;
   prefillData?: {
     name: string | null;
     email: string;
@@ -21,13 +32,22 @@ interface PublicRsvpFormProps {
     dietaryNotes: string | null;
     token?: string;
   } | null;
+  spamProtection?: boolean; // Solve a proof-of-work spam check before submitting
+  onRsvp?: (rsvp: EmbedRsvp) => void; // Called once the RSVP is recorded, instead of going to the event page
 }
 
-export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData }: PublicRsvpFormProps) {
+export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, questions = [], laterDates = 0, sessions = [], timezone, prefillData, spamProtection = false, onRsvp }: PublicRsvpFormProps) {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
-  const [selectedStatus, setSelectedStatus] = useState<string | null>(null);
+  const [waitlisted, setWaitlisted] = useState(false);
+  const [pendingApproval, setPendingApproval] = useState(false);
+  // Set when the email is already on the guest list and we've emailed a code to confirm the change
+  const [verificationRequired, setVerificationRequired] = useState(false);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<'ATTENDING' | 'NOT_ATTENDING' | 'MAYBE' | null>(null);
+  const [applyToSeries, setApplyToSeries] = useState(false);
+  const [sessionChoices, setSessionChoices] = useState(() => getInitialSessionChoices(sessions));
 
   // Check if email came from a token-based prefill (should be read-only)
   const isEmailFromToken = Boolean(prefillData?.token && prefillData?.email);
@@ -38,8 +58,12 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
     phone: prefillData?.phone || '',
     additionalGuests: [] as string[], // Array of additional guest names
     dietaryNotes: prefillData?.dietaryNotes || '',
+    answers: {} as RsvpAnswers,
+    additionalGuestAnswers: [] as RsvpAnswers[], // Per-attendee answers, one entry per additional guest
   });
 
+  const hasAttendeeQuestions = questions.some((q) => q.scope === 'attendee');
+
   // Calculate guest limit validation
   const guestLimitValidation = useMemo(() => {
     if (selectedStatus !== 'ATTENDING') {
@@ -52,6 +76,11 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
+    // A code only confirms changes for the address it was sent to
+    if (name === 'email') {
+      setVerificationRequired(false);
+      setVerificationCode('');
+    }
     setFormData({
       ...formData,
       [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value,
@@ -60,6 +89,10 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
+    await submitRsvp(verificationRequired ? verificationCode : undefined);
+  }
+
+  async function submitRsvp(code?: string) {
     if (!selectedStatus) {
       toast({
         title: 'Please select your response',
@@ -80,35 +113,94 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
         });
         return;
       }
+
+      const questionValidation = validateRsvpSubmission(questions, {
+        name: formData.name,
+        answers: formData.answers,
+        additionalGuests: formData.additionalGuests
+          .map((guestName, index) => ({ name: guestName.trim(), answers: formData.additionalGuestAnswers[index] }))
+          .filter((g) => g.name.length > 0),
+      });
+      if (!questionValidation.valid) {
+        toast({
+          title: 'Please answer all required questions',
+          description: questionValidation.error,
+          variant: 'destructive',
+        });
+        return;
+      }
     }
 
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/rsvp', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      // Guests with their RSVP link don't need the spam check
+      const challenge = spamProtection && !prefillData?.token ? await getChallengeSolution() : undefined;
+
+      const data = await requestApi('submitRsvp', {
+        body: {
           eventId,
           ...formData,
           status: selectedStatus,
-        }),
+          applyToSeries: laterDates > 0 && applyToSeries,
+          sessions: getSessionResponses(sessions, sessionChoices, selectedStatus),
+          token: prefillData?.token,
+          verificationCode: code,
+          challenge,
+        },
       });
 
-      const data = await response.json();
+      // The email is already on the guest list - nothing changes until they enter the code we sent
+      if ('verificationRequired' in data) {
+        setVerificationRequired(true);
+        setVerificationCode('');
+        toast({
+          title: 'Check your email',
+          description: `We've sent a code to ${formData.email}. Enter it below to confirm your RSVP.`,
+        });
+        return;
+      }
+
+      const recorded = {
+        status: selectedStatus as EmbedRsvp['status'],
+        partySize: selectedStatus === 'ATTENDING'
+          ? 1 + formData.additionalGuests.filter((guestName) => guestName.trim().length > 0).length
+          : 0,
+      };
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to submit RSVP');
+      // Events that require approval hold new RSVPs for the host; there's nothing to edit yet
+      if ('pendingApproval' in data) {
+        onRsvp?.({ ...recorded, waitlisted: false, pendingApproval: true });
+        setPendingApproval(true);
+        setSubmitted(true);
+        toast({
+          title: 'RSVP sent for approval',
+          description: "The host will review your RSVP and email you once it's approved.",
+        });
+        return;
       }
 
-      toast({
-        title: 'RSVP Submitted!',
-        description: 'Your response has been recorded.',
-      });
+      if (data.guest.status === 'WAITLISTED') {
+        setWaitlisted(true);
+        toast({
+          title: "You're on the waitlist",
+          description: "The event is full. We'll email you if a spot opens up.",
+        });
+      } else {
+        toast({
+          title: 'RSVP Submitted!',
+          description: data.seriesUpdated
+            ? `Your response has been recorded for this date and ${data.seriesUpdated} later date${data.seriesUpdated !== 1 ? 's' : ''}.`
+            : 'Your response has been recorded.',
+        });
+      }
 
-      // Redirect to event page with email parameter so they can see edit button
-      if (slug) {
-        window.location.href = `/events/${slug}?email=${encodeURIComponent(formData.email)}`;
+      if (onRsvp) {
+        onRsvp({ ...recorded, waitlisted: data.guest.status === 'WAITLISTED', pendingApproval: false });
+        setSubmitted(true);
+      } else if (slug && data.guest.token) {
+        // Redirect to event page with their RSVP token so they can see the edit button
+        window.location.href = `/events/${slug}?token=${encodeURIComponent(data.guest.token)}`;
       } else {
         setSubmitted(true);
       }
@@ -132,7 +224,11 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
         </div>
         <h3 className="text-lg font-semibold mb-2">Thanks for responding!</h3>
         <p className="text-muted-foreground">
-          {selectedStatus === 'ATTENDING'
+          {pendingApproval
+            ? "The host will review your RSVP and email you once it's approved."
+            : waitlisted
+            ? "The event is full, so you're on the waitlist. We'll email you if a spot opens up."
+            : selectedStatus === 'ATTENDING'
             ? "We're excited to see you there!"
             : selectedStatus === 'MAYBE'
             ? 'We hope you can make it!'
@@ -266,6 +362,17 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
 
       {selectedStatus === 'ATTENDING' && (
         <>
+          {/* Sessions */}
+          {sessions.length > 0 && (
+            <SessionRsvpFields
+              sessions={sessions}
+              timezone={timezone}
+              attending={sessionChoices}
+              onChange={setSessionChoices}
+              disabled={isLoading}
+            />
+          )}
+
           {/* Additional Guests */}
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -301,7 +408,8 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
                   size="icon"
                   onClick={() => {
                     const newGuests = formData.additionalGuests.filter((_, i) => i !== index);
-                    setFormData({ ...formData, additionalGuests: newGuests });
+                    const newAnswers = formData.additionalGuestAnswers.filter((_, i) => i !== index);
+                    setFormData({ ...formData, additionalGuests: newGuests, additionalGuestAnswers: newAnswers });
                   }}
                   disabled={isLoading}
                   data-testid={`rsvp-remove-guest-${index}`}
@@ -317,6 +425,7 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
                 setFormData({
                   ...formData,
                   additionalGuests: [...formData.additionalGuests, ''],
+                  additionalGuestAnswers: [...formData.additionalGuestAnswers, {}],
                 });
               }}
               disabled={isLoading || !canAddMoreGuests}
@@ -347,12 +456,106 @@ export function PublicRsvpForm({ eventId, slug, maxGuestsPerInvitee, prefillData
               data-testid="rsvp-dietary-input"
             />
           </div>
+
+          {/* Custom Questions */}
+          {questions.length > 0 && (
+            <div className="space-y-4">
+              <RsvpQuestionFields
+                questions={questions}
+                scope="party"
+                answers={formData.answers}
+                onChange={(answers) => setFormData({ ...formData, answers })}
+                idPrefix="party"
+                disabled={isLoading}
+              />
+              {hasAttendeeQuestions && (
+                <>
+                  <div className="space-y-4 rounded-[3px] border border-border p-4">
+                    <p className="font-medium">{formData.name || 'You'}</p>
+                    <RsvpQuestionFields
+                      questions={questions}
+                      scope="attendee"
+                      answers={formData.answers}
+                      onChange={(answers) => setFormData({ ...formData, answers })}
+                      idPrefix="invitee"
+                      disabled={isLoading}
+                    />
+                  </div>
+                  {formData.additionalGuests.map((guestName, index) => (
+                    <div key={index} className="space-y-4 rounded-[3px] border border-border p-4">
+                      <p className="font-medium">{guestName || `Guest ${index + 1}`}</p>
+                      <RsvpQuestionFields
+                        questions={questions}
+                        scope="attendee"
+                        answers={formData.additionalGuestAnswers[index] || {}}
+                        onChange={(answers) => {
+                          const newAnswers = [...formData.additionalGuestAnswers];
+                          newAnswers[index] = answers;
+                          setFormData({ ...formData, additionalGuestAnswers: newAnswers });
+                        }}
+                        idPrefix={`guest-${index}`}
+                        disabled={isLoading}
+                      />
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
         </>
       )}
 
+      {laterDates > 0 && (
+        <div className="flex items-start gap-3 rounded-[3px] border border-border p-4">
+          <Checkbox
+            id="applyToSeries"
+            checked={applyToSeries}
+            onCheckedChange={(checked) => setApplyToSeries(!!checked)}
+            disabled={isLoading}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="applyToSeries" className="cursor-pointer font-medium">
+              Use this answer for all {laterDates} later date{laterDates !== 1 ? 's' : ''}
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              This event repeats. Leave unchecked to RSVP for this date only.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {verificationRequired && (
+        <div className="space-y-2 rounded-[3px] border border-primary/30 p-4">
+          <Label htmlFor="verificationCode">Confirmation code *</Label>
+          <p className="text-sm text-muted-foreground">
+            {formData.email} already has an RSVP. Enter the 6-digit code we emailed to that address to confirm your changes.
+          </p>
+          <Input
+            id="verificationCode"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            maxLength={6}
+            value={verificationCode}
+            onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, ''))}
+            required
+            disabled={isLoading}
+          />
+          <Button
+            type="button"
+            variant="link"
+            className="h-auto p-0 text-sm"
+            onClick={() => submitRsvp()}
+            disabled={isLoading}
+          >
+            Send a new code
+          </Button>
+        </div>
+      )}
+
       <Button type="submit" className="w-full" size="lg" disabled={isLoading || !selectedStatus} data-testid="rsvp-submit-button">
         {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-        Submit RSVP
+        {verificationRequired ? 'Confirm RSVP' : 'Submit RSVP'}
       </Button>
     </form>
   );
@@ -0,0 +1,174 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import type { RateLimitAction, RateLimitConfig as RateLimitConfigData } from '@/lib/config';
+import { requestApi } from '@/lib/api-client';
+
+const ACTION_LABELS: { action: RateLimitAction; label: string; description: string }[] = [
+  { action: 'rsvp', label: 'RSVPs', description: 'Public RSVP form submissions' },
+  { action: 'comment', label: 'Guest wall messages', description: 'Messages posted by guests' },
+  { action: 'editLink', label: 'RSVP link emails', description: '"Send me my RSVP link" requests' },
+  { action: 'passwordReset', label: 'Password resets', description: 'Forgot password emails' },
+  { action: 'login', label: 'Sign-in attempts', description: 'Email or username and password logins' },
+];
+
+export function RateLimitConfig() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [config, setConfig] = useState<RateLimitConfigData | null>(null);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  async function loadConfig() {
+    setIsLoading(true);
+    try {
+      const data = await requestApi('getRateLimitConfig');
+      setConfig({ enabled: data.enabled, store: data.store, rules: data.rules });
+    } catch (error) {
+      logger.error('Failed to load rate limit config:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function updateRule(action: RateLimitAction, field: 'limit' | 'windowMinutes', value: string) {
+    if (!config) return;
+    setConfig({
+      ...config,
+      rules: {
+        ...config.rules,
+        [action]: { ...config.rules[action], [field]: parseInt(value) || 0 },
+      },
+    });
+  }
+
+  async function handleSave() {
+    if (!config) return;
+
+    setIsSaving(true);
+    try {
+      const data = await requestApi('updateRateLimitConfig', { body: config });
+
+      setConfig({ enabled: data.enabled, store: data.store, rules: data.rules });
+      toast({
+        title: 'Rate limits saved!',
+        description: 'New limits apply to the next request.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (isLoading || !config) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="rate-limit-enabled"
+          checked={config.enabled}
+          onCheckedChange={(checked) => setConfig({ ...config, enabled: checked as boolean })}
+        />
+        <Label htmlFor="rate-limit-enabled" className="text-sm font-normal cursor-pointer">
+          Limit how often people can use public forms and sign in
+        </Label>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="rate-limit-store">Counter storage</Label>
+        <Select
+          value={config.store}
+          onValueChange={(value) => setConfig({ ...config, store: value as RateLimitConfigData['store'] })}
+          disabled={!config.enabled}
+        >
+          <SelectTrigger id="rate-limit-store">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="memory">In memory (reset when the server restarts)</SelectItem>
+            <SelectItem value="database">Database (survives restarts)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Each limit applies separately to every IP address and to every email address or event being targeted.
+        </p>
+        {ACTION_LABELS.map(({ action, label, description }) => (
+          <div key={action} className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-2 sm:items-center">
+            <div>
+              <p className="text-sm font-medium">{label}</p>
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Input
+                type="number"
+                min="1"
+                className="w-20"
+                aria-label={`${label} allowed`}
+                value={config.rules[action].limit || ''}
+                onChange={(e) => updateRule(action, 'limit', e.target.value)}
+                disabled={!config.enabled}
+              />
+              <span className="text-muted-foreground">per</span>
+              <Input
+                type="number"
+                min="1"
+                className="w-20"
+                aria-label={`${label} window in minutes`}
+                value={config.rules[action].windowMinutes || ''}
+                onChange={(e) => updateRule(action, 'windowMinutes', e.target.value)}
+                disabled={!config.enabled}
+              />
+              <span className="text-muted-foreground">min</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="w-4 h-4 mr-2" />
+            Save Configuration
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
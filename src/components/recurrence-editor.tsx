@@ -0,0 +1,302 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Repeat, X } from 'lucide-react';
+import {
+  MAX_OCCURRENCES,
+  RecurrenceRule,
+  WEEKDAYS,
+  Weekday,
+  describeRecurrenceRule,
+  getMonthlySetPos,
+  getOccurrenceDates,
+  getWeekday,
+  validateRecurrenceRule,
+} from '@/lib/recurrence';
+import { formatEventDateTimeShort } from '@/lib/timezone';
+import { cn } from '@/lib/utils';
+
+interface RecurrenceEditorProps {
+  rule: RecurrenceRule | null;
+  exceptions: string[];
+  onChange: (rule: RecurrenceRule | null, exceptions: string[]) => void;
+  disabled?: boolean;
+  /** First occurrence, used to pick sensible defaults and preview the dates */
+  startDate?: Date | null;
+  timezone?: string | null;
+}
+
+const DAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const SET_POSITIONS = [
+  { value: '1', label: 'First' },
+  { value: '2', label: 'Second' },
+  { value: '3', label: 'Third' },
+  { value: '4', label: 'Fourth' },
+  { value: '-1', label: 'Last' },
+];
+
+const PREVIEW_COUNT = 6;
+
+export function RecurrenceEditor({ rule, exceptions, onChange, disabled, startDate, timezone }: RecurrenceEditorProps) {
+  const [skipDate, setSkipDate] = useState('');
+  const validStart = startDate && !isNaN(startDate.getTime()) ? startDate : null;
+
+  const occurrences = useMemo(() => {
+    if (!rule || !validStart || !validateRecurrenceRule(rule).valid) {
+      return [];
+    }
+    return getOccurrenceDates(validStart, timezone, rule, exceptions);
+  }, [rule, exceptions, validStart, timezone]);
+
+  const validation = rule ? validateRecurrenceRule(rule) : { valid: true };
+
+  const handleFrequencyChange = (value: string) => {
+    if (value === 'none') {
+      onChange(null, []);
+      return;
+    }
+
+    const weekday = validStart ? getWeekday(validStart, timezone) : 'MO';
+    if (value === 'WEEKLY') {
+      onChange({ freq: 'WEEKLY', interval: 1, byDay: [weekday], count: 10 }, exceptions);
+    } else {
+      onChange({
+        freq: 'MONTHLY',
+        interval: 1,
+        byDay: [weekday],
+        setPos: validStart ? getMonthlySetPos(validStart, timezone) : 1,
+        count: 6,
+      }, exceptions);
+    }
+  };
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) {
+      onChange({ ...rule, ...changes }, exceptions);
+    }
+  };
+
+  const toggleDay = (day: Weekday) => {
+    if (!rule) return;
+    const byDay = rule.byDay.includes(day)
+      ? rule.byDay.filter((d) => d !== day)
+      : WEEKDAYS.filter((d) => d === day || rule.byDay.includes(d));
+    if (byDay.length > 0) {
+      update({ byDay });
+    }
+  };
+
+  const addSkipDate = () => {
+    if (skipDate && !exceptions.includes(skipDate)) {
+      onChange(rule, [...exceptions, skipDate].sort());
+    }
+    setSkipDate('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center gap-2">
+        <Repeat className="w-4 h-4" />
+        Repeat
+      </Label>
+
+      <Select value={rule?.freq ?? 'none'} onValueChange={handleFrequencyChange} disabled={disabled}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="WEEKLY">Weekly</SelectItem>
+          <SelectItem value="MONTHLY">Monthly, on a weekday</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {rule && (
+        <div className="space-y-4 rounded-[3px] border border-border p-4">
+          <div className="flex items-center gap-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min="1"
+              max="12"
+              className="w-20"
+              value={rule.interval}
+              onChange={(e) => update({ interval: parseInt(e.target.value) || 1 })}
+              disabled={disabled}
+            />
+            <span>{rule.freq === 'WEEKLY' ? 'week(s)' : 'month(s)'}</span>
+          </div>
+
+          {rule.freq === 'WEEKLY' ? (
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  disabled={disabled}
+                  className={cn(
+                    'px-3 py-1.5 rounded-[3px] border text-sm transition-colors',
+                    rule.byDay.includes(day)
+                      ? 'border-primary bg-primary text-primary-foreground'
+                      : 'border-border hover:border-primary/50'
+                  )}
+                >
+                  {DAY_LABELS[day]}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={String(rule.setPos ?? 1)}
+                onValueChange={(value) => update({ setPos: parseInt(value) })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SET_POSITIONS.map((position) => (
+                    <SelectItem key={position.value} value={position.value}>{position.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={rule.byDay[0] ?? 'MO'}
+                onValueChange={(value) => update({ byDay: [value as Weekday] })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day) => (
+                    <SelectItem key={day} value={day}>{DAY_LABELS[day]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Ends</span>
+            <Select
+              value={rule.until ? 'until' : 'count'}
+              onValueChange={(value) =>
+                update(value === 'until'
+                  ? { count: undefined, until: validStart ? validStart.toISOString().split('T')[0] : '' }
+                  : { count: 10, until: undefined })
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">After a number of dates</SelectItem>
+                <SelectItem value="until">On a date</SelectItem>
+              </SelectContent>
+            </Select>
+            {rule.until !== undefined ? (
+              <Input
+                type="date"
+                className="w-44"
+                value={rule.until}
+                onChange={(e) => update({ until: e.target.value })}
+                disabled={disabled}
+              />
+            ) : (
+              <>
+                <Input
+                  type="number"
+                  min="2"
+                  max={MAX_OCCURRENCES}
+                  className="w-20"
+                  value={rule.count ?? ''}
+                  onChange={(e) => update({ count: e.target.value ? parseInt(e.target.value) : undefined })}
+                  disabled={disabled}
+                />
+                <span>dates</span>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm">Skip dates (optional)</Label>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={skipDate}
+                onChange={(e) => setSkipDate(e.target.value)}
+                disabled={disabled}
+              />
+              <Button type="button" variant="outline" size="icon" onClick={addSkipDate} disabled={disabled || !skipDate}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {exceptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {exceptions.map((date) => (
+                  <span key={date} className="inline-flex items-center gap-1 rounded-[3px] bg-muted px-2 py-1 text-xs">
+                    {date}
+                    <button
+                      type="button"
+                      onClick={() => onChange(rule, exceptions.filter((d) => d !== date))}
+                      disabled={disabled}
+                      aria-label={`Don't skip ${date}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {!validation.valid ? (
+            <p className="text-sm text-destructive">{validation.error}</p>
+          ) : (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">{describeRecurrenceRule(rule)}</p>
+              {occurrences.length > 0 && (
+                <>
+                  <p className="text-muted-foreground">
+                    {occurrences.length} date{occurrences.length !== 1 ? 's' : ''} will be created, each with its own guest responses:
+                  </p>
+                  <ul className="text-muted-foreground list-disc pl-5">
+                    {occurrences.slice(0, PREVIEW_COUNT).map((date) => (
+                      <li key={date.toISOString()}>{formatEventDateTimeShort(date, timezone)}</li>
+                    ))}
+                  </ul>
+                  {occurrences.length > PREVIEW_COUNT && (
+                    <p className="text-muted-foreground">and {occurrences.length - PREVIEW_COUNT} more</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
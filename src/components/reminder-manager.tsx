@@ -11,17 +11,28 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Edit, Trash2, X, Check } from 'lucide-react';
-import { Reminder, formatReminder, validateReminders } from '@/lib/reminder-utils';
+import { Plus, Edit, Trash2, X, Check, Clock } from 'lucide-react';
+import {
+  Reminder,
+  DEFAULT_REMINDERS,
+  formatReminder,
+  getNextReminder,
+  getReminderSendTime,
+  validateReminders,
+} from '@/lib/reminder-utils';
+import { formatEventDateTimeShort } from '@/lib/timezone';
 import { useToast } from '@/components/ui/use-toast';
 
 interface ReminderManagerProps {
   reminders: Reminder[];
   onChange: (reminders: Reminder[]) => void;
   disabled?: boolean;
+  /** Event start, used to preview when each reminder goes out */
+  eventDate?: Date | null;
+  timezone?: string | null;
 }
 
-export function ReminderManager({ reminders, onChange, disabled }: ReminderManagerProps) {
+export function ReminderManager({ reminders, onChange, disabled, eventDate, timezone }: ReminderManagerProps) {
   const { toast } = useToast();
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [isAdding, setIsAdding] = useState(false);
@@ -74,6 +85,12 @@ export function ReminderManager({ reminders, onChange, disabled }: ReminderManag
     return b.value - a.value;
   });
 
+  const hasEventDate = !!eventDate && !isNaN(eventDate.getTime());
+  const now = new Date();
+  const nextReminder = hasEventDate
+    ? getNextReminder(reminders.length > 0 ? reminders : DEFAULT_REMINDERS, eventDate, now)
+    : null;
+
   return (
     <div className="space-y-4">
       <div className="space-y-2">
@@ -106,7 +123,16 @@ export function ReminderManager({ reminders, onChange, disabled }: ReminderManag
                 key={originalIndex}
                 className="flex items-center justify-between p-3 border rounded-lg bg-card"
               >
-                <span className="text-sm font-medium">{formatReminder(reminder)}</span>
+                <div>
+                  <span className="text-sm font-medium">{formatReminder(reminder)}</span>
+                  {hasEventDate && (
+                    <p className="text-xs text-muted-foreground">
+                      {getReminderSendTime(reminder, eventDate).getTime() <= now.getTime()
+                        ? 'Already passed'
+                        : formatEventDateTimeShort(getReminderSendTime(reminder, eventDate), timezone)}
+                    </p>
+                  )}
+                </div>
                 {!disabled && (
                   <div className="flex gap-2">
                     <Button
@@ -164,6 +190,15 @@ export function ReminderManager({ reminders, onChange, disabled }: ReminderManag
           No reminders set. Default reminder will be sent 2 days before the event.
         </p>
       )}
+
+      {hasEventDate && (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Clock className="w-4 h-4" />
+          {nextReminder
+            ? `Next reminder at ${formatEventDateTimeShort(nextReminder.sendAt, timezone)} (${formatReminder(nextReminder.reminder)})`
+            : 'No more reminders will be sent before this event.'}
+        </p>
+      )}
     </div>
   );
 }
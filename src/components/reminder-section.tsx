@@ -13,17 +13,28 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { ReminderManager } from '@/components/reminder-manager';
-import { Reminder, parseReminderSchedule, serializeReminderSchedule, formatReminder } from '@/lib/reminder-utils';
+import {
+  Reminder,
+  parseReminderSchedule,
+  serializeReminderSchedule,
+  formatReminder,
+  getEffectiveReminders,
+  getNextReminder,
+} from '@/lib/reminder-utils';
+import { formatEventDateTimeShort } from '@/lib/timezone';
 import { useToast } from '@/components/ui/use-toast';
-import { Bell, Edit, Loader2 } from 'lucide-react';
+import { Bell, Clock, Edit, Loader2 } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
 
 interface ReminderSectionProps {
   eventId: string;
   reminderSchedule: string | null;
   canEdit: boolean;
+  eventDate: Date;
+  timezone: string | null;
 }
 
-export function ReminderSection({ eventId, reminderSchedule, canEdit }: ReminderSectionProps) {
+export function ReminderSection({ eventId, reminderSchedule, canEdit, eventDate, timezone }: ReminderSectionProps) {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -34,20 +45,13 @@ export function ReminderSection({ eventId, reminderSchedule, canEdit }: Reminder
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      const response = await fetch(`/api/events/${eventId}/reminders`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await requestApi('updateReminderSchedule', {
+        params: { id: eventId },
+        body: {
           reminderSchedule: reminders,
-        }),
+        },
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update reminders');
-      }
-
       toast({
         title: 'Reminders updated',
         description: 'Your reminder schedule has been saved.',
@@ -67,6 +71,7 @@ export function ReminderSection({ eventId, reminderSchedule, canEdit }: Reminder
   };
 
   const parsedReminders = parseReminderSchedule(reminderSchedule);
+  const nextReminder = getNextReminder(getEffectiveReminders(reminderSchedule), new Date(eventDate), new Date());
 
   return (
     <>
@@ -122,6 +127,12 @@ export function ReminderSection({ eventId, reminderSchedule, canEdit }: Reminder
               No custom reminders set. Default reminder will be sent 2 days before the event.
             </p>
           )}
+          <p className="text-sm text-muted-foreground flex items-center gap-2 mt-4">
+            <Clock className="w-4 h-4" />
+            {nextReminder
+              ? `Next reminder at ${formatEventDateTimeShort(nextReminder.sendAt, timezone)} (${formatReminder(nextReminder.reminder)})`
+              : 'No more reminders will be sent before this event.'}
+          </p>
         </CardContent>
       </Card>
 
@@ -138,6 +149,8 @@ export function ReminderSection({ eventId, reminderSchedule, canEdit }: Reminder
               reminders={reminders}
               onChange={setReminders}
               disabled={isSaving}
+              eventDate={new Date(eventDate)}
+              timezone={timezone}
             />
           </div>
           <DialogFooter>
@@ -14,6 +14,7 @@ import {
 } from '@/components/ui/dialog';
 import { Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 interface RestartMethod {
   type: 'pm2' | 'docker' | 'systemd' | 'graceful' | 'unsupported';
@@ -36,11 +37,8 @@ export function RestartServerButton() {
   async function loadRestartMethod() {
     setIsLoadingMethod(true);
     try {
-      const response = await fetch('/api/admin/restart');
-      if (response.ok) {
-        const data = await response.json();
-        setRestartMethod(data.method);
-      }
+      const data = await requestApi('getRestartMethod');
+      setRestartMethod(data.method);
     } catch (error) {
       logger.error('Failed to load restart method:', error);
     } finally {
@@ -51,51 +49,43 @@ export function RestartServerButton() {
   async function handleRestart() {
     setIsRestarting(true);
     try {
-      const response = await fetch('/api/admin/restart', {
-        method: 'POST',
-      });
+      const data = await requestApi('restartServer');
 
-      const data = await response.json();
-
-      if (response.ok) {
-        if (data.success) {
-          if (data.requiresManualRestart) {
-            toast({
-              title: 'Server Shutting Down',
-              description: data.message || 'Please restart the server manually.',
-              variant: 'default',
-            });
-            
-            // Show a more detailed message in a dialog
-            setTimeout(() => {
-              alert(
-                'Server is shutting down.\n\n' +
-                'Please restart manually:\n' +
-                '• Development: npm run dev\n' +
-                '• Production: npm start\n\n' +
-                'Or use your process manager (PM2, Docker, etc.)'
-              );
-            }, 500);
-          } else {
-            toast({
-              title: 'Restart Initiated',
-              description: data.message || 'Server restart has been initiated. The page will refresh shortly.',
-            });
-
-            // Wait a bit then try to refresh
-            setTimeout(() => {
-              router.refresh();
-            }, 3000);
-          }
+      if (data.success) {
+        if (data.requiresManualRestart) {
+          toast({
+            title: 'Server Shutting Down',
+            description: data.message || 'Please restart the server manually.',
+            variant: 'default',
+          });
+          
+          // Show a more detailed message in a dialog
+          setTimeout(() => {
+            alert(
+              'Server is shutting down.\n\n' +
+              'Please restart manually:\n' +
+              '• Development: npm run dev\n' +
+              '• Production: npm start\n\n' +
+              'Or use your process manager (PM2, Docker, etc.)'
+            );
+          }, 500);
         } else {
           toast({
-            title: 'Restart Failed',
-            description: data.message || 'Failed to restart server. Please restart manually.',
-            variant: 'destructive',
+            title: 'Restart Initiated',
+            description: data.message || 'Server restart has been initiated. The page will refresh shortly.',
           });
+
+          // Wait a bit then try to refresh
+          setTimeout(() => {
+            router.refresh();
+          }, 3000);
         }
       } else {
-        throw new Error(data.error || 'Failed to restart server');
+        toast({
+          title: 'Restart Failed',
+          description: data.message || 'Failed to restart server. Please restart manually.',
+          variant: 'destructive',
+        });
       }
     } catch (error) {
       logger.error('Restart error:', error);
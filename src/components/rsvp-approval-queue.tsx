@@ -0,0 +1,193 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { Check, Loader2, UserCheck, X } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
+
+interface ApprovalRequest {
+  id: string;
+  name: string | null;
+  email: string;
+  phone: string | null;
+  requestedStatus: string | null;
+  respondedAt: Date | null;
+  dietaryNotes: string | null;
+  additionalGuests?: { id: string; name: string }[];
+}
+
+interface RsvpApprovalQueueProps {
+  eventId: string;
+  requests: ApprovalRequest[];
+}
+
+const REQUESTED_LABELS: Record<string, string> = {
+  ATTENDING: 'Attending',
+  MAYBE: 'Maybe',
+  NOT_ATTENDING: 'Not Attending',
+};
+
+type Review = { request: ApprovalRequest; action: 'approve' | 'deny' };
+
+export function RsvpApprovalQueue({ eventId, requests }: RsvpApprovalQueueProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [review, setReview] = useState<Review | null>(null);
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const openReview = (request: ApprovalRequest, action: Review['action']) => {
+    setMessage('');
+    setReview({ request, action });
+  };
+
+  const handleSubmit = async () => {
+    if (!review) return;
+
+    setIsSubmitting(true);
+    try {
+      const data = await requestApi('reviewRsvpRequest', {
+        params: { id: eventId, guestId: review.request.id },
+        body: { action: review.action, message: message.trim() || undefined },
+      });
+
+      const guestName = review.request.name || review.request.email;
+      toast({
+        title: review.action === 'approve' ? 'RSVP approved' : 'RSVP denied',
+        description: review.action === 'approve'
+          ? data.status === 'WAITLISTED'
+            ? `The event is full, so ${guestName} was added to the waitlist.`
+            : `${guestName} has been sent their confirmation.`
+          : `${guestName} has been told their RSVP wasn't approved.`,
+      });
+
+      setReview(null);
+      router.refresh();
+    } catch (error) {
+      logger.error('Review RSVP error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to review RSVP',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="border-accent/40">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <UserCheck className="w-5 h-5" />
+            Awaiting Approval ({requests.length})
+          </CardTitle>
+          <CardDescription>
+            People who aren&apos;t on the guest list and RSVPed from the public page
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y">
+            {requests.map((request) => (
+              <div key={request.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium truncate">{request.name || request.email}</p>
+                  {request.name && (
+                    <p className="text-sm text-muted-foreground truncate">{request.email}</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-1">
+                    {request.requestedStatus && (
+                      <Badge variant="outline" className="text-xs py-0">
+                        {REQUESTED_LABELS[request.requestedStatus] || request.requestedStatus}
+                      </Badge>
+                    )}
+                    {request.additionalGuests && request.additionalGuests.length > 0 && (
+                      <Badge variant="outline" className="text-xs py-0">
+                        +{request.additionalGuests.length} ({request.additionalGuests.map((ag) => ag.name).join(', ')})
+                      </Badge>
+                    )}
+                    {request.respondedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(request.respondedAt), { addSuffix: true })}
+                      </span>
+                    )}
+                  </div>
+                  {request.dietaryNotes && (
+                    <p className="text-sm text-muted-foreground">Dietary notes: {request.dietaryNotes}</p>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button size="sm" onClick={() => openReview(request, 'approve')} className="gap-2">
+                    <Check className="w-4 h-4" />
+                    Approve
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => openReview(request, 'deny')} className="gap-2">
+                    <X className="w-4 h-4" />
+                    Deny
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!review} onOpenChange={(open) => !open && setReview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {review?.action === 'approve' ? 'Approve RSVP' : 'Deny RSVP'}
+            </DialogTitle>
+            <DialogDescription>
+              {review?.action === 'approve'
+                ? `${review.request.name || review.request.email} will get their confirmation and a link to manage their RSVP.`
+                : `${review?.request.name || review?.request.email} will be told their RSVP wasn't approved and removed from the event.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="approval-message">Message (optional)</Label>
+            <Textarea
+              id="approval-message"
+              rows={3}
+              placeholder={review?.action === 'approve' ? 'Looking forward to seeing you!' : 'Sorry, this event is invite-only.'}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-muted-foreground">Included in the email to the guest.</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReview(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              variant={review?.action === 'deny' ? 'destructive' : 'default'}
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {review?.action === 'approve' ? 'Approve' : 'Deny'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
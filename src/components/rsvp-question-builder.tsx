@@ -0,0 +1,188 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  RsvpQuestion,
+  RsvpQuestionScope,
+  RsvpQuestionType,
+  RSVP_QUESTION_TYPES,
+  MAX_RSVP_QUESTIONS,
+  createQuestionId,
+  isChoiceQuestion,
+} from '@/lib/rsvp-questions';
+
+interface RsvpQuestionBuilderProps {
+  questions: RsvpQuestion[];
+  onChange: (questions: RsvpQuestion[]) => void;
+  disabled?: boolean;
+}
+
+export function RsvpQuestionBuilder({ questions, onChange, disabled }: RsvpQuestionBuilderProps) {
+  const updateQuestion = (index: number, changes: Partial<RsvpQuestion>) => {
+    const updated = [...questions];
+    updated[index] = { ...updated[index], ...changes };
+    onChange(updated);
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    const updated = [...questions];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const addQuestion = () => {
+    onChange([
+      ...questions,
+      { id: createQuestionId(), label: '', type: 'text', required: false, scope: 'party' },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Questions are shown to guests who are attending. Per-attendee questions are asked for each person in the party.
+      </p>
+
+      {questions.map((question, index) => (
+        <div key={question.id} className="p-3 border rounded-lg bg-card space-y-3">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor={`question-${question.id}`}>Question {index + 1}</Label>
+              <Input
+                id={`question-${question.id}`}
+                placeholder="e.g. Meal choice"
+                value={question.label}
+                onChange={(e) => updateQuestion(index, { label: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="flex gap-1 pt-7">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveQuestion(index, -1)}
+                disabled={disabled || index === 0}
+                className="h-8 w-8 p-0"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveQuestion(index, 1)}
+                disabled={disabled || index === questions.length - 1}
+                className="h-8 w-8 p-0"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                title="Remove question"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-2">
+            <Select
+              value={question.type}
+              onValueChange={(value: RsvpQuestionType) =>
+                updateQuestion(index, {
+                  type: value,
+                  options: isChoiceQuestion({ type: value }) ? question.options || ['', ''] : undefined,
+                })
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RSVP_QUESTION_TYPES) as RsvpQuestionType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {RSVP_QUESTION_TYPES[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={question.scope}
+              onValueChange={(value: RsvpQuestionScope) => updateQuestion(index, { scope: value })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="party">Once per RSVP</SelectItem>
+                <SelectItem value="attendee">For each attendee</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isChoiceQuestion(question) && (
+            <div className="space-y-2">
+              <Label htmlFor={`options-${question.id}`}>Options (one per line)</Label>
+              <Textarea
+                id={`options-${question.id}`}
+                value={(question.options || []).join('\n')}
+                onChange={(e) => updateQuestion(index, { options: e.target.value.split('\n') })}
+                rows={3}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`required-${question.id}`}
+              checked={question.required}
+              onCheckedChange={(checked) => updateQuestion(index, { required: checked === true })}
+              disabled={disabled}
+            />
+            <Label htmlFor={`required-${question.id}`} className="font-normal">
+              Required
+            </Label>
+          </div>
+        </div>
+      ))}
+
+      {questions.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No questions yet. Guests will only be asked for their name, party and dietary notes.
+        </p>
+      )}
+
+      {!disabled && questions.length < MAX_RSVP_QUESTIONS && (
+        <Button type="button" variant="outline" onClick={addQuestion} className="w-full">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Question
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { RsvpAnswerValue, RsvpAnswers, RsvpQuestion, RsvpQuestionScope } from '@/lib/rsvp-questions';
+
+interface RsvpQuestionFieldsProps {
+  questions: RsvpQuestion[];
+  scope: RsvpQuestionScope;
+  answers: RsvpAnswers;
+  onChange: (answers: RsvpAnswers) => void;
+  /** Keeps input ids unique when the same questions are shown for several attendees */
+  idPrefix: string;
+  disabled?: boolean;
+}
+
+export function RsvpQuestionFields({ questions, scope, answers, onChange, idPrefix, disabled }: RsvpQuestionFieldsProps) {
+  const scoped = questions.filter((q) => q.scope === scope);
+
+  const setAnswer = (questionId: string, value: RsvpAnswerValue | undefined) => {
+    const updated = { ...answers };
+    if (value === undefined) {
+      delete updated[questionId];
+    } else {
+      updated[questionId] = value;
+    }
+    onChange(updated);
+  };
+
+  return (
+    <>
+      {scoped.map((question) => {
+        const inputId = `${idPrefix}-${question.id}`;
+        const value = answers[question.id];
+        const label = (
+          <Label htmlFor={inputId}>
+            {question.label}
+            {question.required ? ' *' : ''}
+          </Label>
+        );
+
+        switch (question.type) {
+          case 'text':
+            return (
+              <div key={question.id} className="space-y-2">
+                {label}
+                <Textarea
+                  id={inputId}
+                  value={typeof value === 'string' ? value : ''}
+                  onChange={(e) => setAnswer(question.id, e.target.value)}
+                  rows={2}
+                  disabled={disabled}
+                />
+              </div>
+            );
+          case 'number':
+            return (
+              <div key={question.id} className="space-y-2">
+                {label}
+                <Input
+                  id={inputId}
+                  type="number"
+                  value={typeof value === 'number' ? value : ''}
+                  onChange={(e) => setAnswer(question.id, e.target.value === '' ? undefined : Number(e.target.value))}
+                  disabled={disabled}
+                />
+              </div>
+            );
+          case 'yes_no':
+            return (
+              <div key={question.id} className="space-y-2">
+                {label}
+                <RadioGroup
+                  id={inputId}
+                  value={typeof value === 'boolean' ? (value ? 'yes' : 'no') : ''}
+                  onValueChange={(v) => setAnswer(question.id, v === 'yes')}
+                  className="flex gap-4"
+                  disabled={disabled}
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="yes" id={`${inputId}-yes`} />
+                    <Label htmlFor={`${inputId}-yes`} className="font-normal">Yes</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="no" id={`${inputId}-no`} />
+                    <Label htmlFor={`${inputId}-no`} className="font-normal">No</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            );
+          case 'single_choice':
+            return (
+              <div key={question.id} className="space-y-2">
+                {label}
+                <RadioGroup
+                  id={inputId}
+                  value={typeof value === 'string' ? value : ''}
+                  onValueChange={(v) => setAnswer(question.id, v)}
+                  disabled={disabled}
+                >
+                  {(question.options || []).map((option, index) => (
+                    <div key={option} className="flex items-center gap-2">
+                      <RadioGroupItem value={option} id={`${inputId}-${index}`} />
+                      <Label htmlFor={`${inputId}-${index}`} className="font-normal">{option}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            );
+          case 'multi_choice': {
+            const selected = Array.isArray(value) ? value : [];
+            return (
+              <div key={question.id} className="space-y-2">
+                {label}
+                {(question.options || []).map((option, index) => (
+                  <div key={option} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`${inputId}-${index}`}
+                      checked={selected.includes(option)}
+                      onCheckedChange={(checked) =>
+                        setAnswer(
+                          question.id,
+                          checked === true ? [...selected, option] : selected.filter((s) => s !== option)
+                        )
+                      }
+                      disabled={disabled}
+                    />
+                    <Label htmlFor={`${inputId}-${index}`} className="font-normal">{option}</Label>
+                  </div>
+                ))}
+              </div>
+            );
+          }
+        }
+      })}
+    </>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { RsvpQuestionBuilder } from '@/components/rsvp-question-builder';
+import {
+  RsvpQuestion,
+  RSVP_QUESTION_TYPES,
+  isChoiceQuestion,
+  parseRsvpQuestions,
+  validateRsvpQuestions,
+} from '@/lib/rsvp-questions';
+import { useToast } from '@/components/ui/use-toast';
+import { ClipboardList, Edit, Loader2 } from 'lucide-react';
+import { requestApi } from '@/lib/api-client';
+
+interface RsvpQuestionSectionProps {
+  eventId: string;
+  rsvpQuestions: string | null;
+  canEdit: boolean;
+}
+
+export function RsvpQuestionSection({ eventId, rsvpQuestions, canEdit }: RsvpQuestionSectionProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [questions, setQuestions] = useState<RsvpQuestion[]>(() => parseRsvpQuestions(rsvpQuestions));
+
+  const savedQuestions = parseRsvpQuestions(rsvpQuestions);
+
+  const handleSave = async () => {
+    // Drop blank lines left in the option lists
+    const cleaned = questions.map((question) =>
+      isChoiceQuestion(question)
+        ? { ...question, options: (question.options || []).map((o) => o.trim()).filter(Boolean) }
+        : question
+    );
+
+    const validation = validateRsvpQuestions(cleaned);
+    if (!validation.valid) {
+      toast({
+        title: 'Invalid question',
+        description: validation.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await requestApi('updateRsvpQuestions', { params: { id: eventId }, body: { questions: cleaned } });
+
+      toast({
+        title: 'Questions updated',
+        description: 'Guests will see the new questions on the RSVP form.',
+      });
+
+      setIsDialogOpen(false);
+      router.refresh();
+    } catch (error) {
+      logger.error('Update RSVP questions error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update questions',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <ClipboardList className="w-5 h-5" />
+                RSVP Questions
+              </CardTitle>
+              <CardDescription>
+                Extra questions guests answer when they RSVP
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setQuestions(savedQuestions);
+                  setIsDialogOpen(true);
+                }}
+                className="gap-2"
+              >
+                <Edit className="w-4 h-4" />
+                Edit Questions
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {savedQuestions.length > 0 ? (
+            <div className="space-y-2">
+              {savedQuestions.map((question) => (
+                <div
+                  key={question.id}
+                  className="flex items-center justify-between gap-2 p-2 border rounded-lg bg-muted/50"
+                >
+                  <span className="text-sm font-medium truncate">{question.label}</span>
+                  <div className="flex gap-1 shrink-0">
+                    <Badge variant="outline" className="text-xs py-0">
+                      {RSVP_QUESTION_TYPES[question.type]}
+                    </Badge>
+                    {question.scope === 'attendee' && (
+                      <Badge variant="outline" className="text-xs py-0">
+                        Each attendee
+                      </Badge>
+                    )}
+                    {question.required && (
+                      <Badge variant="outline" className="text-xs py-0">
+                        Required
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No custom questions. Ask about meal choices, song requests, arrival days and more.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit RSVP Questions</DialogTitle>
+            <DialogDescription>
+              Add, reorder or remove questions. Answers already given to removed questions are hidden.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <RsvpQuestionBuilder questions={questions} onChange={setQuestions} disabled={isSaving} />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsDialogOpen(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Questions
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
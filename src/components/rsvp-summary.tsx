@@ -5,19 +5,29 @@ import { Users, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 
-interface RsvpSummaryProps {
+export interface RsvpSummaryProps {
   stats: {
     total: number;
     attending: number;
     notAttending: number;
     maybe: number;
     pending: number;
+    waitlisted: number;
   };
+  /** Maximum number of people attending, if the event has one */
+  capacity?: number | null;
+  /** Per-session counts, for events split into sessions */
+  sessions?: {
+    id: string;
+    name: string;
+    capacity: number | null;
+    stats: { attending: number; notAttending: number; pending: number };
+  }[];
   selectedFilter: string | null;
   onFilterChange: (filter: string | null) => void;
 }
 
-export function RsvpSummary({ stats, selectedFilter, onFilterChange }: RsvpSummaryProps) {
+export function RsvpSummary({ stats, capacity, sessions = [], selectedFilter, onFilterChange }: RsvpSummaryProps) {
   const handleCardClick = (status: string) => {
     if (selectedFilter === status) {
       onFilterChange(null); // Toggle off if already selected
@@ -48,6 +58,12 @@ export function RsvpSummary({ stats, selectedFilter, onFilterChange }: RsvpSumma
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        {capacity != null && (
+          <p className="text-sm text-muted-foreground">
+            {stats.attending} of {capacity} spots filled
+            {stats.attending >= capacity && ' - new RSVPs join the waitlist'}
+          </p>
+        )}
         <button
           onClick={() => handleCardClick('ATTENDING')}
           className={cn(
@@ -88,6 +104,37 @@ export function RsvpSummary({ stats, selectedFilter, onFilterChange }: RsvpSumma
           <span className="label-mono text-muted-foreground">Pending</span>
           <span className="text-2xl font-display font-semibold text-muted-foreground">{stats.pending}</span>
         </button>
+        {(capacity != null || stats.waitlisted > 0) && (
+          <button
+            onClick={() => handleCardClick('WAITLISTED')}
+            className={cn(
+              'w-full flex justify-between items-center p-3 rounded-[3px] border-l-2 border-l-accent/60 border-y border-r border-dashed border-border bg-accent/[0.03] hover:bg-accent/[0.08] transition-colors cursor-pointer',
+              selectedFilter === 'WAITLISTED' && 'ring-2 ring-accent/60 bg-accent/[0.08]'
+            )}
+          >
+            <span className="label-mono text-accent">Waitlisted</span>
+            <span className="text-2xl font-display font-semibold text-accent">{stats.waitlisted}</span>
+          </button>
+        )}
+        {sessions.length > 0 && (
+          <div className="pt-3 space-y-2 border-t border-border">
+            <p className="label-mono text-muted-foreground">By Session</p>
+            {sessions.map((session) => (
+              <div key={session.id} className="p-3 rounded-[3px] border border-border space-y-1">
+                <div className="flex justify-between items-center gap-2">
+                  <span className="font-medium truncate">{session.name}</span>
+                  <span className="font-display font-semibold text-primary shrink-0">
+                    {session.stats.attending}
+                    {session.capacity != null && <span className="text-muted-foreground font-normal"> / {session.capacity}</span>}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {session.stats.notAttending} not attending · {session.stats.pending} pending
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
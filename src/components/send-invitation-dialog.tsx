@@ -12,6 +12,7 @@ import {
 } from '@/components/ui/dialog';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { requestApi } from '@/lib/api-client';
 
 interface SendInvitationDialogProps {
   open: boolean;
@@ -40,19 +41,7 @@ export function SendInvitationDialog({
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/events/${eventId}/guests/${guestId}/invite`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          notifyByEmail: true,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send invitation');
-      }
+      await requestApi('sendGuestInvitation', { params: { id: eventId, guestId } });
 
       const isResend = guestStatus !== 'PENDING';
       toast({
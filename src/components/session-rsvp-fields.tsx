@@ -0,0 +1,77 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { formatEventDateTimeShort, formatTimeInTimezone } from '@/lib/timezone';
+import { formatAddressOneLine } from '@/lib/address-utils';
+
+export interface RsvpSession {
+  id: string;
+  name: string;
+  date: Date | string;
+  endDate?: Date | string | null;
+  locationName?: string | null;
+  streetAddress1?: string | null;
+  streetAddress2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+  status?: string; // The guest's current answer: PENDING, ATTENDING or NOT_ATTENDING
+}
+
+interface SessionRsvpFieldsProps {
+  sessions: RsvpSession[];
+  timezone?: string | null;
+  attending: Record<string, boolean>;
+  onChange: (attending: Record<string, boolean>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Guests attending start with every session ticked, except ones they already declined
+ */
+export function getInitialSessionChoices(sessions: RsvpSession[]): Record<string, boolean> {
+  return Object.fromEntries(sessions.map((session) => [session.id, session.status !== 'NOT_ATTENDING']));
+}
+
+/**
+ * The sessions payload for an RSVP. Declining the event declines every session;
+ * "maybe" leaves the session answers as they were.
+ */
+export function getSessionResponses(sessions: RsvpSession[], attending: Record<string, boolean>, status: string | null) {
+  if (status === 'ATTENDING') {
+    return sessions.map((session) => ({ sessionId: session.id, attending: attending[session.id] ?? true }));
+  }
+  if (status === 'NOT_ATTENDING') {
+    return sessions.map((session) => ({ sessionId: session.id, attending: false }));
+  }
+  return [];
+}
+
+export function SessionRsvpFields({ sessions, timezone, attending, onChange, disabled }: SessionRsvpFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <Label>Which parts will you attend?</Label>
+      {sessions.map((session) => (
+        <div key={session.id} className="flex items-start gap-3 rounded-[3px] border border-border p-4">
+          <Checkbox
+            id={`session-${session.id}`}
+            checked={attending[session.id] ?? true}
+            onCheckedChange={(checked) => onChange({ ...attending, [session.id]: checked === true })}
+            disabled={disabled}
+          />
+          <div className="space-y-1">
+            <Label htmlFor={`session-${session.id}`} className="cursor-pointer font-medium">
+              {session.name}
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {formatEventDateTimeShort(session.date, timezone)}
+              {session.endDate && ` - ${formatTimeInTimezone(session.endDate, timezone)}`}
+              {formatAddressOneLine(session) && ` · ${formatAddressOneLine(session)}`}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
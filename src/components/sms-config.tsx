@@ -0,0 +1,333 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PasswordInput } from '@/components/ui/password-input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, MessageSquare, Save, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { storage, CONFIG_STORAGE_KEYS } from '@/lib/config-utils';
+import { ApiError, requestApi } from '@/lib/api-client';
+
+interface SmsConfigData {
+  provider: 'twilio' | 'log';
+  accountSid: string;
+  authToken: string;
+  phoneNumber: string;
+  apiUrl: string;
+  logFile: string;
+}
+
+interface SmsConfigProps {
+  onConfigChange?: () => void;
+}
+
+const emptyConfig: SmsConfigData = {
+  provider: 'twilio',
+  accountSid: '',
+  authToken: '',
+  phoneNumber: '',
+  apiUrl: '',
+  logFile: '',
+};
+
+export function SmsConfig({ onConfigChange }: SmsConfigProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testPhone, setTestPhone] = useState('');
+  const [config, setConfig] = useState<SmsConfigData>(emptyConfig);
+  const [originalConfig, setOriginalConfig] = useState<SmsConfigData | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  useEffect(() => {
+    loadConfig();
+    setTestPhone(storage.get(CONFIG_STORAGE_KEYS.SMS_TEST_PHONE) || '');
+  }, []);
+
+  useEffect(() => {
+    if (originalConfig) {
+      const changed = JSON.stringify(config) !== JSON.stringify(originalConfig);
+      setHasChanges(changed);
+    }
+  }, [config, originalConfig]);
+
+  async function loadConfig() {
+    setIsLoading(true);
+    try {
+      const data = await requestApi('getSmsConfig');
+      const newConfig = data.config
+        ? {
+            provider: data.config.provider || 'twilio',
+            accountSid: data.config.accountSid || '',
+            authToken: data.config.authToken || '',
+            phoneNumber: data.config.phoneNumber || '',
+            apiUrl: data.config.apiUrl || '',
+            logFile: data.config.logFile || '',
+          }
+        : emptyConfig;
+      setConfig(newConfig);
+      setOriginalConfig(newConfig);
+    } catch (error) {
+      logger.error('Failed to load SMS config:', error);
+      setConfig(emptyConfig);
+      setOriginalConfig(emptyConfig);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSave() {
+    if (config.provider === 'twilio' && (!config.accountSid || !config.authToken || !config.phoneNumber)) {
+      toast({
+        title: 'Error',
+        description: 'Please fill in all required fields',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = config.provider === 'twilio'
+        ? {
+            provider: config.provider,
+            accountSid: config.accountSid,
+            authToken: config.authToken,
+            phoneNumber: config.phoneNumber,
+            apiUrl: config.apiUrl,
+          }
+        : {
+            provider: config.provider,
+            logFile: config.logFile,
+          };
+
+      await requestApi('updateSmsConfig', { body: payload });
+      toast({
+        title: 'Configuration saved!',
+        description: 'SMS configuration updated successfully.',
+      });
+      setOriginalConfig({ ...config });
+      setHasChanges(false);
+      onConfigChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleTest() {
+    if (!testPhone) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a phone number to test',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      const data = await requestApi('sendTestSms', { body: { testPhone } });
+      storage.set(CONFIG_STORAGE_KEYS.SMS_TEST_PHONE, testPhone);
+      toast({
+        title: 'Test SMS sent!',
+        description: data.provider === 'log'
+          ? 'Message written to the SMS log file.'
+          : `Test message sent to ${testPhone}.`,
+      });
+    } catch (error) {
+      // The provider's own error, when sending got that far
+      const details = error instanceof ApiError ? error.body?.details : undefined;
+      toast({
+        title: 'Error',
+        description: typeof details === 'string'
+          ? details
+          : error instanceof Error ? error.message : 'Failed to send test SMS',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="sms-provider">Provider</Label>
+          <Select
+            value={config.provider}
+            onValueChange={(value) => setConfig(prev => ({ ...prev, provider: value as SmsConfigData['provider'] }))}
+          >
+            <SelectTrigger id="sms-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="twilio">Twilio (or Twilio-compatible API)</SelectItem>
+              <SelectItem value="log">Log to file (development)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.provider === 'twilio' ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="sms-account-sid">Account SID</Label>
+              <Input
+                id="sms-account-sid"
+                type="text"
+                value={config.accountSid}
+                onChange={(e) => setConfig(prev => ({ ...prev, accountSid: e.target.value }))}
+                placeholder="ACxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sms-auth-token">Auth Token</Label>
+              <PasswordInput
+                id="sms-auth-token"
+                value={config.authToken}
+                onChange={(e) => setConfig(prev => ({ ...prev, authToken: e.target.value }))}
+                placeholder="Your auth token"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sms-phone-number">Sender Phone Number</Label>
+              <Input
+                id="sms-phone-number"
+                type="tel"
+                value={config.phoneNumber}
+                onChange={(e) => setConfig(prev => ({ ...prev, phoneNumber: e.target.value }))}
+                placeholder="+15551234567"
+              />
+              <p className="text-xs text-muted-foreground">
+                E.164 format, including the country code
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sms-api-url">API Base URL (optional)</Label>
+              <Input
+                id="sms-api-url"
+                type="text"
+                value={config.apiUrl}
+                onChange={(e) => setConfig(prev => ({ ...prev, apiUrl: e.target.value }))}
+                placeholder="https://api.twilio.com"
+              />
+              <p className="text-xs text-muted-foreground">
+                Only needed for Twilio-compatible gateways
+              </p>
+            </div>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="sms-log-file">Log File (optional)</Label>
+            <Input
+              id="sms-log-file"
+              type="text"
+              value={config.logFile}
+              onChange={(e) => setConfig(prev => ({ ...prev, logFile: e.target.value }))}
+              placeholder="data/sms.log"
+            />
+            <p className="text-xs text-muted-foreground">
+              Messages are written here instead of being sent. Useful for development and testing.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 pt-4 border-t">
+        <Button
+          onClick={handleSave}
+          disabled={isSaving || !hasChanges}
+          className="flex-1"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="w-4 h-4 mr-2" />
+              Save Configuration
+            </>
+          )}
+        </Button>
+        {hasChanges && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              if (originalConfig) {
+                setConfig({ ...originalConfig });
+                setHasChanges(false);
+              }
+            }}
+            disabled={isSaving}
+          >
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      <div className="pt-4 border-t space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="test-phone">Test Phone Number</Label>
+          <div className="flex gap-2">
+            <Input
+              id="test-phone"
+              type="tel"
+              value={testPhone}
+              onChange={(e) => setTestPhone(e.target.value)}
+              placeholder="+15551234567"
+              disabled={isTesting}
+            />
+            <Button
+              onClick={handleTest}
+              disabled={isTesting || !testPhone}
+              variant="outline"
+            >
+              {isTesting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Test
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
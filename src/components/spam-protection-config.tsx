@@ -0,0 +1,124 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import type { SpamProtectionConfig as SpamProtectionConfigData, SpamProtectionDifficulty } from '@/lib/config';
+import { requestApi } from '@/lib/api-client';
+
+export function SpamProtectionConfig() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [config, setConfig] = useState<SpamProtectionConfigData | null>(null);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  async function loadConfig() {
+    setIsLoading(true);
+    try {
+      const data = await requestApi('getSpamProtectionConfig');
+      setConfig({ enabled: data.enabled, difficulty: data.difficulty });
+    } catch (error) {
+      logger.error('Failed to load spam protection config:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSave() {
+    if (!config) return;
+
+    setIsSaving(true);
+    try {
+      const data = await requestApi('updateSpamProtectionConfig', { body: config });
+
+      setConfig({ enabled: data.enabled, difficulty: data.difficulty });
+      toast({
+        title: 'Spam protection saved!',
+        description: 'Public forms pick up the change on their next submission.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (isLoading || !config) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="spam-protection-enabled"
+          checked={config.enabled}
+          onCheckedChange={(checked) => setConfig({ ...config, enabled: checked as boolean })}
+        />
+        <Label htmlFor="spam-protection-enabled" className="text-sm font-normal cursor-pointer">
+          Require a spam check on public RSVPs, guest wall messages and password resets
+        </Label>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="spam-protection-difficulty">Difficulty</Label>
+        <Select
+          value={config.difficulty}
+          onValueChange={(value) => setConfig({ ...config, difficulty: value as SpamProtectionDifficulty })}
+          disabled={!config.enabled}
+        >
+          <SelectTrigger id="spam-protection-difficulty">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="low">Low (fastest for guests on older phones)</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="high">High (slowest for bots, and for guests)</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Guests&apos; browsers solve a small proof-of-work puzzle when they submit a form. Nothing is sent to
+          a third party. Hosts can turn the check off for individual events, and guests opening their own
+          RSVP link skip it.
+        </p>
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="w-4 h-4 mr-2" />
+            Save Configuration
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
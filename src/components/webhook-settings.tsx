@@ -0,0 +1,351 @@
+'use client';
+import { logger } from '@/lib/logger';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CopyButton } from '@/components/copy-button';
+import { Loader2, Plus, Send, Trash2, History } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { WEBHOOK_EVENT_DEFINITIONS, WEBHOOK_EVENT_TYPES, WebhookEventType } from '@/lib/webhook-events';
+import { cn } from '@/lib/utils';
+import { requestApi } from '@/lib/api-client';
+
+type DeliveryStatus = 'PENDING' | 'SENDING' | 'SENT' | 'FAILED';
+
+interface WebhookEntry {
+  id: string;
+  eventId: string | null;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  active: boolean;
+  createdAt: string;
+}
+
+interface WebhookDeliveryEntry {
+  id: string;
+  type: string;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  nextRetryAt: string;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+const statusConfig: Record<DeliveryStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Queued', className: 'bg-muted text-muted-foreground' },
+  SENDING: { label: 'Sending', className: 'bg-accent/15 text-accent' },
+  SENT: { label: 'Delivered', className: 'bg-primary/15 text-primary' },
+  FAILED: { label: 'Failed', className: 'bg-destructive/15 text-destructive' },
+};
+
+interface WebhookSettingsProps {
+  /** Manage this event's webhooks instead of the user's account-wide ones */
+  eventId?: string;
+}
+
+export function WebhookSettings({ eventId }: WebhookSettingsProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [webhooks, setWebhooks] = useState<WebhookEntry[]>([]);
+  const [url, setUrl] = useState('');
+  const [selectedTypes, setSelectedTypes] = useState<WebhookEventType[]>([...WEBHOOK_EVENT_TYPES]);
+  const [openHistoryId, setOpenHistoryId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryEntry[]>([]);
+  const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+
+  const loadWebhooks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await requestApi('listWebhooks', { query: { eventId } });
+      setWebhooks(data.webhooks);
+    } catch (error) {
+      logger.error('Failed to load webhooks:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  async function loadDeliveries(webhookId: string) {
+    setIsLoadingDeliveries(true);
+    try {
+      const data = await requestApi('listWebhookDeliveries', { params: { id: webhookId } });
+      setDeliveries(data.deliveries);
+    } catch (error) {
+      logger.error('Failed to load webhook deliveries:', error);
+    } finally {
+      setIsLoadingDeliveries(false);
+    }
+  }
+
+  function toggleHistory(webhookId: string) {
+    if (openHistoryId === webhookId) {
+      setOpenHistoryId(null);
+      return;
+    }
+    setOpenHistoryId(webhookId);
+    setDeliveries([]);
+    loadDeliveries(webhookId);
+  }
+
+  function toggleType(type: WebhookEventType, checked: boolean) {
+    setSelectedTypes((current) =>
+      checked ? [...current, type] : current.filter((selected) => selected !== type)
+    );
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const data = await requestApi('createWebhook', { body: { url, events: selectedTypes, eventId } });
+
+      setWebhooks((current) => [...current, data.webhook]);
+      setUrl('');
+      setSelectedTypes([...WEBHOOK_EVENT_TYPES]);
+      toast({
+        title: 'Webhook added',
+        description: 'Use the signing secret to check that calls come from OwnRSVP.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add webhook',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function handleToggleActive(webhook: WebhookEntry) {
+    setBusyId(webhook.id);
+    try {
+      const data = await requestApi('updateWebhook', {
+        params: { id: webhook.id },
+        body: { active: !webhook.active },
+      });
+
+      setWebhooks((current) => current.map((w) => (w.id === webhook.id ? data.webhook : w)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update webhook',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleTest(webhook: WebhookEntry) {
+    setBusyId(webhook.id);
+    try {
+      const data = await requestApi('testWebhook', { params: { id: webhook.id } });
+
+      if (data.success) {
+        toast({
+          title: 'Test delivered',
+          description: `Your endpoint answered with HTTP ${data.responseStatus}.`,
+        });
+      } else {
+        toast({
+          title: 'Test failed',
+          description: data.error || 'Your endpoint did not accept the test call.',
+          variant: 'destructive',
+        });
+      }
+
+      if (openHistoryId === webhook.id) {
+        await loadDeliveries(webhook.id);
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send test webhook',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(webhook: WebhookEntry) {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Queued calls to it will not be sent.`)) {
+      return;
+    }
+
+    setBusyId(webhook.id);
+    try {
+      await requestApi('deleteWebhook', { params: { id: webhook.id } });
+
+      setWebhooks((current) => current.filter((w) => w.id !== webhook.id));
+      if (openHistoryId === webhook.id) {
+        setOpenHistoryId(null);
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete webhook',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function describeDelivery(delivery: WebhookDeliveryEntry): string {
+    if (delivery.status === 'SENT' && delivery.deliveredAt) {
+      return `Delivered ${formatDistanceToNow(new Date(delivery.deliveredAt), { addSuffix: true })}`;
+    }
+    if (delivery.status === 'FAILED') {
+      return `Gave up after ${delivery.attempts} attempt${delivery.attempts !== 1 ? 's' : ''}`;
+    }
+    if (delivery.status === 'PENDING' && delivery.attempts > 0) {
+      return `Attempt ${delivery.attempts + 1} of ${delivery.maxAttempts} ${formatDistanceToNow(new Date(delivery.nextRetryAt), { addSuffix: true })}`;
+    }
+    return `Queued ${formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}`;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {webhooks.length > 0 && (
+        <div className="divide-y border rounded-[3px]">
+          {webhooks.map((webhook) => {
+            const isBusy = busyId === webhook.id;
+
+            return (
+              <div key={webhook.id} className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-mono text-sm break-all">{webhook.url}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {webhook.events.map((type) => WEBHOOK_EVENT_DEFINITIONS[type].label).join(' · ')}
+                    </p>
+                  </div>
+                  <Badge
+                    variant="secondary"
+                    className={cn('shrink-0', webhook.active ? 'bg-primary/15 text-primary' : 'bg-muted text-muted-foreground')}
+                  >
+                    {webhook.active ? 'Active' : 'Off'}
+                  </Badge>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`webhook-secret-${webhook.id}`} className="text-xs">Signing secret</Label>
+                  <div className="flex gap-2">
+                    <Input id={`webhook-secret-${webhook.id}`} value={webhook.secret} readOnly className="font-mono text-xs" />
+                    <CopyButton text={webhook.secret} />
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleTest(webhook)} disabled={isBusy || !webhook.active}>
+                    {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                    Send Test
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => toggleHistory(webhook.id)}>
+                    <History className="w-4 h-4 mr-2" />
+                    {openHistoryId === webhook.id ? 'Hide Deliveries' : 'Deliveries'}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleToggleActive(webhook)} disabled={isBusy}>
+                    {webhook.active ? 'Turn Off' : 'Turn On'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(webhook)} disabled={isBusy}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+                {openHistoryId === webhook.id && (
+                  isLoadingDeliveries ? (
+                    <div className="flex items-center justify-center py-4">
+                      <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : deliveries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+                  ) : (
+                    <div className="divide-y">
+                      {deliveries.map((delivery) => (
+                        <div key={delivery.id} className="py-2 flex items-start justify-between gap-4">
+                          <div className="min-w-0 space-y-1">
+                            <p className="text-sm font-medium">{delivery.type}</p>
+                            <p className="text-xs text-muted-foreground">{describeDelivery(delivery)}</p>
+                            {delivery.lastError && delivery.status !== 'SENT' && (
+                              <p className="text-xs text-destructive break-words">{delivery.lastError}</p>
+                            )}
+                          </div>
+                          <Badge
+                            variant="secondary"
+                            className={cn('w-[80px] justify-center shrink-0', statusConfig[delivery.status]?.className)}
+                          >
+                            {statusConfig[delivery.status]?.label || delivery.status}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={eventId ? 'webhook-url-event' : 'webhook-url'}>Endpoint URL</Label>
+          <Input
+            id={eventId ? 'webhook-url-event' : 'webhook-url'}
+            type="url"
+            placeholder="https://example.com/hooks/ownrsvp"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Send a call when</Label>
+          <div className="grid sm:grid-cols-2 gap-3">
+            {WEBHOOK_EVENT_TYPES.map((type) => (
+              <label key={type} className="flex items-start gap-2 cursor-pointer">
+                <Checkbox
+                  checked={selectedTypes.includes(type)}
+                  onCheckedChange={(checked) => toggleType(type, checked === true)}
+                  className="mt-0.5"
+                />
+                <span className="text-sm">
+                  <span className="font-medium">{WEBHOOK_EVENT_DEFINITIONS[type].label}</span>
+                  <span className="block text-xs text-muted-foreground">{WEBHOOK_EVENT_DEFINITIONS[type].description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button type="submit" size="sm" disabled={isCreating || selectedTypes.length === 0}>
+          {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Add Webhook
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  * Export all hooks from one place for easy imports
  */
 
-export { useApi } from './use-api';
+export { useApi, useApiOperation } from './use-api';
 export { useLocalStorage } from './use-local-storage';
 export { useConfirmation } from './use-confirmation';
 export { useDebounce } from './use-debounce';
@@ -1,10 +1,15 @@
 /**
  * Custom hook for API calls with loading and error states
  * Reduces boilerplate in components making API requests
+ *
+ * useApiOperation calls are typed from lib/api-routes, the same route list the
+ * OpenAPI document is generated from.
  */
 
 import { useState, useCallback } from 'react';
 import { useToast } from '@/components/ui/use-toast';
+import { ApiRequestArgs, requestApi } from '@/lib/api-client';
+import type { ApiOperationId, ApiResponseData } from '@/lib/api-routes';
 
 interface UseApiOptions<T> {
   onSuccess?: (data: T) => void;
@@ -13,11 +18,11 @@ interface UseApiOptions<T> {
   errorMessage?: string;
 }
 
-interface UseApiReturn<T> {
+interface UseApiReturn<T, Args extends unknown[]> {
   data: T | null;
   loading: boolean;
   error: Error | null;
-  execute: (...args: unknown[]) => Promise<T | null>;
+  execute: (...args: Args) => Promise<T | null>;
   reset: () => void;
 }
 
@@ -25,10 +30,7 @@ interface UseApiReturn<T> {
  * Hook for making API calls with automatic loading and error handling
  *
  * @example
- * const { loading, execute } = useApi(async (id: string) => {
- *   const res = await fetch(`/api/events/${id}`);
- *   return res.json();
- * }, {
+ * const { loading, execute } = useApi((id: string) => requestApi('getEventDetails', { params: { id } }), {
  *   successMessage: 'Event loaded!',
  *   onSuccess: (data) => console.log(data),
  * });
@@ -38,17 +40,17 @@ interface UseApiReturn<T> {
  *   {loading ? 'Loading...' : 'Load Event'}
  * </Button>
  */
-export function useApi<T>(
-  apiFunction: (...args: unknown[]) => Promise<T>,
+export function useApi<T, Args extends unknown[] = unknown[]>(
+  apiFunction: (...args: Args) => Promise<T>,
   options: UseApiOptions<T> = {}
-): UseApiReturn<T> {
+): UseApiReturn<T, Args> {
   const { toast } = useToast();
   const [data, setData] = useState<T | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
   const execute = useCallback(
-    async (...args: unknown[]) => {
+    async (...args: Args) => {
       try {
         setLoading(true);
         setError(null);
@@ -94,3 +96,22 @@ export function useApi<T>(
 
   return { data, loading, error, execute, reset };
 }
+
+/**
+ * useApi for an operation in lib/api-routes
+ *
+ * @example
+ * const { data, loading, execute } = useApiOperation('getEventDetails');
+ * execute({ params: { id: eventId } });
+ */
+export function useApiOperation<Op extends ApiOperationId>(
+  operation: Op,
+  options: UseApiOptions<ApiResponseData<Op>> = {}
+): UseApiReturn<ApiResponseData<Op>, ApiRequestArgs<Op>> {
+  const call = useCallback(
+    (...args: ApiRequestArgs<Op>) => requestApi(operation, ...args),
+    [operation]
+  );
+
+  return useApi(call, options);
+}
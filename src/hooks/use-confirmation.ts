@@ -18,7 +18,7 @@ interface UseConfirmationReturn {
  *
  * @example
  * const deletion = useConfirmation(async () => {
- *   await fetch(`/api/events/${id}`, { method: 'DELETE' });
+ *   await requestApi('deleteEvent', { params: { id } });
  *   router.refresh();
  * });
  *
@@ -0,0 +1,137 @@
+/**
+ * Typed calls to the app's own API, checked against the route list in
+ * lib/api-routes that the OpenAPI document is generated from
+ */
+
+import {
+  API_ROUTES,
+  ApiOperationId,
+  ApiPathParams,
+  ApiQuery,
+  ApiRequestBody,
+  ApiResponseData,
+  ApiRouteDefinition,
+  buildApiPath,
+} from './api-routes';
+
+/**
+ * A request the API answered with an error status. The message is the API's
+ * "error"; body holds the whole JSON response, for routes that send more details.
+ */
+export class ApiError extends Error {
+  status: number;
+  body: Record<string, unknown> | null;
+
+  constructor(message: string, status: number, body: Record<string, unknown> | null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Path parameters, query and body of a call. Without a token the request goes out
+ * with the browser's cookies only.
+ */
+export type ApiRequestOptions<Op extends ApiOperationId> = ([keyof ApiPathParams<Op>] extends [never]
+  ? { params?: undefined }
+  : { params: ApiPathParams<Op> }) &
+  ([ApiRequestBody<Op>] extends [never] ? { body?: undefined } : { body: ApiRequestBody<Op> }) & {
+    query?: ApiQuery<Op>;
+    token?: string;
+  };
+
+/**
+ * Arguments after the operation: the options, which can be left out when nothing is required
+ */
+export type ApiRequestArgs<Op extends ApiOperationId> = object extends ApiRequestOptions<Op>
+  ? [options?: ApiRequestOptions<Op>]
+  : [options: ApiRequestOptions<Op>];
+
+// The name a download is saved under, from its Content-Disposition header
+function downloadName(response: Response, path: string): string {
+  const match = response.headers.get('Content-Disposition')?.match(/filename="?([^";]+)"?/);
+  return match ? match[1] : path.split('/').pop() || 'download';
+}
+
+function toFormData(body: Record<string, unknown>): FormData {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(body)) {
+    if (value instanceof Blob) {
+      formData.append(name, value);
+    } else if (value !== undefined && value !== null) {
+      formData.append(name, String(value));
+    }
+  }
+  return formData;
+}
+
+/**
+ * Call an API operation. Resolves with the JSON response (the "data" of a /api/v1
+ * call) or the file of a download, and throws an ApiError if the call fails.
+ *
+ * @example
+ * const { guests } = await requestApi('listGuests', {
+ *   params: { id: eventId },
+ *   query: { status: 'ATTENDING' },
+ *   token,
+ * });
+ */
+export async function requestApi<Op extends ApiOperationId>(
+  operation: Op,
+  ...[options]: ApiRequestArgs<Op>
+): Promise<ApiResponseData<Op>> {
+  const route: ApiRouteDefinition = API_ROUTES[operation];
+  const { params, query, body, token } = (options || {}) as {
+    params?: Record<string, string>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+    token?: string;
+  };
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query || {})) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value));
+    }
+  }
+
+  const queryString = search.toString();
+  const url = buildApiPath(route.path, params) + (queryString ? `?${queryString}` : '');
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  let requestBody: BodyInit | undefined;
+  if (body !== undefined) {
+    if (route.bodyType === 'multipart/form-data') {
+      // The browser sets the multipart boundary itself
+      requestBody = toFormData(body as Record<string, unknown>);
+    } else {
+      headers['Content-Type'] = 'application/json';
+      requestBody = JSON.stringify(body);
+    }
+  }
+
+  const response = await fetch(url, {
+    method: route.method,
+    headers,
+    cache: 'no-store',
+    ...(requestBody !== undefined && { body: requestBody }),
+  });
+
+  if (route.contentType && response.ok) {
+    const blob = await response.blob();
+    return new File([blob], downloadName(response, url.split('?')[0]), { type: blob.type }) as ApiResponseData<Op>;
+  }
+
+  const json = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new ApiError(json?.error || `Request failed with status ${response.status}`, response.status, json);
+  }
+
+  return (route.auth === 'token' ? json?.data : json) as ApiResponseData<Op>;
+}
@@ -92,6 +92,24 @@ export function notFoundResponse(resource: string = 'Resource'): NextResponse<Er
   return errorResponse(`${resource} not found`, 404, 'NOT_FOUND');
 }
 
+/**
+ * Handle rate limited requests, telling the client when it can try again
+ */
+export function tooManyRequestsResponse(retryAfterSeconds: number): NextResponse<ErrorResponse> {
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  const wait = minutes <= 1 ? 'a minute' : `${minutes} minutes`;
+
+  return NextResponse.json(
+    { error: `Too many requests. Please try again in ${wait}.`, code: 'RATE_LIMITED' },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(retryAfterSeconds),
+      },
+    }
+  );
+}
+
 /**
  * Handle validation errors (Zod)
  */
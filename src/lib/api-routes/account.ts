@@ -0,0 +1,238 @@
+/**
+ * Signing up, password resets and the signed-in user's own settings: profile,
+ * API tokens, calendar feeds and webhooks
+ */
+
+import type { ApiRouteDefinition } from './types';
+import {
+  acceptInvitationResponseSchema,
+  acceptInvitationSchema,
+  apiTokenListResponseSchema,
+  calendarFeedResponseSchema,
+  calendarFeedsResponseSchema,
+  createApiTokenResponseSchema,
+  createApiTokenSchema,
+  createUserResponseSchema,
+  createWebhookSchema,
+  forgotPasswordSchema,
+  invitationResponseSchema,
+  messageResponseSchema,
+  profileResponseSchema,
+  publicRegisterSchema,
+  registrationStatusResponseSchema,
+  resetPasswordQuerySchema,
+  resetPasswordSchema,
+  resetTokenStatusResponseSchema,
+  successResponseSchema,
+  updateProfileResponseSchema,
+  updateProfileSchema,
+  updateWebhookSchema,
+  webhookDeliveryListResponseSchema,
+  webhookListQuerySchema,
+  webhookListResponseSchema,
+  webhookResponseSchema,
+  webhookTestResponseSchema,
+} from '../schemas';
+
+export const ACCOUNT_ROUTES = {
+  getRegistrationStatus: {
+    method: 'GET',
+    path: '/api/auth/public-register',
+    summary: 'Whether the first admin can sign up',
+    description: 'Sign-up is only open while no accounts exist.',
+    tag: 'Account',
+    auth: 'public',
+    response: registrationStatusResponseSchema,
+  },
+  registerFirstAdmin: {
+    method: 'POST',
+    path: '/api/auth/public-register',
+    summary: 'Create the first admin',
+    tag: 'Account',
+    auth: 'public',
+    body: publicRegisterSchema,
+    response: createUserResponseSchema,
+  },
+  getInvitation: {
+    method: 'GET',
+    path: '/api/auth/invite/{token}',
+    summary: 'Check an account invitation',
+    tag: 'Account',
+    auth: 'public',
+    response: invitationResponseSchema,
+  },
+  acceptInvitation: {
+    method: 'POST',
+    path: '/api/auth/invite/{token}',
+    summary: 'Accept an account invitation',
+    description: 'Sets the password, and the username for accounts created with a placeholder one.',
+    tag: 'Account',
+    auth: 'public',
+    body: acceptInvitationSchema,
+    response: acceptInvitationResponseSchema,
+  },
+  requestPasswordReset: {
+    method: 'POST',
+    path: '/api/auth/forgot-password',
+    summary: 'Email a password reset link',
+    description: 'Answers the same whether or not the account exists.',
+    tag: 'Account',
+    auth: 'public',
+    body: forgotPasswordSchema,
+    response: messageResponseSchema,
+    rateLimited: true,
+  },
+  checkPasswordResetToken: {
+    method: 'GET',
+    path: '/api/auth/reset-password',
+    summary: 'Check a password reset link',
+    tag: 'Account',
+    auth: 'public',
+    query: resetPasswordQuerySchema,
+    response: resetTokenStatusResponseSchema,
+  },
+  resetPassword: {
+    method: 'POST',
+    path: '/api/auth/reset-password',
+    summary: 'Set a new password',
+    tag: 'Account',
+    auth: 'public',
+    body: resetPasswordSchema,
+    response: messageResponseSchema,
+  },
+  getProfile: {
+    method: 'GET',
+    path: '/api/user/profile',
+    summary: 'Your profile',
+    tag: 'Account',
+    auth: 'session',
+    response: profileResponseSchema,
+  },
+  updateProfile: {
+    method: 'PATCH',
+    path: '/api/user/profile',
+    summary: 'Update your profile',
+    description: 'Changing the password takes the current one.',
+    tag: 'Account',
+    auth: 'session',
+    body: updateProfileSchema,
+    response: updateProfileResponseSchema,
+  },
+  listApiTokens: {
+    method: 'GET',
+    path: '/api/user/api-tokens',
+    summary: 'List your API tokens',
+    description: 'The tokens themselves are only shown when created.',
+    tag: 'Account',
+    auth: 'session',
+    response: apiTokenListResponseSchema,
+  },
+  createApiToken: {
+    method: 'POST',
+    path: '/api/user/api-tokens',
+    summary: 'Create an API token',
+    tag: 'Account',
+    auth: 'session',
+    body: createApiTokenSchema,
+    response: createApiTokenResponseSchema,
+    status: 201,
+  },
+  revokeApiToken: {
+    method: 'DELETE',
+    path: '/api/user/api-tokens/{id}',
+    summary: 'Revoke an API token',
+    tag: 'Account',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  getCalendarFeeds: {
+    method: 'GET',
+    path: '/api/user/calendar-feeds',
+    summary: 'Your calendar feed link',
+    description: 'The link to the events you host, or null until created.',
+    tag: 'Account',
+    auth: 'session',
+    response: calendarFeedsResponseSchema,
+  },
+  resetCalendarFeed: {
+    method: 'POST',
+    path: '/api/user/calendar-feeds',
+    summary: 'Create or replace your calendar feed link',
+    description: 'A new link stops the old one from working.',
+    tag: 'Account',
+    auth: 'session',
+    response: calendarFeedResponseSchema,
+  },
+  revokeCalendarFeed: {
+    method: 'DELETE',
+    path: '/api/user/calendar-feeds',
+    summary: 'Turn off your calendar feed link',
+    tag: 'Account',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  sendInvitedCalendarFeed: {
+    method: 'POST',
+    path: '/api/user/calendar-feeds/invited',
+    summary: 'Email yourself your invitations feed',
+    description: 'The feed covers every event your account email is invited to. Account emails aren\'t verified, so the link is emailed rather than returned.',
+    tag: 'Account',
+    auth: 'session',
+    response: messageResponseSchema,
+    rateLimited: true,
+  },
+  listWebhooks: {
+    method: 'GET',
+    path: '/api/webhooks',
+    summary: 'List webhooks',
+    description: 'Your webhooks covering every event, or with eventId the ones for that event.',
+    tag: 'Account',
+    auth: 'session',
+    query: webhookListQuerySchema,
+    response: webhookListResponseSchema,
+  },
+  createWebhook: {
+    method: 'POST',
+    path: '/api/webhooks',
+    summary: 'Add a webhook',
+    tag: 'Account',
+    auth: 'session',
+    body: createWebhookSchema,
+    response: webhookResponseSchema,
+    status: 201,
+  },
+  updateWebhook: {
+    method: 'PATCH',
+    path: '/api/webhooks/{id}',
+    summary: 'Update a webhook',
+    tag: 'Account',
+    auth: 'session',
+    body: updateWebhookSchema,
+    response: webhookResponseSchema,
+  },
+  deleteWebhook: {
+    method: 'DELETE',
+    path: '/api/webhooks/{id}',
+    summary: 'Delete a webhook',
+    tag: 'Account',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  listWebhookDeliveries: {
+    method: 'GET',
+    path: '/api/webhooks/{id}/deliveries',
+    summary: 'Recent deliveries of a webhook',
+    tag: 'Account',
+    auth: 'session',
+    response: webhookDeliveryListResponseSchema,
+  },
+  testWebhook: {
+    method: 'POST',
+    path: '/api/webhooks/{id}/test',
+    summary: 'Send a test delivery',
+    description: 'Sends a "ping" right away and reports how the endpoint answered.',
+    tag: 'Account',
+    auth: 'session',
+    response: webhookTestResponseSchema,
+  },
+} as const satisfies Record<string, ApiRouteDefinition>;
@@ -0,0 +1,299 @@
+/**
+ * The admin settings pages. Called with an admin's session.
+ */
+
+import type { ApiRouteDefinition } from './types';
+import {
+  appUrlConfigResponseSchema,
+  appUrlConfigSchema,
+  bulkDeleteEventsResponseSchema,
+  bulkDeleteEventsSchema,
+  configStatusResponseSchema,
+  createUserResponseSchema,
+  createUserSchema,
+  emailConfigResponseSchema,
+  emailConfigSchema,
+  emailTemplateListResponseSchema,
+  emailTemplateResponseSchema,
+  emailTemplateSchema,
+  mediaStorageResponseSchema,
+  messageResponseSchema,
+  migrateCoverImagesResponseSchema,
+  outboxQuerySchema,
+  outboxResponseSchema,
+  rateLimitConfigResponseSchema,
+  rateLimitConfigSchema,
+  restartMethodResponseSchema,
+  restartResponseSchema,
+  retryEmailResponseSchema,
+  smsConfigResponseSchema,
+  smsConfigSchema,
+  smtpStatusResponseSchema,
+  smtpTestResponseSchema,
+  spamProtectionConfigResponseSchema,
+  spamProtectionConfigSchema,
+  successResponseSchema,
+  testEmailSchema,
+  testSmsResponseSchema,
+  testSmsSchema,
+  updateAppUrlConfigResponseSchema,
+  updateEmailConfigResponseSchema,
+  updateRateLimitConfigResponseSchema,
+  updateSmsConfigResponseSchema,
+  updateSpamProtectionConfigResponseSchema,
+  updateUserResponseSchema,
+  updateUserSchema,
+} from '../schemas';
+
+export const ADMIN_ROUTES = {
+  getConfigStatus: {
+    method: 'GET',
+    path: '/api/admin/config',
+    summary: 'Which services are set up',
+    tag: 'Admin',
+    auth: 'admin',
+    response: configStatusResponseSchema,
+  },
+  getAppUrlConfig: {
+    method: 'GET',
+    path: '/api/admin/config/app',
+    summary: 'Public address of the app',
+    tag: 'Admin',
+    auth: 'admin',
+    response: appUrlConfigResponseSchema,
+  },
+  updateAppUrlConfig: {
+    method: 'PATCH',
+    path: '/api/admin/config/app',
+    summary: 'Set the public address of the app',
+    tag: 'Admin',
+    auth: 'admin',
+    body: appUrlConfigSchema,
+    response: updateAppUrlConfigResponseSchema,
+  },
+  getEmailConfig: {
+    method: 'GET',
+    path: '/api/admin/config/email',
+    summary: 'SMTP settings',
+    tag: 'Admin',
+    auth: 'admin',
+    response: emailConfigResponseSchema,
+  },
+  updateEmailConfig: {
+    method: 'PATCH',
+    path: '/api/admin/config/email',
+    summary: 'Save SMTP settings',
+    tag: 'Admin',
+    auth: 'admin',
+    body: emailConfigSchema,
+    response: updateEmailConfigResponseSchema,
+  },
+  sendTestEmail: {
+    method: 'POST',
+    path: '/api/admin/config/email',
+    summary: 'Send a test email with the saved SMTP settings',
+    tag: 'Admin',
+    auth: 'admin',
+    body: testEmailSchema,
+    response: messageResponseSchema,
+  },
+  getRateLimitConfig: {
+    method: 'GET',
+    path: '/api/admin/config/rate-limit',
+    summary: 'Rate limits',
+    description: 'The saved limits, with the defaults they go back to.',
+    tag: 'Admin',
+    auth: 'admin',
+    response: rateLimitConfigResponseSchema,
+  },
+  updateRateLimitConfig: {
+    method: 'PATCH',
+    path: '/api/admin/config/rate-limit',
+    summary: 'Save rate limits',
+    tag: 'Admin',
+    auth: 'admin',
+    body: rateLimitConfigSchema,
+    response: updateRateLimitConfigResponseSchema,
+  },
+  getSmsConfig: {
+    method: 'GET',
+    path: '/api/admin/config/sms',
+    summary: 'SMS settings',
+    tag: 'Admin',
+    auth: 'admin',
+    response: smsConfigResponseSchema,
+  },
+  updateSmsConfig: {
+    method: 'PATCH',
+    path: '/api/admin/config/sms',
+    summary: 'Save SMS settings',
+    tag: 'Admin',
+    auth: 'admin',
+    body: smsConfigSchema,
+    response: updateSmsConfigResponseSchema,
+  },
+  sendTestSms: {
+    method: 'POST',
+    path: '/api/admin/config/sms',
+    summary: 'Send a test text with the saved SMS settings',
+    tag: 'Admin',
+    auth: 'admin',
+    body: testSmsSchema,
+    response: testSmsResponseSchema,
+  },
+  getSpamProtectionConfig: {
+    method: 'GET',
+    path: '/api/admin/config/spam-protection',
+    summary: 'Spam protection settings',
+    tag: 'Admin',
+    auth: 'admin',
+    response: spamProtectionConfigResponseSchema,
+  },
+  updateSpamProtectionConfig: {
+    method: 'PATCH',
+    path: '/api/admin/config/spam-protection',
+    summary: 'Save spam protection settings',
+    tag: 'Admin',
+    auth: 'admin',
+    body: spamProtectionConfigSchema,
+    response: updateSpamProtectionConfigResponseSchema,
+  },
+  getSmtpStatus: {
+    method: 'GET',
+    path: '/api/test-email',
+    summary: 'Check the SMTP settings',
+    description: 'Which settings are missing, and warnings about ones that look wrong.',
+    tag: 'Admin',
+    auth: 'admin',
+    response: smtpStatusResponseSchema,
+  },
+  sendSmtpTestEmail: {
+    method: 'POST',
+    path: '/api/test-email',
+    summary: 'Send a test email and report the SMTP settings used',
+    tag: 'Admin',
+    auth: 'admin',
+    body: testEmailSchema,
+    response: smtpTestResponseSchema,
+  },
+  listEmailTemplates: {
+    method: 'GET',
+    path: '/api/admin/email-templates',
+    summary: 'List the site-wide email templates',
+    tag: 'Admin',
+    auth: 'admin',
+    response: emailTemplateListResponseSchema,
+  },
+  saveEmailTemplate: {
+    method: 'PUT',
+    path: '/api/admin/email-templates/{name}',
+    summary: 'Save a site-wide email template',
+    tag: 'Admin',
+    auth: 'admin',
+    body: emailTemplateSchema,
+    response: emailTemplateResponseSchema,
+  },
+  resetEmailTemplate: {
+    method: 'DELETE',
+    path: '/api/admin/email-templates/{name}',
+    summary: 'Go back to the built-in email template',
+    tag: 'Admin',
+    auth: 'admin',
+    response: emailTemplateResponseSchema,
+  },
+  listOutbox: {
+    method: 'GET',
+    path: '/api/admin/outbox',
+    summary: 'Email delivery log for every event',
+    tag: 'Admin',
+    auth: 'admin',
+    query: outboxQuerySchema,
+    response: outboxResponseSchema,
+  },
+  retryEmail: {
+    method: 'POST',
+    path: '/api/admin/outbox/{messageId}/retry',
+    summary: 'Retry a queued email now',
+    tag: 'Admin',
+    auth: 'admin',
+    response: retryEmailResponseSchema,
+  },
+  adminDeleteEvents: {
+    method: 'POST',
+    path: '/api/admin/events/bulk-delete',
+    summary: 'Delete any events',
+    tag: 'Admin',
+    auth: 'admin',
+    body: bulkDeleteEventsSchema,
+    response: bulkDeleteEventsResponseSchema,
+  },
+  createUser: {
+    method: 'POST',
+    path: '/api/auth/register',
+    summary: 'Create an account',
+    description: 'Without a password, the person is emailed an invitation to set one.',
+    tag: 'Admin',
+    auth: 'admin',
+    body: createUserSchema,
+    response: createUserResponseSchema,
+  },
+  updateUser: {
+    method: 'PATCH',
+    path: '/api/admin/users/{userId}',
+    summary: 'Update an account',
+    tag: 'Admin',
+    auth: 'admin',
+    body: updateUserSchema,
+    response: updateUserResponseSchema,
+  },
+  deleteUser: {
+    method: 'DELETE',
+    path: '/api/admin/users/{userId}',
+    summary: 'Delete an account',
+    tag: 'Admin',
+    auth: 'admin',
+    response: successResponseSchema,
+  },
+  getMediaStorage: {
+    method: 'GET',
+    path: '/api/admin/media',
+    summary: 'Image storage',
+    description: 'Where uploads are stored, and how many cover images are still saved in the database.',
+    tag: 'Admin',
+    auth: 'admin',
+    response: mediaStorageResponseSchema,
+  },
+  migrateCoverImages: {
+    method: 'POST',
+    path: '/api/admin/media',
+    summary: 'Move cover images out of the database',
+    tag: 'Admin',
+    auth: 'admin',
+    response: migrateCoverImagesResponseSchema,
+  },
+  getRestartMethod: {
+    method: 'GET',
+    path: '/api/admin/restart',
+    summary: 'How the server would be restarted',
+    tag: 'Admin',
+    auth: 'admin',
+    response: restartMethodResponseSchema,
+  },
+  restartServer: {
+    method: 'POST',
+    path: '/api/admin/restart',
+    summary: 'Restart the server',
+    tag: 'Admin',
+    auth: 'admin',
+    response: restartResponseSchema,
+  },
+  factoryReset: {
+    method: 'POST',
+    path: '/api/admin/factory-reset',
+    summary: 'Delete all data',
+    description: 'Removes every account, event and setting. The next visitor creates a new admin.',
+    tag: 'Admin',
+    auth: 'admin',
+    response: messageResponseSchema,
+  },
+} as const satisfies Record<string, ApiRouteDefinition>;
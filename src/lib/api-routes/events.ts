@@ -0,0 +1,319 @@
+/**
+ * Event pages of the app: creating and editing events and everything on the
+ * manage pages other than the guest list. Called with the host's session.
+ */
+
+import type { ApiRouteDefinition } from './types';
+import {
+  addCoHostSchema,
+  broadcastResponseSchema,
+  broadcastSchema,
+  bulkDeleteEventsResponseSchema,
+  bulkDeleteEventsSchema,
+  checkInListResponseSchema,
+  checkInQuerySchema,
+  checkInResponseSchema,
+  checkInSchema,
+  coHostListResponseSchema,
+  coHostResponseSchema,
+  commentResponseSchema,
+  createEventResponseSchema,
+  createEventSchema,
+  createSessionSchema,
+  deleteEventQuerySchema,
+  deleteEventResponseSchema,
+  emailTemplateListResponseSchema,
+  emailTemplateResponseSchema,
+  emailTemplateSchema,
+  embedOriginsResponseSchema,
+  eventDetailsResponseSchema,
+  eventListResponseSchema,
+  eventResponseSchema,
+  eventUpdateListResponseSchema,
+  mediaUploadResponseSchema,
+  mediaUploadSchema,
+  moderateCommentSchema,
+  outboxQuerySchema,
+  outboxResponseSchema,
+  retryEmailResponseSchema,
+  sessionListResponseSchema,
+  sessionResponseSchema,
+  successResponseSchema,
+  updateCoHostSchema,
+  updateEmbedSchema,
+  updateEventResponseSchema,
+  updateEventSchema,
+  updateQuestionsSchema,
+  updateRemindersSchema,
+  updateSessionSchema,
+} from '../schemas';
+
+export const EVENT_ROUTES = {
+  listHostedEvents: {
+    method: 'GET',
+    path: '/api/events',
+    summary: 'List your events',
+    description: 'Events you host or co-host, soonest first.',
+    tag: 'Event management',
+    auth: 'session',
+    response: eventListResponseSchema,
+  },
+  createEvent: {
+    method: 'POST',
+    path: '/api/events',
+    summary: 'Create an event',
+    description: 'With a recurrence rule, creates every date of the series.',
+    tag: 'Event management',
+    auth: 'session',
+    body: createEventSchema,
+    response: createEventResponseSchema,
+  },
+  bulkDeleteEvents: {
+    method: 'POST',
+    path: '/api/events/bulk-delete',
+    summary: 'Delete several events',
+    description: 'Events you can\'t delete are left alone and counted as failed.',
+    tag: 'Event management',
+    auth: 'session',
+    body: bulkDeleteEventsSchema,
+    response: bulkDeleteEventsResponseSchema,
+  },
+  getEventDetails: {
+    method: 'GET',
+    path: '/api/events/{id}',
+    summary: 'Get an event with its guests',
+    description: 'The event with its guest list, messages, hosts and updates.',
+    tag: 'Event management',
+    auth: 'session',
+    response: eventDetailsResponseSchema,
+  },
+  updateEvent: {
+    method: 'PATCH',
+    path: '/api/events/{id}',
+    summary: 'Update an event',
+    description: 'For a repeating event, scope picks which dates change. notifyGuests emails guests about a new date or place.',
+    tag: 'Event management',
+    auth: 'session',
+    body: updateEventSchema,
+    response: updateEventResponseSchema,
+  },
+  deleteEvent: {
+    method: 'DELETE',
+    path: '/api/events/{id}',
+    summary: 'Delete an event',
+    description: 'For a repeating event, scope picks which dates go. notify=true tells guests it was cancelled.',
+    tag: 'Event management',
+    auth: 'session',
+    query: deleteEventQuerySchema,
+    response: deleteEventResponseSchema,
+  },
+  listEventUpdates: {
+    method: 'GET',
+    path: '/api/events/{id}/broadcast',
+    summary: 'List sent updates',
+    tag: 'Event management',
+    auth: 'session',
+    response: eventUpdateListResponseSchema,
+  },
+  broadcastUpdate: {
+    method: 'POST',
+    path: '/api/events/{id}/broadcast',
+    summary: 'Message guests',
+    description: 'Sends an update by email, SMS or both to every guest with the chosen status.',
+    tag: 'Event management',
+    auth: 'session',
+    body: broadcastSchema,
+    response: broadcastResponseSchema,
+  },
+  getCheckInList: {
+    method: 'GET',
+    path: '/api/events/{id}/check-in',
+    summary: 'Check-in list',
+    description: 'Everyone expected at the door with check-in totals, or with ?token= the guest behind a scanned ticket.',
+    tag: 'Event management',
+    auth: 'session',
+    query: checkInQuerySchema,
+    response: checkInListResponseSchema,
+  },
+  checkInGuest: {
+    method: 'POST',
+    path: '/api/events/{id}/check-in',
+    summary: 'Check a guest in',
+    description: 'Checks in the guest and the chosen people they brought, or undoes it.',
+    tag: 'Event management',
+    auth: 'session',
+    body: checkInSchema,
+    response: checkInResponseSchema,
+  },
+  listEventCoHosts: {
+    method: 'GET',
+    path: '/api/events/{id}/cohosts',
+    summary: 'List co-hosts',
+    tag: 'Event management',
+    auth: 'session',
+    response: coHostListResponseSchema,
+  },
+  addCoHost: {
+    method: 'POST',
+    path: '/api/events/{id}/cohosts',
+    summary: 'Add a co-host',
+    description: 'The person needs an account. Only the event\'s host can add co-hosts.',
+    tag: 'Event management',
+    auth: 'session',
+    body: addCoHostSchema,
+    response: coHostResponseSchema,
+  },
+  updateCoHost: {
+    method: 'PATCH',
+    path: '/api/events/{id}/cohosts/{cohostId}',
+    summary: 'Change a co-host\'s role',
+    tag: 'Event management',
+    auth: 'session',
+    body: updateCoHostSchema,
+    response: coHostResponseSchema,
+  },
+  removeCoHost: {
+    method: 'DELETE',
+    path: '/api/events/{id}/cohosts/{cohostId}',
+    summary: 'Remove a co-host',
+    tag: 'Event management',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  listEventEmailTemplates: {
+    method: 'GET',
+    path: '/api/events/{id}/email-templates',
+    summary: 'List the event\'s email templates',
+    description: 'Each email with the event\'s own wording, or the site-wide template when it has none.',
+    tag: 'Event management',
+    auth: 'session',
+    response: emailTemplateListResponseSchema,
+  },
+  saveEventEmailTemplate: {
+    method: 'PUT',
+    path: '/api/events/{id}/email-templates/{name}',
+    summary: 'Save an email template for the event',
+    tag: 'Event management',
+    auth: 'session',
+    body: emailTemplateSchema,
+    response: emailTemplateResponseSchema,
+  },
+  resetEventEmailTemplate: {
+    method: 'DELETE',
+    path: '/api/events/{id}/email-templates/{name}',
+    summary: 'Go back to the site-wide email template',
+    tag: 'Event management',
+    auth: 'session',
+    response: emailTemplateResponseSchema,
+  },
+  updateEmbedOrigins: {
+    method: 'PATCH',
+    path: '/api/events/{id}/embed',
+    summary: 'Set the sites that can embed the RSVP widget',
+    tag: 'Event management',
+    auth: 'session',
+    body: updateEmbedSchema,
+    response: embedOriginsResponseSchema,
+  },
+  listEventOutbox: {
+    method: 'GET',
+    path: '/api/events/{id}/outbox',
+    summary: 'Email delivery log',
+    description: 'Emails sent for the event, latest first, with delivery totals.',
+    tag: 'Event management',
+    auth: 'session',
+    query: outboxQuerySchema,
+    response: outboxResponseSchema,
+  },
+  retryEventEmail: {
+    method: 'POST',
+    path: '/api/events/{id}/outbox/{messageId}/retry',
+    summary: 'Retry a failed email',
+    tag: 'Event management',
+    auth: 'session',
+    response: retryEmailResponseSchema,
+  },
+  updateRsvpQuestions: {
+    method: 'PATCH',
+    path: '/api/events/{id}/questions',
+    summary: 'Set the RSVP form\'s questions',
+    tag: 'Event management',
+    auth: 'session',
+    body: updateQuestionsSchema,
+    response: eventResponseSchema,
+  },
+  updateReminderSchedule: {
+    method: 'PATCH',
+    path: '/api/events/{id}/reminders',
+    summary: 'Set when reminders go out',
+    tag: 'Event management',
+    auth: 'session',
+    body: updateRemindersSchema,
+    response: eventResponseSchema,
+  },
+  listSessions: {
+    method: 'GET',
+    path: '/api/events/{id}/sessions',
+    summary: 'List sessions',
+    description: 'The event\'s sessions, in order, with who is invited and how many have answered.',
+    tag: 'Event management',
+    auth: 'session',
+    response: sessionListResponseSchema,
+  },
+  createSession: {
+    method: 'POST',
+    path: '/api/events/{id}/sessions',
+    summary: 'Add a session',
+    tag: 'Event management',
+    auth: 'session',
+    body: createSessionSchema,
+    response: sessionResponseSchema,
+  },
+  updateSession: {
+    method: 'PATCH',
+    path: '/api/events/{id}/sessions/{sessionId}',
+    summary: 'Update a session',
+    tag: 'Event management',
+    auth: 'session',
+    body: updateSessionSchema,
+    response: sessionResponseSchema,
+  },
+  deleteSession: {
+    method: 'DELETE',
+    path: '/api/events/{id}/sessions/{sessionId}',
+    summary: 'Delete a session',
+    tag: 'Event management',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  moderateComment: {
+    method: 'PATCH',
+    path: '/api/comments/{id}',
+    summary: 'Moderate a message',
+    description: 'Approve, hide or pin a message on the event page.',
+    tag: 'Event management',
+    auth: 'session',
+    body: moderateCommentSchema,
+    response: commentResponseSchema,
+  },
+  deleteComment: {
+    method: 'DELETE',
+    path: '/api/comments/{id}',
+    summary: 'Delete a message',
+    tag: 'Event management',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  uploadImage: {
+    method: 'POST',
+    path: '/api/media',
+    summary: 'Upload an image',
+    description: 'Cover images, resized in the browser first. Only the original is required; the server makes any sizes left out. Returns the URL to save on the event.',
+    tag: 'Event management',
+    auth: 'session',
+    body: mediaUploadSchema,
+    bodyType: 'multipart/form-data',
+    response: mediaUploadResponseSchema,
+    status: 201,
+  },
+} as const satisfies Record<string, ApiRouteDefinition>;
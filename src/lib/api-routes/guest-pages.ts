@@ -0,0 +1,159 @@
+/**
+ * Pages guests see: RSVP forms, the event page's message wall and the embedded
+ * widget. Anyone can call these; guests use the token from their RSVP link.
+ */
+
+import type { ApiRouteDefinition } from './types';
+import {
+  challengeResponseSchema,
+  commentResponseSchema,
+  commentSchema,
+  embedOriginListResponseSchema,
+  headcountResponseSchema,
+  mediaQuerySchema,
+  messageResponseSchema,
+  publicRsvpSchema,
+  quickRsvpSchema,
+  rsvpDetailsResponseSchema,
+  rsvpSubmitResponseSchema,
+  rsvpUpdateResponseSchema,
+  sendEditLinkSchema,
+  updateRsvpSchema,
+} from '../schemas';
+
+export const GUEST_PAGE_ROUTES = {
+  submitRsvp: {
+    method: 'POST',
+    path: '/api/rsvp',
+    summary: 'RSVP to a public event',
+    description: 'If the email is already on the guest list, the guest is emailed a code to confirm with instead.',
+    tag: 'Guest pages',
+    auth: 'public',
+    body: publicRsvpSchema,
+    response: rsvpSubmitResponseSchema,
+    rateLimited: true,
+  },
+  sendRsvpEditLink: {
+    method: 'POST',
+    path: '/api/rsvp/send-edit-link',
+    summary: 'Email a guest the link to change their RSVP',
+    description: 'Answers the same whether or not the email has an RSVP.',
+    tag: 'Guest pages',
+    auth: 'public',
+    body: sendEditLinkSchema,
+    response: messageResponseSchema,
+    rateLimited: true,
+  },
+  getRsvp: {
+    method: 'GET',
+    path: '/api/rsvp/{token}',
+    summary: 'Get a guest\'s RSVP',
+    tag: 'Guest pages',
+    auth: 'public',
+    response: rsvpDetailsResponseSchema,
+  },
+  updateRsvp: {
+    method: 'PATCH',
+    path: '/api/rsvp/{token}',
+    summary: 'Change a guest\'s RSVP',
+    tag: 'Guest pages',
+    auth: 'public',
+    body: updateRsvpSchema,
+    response: rsvpUpdateResponseSchema,
+  },
+  openQuickRsvp: {
+    method: 'GET',
+    path: '/api/rsvp/{token}/quick',
+    summary: 'Follow a one-click RSVP link',
+    description: 'Redirects to a page confirming the answer, without recording it, since mail scanners open links too.',
+    tag: 'Guest pages',
+    auth: 'public',
+    query: quickRsvpSchema,
+    status: 302,
+  },
+  submitQuickRsvp: {
+    method: 'POST',
+    path: '/api/rsvp/{token}/quick',
+    summary: 'Record a one-click RSVP',
+    description: 'Posted by the confirmation page\'s form; redirects back to the guest\'s RSVP page.',
+    tag: 'Guest pages',
+    auth: 'public',
+    body: quickRsvpSchema,
+    bodyType: 'application/x-www-form-urlencoded',
+    status: 303,
+  },
+  getTicket: {
+    method: 'GET',
+    path: '/api/rsvp/{token}/ticket',
+    summary: 'Ticket QR code',
+    description: 'A PNG for the door. Only attending guests have a ticket.',
+    tag: 'Guest pages',
+    auth: 'public',
+    contentType: 'image/png',
+  },
+  sendGuestCalendarFeed: {
+    method: 'POST',
+    path: '/api/rsvp/{token}/calendar-feed',
+    summary: 'Email a guest their calendar feed',
+    description: 'The feed covers every event the guest\'s address is invited to, so the link is emailed rather than returned.',
+    tag: 'Guest pages',
+    auth: 'public',
+    response: messageResponseSchema,
+    rateLimited: true,
+  },
+  getCalendarFeed: {
+    method: 'GET',
+    path: '/api/calendar/{token}',
+    summary: 'Subscribed calendar feed',
+    description: 'The token comes from a calendar feed link and ends in .ics.',
+    tag: 'Guest pages',
+    auth: 'public',
+    contentType: 'text/calendar',
+  },
+  postComment: {
+    method: 'POST',
+    path: '/api/comments',
+    summary: 'Post a message on an event page',
+    description: 'Guests post with their RSVP token; signed-in hosts can reply with parentId.',
+    tag: 'Guest pages',
+    auth: 'public',
+    body: commentSchema,
+    response: commentResponseSchema,
+    rateLimited: true,
+  },
+  getChallenge: {
+    method: 'GET',
+    path: '/api/challenge',
+    summary: 'Spam check for a public form',
+    description: 'A proof-of-work challenge to solve and send with the form, or null when spam protection is off.',
+    tag: 'Guest pages',
+    auth: 'public',
+    response: challengeResponseSchema,
+  },
+  getPublicHeadcount: {
+    method: 'GET',
+    path: '/api/events/public/{slug}/headcount',
+    summary: 'Headcount of a public event',
+    tag: 'Guest pages',
+    auth: 'public',
+    response: headcountResponseSchema,
+  },
+  getEmbedOrigins: {
+    method: 'GET',
+    path: '/api/events/public/{slug}/embed',
+    summary: 'Sites that can embed a public event\'s RSVP widget',
+    tag: 'Guest pages',
+    auth: 'public',
+    response: embedOriginListResponseSchema,
+  },
+  getImage: {
+    method: 'GET',
+    path: '/api/media/{id}',
+    summary: 'Uploaded image',
+    description: 'size picks a smaller copy.',
+    tag: 'Guest pages',
+    auth: 'public',
+    query: mediaQuerySchema,
+    contentType: 'image/*',
+  },
+} as const satisfies Record<string, ApiRouteDefinition>;
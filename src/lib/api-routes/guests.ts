@@ -0,0 +1,101 @@
+/**
+ * The guest list on an event's manage page. Called with the host's session.
+ */
+
+import type { ApiRouteDefinition } from './types';
+import {
+  addGuestSchema,
+  bulkGuestActionResponseSchema,
+  bulkGuestActionSchema,
+  guestImportResponseSchema,
+  guestImportSchema,
+  guestResponseSchema,
+  rsvpApprovalResponseSchema,
+  rsvpApprovalSchema,
+  successResponseSchema,
+  updateGuestSchema,
+} from '../schemas';
+
+export const GUEST_ROUTES = {
+  addEventGuest: {
+    method: 'POST',
+    path: '/api/events/{id}/guests',
+    summary: 'Add a guest',
+    description: 'Set sendInvite to email (or text) the invitation right away.',
+    tag: 'Guest list',
+    auth: 'session',
+    body: addGuestSchema,
+    response: guestResponseSchema,
+  },
+  updateEventGuest: {
+    method: 'PATCH',
+    path: '/api/events/{id}/guests/{guestId}',
+    summary: 'Update a guest',
+    tag: 'Guest list',
+    auth: 'session',
+    body: updateGuestSchema,
+    response: guestResponseSchema,
+  },
+  removeEventGuest: {
+    method: 'DELETE',
+    path: '/api/events/{id}/guests/{guestId}',
+    summary: 'Remove a guest',
+    tag: 'Guest list',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  sendGuestInvitation: {
+    method: 'POST',
+    path: '/api/events/{id}/guests/{guestId}/invite',
+    summary: 'Send a guest their invitation',
+    tag: 'Guest list',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  sendGuestReminder: {
+    method: 'POST',
+    path: '/api/events/{id}/guests/{guestId}/remind',
+    summary: 'Remind a guest',
+    tag: 'Guest list',
+    auth: 'session',
+    response: successResponseSchema,
+  },
+  reviewRsvpRequest: {
+    method: 'POST',
+    path: '/api/events/{id}/guests/{guestId}/approval',
+    summary: 'Approve or deny an RSVP request',
+    description: 'For events that approve RSVPs from people not on the guest list. The guest is emailed the outcome.',
+    tag: 'Guest list',
+    auth: 'session',
+    body: rsvpApprovalSchema,
+    response: rsvpApprovalResponseSchema,
+  },
+  bulkUpdateGuests: {
+    method: 'POST',
+    path: '/api/events/{id}/guests/bulk',
+    summary: 'Invite, remind, remove or change the status of several guests',
+    tag: 'Guest list',
+    auth: 'session',
+    body: bulkGuestActionSchema,
+    response: bulkGuestActionResponseSchema,
+  },
+  exportGuestList: {
+    method: 'GET',
+    path: '/api/events/{id}/guests/export',
+    summary: 'Download the guest list',
+    description: 'A CSV of every guest with their answers.',
+    tag: 'Guest list',
+    auth: 'session',
+    contentType: 'text/csv',
+  },
+  importGuests: {
+    method: 'POST',
+    path: '/api/events/{id}/guests/import',
+    summary: 'Import guests',
+    description: 'Rows already on the list, or without a valid email, are skipped.',
+    tag: 'Guest list',
+    auth: 'session',
+    body: guestImportSchema,
+    response: guestImportResponseSchema,
+  },
+} as const satisfies Record<string, ApiRouteDefinition>;
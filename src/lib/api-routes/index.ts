@@ -0,0 +1,78 @@
+/**
+ * Every API operation: where it lives, who may call it and what it takes and returns.
+ * The OpenAPI document and the typed API client in lib/api-client.ts are both built
+ * from this list, so a new route only needs an entry here to be documented.
+ *
+ * Kept free of server code so client components can import it.
+ */
+
+import { z } from 'zod';
+import type { ApiRouteDefinition } from './types';
+import { V1_ROUTES } from './v1';
+import { EVENT_ROUTES } from './events';
+import { GUEST_ROUTES } from './guests';
+import { GUEST_PAGE_ROUTES } from './guest-pages';
+import { ACCOUNT_ROUTES } from './account';
+import { ADMIN_ROUTES } from './admin';
+import { SYSTEM_ROUTES } from './system';
+
+export type { ApiRouteAuth, ApiRouteDefinition, ApiRouteMethod, ApiRouteTag } from './types';
+
+export const API_ROUTES = {
+  ...V1_ROUTES,
+  ...EVENT_ROUTES,
+  ...GUEST_ROUTES,
+  ...GUEST_PAGE_ROUTES,
+  ...ACCOUNT_ROUTES,
+  ...ADMIN_ROUTES,
+  ...SYSTEM_ROUTES,
+} as const satisfies Record<string, ApiRouteDefinition>;
+
+export type ApiOperationId = keyof typeof API_ROUTES;
+
+type ApiRoute<Op extends ApiOperationId> = (typeof API_ROUTES)[Op];
+
+type PathParamNames<Path extends string> = Path extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | PathParamNames<Rest>
+  : never;
+
+/**
+ * Values for the braces in an operation's path
+ */
+export type ApiPathParams<Op extends ApiOperationId> = Record<PathParamNames<ApiRoute<Op>['path']>, string>;
+
+/**
+ * What an operation's query string accepts
+ */
+export type ApiQuery<Op extends ApiOperationId> = ApiRoute<Op> extends { query: infer Schema extends z.ZodTypeAny }
+  ? z.input<Schema>
+  : never;
+
+/**
+ * What an operation's body accepts
+ */
+export type ApiRequestBody<Op extends ApiOperationId> = ApiRoute<Op> extends { body: infer Schema extends z.ZodTypeAny }
+  ? z.input<Schema>
+  : never;
+
+/**
+ * What an operation answers with: the JSON response (the "data" of a token route),
+ * the file of a download, or nothing for routes that only confirm with a message
+ */
+export type ApiResponseData<Op extends ApiOperationId> = ApiRoute<Op> extends { response: infer Schema extends z.ZodTypeAny }
+  ? z.output<Schema>
+  : ApiRoute<Op> extends { contentType: string }
+    ? File
+    : void;
+
+/**
+ * Fill in an operation's path parameters
+ */
+export function buildApiPath(path: string, params: Record<string, string> = {}): string {
+  return path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (params[name] === undefined) {
+      throw new Error(`Missing path parameter "${name}"`);
+    }
+    return encodeURIComponent(params[name]);
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Routes called by other services: the scheduler, the mail service and uptime checks
+ */
+
+import type { ApiRouteDefinition } from './types';
+import {
+  emailQueueResponseSchema,
+  healthResponseSchema,
+  inboundEmailQuerySchema,
+  inboundEmailResponseSchema,
+  openApiDocumentResponseSchema,
+  remindersResponseSchema,
+  webhookQueueResponseSchema,
+} from '../schemas';
+
+export const SYSTEM_ROUTES = {
+  processEmailQueue: {
+    method: 'POST',
+    path: '/api/cron/email-queue',
+    summary: 'Send queued emails',
+    description: 'Sends what the SMTP rate limit allows and schedules retries for failures.',
+    tag: 'System',
+    auth: 'cron',
+    response: emailQueueResponseSchema,
+  },
+  processReminders: {
+    method: 'POST',
+    path: '/api/cron/reminders',
+    summary: 'Send due reminders',
+    tag: 'System',
+    auth: 'cron',
+    response: remindersResponseSchema,
+  },
+  processWebhooks: {
+    method: 'POST',
+    path: '/api/cron/webhooks',
+    summary: 'Deliver queued webhook calls',
+    tag: 'System',
+    auth: 'cron',
+    response: webhookQueueResponseSchema,
+  },
+  receiveInboundEmail: {
+    method: 'POST',
+    path: '/api/inbound/email',
+    summary: 'Receive calendar replies',
+    description: 'Takes an email forwarded from the calendar reply mailbox, so Accept/Decline in a guest\'s calendar app updates their RSVP. The body is the raw message (message/rfc822), or form data with it in an "email" (SendGrid) or "body-mime" (Mailgun) field. Services that can\'t send an Authorization header pass the secret as ?secret=.',
+    tag: 'System',
+    auth: 'inbound',
+    query: inboundEmailQuerySchema,
+    response: inboundEmailResponseSchema,
+  },
+  getHealth: {
+    method: 'GET',
+    path: '/api/health',
+    summary: 'Health check',
+    description: 'For reverse proxies and load balancers.',
+    tag: 'System',
+    auth: 'public',
+    response: healthResponseSchema,
+  },
+  getOpenApiDocument: {
+    method: 'GET',
+    path: '/api/v1/openapi.json',
+    summary: 'This API description',
+    description: 'The OpenAPI 3.1 document, for client generators and API tools.',
+    tag: 'System',
+    auth: 'public',
+    response: openApiDocumentResponseSchema,
+  },
+} as const satisfies Record<string, ApiRouteDefinition>;
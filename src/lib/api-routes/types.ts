@@ -0,0 +1,57 @@
+/**
+ * Shape of an entry in the API route list
+ */
+
+import { z } from 'zod';
+import type { ApiTokenScope } from '../api-token-scopes';
+
+export type ApiRouteMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type ApiRouteTag =
+  | 'Events'
+  | 'Guests'
+  | 'Messages'
+  | 'Event management'
+  | 'Guest list'
+  | 'Guest pages'
+  | 'Account'
+  | 'Admin'
+  | 'System';
+
+/**
+ * Who may call a route:
+ * - token: an API token with the route's scope, or a signed-in user (/api/v1)
+ * - session: a signed-in user, through the app's session cookie
+ * - admin: a signed-in admin
+ * - public: anyone; guests prove who they are with the token from their RSVP link
+ * - cron: the scheduler, with CRON_SECRET as a bearer token when one is set
+ * - inbound: the mail service forwarding calendar replies, with INBOUND_EMAIL_SECRET
+ */
+export type ApiRouteAuth = 'token' | 'session' | 'admin' | 'public' | 'cron' | 'inbound';
+
+export interface ApiRouteDefinition {
+  method: ApiRouteMethod;
+  /** OpenAPI path, with parameters in braces */
+  path: string;
+  summary: string;
+  description?: string;
+  tag: ApiRouteTag;
+  auth: ApiRouteAuth;
+  /** Scope an API token needs, on token routes */
+  scope?: ApiTokenScope;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  /** How the body is sent when it isn't JSON, such as file uploads */
+  bodyType?: 'multipart/form-data' | 'application/x-www-form-urlencoded';
+  /**
+   * Schema of the JSON response. On token routes it's the response's "data", and
+   * without one the route only sends a "message".
+   */
+  response?: z.ZodTypeAny;
+  /** Responses that aren't JSON, such as CSV downloads */
+  contentType?: string;
+  /** Success status, when it isn't 200; 302 and 303 are redirects to a page of the app */
+  status?: 200 | 201 | 302 | 303;
+  /** Limited per client by the rate limits set in the admin settings */
+  rateLimited?: boolean;
+}
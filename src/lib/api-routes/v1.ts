@@ -0,0 +1,146 @@
+/**
+ * The /api/v1 operations, for scripts and other apps using an API token. These are
+ * the stable part of the API; responses wrap their payload in "data".
+ */
+
+import type { ApiRouteDefinition } from './types';
+import {
+  addGuestSchema,
+  apiBroadcastResultSchema,
+  apiCoHostListSchema,
+  apiEventListSchema,
+  apiEventResponseSchema,
+  apiGuestDetailResponseSchema,
+  apiGuestListQuerySchema,
+  apiGuestListSchema,
+  apiGuestResponseSchema,
+  apiRsvpSummarySchema,
+  broadcastSchema,
+  paginationSchema,
+  updateGuestSchema,
+} from '../schemas';
+
+export const V1_ROUTES = {
+  listEvents: {
+    method: 'GET',
+    path: '/api/v1/events',
+    summary: 'List events',
+    description: 'Events you host or co-host, soonest first, with your role on each.',
+    tag: 'Events',
+    auth: 'token',
+    scope: 'events:read',
+    query: paginationSchema,
+    response: apiEventListSchema,
+  },
+  getEvent: {
+    method: 'GET',
+    path: '/api/v1/events/{id}',
+    summary: 'Get an event',
+    tag: 'Events',
+    auth: 'token',
+    scope: 'events:read',
+    response: apiEventResponseSchema,
+  },
+  listRsvps: {
+    method: 'GET',
+    path: '/api/v1/events/{id}/rsvps',
+    summary: 'RSVP totals and responses',
+    description: 'Guests per status, the expected headcount, and every guest who has answered, latest first.',
+    tag: 'Events',
+    auth: 'token',
+    scope: 'events:read',
+    response: apiRsvpSummarySchema,
+  },
+  listCoHosts: {
+    method: 'GET',
+    path: '/api/v1/events/{id}/cohosts',
+    summary: 'List hosts',
+    description: 'The event\'s host and co-hosts.',
+    tag: 'Events',
+    auth: 'token',
+    scope: 'events:read',
+    response: apiCoHostListSchema,
+  },
+  exportGuests: {
+    method: 'GET',
+    path: '/api/v1/events/{id}/export',
+    summary: 'Export the guest list',
+    description: 'The guest list as CSV, as in the dashboard export.',
+    tag: 'Guests',
+    auth: 'token',
+    scope: 'events:read',
+    contentType: 'text/csv',
+  },
+  listGuests: {
+    method: 'GET',
+    path: '/api/v1/events/{id}/guests',
+    summary: 'List guests',
+    description: 'The guest list by name, optionally only guests with one status.',
+    tag: 'Guests',
+    auth: 'token',
+    scope: 'events:read',
+    query: apiGuestListQuerySchema,
+    response: apiGuestListSchema,
+  },
+  addGuest: {
+    method: 'POST',
+    path: '/api/v1/events/{id}/guests',
+    summary: 'Add a guest',
+    description: 'Adds the guest to the event and the rest of its series. Sending the invitation also needs the messages:send scope; set "sendInvite" to false to add them without one.',
+    tag: 'Guests',
+    auth: 'token',
+    scope: 'guests:write',
+    body: addGuestSchema,
+    response: apiGuestResponseSchema,
+    status: 201,
+  },
+  getGuest: {
+    method: 'GET',
+    path: '/api/v1/events/{id}/guests/{guestId}',
+    summary: 'Get a guest',
+    description: 'A guest with their answers to the RSVP questions.',
+    tag: 'Guests',
+    auth: 'token',
+    scope: 'events:read',
+    response: apiGuestDetailResponseSchema,
+  },
+  updateGuest: {
+    method: 'PATCH',
+    path: '/api/v1/events/{id}/guests/{guestId}',
+    summary: 'Edit a guest',
+    description: 'Only the fields sent are changed. "additionalGuests" replaces the guest\'s whole party.',
+    tag: 'Guests',
+    auth: 'token',
+    scope: 'guests:write',
+    body: updateGuestSchema,
+    response: apiGuestResponseSchema,
+  },
+  removeGuest: {
+    method: 'DELETE',
+    path: '/api/v1/events/{id}/guests/{guestId}',
+    summary: 'Remove a guest',
+    tag: 'Guests',
+    auth: 'token',
+    scope: 'guests:write',
+  },
+  sendInvitation: {
+    method: 'POST',
+    path: '/api/v1/events/{id}/guests/{guestId}/invite',
+    summary: 'Send an invitation',
+    description: 'Sends (or resends) the guest their invitation, and texts it if they opted in to SMS. Answers 502 if the email can\'t be sent.',
+    tag: 'Messages',
+    auth: 'token',
+    scope: 'messages:send',
+  },
+  sendBroadcast: {
+    method: 'POST',
+    path: '/api/v1/events/{id}/broadcast',
+    summary: 'Send an update',
+    description: 'Emails and/or texts a message to the guest list, or to guests with one status.',
+    tag: 'Messages',
+    auth: 'token',
+    scope: 'messages:send',
+    body: broadcastSchema,
+    response: apiBroadcastResultSchema,
+  },
+} as const satisfies Record<string, ApiRouteDefinition>;
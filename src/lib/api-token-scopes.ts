@@ -0,0 +1,27 @@
+/**
+ * What an API token may do. Kept apart from lib/api-tokens.ts so the settings UI
+ * can list the scopes without pulling in the server code.
+ */
+
+export const API_TOKEN_SCOPES = ['events:read', 'guests:write', 'messages:send'] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_SCOPE_DEFINITIONS: Record<ApiTokenScope, { label: string; description: string }> = {
+  'events:read': {
+    label: 'Read events',
+    description: 'Events, guest lists, RSVPs, co-hosts and CSV exports',
+  },
+  'guests:write': {
+    label: 'Manage guests',
+    description: 'Add, edit and remove guests',
+  },
+  'messages:send': {
+    label: 'Send messages',
+    description: 'Send invitations and updates to guests',
+  },
+};
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,136 @@
+/**
+ * Personal API tokens for the /api/v1 REST API. Scripts send one as
+ *
+ *   Authorization: Bearer ownrsvp_<48 hex characters>
+ *
+ * and act as the token's user, limited to the token's scopes. Only a SHA-256 hash of
+ * each token is stored, so a lost token can't be shown again, only revoked.
+ */
+
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import type { ApiToken } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { forbiddenResponse, notFoundResponse, unauthorizedResponse, ErrorResponse } from './api-response';
+import { EventPermission, getEventRole, hasEventPermission } from './event-access';
+import { ApiTokenScope, isApiTokenScope } from './api-token-scopes';
+
+const TOKEN_PREFIX = 'ownrsvp_';
+// How much of a token is kept in the clear to tell tokens apart
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// lastUsedAt is only rewritten this often, so busy scripts don't write on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The scopes a token was given
+ */
+export function parseApiTokenScopes(scopes: string | null): ApiTokenScope[] {
+  if (!scopes) return [];
+  try {
+    const parsed = JSON.parse(scopes);
+    return Array.isArray(parsed) ? parsed.filter(isApiTokenScope) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Create a token for a user. The returned token is the only time it is available.
+ */
+export async function createApiToken(
+  userId: string,
+  { name, scopes, expiresInDays }: { name: string; scopes: ApiTokenScope[]; expiresInDays?: number | null }
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId,
+      name,
+      tokenHash: hashApiToken(token),
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: JSON.stringify(scopes),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    },
+  });
+
+  return { token, apiToken };
+}
+
+/**
+ * A token as listed in the profile page, without its hash
+ */
+export function toApiTokenResponse(apiToken: ApiToken) {
+  return {
+    id: apiToken.id,
+    name: apiToken.name,
+    tokenPrefix: apiToken.tokenPrefix,
+    scopes: parseApiTokenScopes(apiToken.scopes),
+    lastUsedAt: apiToken.lastUsedAt,
+    expiresAt: apiToken.expiresAt,
+    createdAt: apiToken.createdAt,
+  };
+}
+
+/**
+ * Check the request's bearer token and that it has the scope the endpoint needs.
+ * Returns the token's user and scopes, or the error response to send back.
+ */
+export async function authenticateApiRequest(
+  request: Request,
+  scope: ApiTokenScope
+): Promise<{ userId: string; scopes: ApiTokenScope[] } | NextResponse<ErrorResponse>> {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(TOKEN_PREFIX)) {
+    return unauthorizedResponse('Missing API token. Send it as "Authorization: Bearer <token>".');
+  }
+
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(match[1]) },
+  });
+
+  if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) {
+    return unauthorizedResponse('Invalid or expired API token');
+  }
+
+  const scopes = parseApiTokenScopes(apiToken.scopes);
+  if (!scopes.includes(scope)) {
+    return forbiddenResponse(`This API token does not have the ${scope} scope`);
+  }
+
+  if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    try {
+      await prisma.apiToken.update({ where: { id: apiToken.id }, data: { lastUsedAt: new Date() } });
+    } catch (error) {
+      logger.error('Failed to record API token use', error, { id: apiToken.id });
+    }
+  }
+
+  return { userId: apiToken.userId, scopes };
+}
+
+/**
+ * Check that an API caller may do something on an event. Events they have no role on
+ * are reported as not found, so tokens can't probe for event IDs.
+ * Returns null when allowed, otherwise the error response to send back.
+ */
+export async function checkApiEventAccess(
+  userId: string,
+  eventId: string,
+  permission: EventPermission
+): Promise<NextResponse<ErrorResponse> | null> {
+  const role = await getEventRole(userId, eventId);
+  if (!role) {
+    return notFoundResponse('Event');
+  }
+  if (!hasEventPermission(role, permission)) {
+    return forbiddenResponse('Your role on this event does not allow this');
+  }
+  return null;
+}
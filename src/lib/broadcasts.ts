@@ -0,0 +1,108 @@
+/**
+ * Event updates hosts send to their guest list, shared by the dashboard and the /api/v1 API
+ */
+
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { sendBroadcastEmail } from './email';
+import { sendBroadcastSms, shouldSendSms } from './sms';
+import { PENDING_APPROVAL } from './rsvp-approval';
+import type { BroadcastInput } from './schemas/event';
+
+export interface BroadcastResult {
+  sentTo: number;
+  emailsSent: number;
+  smsSent: number;
+  /** Addresses and numbers that couldn't be reached */
+  errors: string[];
+}
+
+/**
+ * Send an update to the event's guests (optionally only those with one RSVP status)
+ * and record it in the event's update history. Returns null if there is no such event.
+ */
+export async function sendBroadcast(
+  eventId: string,
+  { subject, message, filterStatus, channel }: BroadcastInput,
+  sentBy: string
+): Promise<BroadcastResult | null> {
+  const viaEmail = channel === 'EMAIL' || channel === 'BOTH';
+  const viaSms = channel === 'SMS' || channel === 'BOTH';
+
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: {
+      guests: {
+        // RSVPs still awaiting approval aren't on the guest list yet
+        where: filterStatus !== 'ALL' ? { status: filterStatus } : { status: { not: PENDING_APPROVAL } },
+      },
+    },
+  });
+
+  if (!event) {
+    return null;
+  }
+
+  const result: BroadcastResult = { sentTo: 0, emailsSent: 0, smsSent: 0, errors: [] };
+
+  for (const guest of event.guests) {
+    let reached = false;
+
+    if (viaEmail && guest.notifyByEmail) {
+      try {
+        await sendBroadcastEmail({
+          to: guest.email,
+          guestName: guest.name,
+          subject,
+          message,
+          eventTitle: event.title,
+          eventId: event.id,
+          rsvpToken: guest.token,
+          replyTo: event.replyTo,
+          guestId: guest.id,
+          queue: true,
+        });
+        result.emailsSent++;
+        reached = true;
+      } catch (error) {
+        logger.error(`Failed to send to ${guest.email}`, error);
+        result.errors.push(guest.email);
+      }
+    }
+
+    if (viaSms && shouldSendSms(guest)) {
+      try {
+        await sendBroadcastSms({
+          to: guest.phone!,
+          guestName: guest.name,
+          subject,
+          message,
+          eventTitle: event.title,
+        });
+        result.smsSent++;
+        reached = true;
+      } catch (error) {
+        logger.error(`Failed to send SMS to ${guest.phone}`, error);
+        result.errors.push(guest.phone!);
+      }
+    }
+
+    if (reached) {
+      result.sentTo++;
+    }
+  }
+
+  // Record the update
+  await prisma.eventUpdate.create({
+    data: {
+      eventId,
+      subject,
+      message,
+      sentVia: channel,
+      sentTo: result.sentTo,
+      sentBy,
+    },
+  });
+
+  return result;
+}
@@ -0,0 +1,164 @@
+/**
+ * Subscribable calendar feeds (webcal). A host's feed lists the events they host or
+ * co-host; a guest's feed lists every event their email address is invited to, with
+ * their own RSVP. Calendar apps fetch the feed again every so often, so changed events
+ * are updated in place (by UID and SEQUENCE), and deleted events, or ones the guest
+ * declined or was removed from, drop out of the calendar.
+ *
+ * Anyone with a feed's link can read it, so its token is long and random; replacing
+ * or deleting the token revokes the link. A guest's feed link is only ever emailed to
+ * their address, and the feed doesn't carry their RSVP links, since one guest's feed
+ * covers invitations from every host. That holds for signed-in users too: an account's
+ * email isn't verified, so its owner can't be shown the feed for that address, nor
+ * replace a link that whoever owns the address may already have subscribed to.
+ */
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { getAppUrl } from './config';
+import { CalendarEvent, generateIcalFeed, toCalendarEvent } from './calendar';
+
+// Past events stay in the feed this long, so last month's events don't vanish from calendars
+const FEED_HISTORY_DAYS = 365;
+
+// The guest's own answer, shown in the event's description
+const RSVP_LABELS: Record<string, string> = {
+  PENDING: 'Not answered yet',
+  ATTENDING: 'Attending',
+  MAYBE: 'Maybe',
+  WAITLISTED: 'On the waitlist',
+  PENDING_APPROVAL: 'Waiting for host approval',
+};
+
+const calendarEventSelect = {
+  id: true,
+  slug: true,
+  title: true,
+  description: true,
+  date: true,
+  endDate: true,
+  timezone: true,
+  calendarSequence: true,
+  updatedAt: true,
+  locationName: true,
+  streetAddress1: true,
+  streetAddress2: true,
+  city: true,
+  state: true,
+  zipCode: true,
+} as const;
+
+function generateFeedToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * The https link to a feed. Calendar apps subscribe to the webcal:// form of it.
+ */
+export async function getCalendarFeedUrl(token: string): Promise<string> {
+  const appUrl = await getAppUrl();
+  return `${appUrl}/api/calendar/${token}.ics`;
+}
+
+/**
+ * The feed of events the user hosts, or null if they haven't turned it on
+ */
+export async function getHostCalendarFeed(userId: string) {
+  return prisma.calendarFeed.findUnique({ where: { userId } });
+}
+
+/**
+ * Turn a host's feed on, or give it a new link if it's already on. The old link stops working.
+ */
+export async function resetHostCalendarFeed(userId: string) {
+  const token = generateFeedToken();
+
+  return prisma.calendarFeed.upsert({
+    where: { userId },
+    create: { userId, token },
+    update: { token },
+  });
+}
+
+/**
+ * A guest's feed of every event their email is invited to, turned on if it isn't yet.
+ * Unlike resetCalendarFeed, an existing link is kept, as it may already be subscribed.
+ * The link must only be sent to the email address itself, never shown to whoever asked.
+ */
+export async function getOrCreateGuestCalendarFeed(email: string) {
+  const key = { email: email.toLowerCase() };
+  return prisma.calendarFeed.upsert({
+    where: key,
+    create: { ...key, token: generateFeedToken() },
+    update: {},
+  });
+}
+
+/**
+ * Turn a host's feed off; its link stops working
+ */
+export async function revokeHostCalendarFeed(userId: string): Promise<void> {
+  await prisma.calendarFeed.deleteMany({ where: { userId } });
+}
+
+/**
+ * The iCalendar content of the feed with this token, or null if there's no such feed
+ */
+export async function generateCalendarFeed(token: string): Promise<string | null> {
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { token },
+    include: { user: { select: { id: true } } },
+  });
+  if (!feed) {
+    return null;
+  }
+
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const appUrl = await getAppUrl();
+
+  if (feed.user) {
+    const events = await prisma.event.findMany({
+      where: {
+        date: { gte: since },
+        OR: [{ hostId: feed.user.id }, { coHosts: { some: { userId: feed.user.id } } }],
+      },
+      select: calendarEventSelect,
+      orderBy: { date: 'asc' },
+    });
+
+    return generateIcalFeed(
+      'OwnRSVP: Events I host',
+      events.map((event) => toCalendarEvent(event, `${appUrl}/dashboard/events/${event.id}`))
+    );
+  }
+
+  if (feed.email) {
+    // Declined invitations are left out, so they disappear from the guest's calendar
+    const guests = await prisma.guest.findMany({
+      where: {
+        email: feed.email,
+        status: { not: 'NOT_ATTENDING' },
+        event: { date: { gte: since } },
+      },
+      select: {
+        status: true,
+        event: { select: { ...calendarEventSelect, isPublic: true } },
+      },
+      orderBy: { event: { date: 'asc' } },
+    });
+
+    return generateIcalFeed(
+      'OwnRSVP: My invitations',
+      guests.map(({ status, event }): CalendarEvent => {
+        const rsvp = `Your RSVP: ${RSVP_LABELS[status] || status}`;
+        return {
+          ...toCalendarEvent(event, event.isPublic ? `${appUrl}/events/${event.slug}` : undefined),
+          description: event.description ? `${rsvp}\n\n${event.description}` : rsvp,
+          status: status === 'ATTENDING' ? 'CONFIRMED' : 'TENTATIVE',
+        };
+      })
+    );
+  }
+
+  return null;
+}
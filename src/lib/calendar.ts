@@ -1,35 +1,162 @@
 /**
  * Generate calendar event data for different calendar formats
+ *
+ * Times are written in the event's own timezone (with a VTIMEZONE block in .ics
+ * files), and every export of an event shares one UID. Together with SEQUENCE, which
+ * goes up whenever the event's calendar details change, that lets calendar apps
+ * replace their copy of an event instead of adding a duplicate.
  */
 
-interface CalendarEvent {
+import { formatInTimeZone } from 'date-fns-tz';
+import { AddressFields, formatAddressOneLine } from './address-utils';
+
+export interface CalendarEvent {
+  id: string;
   title: string;
-  description: string;
-  location: string;
-  startDate: Date;
-  endDate: Date | null;
+  description: string | null;
+  address: AddressFields;
+  startDate: Date | string;
+  endDate: Date | string | null;
+  timezone: string | null;
+  sequence?: number;
+  updatedAt?: Date | string;
   url?: string;
+  /** TENTATIVE for events the reader hasn't said yes to */
+  status?: 'CONFIRMED' | 'TENTATIVE';
+}
+
+/**
+ * Invites emailed to a guest (iMIP). REQUEST adds or updates the event in their
+ * calendar, with buttons to accept or decline; CANCEL removes it.
+ */
+export type CalendarMethod = 'REQUEST' | 'CANCEL';
+
+export interface CalendarParticipant {
+  email: string;
+  name?: string | null;
+}
+
+export interface CalendarInviteOptions {
+  method: CalendarMethod;
+  /** Where calendar apps send the guest's reply */
+  organizer: CalendarParticipant;
+  attendee: CalendarParticipant & { status?: string | null };
+}
+
+// Guest statuses as iCalendar participation statuses; anything else still needs an answer
+const PARTSTAT_BY_STATUS: Record<string, string> = {
+  ATTENDING: 'ACCEPTED',
+  MAYBE: 'TENTATIVE',
+  NOT_ATTENDING: 'DECLINED',
+};
+
+// Events without an end time are shown as lasting this long
+const DEFAULT_DURATION_HOURS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields that end up in a calendar entry; changing any of them bumps the event's SEQUENCE
+const CALENDAR_FIELDS = [
+  'title',
+  'description',
+  'date',
+  'endDate',
+  'timezone',
+  'locationName',
+  'streetAddress1',
+  'streetAddress2',
+  'city',
+  'state',
+  'zipCode',
+] as const;
+
+/**
+ * Build a CalendarEvent from an event row
+ */
+export function toCalendarEvent(
+  event: {
+    id: string;
+    title: string;
+    description: string | null;
+    date: Date | string;
+    endDate: Date | string | null;
+    timezone: string | null;
+    calendarSequence?: number;
+    updatedAt?: Date | string;
+  } & AddressFields,
+  url?: string
+): CalendarEvent {
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    address: {
+      locationName: event.locationName,
+      streetAddress1: event.streetAddress1,
+      streetAddress2: event.streetAddress2,
+      city: event.city,
+      state: event.state,
+      zipCode: event.zipCode,
+    },
+    startDate: event.date,
+    endDate: event.endDate,
+    timezone: event.timezone,
+    sequence: event.calendarSequence,
+    updatedAt: event.updatedAt,
+    url,
+  };
+}
+
+/**
+ * Whether an update changes anything guests' calendars show. Fields missing from
+ * the update are left alone.
+ */
+export function hasCalendarChanges(
+  existing: Partial<Record<(typeof CALENDAR_FIELDS)[number], unknown>>,
+  updates: Partial<Record<(typeof CALENDAR_FIELDS)[number], unknown>>
+): boolean {
+  const normalize = (value: unknown) => (value instanceof Date ? value.getTime() : value || null);
+  return CALENDAR_FIELDS.some(
+    (field) => updates[field] !== undefined && normalize(updates[field]) !== normalize(existing[field])
+  );
+}
+
+/**
+ * Stable UID for an event, shared by every export of it
+ */
+export function getCalendarUid(eventId: string): string {
+  return `${eventId}@ownrsvp`;
+}
+
+/**
+ * The event id in a UID from getCalendarUid, or null for events from elsewhere
+ */
+export function parseCalendarUid(uid: string): string | null {
+  const match = uid.trim().match(/^([^@\s]+)@ownrsvp$/);
+  return match ? match[1] : null;
 }
 
 /**
  * Generate Google Calendar URL
  */
 export function generateGoogleCalendarUrl(event: CalendarEvent): string {
-  const start = formatDateForGoogle(event.startDate);
-  const end = event.endDate ? formatDateForGoogle(event.endDate) : formatDateForGoogle(addHours(event.startDate, 2));
-  
+  const timezone = getCalendarTimezone(event.timezone);
+  const { start, end } = getEventTimes(event);
+
+  // Local times plus ctz, so Google shows the event in its own timezone
+  const dates = timezone === 'UTC'
+    ? `${formatUtc(start)}/${formatUtc(end)}`
+    : `${formatLocal(start, timezone)}/${formatLocal(end, timezone)}`;
+
   const params = new URLSearchParams({
     action: 'TEMPLATE',
     text: event.title,
-    dates: `${start}/${end}`,
-    details: event.description || '',
-    location: event.location || '',
+    dates,
+    details: getDescription(event),
+    location: formatAddressOneLine(event.address),
+    ctz: timezone,
   });
 
-  if (event.url) {
-    params.append('ctz', 'America/New_York');
-  }
-
   return `https://calendar.google.com/calendar/render?${params.toString()}`;
 }
 
@@ -37,15 +164,16 @@ export function generateGoogleCalendarUrl(event: CalendarEvent): string {
  * Generate Outlook Calendar URL
  */
 export function generateOutlookCalendarUrl(event: CalendarEvent): string {
-  const start = formatDateForOutlook(event.startDate);
-  const end = event.endDate ? formatDateForOutlook(event.endDate) : formatDateForOutlook(addHours(event.startDate, 2));
-  
+  const timezone = getCalendarTimezone(event.timezone);
+  const { start, end } = getEventTimes(event);
+
+  // Outlook takes ISO times; the offset keeps them in the event's timezone
   const params = new URLSearchParams({
     subject: event.title,
-    startdt: start,
-    enddt: end,
-    body: event.description,
-    location: event.location || '',
+    startdt: formatInTimeZone(start, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX"),
+    enddt: formatInTimeZone(end, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX"),
+    body: getDescription(event),
+    location: formatAddressOneLine(event.address),
   });
 
   return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
@@ -55,34 +183,119 @@ export function generateOutlookCalendarUrl(event: CalendarEvent): string {
  * Generate iCal (.ics) file content
  */
 export function generateIcalContent(event: CalendarEvent): string {
-  const start = formatDateForIcal(event.startDate);
-  const end = event.endDate ? formatDateForIcal(event.endDate) : formatDateForIcal(addHours(event.startDate, 2));
-  
-  const description = escapeIcalText(event.description);
-  const location = escapeIcalText(event.location || '');
-  const title = escapeIcalText(event.title);
+  return generateCalendar('PUBLISH', [event], generateVevent(event));
+}
+
+/**
+ * A calendar of many events for webcal subscriptions. Calendar apps fetch it again
+ * every so often, replacing each event by UID and dropping events no longer in it.
+ */
+export function generateIcalFeed(name: string, events: CalendarEvent[]): string {
+  return generateCalendar(
+    'PUBLISH',
+    events,
+    events.flatMap((event) => generateVevent(event)),
+    [
+      `X-WR-CALNAME:${escapeIcalText(name)}`,
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+    ]
+  );
+}
+
+/**
+ * iCalendar content for an invite emailed to one guest, with the guest as ATTENDEE
+ */
+export function generateCalendarInvite(event: CalendarEvent, invite: CalendarInviteOptions): string {
+  return generateCalendar(invite.method, [event], generateVevent(event, invite));
+}
+
+/**
+ * The guest's status as an iCalendar PARTSTAT
+ */
+export function getParticipationStatus(status: string | null | undefined): string {
+  return (status && PARTSTAT_BY_STATUS[status]) || 'NEEDS-ACTION';
+}
+
+/**
+ * VEVENT lines for an event, plus the organizer and guest when it's an invite
+ */
+export function generateVevent(event: CalendarEvent, invite?: CalendarInviteOptions): string[] {
+  const timezone = getCalendarTimezone(event.timezone);
+  const { start, end } = getEventTimes(event);
   const url = event.url ? escapeIcalText(event.url) : '';
 
+  const formatTime = (name: string, date: Date) =>
+    timezone === 'UTC' ? `${name}:${formatUtc(date)}` : `${name};TZID=${timezone}:${formatLocal(date, timezone)}`;
+
   return [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//OwnRSVP//EN',
-    'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH',
     'BEGIN:VEVENT',
-    `UID:${generateUid()}`,
-    `DTSTAMP:${formatDateForIcal(new Date())}`,
-    `DTSTART:${start}`,
-    `DTEND:${end}`,
-    `SUMMARY:${title}`,
-    `DESCRIPTION:${description}${url ? `\\n\\nEvent Link: ${url}` : ''}`,
-    `LOCATION:${location}`,
+    `UID:${getCalendarUid(event.id)}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    ...(event.updatedAt ? [`LAST-MODIFIED:${formatUtc(toDate(event.updatedAt))}`] : []),
+    formatTime('DTSTART', start),
+    formatTime('DTEND', end),
+    `SUMMARY:${escapeIcalText(event.title)}`,
+    `DESCRIPTION:${escapeIcalText(event.description || '')}${url ? `\\n\\nEvent Link: ${url}` : ''}`,
+    `LOCATION:${escapeIcalText(formatAddressOneLine(event.address))}`,
     ...(url ? [`URL:${url}`] : []),
-    'STATUS:CONFIRMED',
-    'SEQUENCE:0',
+    ...(invite
+      ? [
+          `ORGANIZER${formatCommonName(invite.organizer.name)}:mailto:${invite.organizer.email}`,
+          `ATTENDEE${formatCommonName(invite.attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=${getParticipationStatus(invite.attendee.status)};RSVP=TRUE:mailto:${invite.attendee.email}`,
+        ]
+      : []),
+    invite?.method === 'CANCEL' ? 'STATUS:CANCELLED' : `STATUS:${event.status || 'CONFIRMED'}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
     'END:VEVENT',
-    'END:VCALENDAR',
-  ].join('\r\n');
+  ];
+}
+
+/**
+ * VTIMEZONE lines describing a timezone's offsets around the given dates. Offset
+ * changes are read from the runtime's timezone data, starting a year before the
+ * event so the rules in force when it starts are always included.
+ */
+export function generateVtimezone(timezone: string, start: Date, end: Date): string[] {
+  const from = Date.UTC(start.getUTCFullYear() - 1, 0, 1);
+  const to = Date.UTC(end.getUTCFullYear() + 1, 0, 1);
+  const transitions = findOffsetTransitions(timezone, from, to);
+
+  const observances = transitions.length > 0
+    ? transitions.map(({ at, offsetFrom, offsetTo }) => {
+        const type = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+        return [
+          `BEGIN:${type}`,
+          // Onset in local time before the change
+          `DTSTART:${formatUtc(new Date(at + offsetFrom * 60 * 1000)).replace('Z', '')}`,
+          `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+          `TZOFFSETTO:${formatOffset(offsetTo)}`,
+          `TZNAME:${formatInTimeZone(at, timezone, 'zzz')}`,
+          `END:${type}`,
+        ];
+      })
+    : [[
+        'BEGIN:STANDARD',
+        'DTSTART:19700101T000000',
+        `TZOFFSETFROM:${formatOffset(getOffsetMinutes(timezone, from))}`,
+        `TZOFFSETTO:${formatOffset(getOffsetMinutes(timezone, from))}`,
+        `TZNAME:${formatInTimeZone(from, timezone, 'zzz')}`,
+        'END:STANDARD',
+      ]];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...observances.flat(),
+    'END:VTIMEZONE',
+  ];
+}
+
+/**
+ * A feed link as webcal://, which opens the calendar app's subscribe dialog
+ */
+export function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
 }
 
 /**
@@ -102,26 +315,155 @@ export function downloadIcalFile(event: CalendarEvent, filename: string = 'event
 
 // Helper functions
 
+function generateCalendar(method: string, events: CalendarEvent[], vevents: string[], properties: string[] = []): string {
+  // One VTIMEZONE per timezone, covering every event in it
+  const ranges = new Map<string, { start: Date; end: Date }>();
+  events.forEach((event) => {
+    const timezone = getCalendarTimezone(event.timezone);
+    if (timezone === 'UTC') return;
+
+    const { start, end } = getEventTimes(event);
+    const range = ranges.get(timezone);
+    ranges.set(timezone, {
+      start: range && range.start < start ? range.start : start,
+      end: range && range.end > end ? range.end : end,
+    });
+  });
+
+  const vtimezones: string[] = [];
+  ranges.forEach(({ start, end }, timezone) => vtimezones.push(...generateVtimezone(timezone, start, end)));
+
+  return foldIcalLines([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//OwnRSVP//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...properties,
+    ...vtimezones,
+    ...vevents,
+    'END:VCALENDAR',
+  ]);
+}
+
+// CN parameter for ORGANIZER and ATTENDEE; quoted, as names often contain commas
+function formatCommonName(name: string | null | undefined): string {
+  const clean = name?.replace(/["\r\n]/g, '').trim();
+  return clean ? `;CN="${clean}"` : '';
+}
+
 function toDate(date: Date | string): Date {
   return typeof date === 'string' ? new Date(date) : date;
 }
 
-function formatDateForGoogle(date: Date | string): string {
-  return toDate(date).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+/**
+ * The event's timezone if the runtime knows it, otherwise UTC
+ */
+function getCalendarTimezone(timezone: string | null): string {
+  if (!timezone) return 'UTC';
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+function getEventTimes(event: CalendarEvent): { start: Date; end: Date } {
+  const start = toDate(event.startDate);
+  const end = event.endDate
+    ? toDate(event.endDate)
+    : new Date(start.getTime() + DEFAULT_DURATION_HOURS * 60 * 60 * 1000);
+  return { start, end };
+}
+
+function getDescription(event: CalendarEvent): string {
+  return [event.description, event.url ? `Event Link: ${event.url}` : null].filter(Boolean).join('\n\n');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
 }
 
-function formatDateForOutlook(date: Date | string): string {
-  return toDate(date).toISOString();
+function formatLocal(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, "yyyyMMdd'T'HHmmss");
 }
 
-function formatDateForIcal(date: Date | string): string {
-  return toDate(date).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+// UTC offset in minutes at an instant, from the wall-clock time there
+function getOffsetMinutes(timezone: string, time: number): number {
+  const wallClock = Date.parse(`${formatInTimeZone(time, timezone, "yyyy-MM-dd'T'HH:mm:ss")}Z`);
+  return Math.round((wallClock - Math.floor(time / 1000) * 1000) / 60000);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Instants between from and to where the timezone's UTC offset changes, found a day
+ * at a time and then narrowed down to the minute
+ */
+function findOffsetTransitions(
+  timezone: string,
+  from: number,
+  to: number
+): { at: number; offsetFrom: number; offsetTo: number }[] {
+  const transitions: { at: number; offsetFrom: number; offsetTo: number }[] = [];
+  let previous = getOffsetMinutes(timezone, from);
+
+  for (let time = from + DAY_MS; time <= to; time += DAY_MS) {
+    const offset = getOffsetMinutes(timezone, time);
+    if (offset === previous) continue;
+
+    let low = time - DAY_MS;
+    let high = time;
+    while (high - low > 60 * 1000) {
+      const middle = low + Math.floor((high - low) / 2 / 60000) * 60000;
+      if (getOffsetMinutes(timezone, middle) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    transitions.push({ at: high, offsetFrom: previous, offsetTo: offset });
+    previous = offset;
+  }
+
+  return transitions;
 }
 
-function addHours(date: Date | string, hours: number): Date {
-  const result = new Date(toDate(date));
-  result.setHours(result.getHours() + hours);
-  return result;
+/**
+ * Fold lines longer than 75 bytes, as RFC 5545 requires, and join them with CRLF
+ */
+function foldIcalLines(lines: string[]): string {
+  const encoder = new TextEncoder();
+
+  return lines
+    .map((line) => {
+      const folded: string[] = [];
+      let current = '';
+      let currentBytes = 0;
+
+      Array.from(line).forEach((char) => {
+        const bytes = encoder.encode(char).length;
+        // Continuation lines start with a space, which counts towards their length
+        const limit = folded.length === 0 ? 75 : 74;
+        if (currentBytes + bytes > limit) {
+          folded.push(current);
+          current = '';
+          currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+      });
+      folded.push(current);
+
+      return folded.join('\r\n ');
+    })
+    .join('\r\n');
 }
 
 function escapeIcalText(text: string): string {
@@ -132,8 +474,3 @@ function escapeIcalText(text: string): string {
     .replace(/\n/g, '\\n')
     .replace(/\r/g, '');
 }
-
-function generateUid(): string {
-  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}@ownrsvp`;
-}
-
@@ -0,0 +1,56 @@
+/**
+ * Browser side of the proof-of-work spam check (see challenge.ts)
+ */
+
+import { requestApi } from './api-client';
+import type { Challenge } from './challenge';
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Find the number behind a challenge and encode the solution for the form payload.
+ * Returns null if no number up to maxnumber matches.
+ */
+export async function solveChallenge(challenge: Challenge): Promise<string | null> {
+  for (let number = 0; number <= challenge.maxnumber; number++) {
+    if (await sha256Hex(`${challenge.salt}${number}`) === challenge.challenge) {
+      return btoa(JSON.stringify({
+        algorithm: challenge.algorithm,
+        challenge: challenge.challenge,
+        number,
+        salt: challenge.salt,
+        signature: challenge.signature,
+      }));
+    }
+  }
+  return null;
+}
+
+/**
+ * Fetch a fresh challenge and solve it. Resolves to undefined when spam protection
+ * is turned off, so the result can go straight into the request body.
+ */
+export async function getChallengeSolution(): Promise<string | undefined> {
+  const { challenge } = await requestApi('getChallenge').catch(() => {
+    throw new Error('Could not load the spam check. Please try again.');
+  });
+  if (!challenge) {
+    return undefined;
+  }
+
+  // crypto.subtle only exists on HTTPS pages and localhost
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('The spam check needs a secure (HTTPS) connection.');
+  }
+
+  const solution = await solveChallenge(challenge);
+  if (!solution) {
+    throw new Error('Could not complete the spam check. Please try again.');
+  }
+  return solution;
+}
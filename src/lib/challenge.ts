@@ -0,0 +1,146 @@
+/**
+ * Offline proof-of-work spam check for public forms, in the style of ALTCHA.
+ *
+ * The server hands out a salt and the SHA-256 hash of salt + a secret random number,
+ * signed with the app's auth secret. The browser finds the number by brute force
+ * (see challenge-solver.ts), which takes a second or so for a person but adds up
+ * quickly for a bot posting thousands of RSVPs. No third-party service is involved.
+ */
+
+import crypto from 'crypto';
+import { getOrCreateAuthSecret } from './auth-secret';
+import { getSpamProtectionConfig, SpamProtectionDifficulty } from './config';
+import { logger } from './logger';
+import { prisma } from './prisma';
+
+export interface Challenge {
+  algorithm: 'SHA-256';
+  challenge: string;
+  maxnumber: number;
+  salt: string;
+  signature: string;
+}
+
+export interface ChallengeSolution {
+  algorithm: string;
+  challenge: string;
+  number: number;
+  salt: string;
+  signature: string;
+}
+
+// Upper bound for the secret number; the browser tries half of this on average
+export const CHALLENGE_MAX_NUMBERS: Record<SpamProtectionDifficulty, number> = {
+  low: 20000,
+  medium: 100000,
+  high: 500000,
+};
+
+// Solutions are requested when a form is submitted, so they only need to live briefly
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function sign(challenge: string): string {
+  return crypto.createHmac('sha256', getOrCreateAuthSecret()).update(challenge).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Whether public forms must include a solved challenge. Events can opt out of the
+ * admin-wide setting; the forgot-password form only follows the admin setting.
+ */
+export async function isChallengeRequired(event?: { spamProtection: boolean } | null): Promise<boolean> {
+  const config = await getSpamProtectionConfig();
+  return config.enabled && (!event || event.spamProtection);
+}
+
+/**
+ * Create a new signed challenge
+ */
+export async function createChallenge(): Promise<Challenge> {
+  const { difficulty } = await getSpamProtectionConfig();
+  const maxnumber = CHALLENGE_MAX_NUMBERS[difficulty];
+  const expires = Math.floor(Date.now() / 1000) + CHALLENGE_TTL_SECONDS;
+  const salt = `${crypto.randomBytes(12).toString('hex')}?expires=${expires}`;
+  const challenge = sha256(`${salt}${crypto.randomInt(0, maxnumber + 1)}`);
+
+  return {
+    algorithm: 'SHA-256',
+    challenge,
+    maxnumber,
+    salt,
+    signature: sign(challenge),
+  };
+}
+
+/**
+ * Record a solution's signature as used. The signature is the table's key, so two
+ * requests racing with the same solution can't both be accepted.
+ */
+async function claimSignature(signature: string, expires: number): Promise<boolean> {
+  await prisma.usedChallenge.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+
+  try {
+    await prisma.usedChallenge.create({
+      data: { signature, expiresAt: new Date(expires * 1000) },
+    });
+    return true;
+  } catch (error) {
+    if ((error as { code?: string })?.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check a base64-encoded solution from a public form. Each solution is accepted once.
+ */
+export async function verifyChallengeSolution(payload: string | null | undefined): Promise<boolean> {
+  if (!payload) return false;
+
+  let solution: ChallengeSolution;
+  try {
+    solution = JSON.parse(Buffer.from(payload, 'base64').toString('utf8'));
+  } catch {
+    return false;
+  }
+
+  const { algorithm, challenge, number, salt, signature } = solution || {};
+  if (
+    algorithm !== 'SHA-256' ||
+    typeof challenge !== 'string' ||
+    typeof salt !== 'string' ||
+    typeof signature !== 'string' ||
+    !Number.isInteger(number)
+  ) {
+    return false;
+  }
+
+  const expires = Number(new URLSearchParams(salt.split('?')[1] || '').get('expires'));
+  const now = Math.floor(Date.now() / 1000);
+  if (!expires || expires < now) {
+    return false;
+  }
+
+  if (!safeEqual(sign(challenge), signature) || !safeEqual(sha256(`${salt}${number}`), challenge)) {
+    return false;
+  }
+
+  if (!(await claimSignature(signature, expires))) {
+    logger.warn('Rejected a reused spam check solution');
+    return false;
+  }
+
+  return true;
+}
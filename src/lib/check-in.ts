@@ -0,0 +1,58 @@
+/**
+ * Door check-in helpers
+ *
+ * Each attending guest gets a ticket QR that points at their ticket page,
+ * /rsvp/{token}/ticket. The check-in scanner reads the token back out of it.
+ * This module has no server dependencies so the scanner can use it client-side.
+ */
+
+export interface CheckInAttendee {
+  checkedInAt: Date | string | null;
+}
+
+export interface CheckInGuest extends CheckInAttendee {
+  status: string;
+  additionalGuests: CheckInAttendee[];
+}
+
+export interface CheckInStats {
+  /** People attending: each attending invitee plus their additional guests */
+  expected: number;
+  /** People checked in, whatever their RSVP */
+  arrived: number;
+}
+
+export function getTicketUrl(appUrl: string, token: string): string {
+  return `${appUrl}/rsvp/${token}/ticket`;
+}
+
+/**
+ * Get the guest token from a scanned ticket.
+ * Accepts a ticket or RSVP link, or a bare token typed in by hand.
+ */
+export function extractTicketToken(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const linkMatch = trimmed.match(/\/rsvp\/([A-Za-z0-9_-]+)/);
+  if (linkMatch) {
+    return linkMatch[1];
+  }
+
+  return /^[A-Za-z0-9_-]{10,}$/.test(trimmed) ? trimmed : null;
+}
+
+export function getCheckInStats(guests: CheckInGuest[]): CheckInStats {
+  return guests.reduce(
+    (stats, guest) => {
+      const party = [guest, ...guest.additionalGuests];
+      return {
+        expected: stats.expected + (guest.status === 'ATTENDING' ? party.length : 0),
+        arrived: stats.arrived + party.filter((person) => person.checkedInAt).length,
+      };
+    },
+    { expected: 0, arrived: 0 }
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Guest wall settings, shared by the event forms, the public page and the comments API
+ */
+
+export const COMMENT_MODES = ['OFF', 'OPEN', 'INVITEES', 'MODERATED'] as const;
+
+export type CommentMode = typeof COMMENT_MODES[number];
+
+export const COMMENT_MODE_OPTIONS: { value: CommentMode; label: string; description: string }[] = [
+  { value: 'OPEN', label: 'Open', description: 'Anyone who can see the event page can post' },
+  { value: 'INVITEES', label: 'Invitees only', description: 'Only guests opening the page from their RSVP link can post' },
+  { value: 'MODERATED', label: 'Pre-moderated', description: 'Messages appear once a host approves them' },
+  { value: 'OFF', label: 'Off', description: 'Hide the guest wall' },
+];
+
+export const COMMENT_STATUSES = ['VISIBLE', 'PENDING', 'HIDDEN'] as const;
+
+export type CommentStatus = typeof COMMENT_STATUSES[number];
+
+/**
+ * Whether a guest can post to the wall. `isInvitee` means they came from their RSVP link.
+ */
+export function canPostComment(mode: string, isInvitee: boolean): boolean {
+  if (mode === 'OFF') return false;
+  if (mode === 'INVITEES') return isInvitee;
+  return true;
+}
+
+/**
+ * The status a guest's new message starts with
+ */
+export function getNewCommentStatus(mode: string): CommentStatus {
+  return mode === 'MODERATED' ? 'PENDING' : 'VISIBLE';
+}
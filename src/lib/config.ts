@@ -7,6 +7,7 @@ export interface EmailConfig {
   user: string;
   password: string;
   from?: string;
+  rateLimit?: string; // Max messages per minute per SMTP server, empty = default
 }
 
 /**
@@ -28,6 +29,7 @@ export async function getEmailConfig(): Promise<EmailConfig | null> {
         user: configMap.get('SMTP_USER') || process.env.SMTP_USER || '',
         password: configMap.get('SMTP_PASSWORD') || process.env.SMTP_PASSWORD || '',
         from: (fromValue && fromValue.trim()) ? fromValue : (process.env.SMTP_FROM || undefined),
+        rateLimit: configMap.get('SMTP_RATE_LIMIT') || process.env.SMTP_RATE_LIMIT || undefined,
       };
     }
   } catch (error) {
@@ -42,6 +44,7 @@ export async function getEmailConfig(): Promise<EmailConfig | null> {
       user: process.env.SMTP_USER,
       password: process.env.SMTP_PASSWORD,
       from: process.env.SMTP_FROM,
+      rateLimit: process.env.SMTP_RATE_LIMIT,
     };
   }
 
@@ -59,6 +62,7 @@ export async function updateEmailConfig(config: Partial<EmailConfig>, userId?: s
     { key: 'SMTP_PASSWORD', value: config.password },
     // Only save SMTP_FROM if it has a non-empty value
     { key: 'SMTP_FROM', value: config.from?.trim() || undefined },
+    { key: 'SMTP_RATE_LIMIT', value: config.rateLimit?.trim() || undefined },
   ].filter(item => item.value !== undefined);
 
   for (const item of emailConfigs) {
@@ -92,6 +96,16 @@ export async function updateEmailConfig(config: Partial<EmailConfig>, userId?: s
       },
     });
   }
+
+  // Same for SMTP_RATE_LIMIT, so the default limit applies again
+  if (!config.rateLimit?.trim()) {
+    await prisma.appConfig.deleteMany({
+      where: {
+        category: 'email',
+        key: 'SMTP_RATE_LIMIT',
+      },
+    });
+  }
 }
 
 /**
@@ -122,6 +136,7 @@ export async function syncToEnvFile(): Promise<void> {
         'SMTP_USER="' + emailConfig.user + '"',
         'SMTP_PASSWORD="' + emailConfig.password + '"',
         emailConfig.from ? 'SMTP_FROM="' + emailConfig.from + '"' : '',
+        emailConfig.rateLimit ? 'SMTP_RATE_LIMIT="' + emailConfig.rateLimit + '"' : '',
       ].filter(Boolean);
 
       // Remove existing SMTP lines
@@ -209,3 +224,280 @@ export async function updateAppUrl(appUrl: string, userId?: string): Promise<voi
     },
   });
 }
+
+export type SmsProviderName = 'twilio' | 'log';
+
+export interface SmsConfig {
+  provider: SmsProviderName;
+  accountSid?: string;
+  authToken?: string;
+  phoneNumber?: string;
+  apiUrl?: string;
+  logFile?: string;
+}
+
+/**
+ * Get SMS configuration from database, fallback to environment variables
+ */
+export async function getSmsConfig(): Promise<SmsConfig | null> {
+  try {
+    const configs = await prisma.appConfig.findMany({
+      where: { category: 'sms' },
+    });
+
+    if (configs && configs.length > 0) {
+      const configMap = new Map(configs.map(c => [c.key, c.value]));
+      const provider = (configMap.get('SMS_PROVIDER') || process.env.SMS_PROVIDER || 'twilio') as SmsProviderName;
+      return {
+        provider,
+        accountSid: configMap.get('TWILIO_ACCOUNT_SID') || process.env.TWILIO_ACCOUNT_SID || '',
+        authToken: configMap.get('TWILIO_AUTH_TOKEN') || process.env.TWILIO_AUTH_TOKEN || '',
+        phoneNumber: configMap.get('TWILIO_PHONE_NUMBER') || process.env.TWILIO_PHONE_NUMBER || '',
+        apiUrl: configMap.get('TWILIO_API_URL') || process.env.TWILIO_API_URL || undefined,
+        logFile: configMap.get('SMS_LOG_FILE') || process.env.SMS_LOG_FILE || undefined,
+      };
+    }
+  } catch (error) {
+    logger.error('Error reading SMS config from database', error);
+  }
+
+  // Fallback to environment variables
+  if (process.env.SMS_PROVIDER === 'log') {
+    return {
+      provider: 'log',
+      logFile: process.env.SMS_LOG_FILE || undefined,
+    };
+  }
+
+  if (process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE_NUMBER) {
+    return {
+      provider: 'twilio',
+      accountSid: process.env.TWILIO_ACCOUNT_SID,
+      authToken: process.env.TWILIO_AUTH_TOKEN,
+      phoneNumber: process.env.TWILIO_PHONE_NUMBER,
+      apiUrl: process.env.TWILIO_API_URL || undefined,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Update SMS configuration in database
+ */
+export async function updateSmsConfig(config: Partial<SmsConfig>, userId?: string): Promise<void> {
+  const smsConfigs = [
+    { key: 'SMS_PROVIDER', value: config.provider },
+    { key: 'TWILIO_ACCOUNT_SID', value: config.accountSid },
+    { key: 'TWILIO_AUTH_TOKEN', value: config.authToken },
+    { key: 'TWILIO_PHONE_NUMBER', value: config.phoneNumber },
+    { key: 'TWILIO_API_URL', value: config.apiUrl?.trim() || undefined },
+    { key: 'SMS_LOG_FILE', value: config.logFile?.trim() || undefined },
+  ].filter(item => item.value !== undefined);
+
+  for (const item of smsConfigs) {
+    await prisma.appConfig.upsert({
+      where: {
+        category_key: {
+          category: 'sms',
+          key: item.key,
+        },
+      },
+      update: {
+        value: item.value!,
+        updatedBy: userId,
+      },
+      create: {
+        category: 'sms',
+        key: item.key,
+        value: item.value!,
+        encrypted: item.key === 'TWILIO_AUTH_TOKEN',
+        updatedBy: userId,
+      },
+    });
+  }
+
+  // Optional overrides that were cleared fall back to the defaults
+  const clearedKeys = [
+    !config.apiUrl?.trim() && 'TWILIO_API_URL',
+    !config.logFile?.trim() && 'SMS_LOG_FILE',
+  ].filter((key): key is string => !!key);
+
+  if (clearedKeys.length > 0) {
+    await prisma.appConfig.deleteMany({
+      where: {
+        category: 'sms',
+        key: { in: clearedKeys },
+      },
+    });
+  }
+}
+
+export type RateLimitAction = 'rsvp' | 'comment' | 'editLink' | 'passwordReset' | 'login';
+
+export type RateLimitStoreName = 'memory' | 'database';
+
+export interface RateLimitRule {
+  limit: number; // Requests allowed per window, per IP address and per target email or event
+  windowMinutes: number;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  store: RateLimitStoreName;
+  rules: Record<RateLimitAction, RateLimitRule>;
+}
+
+export const RATE_LIMIT_ACTIONS: RateLimitAction[] = ['rsvp', 'comment', 'editLink', 'passwordReset', 'login'];
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitAction, RateLimitRule> = {
+  rsvp: { limit: 10, windowMinutes: 15 },
+  comment: { limit: 5, windowMinutes: 10 },
+  editLink: { limit: 5, windowMinutes: 15 },
+  passwordReset: { limit: 5, windowMinutes: 60 },
+  login: { limit: 10, windowMinutes: 15 },
+};
+
+// AppConfig key prefix for each action, e.g. RSVP_LIMIT and RSVP_WINDOW_MINUTES
+const RATE_LIMIT_KEYS: Record<RateLimitAction, string> = {
+  rsvp: 'RSVP',
+  comment: 'COMMENT',
+  editLink: 'EDIT_LINK',
+  passwordReset: 'PASSWORD_RESET',
+  login: 'LOGIN',
+};
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Get rate limiting configuration from database, fallback to environment variables and defaults
+ */
+export async function getRateLimitConfig(): Promise<RateLimitConfig> {
+  let configMap = new Map<string, string>();
+  try {
+    const configs = await prisma.appConfig.findMany({
+      where: { category: 'rateLimit' },
+    });
+    configMap = new Map(configs.map(c => [c.key, c.value]));
+  } catch (error) {
+    logger.error('Error reading rate limit config from database', error);
+  }
+
+  const setting = (key: string) => configMap.get(key) || process.env[`RATE_LIMIT_${key}`] || undefined;
+
+  const rules = {} as Record<RateLimitAction, RateLimitRule>;
+  RATE_LIMIT_ACTIONS.forEach((action) => {
+    const prefix = RATE_LIMIT_KEYS[action];
+    rules[action] = {
+      limit: parsePositiveInt(setting(`${prefix}_LIMIT`), DEFAULT_RATE_LIMITS[action].limit),
+      windowMinutes: parsePositiveInt(setting(`${prefix}_WINDOW_MINUTES`), DEFAULT_RATE_LIMITS[action].windowMinutes),
+    };
+  });
+
+  return {
+    enabled: setting('ENABLED') !== 'false',
+    store: setting('STORE') === 'database' ? 'database' : 'memory',
+    rules,
+  };
+}
+
+/**
+ * Update rate limiting configuration in database
+ */
+export async function updateRateLimitConfig(config: RateLimitConfig, userId?: string): Promise<void> {
+  const rateLimitConfigs = [
+    { key: 'ENABLED', value: String(config.enabled) },
+    { key: 'STORE', value: config.store },
+    ...RATE_LIMIT_ACTIONS.flatMap((action) => [
+      { key: `${RATE_LIMIT_KEYS[action]}_LIMIT`, value: String(config.rules[action].limit) },
+      { key: `${RATE_LIMIT_KEYS[action]}_WINDOW_MINUTES`, value: String(config.rules[action].windowMinutes) },
+    ]),
+  ];
+
+  for (const item of rateLimitConfigs) {
+    await prisma.appConfig.upsert({
+      where: {
+        category_key: {
+          category: 'rateLimit',
+          key: item.key,
+        },
+      },
+      update: {
+        value: item.value,
+        updatedBy: userId,
+      },
+      create: {
+        category: 'rateLimit',
+        key: item.key,
+        value: item.value,
+        encrypted: false,
+        updatedBy: userId,
+      },
+    });
+  }
+}
+
+export type SpamProtectionDifficulty = 'low' | 'medium' | 'high';
+
+export interface SpamProtectionConfig {
+  enabled: boolean;
+  difficulty: SpamProtectionDifficulty;
+}
+
+/**
+ * Get spam protection (proof-of-work challenge) configuration from database, fallback to environment variables
+ */
+export async function getSpamProtectionConfig(): Promise<SpamProtectionConfig> {
+  let configMap = new Map<string, string>();
+  try {
+    const configs = await prisma.appConfig.findMany({
+      where: { category: 'spamProtection' },
+    });
+    configMap = new Map(configs.map(c => [c.key, c.value]));
+  } catch (error) {
+    logger.error('Error reading spam protection config from database', error);
+  }
+
+  const enabled = configMap.get('SPAM_PROTECTION_ENABLED') || process.env.SPAM_PROTECTION_ENABLED;
+  const difficulty = configMap.get('SPAM_PROTECTION_DIFFICULTY') || process.env.SPAM_PROTECTION_DIFFICULTY;
+
+  return {
+    enabled: enabled === 'true',
+    difficulty: difficulty === 'low' || difficulty === 'high' ? difficulty : 'medium',
+  };
+}
+
+/**
+ * Update spam protection configuration in database
+ */
+export async function updateSpamProtectionConfig(config: SpamProtectionConfig, userId?: string): Promise<void> {
+  const spamProtectionConfigs = [
+    { key: 'SPAM_PROTECTION_ENABLED', value: String(config.enabled) },
+    { key: 'SPAM_PROTECTION_DIFFICULTY', value: config.difficulty },
+  ];
+
+  for (const item of spamProtectionConfigs) {
+    await prisma.appConfig.upsert({
+      where: {
+        category_key: {
+          category: 'spamProtection',
+          key: item.key,
+        },
+      },
+      update: {
+        value: item.value,
+        updatedBy: userId,
+      },
+      create: {
+        category: 'spamProtection',
+        key: item.key,
+        value: item.value,
+        encrypted: false,
+        updatedBy: userId,
+      },
+    });
+  }
+}
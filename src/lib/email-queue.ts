@@ -0,0 +1,321 @@
+import type { OutboundEmail, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { getEmailConfig } from './config';
+import { createTransporter, getFromAddress, getSmtpHost } from './email-transport';
+import type { EmailTemplateName } from './email-templates';
+import type { CalendarMethod } from './calendar';
+
+export type OutboundEmailType = EmailTemplateName;
+
+export const OUTBOUND_EMAIL_STATUSES = ['PENDING', 'SENDING', 'SENT', 'FAILED'] as const;
+export type OutboundEmailStatus = (typeof OUTBOUND_EMAIL_STATUSES)[number];
+
+export const DEFAULT_SMTP_RATE_LIMIT = 30; // messages per minute, per SMTP server
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A message stuck in SENDING this long was claimed by a worker that died mid-send
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * A calendar invite sent as the message's text/calendar part, which mail clients
+ * show with Accept/Decline buttons
+ */
+export interface CalendarAttachment {
+  method: CalendarMethod;
+  content: string;
+}
+
+export interface QueueEmailParams {
+  type: OutboundEmailType;
+  to: string;
+  replyTo?: string | null;
+  subject: string;
+  html: string;
+  calendar?: CalendarAttachment;
+  eventId?: string | null;
+  guestId?: string | null;
+}
+
+export interface ProcessQueueResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+  deferred: number;
+}
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m, ... capped at one hour
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Per-minute send limit for the configured SMTP server. 0 disables the limit.
+ */
+export async function getSmtpRateLimit(): Promise<number> {
+  const config = await getEmailConfig();
+  const value = parseInt(config?.rateLimit || process.env.SMTP_RATE_LIMIT || '', 10);
+  return Number.isNaN(value) || value < 0 ? DEFAULT_SMTP_RATE_LIMIT : value;
+}
+
+// Send timestamps per SMTP host, for the sliding rate limit window
+const sendHistory = new Map<string, number[]>();
+
+function getRemainingCapacity(host: string, limit: number, now: number): number {
+  if (limit === 0) return Infinity;
+  const recent = (sendHistory.get(host) || []).filter((time) => now - time < RATE_LIMIT_WINDOW_MS);
+  sendHistory.set(host, recent);
+  return Math.max(limit - recent.length, 0);
+}
+
+function recordSend(host: string, now: number) {
+  const history = sendHistory.get(host) || [];
+  history.push(now);
+  sendHistory.set(host, history);
+}
+
+/**
+ * Clear the in-memory rate limit windows (used by tests)
+ */
+export function resetEmailRateLimits() {
+  sendHistory.clear();
+}
+
+/**
+ * Nodemailer options for a message's calendar invite
+ */
+export function getCalendarMailOptions(calendar: CalendarAttachment | null | undefined) {
+  return calendar ? { icalEvent: { method: calendar.method, content: calendar.content } } : {};
+}
+
+/**
+ * Add a rendered message to the outbox and kick off delivery in the background
+ */
+export async function enqueueEmail(params: QueueEmailParams): Promise<OutboundEmail> {
+  const message = await prisma.outboundEmail.create({
+    data: {
+      type: params.type,
+      to: params.to,
+      replyTo: params.replyTo || null,
+      subject: params.subject,
+      html: params.html,
+      calendarMethod: params.calendar?.method || null,
+      calendarInvite: params.calendar?.content || null,
+      eventId: params.eventId || null,
+      guestId: params.guestId || null,
+    },
+  });
+
+  triggerEmailQueue();
+  return message;
+}
+
+/**
+ * Send due messages from the outbox.
+ * Each message is claimed before sending so concurrent workers never send it twice.
+ */
+export async function processEmailQueue({ limit = DEFAULT_BATCH_SIZE }: { limit?: number } = {}): Promise<ProcessQueueResult> {
+  const result: ProcessQueueResult = { sent: 0, retrying: 0, failed: 0, deferred: 0 };
+
+  const transporter = await createTransporter();
+  if (!transporter) {
+    logger.warn('Email not configured - leaving queued emails pending');
+    return result;
+  }
+
+  const [from, smtpHost, rateLimit] = await Promise.all([
+    getFromAddress(),
+    getSmtpHost(),
+    getSmtpRateLimit(),
+  ]);
+  const host = smtpHost || 'default';
+
+  const now = new Date();
+  const due = await prisma.outboundEmail.findMany({
+    where: {
+      OR: [
+        { status: 'PENDING', nextRetryAt: { lte: now } },
+        { status: 'SENDING', updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      ],
+    },
+    orderBy: { nextRetryAt: 'asc' },
+    take: limit,
+  });
+
+  for (let i = 0; i < due.length; i++) {
+    const message = due[i];
+
+    if (getRemainingCapacity(host, rateLimit, Date.now()) === 0) {
+      result.deferred = due.length - i;
+      logger.info('SMTP rate limit reached - deferring queued emails', { host, deferred: result.deferred });
+      break;
+    }
+
+    const claimed = await prisma.outboundEmail.updateMany({
+      where: { id: message.id, status: message.status, updatedAt: message.updatedAt },
+      data: { status: 'SENDING' },
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    recordSend(host, Date.now());
+
+    try {
+      await transporter.sendMail({
+        from,
+        to: message.to,
+        replyTo: message.replyTo || undefined,
+        subject: message.subject,
+        html: message.html,
+        ...getCalendarMailOptions(
+          message.calendarMethod && message.calendarInvite
+            ? { method: message.calendarMethod as CalendarMethod, content: message.calendarInvite }
+            : null
+        ),
+      });
+
+      await prisma.outboundEmail.update({
+        where: { id: message.id },
+        data: {
+          status: 'SENT',
+          attempts: message.attempts + 1,
+          sentAt: new Date(),
+          smtpHost: host,
+          lastError: null,
+        },
+      });
+      result.sent++;
+    } catch (error) {
+      const attempts = message.attempts + 1;
+      const lastError = error instanceof Error ? error.message : String(error);
+      const giveUp = attempts >= message.maxAttempts;
+
+      await prisma.outboundEmail.update({
+        where: { id: message.id },
+        data: {
+          status: giveUp ? 'FAILED' : 'PENDING',
+          attempts,
+          lastError,
+          nextRetryAt: giveUp ? message.nextRetryAt : new Date(Date.now() + getRetryDelay(attempts)),
+        },
+      });
+
+      if (giveUp) {
+        result.failed++;
+        logger.error('Giving up on queued email', error, { id: message.id, to: message.to, attempts });
+      } else {
+        result.retrying++;
+        logger.warn('Queued email failed - will retry', { id: message.id, to: message.to, attempts, error: lastError });
+      }
+    }
+  }
+
+  return result;
+}
+
+let isDraining = false;
+let drainRequested = false;
+
+/**
+ * Drain the outbox in the background without blocking the caller.
+ * Messages left behind (rate limited or backing off) are picked up by the scheduler.
+ */
+export function triggerEmailQueue() {
+  if (isDraining) {
+    // Run again once the current pass finishes so new messages aren't left waiting
+    drainRequested = true;
+    return;
+  }
+  isDraining = true;
+  drainRequested = false;
+
+  processEmailQueue()
+    .catch((error) => logger.error('Error processing email queue', error))
+    .finally(() => {
+      isDraining = false;
+      if (drainRequested) {
+        triggerEmailQueue();
+      }
+    });
+}
+
+/**
+ * Put a failed message back in the queue with a fresh set of attempts
+ */
+export async function retryOutboundEmail(id: string): Promise<OutboundEmail> {
+  const message = await prisma.outboundEmail.update({
+    where: { id },
+    data: {
+      status: 'PENDING',
+      attempts: 0,
+      nextRetryAt: new Date(),
+    },
+  });
+
+  triggerEmailQueue();
+  return message;
+}
+
+export function isOutboundEmailStatus(value: unknown): value is OutboundEmailStatus {
+  return typeof value === 'string' && (OUTBOUND_EMAIL_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Recent outbox entries plus a count per status, for the delivery log.
+ * Message bodies are left out.
+ */
+export async function listOutboundEmails({
+  eventId,
+  status,
+  take = 100,
+}: {
+  eventId?: string;
+  status?: OutboundEmailStatus;
+  take?: number;
+}) {
+  const where: Prisma.OutboundEmailWhereInput = eventId ? { eventId } : {};
+
+  const [messages, grouped] = await Promise.all([
+    prisma.outboundEmail.findMany({
+      where: status ? { ...where, status } : where,
+      select: {
+        id: true,
+        type: true,
+        to: true,
+        subject: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        lastError: true,
+        nextRetryAt: true,
+        sentAt: true,
+        createdAt: true,
+        guest: { select: { name: true } },
+        event: { select: { id: true, title: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take,
+    }),
+    prisma.outboundEmail.groupBy({
+      by: ['status'],
+      where,
+      _count: { _all: true },
+    }),
+  ]);
+
+  const counts = Object.fromEntries(OUTBOUND_EMAIL_STATUSES.map((s) => [s, 0])) as Record<OutboundEmailStatus, number>;
+  grouped.forEach((group) => {
+    if (isOutboundEmailStatus(group.status)) {
+      counts[group.status] = group._count._all;
+    }
+  });
+
+  return { messages, counts };
+}
+
@@ -0,0 +1,675 @@
+/**
+ * Editable email templates
+ *
+ * Guest-facing emails are built from a subject, a banner heading and an HTML body,
+ * each of which may contain merge variables (see template-utils.ts). Admins can
+ * override the defaults globally (EmailTemplate) and hosts per event (EventEmailTemplate).
+ *
+ * This module has no server dependencies so the editor can render live previews client-side.
+ */
+
+import { formatDateTime } from './utils';
+import { formatAddressForEmail, formatAddressOneLine, hasAddress, AddressFields } from './address-utils';
+import { escapeHtml, renderTemplate, TemplateValues } from './template-utils';
+import { getTicketUrl } from './check-in';
+import { getAbsoluteImageUrl } from './media-variants';
+
+export const EMAIL_TEMPLATE_NAMES = [
+  'invitation',
+  'reminder',
+  'confirmation',
+  'broadcast',
+  'eventChange',
+  'waitlistPromotion',
+  'rsvpApproved',
+  'rsvpDenied',
+  'eventCancelled',
+] as const;
+
+export type EmailTemplateName = (typeof EMAIL_TEMPLATE_NAMES)[number];
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return (EMAIL_TEMPLATE_NAMES as readonly string[]).includes(name);
+}
+
+export interface EmailTemplateContent {
+  subject: string;
+  heading: string;
+  body: string;
+}
+
+export interface EmailTemplateVariable {
+  name: string;
+  description: string;
+}
+
+interface EmailTemplateDefinition {
+  label: string;
+  description: string;
+  variables: EmailTemplateVariable[];
+  /** Shown under the heading; not editable */
+  subheading?: string;
+  /** Show the event cover image under the banner */
+  showCoverImage?: boolean;
+  accent: 'primary' | 'update';
+}
+
+const COMMON_VARIABLES: EmailTemplateVariable[] = [
+  { name: 'greeting', description: '"Hi {name}," or "Hello," when the guest has no name' },
+  { name: 'guestName', description: "Guest's name" },
+  { name: 'eventTitle', description: 'Event title' },
+  { name: 'rsvpLink', description: 'Link to the guest\'s RSVP page' },
+];
+
+const EVENT_VARIABLES: EmailTemplateVariable[] = [
+  { name: 'eventDate', description: 'Event date and time' },
+  { name: 'address', description: 'Event address (empty if none)' },
+];
+
+const RSVP_BUTTONS_VARIABLE: EmailTemplateVariable = {
+  name: 'rsvpButtons',
+  description: 'One-click Yes / Maybe / No buttons',
+};
+
+const TICKET_VARIABLES: EmailTemplateVariable[] = [
+  { name: 'ticket', description: 'Check-in QR code to show at the door' },
+  { name: 'ticketLink', description: "Link to the guest's ticket page" },
+];
+
+export const EMAIL_TEMPLATE_DEFINITIONS: Record<EmailTemplateName, EmailTemplateDefinition> = {
+  invitation: {
+    label: 'Invitation',
+    description: 'Sent when a guest is invited to an event',
+    variables: [
+      ...COMMON_VARIABLES,
+      ...EVENT_VARIABLES,
+      { name: 'hostName', description: 'Name of the host who sent the invitation' },
+      { name: 'eventDescription', description: 'Event description (empty if none)' },
+      RSVP_BUTTONS_VARIABLE,
+    ],
+    showCoverImage: true,
+    accent: 'primary',
+  },
+  reminder: {
+    label: 'Reminder',
+    description: "Sent to guests who haven't responded yet",
+    variables: [...COMMON_VARIABLES, ...EVENT_VARIABLES, RSVP_BUTTONS_VARIABLE],
+    showCoverImage: true,
+    accent: 'primary',
+  },
+  confirmation: {
+    label: 'RSVP Confirmation',
+    description: 'Sent after a guest responds',
+    variables: [
+      ...COMMON_VARIABLES,
+      ...EVENT_VARIABLES,
+      { name: 'statusLabel', description: 'Response, e.g. "Attending"' },
+      { name: 'statusMessage', description: 'Friendly message for the response' },
+      { name: 'isAttending', description: 'Set when the guest is attending (use with {{#if}})' },
+      { name: 'editLink', description: 'Link to edit the RSVP' },
+      ...TICKET_VARIABLES,
+    ],
+    accent: 'primary',
+  },
+  broadcast: {
+    label: 'Broadcast',
+    description: 'Messages sent to guests from the event page',
+    variables: [
+      ...COMMON_VARIABLES,
+      { name: 'subject', description: 'Subject entered by the host' },
+      { name: 'message', description: 'Message entered by the host' },
+    ],
+    subheading: 'Update from the host',
+    accent: 'primary',
+  },
+  eventChange: {
+    label: 'Event Update',
+    description: 'Sent when the date, time or location changes',
+    variables: [
+      ...COMMON_VARIABLES,
+      { name: 'changes', description: 'List of changed fields with old and new values' },
+    ],
+    subheading: '{{eventTitle}}',
+    accent: 'update',
+  },
+  waitlistPromotion: {
+    label: 'Waitlist Spot Opened',
+    description: 'Sent when a waitlisted guest is moved to attending',
+    variables: [
+      ...COMMON_VARIABLES,
+      ...EVENT_VARIABLES,
+      { name: 'editLink', description: 'Link to edit the RSVP' },
+      ...TICKET_VARIABLES,
+    ],
+    showCoverImage: true,
+    accent: 'primary',
+  },
+  rsvpApproved: {
+    label: 'RSVP Approved',
+    description: 'Sent when a host approves an RSVP that was waiting for approval',
+    variables: [
+      ...COMMON_VARIABLES,
+      ...EVENT_VARIABLES,
+      { name: 'statusLabel', description: 'Response, e.g. "Attending"' },
+      { name: 'statusMessage', description: 'Friendly message for the response' },
+      { name: 'isAttending', description: 'Set when the guest is attending (use with {{#if}})' },
+      { name: 'message', description: 'Note from the host (empty if none)' },
+      { name: 'editLink', description: 'Link to edit the RSVP' },
+      ...TICKET_VARIABLES,
+    ],
+    accent: 'primary',
+  },
+  rsvpDenied: {
+    label: 'RSVP Declined by Host',
+    description: 'Sent when a host turns down an RSVP that was waiting for approval',
+    variables: [
+      ...COMMON_VARIABLES.filter((variable) => variable.name !== 'rsvpLink'),
+      ...EVENT_VARIABLES,
+      { name: 'message', description: 'Note from the host (empty if none)' },
+    ],
+    accent: 'update',
+  },
+  eventCancelled: {
+    label: 'Event Cancelled',
+    description: 'Sent when a host deletes an event and chooses to notify guests',
+    variables: [
+      ...COMMON_VARIABLES.filter((variable) => variable.name !== 'rsvpLink'),
+      ...EVENT_VARIABLES,
+    ],
+    accent: 'update',
+  },
+};
+
+const DETAILS_BOX_STYLE =
+  'background: linear-gradient(135deg, rgba(214,55,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 24px; margin-bottom: 30px; border: 1px solid rgba(214,55,28,0.15);';
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateName, EmailTemplateContent> = {
+  invitation: {
+    subject: "You're invited to {{eventTitle}}!",
+    heading: "You're Invited!",
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+<p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+  {{hostName}} has invited you to:
+</p>
+
+<div style="${DETAILS_BOX_STYLE}">
+  <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1c1813; font-size: 22px; margin: 0 0 16px; font-weight: 700;">{{eventTitle}}</h2>
+  <p style="color: #4b5563; font-size: 14px; margin: 0 0 8px;">
+    <strong style="color: #d6371c;">When:</strong> {{eventDate}}
+  </p>
+  {{#if address}}<p style="color: #4b5563; font-size: 14px; margin: 0 0 8px;"><strong style="color: #d6371c;">Where:</strong><br>{{address}}</p>{{/if}}
+  {{#if eventDescription}}<p style="color: #4b5563; font-size: 14px; margin: 16px 0 0; line-height: 1.5;">{{eventDescription}}</p>{{/if}}
+</div>
+
+{{rsvpButtons}}
+<p style="color: #6b7280; font-size: 12px; text-align: center; margin: 16px 0 0;">
+  <a href="{{rsvpLink}}" style="color: #d6371c;">
+    Need to add guests or dietary notes? Click here for full form
+  </a>
+</p>`,
+  },
+  reminder: {
+    subject: 'Reminder: Please RSVP for {{eventTitle}}',
+    heading: 'Reminder: RSVP Needed',
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+<p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+  This is a friendly reminder that you haven't responded to the invitation for:
+</p>
+
+<div style="${DETAILS_BOX_STYLE}">
+  <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1c1813; font-size: 22px; margin: 0 0 16px; font-weight: 700;">{{eventTitle}}</h2>
+  <p style="color: #4b5563; font-size: 14px; margin: 0;">
+    <strong style="color: #d6371c;">When:</strong> {{eventDate}}
+  </p>
+  {{#if address}}<p style="color: #4b5563; font-size: 14px; margin: 8px 0 0;"><strong style="color: #d6371c;">Where:</strong><br>{{address}}</p>{{/if}}
+</div>
+
+{{rsvpButtons}}
+<p style="color: #6b7280; font-size: 12px; text-align: center; margin: 16px 0 0;">
+  <a href="{{rsvpLink}}" style="color: #d6371c;">
+    Need to add guests or dietary notes? Click here for full form
+  </a>
+</p>`,
+  },
+  confirmation: {
+    subject: 'RSVP Confirmed for {{eventTitle}}',
+    heading: 'RSVP Confirmed',
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+<p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+  Your response for <strong style="color: #d6371c;">{{eventTitle}}</strong> has been recorded.
+</p>
+
+<p style="color: #1c1813; font-size: 18px; line-height: 1.6; margin: 0 0 30px; text-align: center; font-weight: 600;">
+  {{statusMessage}}
+</p>
+
+{{#if isAttending}}
+<div style="${DETAILS_BOX_STYLE}">
+  <h3 style="color: #1c1813; font-size: 16px; margin: 0 0 12px; font-weight: 700;">Event Details</h3>
+  <p style="color: #4b5563; font-size: 14px; margin: 0 0 8px;">
+    <strong style="color: #d6371c;">When:</strong> {{eventDate}}
+  </p>
+  {{#if address}}<p style="color: #4b5563; font-size: 14px; margin: 0;"><strong style="color: #d6371c;">Where:</strong><br>{{address}}</p>{{/if}}
+</div>
+
+{{ticket}}
+{{/if}}
+
+{{#if editLink}}
+<div style="text-align: center; margin-top: 30px; padding-top: 30px; border-top: 1px solid rgba(214,55,28,0.15);">
+  <a href="{{editLink}}"
+     style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px; font-weight: 600; font-size: 14px; box-shadow: 0 4px 14px rgba(214,55,28, 0.3);">
+    Edit Your RSVP
+  </a>
+  <p style="color: #6b7280; font-size: 12px; margin: 12px 0 0;">
+    Need to make changes? Use the link above to update your response.
+  </p>
+</div>
+{{/if}}`,
+  },
+  broadcast: {
+    subject: '[{{eventTitle}}] {{subject}}',
+    heading: '{{eventTitle}}',
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+
+<div style="${DETAILS_BOX_STYLE.replace('margin-bottom: 30px', 'margin-bottom: 20px')}">
+  <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1c1813; font-size: 18px; margin: 0 0 16px; font-weight: 700;">{{subject}}</h2>
+  <p style="color: #4b5563; font-size: 14px; margin: 0; line-height: 1.6; white-space: pre-wrap;">{{message}}</p>
+</div>`,
+  },
+  eventChange: {
+    subject: 'Event Update: {{eventTitle}}',
+    heading: 'Event Updated',
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+<p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+  The event details have been updated. Here's what changed:
+</p>
+
+<div style="background: linear-gradient(135deg, rgba(189,129,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 24px; margin-bottom: 30px; border: 1px solid rgba(189,129,28,0.15);">
+  <ul style="color: #4b5563; font-size: 14px; margin: 0; padding-left: 20px; line-height: 1.8;">
+    {{changes}}
+  </ul>
+</div>
+
+<div style="text-align: center;">
+  <a href="{{rsvpLink}}" style="display: inline-block; background: linear-gradient(135deg, #bd811c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px; font-size: 16px; font-weight: 600; box-shadow: 0 4px 14px rgba(214,55,28, 0.3);">
+    View Event Details
+  </a>
+</div>`,
+  },
+  waitlistPromotion: {
+    subject: "A spot opened up - you're going to {{eventTitle}}!",
+    heading: "You're In!",
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+<p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+  Good news! A spot opened up, so you've been moved off the waitlist and are now attending:
+</p>
+
+<div style="${DETAILS_BOX_STYLE}">
+  <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1c1813; font-size: 22px; margin: 0 0 16px; font-weight: 700;">{{eventTitle}}</h2>
+  <p style="color: #4b5563; font-size: 14px; margin: 0;">
+    <strong style="color: #d6371c;">When:</strong> {{eventDate}}
+  </p>
+  {{#if address}}<p style="color: #4b5563; font-size: 14px; margin: 8px 0 0;"><strong style="color: #d6371c;">Where:</strong><br>{{address}}</p>{{/if}}
+</div>
+
+{{ticket}}
+
+<div style="text-align: center;">
+  <a href="{{editLink}}"
+     style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px; font-weight: 600; font-size: 14px; box-shadow: 0 4px 14px rgba(214,55,28, 0.3);">
+    Can't make it anymore? Update your RSVP
+  </a>
+</div>`,
+  },
+  rsvpApproved: {
+    subject: 'Your RSVP for {{eventTitle}} has been approved',
+    heading: 'RSVP Approved',
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+<p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+  The host has approved your response for <strong style="color: #d6371c;">{{eventTitle}}</strong>.
+</p>
+
+{{#if message}}
+<div style="${DETAILS_BOX_STYLE.replace('margin-bottom: 30px', 'margin-bottom: 20px')}">
+  <p style="color: #4b5563; font-size: 14px; margin: 0; line-height: 1.6; white-space: pre-wrap;">{{message}}</p>
+</div>
+{{/if}}
+
+<p style="color: #1c1813; font-size: 18px; line-height: 1.6; margin: 0 0 30px; text-align: center; font-weight: 600;">
+  {{statusMessage}}
+</p>
+
+{{#if isAttending}}
+<div style="${DETAILS_BOX_STYLE}">
+  <h3 style="color: #1c1813; font-size: 16px; margin: 0 0 12px; font-weight: 700;">Event Details</h3>
+  <p style="color: #4b5563; font-size: 14px; margin: 0 0 8px;">
+    <strong style="color: #d6371c;">When:</strong> {{eventDate}}
+  </p>
+  {{#if address}}<p style="color: #4b5563; font-size: 14px; margin: 0;"><strong style="color: #d6371c;">Where:</strong><br>{{address}}</p>{{/if}}
+</div>
+
+{{ticket}}
+{{/if}}
+
+<div style="text-align: center; margin-top: 30px; padding-top: 30px; border-top: 1px solid rgba(214,55,28,0.15);">
+  <a href="{{editLink}}"
+     style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px; font-weight: 600; font-size: 14px; box-shadow: 0 4px 14px rgba(214,55,28, 0.3);">
+    Edit Your RSVP
+  </a>
+  <p style="color: #6b7280; font-size: 12px; margin: 12px 0 0;">
+    Need to make changes? Use the link above to update your response.
+  </p>
+</div>`,
+  },
+  rsvpDenied: {
+    subject: 'Your RSVP for {{eventTitle}}',
+    heading: 'RSVP Not Approved',
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+<p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+  Thanks for your interest in <strong style="color: #d6371c;">{{eventTitle}}</strong>. Unfortunately the host wasn't able to approve your RSVP.
+</p>
+
+{{#if message}}
+<div style="${DETAILS_BOX_STYLE}">
+  <p style="color: #4b5563; font-size: 14px; margin: 0; line-height: 1.6; white-space: pre-wrap;">{{message}}</p>
+</div>
+{{/if}}`,
+  },
+  eventCancelled: {
+    subject: 'Cancelled: {{eventTitle}}',
+    heading: 'Event Cancelled',
+    body: `<p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+  {{greeting}}
+</p>
+<p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+  Unfortunately the host has cancelled this event:
+</p>
+
+<div style="${DETAILS_BOX_STYLE}">
+  <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1c1813; font-size: 22px; margin: 0 0 16px; font-weight: 700; text-decoration: line-through;">{{eventTitle}}</h2>
+  <p style="color: #4b5563; font-size: 14px; margin: 0;">
+    <strong style="color: #d6371c;">When:</strong> {{eventDate}}
+  </p>
+  {{#if address}}<p style="color: #4b5563; font-size: 14px; margin: 8px 0 0;"><strong style="color: #d6371c;">Where:</strong><br>{{address}}</p>{{/if}}
+</div>
+
+<p style="color: #6b7280; font-size: 14px; line-height: 1.6; margin: 0;">
+  If you added it to your calendar, it will be removed when you open this email in your calendar app.
+</p>`,
+  },
+};
+
+/**
+ * Fill in blank fields of a stored template from the built-in default
+ */
+export function withTemplateDefaults(
+  name: EmailTemplateName,
+  template: Partial<EmailTemplateContent> | null | undefined
+): EmailTemplateContent {
+  const defaults = DEFAULT_EMAIL_TEMPLATES[name];
+  return {
+    subject: template?.subject || defaults.subject,
+    heading: template?.heading || defaults.heading,
+    body: template?.body || defaults.body,
+  };
+}
+
+/**
+ * Everything a template might need; each email fills in what it has
+ */
+export interface EmailTemplateData {
+  appUrl: string;
+  guestName?: string | null;
+  hostName?: string | null;
+  event?: AddressFields & {
+    title: string;
+    date: Date;
+    description?: string | null;
+    coverImage?: string | null;
+  };
+  eventTitle?: string;
+  rsvpToken?: string;
+  status?: string;
+  subject?: string;
+  message?: string;
+  changes?: { field: string; oldValue: string; newValue: string }[];
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  ATTENDING: 'Attending',
+  NOT_ATTENDING: 'Not Attending',
+  MAYBE: 'Maybe',
+  PENDING: 'Pending',
+  WAITLISTED: 'Waitlisted',
+  PENDING_APPROVAL: 'Awaiting Approval',
+};
+
+const STATUS_MESSAGES: Record<string, string> = {
+  ATTENDING: "We're excited to see you there!",
+  NOT_ATTENDING: "We're sorry you can't make it. Maybe next time!",
+  MAYBE: "Thanks for letting us know. We hope you can make it!",
+  PENDING: "Thanks for your response!",
+  WAITLISTED: "The event is full, so you're on the waitlist. We'll email you if a spot opens up.",
+  PENDING_APPROVAL: "The host will review your RSVP and email you once it's approved.",
+};
+
+function renderRsvpButtons(appUrl: string, rsvpToken: string): string {
+  const button = (status: string, label: string, from: string, to: string) => `
+    <tr>
+      <td align="center" style="padding: 8px;">
+        <a href="${appUrl}/api/rsvp/${rsvpToken}/quick?status=${status}"
+           style="display: inline-block; background: linear-gradient(135deg, ${from} 0%, ${to} 100%);
+                  color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px;
+                  font-size: 16px; font-weight: 600;">
+          ${label}
+        </a>
+      </td>
+    </tr>`;
+
+  return `<table width="100%" cellpadding="0" cellspacing="0">${[
+    button('ATTENDING', "Yes, I'll be there!", '#d6371c', '#b22e16'),
+    button('MAYBE', 'Maybe', '#bd811c', '#97640f'),
+    button('NOT_ATTENDING', "Can't make it", '#2f2a22', '#1f1b15'),
+  ].join('')}
+  </table>`;
+}
+
+function renderTicket(appUrl: string, rsvpToken: string): string {
+  return `<div style="text-align: center; margin: 0 0 30px;">
+  <p style="color: #1c1813; font-size: 14px; font-weight: 600; margin: 0 0 12px;">Your ticket - show this at the door</p>
+  <img src="${appUrl}/api/rsvp/${rsvpToken}/ticket" width="200" height="200" alt="Check-in QR code"
+       style="display: block; margin: 0 auto; border: 1px solid rgba(214,55,28,0.15); border-radius: 3px;">
+  <p style="color: #6b7280; font-size: 12px; margin: 12px 0 0;">
+    Can't see the code? <a href="${getTicketUrl(appUrl, rsvpToken)}" style="color: #d6371c;">Open your ticket</a>
+  </p>
+</div>`;
+}
+
+/**
+ * Build the merge variables for a message.
+ * Returns plain-text values plus HTML versions for the variables that need markup.
+ */
+export function buildEmailTemplateValues(data: EmailTemplateData): {
+  values: TemplateValues;
+  htmlValues: TemplateValues;
+} {
+  const { appUrl, event, rsvpToken, status, changes } = data;
+  const eventHasAddress = !!event && hasAddress(event);
+
+  const values: TemplateValues = {
+    greeting: data.guestName ? `Hi ${data.guestName},` : 'Hello,',
+    guestName: data.guestName || '',
+    hostName: data.hostName || 'Someone',
+    eventTitle: event?.title || data.eventTitle || '',
+    eventDate: event ? formatDateTime(event.date) : '',
+    eventDescription: event?.description || '',
+    address: eventHasAddress ? formatAddressOneLine(event) : '',
+    rsvpLink: rsvpToken ? `${appUrl}/rsvp/${rsvpToken}` : '',
+    editLink: rsvpToken ? `${appUrl}/rsvp/${rsvpToken}/edit` : '',
+    ticketLink: rsvpToken ? getTicketUrl(appUrl, rsvpToken) : '',
+    statusLabel: status ? STATUS_LABELS[status] || status : '',
+    statusMessage: status ? STATUS_MESSAGES[status] || '' : '',
+    isAttending: status === 'ATTENDING' ? 'yes' : '',
+    subject: data.subject || '',
+    message: data.message || '',
+    changes: changes?.map((c) => `${c.field}: ${c.oldValue} → ${c.newValue}`).join('; ') || '',
+  };
+
+  const htmlValues: TemplateValues = {
+    address: eventHasAddress ? formatAddressForEmail(event) : '',
+    rsvpButtons: rsvpToken ? renderRsvpButtons(appUrl, rsvpToken) : '',
+    ticket: rsvpToken ? renderTicket(appUrl, rsvpToken) : '',
+    changes: changes
+      ?.map((c) => `<li style="margin: 8px 0;"><strong>${escapeHtml(c.field)}:</strong> ${escapeHtml(c.oldValue)} → ${escapeHtml(c.newValue)}</li>`)
+      .join('') || '',
+  };
+
+  return { values, htmlValues };
+}
+
+const ACCENT_STYLES = {
+  primary: {
+    header: 'linear-gradient(135deg, #d6371c 0%, #d6371c 100%)',
+    shadow: 'rgba(214,55,28, 0.15)',
+    footer: 'linear-gradient(135deg, rgba(214,55,28,0.05) 0%, rgba(214,55,28,0.05) 100%)',
+  },
+  update: {
+    header: 'linear-gradient(135deg, #bd811c 0%, #d6371c 100%)',
+    shadow: 'rgba(189,129,28, 0.15)',
+    footer: 'linear-gradient(135deg, rgba(189,129,28,0.05) 0%, rgba(214,55,28,0.05) 100%)',
+  },
+};
+
+interface EmailLayoutParams {
+  heading: string;
+  subheading?: string;
+  body: string;
+  coverImage?: string | null;
+  coverAlt?: string;
+  accent: keyof typeof ACCENT_STYLES;
+}
+
+/**
+ * Wrap a rendered body in the shared OwnRSVP email chrome (banner, cover image, footer)
+ */
+export function renderEmailLayout({ heading, subheading, body, coverImage, coverAlt, accent }: EmailLayoutParams): string {
+  const styles = ACCENT_STYLES[accent];
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${heading}</title>
+    </head>
+    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4ede0;">
+      <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #f4ede0 0%, #f4ede0 100%); padding: 40px 20px;">
+        <tr>
+          <td align="center">
+            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 4px; overflow: hidden; box-shadow: 0 4px 24px ${styles.shadow}, 0 1px 3px rgba(0, 0, 0, 0.08);">
+              <tr>
+                <td style="background: ${styles.header}; padding: 48px 30px; text-align: center;">
+                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 32px; font-weight: 700; text-shadow: 0 2px 4px rgba(0,0,0,0.1);">${heading}</h1>
+                  ${subheading ? `<p style="color: rgba(255,255,255,0.9); margin: 12px 0 0; font-size: 16px; font-weight: 500;">${subheading}</p>` : ''}
+                </td>
+              </tr>
+              ${coverImage ? `
+              <tr>
+                <td style="padding: 0;">
+                  <img
+                    src="${coverImage}"
+                    alt="${coverAlt || ''}"
+                    style="width: 100%; max-height: 300px; object-fit: cover; display: block;"
+                  />
+                </td>
+              </tr>
+              ` : ''}
+              <tr>
+                <td style="padding: 40px 30px;">
+                  ${body}
+                </td>
+              </tr>
+              <tr>
+                <td style="background: ${styles.footer}; padding: 20px 30px; text-align: center; border-top: 1px solid rgba(214,55,28,0.1);">
+                  <p style="color: #d6371c; font-size: 12px; margin: 0; font-weight: 500;">
+                    Sent via OwnRSVP
+                  </p>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Render a template into a ready-to-send subject and HTML document
+ */
+export function renderEmailTemplate(
+  name: EmailTemplateName,
+  template: EmailTemplateContent,
+  data: EmailTemplateData
+): { subject: string; html: string } {
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[name];
+  const { values, htmlValues } = buildEmailTemplateValues(data);
+  const renderHtml = (source: string) => renderTemplate(source, values, { escapeHtml: true, htmlValues });
+
+  return {
+    subject: renderTemplate(template.subject, values).replace(/\s+/g, ' ').trim(),
+    html: renderEmailLayout({
+      heading: renderHtml(template.heading),
+      subheading: definition.subheading ? renderHtml(definition.subheading) : undefined,
+      body: renderHtml(template.body),
+      coverImage: definition.showCoverImage ? getAbsoluteImageUrl(data.event?.coverImage, 'email', data.appUrl) : null,
+      coverAlt: escapeHtml(values.eventTitle || ''),
+      accent: definition.accent,
+    }),
+  };
+}
+
+/**
+ * Sample data for template previews
+ */
+export const SAMPLE_EMAIL_TEMPLATE_DATA: EmailTemplateData = {
+  appUrl: 'https://rsvp.example.com',
+  guestName: 'Alex Rivera',
+  hostName: 'Jordan Lee',
+  event: {
+    title: 'Summer Garden Party',
+    date: new Date('2030-06-15T18:00:00'),
+    description: 'Join us for food, drinks and music in the garden.',
+    locationName: 'Riverside Gardens',
+    streetAddress1: '123 Main Street',
+    city: 'Springfield',
+    state: 'IL',
+    zipCode: '62701',
+  },
+  rsvpToken: 'sample-token',
+  status: 'ATTENDING',
+  subject: 'Parking information',
+  message: 'Free parking is available on Oak Street.\nSee you there!',
+  changes: [
+    { field: 'Date', oldValue: 'Saturday, June 14, 2030 at 6:00 PM', newValue: 'Sunday, June 15, 2030 at 6:00 PM' },
+  ],
+};
@@ -0,0 +1,97 @@
+import nodemailer from 'nodemailer';
+import { validateSmtpConfig } from './env-validation';
+import { getEmailConfig } from './config';
+import { logger } from './logger';
+
+// Helper to get "from" address
+export async function getFromAddress(): Promise<string> {
+  const config = await getEmailConfig();
+
+  // Use explicit "from" address if set
+  if (config?.from && config.from.trim()) {
+    return config.from;
+  }
+  if (process.env.SMTP_FROM && process.env.SMTP_FROM.trim()) {
+    return process.env.SMTP_FROM;
+  }
+
+  // Fall back to SMTP_USER but format it nicely with app name
+  const smtpUser = process.env.SMTP_USER || config?.user || '';
+  if (smtpUser) {
+    return `OwnRSVP <${smtpUser}>`;
+  }
+
+  return '';
+}
+
+// Create transporter dynamically using config manager
+export async function createTransporter() {
+  try {
+    const config = await getEmailConfig();
+    if (config && config.host && config.user && config.password) {
+      return nodemailer.createTransport({
+        host: config.host,
+        port: parseInt(config.port || '587'),
+        secure: config.port === '465',
+        auth: {
+          user: config.user,
+          pass: config.password,
+        },
+      });
+    }
+  } catch (error) {
+    logger.error('Error creating transporter from config', error);
+  }
+
+  // Fallback to environment variables
+  const smtpConfig = await validateSmtpConfig();
+  if (smtpConfig.warnings.length > 0) {
+    logger.warn('SMTP Configuration warnings', { warnings: smtpConfig.warnings });
+  }
+
+  if (smtpConfig.isValid) {
+    return nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_PORT === '465',
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASSWORD,
+      },
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Hostname of the SMTP server messages are currently sent through.
+ * Used to key per-server rate limits in the email queue.
+ */
+export async function getSmtpHost(): Promise<string | null> {
+  try {
+    const config = await getEmailConfig();
+    if (config?.host && config.host.trim()) {
+      return config.host.trim().toLowerCase();
+    }
+  } catch (error) {
+    logger.error('Error reading SMTP host from config', error);
+  }
+
+  return process.env.SMTP_HOST?.trim().toLowerCase() || null;
+}
+
+/**
+ * Organizer named in calendar invites. Calendar apps send guests' Accept/Decline
+ * replies to this address, so it should be a mailbox forwarded to
+ * /api/inbound/email (CALENDAR_REPLY_ADDRESS). Without one, replies go to the
+ * "from" address and aren't read.
+ */
+export async function getCalendarOrganizer(): Promise<{ email: string; name: string | null }> {
+  const from = await getFromAddress();
+  const match = from.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  const name = match ? match[1].trim() || null : null;
+  const email = process.env.CALENDAR_REPLY_ADDRESS?.trim() || (match ? match[2].trim() : from.trim());
+
+  return { email, name: name || 'OwnRSVP' };
+}
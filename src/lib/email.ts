@@ -1,82 +1,147 @@
-import nodemailer from 'nodemailer';
 import { formatDateTime } from './utils';
-import { validateSmtpConfig, isEmailConfigured } from './env-validation';
-import { getEmailConfig, getAppUrl } from './config';
+import { isEmailConfigured } from './env-validation';
+import { getAppUrl } from './config';
+import { createTransporter, getCalendarOrganizer, getFromAddress } from './email-transport';
+import { CalendarAttachment, enqueueEmail, getCalendarMailOptions, OutboundEmailType } from './email-queue';
+import { CalendarMethod, generateCalendarInvite, toWebcalUrl } from './calendar';
 import { prisma } from './prisma';
+import { escapeHtml } from './template-utils';
 import { logger } from './logger';
 import { formatAddressForEmail, hasAddress, AddressFields } from './address-utils';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  renderEmailTemplate,
+  withTemplateDefaults,
+  EmailTemplateContent,
+  EmailTemplateData,
+  EmailTemplateName,
+} from './email-templates';
 
-// Helper to get "from" address
-async function getFromAddress(): Promise<string> {
-  const config = await getEmailConfig();
-
-  // Use explicit "from" address if set
-  if (config?.from && config.from.trim()) {
-    return config.from;
-  }
-  if (process.env.SMTP_FROM && process.env.SMTP_FROM.trim()) {
-    return process.env.SMTP_FROM;
-  }
-
-  // Fall back to SMTP_USER but format it nicely with app name
-  const smtpUser = process.env.SMTP_USER || config?.user || '';
-  if (smtpUser) {
-    return `OwnRSVP <${smtpUser}>`;
-  }
-
-  return '';
-}
+export { isEmailConfigured };
 
-// Create transporter dynamically using config manager
-async function createTransporter() {
+/**
+ * Resolve the template for a message: the event's override, then the admin's
+ * global template, then the built-in default
+ */
+async function getEmailTemplate(name: EmailTemplateName, eventId?: string | null): Promise<EmailTemplateContent> {
   try {
-    const config = await getEmailConfig();
-    if (config && config.host && config.user && config.password) {
-      return nodemailer.createTransport({
-        host: config.host,
-        port: parseInt(config.port || '587'),
-        secure: config.port === '465',
-        auth: {
-          user: config.user,
-          pass: config.password,
-        },
+    if (eventId) {
+      const override = await prisma.eventEmailTemplate.findUnique({
+        where: { eventId_name: { eventId, name } },
       });
+      if (override) {
+        return withTemplateDefaults(name, override);
+      }
+    }
+
+    const template = await prisma.emailTemplate.findUnique({
+      where: { name },
+    });
+    if (template) {
+      return withTemplateDefaults(name, template);
     }
   } catch (error) {
-    logger.error('Error creating transporter from config', error);
+    logger.error('Error reading email template from database', error, { name, eventId });
   }
 
-  // Fallback to environment variables
-  const smtpConfig = await validateSmtpConfig();
-  if (smtpConfig.warnings.length > 0) {
-    logger.warn('SMTP Configuration warnings', { warnings: smtpConfig.warnings });
-  }
+  return DEFAULT_EMAIL_TEMPLATES[name];
+}
 
-  if (smtpConfig.isValid) {
-    return nodemailer.createTransport({
-      host: process.env.SMTP_HOST,
-      port: parseInt(process.env.SMTP_PORT || '587'),
-      secure: process.env.SMTP_PORT === '465',
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASSWORD,
-      },
-    });
+async function renderTemplatedEmail(
+  name: EmailTemplateName,
+  eventId: string | null | undefined,
+  data: Omit<EmailTemplateData, 'appUrl'>
+) {
+  const template = await getEmailTemplate(name, eventId);
+  return renderEmailTemplate(name, template, { ...data, appUrl: await getAppUrl() });
+}
+
+interface DeliveryOptions {
+  type: OutboundEmailType;
+  eventId?: string | null;
+  guestId?: string | null;
+  /** Add to the outbox instead of sending inline */
+  queue?: boolean;
+}
+
+/**
+ * Send a rendered guest email now, or hand it to the outbox worker
+ */
+async function deliverEmail(
+  transporter: NonNullable<Awaited<ReturnType<typeof createTransporter>>>,
+  message: { to: string; replyTo?: string | null; subject: string; html: string; calendar?: CalendarAttachment },
+  { type, eventId, guestId, queue }: DeliveryOptions
+) {
+  if (queue) {
+    await enqueueEmail({ ...message, type, eventId, guestId });
+    return;
   }
 
-  return null;
+  await transporter.sendMail({
+    from: await getFromAddress(),
+    to: message.to,
+    replyTo: message.replyTo || undefined,
+    subject: message.subject,
+    html: message.html,
+    ...getCalendarMailOptions(message.calendar),
+  });
 }
 
-export { isEmailConfigured };
+interface QueueableEmailParams {
+  guestId?: string | null;
+  queue?: boolean;
+}
 
 interface EventDetails extends AddressFields {
+  id?: string;
   title: string;
   date: Date;
+  endDate?: Date | null;
+  timezone?: string | null;
+  calendarSequence?: number;
   description?: string | null;
   coverImage?: string | null;
 }
 
-interface SendInvitationParams {
+// Responses a confirmation email's calendar invite can carry; waitlisted and
+// unapproved guests don't get one yet
+const CALENDAR_INVITE_STATUSES = ['ATTENDING', 'MAYBE', 'NOT_ATTENDING'];
+
+/**
+ * Calendar invite for one guest, so the email adds the event to their calendar with
+ * Accept/Decline buttons. Events that aren't saved yet (test emails) don't get one.
+ */
+async function buildCalendarInvite(
+  method: CalendarMethod,
+  event: EventDetails,
+  guest: { email: string; name?: string | null; status?: string | null; rsvpToken?: string }
+): Promise<CalendarAttachment | undefined> {
+  if (!event.id) return undefined;
+
+  const appUrl = await getAppUrl();
+  const content = generateCalendarInvite(
+    {
+      id: event.id,
+      title: event.title,
+      description: event.description ?? null,
+      address: event,
+      startDate: event.date,
+      endDate: event.endDate ?? null,
+      timezone: event.timezone ?? null,
+      sequence: event.calendarSequence,
+      url: guest.rsvpToken ? `${appUrl}/rsvp/${guest.rsvpToken}` : undefined,
+    },
+    {
+      method,
+      organizer: await getCalendarOrganizer(),
+      attendee: { email: guest.email, name: guest.name, status: guest.status },
+    }
+  );
+
+  return { method, content };
+}
+
+interface SendInvitationParams extends QueueableEmailParams {
   to: string;
   guestName?: string | null;
   event: EventDetails;
@@ -92,6 +157,8 @@ export async function sendInvitation({
   rsvpToken,
   hostName,
   replyTo,
+  guestId,
+  queue,
 }: SendInvitationParams) {
   const transporter = await createTransporter();
   if (!transporter) {
@@ -99,120 +166,100 @@ export async function sendInvitation({
     throw new Error('Email service not configured. Please set SMTP environment variables.');
   }
 
-  const appUrl = await getAppUrl();
-  const rsvpLink = `${appUrl}/rsvp/${rsvpToken}`;
+  const { subject, html } = await renderTemplatedEmail('invitation', event.id, {
+    guestName,
+    hostName,
+    event,
+    rsvpToken,
+  });
+  const calendar = await buildCalendarInvite('REQUEST', event, { email: to, name: guestName, rsvpToken });
 
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>You're Invited!</title>
-    </head>
-    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4ede0;">
-      <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #f4ede0 0%, #f4ede0 100%); padding: 40px 20px;">
-        <tr>
-          <td align="center">
-            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 4px; overflow: hidden; box-shadow: 0 4px 24px rgba(214,55,28, 0.15), 0 1px 3px rgba(0, 0, 0, 0.08);">
-              <tr>
-                <td style="background: linear-gradient(135deg, #d6371c 0%, #d6371c 50%, #d6371c 100%); padding: 48px 30px; text-align: center;">
-                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 32px; font-weight: 700; text-shadow: 0 2px 4px rgba(0,0,0,0.1);">You're Invited!</h1>
-                </td>
-              </tr>
-              ${event.coverImage ? `
-              <tr>
-                <td style="padding: 0;">
-                  <img
-                    src="${event.coverImage}"
-                    alt="${event.title}"
-                    style="width: 100%; max-height: 300px; object-fit: cover; display: block;"
-                  />
-                </td>
-              </tr>
-              ` : ''}
-              <tr>
-                <td style="padding: 40px 30px;">
-                  <p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    ${guestName ? `Hi ${guestName},` : 'Hello,'}
-                  </p>
-                  <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
-                    ${hostName || 'Someone'} has invited you to:
-                  </p>
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject, html, calendar },
+    { type: 'invitation', eventId: event.id, guestId, queue }
+  );
+}
 
-                  <div style="background: linear-gradient(135deg, rgba(214,55,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 24px; margin-bottom: 30px; border: 1px solid rgba(214,55,28,0.15);">
-                    <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1c1813; font-size: 22px; margin: 0 0 16px; font-weight: 700;">${event.title}</h2>
-                    <p style="color: #4b5563; font-size: 14px; margin: 0 0 8px;">
-                      <strong style="color: #d6371c;">When:</strong> ${formatDateTime(event.date)}
-                    </p>
-                    ${hasAddress(event) ? `<p style="color: #4b5563; font-size: 14px; margin: 0 0 8px;"><strong style="color: #d6371c;">Where:</strong><br>${formatAddressForEmail(event)}</p>` : ''}
-                    ${event.description ? `<p style="color: #4b5563; font-size: 14px; margin: 16px 0 0; line-height: 1.5;">${event.description}</p>` : ''}
-                  </div>
+interface SendReminderParams extends QueueableEmailParams {
+  to: string;
+  guestName?: string | null;
+  event: EventDetails;
+  rsvpToken: string;
+  replyTo?: string | null;
+}
 
-                  <table width="100%" cellpadding="0" cellspacing="0">
-                    <tr>
-                      <td align="center" style="padding: 8px;">
-                        <a href="${appUrl}/api/rsvp/${rsvpToken}/quick?status=ATTENDING"
-                           style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #b22e16 100%);
-                                  color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px;
-                                  font-size: 16px; font-weight: 600;">
-                          Yes, I'll be there!
-                        </a>
-                      </td>
-                    </tr>
-                    <tr>
-                      <td align="center" style="padding: 8px;">
-                        <a href="${appUrl}/api/rsvp/${rsvpToken}/quick?status=MAYBE"
-                           style="display: inline-block; background: linear-gradient(135deg, #bd811c 0%, #97640f 100%);
-                                  color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px;
-                                  font-size: 16px; font-weight: 600;">
-                          Maybe
-                        </a>
-                      </td>
-                    </tr>
-                    <tr>
-                      <td align="center" style="padding: 8px;">
-                        <a href="${appUrl}/api/rsvp/${rsvpToken}/quick?status=NOT_ATTENDING"
-                           style="display: inline-block; background: linear-gradient(135deg, #2f2a22 0%, #1f1b15 100%);
-                                  color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px;
-                                  font-size: 16px; font-weight: 600;">
-                          Can't make it
-                        </a>
-                      </td>
-                    </tr>
-                  </table>
-                  <p style="color: #6b7280; font-size: 12px; text-align: center; margin: 16px 0 0;">
-                    <a href="${rsvpLink}" style="color: #d6371c;">
-                      Need to add guests or dietary notes? Click here for full form
-                    </a>
-                  </p>
-                </td>
-              </tr>
-              <tr>
-                <td style="background: linear-gradient(135deg, rgba(214,55,28,0.05) 0%, rgba(214,55,28,0.05) 100%); padding: 20px 30px; text-align: center; border-top: 1px solid rgba(214,55,28,0.1);">
-                  <p style="color: #d6371c; font-size: 12px; margin: 0; font-weight: 500;">
-                    Sent via OwnRSVP
-                  </p>
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    </body>
-    </html>
-  `;
+export async function sendReminder({
+  to,
+  guestName,
+  event,
+  rsvpToken,
+  replyTo,
+  guestId,
+  queue,
+}: SendReminderParams) {
+  const transporter = await createTransporter();
+  if (!transporter) {
+    logger.warn('Email not configured - skipping reminder email', { to });
+    throw new Error('Email service not configured. Please set SMTP environment variables.');
+  }
 
-  await transporter.sendMail({
-    from: await getFromAddress(),
-    to,
-    replyTo: replyTo || undefined,
-    subject: `You're invited to ${event.title}!`,
-    html,
+  const { subject, html } = await renderTemplatedEmail('reminder', event.id, {
+    guestName,
+    event,
+    rsvpToken,
+  });
+
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject, html },
+    { type: 'reminder', eventId: event.id, guestId, queue }
+  );
+}
+
+interface SendConfirmationParams extends QueueableEmailParams {
+  to: string;
+  guestName?: string | null;
+  event: EventDetails;
+  status: string;
+  rsvpToken?: string;
+  replyTo?: string | null;
+}
+
+export async function sendConfirmation({
+  to,
+  guestName,
+  event,
+  status,
+  rsvpToken,
+  replyTo,
+  guestId,
+  queue,
+}: SendConfirmationParams) {
+  const transporter = await createTransporter();
+  if (!transporter) {
+    logger.warn('Email not configured - skipping confirmation email', { to });
+    throw new Error('Email service not configured. Please set SMTP environment variables.');
+  }
+
+  const { subject, html } = await renderTemplatedEmail('confirmation', event.id, {
+    guestName,
+    event,
+    status,
+    rsvpToken,
   });
+  const calendar = CALENDAR_INVITE_STATUSES.includes(status)
+    ? await buildCalendarInvite('REQUEST', event, { email: to, name: guestName, status, rsvpToken })
+    : undefined;
+
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject, html, calendar },
+    { type: 'confirmation', eventId: event.id, guestId, queue }
+  );
 }
 
-interface SendReminderParams {
+interface SendWaitlistPromotionParams extends QueueableEmailParams {
   to: string;
   guestName?: string | null;
   event: EventDetails;
@@ -220,21 +267,125 @@ interface SendReminderParams {
   replyTo?: string | null;
 }
 
-export async function sendReminder({
+export async function sendWaitlistPromotion({
   to,
   guestName,
   event,
   rsvpToken,
   replyTo,
-}: SendReminderParams) {
+  guestId,
+  queue,
+}: SendWaitlistPromotionParams) {
   const transporter = await createTransporter();
   if (!transporter) {
-    logger.warn('Email not configured - skipping reminder email', { to });
+    logger.warn('Email not configured - skipping waitlist promotion email', { to });
     throw new Error('Email service not configured. Please set SMTP environment variables.');
   }
 
-  const appUrl = await getAppUrl();
-  const rsvpLink = `${appUrl}/rsvp/${rsvpToken}`;
+  const { subject, html } = await renderTemplatedEmail('waitlistPromotion', event.id, {
+    guestName,
+    event,
+    rsvpToken,
+  });
+
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject, html },
+    { type: 'waitlistPromotion', eventId: event.id, guestId, queue }
+  );
+}
+
+interface SendRsvpApprovedParams extends QueueableEmailParams {
+  to: string;
+  guestName?: string | null;
+  event: EventDetails;
+  status: string;
+  rsvpToken: string;
+  message?: string | null;
+  replyTo?: string | null;
+}
+
+export async function sendRsvpApproved({
+  to,
+  guestName,
+  event,
+  status,
+  rsvpToken,
+  message,
+  replyTo,
+  guestId,
+  queue,
+}: SendRsvpApprovedParams) {
+  const transporter = await createTransporter();
+  if (!transporter) {
+    logger.warn('Email not configured - skipping RSVP approval email', { to });
+    throw new Error('Email service not configured. Please set SMTP environment variables.');
+  }
+
+  const { subject, html } = await renderTemplatedEmail('rsvpApproved', event.id, {
+    guestName,
+    event,
+    status,
+    rsvpToken,
+    message: message || undefined,
+  });
+
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject, html },
+    { type: 'rsvpApproved', eventId: event.id, guestId, queue }
+  );
+}
+
+interface SendRsvpDeniedParams {
+  to: string;
+  guestName?: string | null;
+  event: EventDetails;
+  message?: string | null;
+  replyTo?: string | null;
+  queue?: boolean;
+}
+
+/**
+ * The guest record is removed when an RSVP is denied, so the message isn't linked to a guest
+ */
+export async function sendRsvpDenied({
+  to,
+  guestName,
+  event,
+  message,
+  replyTo,
+  queue,
+}: SendRsvpDeniedParams) {
+  const transporter = await createTransporter();
+  if (!transporter) {
+    logger.warn('Email not configured - skipping RSVP denial email', { to });
+    throw new Error('Email service not configured. Please set SMTP environment variables.');
+  }
+
+  const { subject, html } = await renderTemplatedEmail('rsvpDenied', event.id, {
+    guestName,
+    event,
+    message: message || undefined,
+  });
+
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject, html },
+    { type: 'rsvpDenied', eventId: event.id, queue }
+  );
+}
+
+export async function sendPasswordResetEmail(
+  to: string,
+  resetUrl: string,
+  userName: string
+) {
+  const transporter = await createTransporter();
+  if (!transporter) {
+    logger.warn('Email not configured - skipping password reset email', { to });
+    throw new Error('Email service not configured. Please set SMTP environment variables.');
+  }
 
   const html = `
     <!DOCTYPE html>
@@ -242,7 +393,7 @@ export async function sendReminder({
     <head>
       <meta charset="utf-8">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Reminder: RSVP Needed</title>
+      <title>Reset Your Password</title>
     </head>
     <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4ede0;">
       <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #f4ede0 0%, #f4ede0 100%); padding: 40px 20px;">
@@ -251,73 +402,33 @@ export async function sendReminder({
             <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 4px; overflow: hidden; box-shadow: 0 4px 24px rgba(214,55,28, 0.15), 0 1px 3px rgba(0, 0, 0, 0.08);">
               <tr>
                 <td style="background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); padding: 48px 30px; text-align: center;">
-                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 32px; font-weight: 700; text-shadow: 0 2px 4px rgba(0,0,0,0.1);">Reminder: RSVP Needed</h1>
-                </td>
-              </tr>
-              ${event.coverImage ? `
-              <tr>
-                <td style="padding: 0;">
-                  <img
-                    src="${event.coverImage}"
-                    alt="${event.title}"
-                    style="width: 100%; max-height: 300px; object-fit: cover; display: block;"
-                  />
+                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 32px; font-weight: 700; text-shadow: 0 2px 4px rgba(0,0,0,0.1);">Reset Your Password</h1>
                 </td>
               </tr>
-              ` : ''}
               <tr>
                 <td style="padding: 40px 30px;">
                   <p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    ${guestName ? `Hi ${guestName},` : 'Hello,'}
+                    Hi ${userName},
                   </p>
                   <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
-                    This is a friendly reminder that you haven't responded to the invitation for:
+                    We received a request to reset your password. Click the button below to create a new password:
                   </p>
 
-                  <div style="background: linear-gradient(135deg, rgba(214,55,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 24px; margin-bottom: 30px; border: 1px solid rgba(214,55,28,0.15);">
-                    <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1c1813; font-size: 22px; margin: 0 0 16px; font-weight: 700;">${event.title}</h2>
-                    <p style="color: #4b5563; font-size: 14px; margin: 0;">
-                      <strong style="color: #d6371c;">When:</strong> ${formatDateTime(event.date)}
+                  <div style="text-align: center; margin: 30px 0;">
+                    <a href="${resetUrl}" style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 16px 36px; border-radius: 3px; font-size: 16px; font-weight: 600; box-shadow: 0 4px 14px rgba(214,55,28, 0.4);">
+                      Reset Password
+                    </a>
+                  </div>
+
+                  <div style="background: linear-gradient(135deg, rgba(214,55,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 16px 20px; margin: 20px 0; border: 1px solid rgba(214,55,28,0.15);">
+                    <p style="color: #4b5563; font-size: 14px; line-height: 1.6; margin: 0;">
+                      This link will expire in <strong style="color: #d6371c;">1 hour</strong>. If you didn't request a password reset, you can safely ignore this email.
                     </p>
-                    ${hasAddress(event) ? `<p style="color: #4b5563; font-size: 14px; margin: 8px 0 0;"><strong style="color: #d6371c;">Where:</strong><br>${formatAddressForEmail(event)}</p>` : ''}
                   </div>
 
-                  <table width="100%" cellpadding="0" cellspacing="0">
-                    <tr>
-                      <td align="center" style="padding: 8px;">
-                        <a href="${appUrl}/api/rsvp/${rsvpToken}/quick?status=ATTENDING"
-                           style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #b22e16 100%);
-                                  color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px;
-                                  font-size: 16px; font-weight: 600;">
-                          Yes, I'll be there!
-                        </a>
-                      </td>
-                    </tr>
-                    <tr>
-                      <td align="center" style="padding: 8px;">
-                        <a href="${appUrl}/api/rsvp/${rsvpToken}/quick?status=MAYBE"
-                           style="display: inline-block; background: linear-gradient(135deg, #bd811c 0%, #97640f 100%);
-                                  color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px;
-                                  font-size: 16px; font-weight: 600;">
-                          Maybe
-                        </a>
-                      </td>
-                    </tr>
-                    <tr>
-                      <td align="center" style="padding: 8px;">
-                        <a href="${appUrl}/api/rsvp/${rsvpToken}/quick?status=NOT_ATTENDING"
-                           style="display: inline-block; background: linear-gradient(135deg, #2f2a22 0%, #1f1b15 100%);
-                                  color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px;
-                                  font-size: 16px; font-weight: 600;">
-                          Can't make it
-                        </a>
-                      </td>
-                    </tr>
-                  </table>
-                  <p style="color: #6b7280; font-size: 12px; text-align: center; margin: 16px 0 0;">
-                    <a href="${rsvpLink}" style="color: #d6371c;">
-                      Need to add guests or dietary notes? Click here for full form
-                    </a>
+                  <p style="color: #9ca3af; font-size: 12px; text-align: center; margin: 30px 0 0; line-height: 1.5;">
+                    If the button doesn't work, copy and paste this link:<br>
+                    <a href="${resetUrl}" style="color: #d6371c;">${resetUrl}</a>
                   </p>
                 </td>
               </tr>
@@ -339,43 +450,44 @@ export async function sendReminder({
   await transporter.sendMail({
     from: await getFromAddress(),
     to,
-    replyTo: replyTo || undefined,
-    subject: `Reminder: Please RSVP for ${event.title}`,
+    subject: 'Reset Your Password',
     html,
   });
 }
 
-interface SendConfirmationParams {
+interface SendRsvpEditLinkParams {
   to: string;
   guestName?: string | null;
   event: EventDetails;
-  status: string;
-  rsvpToken?: string;
-  replyTo?: string | null;
+  /** Left out for RSVPs awaiting approval, which don't get a link until they're approved */
+  rsvpToken?: string | null;
+  /** One-time code that confirms a change made on the public RSVP form */
+  verification?: { code: string; expiresInMinutes: number };
 }
 
-export async function sendConfirmation({
+/**
+ * Email a guest the link to edit their RSVP, plus a code when they're confirming a change
+ * from the public RSVP form. Returns false if email isn't configured.
+ */
+export async function sendRsvpEditLink({
   to,
   guestName,
   event,
-  status,
   rsvpToken,
-  replyTo,
-}: SendConfirmationParams) {
+  verification,
+}: SendRsvpEditLinkParams): Promise<boolean> {
   const transporter = await createTransporter();
   if (!transporter) {
-    logger.warn('Email not configured - skipping confirmation email', { to });
-    throw new Error('Email service not configured. Please set SMTP environment variables.');
+    logger.warn('Email not configured - skipping RSVP edit link email', { to });
+    return false;
   }
 
   const appUrl = await getAppUrl();
-
-  const statusMessages: Record<string, string> = {
-    ATTENDING: "We're excited to see you there!",
-    NOT_ATTENDING: "We're sorry you can't make it. Maybe next time!",
-    MAYBE: "Thanks for letting us know. We hope you can make it!",
-    PENDING: "Thanks for your response!",
-  };
+  const editLink = rsvpToken ? `${appUrl}/rsvp/${rsvpToken}/edit` : null;
+  const title = verification ? 'Confirm Your RSVP' : 'Edit Your RSVP';
+  const location = [event.locationName, event.streetAddress1, event.streetAddress2, event.city, [event.state, event.zipCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
 
   const html = `
     <!DOCTYPE html>
@@ -383,57 +495,69 @@ export async function sendConfirmation({
     <head>
       <meta charset="utf-8">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>RSVP Confirmation</title>
+      <title>${title}</title>
     </head>
-    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4ede0;">
-      <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #f4ede0 0%, #f4ede0 100%); padding: 40px 20px;">
+    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+      <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f5; padding: 40px 20px;">
         <tr>
           <td align="center">
-            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 4px; overflow: hidden; box-shadow: 0 4px 24px rgba(214,55,28, 0.15), 0 1px 3px rgba(0, 0, 0, 0.08);">
+            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
               <tr>
-                <td style="background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); padding: 48px 30px; text-align: center;">
-                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 32px; font-weight: 700; text-shadow: 0 2px 4px rgba(0,0,0,0.1);">RSVP Confirmed</h1>
+                <td style="background: linear-gradient(135deg, #8b5cf6 0%, #6366f1 100%); padding: 40px 30px; text-align: center;">
+                  <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 600;">${title}</h1>
                 </td>
               </tr>
               <tr>
                 <td style="padding: 40px 30px;">
-                  <p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+                  <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
                     ${guestName ? `Hi ${guestName},` : 'Hello,'}
                   </p>
-                  <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
-                    Your response for <strong style="color: #d6371c;">${event.title}</strong> has been recorded.
+                  ${verification ? `
+                  <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+                    Someone tried to change your RSVP for <strong>${event.title}</strong>. If it was you, enter this code on the RSVP form to confirm the change:
                   </p>
-
-                  <p style="color: #1c1813; font-size: 18px; line-height: 1.6; margin: 0 0 30px; text-align: center; font-weight: 600;">
-                    ${statusMessages[status]}
+                  <p style="text-align: center; font-size: 32px; font-weight: 700; letter-spacing: 8px; color: #111827; margin: 0 0 20px;">
+                    ${verification.code}
                   </p>
-
-                  ${status === 'ATTENDING' ? `
-                  <div style="background: linear-gradient(135deg, rgba(214,55,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 24px; margin-bottom: 30px; border: 1px solid rgba(214,55,28,0.15);">
-                    <h3 style="color: #1c1813; font-size: 16px; margin: 0 0 12px; font-weight: 700;">Event Details</h3>
-                    <p style="color: #4b5563; font-size: 14px; margin: 0 0 8px;">
-                      <strong style="color: #d6371c;">When:</strong> ${formatDateTime(event.date)}
+                  <p style="color: #6b7280; font-size: 14px; line-height: 1.6; margin: 0 0 30px;">
+                    The code expires in ${verification.expiresInMinutes} minutes. If you didn't make this change, you can ignore this email - your RSVP hasn't changed.
+                  </p>
+                  ` : `
+                  <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
+                    You requested a link to edit your RSVP for <strong>${event.title}</strong>.
+                  </p>
+                  `}
+                  <div style="background-color: #f9fafb; border-radius: 8px; padding: 24px; margin-bottom: 30px;">
+                    <h3 style="color: #111827; font-size: 16px; margin: 0 0 12px; font-weight: 600;">Event Details</h3>
+                    <p style="color: #6b7280; font-size: 14px; margin: 0 0 8px;">
+                      <strong>Event:</strong> ${event.title}
                     </p>
-                    ${hasAddress(event) ? `<p style="color: #4b5563; font-size: 14px; margin: 0;"><strong style="color: #d6371c;">Where:</strong><br>${formatAddressForEmail(event)}</p>` : ''}
+                    <p style="color: #6b7280; font-size: 14px; margin: 0 0 8px;">
+                      <strong>Date:</strong> ${new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                    </p>
+                    ${location ? `<p style="color: #6b7280; font-size: 14px; margin: 0;"><strong>Location:</strong> ${location}</p>` : ''}
                   </div>
-                  ` : ''}
-
-                  ${rsvpToken ? `
-                  <div style="text-align: center; margin-top: 30px; padding-top: 30px; border-top: 1px solid rgba(214,55,28,0.15);">
-                    <a href="${appUrl}/rsvp/${rsvpToken}/edit"
-                       style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px; font-weight: 600; font-size: 14px; box-shadow: 0 4px 14px rgba(214,55,28, 0.3);">
+                  ${editLink ? `
+                  <div style="text-align: center; margin-top: 30px;">
+                    <a href="${editLink}" style="display: inline-block; background-color: #8b5cf6; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-size: 16px; font-weight: 600;">
                       Edit Your RSVP
                     </a>
-                    <p style="color: #6b7280; font-size: 12px; margin: 12px 0 0;">
-                      Need to make changes? Use the link above to update your response.
-                    </p>
                   </div>
+
+                  <p style="color: #9ca3af; font-size: 12px; text-align: center; margin: 30px 0 0; line-height: 1.5;">
+                    If the button doesn't work, copy and paste this link:<br>
+                    <a href="${editLink}" style="color: #8b5cf6;">${editLink}</a>
+                  </p>
+
+                  <p style="color: #9ca3af; font-size: 12px; margin: 30px 0 0; line-height: 1.5;">
+                    <strong>Note:</strong> This link will allow you to edit your RSVP. Keep it safe and don't share it with others.
+                  </p>
                   ` : ''}
                 </td>
               </tr>
               <tr>
-                <td style="background: linear-gradient(135deg, rgba(214,55,28,0.05) 0%, rgba(214,55,28,0.05) 100%); padding: 20px 30px; text-align: center; border-top: 1px solid rgba(214,55,28,0.1);">
-                  <p style="color: #d6371c; font-size: 12px; margin: 0; font-weight: 500;">
+                <td style="background-color: #f9fafb; padding: 20px 30px; text-align: center;">
+                  <p style="color: #9ca3af; font-size: 12px; margin: 0;">
                     Sent via OwnRSVP
                   </p>
                 </td>
@@ -449,71 +573,78 @@ export async function sendConfirmation({
   await transporter.sendMail({
     from: await getFromAddress(),
     to,
-    replyTo: replyTo || undefined,
-    subject: `RSVP Confirmed for ${event.title}`,
+    subject: verification ? `Your code to confirm your RSVP for ${event.title}` : `Edit Your RSVP for ${event.title}`,
     html,
   });
+
+  return true;
 }
 
-export async function sendPasswordResetEmail(
-  to: string,
-  resetUrl: string,
-  userName: string
-) {
+interface SendCalendarFeedLinkParams {
+  to: string;
+  guestName?: string | null;
+  /** The feed's https link; the button opens the webcal:// form of it */
+  feedUrl: string;
+}
+
+/**
+ * Email a guest the link to their calendar feed of every event their address is
+ * invited to. Returns false if email isn't configured.
+ */
+export async function sendCalendarFeedLink({ to, guestName, feedUrl }: SendCalendarFeedLinkParams): Promise<boolean> {
   const transporter = await createTransporter();
   if (!transporter) {
-    logger.warn('Email not configured - skipping password reset email', { to });
-    throw new Error('Email service not configured. Please set SMTP environment variables.');
+    logger.warn('Email not configured - skipping calendar feed email', { to });
+    return false;
   }
 
+  const subscribeLink = toWebcalUrl(feedUrl);
+
   const html = `
     <!DOCTYPE html>
     <html>
     <head>
       <meta charset="utf-8">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Reset Your Password</title>
+      <title>Subscribe to Your Invitations</title>
     </head>
-    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4ede0;">
-      <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #f4ede0 0%, #f4ede0 100%); padding: 40px 20px;">
+    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+      <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f5; padding: 40px 20px;">
         <tr>
           <td align="center">
-            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 4px; overflow: hidden; box-shadow: 0 4px 24px rgba(214,55,28, 0.15), 0 1px 3px rgba(0, 0, 0, 0.08);">
+            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
               <tr>
-                <td style="background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); padding: 48px 30px; text-align: center;">
-                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 32px; font-weight: 700; text-shadow: 0 2px 4px rgba(0,0,0,0.1);">Reset Your Password</h1>
+                <td style="background: linear-gradient(135deg, #8b5cf6 0%, #6366f1 100%); padding: 40px 30px; text-align: center;">
+                  <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 600;">Subscribe to Your Invitations</h1>
                 </td>
               </tr>
               <tr>
                 <td style="padding: 40px 30px;">
-                  <p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    Hi ${userName},
+                  <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+                    ${guestName ? `Hi ${escapeHtml(guestName)},` : 'Hello,'}
                   </p>
                   <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
-                    We received a request to reset your password. Click the button below to create a new password:
+                    You asked for a calendar feed of every event you're invited to. Subscribe to it and your calendar keeps up with new invitations, changes and your RSVPs.
                   </p>
-
-                  <div style="text-align: center; margin: 30px 0;">
-                    <a href="${resetUrl}" style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 16px 36px; border-radius: 3px; font-size: 16px; font-weight: 600; box-shadow: 0 4px 14px rgba(214,55,28, 0.4);">
-                      Reset Password
+                  <div style="text-align: center; margin-top: 30px;">
+                    <a href="${subscribeLink}" style="display: inline-block; background-color: #8b5cf6; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-size: 16px; font-weight: 600;">
+                      Subscribe in Your Calendar
                     </a>
                   </div>
 
-                  <div style="background: linear-gradient(135deg, rgba(214,55,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 16px 20px; margin: 20px 0; border: 1px solid rgba(214,55,28,0.15);">
-                    <p style="color: #4b5563; font-size: 14px; line-height: 1.6; margin: 0;">
-                      This link will expire in <strong style="color: #d6371c;">1 hour</strong>. If you didn't request a password reset, you can safely ignore this email.
-                    </p>
-                  </div>
-
                   <p style="color: #9ca3af; font-size: 12px; text-align: center; margin: 30px 0 0; line-height: 1.5;">
-                    If the button doesn't work, copy and paste this link:<br>
-                    <a href="${resetUrl}" style="color: #d6371c;">${resetUrl}</a>
+                    To add it by hand, paste this link into your calendar app:<br>
+                    <a href="${feedUrl}" style="color: #8b5cf6;">${feedUrl}</a>
+                  </p>
+
+                  <p style="color: #9ca3af; font-size: 12px; margin: 30px 0 0; line-height: 1.5;">
+                    <strong>Note:</strong> Anyone with this link can see your invitations. Keep it safe and don't share it with others. If you didn't ask for it, you can ignore this email.
                   </p>
                 </td>
               </tr>
               <tr>
-                <td style="background: linear-gradient(135deg, rgba(214,55,28,0.05) 0%, rgba(214,55,28,0.05) 100%); padding: 20px 30px; text-align: center; border-top: 1px solid rgba(214,55,28,0.1);">
-                  <p style="color: #d6371c; font-size: 12px; margin: 0; font-weight: 500;">
+                <td style="background-color: #f9fafb; padding: 20px 30px; text-align: center;">
+                  <p style="color: #9ca3af; font-size: 12px; margin: 0;">
                     Sent via OwnRSVP
                   </p>
                 </td>
@@ -529,17 +660,21 @@ export async function sendPasswordResetEmail(
   await transporter.sendMail({
     from: await getFromAddress(),
     to,
-    subject: 'Reset Your Password',
+    subject: 'Your calendar feed of OwnRSVP invitations',
     html,
   });
+
+  return true;
 }
 
-interface SendBroadcastEmailParams {
+interface SendBroadcastEmailParams extends QueueableEmailParams {
   to: string;
   guestName?: string | null;
   subject: string;
   message: string;
   eventTitle: string;
+  eventId?: string;
+  rsvpToken?: string;
   replyTo?: string | null;
 }
 
@@ -549,7 +684,11 @@ export async function sendBroadcastEmail({
   subject,
   message,
   eventTitle,
+  eventId,
+  rsvpToken,
   replyTo,
+  guestId,
+  queue,
 }: SendBroadcastEmailParams) {
   const transporter = await createTransporter();
   if (!transporter) {
@@ -557,59 +696,19 @@ export async function sendBroadcastEmail({
     throw new Error('Email service not configured. Please set SMTP environment variables.');
   }
 
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>${subject}</title>
-    </head>
-    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4ede0;">
-      <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #f4ede0 0%, #f4ede0 100%); padding: 40px 20px;">
-        <tr>
-          <td align="center">
-            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 4px; overflow: hidden; box-shadow: 0 4px 24px rgba(214,55,28, 0.15), 0 1px 3px rgba(0, 0, 0, 0.08);">
-              <tr>
-                <td style="background: linear-gradient(135deg, #d6371c 0%, #d6371c 50%, #d6371c 100%); padding: 48px 30px; text-align: center;">
-                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 28px; font-weight: 700; text-shadow: 0 2px 4px rgba(0,0,0,0.1);">${eventTitle}</h1>
-                  <p style="color: rgba(255,255,255,0.9); margin: 12px 0 0; font-size: 16px; font-weight: 500;">Update from the host</p>
-                </td>
-              </tr>
-              <tr>
-                <td style="padding: 40px 30px;">
-                  <p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    ${guestName ? `Hi ${guestName},` : 'Hello,'}
-                  </p>
-
-                  <div style="background: linear-gradient(135deg, rgba(214,55,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 24px; margin-bottom: 20px; border: 1px solid rgba(214,55,28,0.15);">
-                    <h2 style="font-family: Georgia, 'Times New Roman', serif; color: #1c1813; font-size: 18px; margin: 0 0 16px; font-weight: 700;">${subject}</h2>
-                    <p style="color: #4b5563; font-size: 14px; margin: 0; line-height: 1.6; white-space: pre-wrap;">${message}</p>
-                  </div>
-                </td>
-              </tr>
-              <tr>
-                <td style="background: linear-gradient(135deg, rgba(214,55,28,0.05) 0%, rgba(214,55,28,0.05) 100%); padding: 20px 30px; text-align: center; border-top: 1px solid rgba(214,55,28,0.1);">
-                  <p style="color: #d6371c; font-size: 12px; margin: 0; font-weight: 500;">
-                    Sent via OwnRSVP
-                  </p>
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    </body>
-    </html>
-  `;
-
-  await transporter.sendMail({
-    from: await getFromAddress(),
-    to,
-    replyTo: replyTo || undefined,
-    subject: `[${eventTitle}] ${subject}`,
-    html,
+  const rendered = await renderTemplatedEmail('broadcast', eventId, {
+    guestName,
+    eventTitle,
+    subject,
+    message,
+    rsvpToken,
   });
+
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject: rendered.subject, html: rendered.html },
+    { type: 'broadcast', eventId: eventId, guestId, queue }
+  );
 }
 
 interface SendUserInvitationEmailParams {
@@ -714,22 +813,31 @@ export async function sendUserInvitationEmail({
   });
 }
 
-interface SendEventChangeEmailParams {
+interface SendEventChangeEmailParams extends QueueableEmailParams {
   to: string;
   guestName?: string | null;
   eventTitle: string;
+  eventId?: string;
   changes: { field: string; oldValue: string; newValue: string }[];
   rsvpToken: string;
   replyTo?: string | null;
+  /** The updated event, to send guests' calendars an updated invite */
+  event?: EventDetails;
+  guestStatus?: string | null;
 }
 
 export async function sendEventChangeEmail({
   to,
   guestName,
   eventTitle,
+  eventId,
   changes,
   rsvpToken,
   replyTo,
+  event,
+  guestStatus,
+  guestId,
+  queue,
 }: SendEventChangeEmailParams) {
   const transporter = await createTransporter();
   if (!transporter) {
@@ -737,76 +845,67 @@ export async function sendEventChangeEmail({
     throw new Error('Email service not configured. Please set SMTP environment variables.');
   }
 
-  const appUrl = await getAppUrl();
-  const rsvpLink = `${appUrl}/rsvp/${rsvpToken}`;
-
-  const changesList = changes
-    .map((c) => `<li style="margin: 8px 0;"><strong>${c.field}:</strong> ${c.oldValue} → ${c.newValue}</li>`)
-    .join('');
-
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Event Update: ${eventTitle}</title>
-    </head>
-    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4ede0;">
-      <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #f4ede0 0%, #f4ede0 100%); padding: 40px 20px;">
-        <tr>
-          <td align="center">
-            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 4px; overflow: hidden; box-shadow: 0 4px 24px rgba(189,129,28, 0.15), 0 1px 3px rgba(0, 0, 0, 0.08);">
-              <tr>
-                <td style="background: linear-gradient(135deg, #bd811c 0%, #d6371c 100%); padding: 48px 30px; text-align: center;">
-                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 32px; font-weight: 700; text-shadow: 0 2px 4px rgba(0,0,0,0.1);">Event Updated</h1>
-                  <p style="color: rgba(255,255,255,0.9); margin: 12px 0 0; font-size: 16px; font-weight: 500;">${eventTitle}</p>
-                </td>
-              </tr>
-              <tr>
-                <td style="padding: 40px 30px;">
-                  <p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    ${guestName ? `Hi ${guestName},` : 'Hello,'}
-                  </p>
-                  <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
-                    The event details have been updated. Here's what changed:
-                  </p>
+  const { subject, html } = await renderTemplatedEmail('eventChange', eventId, {
+    guestName,
+    eventTitle,
+    changes,
+    rsvpToken,
+  });
+  const calendar = event
+    ? await buildCalendarInvite('REQUEST', event, { email: to, name: guestName, status: guestStatus, rsvpToken })
+    : undefined;
+
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject, html, calendar },
+    { type: 'eventChange', eventId: eventId, guestId, queue }
+  );
+}
 
-                  <div style="background: linear-gradient(135deg, rgba(189,129,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 24px; margin-bottom: 30px; border: 1px solid rgba(189,129,28,0.15);">
-                    <ul style="color: #4b5563; font-size: 14px; margin: 0; padding-left: 20px; line-height: 1.8;">
-                      ${changesList}
-                    </ul>
-                  </div>
+interface SendEventCancellationParams {
+  to: string;
+  guestName?: string | null;
+  event: EventDetails;
+  guestStatus?: string | null;
+  replyTo?: string | null;
+  queue?: boolean;
+}
 
-                  <div style="text-align: center;">
-                    <a href="${rsvpLink}" style="display: inline-block; background: linear-gradient(135deg, #bd811c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px; font-size: 16px; font-weight: 600; box-shadow: 0 4px 14px rgba(214,55,28, 0.3);">
-                      View Event Details
-                    </a>
-                  </div>
-                </td>
-              </tr>
-              <tr>
-                <td style="background: linear-gradient(135deg, rgba(189,129,28,0.05) 0%, rgba(214,55,28,0.05) 100%); padding: 20px 30px; text-align: center; border-top: 1px solid rgba(214,55,28,0.1);">
-                  <p style="color: #d6371c; font-size: 12px; margin: 0; font-weight: 500;">
-                    Sent via OwnRSVP
-                  </p>
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    </body>
-    </html>
-  `;
+/**
+ * Tell a guest an event is cancelled, with a calendar CANCEL that removes it from
+ * their calendar. Sent just before the event is deleted, so queued messages aren't
+ * tied to it.
+ */
+export async function sendEventCancellation({
+  to,
+  guestName,
+  event,
+  guestStatus,
+  replyTo,
+  queue,
+}: SendEventCancellationParams) {
+  const transporter = await createTransporter();
+  if (!transporter) {
+    logger.warn('Email not configured - skipping event cancellation email', { to });
+    throw new Error('Email service not configured. Please set SMTP environment variables.');
+  }
 
-  await transporter.sendMail({
-    from: await getFromAddress(),
-    to,
-    replyTo: replyTo || undefined,
-    subject: `Event Update: ${eventTitle}`,
-    html,
+  const { subject, html } = await renderTemplatedEmail('eventCancelled', event.id, {
+    guestName,
+    event,
   });
+  // A cancellation only replaces the invite if its SEQUENCE is higher
+  const calendar = await buildCalendarInvite(
+    'CANCEL',
+    { ...event, calendarSequence: (event.calendarSequence ?? 0) + 1 },
+    { email: to, name: guestName, status: guestStatus }
+  );
+
+  await deliverEmail(
+    transporter,
+    { to, replyTo, subject, html, calendar },
+    { type: 'eventCancelled', queue }
+  );
 }
 
 interface SendRsvpChangeNotificationParams {
@@ -820,7 +919,7 @@ interface SendRsvpChangeNotificationParams {
     additionalGuests?: Array<{ name: string }>;
     dietaryNotes?: string | null;
   };
-  changeType: 'NEW' | 'UPDATED' | 'STATUS_CHANGED';
+  changeType: 'NEW' | 'UPDATED' | 'STATUS_CHANGED' | 'APPROVAL_REQUESTED';
   previousStatus?: string | null;
   eventUrl: string;
 }
@@ -845,6 +944,8 @@ export async function sendRsvpChangeNotification({
     NOT_ATTENDING: 'Not Attending',
     MAYBE: 'Maybe',
     PENDING: 'Pending',
+    WAITLISTED: 'Waitlisted',
+    PENDING_APPROVAL: 'Awaiting Approval',
   };
 
   const statusColors: Record<string, string> = {
@@ -852,18 +953,22 @@ export async function sendRsvpChangeNotification({
     NOT_ATTENDING: '#2f2a22',
     MAYBE: '#bd811c',
     PENDING: '#6b7280',
+    WAITLISTED: '#97640f',
+    PENDING_APPROVAL: '#bd811c',
   };
 
   const changeTypeLabels = {
     NEW: 'New RSVP',
     UPDATED: 'RSVP Updated',
     STATUS_CHANGED: 'RSVP Status Changed',
+    APPROVAL_REQUESTED: 'RSVP Awaiting Approval',
   };
 
   const changeTypeColors = {
     NEW: '#d6371c',
     UPDATED: '#bd811c',
     STATUS_CHANGED: '#d6371c',
+    APPROVAL_REQUESTED: '#bd811c',
   };
 
   const guestName = guest.name || guest.email.split('@')[0];
@@ -930,6 +1035,8 @@ export async function sendRsvpChangeNotification({
                       ? `A guest has submitted an RSVP for your event.`
                       : changeType === 'STATUS_CHANGED'
                       ? `A guest has updated their RSVP status for your event.`
+                      : changeType === 'APPROVAL_REQUESTED'
+                      ? `Someone who isn't on the guest list has asked to attend your event. Approve or deny their RSVP from the event page.`
                       : `A guest has updated their RSVP details for your event.`
                     }
                   </p>
@@ -985,6 +1092,99 @@ export async function sendRsvpChangeNotification({
   });
 }
 
+interface SendCommentNotificationParams {
+  to: string;
+  hostName?: string | null;
+  eventTitle: string;
+  comment: {
+    authorName: string;
+    content: string;
+    status: string;
+  };
+  eventUrl: string;
+}
+
+/**
+ * Tell a host about a new message on the guest wall, and whether it's waiting for their approval
+ */
+export async function sendCommentNotification({
+  to,
+  hostName,
+  eventTitle,
+  comment,
+  eventUrl,
+}: SendCommentNotificationParams) {
+  const transporter = await createTransporter();
+  if (!transporter) {
+    logger.warn('Email not configured - skipping comment notification', { to });
+    return;
+  }
+
+  const awaitingApproval = comment.status === 'PENDING';
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>New Message</title>
+    </head>
+    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4ede0;">
+      <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #f4ede0 0%, #f4ede0 100%); padding: 40px 20px;">
+        <tr>
+          <td align="center">
+            <table width="100%" max-width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 4px; overflow: hidden; box-shadow: 0 4px 24px rgba(214,55,28, 0.15), 0 1px 3px rgba(0, 0, 0, 0.08);">
+              <tr>
+                <td style="background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); padding: 32px 30px; text-align: center;">
+                  <h1 style="font-family: Georgia, 'Times New Roman', serif; letter-spacing: -0.5px; color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">${awaitingApproval ? 'Message Awaiting Approval' : 'New Message'}</h1>
+                </td>
+              </tr>
+              <tr>
+                <td style="padding: 40px 30px;">
+                  <p style="color: #1c1813; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
+                    ${hostName ? `Hi ${escapeHtml(hostName)},` : 'Hello,'}
+                  </p>
+                  <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 24px;">
+                    ${awaitingApproval
+                      ? `<strong>${escapeHtml(comment.authorName)}</strong> left a message on the guest wall for <strong>${escapeHtml(eventTitle)}</strong>. It won't be shown until you approve it.`
+                      : `<strong>${escapeHtml(comment.authorName)}</strong> left a message on the guest wall for <strong>${escapeHtml(eventTitle)}</strong>.`}
+                  </p>
+
+                  <div style="background: linear-gradient(135deg, rgba(214,55,28,0.08) 0%, rgba(214,55,28,0.08) 100%); border-radius: 3px; padding: 20px 24px; margin-bottom: 30px; border: 1px solid rgba(214,55,28,0.15);">
+                    <p style="color: #374151; font-size: 15px; line-height: 1.6; margin: 0; white-space: pre-wrap;">${escapeHtml(comment.content)}</p>
+                  </div>
+
+                  <div style="text-align: center;">
+                    <a href="${eventUrl}" style="display: inline-block; background: linear-gradient(135deg, #d6371c 0%, #d6371c 100%); color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 3px; font-size: 16px; font-weight: 600; box-shadow: 0 4px 14px rgba(214,55,28, 0.3);">
+                      ${awaitingApproval ? 'Review Message' : 'View Guest Wall'}
+                    </a>
+                  </div>
+                </td>
+              </tr>
+              <tr>
+                <td style="background: linear-gradient(135deg, rgba(214,55,28,0.05) 0%, rgba(214,55,28,0.05) 100%); padding: 20px 30px; text-align: center; border-top: 1px solid rgba(214,55,28,0.1);">
+                  <p style="color: #d6371c; font-size: 12px; margin: 0; font-weight: 500;">
+                    Sent via OwnRSVP
+                  </p>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `;
+
+  await transporter.sendMail({
+    from: await getFromAddress(),
+    to,
+    subject: `${awaitingApproval ? 'Message awaiting approval' : 'New message'} on ${eventTitle}`,
+    html,
+  });
+}
+
 /**
  * Get all event hosts (primary host + co-hosts) who have opted in to RSVP change notifications
  */
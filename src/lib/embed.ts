@@ -0,0 +1,179 @@
+/**
+ * The embeddable RSVP widget. Hosts list the sites allowed to show an event's widget.
+ * The browser enforces the list through the widget page's frame-ancestors policy, which
+ * covers every page up the frame chain; the page also only renders the form when the
+ * site framing it is on the list, and only posts messages back to that site.
+ *
+ * Kept free of server code so the dashboard settings can build snippets with it.
+ */
+
+export const EMBED_THEMES = ['auto', 'light', 'dark'] as const;
+
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+
+export interface EmbedOptions {
+  theme: EmbedTheme;
+  /** Accent color as 6 hex digits, without the # */
+  accent: string | null;
+  /** Show how many people are coming */
+  headcount: boolean;
+}
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = { theme: 'auto', accent: null, headcount: true };
+
+// Enough for a wedding site, its staging copy and a couple of club pages
+export const MAX_EMBED_ORIGINS = 10;
+
+/**
+ * Every message the widget posts to the page around it has source "ownrsvp"
+ */
+export const EMBED_MESSAGE_SOURCE = 'ownrsvp';
+
+export interface EmbedHeadcount {
+  attending: number;
+  capacity: number | null;
+  spotsLeft: number | null;
+}
+
+export interface EmbedRsvp {
+  status: 'ATTENDING' | 'NOT_ATTENDING' | 'MAYBE';
+  /** The guest plus the people they're bringing */
+  partySize: number;
+  waitlisted: boolean;
+  pendingApproval: boolean;
+}
+
+export type EmbedMessage =
+  | { type: 'ready'; slug: string; height: number }
+  | { type: 'resize'; height: number }
+  | { type: 'rsvp'; slug: string; rsvp: EmbedRsvp }
+  | { type: 'headcount'; slug: string; headcount: EmbedHeadcount };
+
+/**
+ * The origin (scheme, host and port) of a site a host typed in, or null if it isn't
+ * an http(s) address
+ */
+export function normalizeEmbedOrigin(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return null;
+    }
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+export function parseEmbedOrigins(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((origin): origin is string => typeof origin === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function serializeEmbedOrigins(origins: string[]): string | null {
+  return origins.length > 0 ? JSON.stringify(origins) : null;
+}
+
+/**
+ * The site framing the widget, from the Referer header of the frame's request.
+ * Browsers send at least the origin by default; sites that send no referrer at all
+ * can't be told apart from a direct visit, so they can't embed the widget.
+ */
+export function getFramingOrigin(referer: string | null): string | null {
+  if (!referer) return null;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+export function isEmbedOriginAllowed(origins: string[], origin: string | null): boolean {
+  return !!origin && origins.includes(origin);
+}
+
+/**
+ * The Content-Security-Policy for an event's widget page: only the allowed sites may
+ * frame it, and nothing may when there are none
+ */
+export function buildFrameAncestorsPolicy(origins: string[]): string {
+  return `frame-ancestors ${origins.length > 0 ? origins.join(' ') : "'none'"}`;
+}
+
+/**
+ * Widget options from the frame's query string
+ */
+export function parseEmbedOptions(params: { theme?: string; accent?: string; headcount?: string }): EmbedOptions {
+  const theme = EMBED_THEMES.find((value) => value === params.theme) || DEFAULT_EMBED_OPTIONS.theme;
+  const accent = params.accent?.replace(/^#/, '');
+
+  return {
+    theme,
+    accent: accent && /^[0-9a-f]{6}$/i.test(accent) ? accent.toLowerCase() : null,
+    headcount: params.headcount !== '0' && params.headcount !== 'false',
+  };
+}
+
+/**
+ * An accent color as the "H S% L%" channels the theme's CSS variables use
+ */
+export function hexToHslChannels(hex: string): string {
+  const r = parseInt(hex.slice(0, 2), 16) / 255;
+  const g = parseInt(hex.slice(2, 4), 16) / 255;
+  const b = parseInt(hex.slice(4, 6), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue = Math.round(hue * 60);
+    if (hue < 0) hue += 360;
+  }
+
+  return `${hue} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+}
+
+function embedQuery(options: EmbedOptions): string {
+  const params = new URLSearchParams();
+  if (options.theme !== DEFAULT_EMBED_OPTIONS.theme) params.set('theme', options.theme);
+  if (options.accent) params.set('accent', options.accent);
+  if (!options.headcount) params.set('headcount', '0');
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * The HTML a host pastes into their site: a plain iframe, or a script tag that adds
+ * the frame, keeps it sized to the form and re-fires its messages as DOM events
+ */
+export function buildEmbedSnippets(appUrl: string, slug: string, options: EmbedOptions): { iframe: string; script: string } {
+  const baseUrl = appUrl.replace(/\/$/, '');
+  const src = `${baseUrl}/embed/events/${encodeURIComponent(slug)}${embedQuery(options)}`;
+
+  const dataAttributes = [
+    `data-event="${slug}"`,
+    options.theme !== DEFAULT_EMBED_OPTIONS.theme && `data-theme="${options.theme}"`,
+    options.accent && `data-accent="#${options.accent}"`,
+    !options.headcount && 'data-headcount="0"',
+  ].filter(Boolean);
+
+  return {
+    iframe: `<iframe src="${src}" title="RSVP" width="100%" height="720" style="border:0;max-width:640px" loading="lazy"></iframe>`,
+    script: `<script src="${baseUrl}/embed.js" ${dataAttributes.join(' ')} async></script>`,
+  };
+}
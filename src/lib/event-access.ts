@@ -1,12 +1,62 @@
 import { prisma } from './prisma';
 
+export type EventRole = 'HOST' | 'COHOST' | 'VIEWER' | 'ADMIN';
+
+export type EventPermission =
+  | 'viewGuests'
+  | 'editGuests'
+  | 'sendMessages'
+  | 'editEvent'
+  | 'manageCoHosts'
+  | 'exportGuests'
+  | 'moderateComments';
+
 /**
- * Check if a user can manage an event (view/edit guests, send invites, etc.)
- * Returns true if user is the host, a co-host, or an admin
+ * What each role may do on an event. Viewers are read-only: they can see
+ * the guest list and export it, but not change anything or message guests.
+ */
+export const EVENT_PERMISSIONS: Record<EventRole, EventPermission[]> = {
+  ADMIN: ['viewGuests', 'editGuests', 'sendMessages', 'editEvent', 'manageCoHosts', 'exportGuests', 'moderateComments'],
+  HOST: ['viewGuests', 'editGuests', 'sendMessages', 'editEvent', 'manageCoHosts', 'exportGuests', 'moderateComments'],
+  COHOST: ['viewGuests', 'editGuests', 'sendMessages', 'editEvent', 'exportGuests', 'moderateComments'],
+  VIEWER: ['viewGuests', 'exportGuests'],
+};
+
+export type EventPermissions = Record<EventPermission, boolean>;
+
+/**
+ * Check if a role grants a permission
+ */
+export function hasEventPermission(
+  role: EventRole | null,
+  permission: EventPermission
+): boolean {
+  return !!role && EVENT_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Every permission a role has on an event, for deciding which actions the UI shows
+ */
+export function getEventPermissions(role: EventRole | null): EventPermissions {
+  return {
+    viewGuests: hasEventPermission(role, 'viewGuests'),
+    editGuests: hasEventPermission(role, 'editGuests'),
+    sendMessages: hasEventPermission(role, 'sendMessages'),
+    editEvent: hasEventPermission(role, 'editEvent'),
+    manageCoHosts: hasEventPermission(role, 'manageCoHosts'),
+    exportGuests: hasEventPermission(role, 'exportGuests'),
+    moderateComments: hasEventPermission(role, 'moderateComments'),
+  };
+}
+
+/**
+ * Check if a user has a permission on an event (defaults to editing the event)
+ * Hosts and admins can do everything; co-hosts are limited by their role
  */
 export async function canManageEvent(
   userId: string,
-  eventId: string
+  eventId: string,
+  permission: EventPermission = 'editEvent'
 ): Promise<boolean> {
   // Check if user is admin
   const user = await prisma.user.findUnique({
@@ -38,7 +88,11 @@ export async function canManageEvent(
     },
   });
 
-  return !!coHost;
+  if (!coHost) {
+    return false;
+  }
+
+  return hasEventPermission(coHost.role === 'VIEWER' ? 'VIEWER' : 'COHOST', permission);
 }
 
 /**
@@ -48,7 +102,7 @@ export async function canViewEvent(
   userId: string,
   eventId: string
 ): Promise<boolean> {
-  return canManageEvent(userId, eventId);
+  return canManageEvent(userId, eventId, 'viewGuests');
 }
 
 /**
@@ -73,7 +127,7 @@ export async function isEventHost(
 export async function getEventRole(
   userId: string,
   eventId: string
-): Promise<'HOST' | 'COHOST' | 'VIEWER' | 'ADMIN' | null> {
+): Promise<EventRole | null> {
   // Check if user is admin
   const user = await prisma.user.findUnique({
     where: { id: userId },
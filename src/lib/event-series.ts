@@ -0,0 +1,152 @@
+import { prisma } from './prisma';
+import { promoteWaitlistedGuests, resolveAttendingStatus } from './waitlist';
+import { logger } from './logger';
+
+/**
+ * Occurrences of the same series that start after this event, earliest first.
+ * Events that aren't part of a series have none.
+ */
+export async function getFutureOccurrences(event: { id: string; seriesId?: string | null; date: Date }) {
+  if (!event.seriesId) {
+    return [];
+  }
+
+  return prisma.event.findMany({
+    where: {
+      seriesId: event.seriesId,
+      id: { not: event.id },
+      date: { gt: event.date },
+    },
+    orderBy: { date: 'asc' },
+  });
+}
+
+/**
+ * Add an invitee to later occurrences so the series shares one guest list.
+ * Guests already on an occurrence are left as they are.
+ */
+export async function addGuestToOccurrences(
+  eventIds: string[],
+  guest: { email: string; phone: string | null; name: string | null; notifyByEmail: boolean; notifyBySms: boolean }
+): Promise<number> {
+  let added = 0;
+
+  for (const eventId of eventIds) {
+    const existing = await prisma.guest.findUnique({
+      where: { eventId_email: { eventId, email: guest.email } },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      await prisma.guest.create({
+        data: {
+          eventId,
+          email: guest.email,
+          phone: guest.phone,
+          name: guest.name,
+          notifyByEmail: guest.notifyByEmail,
+          notifyBySms: guest.notifyBySms,
+        },
+      });
+      added++;
+    }
+  }
+
+  return added;
+}
+
+/**
+ * Copy a guest's RSVP to every later occurrence of the series, for guests answering
+ * for the whole series at once. Each occurrence still applies its own capacity, so
+ * the guest may be waitlisted for some dates. Returns the number of occurrences updated.
+ */
+export async function applyRsvpToSeries(
+  event: { id: string; seriesId?: string | null; date: Date },
+  rsvp: {
+    email: string;
+    name: string | null;
+    phone: string | null;
+    status: string;
+    dietaryNotes: string | null;
+    rsvpAnswers: string | null;
+    notifyByEmail: boolean;
+    notifyBySms: boolean;
+  },
+  additionalGuests: { name: string; rsvpAnswers: string | null }[]
+): Promise<number> {
+  const occurrences = await getFutureOccurrences(event);
+  let updated = 0;
+
+  for (const occurrence of occurrences) {
+    // Occurrences whose RSVP window has closed keep their answer
+    if (occurrence.rsvpDeadline && new Date() > occurrence.rsvpDeadline) {
+      continue;
+    }
+
+    const existing = await prisma.guest.findUnique({
+      where: { eventId_email: { eventId: occurrence.id, email: rsvp.email } },
+      select: { id: true, status: true, waitlistedAt: true },
+    });
+
+    const wantsToAttend = rsvp.status === 'ATTENDING' || rsvp.status === 'WAITLISTED';
+    let status = rsvp.status;
+    if (wantsToAttend) {
+      const resolved = await resolveAttendingStatus(occurrence, 1 + additionalGuests.length, existing);
+      if (resolved.error) {
+        // The party no longer fits on this date - leave their existing RSVP alone
+        continue;
+      }
+      status = resolved.status;
+    }
+
+    const waitlistedAt = status === 'WAITLISTED'
+      ? (existing?.status === 'WAITLISTED' && existing.waitlistedAt) || new Date()
+      : null;
+
+    const data = {
+      name: rsvp.name,
+      phone: rsvp.phone,
+      status,
+      waitlistedAt,
+      dietaryNotes: wantsToAttend ? rsvp.dietaryNotes : null,
+      rsvpAnswers: rsvp.rsvpAnswers,
+      notifyBySms: rsvp.notifyBySms,
+      respondedAt: new Date(),
+      additionalGuests: {
+        create: wantsToAttend
+          ? additionalGuests.map((additionalGuest) => ({ name: additionalGuest.name, rsvpAnswers: additionalGuest.rsvpAnswers }))
+          : [],
+      },
+    };
+
+    if (existing) {
+      await prisma.additionalGuest.deleteMany({
+        where: { guestId: existing.id },
+      });
+      await prisma.guest.update({
+        where: { id: existing.id },
+        data,
+      });
+    } else {
+      await prisma.guest.create({
+        data: {
+          ...data,
+          eventId: occurrence.id,
+          email: rsvp.email,
+          notifyByEmail: rsvp.notifyByEmail,
+        },
+      });
+    }
+
+    // Giving up a spot on one date may let someone else in
+    if (existing && (existing.status === 'ATTENDING' || existing.status === 'WAITLISTED')) {
+      await promoteWaitlistedGuests(occurrence.id).catch((error) => {
+        logger.error('Failed to promote waitlisted guests', error);
+      });
+    }
+
+    updated++;
+  }
+
+  return updated;
+}
@@ -0,0 +1,177 @@
+import { prisma } from './prisma';
+
+export type SessionResponse = {
+  sessionId: string;
+  attending: boolean;
+};
+
+/**
+ * Sessions of an event a guest is invited to, earliest first, with the guest's answer for each.
+ * Sessions open to everyone are included for all guests, including new ones (no guestId yet).
+ */
+export async function getGuestSessions(eventId: string, guestId?: string | null) {
+  const sessions = await prisma.eventSession.findMany({
+    where: {
+      eventId,
+      OR: [
+        { inviteAll: true },
+        ...(guestId ? [{ guests: { some: { guestId } } }] : []),
+      ],
+    },
+    include: {
+      guests: {
+        where: { guestId: guestId ?? '' },
+        select: { status: true },
+      },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  return sessions.map(({ guests, ...session }) => ({
+    ...session,
+    status: guests[0]?.status ?? 'PENDING',
+  }));
+}
+
+/**
+ * People attending a session: each invitee who said yes to it plus their additional guests.
+ * Only invitees attending the event itself count, so waitlisted guests don't take a place.
+ */
+export async function getSessionHeadcount(sessionId: string, excludeGuestId?: string): Promise<number> {
+  const responses = await prisma.sessionGuest.findMany({
+    where: {
+      sessionId,
+      status: 'ATTENDING',
+      guest: { status: 'ATTENDING' },
+      ...(excludeGuestId && { guestId: { not: excludeGuestId } }),
+    },
+    select: {
+      guest: {
+        select: { _count: { select: { additionalGuests: true } } },
+      },
+    },
+  });
+
+  return responses.reduce((sum, response) => sum + 1 + response.guest._count.additionalGuests, 0);
+}
+
+/**
+ * Check a guest's per-session answers before saving them.
+ * Guests can only answer for sessions they're invited to, and a party attending a
+ * session with a capacity must fit in the places left.
+ */
+export async function validateSessionResponses(
+  eventId: string,
+  guestId: string | null | undefined,
+  responses: SessionResponse[],
+  partySize: number,
+  attending: boolean
+): Promise<{ valid: boolean; error?: string }> {
+  if (responses.length === 0) {
+    return { valid: true };
+  }
+
+  const sessions = await getGuestSessions(eventId, guestId);
+
+  for (const response of responses) {
+    const session = sessions.find((s) => s.id === response.sessionId);
+    if (!session) {
+      return { valid: false, error: 'You are not invited to one of the selected sessions' };
+    }
+
+    if (attending && response.attending && session.capacity !== null) {
+      const remaining = session.capacity - (await getSessionHeadcount(session.id, guestId ?? undefined));
+      if (partySize > remaining) {
+        return {
+          valid: false,
+          error: remaining > 0
+            ? `${session.name} only has room for ${remaining} more ${remaining === 1 ? 'person' : 'people'}`
+            : `${session.name} is full`,
+        };
+      }
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Save a guest's per-session answers, keeping answers for sessions not mentioned
+ */
+export async function saveSessionResponses(guestId: string, responses: SessionResponse[]): Promise<void> {
+  for (const response of responses) {
+    const status = response.attending ? 'ATTENDING' : 'NOT_ATTENDING';
+    await prisma.sessionGuest.upsert({
+      where: { sessionId_guestId: { sessionId: response.sessionId, guestId } },
+      create: { sessionId: response.sessionId, guestId, status, respondedAt: new Date() },
+      update: { status, respondedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Replace the invite list of a session that isn't open to everyone.
+ * Guests who stay invited keep their answers.
+ */
+export async function setSessionInvites(sessionId: string, guestIds: string[]): Promise<void> {
+  await prisma.sessionGuest.deleteMany({
+    where: { sessionId, guestId: { notIn: guestIds } },
+  });
+
+  const existing = await prisma.sessionGuest.findMany({
+    where: { sessionId },
+    select: { guestId: true },
+  });
+  const existingIds = existing.map((invite) => invite.guestId);
+
+  for (const guestId of guestIds) {
+    if (!existingIds.includes(guestId)) {
+      await prisma.sessionGuest.create({
+        data: { sessionId, guestId },
+      });
+    }
+  }
+}
+
+/**
+ * Per-session counts for the host dashboard. Attending counts people (invitees plus
+ * additional guests attending the event); the other counts are invitees.
+ */
+export async function getSessionStats(eventId: string) {
+  const [sessions, guestCount] = await Promise.all([
+    prisma.eventSession.findMany({
+      where: { eventId },
+      include: {
+        guests: {
+          select: {
+            guestId: true,
+            status: true,
+            guest: {
+              select: { status: true, _count: { select: { additionalGuests: true } } },
+            },
+          },
+        },
+      },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.guest.count({ where: { eventId } }),
+  ]);
+
+  return sessions.map(({ guests, ...session }) => {
+    const attending = guests.filter((g) => g.status === 'ATTENDING' && g.guest.status === 'ATTENDING');
+    const notAttending = guests.filter((g) => g.status === 'NOT_ATTENDING').length;
+    const responded = guests.filter((g) => g.status !== 'PENDING').length;
+    const invited = session.inviteAll ? guestCount : guests.length;
+
+    return {
+      ...session,
+      invitedGuestIds: guests.map((g) => g.guestId),
+      stats: {
+        invited,
+        attending: attending.reduce((sum, g) => sum + 1 + g.guest._count.additionalGuests, 0),
+        notAttending,
+        pending: Math.max(invited - responded, 0),
+      },
+    };
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * The guest list as a CSV spreadsheet, shared by the dashboard export and the /api/v1 API
+ */
+
+import { format } from 'date-fns';
+import { prisma } from './prisma';
+import { formatRsvpAnswer, parseRsvpAnswers, parseRsvpQuestions } from './rsvp-questions';
+import { PENDING_APPROVAL } from './rsvp-approval';
+
+const SESSION_STATUS_LABELS: Record<string, string> = {
+  ATTENDING: 'Attending',
+  NOT_ATTENDING: 'Not Attending',
+  PENDING: 'Pending',
+};
+
+const RESPONDED_VIA_LABELS: Record<string, string> = {
+  FORM: 'Event page',
+  EDIT_LINK: 'RSVP link',
+  QUICK_LINK: 'Quick link',
+  CALENDAR: 'Calendar reply',
+};
+
+/**
+ * One row per guest with their RSVP, party, answers and session responses.
+ * Returns null if there is no such event.
+ */
+export async function buildGuestExport(eventId: string): Promise<{ filename: string; csv: string } | null> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: {
+      guests: {
+        where: { status: { not: PENDING_APPROVAL } },
+        include: {
+          additionalGuests: true,
+        },
+        orderBy: { name: 'asc' },
+      },
+      sessions: {
+        include: {
+          guests: {
+            select: { guestId: true, status: true },
+          },
+        },
+        orderBy: { date: 'asc' },
+      },
+    },
+  });
+
+  if (!event) {
+    return null;
+  }
+
+  const questions = parseRsvpQuestions(event.rsvpQuestions);
+
+  // Build CSV content
+  const headers = [
+    'Name',
+    'Email',
+    'Phone',
+    'Status',
+    'Additional Guests',
+    'Dietary Notes',
+    'RSVP Date',
+    'Responded Via',
+    'Invited Date',
+    ...questions.map((question) => escapeCSV(question.label)),
+    ...event.sessions.map((session) => escapeCSV(session.name)),
+  ];
+
+  const rows = event.guests.map((guest) => {
+    const additionalGuestNames = guest.additionalGuests
+      .map((ag) => ag.name)
+      .join('; ');
+
+    const guestAnswers = parseRsvpAnswers(guest.rsvpAnswers);
+    const answerColumns = questions.map((question) => {
+      if (question.scope === 'party') {
+        return escapeCSV(formatRsvpAnswer(guestAnswers[question.id]));
+      }
+      // Per-attendee questions list each person's answer
+      const attendees = [
+        { name: guest.name || guest.email, answers: guestAnswers },
+        ...guest.additionalGuests.map((ag) => ({ name: ag.name, answers: parseRsvpAnswers(ag.rsvpAnswers) })),
+      ];
+      return escapeCSV(
+        attendees
+          .filter((attendee) => attendee.answers[question.id] !== undefined)
+          .map((attendee) => `${attendee.name}: ${formatRsvpAnswer(attendee.answers[question.id])}`)
+          .join('; ')
+      );
+    });
+
+    // Each session column shows the guest's answer, blank when they aren't invited
+    const sessionColumns = event.sessions.map((session) => {
+      const response = session.guests.find((sessionGuest) => sessionGuest.guestId === guest.id);
+      if (!response && !session.inviteAll) {
+        return '';
+      }
+      return SESSION_STATUS_LABELS[response?.status ?? 'PENDING'] ?? 'Pending';
+    });
+
+    return [
+      escapeCSV(guest.name || ''),
+      escapeCSV(guest.email),
+      escapeCSV(guest.phone || ''),
+      guest.status,
+      escapeCSV(additionalGuestNames),
+      escapeCSV(guest.dietaryNotes || ''),
+      guest.respondedAt ? format(new Date(guest.respondedAt), 'yyyy-MM-dd HH:mm') : '',
+      guest.respondedVia ? RESPONDED_VIA_LABELS[guest.respondedVia] ?? guest.respondedVia : '',
+      format(new Date(guest.invitedAt), 'yyyy-MM-dd HH:mm'),
+      ...answerColumns,
+      ...sessionColumns,
+    ];
+  });
+
+  const csvContent = [
+    headers.join(','),
+    ...rows.map((row) => row.join(',')),
+  ].join('\n');
+
+  // Generate filename
+  const eventSlug = event.slug || 'event';
+  const dateStr = format(new Date(), 'yyyy-MM-dd');
+  const filename = `${eventSlug}-guests-${dateStr}.csv`;
+
+  return { filename, csv: csvContent };
+}
+
+// Helper to escape CSV values
+function escapeCSV(value: string): string {
+  if (!value) return '';
+  // If the value contains commas, quotes, or newlines, wrap in quotes and escape internal quotes
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
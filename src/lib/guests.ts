@@ -0,0 +1,268 @@
+/**
+ * Guest list changes made by hosts, shared by the dashboard routes and the /api/v1 API
+ */
+
+import type { Guest, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { sendInvitation } from './email';
+import { sendInvitationSms, shouldSendSms } from './sms';
+import { addGuestToOccurrences, getFutureOccurrences } from './event-series';
+import { validateGuestLimit } from './rsvp-validation';
+import { promoteWaitlistedGuests } from './waitlist';
+import { dispatchWebhookEvent, toWebhookGuest } from './webhooks';
+import type { AddGuestInput, UpdateGuestInput } from './schemas/guest';
+
+/**
+ * The event details an invitation needs
+ */
+export const invitationEventSelect = {
+  id: true,
+  hostId: true,
+  title: true,
+  date: true,
+  endDate: true,
+  timezone: true,
+  calendarSequence: true,
+  locationName: true,
+  streetAddress1: true,
+  streetAddress2: true,
+  city: true,
+  state: true,
+  zipCode: true,
+  description: true,
+  coverImage: true,
+  replyTo: true,
+  seriesId: true,
+  host: { select: { name: true } },
+} satisfies Prisma.EventSelect;
+
+export type InvitationEvent = Prisma.EventGetPayload<{ select: typeof invitationEventSelect }>;
+
+// The changed guest, or why the change was refused
+type GuestChangeResult<T> = { guest: T; error?: undefined } | { guest?: undefined; error: string };
+
+export async function getInvitationEvent(eventId: string): Promise<InvitationEvent | null> {
+  return prisma.event.findUnique({
+    where: { id: eventId },
+    select: invitationEventSelect,
+  });
+}
+
+async function emailInvitation(event: InvitationEvent, guest: Guest) {
+  await sendInvitation({
+    to: guest.email,
+    guestName: guest.name,
+    event: {
+      id: event.id,
+      title: event.title,
+      date: event.date,
+      endDate: event.endDate,
+      timezone: event.timezone,
+      calendarSequence: event.calendarSequence,
+      locationName: event.locationName,
+      streetAddress1: event.streetAddress1,
+      streetAddress2: event.streetAddress2,
+      city: event.city,
+      state: event.state,
+      zipCode: event.zipCode,
+      description: event.description,
+      coverImage: event.coverImage,
+    },
+    rsvpToken: guest.token,
+    hostName: event.host.name,
+    replyTo: event.replyTo,
+    guestId: guest.id,
+    queue: true,
+  });
+}
+
+// Texting is best effort; a failed SMS never fails the invitation
+async function textInvitation(event: InvitationEvent, guest: Guest) {
+  try {
+    await sendInvitationSms({
+      to: guest.phone!,
+      guestName: guest.name,
+      event,
+      rsvpToken: guest.token,
+      hostName: event.host.name,
+    });
+  } catch (error) {
+    logger.error('Failed to send invitation SMS', error);
+  }
+}
+
+/**
+ * Send (or resend) a guest their invitation, whatever their RSVP status, so a guest
+ * who lost the original email can get their link again. Texts it too if they opted
+ * in to SMS. Throws if the email can't be sent.
+ */
+export async function sendGuestInvitation(event: InvitationEvent, guest: Guest): Promise<void> {
+  await emailInvitation(event, guest);
+
+  if (shouldSendSms(guest)) {
+    await textInvitation(event, guest);
+  }
+}
+
+/**
+ * Add a guest to an event (and the rest of its series), inviting them if asked.
+ * Returns an error message if they're already on the guest list.
+ */
+export async function addGuest(
+  event: InvitationEvent,
+  { email, phone, name, notifyByEmail, notifyBySms, sendInvite }: AddGuestInput
+): Promise<GuestChangeResult<Guest>> {
+  const existingGuest = await prisma.guest.findUnique({
+    where: { eventId_email: { eventId: event.id, email } },
+  });
+
+  if (existingGuest) {
+    return { error: 'This guest has already been added' };
+  }
+
+  const guest = await prisma.guest.create({
+    data: {
+      eventId: event.id,
+      email,
+      phone: phone || null,
+      name: name || null,
+      notifyByEmail,
+      notifyBySms: notifyBySms && !!phone,
+    },
+  });
+
+  // Occurrences of a series share one guest list; invitations go out for this date only
+  const laterOccurrences = await getFutureOccurrences(event);
+  if (laterOccurrences.length > 0) {
+    await addGuestToOccurrences(laterOccurrences.map((occurrence) => occurrence.id), guest);
+  }
+
+  await dispatchWebhookEvent('guest.added', event.id, { guest: toWebhookGuest(guest) });
+
+  // Address the invitation the way the host entered the guest
+  const invitee = { ...guest, email, name: name || null };
+
+  if (sendInvite && notifyByEmail) {
+    try {
+      await emailInvitation(event, invitee);
+    } catch (error) {
+      logger.error('Failed to send invitation email', error);
+    }
+  }
+
+  if (sendInvite && shouldSendSms(guest)) {
+    await textInvitation(event, invitee);
+  }
+
+  return { guest };
+}
+
+/**
+ * Apply a host's edits to a guest. Hosts can seat anyone, but the party still has to
+ * fit the guest limit, and freeing up spots lets the waitlist move.
+ * Returns an error message if the edit isn't allowed.
+ */
+export async function updateGuest(
+  event: { id: string; maxGuestsPerInvitee: number | null },
+  existingGuest: Guest,
+  { name, email, phone, status, additionalGuests, dietaryNotes, notifyByEmail, notifyBySms, maxGuests }: UpdateGuestInput
+): Promise<GuestChangeResult<Prisma.GuestGetPayload<{ include: { additionalGuests: true } }>>> {
+  const eventId = event.id;
+  const guestId = existingGuest.id;
+
+  // Check email uniqueness if email is being changed
+  if (email && email !== existingGuest.email) {
+    const emailExists = await prisma.guest.findUnique({
+      where: { eventId_email: { eventId, email } },
+    });
+
+    if (emailExists) {
+      return { error: 'This email is already used for another guest in this event' };
+    }
+  }
+
+  // Filter out empty additional guest names
+  const validAdditionalGuests = (additionalGuests || [])
+    .filter((g: string) => g.trim().length > 0)
+    .map((g: string) => g.trim());
+
+  // Validate guest limit if status is ATTENDING or being changed to ATTENDING
+  const finalStatus = status !== undefined ? status : existingGuest.status;
+  if (finalStatus === 'ATTENDING') {
+    // Use per-guest limit if set, otherwise use global limit
+    const guestMaxGuests = maxGuests !== undefined ? maxGuests : existingGuest.maxGuests;
+    const validation = validateGuestLimit(event.maxGuestsPerInvitee, validAdditionalGuests.length, guestMaxGuests);
+    if (!validation.valid) {
+      return { error: validation.error || 'Too many guests' };
+    }
+  }
+
+  // Delete existing additional guests if we're updating them
+  if (additionalGuests !== undefined) {
+    await prisma.additionalGuest.deleteMany({
+      where: { guestId },
+    });
+  }
+
+  const guest = await prisma.guest.update({
+    where: { id: guestId },
+    data: {
+      ...(name !== undefined && { name }),
+      ...(email !== undefined && { email }),
+      ...(phone !== undefined && { phone }),
+      ...(status !== undefined && { status }),
+      ...(status !== undefined && status !== existingGuest.status && {
+        waitlistedAt: status === 'WAITLISTED' ? new Date() : null,
+      }),
+      ...(dietaryNotes !== undefined && { dietaryNotes }),
+      ...(notifyByEmail !== undefined && { notifyByEmail }),
+      ...(notifyBySms !== undefined && { notifyBySms: notifyBySms && !!phone }),
+      ...(maxGuests !== undefined && { maxGuests }),
+      ...(additionalGuests !== undefined && {
+        additionalGuests: {
+          create: validAdditionalGuests.map((guestName: string) => ({
+            name: guestName,
+          })),
+        },
+      }),
+    },
+    include: {
+      additionalGuests: true,
+    },
+  });
+
+  if (existingGuest.status === 'ATTENDING' || existingGuest.status === 'WAITLISTED') {
+    await promoteWaitlistedGuests(eventId).catch((error) => {
+      logger.error('Failed to promote waitlisted guests', error);
+    });
+  }
+
+  return { guest };
+}
+
+/**
+ * Take a guest off the event's guest list, letting the waitlist move if they were coming.
+ * Returns null if there's no such guest on this event.
+ */
+export async function removeGuest(eventId: string, guestId: string): Promise<Guest | null> {
+  const guest = await prisma.guest.findUnique({
+    where: { id: guestId },
+    select: { eventId: true },
+  });
+  if (!guest || guest.eventId !== eventId) {
+    return null;
+  }
+
+  const deletedGuest = await prisma.guest.delete({
+    where: { id: guestId },
+  });
+
+  if (deletedGuest.status === 'ATTENDING') {
+    await promoteWaitlistedGuests(eventId).catch((error) => {
+      logger.error('Failed to promote waitlisted guests', error);
+    });
+  }
+
+  return deletedGuest;
+}
@@ -0,0 +1,344 @@
+/**
+ * Replies to calendar invites (iMIP).
+ *
+ * Invitation and confirmation emails carry a METHOD:REQUEST invite naming the guest
+ * as ATTENDEE. When the guest clicks Accept, Maybe or Decline in Gmail, Outlook or
+ * Apple Calendar, their calendar app emails a METHOD:REPLY back to the invite's
+ * organizer address (CALENDAR_REPLY_ADDRESS). That mailbox is forwarded to
+ * /api/inbound/email, which hands each message to processInboundEmail.
+ */
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { parseCalendarUid } from './calendar';
+import { sendConfirmation } from './email';
+import { promoteWaitlistedGuests, resolveAttendingStatus } from './waitlist';
+import { PENDING_APPROVAL } from './rsvp-approval';
+import { dispatchWebhookEvent, getRsvpWebhookType, toWebhookGuest } from './webhooks';
+
+// Largest inbound message accepted; replies are a few kilobytes
+export const MAX_INBOUND_EMAIL_SIZE = 1024 * 1024;
+
+// Calendar answers (PARTSTAT) as guest statuses
+const STATUS_BY_PARTSTAT: Record<string, string> = {
+  ACCEPTED: 'ATTENDING',
+  TENTATIVE: 'MAYBE',
+  DECLINED: 'NOT_ATTENDING',
+};
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface CalendarReply {
+  eventId: string;
+  email: string;
+  partstat: string;
+}
+
+export interface InboundEmailResult {
+  replies: number;
+  updated: number;
+}
+
+/**
+ * Inbound email is on once INBOUND_EMAIL_SECRET is set
+ */
+export function isInboundEmailEnabled(): boolean {
+  return !!process.env.INBOUND_EMAIL_SECRET?.trim();
+}
+
+/**
+ * Whether a request to /api/inbound/email gave the right secret
+ */
+export function checkInboundEmailSecret(secret: string | null): boolean {
+  const expected = process.env.INBOUND_EMAIL_SECRET?.trim();
+  if (!expected || !secret) return false;
+
+  const bufferA = Buffer.from(secret);
+  const bufferB = Buffer.from(expected);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+function splitHeaders(raw: string): MimePart {
+  const match = raw.match(/\r?\n\r?\n/);
+  const head = match?.index !== undefined ? raw.slice(0, match.index) : raw;
+  const body = match?.index !== undefined ? raw.slice(match.index + match[0].length) : '';
+
+  const headers: Record<string, string> = {};
+  head
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const colon = line.indexOf(':');
+      if (colon <= 0) return;
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!(name in headers)) {
+        headers[name] = line.slice(colon + 1).trim();
+      }
+    });
+
+  return { headers, body };
+}
+
+function getHeaderParam(header: string | undefined, param: string): string | null {
+  const match = header?.match(new RegExp(`;\\s*${param}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? match[1] ?? match[2] : null;
+}
+
+function decodeQuotedPrintable(text: string): string {
+  const clean = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i++) {
+    const hex = clean.slice(i + 1, i + 3);
+    if (clean[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Array.from(Buffer.from(clean[i], 'utf8')));
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = part.headers['content-transfer-encoding']?.toLowerCase();
+  if (encoding === 'base64') {
+    return Buffer.from(part.body.replace(/\s/g, ''), 'base64').toString('utf8');
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeQuotedPrintable(part.body);
+  }
+  return part.body;
+}
+
+/**
+ * Every calendar attachment in a MIME message, decoded. Outlook sends replies as
+ * text/calendar, some clients as an application/ics attachment.
+ */
+export function extractCalendarParts(raw: string, depth = 0): string[] {
+  const part = splitHeaders(raw);
+  const contentType = part.headers['content-type']?.toLowerCase() || 'text/plain';
+
+  if (contentType.startsWith('multipart/')) {
+    const boundary = getHeaderParam(part.headers['content-type'], 'boundary');
+    // Real replies are nested two or three levels deep
+    if (!boundary || depth > 5) return [];
+
+    return part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter((section) => !section.startsWith('--'))
+      .flatMap((section) => extractCalendarParts(section.replace(/^\r?\n/, ''), depth + 1));
+  }
+
+  if (contentType.startsWith('text/calendar') || contentType.startsWith('application/ics')) {
+    return [decodeBody(part)];
+  }
+  return [];
+}
+
+// Split a content line into name, parameters and value, minding quoted parameter values
+function parseIcalLine(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  let inQuotes = false;
+  const separators: number[] = [];
+  let colon = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === ';') separators.push(i);
+    else if (!inQuotes && char === ':') {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const bounds = [...separators, colon];
+  const params: Record<string, string> = {};
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const param = line.slice(bounds[i] + 1, bounds[i + 1]);
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: line.slice(0, bounds[0]).toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * The answers in a METHOD:REPLY calendar object, one per OwnRSVP event and attendee
+ */
+export function parseCalendarReply(content: string): CalendarReply[] {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const replies: CalendarReply[] = [];
+  let method: string | null = null;
+  let uid: string | null = null;
+  let attendees: { email: string; partstat: string }[] = [];
+  let inEvent = false;
+
+  lines.forEach((line) => {
+    const property = parseIcalLine(line);
+    if (!property) return;
+
+    if (property.name === 'METHOD' && !inEvent) {
+      method = property.value.trim().toUpperCase();
+    } else if (property.name === 'BEGIN' && property.value.trim().toUpperCase() === 'VEVENT') {
+      inEvent = true;
+      uid = null;
+      attendees = [];
+    } else if (property.name === 'END' && property.value.trim().toUpperCase() === 'VEVENT') {
+      inEvent = false;
+      const eventId = uid ? parseCalendarUid(uid) : null;
+      if (eventId) {
+        attendees.forEach(({ email, partstat }) => replies.push({ eventId, email, partstat }));
+      }
+    } else if (inEvent && property.name === 'UID') {
+      uid = property.value;
+    } else if (inEvent && property.name === 'ATTENDEE') {
+      const email = property.value.replace(/^mailto:/i, '').trim();
+      if (email) {
+        attendees.push({ email, partstat: (property.params.PARTSTAT || '').toUpperCase() });
+      }
+    }
+  });
+
+  return method === 'REPLY' ? replies : [];
+}
+
+// The address in a From header ("Alex <alex@example.com>" or a bare address)
+function getSenderAddress(from: string | undefined): string | null {
+  const address = from?.match(/<([^>]+)>/)?.[1] ?? from;
+  return address?.trim().toLowerCase() || null;
+}
+
+/**
+ * Apply the calendar replies in an inbound email to the guests who sent them. Only
+ * answers about the sender themselves are taken, so one guest can't answer for another.
+ */
+export async function processInboundEmail(raw: string): Promise<InboundEmailResult> {
+  const sender = getSenderAddress(splitHeaders(raw).headers.from);
+  const replies = extractCalendarParts(raw).flatMap(parseCalendarReply);
+  const result: InboundEmailResult = { replies: replies.length, updated: 0 };
+
+  for (const reply of replies) {
+    if (reply.email.toLowerCase() !== sender) {
+      logger.warn('Ignoring calendar reply for someone other than the sender', { eventId: reply.eventId });
+      continue;
+    }
+
+    const status = STATUS_BY_PARTSTAT[reply.partstat];
+    if (!status) continue;
+
+    try {
+      if (await applyCalendarReply(reply, status)) {
+        result.updated++;
+      }
+    } catch (error) {
+      logger.error('Failed to apply calendar reply', error, { eventId: reply.eventId });
+    }
+  }
+
+  return result;
+}
+
+async function applyCalendarReply(reply: CalendarReply, status: string): Promise<boolean> {
+  // Guest emails are stored lowercased; calendar apps often send the address as typed
+  const email = reply.email.trim().toLowerCase();
+  const guest = await prisma.guest.findUnique({
+    where: { eventId_email: { eventId: reply.eventId, email } },
+    include: {
+      event: {
+        select: {
+          id: true,
+          title: true,
+          date: true,
+          endDate: true,
+          timezone: true,
+          calendarSequence: true,
+          locationName: true,
+          streetAddress1: true,
+          streetAddress2: true,
+          city: true,
+          state: true,
+          zipCode: true,
+          description: true,
+          rsvpDeadline: true,
+          replyTo: true,
+          capacity: true,
+        },
+      },
+      _count: {
+        select: { additionalGuests: true },
+      },
+    },
+  });
+
+  if (!guest || guest.status === PENDING_APPROVAL) {
+    return false;
+  }
+  if (guest.event.rsvpDeadline && guest.event.rsvpDeadline < new Date()) {
+    logger.info('Ignoring calendar reply after the RSVP deadline', { eventId: guest.event.id, guestId: guest.id });
+    return false;
+  }
+
+  // Parties that don't fit under the event's capacity join the waitlist
+  let finalStatus = status;
+  if (status === 'ATTENDING' && guest.event.capacity !== null) {
+    const resolved = await resolveAttendingStatus(guest.event, 1 + guest._count.additionalGuests, guest);
+    if (resolved.error) {
+      return false;
+    }
+    finalStatus = resolved.status;
+  }
+
+  // Calendar apps send the same answer again whenever the invite is updated
+  const previousStatus = guest.status;
+  if (finalStatus === previousStatus) {
+    return false;
+  }
+
+  await prisma.guest.update({
+    where: { id: guest.id },
+    data: {
+      status: finalStatus,
+      waitlistedAt: finalStatus === 'WAITLISTED' ? new Date() : null,
+      respondedAt: new Date(),
+      respondedVia: 'CALENDAR',
+    },
+  });
+
+  await dispatchWebhookEvent(getRsvpWebhookType(previousStatus), guest.event.id, {
+    guest: toWebhookGuest({ ...guest, status: finalStatus, respondedVia: 'CALENDAR', respondedAt: new Date() }),
+    previousStatus,
+  });
+
+  // A guest giving up their spot (or their place in line) may let waitlisted guests in
+  if (previousStatus === 'ATTENDING' || previousStatus === 'WAITLISTED') {
+    await promoteWaitlistedGuests(guest.event.id).catch((error) => {
+      logger.error('Failed to promote waitlisted guests', error);
+    });
+  }
+
+  // Their calendar already shows the answer; only a full event needs explaining
+  if (finalStatus !== status) {
+    await sendConfirmation({
+      to: guest.email,
+      guestName: guest.name,
+      event: guest.event,
+      status: finalStatus,
+      rsvpToken: guest.token,
+      replyTo: guest.event.replyTo,
+      guestId: guest.id,
+      queue: true,
+    }).catch((error) => {
+      logger.error('Failed to send confirmation email for calendar reply', error);
+    });
+  }
+
+  return true;
+}
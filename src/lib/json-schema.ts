@@ -0,0 +1,187 @@
+/**
+ * Converts Zod schemas to JSON Schema (draft 2020-12, as used by OpenAPI 3.1).
+ * Covers the parts of Zod the app's schemas use; refinements and transforms can't be
+ * expressed, so they're described by the schema they run on.
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = { [key: string]: unknown };
+
+/**
+ * "input" describes what a schema accepts (request bodies, where defaults make fields
+ * optional), "output" what it produces (responses)
+ */
+export type JsonSchemaMode = 'input' | 'output';
+
+function stringSchema(def: z.ZodStringDef): JsonSchema {
+  const schema: JsonSchema = { type: 'string' };
+
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case 'email':
+        schema.format = 'email';
+        break;
+      case 'url':
+        schema.format = 'uri';
+        break;
+      case 'uuid':
+        schema.format = 'uuid';
+        break;
+      case 'datetime':
+        schema.format = 'date-time';
+        break;
+      case 'date':
+        schema.format = 'date';
+        break;
+      case 'regex':
+        schema.pattern = check.regex.source;
+        break;
+      case 'min':
+        schema.minLength = check.value;
+        break;
+      case 'max':
+        schema.maxLength = check.value;
+        break;
+      case 'length':
+        schema.minLength = check.value;
+        schema.maxLength = check.value;
+        break;
+    }
+  }
+
+  return schema;
+}
+
+function numberSchema(def: z.ZodNumberDef): JsonSchema {
+  const schema: JsonSchema = { type: 'number' };
+
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case 'int':
+        schema.type = 'integer';
+        break;
+      case 'min':
+        schema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        schema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        schema.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return schema;
+}
+
+function objectSchema(schema: z.AnyZodObject, mode: JsonSchemaMode): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = zodToJsonSchema(value, mode);
+    if (!isOptionalField(value, mode)) {
+      required.push(key);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+// Defaults fill in missing input, so a defaulted field is optional to send but always there afterwards
+function isOptionalField(schema: z.ZodTypeAny, mode: JsonSchemaMode): boolean {
+  if (mode === 'input') {
+    return schema.isOptional();
+  }
+  const typeName = schema._def.typeName;
+  if (typeName === z.ZodFirstPartyTypeKind.ZodOptional) {
+    return true;
+  }
+  if (typeName === z.ZodFirstPartyTypeKind.ZodNullable) {
+    return isOptionalField(schema._def.innerType, mode);
+  }
+  return false;
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return typeof schema.type === 'string'
+    ? { ...schema, type: [schema.type, 'null'] }
+    : { anyOf: [schema, { type: 'null' }] };
+}
+
+function convert(schema: z.ZodTypeAny, mode: JsonSchemaMode): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName as z.ZodFirstPartyTypeKind) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values) };
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return {
+        type: 'array',
+        items: zodToJsonSchema(def.type, mode),
+        ...(def.minLength && { minItems: def.minLength.value }),
+        ...(def.maxLength && { maxItems: def.maxLength.value }),
+        ...(def.exactLength && { minItems: def.exactLength.value, maxItems: def.exactLength.value }),
+      };
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return objectSchema(schema as z.AnyZodObject, mode);
+    case z.ZodFirstPartyTypeKind.ZodRecord: {
+      const keys = zodToJsonSchema(def.keyType, mode);
+      return {
+        type: 'object',
+        additionalProperties: zodToJsonSchema(def.valueType, mode),
+        ...(keys.enum !== undefined && { propertyNames: keys }),
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: (def.options as z.ZodTypeAny[]).map((option) => zodToJsonSchema(option, mode)) };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType, mode);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return nullable(zodToJsonSchema(def.innerType, mode));
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType, mode), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.innerType ?? def.type, mode);
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema, mode);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(mode === 'input' ? def.in : def.out, mode);
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return zodToJsonSchema(def.getter(), mode);
+    default:
+      // any, unknown and anything else: no constraints
+      return {};
+  }
+}
+
+/**
+ * The JSON Schema for a Zod schema, keeping its .describe() text
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, mode: JsonSchemaMode = 'input'): JsonSchema {
+  const jsonSchema = convert(schema, mode);
+  return schema.description ? { ...jsonSchema, description: schema.description } : jsonSchema;
+}
@@ -0,0 +1,50 @@
+/**
+ * Sizes of uploaded images and the URLs they're served from. Shared by the browser,
+ * which resizes images before uploading them, and the server (see media.ts).
+ */
+
+export const MEDIA_VARIANTS = ['original', 'card', 'email', 'thumb'] as const;
+
+export type MediaVariant = (typeof MEDIA_VARIANTS)[number];
+
+// Longest edge in pixels for each variant
+export const MEDIA_VARIANT_SIZES: Record<MediaVariant, number> = {
+  original: 2000,
+  card: 1200,
+  email: 600,
+  thumb: 480,
+};
+
+export const MEDIA_URL_PREFIX = '/api/media/';
+
+/**
+ * Whether an image URL points at the media store (rather than an external URL or
+ * an inline data URL saved before the media store existed)
+ */
+export function isMediaUrl(src: string | null | undefined): src is string {
+  return !!src && src.startsWith(MEDIA_URL_PREFIX);
+}
+
+/**
+ * URL of one size of an image. Other URLs are returned unchanged.
+ */
+export function getImageUrl(src: string, variant: MediaVariant): string;
+export function getImageUrl(src: string | null | undefined, variant: MediaVariant): string | null;
+export function getImageUrl(src: string | null | undefined, variant: MediaVariant): string | null {
+  if (!src) return null;
+  if (!isMediaUrl(src) || variant === 'original') return src;
+  return `${src}?size=${variant}`;
+}
+
+/**
+ * Absolute URL of one size of an image, for emails and other places that are
+ * opened away from the app
+ */
+export function getAbsoluteImageUrl(
+  src: string | null | undefined,
+  variant: MediaVariant,
+  appUrl: string
+): string | null {
+  const url = getImageUrl(src, variant);
+  return url && isMediaUrl(url) ? `${appUrl.replace(/\/$/, '')}${url}` : url;
+}
@@ -0,0 +1,297 @@
+/**
+ * On-disk store for uploaded images (event cover images).
+ *
+ * Each upload gets a random id and a directory holding one file per size
+ * (original.jpg, card.jpg, email.jpg, thumb.jpg). The browser makes the smaller sizes
+ * before uploading; the server makes any it didn't send, such as for API uploads and
+ * covers moved over from the database. A size that still can't be made is served
+ * from the original. Events store the image's URL (/api/media/<id>) rather than the
+ * image itself, and uploads no event ends up using are pruned after a day.
+ *
+ * Files live in data/media by default, or MEDIA_DIR (e.g. a separate Docker volume).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { MEDIA_URL_PREFIX, MEDIA_VARIANT_SIZES, MEDIA_VARIANTS, MediaVariant, isMediaUrl } from './media-variants';
+
+// Largest file accepted for any one size of an image
+export const MAX_MEDIA_FILE_SIZE = 10 * 1024 * 1024;
+
+// Uploads not used by any event this long after they were made are deleted
+const ORPHANED_MEDIA_AGE_MS = 24 * 60 * 60 * 1000;
+
+const MEDIA_ID_PATTERN = /^[a-f0-9]{24}$/;
+
+interface ImageType {
+  mimeType: string;
+  extension: string;
+}
+
+// Identified by their first bytes; SVG is left out as it can carry scripts
+const IMAGE_SIGNATURES: { type: ImageType; matches: (data: Buffer) => boolean }[] = [
+  {
+    type: { mimeType: 'image/jpeg', extension: 'jpg' },
+    matches: (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  },
+  {
+    type: { mimeType: 'image/png', extension: 'png' },
+    matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  {
+    type: { mimeType: 'image/gif', extension: 'gif' },
+    matches: (data) => data.subarray(0, 4).toString('ascii') === 'GIF8',
+  },
+  {
+    type: { mimeType: 'image/webp', extension: 'webp' },
+    matches: (data) => data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP',
+  },
+];
+
+export function getMediaDir(): string {
+  return process.env.MEDIA_DIR || path.join(process.cwd(), 'data', 'media');
+}
+
+/**
+ * The type of an image file from its contents, or null if it isn't a supported image
+ */
+export function detectImageType(data: Buffer): ImageType | null {
+  return IMAGE_SIGNATURES.find((signature) => signature.matches(data))?.type ?? null;
+}
+
+/**
+ * The media id in a /api/media/<id> URL
+ */
+export function getMediaId(url: string | null | undefined): string | null {
+  if (!isMediaUrl(url)) return null;
+  const id = url.slice(MEDIA_URL_PREFIX.length).split(/[/?#]/)[0];
+  return MEDIA_ID_PATTERN.test(id) ? id : null;
+}
+
+/**
+ * Make the sizes missing from an upload out of its original, the way the browser
+ * does: no larger than the size's longest edge, PNGs kept as PNG and everything else
+ * as JPEG. Sizes that can't be made are left out and served from the original.
+ */
+export async function createMissingVariants(
+  files: Partial<Record<MediaVariant, Buffer>> & { original: Buffer }
+): Promise<Partial<Record<MediaVariant, Buffer>>> {
+  const isPng = detectImageType(files.original)?.extension === 'png';
+  const result = { ...files };
+
+  for (const variant of MEDIA_VARIANTS) {
+    if (result[variant]) continue;
+
+    const size = MEDIA_VARIANT_SIZES[variant];
+    try {
+      const image = sharp(files.original)
+        .rotate()
+        .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true });
+      result[variant] = isPng
+        ? await image.png().toBuffer()
+        : await image.flatten({ background: '#ffffff' }).jpeg({ quality: 85 }).toBuffer();
+    } catch (error) {
+      logger.warn('Could not make a smaller size of an image', { variant, error: String(error) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Write an image's sizes to the store and return its URL. The original is required;
+ * sizes not given are made from it.
+ */
+export async function saveMedia(uploaded: Partial<Record<MediaVariant, Buffer>>): Promise<string> {
+  if (!uploaded.original) {
+    throw new Error('An original image is required');
+  }
+  if (!detectImageType(uploaded.original)) {
+    throw new Error('The original image is not a supported image type');
+  }
+
+  const files = await createMissingVariants({ ...uploaded, original: uploaded.original });
+  const id = crypto.randomBytes(12).toString('hex');
+  const dir = path.join(getMediaDir(), id);
+  await fs.mkdir(dir, { recursive: true });
+
+  for (const variant of MEDIA_VARIANTS) {
+    const data = files[variant];
+    if (!data) continue;
+
+    const type = detectImageType(data);
+    if (!type) {
+      await fs.rm(dir, { recursive: true, force: true });
+      throw new Error(`The ${variant} image is not a supported image type`);
+    }
+    await fs.writeFile(path.join(dir, `${variant}.${type.extension}`), data);
+  }
+
+  return `${MEDIA_URL_PREFIX}${id}`;
+}
+
+/**
+ * Store an image given as a base64 data URL and return its media URL, or null if
+ * it isn't a supported image
+ */
+export async function saveDataUrlImage(dataUrl: string): Promise<string | null> {
+  const match = dataUrl.match(/^data:[^;,]*;base64,([\s\S]*)$/);
+  const data = match ? Buffer.from(match[1], 'base64') : null;
+  if (!data || !detectImageType(data) || data.length > MAX_MEDIA_FILE_SIZE) {
+    return null;
+  }
+  return saveMedia({ original: data });
+}
+
+/**
+ * Read one size of an image, falling back to the original when that size wasn't stored
+ */
+export async function readMedia(
+  id: string,
+  variant: MediaVariant
+): Promise<{ data: Buffer; mimeType: string } | null> {
+  if (!MEDIA_ID_PATTERN.test(id)) return null;
+
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(path.join(getMediaDir(), id));
+  } catch {
+    return null;
+  }
+
+  const fileName =
+    fileNames.find((name) => name.startsWith(`${variant}.`)) ??
+    fileNames.find((name) => name.startsWith('original.'));
+  if (!fileName) return null;
+
+  const data = await fs.readFile(path.join(getMediaDir(), id, fileName));
+  const type = detectImageType(data);
+  return type ? { data, mimeType: type.mimeType } : null;
+}
+
+/**
+ * Delete stored images that no event uses any more. Occurrences of a recurring
+ * event share their cover image, so it's only removed once the last one lets go.
+ */
+export async function deleteUnusedMedia(urls: (string | null | undefined)[]): Promise<void> {
+  for (const url of Array.from(new Set(urls))) {
+    const id = getMediaId(url);
+    if (!id || !url) continue;
+
+    try {
+      const inUse = await prisma.event.count({ where: { coverImage: url } });
+      if (inUse === 0) {
+        await fs.rm(path.join(getMediaDir(), id), { recursive: true, force: true });
+      }
+    } catch (error) {
+      logger.error('Failed to delete unused image', error, { url });
+    }
+  }
+}
+
+/**
+ * Delete uploads that no event uses and that are old enough that no one is still
+ * filling in the event form they were uploaded from. Returns how many were deleted.
+ */
+export async function pruneOrphanedMedia(): Promise<number> {
+  let ids: string[];
+  try {
+    ids = (await fs.readdir(getMediaDir())).filter((entry) => MEDIA_ID_PATTERN.test(entry));
+  } catch {
+    return 0;
+  }
+
+  const cutoff = Date.now() - ORPHANED_MEDIA_AGE_MS;
+  let deleted = 0;
+
+  for (const id of ids) {
+    const dir = path.join(getMediaDir(), id);
+    try {
+      const { mtimeMs } = await fs.stat(dir);
+      if (mtimeMs > cutoff) continue;
+
+      const inUse = await prisma.event.count({ where: { coverImage: `${MEDIA_URL_PREFIX}${id}` } });
+      if (inUse === 0) {
+        await fs.rm(dir, { recursive: true, force: true });
+        deleted++;
+      }
+    } catch (error) {
+      logger.error('Failed to prune unused image', error, { id });
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Delete every stored image (for a factory reset). The directory itself is kept, as
+ * it may be a mounted volume.
+ */
+export async function clearMediaStore(): Promise<number> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getMediaDir());
+  } catch {
+    return 0;
+  }
+
+  for (const entry of entries) {
+    await fs.rm(path.join(getMediaDir(), entry), { recursive: true, force: true });
+  }
+  return entries.length;
+}
+
+/**
+ * Number of events whose cover image is still stored inline as a base64 data URL
+ */
+export function countInlineCoverImages(): Promise<number> {
+  return prisma.event.count({ where: { coverImage: { startsWith: 'data:' } } });
+}
+
+/**
+ * Move cover images saved inline in the Event table (as base64 data URLs, before the
+ * media store existed) into the store. Events sharing the same image, like the
+ * occurrences of a series, end up sharing one stored copy. Safe to run more than once.
+ */
+export async function migrateInlineCoverImages(): Promise<{ migrated: number; failed: number }> {
+  const skipped: string[] = [];
+  let migrated = 0;
+
+  // One image at a time, so large covers aren't all held in memory together
+  for (;;) {
+    const event = await prisma.event.findFirst({
+      where: { coverImage: { startsWith: 'data:' }, id: { notIn: skipped } },
+      select: { id: true, coverImage: true },
+    });
+    if (!event?.coverImage) break;
+
+    const dataUrl = event.coverImage;
+    const url = await saveDataUrlImage(dataUrl);
+
+    if (!url) {
+      logger.warn('Could not move an inline cover image to the media store', { eventId: event.id });
+      const sameImage = await prisma.event.findMany({
+        where: { coverImage: dataUrl },
+        select: { id: true },
+      });
+      skipped.push(...sameImage.map(({ id }) => id));
+      continue;
+    }
+
+    const result = await prisma.event.updateMany({
+      where: { coverImage: dataUrl },
+      data: { coverImage: url },
+    });
+    migrated += result.count;
+  }
+
+  if (migrated || skipped.length) {
+    logger.info('Moved inline cover images to the media store', { migrated, failed: skipped.length });
+  }
+
+  return { migrated, failed: skipped.length };
+}
@@ -0,0 +1,295 @@
+/**
+ * The OpenAPI 3.1 description of the API, built from the route list in lib/api-routes
+ * and the Zod schemas the routes validate with
+ */
+
+import { API_ROUTES, ApiOperationId, ApiRouteDefinition } from './api-routes';
+import { API_TOKEN_SCOPE_DEFINITIONS } from './api-token-scopes';
+import { apiErrorSchema } from './schemas';
+import { JsonSchema, zodToJsonSchema } from './json-schema';
+
+export const OPENAPI_DOCUMENT_PATH = '/api/v1/openapi.json';
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export type OpenApiResponse =
+  | { description: string; content?: Record<string, { schema: JsonSchema }> }
+  | { $ref: string };
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  security: Record<string, string[]>[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, OpenApiResponse>;
+  'x-required-scope'?: string;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  tags: { name: string; description: string }[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, JsonSchema>;
+    responses: Record<string, { description: string; content: Record<string, { schema: JsonSchema }> }>;
+  };
+}
+
+const PATH_PARAMETER_DESCRIPTIONS: Record<string, string> = {
+  guestId: 'Guest ID',
+  cohostId: 'Co-host ID',
+  sessionId: 'Session ID',
+  messageId: 'Queued email ID',
+  userId: 'User ID',
+  name: 'Email template name',
+  slug: 'Public event link name',
+  token: 'Token from the guest\'s RSVP link, or from a calendar feed link',
+};
+
+// What an {id} is, by the path segment before it
+const ID_DESCRIPTIONS: Record<string, string> = {
+  events: 'Event ID',
+  comments: 'Message ID',
+  media: 'Image ID',
+  'api-tokens': 'API token ID',
+  webhooks: 'Webhook ID',
+};
+
+const TAGS = [
+  { name: 'Events', description: 'Events you host or co-host' },
+  { name: 'Guests', description: 'Guest lists' },
+  { name: 'Messages', description: 'Invitations and updates sent to guests' },
+  { name: 'Event management', description: 'The app\'s event pages. Internal: may change between releases.' },
+  { name: 'Guest list', description: 'The guest list on an event\'s page. Internal: may change between releases.' },
+  { name: 'Guest pages', description: 'RSVP forms, event pages and the embedded widget. Internal: may change between releases.' },
+  { name: 'Account', description: 'Sign-up, password resets and your own settings. Internal: may change between releases.' },
+  { name: 'Admin', description: 'Site settings, for admins. Internal: may change between releases.' },
+  { name: 'System', description: 'Called by the scheduler, the mail service and uptime checks' },
+];
+
+const SECURITY: Record<Exclude<ApiRouteDefinition['auth'], 'token'>, Record<string, string[]>[]> = {
+  session: [{ sessionCookie: [] }],
+  admin: [{ sessionCookie: [] }],
+  public: [],
+  cron: [{ cronSecret: [] }],
+  inbound: [{ inboundSecret: [] }],
+};
+
+const errorRef = (name: string) => ({ $ref: `#/components/responses/${name}` });
+
+function pathParameters(path: string): OpenApiParameter[] {
+  const segments = path.split('/');
+  return segments.flatMap((segment, index) => {
+    const match = segment.match(/^\{(\w+)\}$/);
+    if (!match) {
+      return [];
+    }
+    const name = match[1];
+    const description = name === 'id' ? ID_DESCRIPTIONS[segments[index - 1]] : PATH_PARAMETER_DESCRIPTIONS[name];
+    return [{
+      name,
+      in: 'path' as const,
+      required: true,
+      ...(description && { description }),
+      schema: { type: 'string' },
+    }];
+  });
+}
+
+function queryParameters(route: ApiRouteDefinition): OpenApiParameter[] {
+  if (!route.query) {
+    return [];
+  }
+  const schema = zodToJsonSchema(route.query, 'input');
+  const properties = schema.properties as Record<string, JsonSchema>;
+  const required = (schema.required as string[] | undefined) || [];
+
+  return Object.keys(properties).map((name) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    schema: properties[name],
+  }));
+}
+
+function successResponse(route: ApiRouteDefinition): OpenApiResponse {
+  if (route.status === 302 || route.status === 303) {
+    return { description: 'Redirects to a page of the app' };
+  }
+
+  if (route.contentType) {
+    const schema: JsonSchema = route.contentType.startsWith('text/')
+      ? { type: 'string' }
+      : { type: 'string', format: 'binary' };
+    return { description: 'OK', content: { [route.contentType]: { schema } } };
+  }
+
+  const description = route.status === 201 ? 'Created' : 'OK';
+
+  // Only the token routes wrap their payload
+  if (route.auth !== 'token') {
+    return route.response
+      ? { description, content: { 'application/json': { schema: zodToJsonSchema(route.response, 'output') } } }
+      : { description };
+  }
+
+  const properties: Record<string, JsonSchema> = { message: { type: 'string' } };
+  if (route.response) {
+    properties.data = zodToJsonSchema(route.response, 'output');
+  }
+
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: { type: 'object', properties, required: [route.response ? 'data' : 'message'] },
+      },
+    },
+  };
+}
+
+function requestBody(route: ApiRouteDefinition, body: NonNullable<ApiRouteDefinition['body']>) {
+  const schema = zodToJsonSchema(body, 'input');
+
+  // Files have no JSON Schema of their own
+  if (route.bodyType === 'multipart/form-data' && schema.properties) {
+    const properties = schema.properties as Record<string, JsonSchema>;
+    for (const name of Object.keys(properties)) {
+      if (Object.keys(properties[name]).length === 0) {
+        properties[name] = { type: 'string', format: 'binary' };
+      }
+    }
+  }
+
+  return {
+    required: true,
+    content: { [route.bodyType || 'application/json']: { schema } },
+  };
+}
+
+function describeAccess(route: ApiRouteDefinition): string | undefined {
+  if (route.auth === 'token' && route.scope) {
+    const scope = API_TOKEN_SCOPE_DEFINITIONS[route.scope];
+    return `Needs the \`${route.scope}\` scope (${scope.label.toLowerCase()}).`;
+  }
+  if (route.auth === 'admin') {
+    return 'Admins only.';
+  }
+  return undefined;
+}
+
+function buildOperation(operationId: ApiOperationId, route: ApiRouteDefinition): OpenApiOperation {
+  const parameters = [...pathParameters(route.path), ...queryParameters(route)];
+  const description = [route.description, describeAccess(route)].filter(Boolean).join('\n\n');
+
+  const responses: OpenApiOperation['responses'] = {
+    [String(route.status || 200)]: successResponse(route),
+  };
+  if (route.body || route.query) {
+    responses['400'] = errorRef('ValidationError');
+  }
+  if (route.auth !== 'public') {
+    responses['401'] = errorRef('Unauthorized');
+  }
+  if (route.auth === 'token' || route.auth === 'session' || route.auth === 'admin') {
+    responses['403'] = errorRef('Forbidden');
+  }
+  if (parameters.some((parameter) => parameter.in === 'path')) {
+    responses['404'] = errorRef('NotFound');
+  }
+  if (route.rateLimited) {
+    responses['429'] = errorRef('TooManyRequests');
+  }
+
+  return {
+    operationId,
+    summary: route.summary,
+    ...(description && { description }),
+    tags: [route.tag],
+    security: route.auth === 'token' ? [{ bearerAuth: route.scope ? [route.scope] : [] }] : SECURITY[route.auth],
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.body && { requestBody: requestBody(route, route.body) }),
+    responses,
+    ...(route.auth === 'token' && route.scope && { 'x-required-scope': route.scope }),
+  };
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  };
+}
+
+/**
+ * The API description, with serverUrl as the address requests go to
+ */
+export function buildOpenApiDocument(serverUrl: string): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const operationId of Object.keys(API_ROUTES) as ApiOperationId[]) {
+    const route: ApiRouteDefinition = API_ROUTES[operationId];
+    paths[route.path] = paths[route.path] || {};
+    paths[route.path][route.method.toLowerCase()] = buildOperation(operationId, route);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'OwnRSVP API',
+      version: '1',
+      description:
+        'Manage your events and guest lists from scripts and other apps. Create a personal API token under Profile → API Tokens and send it as `Authorization: Bearer <token>`. Tokens act as you, limited to their scopes, on the events you host or co-host.\n\nOnly the /api/v1 operations (Events, Guests and Messages) are stable. The rest is the API the app\'s own pages use: it\'s described here for completeness, takes the browser session rather than an API token, and may change between releases.',
+    },
+    servers: [{ url: serverUrl.replace(/\/$/, '') }],
+    tags: TAGS,
+    paths,
+    components: {
+      schemas: {
+        Error: zodToJsonSchema(apiErrorSchema, 'output'),
+      },
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A personal API token (ownrsvp_…)',
+        },
+        sessionCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'authjs.session-token',
+          description: 'The session cookie set when signing in to the app (__Secure-authjs.session-token over HTTPS)',
+        },
+        cronSecret: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'CRON_SECRET, when one is set',
+        },
+        inboundSecret: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'INBOUND_EMAIL_SECRET',
+        },
+      },
+      responses: {
+        ValidationError: errorResponse('The query or body is invalid'),
+        Unauthorized: errorResponse('Not signed in, or the API token or secret is missing, invalid or expired'),
+        Forbidden: errorResponse('The token lacks the scope, or your role doesn\'t allow this'),
+        NotFound: errorResponse('No such item, or not one you can see'),
+        TooManyRequests: errorResponse('Too many requests from this client; try again later'),
+      },
+    },
+  };
+}
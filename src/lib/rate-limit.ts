@@ -0,0 +1,181 @@
+/**
+ * Throttling for endpoints anyone can call without signing in (RSVPs, comments,
+ * edit-link and password reset emails, and the login form).
+ *
+ * Each request counts against two fixed-window buckets: one for the caller's IP
+ * address and one for what they're targeting (an email address, or an event and
+ * email), so neither rotating addresses nor spraying targets gets around the limit.
+ * When the IP address isn't known, callers whose target is their own choice (an
+ * email address anyone can make up) also pass a fallback, such as the event, whose
+ * bucket every caller without an address shares.
+ * Counters live in memory by default; the admin config can keep them in the
+ * database instead so they survive a restart.
+ */
+
+import { prisma } from './prisma';
+import { getRateLimitConfig, RateLimitAction, RateLimitStoreName } from './config';
+import { logger } from './logger';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  count: number;
+  resetAt: number;
+}
+
+// Prune expired in-memory buckets once the map grows past this many keys
+const MAX_MEMORY_BUCKETS = 10000;
+
+// A fallback bucket is shared by every visitor without a known address, so it allows this many times the limit
+const FALLBACK_LIMIT_MULTIPLIER = 10;
+
+const memoryBuckets = new Map<string, Bucket>();
+
+function hitMemoryBucket(key: string, windowMs: number, now: number): Bucket {
+  let bucket = memoryBuckets.get(key);
+
+  if (!bucket || bucket.resetAt <= now) {
+    if (memoryBuckets.size >= MAX_MEMORY_BUCKETS) {
+      memoryBuckets.forEach((existing, existingKey) => {
+        if (existing.resetAt <= now) memoryBuckets.delete(existingKey);
+      });
+    }
+    bucket = { count: 0, resetAt: now + windowMs };
+    memoryBuckets.set(key, bucket);
+  }
+
+  bucket.count += 1;
+  return bucket;
+}
+
+async function hitDatabaseBucket(key: string, windowMs: number, now: number): Promise<Bucket> {
+  const resetAt = new Date(now + windowMs);
+
+  // A single INSERT ... ON CONFLICT, so concurrent first hits can't each start the count over
+  const bucket = await prisma.rateLimitBucket.upsert({
+    where: { key },
+    update: { count: { increment: 1 } },
+    create: { key, count: 1, resetAt },
+  });
+
+  if (bucket.resetAt.getTime() > now) {
+    return { count: bucket.count, resetAt: bucket.resetAt.getTime() };
+  }
+
+  // The window had run out: start a new one, unless a concurrent request already did
+  const restarted = await prisma.rateLimitBucket.updateMany({
+    where: { key, resetAt: bucket.resetAt },
+    data: { count: 1, resetAt },
+  });
+  if (restarted.count > 0) {
+    return { count: 1, resetAt: resetAt.getTime() };
+  }
+
+  const updated = await prisma.rateLimitBucket.update({
+    where: { key },
+    data: { count: { increment: 1 } },
+  });
+  return { count: updated.count, resetAt: updated.resetAt.getTime() };
+}
+
+function hitBucket(store: RateLimitStoreName, key: string, windowMs: number, now: number): Promise<Bucket> {
+  return store === 'database'
+    ? hitDatabaseBucket(key, windowMs, now)
+    : Promise.resolve(hitMemoryBucket(key, windowMs, now));
+}
+
+/**
+ * How many reverse proxies sit in front of the app, from TRUSTED_PROXY_HOPS. Each one
+ * appends the address it received the request from to X-Forwarded-For, so only the
+ * last this many entries can be trusted; anything to their left came from the client.
+ */
+function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * The caller's IP address, as reported by the trusted reverse proxies, or null when
+ * there are none (TRUSTED_PROXY_HOPS unset) or the headers don't have it. Without an
+ * address the per-target and fallback limits apply, rather than every visitor sharing
+ * the per-IP one.
+ */
+export function getClientIp(request: Request): string | null {
+  const hops = getTrustedProxyHops();
+  if (hops === 0) {
+    return null;
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const entries = forwardedFor.split(',').map((entry) => entry.trim());
+    // The address the outermost trusted proxy saw the request come from
+    return entries.length >= hops ? entries[entries.length - hops] || null : null;
+  }
+
+  return request.headers.get('x-real-ip')?.trim() || null;
+}
+
+/**
+ * Count a request against the action's limits. Without an IP address the request
+ * also counts against the fallback's bucket, at a higher limit since everyone without
+ * an address shares it. Fails open if the counters can't be read, so a database
+ * hiccup doesn't take RSVPs down with it.
+ */
+export async function checkRateLimit(
+  action: RateLimitAction,
+  { ip, target, fallback }: { ip: string | null; target?: string | null; fallback?: string | null }
+): Promise<RateLimitResult> {
+  try {
+    const config = await getRateLimitConfig();
+    if (!config.enabled) {
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    const { limit, windowMinutes } = config.rules[action];
+    const windowMs = windowMinutes * 60 * 1000;
+    const now = Date.now();
+
+    const limits: { key: string; limit: number }[] = [];
+    if (ip) {
+      limits.push({ key: `${action}:ip:${ip}`, limit });
+    } else if (fallback) {
+      limits.push({ key: `${action}:fallback:${fallback.toLowerCase()}`, limit: limit * FALLBACK_LIMIT_MULTIPLIER });
+    }
+    if (target) {
+      limits.push({ key: `${action}:target:${target.toLowerCase()}`, limit });
+    }
+
+    const buckets = await Promise.all(
+      limits.map(async ({ key, limit }) => ({ ...(await hitBucket(config.store, key, windowMs, now)), limit }))
+    );
+    const exceeded = buckets.filter((bucket) => bucket.count > bucket.limit);
+
+    if (exceeded.length === 0) {
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    const retryAfterSeconds = Math.max(
+      ...exceeded.map((bucket) => Math.ceil((bucket.resetAt - now) / 1000))
+    );
+    logger.warn('Rate limit exceeded', { action, ip, target, retryAfterSeconds });
+
+    return { allowed: false, retryAfterSeconds: Math.max(retryAfterSeconds, 1) };
+  } catch (error) {
+    logger.error('Rate limit check failed', error);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+}
+
+/**
+ * Delete expired counters from the database store
+ */
+export async function pruneRateLimitBuckets(): Promise<number> {
+  const result = await prisma.rateLimitBucket.deleteMany({
+    where: { resetAt: { lte: new Date() } },
+  });
+  return result.count;
+}
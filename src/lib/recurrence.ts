@@ -0,0 +1,298 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+export type RecurrenceFrequency = 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * A subset of iCalendar RRULE:
+ *   FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10
+ *   FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20271231
+ * Monthly rules repeat on the nth weekday of the month (-1 = last).
+ */
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[]; // Weekly: days of the week. Monthly: a single weekday
+  setPos?: number; // Monthly only: 1-4, or -1 for the last one
+  count?: number; // Total occurrences, including skipped dates
+  until?: string; // Last possible date, yyyy-MM-dd in the event's timezone
+};
+
+/**
+ * Most occurrences generated for one series
+ */
+export const MAX_OCCURRENCES = 52;
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an RRULE string. Returns null for anything outside the supported subset.
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) {
+    return null;
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) {
+      parts[key.trim().toUpperCase()] = val.trim().toUpperCase();
+    }
+  }
+
+  if (parts.FREQ !== 'WEEKLY' && parts.FREQ !== 'MONTHLY') {
+    return null;
+  }
+
+  const rule: RecurrenceRule = {
+    freq: parts.FREQ,
+    interval: parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1,
+    byDay: [],
+  };
+
+  if (parts.BYDAY) {
+    for (const day of parts.BYDAY.split(',')) {
+      const match = day.match(/^(-?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+      if (!match) {
+        return null;
+      }
+      if (match[1]) {
+        rule.setPos = parseInt(match[1], 10);
+      }
+      rule.byDay.push(match[2] as Weekday);
+    }
+  }
+
+  if (parts.COUNT) {
+    rule.count = parseInt(parts.COUNT, 10);
+  }
+
+  if (parts.UNTIL) {
+    const match = parts.UNTIL.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) {
+      return null;
+    }
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to an RRULE string
+ */
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.freq === 'MONTHLY' && rule.setPos ? `${rule.setPos}${rule.byDay[0]}` : rule.byDay.join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Validate a rule - check intervals, weekdays and end conditions
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): { valid: boolean; error?: string } {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 12) {
+    return { valid: false, error: 'Repeat interval must be between 1 and 12' };
+  }
+
+  if (rule.byDay.some((day) => !WEEKDAYS.includes(day))) {
+    return { valid: false, error: 'Invalid day of the week' };
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    if (rule.byDay.length > 1) {
+      return { valid: false, error: 'Monthly events can only repeat on one day of the week' };
+    }
+    if (rule.setPos !== undefined && ![1, 2, 3, 4, -1].includes(rule.setPos)) {
+      return { valid: false, error: 'Monthly events must repeat on the first to fourth or last weekday' };
+    }
+  }
+
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 2 || rule.count > MAX_OCCURRENCES)) {
+    return { valid: false, error: `Number of occurrences must be between 2 and ${MAX_OCCURRENCES}` };
+  }
+
+  if (rule.until !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(rule.until)) {
+    return { valid: false, error: 'Invalid end date for the series' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Weekday code for a date in a timezone
+ */
+export function getWeekday(date: Date, timezone: string | null | undefined): Weekday {
+  // ISO day of week: 1 = Monday ... 7 = Sunday
+  const isoDay = parseInt(formatInTimeZone(date, timezone || 'UTC', 'i'), 10);
+  return WEEKDAYS[isoDay - 1];
+}
+
+/**
+ * Which weekday of the month a date falls on (1-4, or -1 when it's the last one)
+ */
+export function getMonthlySetPos(date: Date, timezone: string | null | undefined): number {
+  const [year, month, day] = formatInTimeZone(date, timezone || 'UTC', 'yyyy-M-d').split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day + 7 > daysInMonth) {
+    return -1;
+  }
+  return Math.ceil(day / 7);
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Tuesday, Thursday, 10 times"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  let description: string;
+
+  if (rule.freq === 'WEEKLY') {
+    const every = rule.interval === 1 ? 'Weekly' : `Every ${rule.interval} weeks`;
+    description = rule.byDay.length > 0
+      ? `${every} on ${rule.byDay.map((day) => WEEKDAY_NAMES[day]).join(', ')}`
+      : every;
+  } else {
+    const every = rule.interval === 1 ? 'Monthly' : `Every ${rule.interval} months`;
+    description = rule.setPos && rule.byDay.length > 0
+      ? `${every} on the ${ORDINALS[rule.setPos]} ${WEEKDAY_NAMES[rule.byDay[0]]}`
+      : every;
+  }
+
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += `, until ${rule.until}`;
+  }
+
+  return description;
+}
+
+// Calendar dates are handled as UTC midnights so DST never shifts them
+function toDayNumber(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().split('T')[0];
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: Weekday, setPos: number): number | null {
+  const weekdayIndex = WEEKDAYS.indexOf(weekday);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  if (setPos === -1) {
+    const last = toDayNumber(year, month, daysInMonth);
+    const lastIndex = (new Date(last * DAY_MS).getUTCDay() + 6) % 7;
+    return last - ((lastIndex - weekdayIndex + 7) % 7);
+  }
+
+  const first = toDayNumber(year, month, 1);
+  const firstIndex = (new Date(first * DAY_MS).getUTCDay() + 6) % 7;
+  const day = first + ((weekdayIndex - firstIndex + 7) % 7) + (setPos - 1) * 7;
+  return day < first + daysInMonth ? day : null;
+}
+
+/**
+ * Start times for every occurrence of a series, beginning with the first event.
+ * Occurrences keep the same wall-clock time in the event's timezone across DST changes.
+ * Exceptions are yyyy-MM-dd dates to skip; they still count towards COUNT.
+ */
+export function getOccurrenceDates(
+  start: Date,
+  timezone: string | null | undefined,
+  rule: RecurrenceRule,
+  exceptions: string[] = []
+): Date[] {
+  const tz = timezone || 'UTC';
+  const [startDate, startTime] = formatInTimeZone(start, tz, "yyyy-MM-dd'T'HH:mm:ss").split('T');
+  const [year, month, day] = startDate.split('-').map(Number);
+  const startDay = toDayNumber(year, month, day);
+  const untilDay = rule.until ? toDayNumber(...(rule.until.split('-').map(Number) as [number, number, number])) : null;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  // The first event always counts as an occurrence, as with DTSTART
+  const days: number[] = [startDay];
+  const addDay = (candidate: number) => {
+    if (candidate > startDay && days.length < limit && (untilDay === null || candidate <= untilDay)) {
+      days.push(candidate);
+    }
+  };
+
+  if (rule.freq === 'WEEKLY') {
+    const byDay = rule.byDay.length > 0 ? rule.byDay : [getWeekday(start, tz)];
+    const dayOffsets = byDay.map((weekday) => WEEKDAYS.indexOf(weekday)).sort((a, b) => a - b);
+    // Weeks start on Monday
+    const firstMonday = startDay - ((new Date(startDay * DAY_MS).getUTCDay() + 6) % 7);
+
+    for (let week = 0; days.length < limit; week += rule.interval) {
+      const monday = firstMonday + week * 7;
+      if (untilDay !== null && monday > untilDay) break;
+      if (week > MAX_OCCURRENCES * 12) break;
+      dayOffsets.forEach((offset) => addDay(monday + offset));
+    }
+  } else {
+    const weekday = rule.byDay[0] ?? getWeekday(start, tz);
+    const setPos = rule.setPos ?? getMonthlySetPos(start, tz);
+
+    for (let offset = 0; days.length < limit; offset += rule.interval) {
+      const monthIndex = month - 1 + offset;
+      const candidateYear = year + Math.floor(monthIndex / 12);
+      const candidateMonth = (monthIndex % 12) + 1;
+      if (untilDay !== null && toDayNumber(candidateYear, candidateMonth, 1) > untilDay) break;
+      if (offset > MAX_OCCURRENCES * 12) break;
+      const candidate = nthWeekdayOfMonth(candidateYear, candidateMonth, weekday, setPos);
+      if (candidate !== null) {
+        addDay(candidate);
+      }
+    }
+  }
+
+  return days
+    .map(fromDayNumber)
+    .filter((date, index) => index === 0 || !exceptions.includes(date))
+    .map((date) => fromZonedTime(`${date}T${startTime}`, tz));
+}
+
+/**
+ * Parse the JSON list of skipped dates stored on a series
+ */
+export function parseRecurrenceExceptions(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((date) => typeof date === 'string') : [];
+  } catch {
+    return [];
+  }
+}
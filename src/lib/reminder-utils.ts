@@ -1,6 +1,14 @@
 export type ReminderType = 'day' | 'hour';
 export type Reminder = { type: ReminderType; value: number };
 
+/**
+ * Schedule used when an event has no reminders of its own
+ */
+export const DEFAULT_REMINDERS: Reminder[] = [{ type: 'day', value: 2 }];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
 /**
  * Parse reminder schedule from JSON string, handling both old and new formats
  * Old format: [7, 3, 1] (array of numbers = days)
@@ -102,3 +110,66 @@ export function serializeReminderSchedule(reminders: Reminder[]): string | null
   return JSON.stringify(reminders);
 }
 
+/**
+ * Reminders that apply to an event: its own schedule, or the default
+ */
+export function getEffectiveReminders(schedule: string | null): Reminder[] {
+  const reminders = parseReminderSchedule(schedule);
+  return reminders.length > 0 ? reminders : DEFAULT_REMINDERS;
+}
+
+/**
+ * Key identifying a reminder within a schedule, e.g. "day:7" or "hour:2".
+ * Stored with each delivery so every reminder is sent once per guest.
+ */
+export function getReminderSlot(reminder: Reminder): string {
+  return `${reminder.type}:${reminder.value}`;
+}
+
+/**
+ * When a reminder is due
+ */
+export function getReminderSendTime(reminder: Reminder, eventDate: Date): Date {
+  const offset = reminder.value * (reminder.type === 'day' ? DAY_MS : HOUR_MS);
+  return new Date(new Date(eventDate).getTime() - offset);
+}
+
+/**
+ * The most recent reminder whose send time has passed, while the event is still upcoming.
+ * Earlier reminders that were missed are superseded by it rather than sent late.
+ */
+export function getDueReminder(reminders: Reminder[], eventDate: Date, now: Date): Reminder | null {
+  if (new Date(eventDate).getTime() <= now.getTime()) {
+    return null;
+  }
+
+  let due: Reminder | null = null;
+  let dueAt = -Infinity;
+  reminders.forEach((reminder) => {
+    const sendAt = getReminderSendTime(reminder, eventDate).getTime();
+    if (sendAt <= now.getTime() && sendAt > dueAt) {
+      due = reminder;
+      dueAt = sendAt;
+    }
+  });
+  return due;
+}
+
+/**
+ * The next reminder that will go out after now, or null if none are left
+ */
+export function getNextReminder(
+  reminders: Reminder[],
+  eventDate: Date,
+  now: Date
+): { reminder: Reminder; sendAt: Date } | null {
+  let next: { reminder: Reminder; sendAt: Date } | null = null;
+  reminders.forEach((reminder) => {
+    const sendAt = getReminderSendTime(reminder, eventDate);
+    if (sendAt.getTime() > now.getTime() && (!next || sendAt.getTime() < next.sendAt.getTime())) {
+      next = { reminder, sendAt };
+    }
+  });
+  return next;
+}
+
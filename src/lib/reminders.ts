@@ -0,0 +1,187 @@
+import { prisma } from './prisma';
+import { sendReminder } from './email';
+import { sendReminderSms, shouldSendSms } from './sms';
+import { logger } from './logger';
+import {
+  getDueReminder,
+  getEffectiveReminders,
+  getReminderSendTime,
+  getReminderSlot,
+} from './reminder-utils';
+
+export type ReminderChannel = 'email' | 'sms';
+
+export interface ReminderRunResult {
+  emailsSent: number;
+  smsSent: number;
+  errors: number;
+}
+
+interface DeliveryRecord {
+  slot: string | null;
+  channel: string;
+  sentAt: Date;
+}
+
+/**
+ * Whether a guest already has the reminder for this slot on a channel.
+ * Manual reminders sent after the slot opened count too, so guests aren't reminded twice.
+ */
+export function hasReceivedReminder(
+  deliveries: DeliveryRecord[],
+  slot: string,
+  sendAt: Date,
+  channel: ReminderChannel
+): boolean {
+  return deliveries.some(
+    (delivery) =>
+      delivery.channel === channel &&
+      (delivery.slot === slot || new Date(delivery.sentAt).getTime() >= sendAt.getTime())
+  );
+}
+
+/**
+ * Record a reminder before sending it. The unique (guest, slot, channel) key means
+ * two runs racing for the same reminder can't both send it.
+ */
+async function claimReminder(guestId: string, slot: string, channel: ReminderChannel): Promise<boolean> {
+  try {
+    await prisma.reminderDelivery.create({
+      data: { guestId, slot, channel },
+    });
+    return true;
+  } catch (error) {
+    if ((error as { code?: string })?.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function releaseReminder(guestId: string, slot: string, channel: ReminderChannel) {
+  await prisma.reminderDelivery.deleteMany({
+    where: { guestId, slot, channel },
+  });
+}
+
+/**
+ * Send every scheduled reminder that is due.
+ * Used by both the built-in scheduler and /api/cron/reminders.
+ */
+export async function sendDueReminders(now: Date = new Date()): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { emailsSent: 0, smsSent: 0, errors: 0 };
+
+  const upcomingEvents = await prisma.event.findMany({
+    where: {
+      date: { gt: now },
+    },
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      locationName: true,
+      streetAddress1: true,
+      streetAddress2: true,
+      city: true,
+      state: true,
+      zipCode: true,
+      coverImage: true,
+      replyTo: true,
+      reminderSchedule: true,
+      guests: {
+        where: {
+          status: 'PENDING',
+        },
+        include: {
+          reminderDeliveries: {
+            select: { slot: true, channel: true, sentAt: true },
+          },
+        },
+      },
+    },
+  });
+
+  for (const event of upcomingEvents) {
+    const reminder = getDueReminder(getEffectiveReminders(event.reminderSchedule), event.date, now);
+    if (!reminder) {
+      continue;
+    }
+
+    const slot = getReminderSlot(reminder);
+    const sendAt = getReminderSendTime(reminder, event.date);
+
+    for (const guest of event.guests) {
+      // Guests invited after this reminder opened will get the next one
+      if (guest.invitedAt && new Date(guest.invitedAt).getTime() > sendAt.getTime()) {
+        continue;
+      }
+
+      const deliveries = guest.reminderDeliveries || [];
+
+      if (
+        guest.notifyByEmail &&
+        !hasReceivedReminder(deliveries, slot, sendAt, 'email') &&
+        (await claimReminder(guest.id, slot, 'email'))
+      ) {
+        try {
+          await sendReminder({
+            to: guest.email,
+            guestName: guest.name,
+            event: {
+              id: event.id,
+              title: event.title,
+              date: event.date,
+              locationName: event.locationName,
+              streetAddress1: event.streetAddress1,
+              streetAddress2: event.streetAddress2,
+              city: event.city,
+              state: event.state,
+              zipCode: event.zipCode,
+              coverImage: event.coverImage,
+            },
+            rsvpToken: guest.token,
+            replyTo: event.replyTo,
+            guestId: guest.id,
+            queue: true,
+          });
+          result.emailsSent++;
+        } catch (error) {
+          logger.error('Failed to send email reminder', error, { email: guest.email, slot });
+          await releaseReminder(guest.id, slot, 'email');
+          result.errors++;
+        }
+      }
+
+      if (
+        shouldSendSms(guest) &&
+        !hasReceivedReminder(deliveries, slot, sendAt, 'sms') &&
+        (await claimReminder(guest.id, slot, 'sms'))
+      ) {
+        try {
+          await sendReminderSms({
+            to: guest.phone!,
+            guestName: guest.name,
+            event,
+            rsvpToken: guest.token,
+          });
+          result.smsSent++;
+        } catch (error) {
+          logger.error('Failed to send SMS reminder', error, { phone: guest.phone, slot });
+          await releaseReminder(guest.id, slot, 'sms');
+          result.errors++;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record a reminder a host sent by hand
+ */
+export async function recordManualReminder(guestId: string, channel: ReminderChannel) {
+  await prisma.reminderDelivery.create({
+    data: { guestId, slot: null, channel },
+  });
+}
@@ -0,0 +1,160 @@
+import { prisma } from './prisma';
+import { sendRsvpApproved, sendRsvpDenied } from './email';
+import { sendConfirmationSms, shouldSendSms } from './sms';
+import { resolveAttendingStatus } from './waitlist';
+import { logger } from './logger';
+import { dispatchWebhookEvent, toWebhookGuest } from './webhooks';
+
+export const PENDING_APPROVAL = 'PENDING_APPROVAL';
+
+/**
+ * Whether a public RSVP has to wait for a host: the event requires approval and the
+ * person isn't on the guest list yet (or is still waiting on an earlier request).
+ */
+export function needsApproval(
+  event: { requireApproval: boolean },
+  existingGuest?: { status: string } | null
+): boolean {
+  return event.requireApproval && (!existingGuest || existingGuest.status === PENDING_APPROVAL);
+}
+
+async function getPendingGuest(eventId: string, guestId: string) {
+  const guest = await prisma.guest.findUnique({
+    where: { id: guestId },
+    include: {
+      _count: { select: { additionalGuests: true } },
+      event: {
+        select: {
+          id: true,
+          title: true,
+          date: true,
+          capacity: true,
+          locationName: true,
+          streetAddress1: true,
+          streetAddress2: true,
+          city: true,
+          state: true,
+          zipCode: true,
+          replyTo: true,
+        },
+      },
+    },
+  });
+
+  if (!guest || guest.eventId !== eventId || guest.status !== PENDING_APPROVAL) {
+    return null;
+  }
+  return guest;
+}
+
+/**
+ * Let a waiting guest in with the response they gave. Attending parties still go
+ * through the capacity check, so they may land on the waitlist.
+ * The guest gets their confirmation (and RSVP link) now, with the host's note if any.
+ * Returns the guest's new status, or null if there was no request to approve.
+ */
+export async function approveGuest(
+  eventId: string,
+  guestId: string,
+  message?: string | null
+): Promise<string | null> {
+  const guest = await getPendingGuest(eventId, guestId);
+  if (!guest) {
+    return null;
+  }
+
+  let status = guest.requestedStatus || 'ATTENDING';
+  if (status === 'ATTENDING') {
+    status = (await resolveAttendingStatus(guest.event, 1 + guest._count.additionalGuests)).status;
+  }
+
+  // Only approve requests that are still waiting, in case another host got there first
+  const claimed = await prisma.guest.updateMany({
+    where: { id: guest.id, status: PENDING_APPROVAL },
+    data: {
+      status,
+      requestedStatus: null,
+      waitlistedAt: status === 'WAITLISTED' ? new Date() : null,
+    },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  logger.info('Approved RSVP', { eventId, guestId: guest.id, status });
+
+  await dispatchWebhookEvent('rsvp.updated', eventId, {
+    guest: toWebhookGuest({ ...guest, status }),
+    previousStatus: PENDING_APPROVAL,
+  });
+
+  if (guest.notifyByEmail) {
+    await sendRsvpApproved({
+      to: guest.email,
+      guestName: guest.name,
+      event: guest.event,
+      status,
+      rsvpToken: guest.token,
+      message,
+      replyTo: guest.event.replyTo,
+      guestId: guest.id,
+      queue: true,
+    }).catch((error) => {
+      logger.error('Failed to send RSVP approval email', error, { guestId: guest.id });
+    });
+  }
+
+  if (shouldSendSms(guest)) {
+    await sendConfirmationSms({
+      to: guest.phone!,
+      guestName: guest.name,
+      event: guest.event,
+      status,
+      rsvpToken: guest.token,
+    }).catch((error) => {
+      logger.error('Failed to send RSVP approval SMS', error, { guestId: guest.id });
+    });
+  }
+
+  return status;
+}
+
+/**
+ * Turn down a waiting guest. Their RSVP is removed, so they never get an RSVP link,
+ * and they're emailed the host's note if any.
+ * Returns false if there was no request to deny.
+ */
+export async function denyGuest(
+  eventId: string,
+  guestId: string,
+  message?: string | null
+): Promise<boolean> {
+  const guest = await getPendingGuest(eventId, guestId);
+  if (!guest) {
+    return false;
+  }
+
+  const removed = await prisma.guest.deleteMany({
+    where: { id: guest.id, status: PENDING_APPROVAL },
+  });
+  if (removed.count === 0) {
+    return false;
+  }
+
+  logger.info('Denied RSVP', { eventId, guestId: guest.id });
+
+  if (guest.notifyByEmail) {
+    await sendRsvpDenied({
+      to: guest.email,
+      guestName: guest.name,
+      event: guest.event,
+      message,
+      replyTo: guest.event.replyTo,
+      queue: true,
+    }).catch((error) => {
+      logger.error('Failed to send RSVP denial email', error, { guestId: guest.id });
+    });
+  }
+
+  return true;
+}
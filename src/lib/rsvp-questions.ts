@@ -0,0 +1,262 @@
+export type RsvpQuestionType = 'text' | 'single_choice' | 'multi_choice' | 'number' | 'yes_no';
+
+// "party" questions are answered once per RSVP, "attendee" questions once per person in it
+export type RsvpQuestionScope = 'party' | 'attendee';
+
+export interface RsvpQuestion {
+  id: string;
+  label: string;
+  type: RsvpQuestionType;
+  options?: string[];
+  required: boolean;
+  scope: RsvpQuestionScope;
+}
+
+export type RsvpAnswerValue = string | number | boolean | string[];
+export type RsvpAnswers = Record<string, RsvpAnswerValue>;
+
+export const RSVP_QUESTION_TYPES: Record<RsvpQuestionType, string> = {
+  text: 'Text',
+  single_choice: 'Single choice',
+  multi_choice: 'Multiple choice',
+  number: 'Number',
+  yes_no: 'Yes / No',
+};
+
+export const MAX_RSVP_QUESTIONS = 20;
+const MAX_ANSWER_LENGTH = 1000;
+
+export function isChoiceQuestion(question: Pick<RsvpQuestion, 'type'>): boolean {
+  return question.type === 'single_choice' || question.type === 'multi_choice';
+}
+
+/**
+ * Random id for a new question, stable across edits so stored answers stay attached
+ */
+export function createQuestionId(): string {
+  return `q_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Parse an event's questions from their JSON string
+ */
+export function parseRsvpQuestions(value: string | null | undefined): RsvpQuestion[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter(
+      (q) => q && typeof q.id === 'string' && typeof q.label === 'string' && q.type in RSVP_QUESTION_TYPES
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serialize questions to a JSON string for storage
+ */
+export function serializeRsvpQuestions(questions: RsvpQuestion[]): string | null {
+  if (questions.length === 0) {
+    return null;
+  }
+  return JSON.stringify(
+    questions.map((q) => ({
+      id: q.id,
+      label: q.label.trim(),
+      type: q.type,
+      ...(isChoiceQuestion(q) && { options: (q.options || []).map((o) => o.trim()) }),
+      required: q.required,
+      scope: q.scope,
+    }))
+  );
+}
+
+/**
+ * Validate a question list - labels, choice options and duplicate ids
+ */
+export function validateRsvpQuestions(questions: RsvpQuestion[]): { valid: boolean; error?: string } {
+  if (questions.length > MAX_RSVP_QUESTIONS) {
+    return { valid: false, error: `You can ask at most ${MAX_RSVP_QUESTIONS} questions` };
+  }
+
+  const ids = new Set<string>();
+  for (const question of questions) {
+    if (ids.has(question.id)) {
+      return { valid: false, error: 'Duplicate question id' };
+    }
+    ids.add(question.id);
+
+    if (!question.label.trim()) {
+      return { valid: false, error: 'Every question needs a label' };
+    }
+
+    if (isChoiceQuestion(question)) {
+      const options = (question.options || []).map((o) => o.trim());
+      if (options.length < 2) {
+        return { valid: false, error: `"${question.label}" needs at least two options` };
+      }
+      if (options.some((o) => !o)) {
+        return { valid: false, error: `"${question.label}" has an empty option` };
+      }
+      if (new Set(options).size !== options.length) {
+        return { valid: false, error: `"${question.label}" has duplicate options` };
+      }
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Parse stored answers from their JSON string
+ */
+export function parseRsvpAnswers(value: string | null | undefined): RsvpAnswers {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function serializeRsvpAnswers(answers: RsvpAnswers): string | null {
+  return Object.keys(answers).length > 0 ? JSON.stringify(answers) : null;
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Check one answer against its question, returning the cleaned value or an error
+ */
+function cleanAnswer(question: RsvpQuestion, value: unknown): { value?: RsvpAnswerValue; error?: string } {
+  switch (question.type) {
+    case 'text':
+      if (typeof value !== 'string') return { error: `"${question.label}" must be text` };
+      if (value.length > MAX_ANSWER_LENGTH) return { error: `"${question.label}" is too long` };
+      return { value: value.trim() };
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return { error: `"${question.label}" must be a number` };
+      }
+      return { value: number };
+    }
+    case 'yes_no':
+      if (typeof value !== 'boolean') return { error: `"${question.label}" must be yes or no` };
+      return { value };
+    case 'single_choice':
+      if (typeof value !== 'string' || !(question.options || []).includes(value)) {
+        return { error: `Please choose a valid option for "${question.label}"` };
+      }
+      return { value };
+    case 'multi_choice':
+      if (!Array.isArray(value) || value.some((v) => !(question.options || []).includes(v))) {
+        return { error: `Please choose valid options for "${question.label}"` };
+      }
+      return { value: Array.from(new Set(value as string[])) };
+  }
+}
+
+/**
+ * Validate one person's (or the party's) answers to the questions in a scope.
+ * Unknown and blank answers are dropped; required questions must be answered.
+ */
+export function validateRsvpAnswers(
+  questions: RsvpQuestion[],
+  answers: Record<string, unknown> | undefined,
+  scope: RsvpQuestionScope,
+  attendeeName?: string
+): { valid: boolean; error?: string; answers: RsvpAnswers } {
+  const cleaned: RsvpAnswers = {};
+  const suffix = attendeeName ? ` for ${attendeeName}` : '';
+
+  for (const question of questions.filter((q) => q.scope === scope)) {
+    const value = answers?.[question.id];
+
+    if (isBlank(value)) {
+      if (question.required) {
+        return { valid: false, error: `Please answer "${question.label}"${suffix}`, answers: {} };
+      }
+      continue;
+    }
+
+    const result = cleanAnswer(question, value);
+    if (result.error !== undefined || result.value === undefined) {
+      return { valid: false, error: `${result.error}${suffix}`, answers: {} };
+    }
+    if (!isBlank(result.value)) {
+      cleaned[question.id] = result.value;
+    }
+  }
+
+  return { valid: true, answers: cleaned };
+}
+
+/**
+ * Validate a whole RSVP: party answers plus per-attendee answers for the invitee
+ * and each additional guest. Returns what to store on the Guest and each AdditionalGuest.
+ */
+export function validateRsvpSubmission(
+  questions: RsvpQuestion[],
+  submission: {
+    name: string;
+    answers?: Record<string, unknown>;
+    additionalGuests: Array<{ name: string; answers?: Record<string, unknown> }>;
+  }
+): { valid: boolean; error?: string; guestAnswers: RsvpAnswers; additionalGuestAnswers: RsvpAnswers[] } {
+  const invalid = (error?: string) => ({ valid: false, error, guestAnswers: {}, additionalGuestAnswers: [] });
+
+  const party = validateRsvpAnswers(questions, submission.answers, 'party');
+  if (!party.valid) return invalid(party.error);
+
+  // Only name the invitee in errors when there are other people in the party
+  const inviteeName = submission.additionalGuests.length > 0 ? submission.name : undefined;
+  const invitee = validateRsvpAnswers(questions, submission.answers, 'attendee', inviteeName);
+  if (!invitee.valid) return invalid(invitee.error);
+
+  const additionalGuestAnswers: RsvpAnswers[] = [];
+  for (const additionalGuest of submission.additionalGuests) {
+    const result = validateRsvpAnswers(questions, additionalGuest.answers, 'attendee', additionalGuest.name);
+    if (!result.valid) return invalid(result.error);
+    additionalGuestAnswers.push(result.answers);
+  }
+
+  return {
+    valid: true,
+    guestAnswers: { ...party.answers, ...invitee.answers },
+    additionalGuestAnswers,
+  };
+}
+
+/**
+ * Format an answer for display and CSV export
+ */
+export function formatRsvpAnswer(value: RsvpAnswerValue | undefined): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return String(value);
+}
@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { sendRsvpEditLink } from './email';
+import { PENDING_APPROVAL } from './rsvp-approval';
+import { logger } from './logger';
+
+export const VERIFICATION_CODE_TTL_MINUTES = 15;
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+// A new code isn't emailed until the last one has had this long to arrive
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+interface VerifiableGuest {
+  id: string;
+  email: string;
+  name: string | null;
+  token: string;
+  status: string;
+  verificationCode: string | null;
+  verificationExpiresAt: Date | null;
+  verificationAttempts: number;
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Email a one-time code to a guest already on the list, so whoever is changing their RSVP
+ * from the public form can prove they own the address. The email also carries the guest's
+ * RSVP link (the same one send-edit-link sends), unless they're still awaiting approval.
+ *
+ * Asking again while a code is still valid replaces it but keeps its wrong guesses, so
+ * the attempt limit only starts over once no code has been sent for a whole TTL. Asking
+ * again within the cooldown sends nothing.
+ */
+export async function issueVerificationCode(
+  guest: VerifiableGuest,
+  event: Parameters<typeof sendRsvpEditLink>[0]['event']
+): Promise<void> {
+  const now = Date.now();
+  const ttlMs = VERIFICATION_CODE_TTL_MINUTES * 60 * 1000;
+  const hasValidCode = !!guest.verificationCode && !!guest.verificationExpiresAt && guest.verificationExpiresAt.getTime() > now;
+
+  if (hasValidCode && guest.verificationExpiresAt!.getTime() - ttlMs > now - VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000) {
+    logger.info('RSVP verification code sent recently, not sending another', { guestId: guest.id });
+    return;
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+  await prisma.guest.update({
+    where: { id: guest.id },
+    data: {
+      verificationCode: hashCode(code),
+      verificationExpiresAt: new Date(now + ttlMs),
+      ...(!hasValidCode && { verificationAttempts: 0 }),
+    },
+  });
+
+  await sendRsvpEditLink({
+    to: guest.email,
+    guestName: guest.name,
+    event,
+    rsvpToken: guest.status === PENDING_APPROVAL ? null : guest.token,
+    verification: { code, expiresInMinutes: VERIFICATION_CODE_TTL_MINUTES },
+  });
+
+  logger.info('Sent RSVP verification code', { guestId: guest.id });
+}
+
+/**
+ * Check a code from the public RSVP form. Every check uses up one of the code's
+ * MAX_VERIFICATION_ATTEMPTS before comparing, in a single conditional update, so
+ * parallel guesses can't all get in under the limit. A correct code stays valid
+ * until the RSVP is saved, so the guest can fix validation errors and resubmit.
+ */
+export async function checkVerificationCode(guest: VerifiableGuest, code: string): Promise<boolean> {
+  if (!guest.verificationCode || !guest.verificationExpiresAt || guest.verificationExpiresAt < new Date()) {
+    return false;
+  }
+
+  const attempt = await prisma.guest.updateMany({
+    where: { id: guest.id, verificationAttempts: { lt: MAX_VERIFICATION_ATTEMPTS } },
+    data: { verificationAttempts: { increment: 1 } },
+  });
+  if (attempt.count === 0) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(
+    Buffer.from(hashCode(code.trim())),
+    Buffer.from(guest.verificationCode)
+  );
+}
@@ -1,64 +1,17 @@
 import cron from 'node-cron';
-import { prisma } from './prisma';
-import { sendReminder } from './email';
+import { sendDueReminders } from './reminders';
+import { processEmailQueue } from './email-queue';
+import { processWebhookQueue } from './webhooks';
+import { pruneRateLimitBuckets } from './rate-limit';
+import { pruneOrphanedMedia } from './media';
 import { logger } from './logger';
 
-// Send reminders for events happening in the next 2 days
-// to guests who haven't responded yet
+// Send any scheduled reminders that have come due
 async function sendEventReminders() {
-  const now = new Date();
-  const twoDaysFromNow = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000);
-
   try {
-    // Find upcoming events within 2 days
-    const upcomingEvents = await prisma.event.findMany({
-      where: {
-        date: {
-          gte: now,
-          lte: twoDaysFromNow,
-        },
-      },
-      include: {
-        guests: {
-          where: {
-            status: 'PENDING',
-            reminderSentAt: null,
-          },
-        },
-      },
-    });
-
-    for (const event of upcomingEvents) {
-      for (const guest of event.guests) {
-        try {
-          await sendReminder({
-            to: guest.email,
-            guestName: guest.name,
-            event: {
-              title: event.title,
-              date: event.date,
-              locationName: event.locationName,
-              streetAddress1: event.streetAddress1,
-              streetAddress2: event.streetAddress2,
-              city: event.city,
-              state: event.state,
-              zipCode: event.zipCode,
-            },
-            rsvpToken: guest.token,
-            replyTo: event.replyTo,
-          });
-
-          // Update reminder sent timestamp
-          await prisma.guest.update({
-            where: { id: guest.id },
-            data: { reminderSentAt: new Date() },
-          });
-
-          logger.info('Sent reminder', { email: guest.email, event: event.title });
-        } catch (error) {
-          logger.error('Failed to send reminder', error, { email: guest.email });
-        }
-      }
+    const result = await sendDueReminders();
+    if (result.emailsSent || result.smsSent || result.errors) {
+      logger.info('Sent scheduled reminders', { ...result });
     }
   } catch (error) {
     logger.error('Error in sendEventReminders', error);
@@ -67,15 +20,58 @@ async function sendEventReminders() {
 
 // Initialize scheduler
 export function initScheduler() {
-  // Run every day at 9 AM
-  cron.schedule('0 9 * * *', () => {
-    logger.info('Running scheduled reminder job');
+  // Check every 15 minutes so hour-based reminders go out on time
+  cron.schedule('*/15 * * * *', () => {
     sendEventReminders();
   });
 
-  logger.info('Scheduler initialized - reminders will be sent daily at 9 AM');
+  // Drain the email outbox every minute (retries and rate-limited messages)
+  cron.schedule('* * * * *', async () => {
+    try {
+      const result = await processEmailQueue();
+      if (result.sent || result.retrying || result.failed) {
+        logger.info('Processed email queue', { ...result });
+      }
+    } catch (error) {
+      logger.error('Error processing email queue', error);
+    }
+  });
+
+  // Retry webhook deliveries that are due
+  cron.schedule('* * * * *', async () => {
+    try {
+      const result = await processWebhookQueue();
+      if (result.sent || result.retrying || result.failed) {
+        logger.info('Processed webhook queue', { ...result });
+      }
+    } catch (error) {
+      logger.error('Error processing webhook queue', error);
+    }
+  });
+
+  // Clear out expired rate limit counters hourly
+  cron.schedule('0 * * * *', async () => {
+    try {
+      await pruneRateLimitBuckets();
+    } catch (error) {
+      logger.error('Error pruning rate limit counters', error);
+    }
+  });
+
+  // Delete uploaded images that never ended up on an event, once a day
+  cron.schedule('30 3 * * *', async () => {
+    try {
+      const deleted = await pruneOrphanedMedia();
+      if (deleted) {
+        logger.info('Deleted unused uploaded images', { deleted });
+      }
+    } catch (error) {
+      logger.error('Error pruning unused images', error);
+    }
+  });
+
+  logger.info('Scheduler initialized - reminders checked every 15 minutes, queued emails and webhooks every minute');
 }
 
 // Export for manual triggering
 export { sendEventReminders };
-
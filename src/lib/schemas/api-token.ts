@@ -0,0 +1,15 @@
+/**
+ * API token validation schemas
+ */
+
+import { z } from 'zod';
+import { API_TOKEN_SCOPES } from '../api-token-scopes';
+
+/**
+ * New API token. Without an expiry it works until it is revoked.
+ */
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Choose at least one scope'),
+  expiresInDays: z.number().int().min(1).max(365).optional().nullable(),
+});
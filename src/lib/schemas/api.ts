@@ -0,0 +1,149 @@
+/**
+ * /api/v1 query and response schemas. Responses are never parsed at runtime; they
+ * describe what the routes send, for the OpenAPI document and typed API calls.
+ */
+
+import { z } from 'zod';
+import { paginationSchema } from './common';
+
+const timestampSchema = z.string().datetime();
+
+/**
+ * Guest statuses the guest list can be filtered by
+ */
+export const apiGuestStatusSchema = z.enum([
+  'PENDING',
+  'ATTENDING',
+  'NOT_ATTENDING',
+  'MAYBE',
+  'WAITLISTED',
+  'PENDING_APPROVAL',
+]);
+
+/**
+ * Guest list query
+ */
+export const apiGuestListQuerySchema = paginationSchema.extend({
+  status: apiGuestStatusSchema.optional(),
+});
+
+/**
+ * Page details of a list
+ */
+export const apiPaginationSchema = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+});
+
+/**
+ * An event's details
+ */
+export const apiEventSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  date: timestampSchema,
+  endDate: timestampSchema.nullable(),
+  timezone: z.string(),
+  rsvpDeadline: timestampSchema.nullable(),
+  locationName: z.string().nullable(),
+  streetAddress1: z.string().nullable(),
+  streetAddress2: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  zipCode: z.string().nullable(),
+  capacity: z.number().int().nullable(),
+  maxGuestsPerInvitee: z.number().int().nullable(),
+  isPublic: z.boolean(),
+  requireApproval: z.boolean(),
+});
+
+/**
+ * A guest and their RSVP
+ */
+export const apiGuestSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string().email(),
+  phone: z.string().nullable(),
+  status: apiGuestStatusSchema,
+  dietaryNotes: z.string().nullable(),
+  additionalGuests: z.array(z.string()).optional(),
+  respondedVia: z.string().nullable(),
+  respondedAt: timestampSchema.nullable(),
+  checkedInAt: timestampSchema.nullable(),
+});
+
+/**
+ * Answers to the event's RSVP questions, by question ID
+ */
+export const apiRsvpAnswersSchema = z.record(
+  z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])
+);
+
+export const apiGuestWithAnswersSchema = apiGuestSchema.extend({
+  answers: apiRsvpAnswersSchema,
+});
+
+/**
+ * Someone who runs an event
+ */
+export const apiEventHostSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string().email(),
+});
+
+export const apiEventListSchema = z.object({
+  events: z.array(apiEventSchema.extend({ role: z.enum(['HOST', 'COHOST', 'VIEWER']) })),
+  pagination: apiPaginationSchema,
+});
+
+export const apiEventResponseSchema = z.object({
+  event: apiEventSchema,
+});
+
+export const apiGuestListSchema = z.object({
+  guests: z.array(apiGuestSchema),
+  pagination: apiPaginationSchema,
+});
+
+export const apiGuestResponseSchema = z.object({
+  guest: apiGuestSchema,
+});
+
+export const apiGuestDetailResponseSchema = z.object({
+  guest: apiGuestWithAnswersSchema,
+});
+
+export const apiRsvpSummarySchema = z.object({
+  counts: z.record(apiGuestStatusSchema, z.number().int()),
+  headcount: z.number().int(),
+  responses: z.array(apiGuestWithAnswersSchema),
+});
+
+export const apiCoHostListSchema = z.object({
+  host: apiEventHostSchema,
+  coHosts: z.array(apiEventHostSchema.extend({
+    role: z.enum(['COHOST', 'VIEWER']),
+    addedAt: timestampSchema,
+  })),
+});
+
+export const apiBroadcastResultSchema = z.object({
+  sentTo: z.number().int(),
+  emailsSent: z.number().int(),
+  smsSent: z.number().int(),
+  errors: z.array(z.string()),
+});
+
+/**
+ * Body of every error response
+ */
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(),
+  details: z.unknown().optional(),
+});
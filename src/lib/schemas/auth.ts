@@ -4,6 +4,7 @@
 
 import { z } from 'zod';
 import { emailSchema, nonEmptyString } from './common';
+import { isValidEmail } from '../utils';
 
 /**
  * Login credentials
@@ -26,23 +27,58 @@ export const registerSchema = z.object({
   path: ['confirmPassword'],
 });
 
+/**
+ * First admin account, registered before any user exists
+ */
+export const publicRegisterSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  username: z
+    .string()
+    .min(1, 'Username is required')
+    .regex(
+      /^[a-zA-Z0-9_]+$/,
+      'Username can only contain letters, numbers, and underscores'
+    ),
+  email: z
+    .string()
+    .min(1, 'Email is required')
+    .refine((val) => isValidEmail(val), {
+      message: 'Invalid email address format',
+    }),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+/**
+ * Finishing an account an admin invited
+ */
+export const acceptInvitationSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  username: z.string().min(1, 'Username is required').regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
 /**
  * Password reset request
  */
 export const forgotPasswordSchema = z.object({
-  email: emailSchema,
+  email: z.string().email('Invalid email address'),
+  // Solved proof-of-work spam check, when spam protection is on
+  challenge: z.string().optional(),
 });
 
 /**
  * Password reset with token
  */
 export const resetPasswordSchema = z.object({
-  token: nonEmptyString,
-  password: z.string().min(8, 'Password must be at least 8 characters'),
-  confirmPassword: z.string(),
-}).refine(data => data.password === data.confirmPassword, {
-  message: 'Passwords do not match',
-  path: ['confirmPassword'],
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+/**
+ * Password reset link check
+ */
+export const resetPasswordQuerySchema = z.object({
+  token: z.string(),
 });
 
 /**
@@ -60,34 +96,59 @@ export const changePasswordSchema = z.object({
 /**
  * User role enum
  */
-export const userRoleSchema = z.enum(['user', 'admin']);
+export const userRoleSchema = z.enum(['ADMIN', 'USER']);
 
 /**
- * Update user profile
+ * Update own profile
  */
 export const updateProfileSchema = z.object({
-  name: nonEmptyString.optional(),
-  email: emailSchema.optional(),
-  username: z.string().min(3, 'Username must be at least 3 characters').optional(),
-  image: z.string().url('Invalid image URL').optional().nullable(),
+  name: z.string().optional().transform((val) => val === '' ? undefined : val),
+  username: z.string().min(1, 'Username is required').regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores').optional(),
+  email: z.string().min(1, 'Email is required').refine((val) => isValidEmail(val), {
+    message: 'Invalid email address format',
+  }).optional(),
+  theme: z.enum(['light', 'dark', 'system']).optional(),
+  notifyOnRsvpChanges: z.boolean().optional(),
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters').optional(),
+}).refine((data) => {
+  // If one password field is provided, both must be provided
+  if (data.currentPassword || data.newPassword) {
+    return data.currentPassword && data.newPassword;
+  }
+  return true;
+}, {
+  message: 'Both current password and new password are required',
 });
 
 /**
- * Create user (admin)
+ * Create user (admin). Without a password the user gets an invitation to set one.
  */
 export const createUserSchema = z.object({
-  name: nonEmptyString,
-  email: emailSchema,
-  password: z.string().min(8, 'Password must be at least 8 characters'),
-  role: userRoleSchema.default('user'),
+  name: z.string().optional(),
+  email: z.string().min(1, 'Email is required').refine((val) => isValidEmail(val), {
+    message: 'Invalid email address format',
+  }),
+  password: z.string().min(6, 'Password must be at least 6 characters').optional(),
+  role: userRoleSchema.optional().default('USER'),
+  sendInvitation: z.boolean().optional().default(false),
+}).refine((data) => {
+  // If not sending invitation, password is required
+  if (!data.sendInvitation && !data.password) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Password is required when not sending invitation',
+  path: ['password'],
 });
 
 /**
  * Update user (admin)
  */
 export const updateUserSchema = z.object({
-  name: nonEmptyString.optional(),
-  email: emailSchema.optional(),
+  name: z.string().min(1).optional(),
+  email: z.string().email().optional(),
   role: userRoleSchema.optional(),
-  password: z.string().min(8, 'Password must be at least 8 characters').optional(),
+  password: z.string().min(6).optional(),
 });
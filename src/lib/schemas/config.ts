@@ -3,95 +3,96 @@
  */
 
 import { z } from 'zod';
-import { emailSchema, nonEmptyString } from './common';
 
 /**
- * Email/SMTP configuration
+ * Public address of the app, used in links sent to guests
  */
-export const emailConfigSchema = z.object({
-  host: nonEmptyString,
-  port: z.string().regex(/^\d+$/, 'Port must be a number'),
-  user: nonEmptyString,
-  password: nonEmptyString,
-  from: emailSchema.optional(),
+export const appUrlConfigSchema = z.object({
+  appUrl: z.string()
+    .min(1, 'App URL is required')
+    .refine((url) => {
+      try {
+        new URL(url);
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Must be a valid URL (e.g., https://rsvp.example.com)'),
 });
 
 /**
- * SMS provider type
- */
-export const smsProviderSchema = z.enum(['twilio', 'aws-sns', 'vonage', 'messagebird', 'generic']);
-
-/**
- * Twilio configuration
+ * Email/SMTP configuration
  */
-export const twilioConfigSchema = z.object({
-  provider: z.literal('twilio'),
-  accountSid: nonEmptyString,
-  authToken: nonEmptyString,
-  phoneNumber: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Invalid phone number format'),
+export const emailConfigSchema = z.object({
+  host: z.string().min(1, 'SMTP host is required'),
+  port: z.string().min(1, 'SMTP port is required'),
+  user: z.string().min(1, 'SMTP username is required'),
+  password: z.string().min(1, 'SMTP password is required'),
+  from: z.string().optional(),
+  rateLimit: z.string().regex(/^\d*$/, 'Rate limit must be a whole number').optional(),
 });
 
 /**
- * AWS SNS configuration
+ * Test email request
  */
-export const awsSnsConfigSchema = z.object({
-  provider: z.literal('aws-sns'),
-  accessKeyId: nonEmptyString,
-  secretAccessKey: nonEmptyString,
-  region: nonEmptyString,
-  phoneNumber: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Invalid phone number format').optional(),
+export const testEmailSchema = z.object({
+  testEmail: z
+    .string({ required_error: 'testEmail is required', invalid_type_error: 'testEmail is required' })
+    .min(1, 'testEmail is required')
+    .regex(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid email format'),
 });
 
 /**
- * Vonage configuration
+ * SMS configuration, by provider
  */
-export const vonageConfigSchema = z.object({
-  provider: z.literal('vonage'),
-  apiKey: nonEmptyString,
-  apiSecret: nonEmptyString,
-  from: nonEmptyString,
-});
+export const smsConfigSchema = z.discriminatedUnion('provider', [
+  z.object({
+    provider: z.literal('twilio'),
+    accountSid: z.string().min(1, 'Account SID is required'),
+    authToken: z.string().min(1, 'Auth token is required'),
+    phoneNumber: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Sender number must be in E.164 format (e.g., +15551234567)'),
+    apiUrl: z.string().url('API URL must be a valid URL').optional().or(z.literal('')),
+  }),
+  z.object({
+    provider: z.literal('log'),
+    logFile: z.string().optional(),
+  }),
+]);
 
 /**
- * MessageBird configuration
+ * Test SMS request
  */
-export const messageBirdConfigSchema = z.object({
-  provider: z.literal('messagebird'),
-  apiKey: nonEmptyString,
-  originator: nonEmptyString,
+export const testSmsSchema = z.object({
+  testPhone: z.string().min(1, 'testPhone is required'),
 });
 
 /**
- * Generic webhook configuration
+ * One rate limit: requests allowed per window
  */
-export const genericSmsConfigSchema = z.object({
-  provider: z.literal('generic'),
-  webhookUrl: z.string().url('Invalid webhook URL'),
-  apiKey: nonEmptyString.optional(),
-  customHeaders: z.record(z.string()).optional(),
+export const rateLimitRuleSchema = z.object({
+  limit: z.number().int().min(1, 'Limits must be at least 1').max(10000, 'Limits must be 10,000 or less'),
+  windowMinutes: z.number().int().min(1, 'Windows must be at least 1 minute').max(1440, 'Windows must be 24 hours or less'),
 });
 
 /**
- * Combined SMS configuration (discriminated union)
+ * Rate limiting configuration
  */
-export const smsConfigSchema = z.discriminatedUnion('provider', [
-  twilioConfigSchema,
-  awsSnsConfigSchema,
-  vonageConfigSchema,
-  messageBirdConfigSchema,
-  genericSmsConfigSchema,
-]);
-
-/**
- * Test email request
- */
-export const testEmailSchema = z.object({
-  to: emailSchema,
+export const rateLimitConfigSchema = z.object({
+  enabled: z.boolean(),
+  store: z.enum(['memory', 'database']),
+  rules: z.object({
+    rsvp: rateLimitRuleSchema,
+    comment: rateLimitRuleSchema,
+    editLink: rateLimitRuleSchema,
+    passwordReset: rateLimitRuleSchema,
+    login: rateLimitRuleSchema,
+  }),
 });
 
 /**
- * Test SMS request
+ * Spam protection (proof-of-work check on public forms) configuration
  */
-export const testSmsSchema = z.object({
-  to: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Invalid phone number format'),
+export const spamProtectionConfigSchema = z.object({
+  enabled: z.boolean(),
+  difficulty: z.enum(['low', 'medium', 'high']),
 });
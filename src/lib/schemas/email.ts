@@ -0,0 +1,33 @@
+/**
+ * Email template and delivery log validation schemas
+ */
+
+import { z } from 'zod';
+
+/**
+ * A saved email template, global or one event's override
+ */
+export const emailTemplateSchema = z.object({
+  subject: z.string().trim().min(1, 'Subject is required').max(200, 'Subject is too long'),
+  heading: z.string().trim().max(200, 'Heading is too long').optional().default(''),
+  body: z.string().trim().min(1, 'Body is required').max(50000, 'Body is too long'),
+});
+
+/**
+ * Delivery states of a queued email
+ */
+export const outboundEmailStatusSchema = z.enum(['PENDING', 'SENDING', 'SENT', 'FAILED']);
+
+/**
+ * Delivery log query; unknown statuses list every email
+ */
+export const outboxQuerySchema = z.object({
+  status: outboundEmailStatusSchema.optional(),
+});
+
+/**
+ * Inbound email query, for mail services that can't send an Authorization header
+ */
+export const inboundEmailQuerySchema = z.object({
+  secret: z.string().optional(),
+});
@@ -3,71 +3,227 @@
  */
 
 import { z } from 'zod';
-import { nonEmptyString, optionalString, dateStringSchema, optionalUuidSchema } from './common';
+import { booleanStringSchema } from './common';
+import { COMMENT_MODES } from '../comments';
+import { MAX_EMBED_ORIGINS } from '../embed';
 
 /**
- * Event creation and update
+ * Event date, parsed into a Date (rejects years outside 1900-2100)
  */
-export const eventSchema = z.object({
-  title: nonEmptyString,
-  date: dateStringSchema,
+const eventDateSchema = z.string().transform((val) => {
+  const date = new Date(val);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date format: ${val}`);
+  }
+  if (date.getFullYear() < 1900 || date.getFullYear() > 2100) {
+    throw new Error(`Invalid year: ${date.getFullYear()}. Date: ${val}`);
+  }
+  return date;
+});
+
+/**
+ * Event creation
+ */
+export const createEventSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  // Structured address fields
+  locationName: z.string().nullable().optional(),
+  streetAddress1: z.string().nullable().optional(),
+  streetAddress2: z.string().nullable().optional(),
+  city: z.string().nullable().optional(),
+  state: z.string().nullable().optional(),
+  zipCode: z.string().nullable().optional(),
+  date: eventDateSchema,
+  endDate: z.string().optional().transform((val) => val && val.trim() !== '' ? new Date(val) : undefined),
+  rsvpDeadline: z.string().optional().nullable().transform((val) => val ? new Date(val) : undefined),
+  timezone: z.string().optional(),
+  coverImage: z.string().nullable().optional(),
+  photoAlbumUrl: z.string().optional(),
+  reminderSchedule: z.string().optional(),
+  maxGuestsPerInvitee: z.number().int().min(1).nullable().optional(),
+  capacity: z.number().int().min(1, 'Capacity must be at least 1').nullable().optional(),
+  replyTo: z.string().email().optional().or(z.literal('')),
+  isPublic: z.boolean().optional().default(true),
+  requireApproval: z.boolean().optional().default(false),
+  commentMode: z.enum(COMMENT_MODES).optional().default('OPEN'),
+  spamProtection: z.boolean().optional().default(true),
+  // Repeat the event, e.g. { rule: "FREQ=WEEKLY;BYDAY=TH;COUNT=10", exceptions: ["2026-11-26"] }
+  recurrence: z.object({
+    rule: z.string().min(1, 'Repeat rule is required'),
+    exceptions: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Skipped dates must be YYYY-MM-DD')).optional().default([]),
+  }).nullable().optional(),
+});
+
+/**
+ * Event update (PATCH)
+ */
+export const updateEventSchema = z.object({
+  title: z.string().min(1, 'Title is required').optional(),
+  description: z.string().nullable().optional(),
   // Structured address fields
-  locationName: optionalString,
-  streetAddress1: optionalString,
-  streetAddress2: optionalString,
-  city: optionalString,
-  state: optionalString,
-  zipCode: optionalString,
-  description: optionalString,
-  image: z.string().url('Invalid image URL').optional().nullable(),
-  isPublic: z.boolean().default(false),
-  allowComments: z.boolean().default(true),
-  requireApproval: z.boolean().default(false),
-  maxGuests: z.number().int().positive().optional().nullable(),
-  deadline: dateStringSchema.optional().nullable(),
+  locationName: z.string().nullable().optional(),
+  streetAddress1: z.string().nullable().optional(),
+  streetAddress2: z.string().nullable().optional(),
+  city: z.string().nullable().optional(),
+  state: z.string().nullable().optional(),
+  zipCode: z.string().nullable().optional(),
+  date: eventDateSchema.optional(),
+  endDate: z.string().optional().nullable().transform((val) => val && val.trim() !== '' ? new Date(val) : null),
+  rsvpDeadline: z.string().optional().nullable().transform((val) => val && val.trim() !== '' ? new Date(val) : null),
+  timezone: z.string().optional(),
+  coverImage: z.string().nullable().optional(),
+  photoAlbumUrl: z.string().nullable().optional(),
+  reminderSchedule: z.string().optional().nullable(),
+  maxGuestsPerInvitee: z.number().int().min(1).nullable().optional(),
+  capacity: z.number().int().min(1, 'Capacity must be at least 1').nullable().optional(),
+  replyTo: z.string().email().nullable().optional().or(z.literal('')),
+  isPublic: z.boolean().optional(),
+  requireApproval: z.boolean().optional(),
+  commentMode: z.enum(COMMENT_MODES).optional(),
+  spamProtection: z.boolean().optional(),
+  notifyGuests: z.boolean().optional().default(false),
+  // For events in a series: change only this occurrence, or this one and every later one
+  scope: z.enum(['this', 'future']).optional().default('this'),
 });
 
 /**
- * Partial event update (PATCH)
+ * Event deletion options (query string)
  */
-export const partialEventSchema = eventSchema.partial();
+export const deleteEventQuerySchema = z.object({
+  // For events in a series: delete only this occurrence, or this one and every later one
+  scope: z.enum(['this', 'future']).optional(),
+  // Email guests who said they were coming that the event is cancelled
+  notify: booleanStringSchema.optional(),
+});
 
 /**
- * Event reminder configuration
+ * Deleting several events at once
  */
-export const reminderSchema = z.object({
-  enabled: z.boolean(),
-  daysBefore: z.number().int().min(1).max(30),
-  time: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)'),
+export const bulkDeleteEventsSchema = z.object({
+  eventIds: z.array(z.string().min(1)).min(1, 'At least one event ID is required'),
 });
 
 /**
- * Event reminders array
+ * Custom RSVP questions
  */
-export const remindersArraySchema = z.array(reminderSchema);
+export const updateQuestionsSchema = z.object({
+  questions: z.array(
+    z.object({
+      id: z.string().min(1),
+      label: z.string().max(200, 'Question is too long'),
+      type: z.enum(['text', 'single_choice', 'multi_choice', 'number', 'yes_no']),
+      options: z.array(z.string().max(100, 'Option is too long')).optional(),
+      required: z.boolean().default(false),
+      scope: z.enum(['party', 'attendee']).default('party'),
+    })
+  ),
+});
+
+/**
+ * Reminder schedule
+ */
+export const updateRemindersSchema = z.object({
+  reminderSchedule: z.array(
+    z.object({
+      type: z.enum(['day', 'hour']),
+      value: z.number().positive(),
+    })
+  ).optional().nullable(),
+});
+
+/**
+ * Websites allowed to embed the RSVP widget
+ */
+export const updateEmbedSchema = z.object({
+  origins: z
+    .array(z.string().max(300, 'Website address is too long'))
+    .max(MAX_EMBED_ORIGINS, `Add up to ${MAX_EMBED_ORIGINS} websites`),
+});
+
+/**
+ * Checking a guest in at the door
+ */
+export const checkInSchema = z.object({
+  guestId: z.string().min(1, 'Guest is required'),
+  // Check in (or undo) the invitee themselves
+  includeInvitee: z.boolean().optional().default(true),
+  additionalGuestIds: z.array(z.string()).optional().default([]),
+  undo: z.boolean().optional().default(false),
+});
+
+/**
+ * Check-in list query: a guest's ticket token looks up that one guest
+ */
+export const checkInQuerySchema = z.object({
+  token: z.string().optional(),
+});
+
+/**
+ * Session (sub-event) creation
+ */
+export const createSessionSchema = z.object({
+  name: z.string().min(1, 'Session name is required').max(100, 'Session name is too long'),
+  description: z.string().nullable().optional(),
+  locationName: z.string().nullable().optional(),
+  streetAddress1: z.string().nullable().optional(),
+  streetAddress2: z.string().nullable().optional(),
+  city: z.string().nullable().optional(),
+  state: z.string().nullable().optional(),
+  zipCode: z.string().nullable().optional(),
+  date: z.string().refine((val) => !isNaN(new Date(val).getTime()), 'Invalid session start time').transform((val) => new Date(val)),
+  endDate: z.string().nullable().optional().transform((val) => val ? new Date(val) : null),
+  capacity: z.number().int().min(1, 'Capacity must be at least 1').nullable().optional(),
+  inviteAll: z.boolean().optional().default(true),
+  // Guests invited when the session isn't open to everyone
+  guestIds: z.array(z.string()).optional().default([]),
+});
+
+/**
+ * Session update (PATCH)
+ */
+export const updateSessionSchema = z.object({
+  name: z.string().min(1, 'Session name is required').max(100, 'Session name is too long').optional(),
+  description: z.string().nullable().optional(),
+  locationName: z.string().nullable().optional(),
+  streetAddress1: z.string().nullable().optional(),
+  streetAddress2: z.string().nullable().optional(),
+  city: z.string().nullable().optional(),
+  state: z.string().nullable().optional(),
+  zipCode: z.string().nullable().optional(),
+  date: z.string().refine((val) => !isNaN(new Date(val).getTime()), 'Invalid session start time').transform((val) => new Date(val)).optional(),
+  endDate: z.string().nullable().optional().transform((val) => val === undefined ? undefined : val ? new Date(val) : null),
+  capacity: z.number().int().min(1, 'Capacity must be at least 1').nullable().optional(),
+  inviteAll: z.boolean().optional(),
+  // Replaces the invite list of a session that isn't open to everyone
+  guestIds: z.array(z.string()).optional(),
+});
 
 /**
  * Broadcast message
  */
 export const broadcastSchema = z.object({
-  message: nonEmptyString,
-  sendEmail: z.boolean().default(true),
-  sendSms: z.boolean().default(false),
-  filterByStatus: z.enum(['all', 'accepted', 'declined', 'pending']).optional(),
+  subject: z.string().min(1, 'Subject is required'),
+  message: z.string().min(1, 'Message is required'),
+  filterStatus: z.enum(['ALL', 'ATTENDING', 'NOT_ATTENDING', 'MAYBE', 'PENDING', 'WAITLISTED']).optional().default('ALL'),
+  channel: z.enum(['EMAIL', 'SMS', 'BOTH']).optional().default('EMAIL'),
 });
 
+export type BroadcastInput = z.infer<typeof broadcastSchema>;
+
 /**
  * Co-host management
  */
+export const cohostRoleSchema = z.enum(['COHOST', 'VIEWER']);
+
 export const addCoHostSchema = z.object({
-  userId: optionalUuidSchema,
-  email: z.string().email('Invalid email').optional(),
-  canEdit: z.boolean().default(false),
+  email: z.string().email('Valid email is required'),
+  role: cohostRoleSchema.optional().default('COHOST'),
 });
 
 /**
- * Update co-host permissions
+ * Change a co-host's role
  */
 export const updateCoHostSchema = z.object({
-  canEdit: z.boolean(),
+  role: cohostRoleSchema,
 });
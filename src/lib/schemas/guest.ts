@@ -3,87 +3,155 @@
  */
 
 import { z } from 'zod';
-import { emailSchema, phoneSchema, nonEmptyString, optionalString } from './common';
 
 /**
- * RSVP status enum
+ * A guest's RSVP status
  */
-export const rsvpStatusSchema = z.enum(['pending', 'accepted', 'declined']);
+export const guestStatusSchema = z.enum(['PENDING', 'ATTENDING', 'NOT_ATTENDING', 'MAYBE', 'WAITLISTED']);
 
 /**
- * Guest creation
+ * A host adding one guest
  */
-export const guestSchema = z.object({
-  name: optionalString,
-  email: emailSchema,
-  phone: phoneSchema,
-  status: rsvpStatusSchema.default('pending'),
-  dietaryNotes: optionalString,
-  notifyByEmail: z.boolean().default(true),
-  notifyBySms: z.boolean().default(false),
-  guestLimit: z.number().int().min(1).default(1),
-  additionalGuests: z.array(z.object({
-    name: nonEmptyString,
-  })).optional(),
+export const addGuestSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  phone: z.string().optional(),
+  name: z.string().optional(),
+  notifyByEmail: z.boolean().optional().default(true),
+  notifyBySms: z.boolean().optional().default(false),
+  sendInvite: z.boolean().optional().default(true),
 });
 
 /**
- * Partial guest update (PATCH)
+ * A host editing a guest
  */
-export const partialGuestSchema = guestSchema.partial();
+export const updateGuestSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  email: z.string().email('Invalid email').optional(),
+  phone: z.string().optional().nullable(),
+  status: z.enum(['PENDING', 'ATTENDING', 'NOT_ATTENDING', 'MAYBE', 'WAITLISTED']).optional(),
+  additionalGuests: z.array(z.string().min(1, 'Guest name is required')).optional(),
+  dietaryNotes: z.string().optional().nullable(),
+  notifyByEmail: z.boolean().optional(),
+  notifyBySms: z.boolean().optional(),
+  maxGuests: z.number().int().min(1).nullable().optional(),
+});
+
+export type AddGuestInput = z.infer<typeof addGuestSchema>;
+export type UpdateGuestInput = z.infer<typeof updateGuestSchema>;
 
 /**
- * RSVP response
+ * Bulk guest actions
  */
-export const rsvpResponseSchema = z.object({
-  status: rsvpStatusSchema,
-  name: optionalString,
-  phone: phoneSchema,
-  dietaryNotes: optionalString,
-  additionalGuests: z.array(z.object({
-    name: nonEmptyString,
-  })).optional(),
+export const bulkGuestActionSchema = z.object({
+  action: z.enum(['invite', 'remind', 'delete', 'changeStatus']),
+  guestIds: z.array(z.string()).min(1, 'At least one guest must be selected'),
+  status: guestStatusSchema.optional(),
 });
 
 /**
- * Bulk guest actions
+ * One row of a guest import
  */
-export const bulkGuestActionSchema = z.object({
-  guestIds: z.array(z.string().uuid()),
-  action: z.enum(['delete', 'sendInvitation', 'sendReminder']),
+export const guestImportRowSchema = z.object({
+  email: z.string().email('Invalid email'),
+  name: z.string().optional(),
+  phone: z.string().optional(),
 });
 
 /**
  * Guest import (CSV)
  */
 export const guestImportSchema = z.object({
-  guests: z.array(z.object({
-    name: optionalString,
-    email: emailSchema,
-    phone: phoneSchema,
-    dietaryNotes: optionalString,
-  })),
-  sendInvitations: z.boolean().default(false),
+  guests: z.array(guestImportRowSchema),
+  sendInvites: z.boolean().optional().default(false),
+});
+
+/**
+ * A host approving or denying an RSVP request
+ */
+export const rsvpApprovalSchema = z.object({
+  action: z.enum(['approve', 'deny']),
+  // Optional note from the host, included in the email to the guest
+  message: z.string().max(2000, 'Message is too long').optional(),
+});
+
+/**
+ * A guest's RSVP from the public event page
+ */
+export const publicRsvpSchema = z.object({
+  eventId: z.string(),
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email'),
+  phone: z.string().optional(),
+  status: z.enum(['ATTENDING', 'NOT_ATTENDING', 'MAYBE']),
+  additionalGuests: z.array(z.string().min(1, 'Guest name is required')).optional().default([]),
+  dietaryNotes: z.string().optional(),
+  answers: z.record(z.unknown()).optional(),
+  // Per-attendee answers for each additional guest, in the same order as additionalGuests
+  additionalGuestAnswers: z.array(z.record(z.unknown())).optional().default([]),
+  // For recurring events: give the same answer for every later date in the series
+  applyToSeries: z.boolean().optional().default(false),
+  // For events with sessions: which of the guest's sessions they'll attend
+  sessions: z.array(z.object({ sessionId: z.string(), attending: z.boolean() })).optional().default([]),
+  // Proof of owning an email already on the guest list: their RSVP token, or the code we emailed them
+  token: z.string().optional(),
+  verificationCode: z.string().optional(),
+  // Solved proof-of-work spam check, when spam protection is on
+  challenge: z.string().optional(),
+});
+
+/**
+ * A guest changing their RSVP through their personal link
+ */
+export const updateRsvpSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  phone: z.string().optional().nullable(),
+  status: z.enum(['ATTENDING', 'NOT_ATTENDING', 'MAYBE']).optional(),
+  additionalGuests: z.array(z.string().min(1, 'Guest name is required')).optional(),
+  dietaryNotes: z.string().optional().nullable(),
+  answers: z.record(z.unknown()).optional(),
+  // Per-attendee answers for each additional guest, in the same order as additionalGuests
+  additionalGuestAnswers: z.array(z.record(z.unknown())).optional(),
+  // For recurring events: give the same answer for every later date in the series
+  applyToSeries: z.boolean().optional().default(false),
+  // For events with sessions: which of the guest's sessions they'll attend
+  sessions: z.array(z.object({ sessionId: z.string(), attending: z.boolean() })).optional(),
+});
+
+/**
+ * One-click RSVP from an email link
+ */
+export const quickRsvpSchema = z.object({
+  status: z.enum(['ATTENDING', 'NOT_ATTENDING', 'MAYBE']),
 });
 
 /**
  * Send RSVP edit link
  */
 export const sendEditLinkSchema = z.object({
-  email: emailSchema,
+  email: z.string().email('Invalid email address'),
+  eventId: z.string(),
 });
 
 /**
- * Guest limit update
+ * Message on an event page
  */
-export const guestLimitSchema = z.object({
-  guestLimit: z.number().int().min(1),
+export const commentSchema = z.object({
+  eventId: z.string(),
+  authorName: z.string().min(1, 'Name is required'),
+  content: z.string().min(1, 'Message is required').max(1000, 'Message is too long'),
+  // The guest's RSVP token, when posting from a page opened with their link
+  token: z.string().optional(),
+  // Hosts reply to a message by passing its id
+  parentId: z.string().optional(),
+  // Solved proof-of-work spam check, when spam protection is on
+  challenge: z.string().optional(),
 });
 
 /**
- * Comment on RSVP
+ * A host moderating a message
  */
-export const commentSchema = z.object({
-  content: nonEmptyString,
-  guestId: z.string().uuid().optional(),
+export const moderateCommentSchema = z.object({
+  // Approving a pending message or showing a hidden one sets it back to VISIBLE
+  status: z.enum(['VISIBLE', 'HIDDEN']).optional(),
+  pinned: z.boolean().optional(),
 });
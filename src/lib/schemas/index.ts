@@ -8,3 +8,9 @@ export * from './auth';
 export * from './event';
 export * from './guest';
 export * from './config';
+export * from './email';
+export * from './media';
+export * from './webhook';
+export * from './api-token';
+export * from './api';
+export * from './responses';
@@ -0,0 +1,25 @@
+/**
+ * Image upload validation schemas
+ */
+
+import { z } from 'zod';
+import { MEDIA_VARIANTS } from '../media-variants';
+
+const imageFileSchema = z.custom<Blob>((value) => typeof Blob !== 'undefined' && value instanceof Blob, 'Expected an image file');
+
+/**
+ * An image upload: the original plus smaller copies made in the browser
+ */
+export const mediaUploadSchema = z.object({
+  original: imageFileSchema,
+  card: imageFileSchema.optional(),
+  email: imageFileSchema.optional(),
+  thumb: imageFileSchema.optional(),
+});
+
+/**
+ * Image query: which copy to serve; anything else serves the original
+ */
+export const mediaQuerySchema = z.object({
+  size: z.enum(MEDIA_VARIANTS).optional(),
+});
@@ -0,0 +1,792 @@
+/**
+ * Responses of the app's own routes (everything outside /api/v1). Like the v1
+ * schemas, these are never parsed at runtime; they describe what the routes send,
+ * for the OpenAPI document and typed API calls. Dates arrive as ISO strings.
+ */
+
+import { z } from 'zod';
+import { COMMENT_MODES } from '../comments';
+import { EMAIL_TEMPLATE_NAMES } from '../email-templates';
+import { API_TOKEN_SCOPES } from '../api-token-scopes';
+import { WEBHOOK_EVENT_TYPES } from '../webhook-events';
+import { apiGuestStatusSchema } from './api';
+import { outboundEmailStatusSchema } from './email';
+
+const timestampSchema = z.string().datetime();
+
+/**
+ * Plain confirmation
+ */
+export const successResponseSchema = z.object({
+  success: z.literal(true),
+});
+
+/**
+ * Confirmation with a message to show
+ */
+export const messageResponseSchema = z.object({
+  success: z.boolean().optional(),
+  message: z.string(),
+});
+
+/**
+ * Outcome of deleting several events
+ */
+export const bulkDeleteEventsResponseSchema = z.object({
+  successCount: z.number().int(),
+  failedCount: z.number().int(),
+  errors: z.array(z.string()).optional(),
+});
+
+// Events
+
+export const eventRecordSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  locationName: z.string().nullable(),
+  streetAddress1: z.string().nullable(),
+  streetAddress2: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  zipCode: z.string().nullable(),
+  date: timestampSchema,
+  endDate: timestampSchema.nullable(),
+  rsvpDeadline: timestampSchema.nullable(),
+  timezone: z.string().nullable(),
+  coverImage: z.string().nullable(),
+  photoAlbumUrl: z.string().nullable(),
+  // JSON, see lib/reminder-utils.ts and lib/rsvp-questions.ts
+  reminderSchedule: z.string().nullable(),
+  rsvpQuestions: z.string().nullable(),
+  maxGuestsPerInvitee: z.number().int().nullable(),
+  capacity: z.number().int().nullable(),
+  replyTo: z.string().nullable(),
+  hostId: z.string(),
+  seriesId: z.string().nullable(),
+  isPublic: z.boolean(),
+  requireApproval: z.boolean(),
+  commentMode: z.enum(COMMENT_MODES),
+  spamProtection: z.boolean(),
+  calendarSequence: z.number().int(),
+  embedOrigins: z.string().nullable(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+});
+
+export const additionalGuestRecordSchema = z.object({
+  id: z.string(),
+  guestId: z.string(),
+  name: z.string(),
+  rsvpAnswers: z.string().nullable(),
+  checkedInAt: timestampSchema.nullable(),
+  createdAt: timestampSchema,
+});
+
+export const guestRecordSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  email: z.string(),
+  phone: z.string().nullable(),
+  name: z.string().nullable(),
+  status: apiGuestStatusSchema,
+  requestedStatus: z.string().nullable(),
+  dietaryNotes: z.string().nullable(),
+  notifyByEmail: z.boolean(),
+  notifyBySms: z.boolean(),
+  token: z.string(),
+  invitedAt: timestampSchema,
+  respondedAt: timestampSchema.nullable(),
+  respondedVia: z.string().nullable(),
+  waitlistedAt: timestampSchema.nullable(),
+  maxGuests: z.number().int().nullable(),
+  rsvpAnswers: z.string().nullable(),
+  checkedInAt: timestampSchema.nullable(),
+  additionalGuests: z.array(additionalGuestRecordSchema).optional(),
+});
+
+export const commentRecordSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  guestId: z.string().nullable(),
+  userId: z.string().nullable(),
+  parentId: z.string().nullable(),
+  authorName: z.string(),
+  content: z.string(),
+  status: z.enum(['VISIBLE', 'PENDING', 'HIDDEN']),
+  pinned: z.boolean(),
+  createdAt: timestampSchema,
+});
+
+export const coHostRecordSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  userId: z.string(),
+  role: z.enum(['COHOST', 'VIEWER']),
+  invitedAt: timestampSchema,
+  user: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+    email: z.string(),
+  }),
+});
+
+export const eventUpdateRecordSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  subject: z.string(),
+  message: z.string(),
+  sentVia: z.enum(['EMAIL', 'SMS', 'BOTH']),
+  sentTo: z.number().int(),
+  sentAt: timestampSchema,
+  sentBy: z.string(),
+});
+
+export const eventSessionRecordSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  locationName: z.string().nullable(),
+  streetAddress1: z.string().nullable(),
+  streetAddress2: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  zipCode: z.string().nullable(),
+  date: timestampSchema,
+  endDate: timestampSchema.nullable(),
+  capacity: z.number().int().nullable(),
+  inviteAll: z.boolean(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+});
+
+export const eventListResponseSchema = z.object({
+  events: z.array(eventRecordSchema.extend({
+    guests: z.array(z.object({ id: z.string(), status: apiGuestStatusSchema })),
+  })),
+});
+
+export const createEventResponseSchema = z.object({
+  event: eventRecordSchema,
+  // How many dates were created, for repeating events
+  occurrences: z.number().int().optional(),
+});
+
+export const eventDetailsResponseSchema = z.object({
+  event: eventRecordSchema.extend({
+    guests: z.array(guestRecordSchema.required({ additionalGuests: true })),
+    comments: z.array(commentRecordSchema),
+    coHosts: z.array(coHostRecordSchema),
+    updates: z.array(eventUpdateRecordSchema),
+    series: z.object({
+      id: z.string(),
+      recurrence: z.string(),
+      exceptions: z.string().nullable(),
+    }).nullable(),
+  }),
+});
+
+export const updateEventResponseSchema = z.object({
+  event: eventRecordSchema,
+  changesNotified: z.number().int(),
+  occurrencesUpdated: z.number().int(),
+});
+
+export const deleteEventResponseSchema = z.object({
+  success: z.literal(true),
+  deleted: z.number().int(),
+});
+
+export const eventResponseSchema = z.object({
+  event: eventRecordSchema,
+});
+
+export const broadcastResponseSchema = z.object({
+  success: z.literal(true),
+  sentTo: z.number().int(),
+  emailsSent: z.number().int(),
+  smsSent: z.number().int(),
+  errors: z.array(z.string()).optional(),
+});
+
+export const eventUpdateListResponseSchema = z.object({
+  updates: z.array(eventUpdateRecordSchema),
+});
+
+export const coHostListResponseSchema = z.object({
+  coHosts: z.array(coHostRecordSchema),
+});
+
+export const coHostResponseSchema = z.object({
+  coHost: coHostRecordSchema,
+});
+
+export const embedOriginsResponseSchema = z.object({
+  embedOrigins: z.array(z.string()),
+});
+
+export const sessionListResponseSchema = z.object({
+  sessions: z.array(eventSessionRecordSchema.extend({
+    invitedGuestIds: z.array(z.string()),
+    stats: z.object({
+      invited: z.number().int(),
+      attending: z.number().int(),
+      notAttending: z.number().int(),
+      pending: z.number().int(),
+    }),
+  })),
+});
+
+export const sessionResponseSchema = z.object({
+  session: eventSessionRecordSchema,
+});
+
+// Check-in
+
+const checkInPersonSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  checkedInAt: timestampSchema.nullable(),
+});
+
+export const checkInGuestSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string(),
+  status: apiGuestStatusSchema,
+  checkedInAt: timestampSchema.nullable(),
+  additionalGuests: z.array(checkInPersonSchema),
+});
+
+const checkInStatsSchema = z.object({
+  expected: z.number().int(),
+  arrived: z.number().int(),
+});
+
+/**
+ * The guest behind a scanned ticket (?token=), or the whole check-in list
+ */
+export const checkInListResponseSchema = z.union([
+  z.object({
+    guest: checkInGuestSchema.extend({ eventId: z.string() }),
+  }),
+  z.object({
+    guests: z.array(checkInGuestSchema),
+    stats: checkInStatsSchema,
+  }),
+]);
+
+export const checkInResponseSchema = z.object({
+  guest: checkInGuestSchema,
+  // People in the party who had already been checked in
+  duplicates: z.array(z.object({ name: z.string(), checkedInAt: timestampSchema })),
+  stats: checkInStatsSchema,
+});
+
+// Email templates and delivery log
+
+const emailTemplateContentSchema = z.object({
+  subject: z.string(),
+  heading: z.string(),
+  body: z.string(),
+});
+
+export const emailTemplateListResponseSchema = z.object({
+  templates: z.array(z.object({
+    name: z.enum(EMAIL_TEMPLATE_NAMES),
+    template: emailTemplateContentSchema,
+    isCustomized: z.boolean(),
+    // What the template goes back to when reset
+    fallback: emailTemplateContentSchema,
+  })),
+});
+
+export const emailTemplateResponseSchema = z.object({
+  success: z.literal(true),
+  template: emailTemplateContentSchema,
+});
+
+export const outboxResponseSchema = z.object({
+  messages: z.array(z.object({
+    id: z.string(),
+    type: z.string(),
+    to: z.string(),
+    subject: z.string(),
+    status: outboundEmailStatusSchema,
+    attempts: z.number().int(),
+    maxAttempts: z.number().int(),
+    lastError: z.string().nullable(),
+    nextRetryAt: timestampSchema,
+    sentAt: timestampSchema.nullable(),
+    createdAt: timestampSchema,
+    guest: z.object({ name: z.string().nullable() }).nullable(),
+    event: z.object({ id: z.string(), title: z.string() }).nullable(),
+  })),
+  // Messages in each status
+  counts: z.object({
+    PENDING: z.number().int(),
+    SENDING: z.number().int(),
+    SENT: z.number().int(),
+    FAILED: z.number().int(),
+  }),
+});
+
+export const retryEmailResponseSchema = z.object({
+  success: z.literal(true),
+  status: outboundEmailStatusSchema,
+});
+
+// Guest list
+
+export const guestResponseSchema = z.object({
+  guest: guestRecordSchema,
+});
+
+export const bulkGuestActionResponseSchema = z.object({
+  success: z.literal(true),
+  successCount: z.number().int(),
+  failedCount: z.number().int(),
+  errors: z.array(z.string()).optional(),
+});
+
+export const guestImportResponseSchema = z.object({
+  success: z.literal(true),
+  results: z.object({
+    imported: z.number().int(),
+    skipped: z.number().int(),
+    errors: z.array(z.string()),
+  }),
+  invitationsSent: z.boolean().optional(),
+  invitationsError: z.string().optional(),
+  invitationResults: z.object({
+    emailsSent: z.number().int(),
+    emailsFailed: z.number().int(),
+    smsSent: z.number().int(),
+    smsFailed: z.number().int(),
+  }).optional(),
+});
+
+export const rsvpApprovalResponseSchema = z.object({
+  success: z.literal(true),
+  // The guest's status once approved: their answer, or WAITLISTED when the event is full
+  status: apiGuestStatusSchema.optional(),
+});
+
+// Guest pages
+
+export const headcountResponseSchema = z.object({
+  headcount: z.object({
+    attending: z.number().int(),
+    capacity: z.number().int().nullable(),
+    spotsLeft: z.number().int().nullable(),
+  }),
+});
+
+export const embedOriginListResponseSchema = z.object({
+  origins: z.array(z.string()),
+});
+
+export const rsvpSubmitResponseSchema = z.union([
+  // The email is already on the guest list: we emailed them a code to confirm with
+  z.object({ verificationRequired: z.literal(true) }),
+  // The event approves RSVPs from people not on the guest list
+  z.object({ pendingApproval: z.literal(true) }),
+  z.object({
+    guest: guestRecordSchema,
+    // Later dates of a repeating event the answer was also given for
+    seriesUpdated: z.number().int(),
+  }),
+]);
+
+export const guestSessionSchema = eventSessionRecordSchema.extend({
+  status: z.enum(['PENDING', 'ATTENDING', 'NOT_ATTENDING']),
+});
+
+export const rsvpDetailsResponseSchema = z.object({
+  guest: guestRecordSchema.required({ additionalGuests: true }).extend({
+    event: eventRecordSchema.pick({
+      id: true,
+      title: true,
+      date: true,
+      timezone: true,
+      locationName: true,
+      streetAddress1: true,
+      streetAddress2: true,
+      city: true,
+      state: true,
+      zipCode: true,
+      slug: true,
+      rsvpDeadline: true,
+      maxGuestsPerInvitee: true,
+      rsvpQuestions: true,
+      seriesId: true,
+    }),
+  }),
+  deadlinePassed: z.boolean().nullable(),
+  laterDates: z.number().int(),
+  sessions: z.array(guestSessionSchema),
+});
+
+export const rsvpUpdateResponseSchema = z.object({
+  guest: guestRecordSchema,
+  seriesUpdated: z.number().int(),
+});
+
+export const commentResponseSchema = z.object({
+  comment: commentRecordSchema,
+  // The event's wall is moderated, so a host has to approve the message first
+  pendingModeration: z.boolean().optional(),
+});
+
+export const challengeResponseSchema = z.object({
+  // Null when spam protection is off
+  challenge: z.object({
+    algorithm: z.literal('SHA-256'),
+    challenge: z.string(),
+    maxnumber: z.number().int(),
+    salt: z.string(),
+    signature: z.string(),
+  }).nullable(),
+});
+
+export const mediaUploadResponseSchema = z.object({
+  url: z.string(),
+});
+
+// Account
+
+const userSummarySchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string(),
+  role: z.enum(['ADMIN', 'USER']),
+});
+
+export const registrationStatusResponseSchema = z.object({
+  registrationEnabled: z.boolean(),
+  message: z.string(),
+});
+
+export const createUserResponseSchema = z.object({
+  message: z.string(),
+  user: userSummarySchema,
+  invitationSent: z.boolean().optional(),
+});
+
+export const resetTokenStatusResponseSchema = z.object({
+  valid: z.boolean(),
+  error: z.string().optional(),
+});
+
+export const invitationResponseSchema = z.object({
+  valid: z.boolean(),
+  error: z.string().optional(),
+  alreadyAccepted: z.boolean().optional(),
+  email: z.string().optional(),
+  name: z.string().nullable().optional(),
+  // Null while the account still has the placeholder username it was created with
+  username: z.string().nullable().optional(),
+  hasTemporaryUsername: z.boolean().optional(),
+  role: z.enum(['ADMIN', 'USER']).optional(),
+});
+
+export const acceptInvitationResponseSchema = z.object({
+  message: z.string(),
+  user: z.object({
+    email: z.string(),
+    name: z.string().nullable(),
+    username: z.string(),
+  }),
+});
+
+const profileSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  username: z.string().nullable().optional(),
+  email: z.string(),
+  theme: z.enum(['light', 'dark', 'system']),
+  notifyOnRsvpChanges: z.boolean().optional(),
+});
+
+export const profileResponseSchema = z.object({
+  user: profileSchema,
+});
+
+export const updateProfileResponseSchema = z.object({
+  user: profileSchema,
+  passwordChanged: z.boolean(),
+});
+
+const apiTokenRecordSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // First characters of the token, to tell tokens apart
+  tokenPrefix: z.string(),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)),
+  lastUsedAt: timestampSchema.nullable(),
+  expiresAt: timestampSchema.nullable(),
+  createdAt: timestampSchema,
+});
+
+export const apiTokenListResponseSchema = z.object({
+  tokens: z.array(apiTokenRecordSchema),
+});
+
+export const createApiTokenResponseSchema = z.object({
+  // The full token, only ever shown this once
+  token: z.string(),
+  apiToken: apiTokenRecordSchema,
+});
+
+export const calendarFeedsResponseSchema = z.object({
+  hosting: z.string().nullable(),
+});
+
+export const calendarFeedResponseSchema = z.object({
+  url: z.string(),
+});
+
+const webhookRecordSchema = z.object({
+  id: z.string(),
+  eventId: z.string().nullable(),
+  url: z.string(),
+  secret: z.string(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)),
+  active: z.boolean(),
+  createdAt: timestampSchema,
+});
+
+export const webhookListResponseSchema = z.object({
+  webhooks: z.array(webhookRecordSchema),
+});
+
+export const webhookResponseSchema = z.object({
+  webhook: webhookRecordSchema,
+});
+
+export const webhookDeliveryListResponseSchema = z.object({
+  deliveries: z.array(z.object({
+    id: z.string(),
+    type: z.string(),
+    status: outboundEmailStatusSchema,
+    attempts: z.number().int(),
+    maxAttempts: z.number().int(),
+    responseStatus: z.number().int().nullable(),
+    lastError: z.string().nullable(),
+    nextRetryAt: timestampSchema,
+    deliveredAt: timestampSchema.nullable(),
+    createdAt: timestampSchema,
+  })),
+});
+
+export const webhookTestResponseSchema = z.object({
+  success: z.boolean(),
+  responseStatus: z.number().int().nullable(),
+  error: z.string().nullable(),
+});
+
+// Admin
+
+export const configStatusResponseSchema = z.object({
+  email: z.object({ configured: z.boolean() }),
+  sms: z.object({ configured: z.boolean() }),
+});
+
+export const appUrlConfigResponseSchema = z.object({
+  appUrl: z.string(),
+  configured: z.boolean(),
+  source: z.enum(['database', 'environment']),
+});
+
+export const updateAppUrlConfigResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  appUrl: z.string(),
+});
+
+const emailConfigValuesSchema = z.object({
+  host: z.string(),
+  port: z.string(),
+  user: z.string(),
+  password: z.string(),
+  from: z.string().optional(),
+  rateLimit: z.string().optional(),
+});
+
+export const emailConfigResponseSchema = z.object({
+  configured: z.boolean(),
+  config: emailConfigValuesSchema.nullable(),
+});
+
+export const updateEmailConfigResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  // The saved settings, with the password masked
+  config: emailConfigValuesSchema,
+  restartRequired: z.boolean(),
+});
+
+const rateLimitRuleValuesSchema = z.object({
+  limit: z.number().int(),
+  windowMinutes: z.number().int(),
+});
+
+const rateLimitRulesSchema = z.object({
+  rsvp: rateLimitRuleValuesSchema,
+  comment: rateLimitRuleValuesSchema,
+  editLink: rateLimitRuleValuesSchema,
+  passwordReset: rateLimitRuleValuesSchema,
+  login: rateLimitRuleValuesSchema,
+});
+
+const rateLimitConfigValuesSchema = z.object({
+  enabled: z.boolean(),
+  store: z.enum(['memory', 'database']),
+  rules: rateLimitRulesSchema,
+});
+
+export const rateLimitConfigResponseSchema = rateLimitConfigValuesSchema.extend({
+  defaults: rateLimitRulesSchema,
+});
+
+export const updateRateLimitConfigResponseSchema = rateLimitConfigValuesSchema.extend({
+  success: z.literal(true),
+  message: z.string(),
+});
+
+export const smsConfigResponseSchema = z.object({
+  configured: z.boolean(),
+  // The auth token is masked
+  config: z.object({
+    provider: z.enum(['twilio', 'log']),
+    accountSid: z.string().optional(),
+    authToken: z.string(),
+    phoneNumber: z.string().optional(),
+    apiUrl: z.string().optional(),
+    logFile: z.string().optional(),
+  }).nullable(),
+});
+
+export const updateSmsConfigResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  configured: z.boolean(),
+});
+
+export const testSmsResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  provider: z.string(),
+});
+
+const spamProtectionValuesSchema = z.object({
+  enabled: z.boolean(),
+  difficulty: z.enum(['low', 'medium', 'high']),
+});
+
+export const spamProtectionConfigResponseSchema = spamProtectionValuesSchema;
+
+export const updateSpamProtectionConfigResponseSchema = spamProtectionValuesSchema.extend({
+  success: z.literal(true),
+  message: z.string(),
+});
+
+const smtpServerSchema = z.object({
+  host: z.string(),
+  port: z.string(),
+  user: z.string(),
+  from: z.string(),
+});
+
+export const smtpStatusResponseSchema = z.object({
+  configured: z.boolean(),
+  missing: z.array(z.string()),
+  warnings: z.array(z.string()),
+  config: smtpServerSchema.nullable(),
+});
+
+export const smtpTestResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  config: smtpServerSchema,
+  warnings: z.array(z.string()),
+});
+
+export const mediaStorageResponseSchema = z.object({
+  mediaDir: z.string(),
+  // Cover images still stored in the database as data URLs
+  inlineCoverImages: z.number().int(),
+});
+
+export const migrateCoverImagesResponseSchema = z.object({
+  migrated: z.number().int(),
+  failed: z.number().int(),
+  inlineCoverImages: z.number().int(),
+});
+
+const restartMethodSchema = z.object({
+  type: z.enum(['pm2', 'docker', 'systemd', 'graceful', 'unsupported']),
+  description: z.string(),
+  command: z.string().optional(),
+});
+
+export const restartMethodResponseSchema = z.object({
+  method: restartMethodSchema,
+  isDevelopment: z.boolean(),
+});
+
+export const restartResponseSchema = z.object({
+  success: z.boolean(),
+  method: restartMethodSchema,
+  message: z.string(),
+  requiresManualRestart: z.boolean(),
+  error: z.string().optional(),
+});
+
+export const updateUserResponseSchema = z.object({
+  success: z.literal(true),
+  user: userSummarySchema,
+});
+
+// System
+
+export const emailQueueResponseSchema = z.object({
+  success: z.literal(true),
+  sent: z.number().int(),
+  retrying: z.number().int(),
+  failed: z.number().int(),
+  // Left for the next run by the SMTP rate limit
+  deferred: z.number().int(),
+});
+
+export const remindersResponseSchema = z.object({
+  success: z.literal(true),
+  emailsSent: z.number().int(),
+  smsSent: z.number().int(),
+  errors: z.array(z.string()),
+});
+
+export const webhookQueueResponseSchema = z.object({
+  success: z.literal(true),
+  sent: z.number().int(),
+  retrying: z.number().int(),
+  failed: z.number().int(),
+});
+
+export const inboundEmailResponseSchema = z.object({
+  success: z.literal(true),
+  // Calendar replies found in the message, and RSVPs they changed
+  replies: z.number().int(),
+  updated: z.number().int(),
+});
+
+export const healthResponseSchema = z.object({
+  status: z.enum(['ok', 'error']),
+  timestamp: timestampSchema,
+  service: z.string().optional(),
+});
+
+// The OpenAPI document built from lib/api-routes
+export const openApiDocumentResponseSchema = z.record(z.unknown());
@@ -0,0 +1,46 @@
+/**
+ * Webhook validation schemas
+ */
+
+import { z } from 'zod';
+import { WEBHOOK_EVENT_TYPES } from '../webhook-events';
+
+/**
+ * Endpoint a webhook posts to
+ */
+export const webhookUrlSchema = z
+  .string()
+  .url('Invalid URL format')
+  .refine((url) => /^https?:\/\//i.test(url), { message: 'Webhook URL must start with http:// or https://' });
+
+/**
+ * Event types a webhook is subscribed to
+ */
+export const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES))
+  .min(1, 'Choose at least one event to send');
+
+/**
+ * New webhook. Without an event it covers every event the user hosts or co-hosts.
+ */
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+  eventId: z.string().optional().nullable(),
+});
+
+/**
+ * Webhook update
+ */
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * Webhook list query: an event's webhooks, or the ones covering every event
+ */
+export const webhookListQuerySchema = z.object({
+  eventId: z.string().optional(),
+});
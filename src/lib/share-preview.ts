@@ -0,0 +1,83 @@
+/**
+ * Link previews (Open Graph and Twitter cards) for public event pages, shown when
+ * an event link is pasted into a chat or social post. Private events get no preview,
+ * so crawlers can't read their details from a shared link.
+ */
+
+import { prisma } from './prisma';
+import { formatEventDateTime } from './timezone';
+import { getMediaId, readMedia } from './media';
+
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 };
+
+// Longest description shown under the title in a preview
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export interface SharePreview {
+  title: string;
+  dateLabel: string;
+  venue: string | null;
+  description: string;
+  coverImage: string | null;
+}
+
+function truncate(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > maxLength ? `${clean.slice(0, maxLength - 1).trimEnd()}…` : clean;
+}
+
+/**
+ * What a link preview shows for an event, or null if the event doesn't exist or isn't public
+ */
+export async function getSharePreview(slug: string): Promise<SharePreview | null> {
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: {
+      title: true,
+      description: true,
+      date: true,
+      timezone: true,
+      locationName: true,
+      city: true,
+      state: true,
+      coverImage: true,
+      isPublic: true,
+    },
+  });
+
+  if (!event || !event.isPublic) {
+    return null;
+  }
+
+  const dateLabel = formatEventDateTime(event.date, event.timezone);
+  const place = [event.city, event.state].filter(Boolean).join(', ');
+  const venue = [event.locationName, place].filter(Boolean).join(' · ') || null;
+  const summary = [dateLabel, venue].filter(Boolean).join(' · ');
+
+  return {
+    title: event.title,
+    dateLabel,
+    venue,
+    description: truncate(event.description ? `${summary}. ${event.description}` : summary, MAX_DESCRIPTION_LENGTH),
+    coverImage: event.coverImage,
+  };
+}
+
+/**
+ * The cover image as a data URL the share image renderer can draw. Only images in
+ * the media store (and older inline ones) are used; the renderer can't draw WebP or
+ * GIF, and external URLs aren't fetched.
+ */
+export async function getShareCoverImage(coverImage: string | null): Promise<string | null> {
+  if (coverImage?.startsWith('data:image/jpeg;') || coverImage?.startsWith('data:image/png;')) {
+    return coverImage;
+  }
+
+  const id = getMediaId(coverImage);
+  const media = id ? await readMedia(id, 'card') : null;
+  if (!media || !['image/jpeg', 'image/png'].includes(media.mimeType)) {
+    return null;
+  }
+
+  return `data:${media.mimeType};base64,${media.data.toString('base64')}`;
+}
@@ -0,0 +1,379 @@
+import { formatDateTime } from './utils';
+import { getSmsConfig, getAppUrl, SmsConfig, SmsProviderName } from './config';
+import { isSmsConfigComplete } from './config-utils';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { formatAddressOneLine, hasAddress, AddressFields } from './address-utils';
+import { renderTemplate } from './template-utils';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsSendResult {
+  id: string;
+  provider: SmsProviderName;
+}
+
+/**
+ * A delivery channel for text messages.
+ * Adapters only deal with transport - message content is built by the send* helpers below.
+ */
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
+
+const DEFAULT_TWILIO_API_URL = 'https://api.twilio.com';
+
+/**
+ * Twilio (and Twilio-compatible) REST adapter.
+ * Set apiUrl to point at a compatible gateway or a local mock server.
+ */
+export function createTwilioProvider(config: SmsConfig): SmsProvider {
+  const baseUrl = (config.apiUrl || DEFAULT_TWILIO_API_URL).replace(/\/+$/, '');
+
+  return {
+    name: 'twilio',
+    async send({ to, body }) {
+      const url = `${baseUrl}/2010-04-01/Accounts/${encodeURIComponent(config.accountSid || '')}/Messages.json`;
+      const credentials = Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64');
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          To: to,
+          From: config.phoneNumber || '',
+          Body: body,
+        }).toString(),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(`SMS provider error (${response.status}): ${data.message || response.statusText}`);
+      }
+
+      return { id: data.sid || '', provider: 'twilio' };
+    },
+  };
+}
+
+/**
+ * Local provider for development and tests.
+ * Appends each message as a JSON line to a file instead of sending it.
+ */
+export function createLogProvider(config: SmsConfig): SmsProvider {
+  return {
+    name: 'log',
+    async send({ to, body }) {
+      const fs = await import('fs/promises');
+      const path = await import('path');
+      const { randomUUID } = await import('crypto');
+
+      const logFile = config.logFile || path.join(process.cwd(), 'data', 'sms.log');
+      const id = `log-${randomUUID()}`;
+
+      await fs.mkdir(path.dirname(logFile), { recursive: true });
+      await fs.appendFile(
+        logFile,
+        JSON.stringify({ id, to, body, sentAt: new Date().toISOString() }) + '\n',
+        'utf-8'
+      );
+
+      logger.info('SMS written to log provider', { to, logFile });
+      return { id, provider: 'log' };
+    },
+  };
+}
+
+/**
+ * Build the provider for a given configuration
+ */
+export function createSmsProvider(config: SmsConfig): SmsProvider {
+  switch (config.provider) {
+    case 'log':
+      return createLogProvider(config);
+    case 'twilio':
+      return createTwilioProvider(config);
+    default:
+      throw new Error(`Unsupported SMS provider: ${config.provider}`);
+  }
+}
+
+function isProviderReady(config: SmsConfig | null): config is SmsConfig {
+  if (!config) return false;
+  if (config.provider === 'log') return true;
+  return isSmsConfigComplete({
+    accountSid: config.accountSid,
+    authToken: config.authToken,
+    phoneNumber: config.phoneNumber,
+  });
+}
+
+async function getSmsProvider(): Promise<SmsProvider | null> {
+  try {
+    const config = await getSmsConfig();
+    if (isProviderReady(config)) {
+      return createSmsProvider(config);
+    }
+  } catch (error) {
+    logger.error('Error creating SMS provider from config', error);
+  }
+  return null;
+}
+
+export async function isSmsConfigured(): Promise<boolean> {
+  return isProviderReady(await getSmsConfig());
+}
+
+/**
+ * Normalize a user-entered phone number to E.164.
+ * Ten-digit numbers are assumed to be North American, matching formatPhoneNumber.
+ * Returns null if the number cannot be used for SMS.
+ */
+export function normalizePhoneNumber(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+
+  let normalized: string;
+  if (trimmed.startsWith('+')) {
+    normalized = `+${digits}`;
+  } else if (digits.length === 10) {
+    normalized = `+1${digits}`;
+  } else if (digits.length === 11 && digits.startsWith('1')) {
+    normalized = `+${digits}`;
+  } else {
+    normalized = `+${digits}`;
+  }
+
+  return /^\+[1-9]\d{7,14}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Whether a guest has opted in to text messages and has a usable number
+ */
+export function shouldSendSms(guest: { notifyBySms?: boolean | null; phone?: string | null }): boolean {
+  return !!guest.notifyBySms && normalizePhoneNumber(guest.phone) !== null;
+}
+
+/**
+ * Send a raw text message through the configured provider
+ */
+export async function sendSms({ to, body }: SmsMessage): Promise<SmsSendResult> {
+  const provider = await getSmsProvider();
+  if (!provider) {
+    logger.warn('SMS not configured - skipping text message', { to });
+    throw new Error('SMS service not configured. Please configure an SMS provider in the admin settings.');
+  }
+
+  const normalizedTo = normalizePhoneNumber(to);
+  if (!normalizedTo) {
+    throw new Error(`Invalid phone number: ${to}`);
+  }
+
+  return provider.send({ to: normalizedTo, body });
+}
+
+/**
+ * Default message bodies, used when no SmsTemplate row overrides them
+ */
+export const DEFAULT_SMS_TEMPLATES: Record<string, string> = {
+  invitation: "{{greeting}} {{hostName}} invited you to {{eventTitle}} on {{eventDate}}{{eventAddress}}. RSVP: {{rsvpLink}}",
+  reminder: "{{greeting}} Reminder: please RSVP for {{eventTitle}} on {{eventDate}}. RSVP: {{rsvpLink}}",
+  confirmation: "{{greeting}} Your RSVP for {{eventTitle}} is recorded: {{statusLabel}}. Changes: {{editLink}}",
+  broadcast: "[{{eventTitle}}] {{subject}}: {{message}}",
+  eventChange: "{{greeting}} {{eventTitle}} has been updated ({{changes}}). Details: {{rsvpLink}}",
+};
+
+/**
+ * Render a template, dropping empty placeholders along with the spaces before them.
+ * Line breaks are kept, since broadcasts and custom templates are written by hosts.
+ */
+function renderSmsTemplate(template: string, values: Record<string, string>): string {
+  const withoutEmpty = template.replace(/[ \t]*\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    values[key] ? placeholder : ''
+  );
+
+  return renderTemplate(withoutEmpty, values)
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+async function getSmsTemplate(name: string): Promise<string> {
+  try {
+    const template = await prisma.smsTemplate.findUnique({
+      where: { name },
+    });
+    if (template?.message) {
+      return template.message;
+    }
+  } catch (error) {
+    logger.error('Error reading SMS template from database', error, { name });
+  }
+  return DEFAULT_SMS_TEMPLATES[name];
+}
+
+async function sendTemplatedSms(to: string, templateName: string, values: Record<string, string>) {
+  const template = await getSmsTemplate(templateName);
+  return sendSms({ to, body: renderSmsTemplate(template, values) });
+}
+
+function greeting(guestName?: string | null): string {
+  return guestName ? `Hi ${guestName},` : 'Hi,';
+}
+
+interface SmsEventDetails extends AddressFields {
+  title: string;
+  date: Date;
+}
+
+function eventAddressSuffix(event: SmsEventDetails): string {
+  return hasAddress(event) ? ` at ${formatAddressOneLine(event)}` : '';
+}
+
+interface SendInvitationSmsParams {
+  to: string;
+  guestName?: string | null;
+  event: SmsEventDetails;
+  rsvpToken: string;
+  hostName?: string | null;
+}
+
+export async function sendInvitationSms({
+  to,
+  guestName,
+  event,
+  rsvpToken,
+  hostName,
+}: SendInvitationSmsParams) {
+  const appUrl = await getAppUrl();
+
+  return sendTemplatedSms(to, 'invitation', {
+    greeting: greeting(guestName),
+    guestName: guestName || '',
+    hostName: hostName || 'Someone',
+    eventTitle: event.title,
+    eventDate: formatDateTime(event.date),
+    eventAddress: eventAddressSuffix(event),
+    rsvpLink: `${appUrl}/rsvp/${rsvpToken}`,
+  });
+}
+
+interface SendReminderSmsParams {
+  to: string;
+  guestName?: string | null;
+  event: SmsEventDetails;
+  rsvpToken: string;
+}
+
+export async function sendReminderSms({
+  to,
+  guestName,
+  event,
+  rsvpToken,
+}: SendReminderSmsParams) {
+  const appUrl = await getAppUrl();
+
+  return sendTemplatedSms(to, 'reminder', {
+    greeting: greeting(guestName),
+    guestName: guestName || '',
+    eventTitle: event.title,
+    eventDate: formatDateTime(event.date),
+    eventAddress: eventAddressSuffix(event),
+    rsvpLink: `${appUrl}/rsvp/${rsvpToken}`,
+  });
+}
+
+const SMS_STATUS_LABELS: Record<string, string> = {
+  ATTENDING: 'Attending',
+  NOT_ATTENDING: 'Not attending',
+  MAYBE: 'Maybe',
+  PENDING: 'Pending',
+  WAITLISTED: 'Waitlisted',
+};
+
+interface SendConfirmationSmsParams {
+  to: string;
+  guestName?: string | null;
+  event: SmsEventDetails;
+  status: string;
+  rsvpToken: string;
+}
+
+export async function sendConfirmationSms({
+  to,
+  guestName,
+  event,
+  status,
+  rsvpToken,
+}: SendConfirmationSmsParams) {
+  const appUrl = await getAppUrl();
+
+  return sendTemplatedSms(to, 'confirmation', {
+    greeting: greeting(guestName),
+    guestName: guestName || '',
+    eventTitle: event.title,
+    eventDate: formatDateTime(event.date),
+    eventAddress: eventAddressSuffix(event),
+    statusLabel: SMS_STATUS_LABELS[status] || status,
+    editLink: `${appUrl}/rsvp/${rsvpToken}/edit`,
+  });
+}
+
+interface SendBroadcastSmsParams {
+  to: string;
+  guestName?: string | null;
+  subject: string;
+  message: string;
+  eventTitle: string;
+}
+
+export async function sendBroadcastSms({
+  to,
+  guestName,
+  subject,
+  message,
+  eventTitle,
+}: SendBroadcastSmsParams) {
+  return sendTemplatedSms(to, 'broadcast', {
+    greeting: greeting(guestName),
+    guestName: guestName || '',
+    eventTitle,
+    subject,
+    message,
+  });
+}
+
+interface SendEventChangeSmsParams {
+  to: string;
+  guestName?: string | null;
+  eventTitle: string;
+  changes: { field: string; oldValue: string; newValue: string }[];
+  rsvpToken: string;
+}
+
+export async function sendEventChangeSms({
+  to,
+  guestName,
+  eventTitle,
+  changes,
+  rsvpToken,
+}: SendEventChangeSmsParams) {
+  const appUrl = await getAppUrl();
+
+  return sendTemplatedSms(to, 'eventChange', {
+    greeting: greeting(guestName),
+    guestName: guestName || '',
+    eventTitle,
+    changes: changes.map((c) => `${c.field}: ${c.newValue}`).join('; '),
+    rsvpLink: `${appUrl}/rsvp/${rsvpToken}`,
+  });
+}
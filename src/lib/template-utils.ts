@@ -0,0 +1,76 @@
+/**
+ * Minimal merge-variable templating shared by email and SMS messages.
+ *
+ * Supported syntax:
+ *   {{name}}                         - replaced with the value (empty if missing)
+ *   {{#if name}}...{{/if}}           - kept only when the value is non-empty
+ *   {{#if name}}...{{else}}...{{/if}} - with a fallback branch
+ *
+ * Blocks may be nested; inner blocks are resolved first.
+ */
+
+export type TemplateValues = Record<string, string | null | undefined>;
+
+interface RenderTemplateOptions {
+  /** Escape values for safe inclusion in HTML */
+  escapeHtml?: boolean;
+  /** Pre-rendered HTML values, inserted as-is (only used when escapeHtml is set) */
+  htmlValues?: TemplateValues;
+}
+
+// Matches a block that contains no other {{#if}}, i.e. the innermost one
+const CONDITIONAL_PATTERN =
+  /\{\{#if\s+(\w+)\s*\}\}((?:(?!\{\{#if)[\s\S])*?)(?:\{\{else\}\}((?:(?!\{\{#if)[\s\S])*?))?\{\{\/if\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a template string with the given values
+ */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues,
+  options: RenderTemplateOptions = {}
+): string {
+  const htmlValues = options.escapeHtml ? options.htmlValues || {} : {};
+
+  const lookup = (key: string): string => {
+    const html = htmlValues[key];
+    if (html !== undefined && html !== null) {
+      return html;
+    }
+    const value = values[key] ?? '';
+    return options.escapeHtml ? escapeHtml(value) : value;
+  };
+
+  let output = template;
+  let previous: string;
+  do {
+    previous = output;
+    output = output.replace(CONDITIONAL_PATTERN, (_, key: string, whenSet: string, otherwise?: string) =>
+      lookup(key) ? whenSet : otherwise || ''
+    );
+  } while (output !== previous);
+
+  return output.replace(VARIABLE_PATTERN, (_, key: string) => lookup(key));
+}
+
+/**
+ * List the merge variables referenced by a template (including those used in conditions)
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  Array.from(template.matchAll(/\{\{(?:#if\s+)?\s*(\w+)\s*\}\}/g)).forEach((match) => {
+    if (match[1] !== 'else') {
+      names.add(match[1]);
+    }
+  });
+  return Array.from(names);
+}
@@ -0,0 +1,138 @@
+import { prisma } from './prisma';
+import { sendWaitlistPromotion } from './email';
+import { logger } from './logger';
+
+/**
+ * People attending an event: each attending invitee plus their additional guests.
+ * Pass excludeGuestId to leave out a guest whose RSVP is being re-checked.
+ */
+export async function getAttendingHeadcount(eventId: string, excludeGuestId?: string): Promise<number> {
+  const guests = await prisma.guest.findMany({
+    where: {
+      eventId,
+      status: 'ATTENDING',
+      ...(excludeGuestId && { id: { not: excludeGuestId } }),
+    },
+    select: {
+      _count: { select: { additionalGuests: true } },
+    },
+  });
+
+  return guests.reduce((sum, guest) => sum + 1 + guest._count.additionalGuests, 0);
+}
+
+/**
+ * Work out the status for a guest who wants to attend.
+ * Parties that don't fit - or would jump ahead of people already waiting - go on the waitlist.
+ * Guests who already hold a spot keep it, but can't grow their party past the capacity.
+ */
+export async function resolveAttendingStatus(
+  event: { id: string; capacity: number | null },
+  partySize: number,
+  guest?: { id: string; status: string; waitlistedAt?: Date | null } | null
+): Promise<{ status: 'ATTENDING' | 'WAITLISTED'; error?: string }> {
+  if (event.capacity === null) {
+    return { status: 'ATTENDING' };
+  }
+
+  const remaining = event.capacity - (await getAttendingHeadcount(event.id, guest?.id));
+
+  if (guest?.status === 'ATTENDING') {
+    if (partySize > remaining) {
+      return {
+        status: 'ATTENDING',
+        error: `This event is almost full - your party can have at most ${Math.max(remaining, 1)} ${remaining === 1 ? 'person' : 'people'}, including yourself`,
+      };
+    }
+    return { status: 'ATTENDING' };
+  }
+
+  const waitingAhead = await prisma.guest.count({
+    where: {
+      eventId: event.id,
+      status: 'WAITLISTED',
+      ...(guest && { id: { not: guest.id } }),
+      ...(guest?.waitlistedAt && { waitlistedAt: { lt: guest.waitlistedAt } }),
+    },
+  });
+
+  return { status: partySize <= remaining && waitingAhead === 0 ? 'ATTENDING' : 'WAITLISTED' };
+}
+
+/**
+ * Move waitlisted guests to attending, first come first served, while there is room.
+ * Stops at the first party that doesn't fit so nobody is skipped.
+ * Each promoted guest is emailed. Returns the number of guests promoted.
+ */
+export async function promoteWaitlistedGuests(eventId: string): Promise<number> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      capacity: true,
+      locationName: true,
+      streetAddress1: true,
+      streetAddress2: true,
+      city: true,
+      state: true,
+      zipCode: true,
+      coverImage: true,
+      replyTo: true,
+    },
+  });
+  if (!event) {
+    return 0;
+  }
+
+  const waitlisted = await prisma.guest.findMany({
+    where: { eventId, status: 'WAITLISTED' },
+    include: {
+      _count: { select: { additionalGuests: true } },
+    },
+    orderBy: { waitlistedAt: 'asc' },
+  });
+  if (waitlisted.length === 0) {
+    return 0;
+  }
+
+  let headcount = event.capacity === null ? 0 : await getAttendingHeadcount(eventId);
+  let promoted = 0;
+
+  for (const guest of waitlisted) {
+    const partySize = 1 + guest._count.additionalGuests;
+    if (event.capacity !== null && headcount + partySize > event.capacity) {
+      break;
+    }
+
+    // Only promote guests who are still waiting, in case another request got there first
+    const claimed = await prisma.guest.updateMany({
+      where: { id: guest.id, status: 'WAITLISTED' },
+      data: { status: 'ATTENDING', waitlistedAt: null },
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    headcount += partySize;
+    promoted++;
+    logger.info('Promoted guest from waitlist', { eventId, guestId: guest.id });
+
+    if (guest.notifyByEmail) {
+      await sendWaitlistPromotion({
+        to: guest.email,
+        guestName: guest.name,
+        event,
+        rsvpToken: guest.token,
+        replyTo: event.replyTo,
+        guestId: guest.id,
+        queue: true,
+      }).catch((error) => {
+        logger.error('Failed to send waitlist promotion email', error, { guestId: guest.id });
+      });
+    }
+  }
+
+  return promoted;
+}
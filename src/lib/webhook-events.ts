@@ -0,0 +1,49 @@
+/**
+ * What webhooks can subscribe to. Kept apart from lib/webhooks.ts so the settings UI
+ * can list the event types without pulling in the server code.
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'rsvp.created',
+  'rsvp.updated',
+  'guest.added',
+  'event.updated',
+  'comment.created',
+  'checkin',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Sent by the "Send test" button; every webhook receives it
+export const WEBHOOK_TEST_TYPE = 'ping';
+
+export const WEBHOOK_EVENT_DEFINITIONS: Record<WebhookEventType, { label: string; description: string }> = {
+  'rsvp.created': {
+    label: 'New RSVP',
+    description: 'A guest answers for the first time',
+  },
+  'rsvp.updated': {
+    label: 'RSVP changed',
+    description: 'A guest changes their answer or party',
+  },
+  'guest.added': {
+    label: 'Guest added',
+    description: 'A host adds or imports guests',
+  },
+  'event.updated': {
+    label: 'Event updated',
+    description: 'The event details are edited',
+  },
+  'comment.created': {
+    label: 'New comment',
+    description: 'Someone posts on the guest wall',
+  },
+  checkin: {
+    label: 'Check-in',
+    description: 'A guest is checked in at the door',
+  },
+};
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,537 @@
+/**
+ * Outgoing webhooks. When guests RSVP, are added or check in, a comment is posted or
+ * the event changes, every webhook subscribed to that type is sent a JSON POST:
+ *
+ *   { "type": "rsvp.updated", "createdAt": "...", "event": { id, title, slug, date }, "data": { ... } }
+ *
+ * Calls are queued like outgoing emails and retried with backoff until the endpoint
+ * answers with a 2xx. Each request is signed with the webhook's secret:
+ *
+ *   X-OwnRSVP-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Any signed-in user can add a webhook, so calls only go to public addresses: the
+ * host name is resolved before each attempt and loopback, private, link-local and
+ * cloud metadata addresses are refused. The request then connects to the addresses that
+ * were checked rather than resolving the name again, so a host whose DNS answer changes
+ * in between can't send it to this server's network. Redirects aren't followed, and
+ * only the status code of a failed call is kept, never the response body.
+ */
+
+import crypto from 'crypto';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Agent, fetch } from 'undici';
+import type { Comment, Event, Webhook, WebhookDelivery } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { getRetryDelay } from './email-queue';
+import { canManageEvent } from './event-access';
+import { isWebhookEventType, WEBHOOK_TEST_TYPE, WebhookEventType } from './webhook-events';
+
+// Endpoints that take longer than this to answer are treated as down
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A delivery stuck in SENDING this long was claimed by a worker that died mid-request
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 50;
+
+// Addresses webhooks may not call: this server, the networks around it and the
+// cloud metadata endpoint (169.254.169.254 is link-local)
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface WebhookGuest {
+  id: string;
+  name: string | null;
+  email: string;
+  phone: string | null;
+  status: string;
+  dietaryNotes: string | null;
+  /** Names of the rest of the party, when the change involved them */
+  additionalGuests?: string[];
+  respondedVia: string | null;
+  respondedAt: Date | null;
+  checkedInAt: Date | null;
+}
+
+export interface ProcessWebhookQueueResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * A new signing secret, shown to the host so their endpoint can check signatures
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * The X-OwnRSVP-Signature header for a request body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * The event types a webhook is subscribed to
+ */
+export function parseWebhookEvents(events: string | null): WebhookEventType[] {
+  if (!events) return [];
+  try {
+    const parsed = JSON.parse(events);
+    return Array.isArray(parsed) ? parsed.filter(isWebhookEventType) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A guest as sent in webhook payloads
+ */
+export function toWebhookGuest(guest: {
+  id: string;
+  name: string | null;
+  email: string;
+  phone?: string | null;
+  status: string;
+  dietaryNotes?: string | null;
+  additionalGuests?: { name: string }[];
+  respondedVia?: string | null;
+  respondedAt?: Date | null;
+  checkedInAt?: Date | null;
+}): WebhookGuest {
+  return {
+    id: guest.id,
+    name: guest.name,
+    email: guest.email,
+    phone: guest.phone ?? null,
+    status: guest.status,
+    dietaryNotes: guest.dietaryNotes ?? null,
+    ...(guest.additionalGuests && {
+      additionalGuests: guest.additionalGuests.map((additionalGuest) => additionalGuest.name),
+    }),
+    respondedVia: guest.respondedVia ?? null,
+    respondedAt: guest.respondedAt ?? null,
+    checkedInAt: guest.checkedInAt ?? null,
+  };
+}
+
+/**
+ * An event's details as sent in event.updated payloads
+ */
+export function toWebhookEvent(event: Event) {
+  return {
+    id: event.id,
+    slug: event.slug,
+    title: event.title,
+    description: event.description,
+    date: event.date,
+    endDate: event.endDate,
+    timezone: event.timezone,
+    rsvpDeadline: event.rsvpDeadline,
+    locationName: event.locationName,
+    streetAddress1: event.streetAddress1,
+    streetAddress2: event.streetAddress2,
+    city: event.city,
+    state: event.state,
+    zipCode: event.zipCode,
+    capacity: event.capacity,
+    maxGuestsPerInvitee: event.maxGuestsPerInvitee,
+    isPublic: event.isPublic,
+    requireApproval: event.requireApproval,
+  };
+}
+
+/**
+ * Which of the details in event.updated payloads differ between two versions of an event
+ */
+export function getChangedEventFields(before: Event, after: Event): string[] {
+  const previous: Record<string, unknown> = toWebhookEvent(before);
+  const current: Record<string, unknown> = toWebhookEvent(after);
+  const normalize = (value: unknown) => (value instanceof Date ? value.getTime() : value ?? null);
+
+  return Object.keys(current).filter((field) => normalize(previous[field]) !== normalize(current[field]));
+}
+
+/**
+ * A guest wall message as sent in webhook payloads
+ */
+export function toWebhookComment(comment: Comment) {
+  return {
+    id: comment.id,
+    authorName: comment.authorName,
+    content: comment.content,
+    status: comment.status,
+    parentId: comment.parentId,
+    guestId: comment.guestId,
+    fromHost: !!comment.userId,
+    createdAt: comment.createdAt,
+  };
+}
+
+/**
+ * Event webhooks are managed by anyone who can edit the event, account-wide ones only
+ * by their owner
+ */
+export async function canManageWebhook(userId: string, webhook: { userId: string; eventId: string | null }): Promise<boolean> {
+  return webhook.eventId ? canManageEvent(userId, webhook.eventId, 'editEvent') : webhook.userId === userId;
+}
+
+/**
+ * A webhook as returned by the API, with its subscribed types parsed
+ */
+export function toWebhookResponse(webhook: Webhook) {
+  return {
+    id: webhook.id,
+    eventId: webhook.eventId,
+    url: webhook.url,
+    secret: webhook.secret,
+    events: parseWebhookEvents(webhook.events),
+    active: webhook.active,
+    createdAt: webhook.createdAt,
+  };
+}
+
+/**
+ * rsvp.created for a guest's first answer, rsvp.updated when they change it
+ */
+export function getRsvpWebhookType(previousStatus: string | null | undefined): WebhookEventType {
+  return !previousStatus || previousStatus === 'PENDING' ? 'rsvp.created' : 'rsvp.updated';
+}
+
+function buildPayload(type: string, event: { id: string; title: string; slug: string; date: Date } | null, data: unknown): string {
+  return JSON.stringify({
+    type,
+    createdAt: new Date().toISOString(),
+    event: event ? { id: event.id, title: event.title, slug: event.slug, date: event.date } : null,
+    data,
+  });
+}
+
+/**
+ * Queue a call to every active webhook on the event, or on its hosts' accounts, that
+ * is subscribed to this type. Never throws; a webhook problem mustn't fail the RSVP
+ * or edit that caused it.
+ */
+export async function dispatchWebhookEvent(type: WebhookEventType, eventId: string, data: unknown): Promise<void> {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        active: true,
+        OR: [
+          { eventId },
+          {
+            eventId: null,
+            user: {
+              OR: [{ events: { some: { id: eventId } } }, { coHostedEvents: { some: { eventId } } }],
+            },
+          },
+        ],
+      },
+    });
+
+    const subscribed = webhooks.filter((webhook) => parseWebhookEvents(webhook.events).includes(type));
+    if (subscribed.length === 0) {
+      return;
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, title: true, slug: true, date: true },
+    });
+    const payload = buildPayload(type, event, data);
+
+    await prisma.webhookDelivery.createMany({
+      data: subscribed.map((webhook) => ({ webhookId: webhook.id, type, payload })),
+    });
+
+    triggerWebhookQueue();
+  } catch (error) {
+    logger.error('Failed to queue webhook deliveries', error, { type, eventId });
+  }
+}
+
+/**
+ * Whether a webhook may call this IP address. IPv4 addresses written as IPv6
+ * (::ffff:127.0.0.1) are checked as IPv4.
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) return false;
+  return !blockedAddresses.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * The addresses a webhook may connect to for this URL, or why it can't call it right
+ * now. Every address the host name resolves to must be public.
+ */
+async function resolveWebhookTarget(url: string): Promise<{ addresses: LookupAddress[] } | { refused: string }> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return { refused: 'Invalid webhook URL' };
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await lookup(hostname, { all: true });
+  } catch {
+    return { refused: `Could not resolve ${hostname}` };
+  }
+
+  if (addresses.length === 0 || !addresses.every((result) => isPublicAddress(result.address))) {
+    return { refused: 'Webhook URL points to a private or local network address' };
+  }
+  return { addresses };
+}
+
+/**
+ * Why a webhook can't call this URL right now, or null if it can
+ */
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  const target = await resolveWebhookTarget(url);
+  return 'refused' in target ? target.refused : null;
+}
+
+/**
+ * A connection pool that only ever connects to the given, already checked addresses:
+ * its lookup hands them back instead of asking DNS again.
+ */
+function createPinnedAgent(addresses: LookupAddress[]): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+    },
+  });
+}
+
+/**
+ * Make one attempt at a delivery and record the outcome
+ */
+async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let dispatcher: Agent | null = null;
+
+  try {
+    const target = await resolveWebhookTarget(webhook.url);
+    if ('refused' in target) {
+      throw new Error(target.refused);
+    }
+    dispatcher = createPinnedAgent(target.addresses);
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'OwnRSVP-Webhooks',
+        'X-OwnRSVP-Event': delivery.type,
+        'X-OwnRSVP-Delivery': delivery.id,
+        'X-OwnRSVP-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: controller.signal,
+      redirect: 'manual',
+      dispatcher,
+    });
+
+    responseStatus = response.status;
+    // The body isn't read: it could be anything the endpoint chose to send back
+    if (!response.ok) {
+      lastError = `HTTP ${response.status}`;
+    }
+  } catch (error) {
+    lastError = controller.signal.aborted
+      ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+      : error instanceof Error ? error.message : String(error);
+  } finally {
+    clearTimeout(timeout);
+    dispatcher?.close().catch(() => {});
+  }
+
+  if (!lastError) {
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'SENT', attempts, responseStatus, lastError: null, deliveredAt: new Date() },
+    });
+  }
+
+  const giveUp = attempts >= delivery.maxAttempts;
+  if (giveUp) {
+    logger.error('Giving up on webhook delivery', undefined, { id: delivery.id, webhookId: webhook.id, attempts, error: lastError });
+  } else {
+    logger.warn('Webhook delivery failed - will retry', { id: delivery.id, webhookId: webhook.id, attempts, error: lastError });
+  }
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: giveUp ? 'FAILED' : 'PENDING',
+      attempts,
+      responseStatus,
+      lastError,
+      nextRetryAt: giveUp ? delivery.nextRetryAt : new Date(Date.now() + getRetryDelay(attempts)),
+    },
+  });
+}
+
+/**
+ * Send due webhook deliveries. Each is claimed first so concurrent workers never send
+ * it twice. Deliveries to webhooks that have been turned off are dropped.
+ */
+export async function processWebhookQueue({ limit = DEFAULT_BATCH_SIZE }: { limit?: number } = {}): Promise<ProcessWebhookQueueResult> {
+  const result: ProcessWebhookQueueResult = { sent: 0, retrying: 0, failed: 0 };
+
+  const now = new Date();
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      OR: [
+        { status: 'PENDING', nextRetryAt: { lte: now } },
+        { status: 'SENDING', updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      ],
+    },
+    include: { webhook: true },
+    orderBy: { nextRetryAt: 'asc' },
+    take: limit,
+  });
+
+  for (const { webhook, ...delivery } of due) {
+    if (!webhook.active) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'FAILED', lastError: 'Webhook turned off' },
+      });
+      continue;
+    }
+
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: delivery.status, updatedAt: delivery.updatedAt },
+      data: { status: 'SENDING' },
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const updated = await attemptDelivery(delivery, webhook);
+    if (updated.status === 'SENT') result.sent++;
+    else if (updated.status === 'FAILED') result.failed++;
+    else result.retrying++;
+  }
+
+  return result;
+}
+
+let isDraining = false;
+let drainRequested = false;
+
+/**
+ * Send queued deliveries in the background without blocking the caller.
+ * Deliveries backing off are picked up by the scheduler.
+ */
+export function triggerWebhookQueue() {
+  if (isDraining) {
+    // Run again once the current pass finishes so new deliveries aren't left waiting
+    drainRequested = true;
+    return;
+  }
+  isDraining = true;
+  drainRequested = false;
+
+  processWebhookQueue()
+    .catch((error) => logger.error('Error processing webhook queue', error))
+    .finally(() => {
+      isDraining = false;
+      if (drainRequested) {
+        triggerWebhookQueue();
+      }
+    });
+}
+
+/**
+ * Call a webhook right away with a "ping" payload, so the host can check their
+ * endpoint. Tests are tried once and not retried.
+ */
+export async function sendTestWebhook(webhook: Webhook): Promise<WebhookDelivery> {
+  const event = webhook.eventId
+    ? await prisma.event.findUnique({
+        where: { id: webhook.eventId },
+        select: { id: true, title: true, slug: true, date: true },
+      })
+    : null;
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: webhook.id,
+      type: WEBHOOK_TEST_TYPE,
+      payload: buildPayload(WEBHOOK_TEST_TYPE, event, { message: 'Test delivery from OwnRSVP' }),
+      status: 'SENDING',
+      maxAttempts: 1,
+    },
+  });
+
+  return attemptDelivery(delivery, webhook);
+}
+
+/**
+ * A webhook's most recent deliveries, newest first. Payloads are left out.
+ */
+export async function listWebhookDeliveries(webhookId: string, take = 50) {
+  return prisma.webhookDelivery.findMany({
+    where: { webhookId },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      attempts: true,
+      maxAttempts: true,
+      responseStatus: true,
+      lastError: true,
+      nextRetryAt: true,
+      deliveredAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
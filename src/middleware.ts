@@ -1,15 +1,39 @@
 import { auth } from '@/auth';
 import { NextResponse } from 'next/server';
 import { isValidEmail } from '@/lib/utils';
+import { buildFrameAncestorsPolicy } from '@/lib/embed';
 import { logger } from '@/lib/logger';
 
+/**
+ * The RSVP widget page, with a frame-ancestors policy for the sites the event allows.
+ * Fails closed: if the list can't be loaded, nothing may frame the page.
+ */
+async function embedResponse(req: Request, slugSegment: string) {
+  let origins: string[] = [];
+  try {
+    // The slug is passed on still URL-encoded, as it came in the path
+    const response = await fetch(new URL(`/api/events/public/${slugSegment}/embed`, req.url), {
+      cache: 'no-store',
+    });
+    if (response.ok) {
+      origins = (await response.json()).origins;
+    }
+  } catch (error) {
+    logger.error('Failed to load embed origins', error);
+  }
+
+  const response = NextResponse.next();
+  response.headers.set('Content-Security-Policy', buildFrameAncestorsPolicy(origins));
+  return response;
+}
+
 export default auth(async (req) => {
   try {
     const isLoggedIn = !!req.auth;
     const { pathname } = req.nextUrl;
 
     // Public routes
-    const publicRoutes = ['/', '/login', '/register', '/events', '/rsvp', '/invite', '/design-preview'];
+    const publicRoutes = ['/', '/login', '/register', '/events', '/rsvp', '/invite', '/design-preview', '/docs', '/embed', '/embed.js'];
     const isPublicRoute = publicRoutes.some(
       (route) => pathname === route || pathname.startsWith(`${route}/`)
     );
@@ -21,6 +45,11 @@ export default auth(async (req) => {
       pathname.startsWith('/api/events/public') ||
       pathname.startsWith('/api/design-preview');
 
+    const embedMatch = pathname.match(/^\/embed\/events\/([^/]+)\/?$/);
+    if (embedMatch) {
+      return embedResponse(req, embedMatch[1]);
+    }
+
     if (isPublicRoute || isPublicApi) {
       return NextResponse.next();
     }
@@ -18,6 +18,12 @@ vi.mock('@/lib/email', () => ({
   sendInvitation: vi.fn(),
 }))
 
+// Mock the media store so tests never touch uploaded images on disk
+vi.mock('@/lib/media', () => ({
+  clearMediaStore: vi.fn(),
+  deleteUnusedMedia: vi.fn(),
+}))
+
 import { PATCH as updateUser, DELETE as deleteUser } from '@/app/api/admin/users/[userId]/route'
 import { GET as getEmailConfig, PATCH as updateEmailConfigRoute, POST as sendTestEmail } from '@/app/api/admin/config/email/route'
 import { GET as getAppUrlConfig, PATCH as updateAppUrlConfig } from '@/app/api/admin/config/app/route'
@@ -25,6 +31,7 @@ import { POST as factoryReset } from '@/app/api/admin/factory-reset/route'
 import { POST as bulkDeleteEvents } from '@/app/api/admin/events/bulk-delete/route'
 import { getEmailConfig as getEmailConfigFn, updateEmailConfig as updateEmailConfigFn, syncToEnvFile, getAppUrl, updateAppUrl } from '@/lib/config'
 import { sendInvitation } from '@/lib/email'
+import { clearMediaStore } from '@/lib/media'
 
 // Helper to create mock NextRequest
 function createMockRequest(
@@ -905,6 +912,8 @@ describe('Admin Factory Reset - POST /api/admin/factory-reset', () => {
     ;(prisma.userInvitation.deleteMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 2 })
     ;(prisma.passwordResetToken.deleteMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 })
     ;(prisma.appConfig.deleteMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 10 })
+    ;(prisma.emailTemplate.deleteMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 })
+    ;(prisma.outboundEmail.deleteMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 2 })
     ;(prisma.account.deleteMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 3 })
     ;(prisma.session.deleteMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 5 })
     ;(prisma.verificationToken.deleteMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 0 })
@@ -954,10 +963,13 @@ describe('Admin Factory Reset - POST /api/admin/factory-reset', () => {
     expect(prisma.userInvitation.deleteMany).toHaveBeenCalled()
     expect(prisma.passwordResetToken.deleteMany).toHaveBeenCalled()
     expect(prisma.appConfig.deleteMany).toHaveBeenCalled()
+    expect(prisma.emailTemplate.deleteMany).toHaveBeenCalled()
+    expect(prisma.outboundEmail.deleteMany).toHaveBeenCalled()
     expect(prisma.account.deleteMany).toHaveBeenCalled()
     expect(prisma.session.deleteMany).toHaveBeenCalled()
     expect(prisma.verificationToken.deleteMany).toHaveBeenCalled()
     expect(prisma.user.deleteMany).toHaveBeenCalled()
+    expect(clearMediaStore).toHaveBeenCalled()
   })
 
   it('returns 500 when database deletion fails', async () => {
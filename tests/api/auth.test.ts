@@ -12,6 +12,8 @@ import { createMockUser } from '../setup'
 vi.mock('@/lib/email', () => ({
   sendPasswordResetEmail: vi.fn(() => Promise.resolve()),
   sendUserInvitationEmail: vi.fn(() => Promise.resolve()),
+  sendCalendarFeedLink: vi.fn(() => Promise.resolve(true)),
+  isEmailConfigured: vi.fn(() => Promise.resolve(true)),
 }))
 
 // Mock the config module
@@ -25,12 +27,20 @@ vi.mock('@/lib/config', () => ({
   }),
 }))
 
+// Mock the spam check - off unless a test turns it on
+vi.mock('@/lib/challenge', () => ({
+  isChallengeRequired: vi.fn(),
+  verifyChallengeSolution: vi.fn(),
+}))
+
 // Import route handlers after mocking
 import { POST as registerHandler } from '@/app/api/auth/register/route'
 import { POST as forgotPasswordHandler } from '@/app/api/auth/forgot-password/route'
 import { POST as resetPasswordPostHandler, GET as resetPasswordGetHandler } from '@/app/api/auth/reset-password/route'
 import { GET as getProfileHandler, PATCH as updateProfileHandler } from '@/app/api/user/profile/route'
-import { sendPasswordResetEmail, sendUserInvitationEmail } from '@/lib/email'
+import { POST as sendInvitedFeedHandler } from '@/app/api/user/calendar-feeds/invited/route'
+import { sendPasswordResetEmail, sendUserInvitationEmail, sendCalendarFeedLink } from '@/lib/email'
+import { isChallengeRequired, verifyChallengeSolution } from '@/lib/challenge'
 
 // Helper to mock authenticated session
 const mockAuthSession = (user: { id: string; email: string; role: string; name?: string }) => {
@@ -579,6 +589,25 @@ describe('Authentication API', () => {
         expect(body.error).toContain('error occurred')
       })
     })
+
+    describe('Spam Protection', () => {
+      it('should require a solved spam check when spam protection is on', async () => {
+        vi.mocked(isChallengeRequired).mockResolvedValue(true)
+        vi.mocked(verifyChallengeSolution).mockResolvedValue(false)
+
+        const request = createMockRequest('POST', '/api/auth/forgot-password', {
+          body: { email: 'user@example.com', challenge: 'bad-solution' },
+        })
+
+        const response = await forgotPasswordHandler(request)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(400)
+        expect(body.code).toBe('CHALLENGE_FAILED')
+        expect(verifyChallengeSolution).toHaveBeenCalledWith('bad-solution')
+        expect(prisma.user.findUnique).not.toHaveBeenCalled()
+      })
+    })
   })
 
   // ============================================
@@ -1174,6 +1203,48 @@ describe('Authentication API', () => {
     })
   })
 
+  describe('POST /api/user/calendar-feeds/invited', () => {
+    const request = () => createMockRequest('POST', 'http://localhost:3000/api/user/calendar-feeds/invited')
+
+    it('emails the link to the account address instead of returning it', async () => {
+      mockAuthSession({ id: 'user-1', email: 'sam@example.com', role: 'USER' })
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: 'sam@example.com', name: 'Sam' } as any)
+      vi.mocked(prisma.calendarFeed.upsert).mockResolvedValue({ token: 'feed-token' } as any)
+
+      const response = await sendInvitedFeedHandler(request())
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(200)
+      expect(JSON.stringify(body)).not.toContain('feed-token')
+      expect(sendCalendarFeedLink).toHaveBeenCalledWith({
+        to: 'sam@example.com',
+        guestName: 'Sam',
+        feedUrl: expect.stringContaining('/api/calendar/feed-token.ics'),
+      })
+    })
+
+    it('keeps the link someone may already have for the address', async () => {
+      mockAuthSession({ id: 'user-1', email: 'sam@example.com', role: 'USER' })
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: 'sam@example.com', name: 'Sam' } as any)
+      vi.mocked(prisma.calendarFeed.upsert).mockResolvedValue({ token: 'feed-token' } as any)
+
+      await sendInvitedFeedHandler(request())
+
+      expect(prisma.calendarFeed.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { email: 'sam@example.com' }, update: {} })
+      )
+    })
+
+    it('should return 401 if not authenticated', async () => {
+      mockNoAuthSession()
+
+      const response = await sendInvitedFeedHandler(request())
+
+      expect(response.status).toBe(401)
+      expect(sendCalendarFeedLink).not.toHaveBeenCalled()
+    })
+  })
+
   // ============================================
   // Login Flow Tests (auth.ts authorize function)
   // ============================================
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { auth } from '@/auth'
+import {
+  createMockRequest,
+  createMockRouteContext,
+  parseJsonResponse,
+} from '../helpers/api-test-utils'
+import { createMockAdditionalGuest, createMockGuest } from '../setup'
+
+vi.mock('@/lib/event-access', () => ({
+  canManageEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import { GET, POST } from '@/app/api/events/[id]/check-in/route'
+import { canManageEvent } from '@/lib/event-access'
+
+function mockSession() {
+  vi.mocked(auth).mockResolvedValue({
+    user: { id: 'user-1', email: 'host@example.com', role: 'USER', name: 'Host' },
+    expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+  } as any)
+}
+
+const arrivedAt = new Date('2024-12-25T18:05:00Z')
+
+const party = (overrides = {}) =>
+  createMockGuest({
+    status: 'ATTENDING',
+    additionalGuests: [createMockAdditionalGuest({ id: 'plus-one' })],
+    ...overrides,
+  })
+
+describe('Check-in API', () => {
+  const context = createMockRouteContext({ id: 'event-1' })
+
+  beforeEach(() => {
+    mockSession()
+    vi.mocked(canManageEvent).mockResolvedValue(true)
+  })
+
+  describe('GET /api/events/[id]/check-in', () => {
+    it('should return 401 when not signed in', async () => {
+      vi.mocked(auth).mockResolvedValue(null as any)
+
+      const response = await GET(createMockRequest('GET', '/api/events/event-1/check-in'), context)
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should return 403 for users who cannot manage the event', async () => {
+      vi.mocked(canManageEvent).mockResolvedValue(false)
+
+      const response = await GET(createMockRequest('GET', '/api/events/event-1/check-in'), context)
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should return guests with arrived and expected counts', async () => {
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([party({ checkedInAt: arrivedAt })] as any)
+
+      const response = await GET(createMockRequest('GET', '/api/events/event-1/check-in'), context)
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(200)
+      expect(body.guests).toHaveLength(1)
+      expect(body.stats).toEqual({ expected: 2, arrived: 1 })
+    })
+
+    it('should reject a ticket from another event', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(party({ eventId: 'event-2' }) as any)
+
+      const response = await GET(
+        createMockRequest('GET', '/api/events/event-1/check-in', { searchParams: { token: 'guest-token-123' } }),
+        context
+      )
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(404)
+      expect(body.error).toBe('This ticket is not for this event')
+    })
+  })
+
+  describe('POST /api/events/[id]/check-in', () => {
+    it('should check in the invitee and selected additional guests', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(party() as any)
+      vi.mocked(prisma.guest.updateMany).mockResolvedValue({ count: 1 })
+      vi.mocked(prisma.additionalGuest.updateMany).mockResolvedValue({ count: 1 })
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([party({ checkedInAt: arrivedAt })] as any)
+
+      const response = await POST(
+        createMockRequest('POST', '/api/events/event-1/check-in', {
+          body: { guestId: 'guest-1', additionalGuestIds: ['plus-one'] },
+        }),
+        context
+      )
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(200)
+      expect(body.duplicates).toEqual([])
+      expect(prisma.guest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'guest-1', checkedInAt: null },
+        data: { checkedInAt: expect.any(Date) },
+      })
+      expect(prisma.additionalGuest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'plus-one', checkedInAt: null, guestId: 'guest-1' },
+        data: { checkedInAt: expect.any(Date) },
+      })
+    })
+
+    it('should warn instead of re-stamping people already checked in', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(party({ name: 'Alex', checkedInAt: arrivedAt }) as any)
+      vi.mocked(prisma.guest.updateMany).mockResolvedValue({ count: 0 })
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([] as any)
+
+      const response = await POST(
+        createMockRequest('POST', '/api/events/event-1/check-in', { body: { guestId: 'guest-1' } }),
+        context
+      )
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(200)
+      expect(body.duplicates).toEqual([{ name: 'Alex', checkedInAt: arrivedAt.toISOString() }])
+    })
+
+    it('should clear the arrival time when undoing', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(party({ checkedInAt: arrivedAt }) as any)
+      vi.mocked(prisma.guest.updateMany).mockResolvedValue({ count: 1 })
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([] as any)
+
+      await POST(
+        createMockRequest('POST', '/api/events/event-1/check-in', { body: { guestId: 'guest-1', undo: true } }),
+        context
+      )
+
+      expect(prisma.guest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'guest-1', checkedInAt: { not: null } },
+        data: { checkedInAt: null },
+      })
+    })
+
+    it('should require at least one person', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(party() as any)
+
+      const response = await POST(
+        createMockRequest('POST', '/api/events/event-1/check-in', {
+          body: { guestId: 'guest-1', includeInvitee: false, additionalGuestIds: ['someone-else'] },
+        }),
+        context
+      )
+
+      expect(response.status).toBe(400)
+      expect(prisma.additionalGuest.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { auth } from '@/auth'
+import {
+  createMockRequest,
+  parseJsonResponse,
+} from '../helpers/api-test-utils'
+import { createMockEvent, createMockGuest } from '../setup'
+
+vi.mock('@/lib/event-access', () => ({
+  canManageEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/email', () => ({
+  getEventHostsForNotification: vi.fn(),
+  sendCommentNotification: vi.fn(),
+}))
+
+vi.mock('@/lib/config', () => ({
+  getAppUrl: vi.fn(),
+}))
+
+vi.mock('@/lib/challenge', () => ({
+  isChallengeRequired: vi.fn(),
+  verifyChallengeSolution: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import { POST } from '@/app/api/comments/route'
+import { PATCH, DELETE } from '@/app/api/comments/[id]/route'
+import { canManageEvent } from '@/lib/event-access'
+import { getEventHostsForNotification, sendCommentNotification } from '@/lib/email'
+import { getAppUrl } from '@/lib/config'
+import { isChallengeRequired, verifyChallengeSolution } from '@/lib/challenge'
+
+function mockSession() {
+  vi.mocked(auth).mockResolvedValue({
+    user: { id: 'user-1', email: 'host@example.com', role: 'USER', name: 'Host Person' },
+    expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+  } as any)
+}
+
+const createMockComment = (overrides = {}) => ({
+  id: 'comment-1',
+  eventId: 'event-1',
+  guestId: null,
+  userId: null,
+  parentId: null,
+  authorName: 'Jane',
+  content: 'Looking forward to it!',
+  status: 'VISIBLE',
+  pinned: false,
+  createdAt: new Date('2024-01-01'),
+  ...overrides,
+})
+
+const postComment = (body: Record<string, unknown>) =>
+  POST(createMockRequest('POST', '/api/comments', {
+    body: { eventId: 'event-1', authorName: 'Jane', content: 'Looking forward to it!', ...body },
+  }))
+
+describe('Comments API', () => {
+  beforeEach(() => {
+    vi.mocked(auth).mockResolvedValue(null as any)
+    vi.mocked(canManageEvent).mockResolvedValue(false)
+    vi.mocked(getAppUrl).mockResolvedValue('http://localhost:3000')
+    vi.mocked(getEventHostsForNotification).mockResolvedValue([{ id: 'user-1', email: 'host@example.com', name: 'Host' }])
+    vi.mocked(sendCommentNotification).mockResolvedValue(undefined)
+    vi.mocked(prisma.comment.create).mockImplementation(({ data }: any) =>
+      Promise.resolve(createMockComment(data)) as any
+    )
+  })
+
+  describe('POST /api/comments', () => {
+    it('posts to an open wall and notifies hosts', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ commentMode: 'OPEN' }) as any)
+
+      const response = await postComment({})
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(200)
+      expect(body.pendingModeration).toBe(false)
+      expect(prisma.comment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ guestId: null, status: 'VISIBLE' }),
+      })
+      await vi.waitFor(() => {
+        expect(sendCommentNotification).toHaveBeenCalledWith(
+          expect.objectContaining({
+            to: 'host@example.com',
+            eventUrl: 'http://localhost:3000/dashboard/events/event-1',
+          })
+        )
+      })
+    })
+
+    it('rejects messages when comments are off', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ commentMode: 'OFF' }) as any)
+
+      const response = await postComment({})
+
+      expect(response.status).toBe(403)
+      expect(prisma.comment.create).not.toHaveBeenCalled()
+    })
+
+    it('only lets invitees post when the wall is invitees-only', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ commentMode: 'INVITEES' }) as any)
+
+      expect((await postComment({})).status).toBe(403)
+
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(createMockGuest({ status: 'ATTENDING' }) as any)
+      const response = await postComment({ token: 'guest-token-123' })
+
+      expect(response.status).toBe(200)
+      expect(prisma.comment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ guestId: 'guest-1' }),
+      })
+    })
+
+    it('does not link a token from another event', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ commentMode: 'INVITEES' }) as any)
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(createMockGuest({ eventId: 'event-2' }) as any)
+
+      const response = await postComment({ token: 'guest-token-123' })
+
+      expect(response.status).toBe(403)
+    })
+
+    it('holds messages for review on a pre-moderated wall', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ commentMode: 'MODERATED' }) as any)
+
+      const response = await postComment({})
+      const body = await parseJsonResponse(response)
+
+      expect(body.pendingModeration).toBe(true)
+      expect(prisma.comment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'PENDING' }),
+      })
+    })
+
+    it('posts host replies under the host account', async () => {
+      mockSession()
+      vi.mocked(canManageEvent).mockResolvedValue(true)
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ commentMode: 'OFF' }) as any)
+      vi.mocked(prisma.comment.findUnique).mockResolvedValue(createMockComment() as any)
+
+      const response = await postComment({ authorName: 'Host', content: 'See you there', parentId: 'comment-1' })
+
+      expect(response.status).toBe(200)
+      expect(prisma.comment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', parentId: 'comment-1', authorName: 'Host Person' }),
+      })
+      expect(sendCommentNotification).not.toHaveBeenCalled()
+    })
+
+    it('requires a solved spam check from guests without an RSVP link', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ commentMode: 'OPEN' }) as any)
+      vi.mocked(isChallengeRequired).mockResolvedValue(true)
+      vi.mocked(verifyChallengeSolution).mockResolvedValue(false)
+
+      expect((await postComment({})).status).toBe(400)
+
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(createMockGuest({ status: 'ATTENDING' }) as any)
+      expect((await postComment({ token: 'guest-token-123' })).status).toBe(200)
+    })
+
+    it('does not let guests reply', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ commentMode: 'OPEN' }) as any)
+
+      const response = await postComment({ parentId: 'comment-1' })
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('PATCH /api/comments/[id]', () => {
+    const context = { params: Promise.resolve({ id: 'comment-1' }) }
+
+    beforeEach(() => {
+      mockSession()
+      vi.mocked(prisma.comment.findUnique).mockResolvedValue(createMockComment() as any)
+    })
+
+    it('requires permission to moderate the event', async () => {
+      const response = await PATCH(
+        createMockRequest('PATCH', '/api/comments/comment-1', { body: { status: 'HIDDEN' } }),
+        context
+      )
+
+      expect(response.status).toBe(404)
+      expect(canManageEvent).toHaveBeenCalledWith('user-1', 'event-1', 'moderateComments')
+      expect(prisma.comment.update).not.toHaveBeenCalled()
+    })
+
+    it('hides and pins messages', async () => {
+      vi.mocked(canManageEvent).mockResolvedValue(true)
+      vi.mocked(prisma.comment.update).mockResolvedValue(createMockComment({ status: 'HIDDEN', pinned: true }) as any)
+
+      const response = await PATCH(
+        createMockRequest('PATCH', '/api/comments/comment-1', { body: { status: 'HIDDEN', pinned: true } }),
+        context
+      )
+
+      expect(response.status).toBe(200)
+      expect(prisma.comment.update).toHaveBeenCalledWith({
+        where: { id: 'comment-1' },
+        data: { status: 'HIDDEN', pinned: true },
+      })
+    })
+
+    it('does not pin replies', async () => {
+      vi.mocked(canManageEvent).mockResolvedValue(true)
+      vi.mocked(prisma.comment.findUnique).mockResolvedValue(createMockComment({ parentId: 'comment-0' }) as any)
+
+      const response = await PATCH(
+        createMockRequest('PATCH', '/api/comments/comment-1', { body: { pinned: true } }),
+        context
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('DELETE /api/comments/[id]', () => {
+    const context = { params: Promise.resolve({ id: 'comment-1' }) }
+
+    it('requires sign in', async () => {
+      const response = await DELETE(createMockRequest('DELETE', '/api/comments/comment-1'), context)
+
+      expect(response.status).toBe(401)
+    })
+
+    it('deletes the message', async () => {
+      mockSession()
+      vi.mocked(canManageEvent).mockResolvedValue(true)
+      vi.mocked(prisma.comment.findUnique).mockResolvedValue(createMockComment() as any)
+
+      const response = await DELETE(createMockRequest('DELETE', '/api/comments/comment-1'), context)
+
+      expect(response.status).toBe(200)
+      expect(prisma.comment.delete).toHaveBeenCalledWith({ where: { id: 'comment-1' } })
+    })
+  })
+})
@@ -11,6 +11,7 @@ vi.mock('@/lib/event-access', () => ({
 // Mock email functions
 vi.mock('@/lib/email', () => ({
   sendEventChangeEmail: vi.fn().mockResolvedValue(undefined),
+  sendEventCancellation: vi.fn().mockResolvedValue(undefined),
 }))
 
 // Import after mocks are set up
@@ -21,6 +22,7 @@ import {
   DELETE as deleteEvent,
 } from '@/app/api/events/[id]/route'
 import { canManageEvent } from '@/lib/event-access'
+import { sendEventCancellation } from '@/lib/email'
 
 const mockAuth = auth as ReturnType<typeof vi.fn>
 const mockCanManageEvent = canManageEvent as ReturnType<typeof vi.fn>
@@ -423,6 +425,56 @@ describe('Events API Routes', () => {
       expect(response.status).toBe(200)
       expect(data.event).toBeDefined()
     })
+
+    it('should create one event per date for a recurring series', async () => {
+      mockSession({ id: testUser.id, email: testUser.email, role: 'USER' })
+
+      ;(prisma.event.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(null)
+      ;(prisma.eventSeries.create as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'series-1' })
+      ;(prisma.event.create as ReturnType<typeof vi.fn>).mockImplementation(({ data }) =>
+        Promise.resolve({ ...testEvent, ...data, id: `event-${data.slug}` })
+      )
+
+      const request = createMockRequest('POST', '/api/events', {
+        body: {
+          ...testData.validEvent,
+          date: '2030-01-01T18:00:00.000Z', // A Tuesday
+          recurrence: { rule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3', exceptions: ['2030-01-08'] },
+        },
+      })
+
+      const response = await createEvent(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.occurrences).toBe(2)
+      expect(prisma.event.create).toHaveBeenCalledTimes(2)
+      expect(prisma.event.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({
+          seriesId: 'series-1',
+          slug: 'test-event-2030-01-15',
+          date: new Date('2030-01-15T18:00:00.000Z'),
+        }),
+      })
+    })
+
+    it('should return 400 for an invalid repeat rule', async () => {
+      mockSession({ id: testUser.id, email: testUser.email, role: 'USER' })
+
+      const request = createMockRequest('POST', '/api/events', {
+        body: {
+          ...testData.validEvent,
+          recurrence: { rule: 'FREQ=DAILY;COUNT=3' },
+        },
+      })
+
+      const response = await createEvent(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid repeat rule')
+      expect(prisma.event.create).not.toHaveBeenCalled()
+    })
   })
 
   // ========================================
@@ -706,6 +758,46 @@ describe('Events API Routes', () => {
       expect(data.event.title).toBe('Updated Title')
     })
 
+    it('should bump the calendar sequence when calendar details change', async () => {
+      mockSession({ id: testUser.id, email: testUser.email, role: 'USER' })
+      mockCanManageEvent.mockResolvedValue(true)
+
+      ;(prisma.event.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(testEvent)
+      ;(prisma.event.update as ReturnType<typeof vi.fn>).mockResolvedValue({ ...testEvent, city: 'Austin' })
+
+      const request = createMockRequest('PATCH', '/api/events/event-1', {
+        body: { city: 'Austin' },
+      })
+
+      const response = await updateEvent(request, createMockRouteContext({ id: 'event-1' }))
+
+      expect(response.status).toBe(200)
+      expect(prisma.event.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ calendarSequence: { increment: 1 } }),
+        })
+      )
+    })
+
+    it('should keep the calendar sequence when only other settings change', async () => {
+      mockSession({ id: testUser.id, email: testUser.email, role: 'USER' })
+      mockCanManageEvent.mockResolvedValue(true)
+
+      // Without an end date, so leaving it out of the update doesn't clear one
+      const event = { ...testEvent, endDate: null }
+      ;(prisma.event.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(event)
+      ;(prisma.event.update as ReturnType<typeof vi.fn>).mockResolvedValue(event)
+
+      const request = createMockRequest('PATCH', '/api/events/event-1', {
+        body: { title: testEvent.title, requireApproval: true },
+      })
+
+      await updateEvent(request, createMockRouteContext({ id: 'event-1' }))
+
+      const { data } = (prisma.event.update as ReturnType<typeof vi.fn>).mock.calls[0][0]
+      expect(data.calendarSequence).toBeUndefined()
+    })
+
     it('should update event for admin', async () => {
       mockSession({ id: adminUser.id, email: adminUser.email, role: 'ADMIN' })
       mockCanManageEvent.mockResolvedValue(true)
@@ -910,6 +1002,37 @@ describe('Events API Routes', () => {
       expect(data.changesNotified).toBe(1)
     })
 
+    it('should move later occurrences by the same amount for scope=future', async () => {
+      mockSession({ id: testUser.id, email: testUser.email, role: 'USER' })
+      mockCanManageEvent.mockResolvedValue(true)
+
+      const seriesEvent = { ...testEvent, seriesId: 'series-1' }
+      const laterEvent = { ...testEvent, id: 'event-2', seriesId: 'series-1', date: new Date('2025-06-22T18:00:00Z') }
+      ;(prisma.event.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(seriesEvent)
+      ;(prisma.event.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([laterEvent])
+      ;(prisma.event.update as ReturnType<typeof vi.fn>).mockImplementation(({ where, data }) =>
+        Promise.resolve({ ...(where.id === 'event-1' ? seriesEvent : laterEvent), ...data })
+      )
+
+      const request = createMockRequest('PATCH', '/api/events/event-1', {
+        body: { title: 'Book Club', date: '2025-06-15T19:00:00.000Z', scope: 'future' },
+      })
+      const context = createMockRouteContext({ id: 'event-1' })
+
+      const response = await updateEvent(request, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.occurrencesUpdated).toBe(1)
+      expect(prisma.event.update).toHaveBeenLastCalledWith({
+        where: { id: 'event-2' },
+        data: expect.objectContaining({
+          title: 'Book Club',
+          date: new Date('2025-06-22T19:00:00.000Z'),
+        }),
+      })
+    })
+
     it('should return 500 on database error', async () => {
       mockSession({ id: testUser.id, email: testUser.email, role: 'USER' })
       mockCanManageEvent.mockResolvedValue(true)
@@ -983,6 +1106,43 @@ describe('Events API Routes', () => {
       })
     })
 
+    it('should email guests a cancellation before deleting when asked to', async () => {
+      mockSession({ id: testUser.id, email: testUser.email, role: 'USER' })
+      mockCanManageEvent.mockResolvedValue(true)
+
+      ;(prisma.event.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(testEvent)
+      ;(prisma.event.delete as ReturnType<typeof vi.fn>).mockResolvedValue(testEvent)
+      ;(prisma.guest.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { email: 'guest@example.com', name: 'Guest', status: 'ATTENDING' },
+      ])
+      vi.mocked(sendEventCancellation).mockResolvedValue(undefined)
+
+      const request = createMockRequest('DELETE', '/api/events/event-1', {
+        searchParams: { notify: 'true' },
+      })
+      const response = await deleteEvent(request, createMockRouteContext({ id: 'event-1' }))
+
+      expect(response.status).toBe(200)
+      expect(sendEventCancellation).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'guest@example.com', guestStatus: 'ATTENDING', event: testEvent })
+      )
+      expect(vi.mocked(sendEventCancellation).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(prisma.event.delete).mock.invocationCallOrder[0]
+      )
+    })
+
+    it('should not email guests when deleting without notify', async () => {
+      mockSession({ id: testUser.id, email: testUser.email, role: 'USER' })
+      mockCanManageEvent.mockResolvedValue(true)
+
+      ;(prisma.event.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(testEvent)
+      ;(prisma.event.delete as ReturnType<typeof vi.fn>).mockResolvedValue(testEvent)
+
+      await deleteEvent(createMockRequest('DELETE', '/api/events/event-1'), createMockRouteContext({ id: 'event-1' }))
+
+      expect(sendEventCancellation).not.toHaveBeenCalled()
+    })
+
     it('should delete event for admin', async () => {
       mockSession({ id: adminUser.id, email: adminUser.email, role: 'ADMIN' })
       mockCanManageEvent.mockResolvedValue(true)
@@ -199,7 +199,7 @@ describe('Guest Management API Routes', () => {
         const response = await addGuest(request, context)
 
         expect(response.status).toBe(200)
-        expect(canManageEvent).toHaveBeenCalledWith('user-2', 'event-1')
+        expect(canManageEvent).toHaveBeenCalledWith('user-2', 'event-1', 'editGuests')
       })
 
       it('should allow admin to add guest to any event', async () => {
@@ -720,9 +720,26 @@ describe('Guest Management API Routes', () => {
         expect(body.error).toBe('Event not found')
       })
 
+      it('should allow co-host who can edit guests to delete guest', async () => {
+        mockSession({ id: 'user-2', email: 'cohost@example.com', role: 'USER' })
+        vi.mocked(canManageEvent).mockResolvedValue(true)
+        setupPrismaMock('event', 'findUnique', { ...mockEvent, hostId: 'user-1' })
+        setupPrismaMock('guest', 'findUnique', mockGuestData)
+        setupPrismaMock('guest', 'delete', mockGuestData)
+
+        const request = createMockRequest('DELETE', '/api/events/event-1/guests/guest-1')
+        const context = createMockRouteContext({ id: 'event-1', guestId: 'guest-1' })
+
+        const response = await deleteGuest(request, context)
+
+        expect(response.status).toBe(200)
+        expect(canManageEvent).toHaveBeenCalledWith('user-2', 'event-1', 'editGuests')
+      })
+
       it('should allow host to delete guest', async () => {
         mockSession({ id: 'user-1', email: mockUser.email, role: 'USER' })
         setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', mockGuestData)
         setupPrismaMock('guest', 'delete', mockGuestData)
 
         const request = createMockRequest('DELETE', '/api/events/event-1/guests/guest-1')
@@ -743,6 +760,7 @@ describe('Guest Management API Routes', () => {
       })
 
       it('should successfully delete a guest', async () => {
+        setupPrismaMock('guest', 'findUnique', mockGuestData)
         setupPrismaMock('guest', 'delete', mockGuestData)
 
         const request = createMockRequest('DELETE', '/api/events/event-1/guests/guest-1')
@@ -758,7 +776,22 @@ describe('Guest Management API Routes', () => {
         })
       })
 
+      it("should return 404 for another event's guest", async () => {
+        setupPrismaMock('guest', 'findUnique', { ...mockGuestData, eventId: 'event-2' })
+
+        const request = createMockRequest('DELETE', '/api/events/event-1/guests/guest-1')
+        const context = createMockRouteContext({ id: 'event-1', guestId: 'guest-1' })
+
+        const response = await deleteGuest(request, context)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(404)
+        expect(body.error).toBe('Guest not found')
+        expect(prisma.guest.delete).not.toHaveBeenCalled()
+      })
+
       it('should return 500 on database error', async () => {
+        setupPrismaMock('guest', 'findUnique', mockGuestData)
         vi.mocked(prisma.guest.delete).mockRejectedValue(new Error('Database error'))
 
         const request = createMockRequest('DELETE', '/api/events/event-1/guests/guest-1')
@@ -961,7 +994,7 @@ describe('Guest Management API Routes', () => {
         const response = await importGuests(request, context)
 
         expect(response.status).toBe(200)
-        expect(canManageEvent).toHaveBeenCalledWith('user-2', 'event-1')
+        expect(canManageEvent).toHaveBeenCalledWith('user-2', 'event-1', 'editGuests')
       })
     })
 
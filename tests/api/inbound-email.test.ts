@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { POST as receiveEmail } from '@/app/api/inbound/email/route'
+import { processInboundEmail } from '@/lib/imip'
+
+vi.mock('@/lib/imip', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/imip')>()),
+  processInboundEmail: vi.fn(),
+}))
+
+const originalEnv = { ...process.env }
+
+const rawMessage = 'From: sam@example.com\r\nContent-Type: text/calendar; method=REPLY\r\n\r\nMETHOD:REPLY'
+
+function inboundRequest({ url = 'http://localhost:3000/api/inbound/email', headers = {}, body = rawMessage }: {
+  url?: string
+  headers?: Record<string, string>
+  body?: string | FormData
+} = {}) {
+  return new Request(url, {
+    method: 'POST',
+    headers: typeof body === 'string' ? { 'Content-Type': 'message/rfc822', ...headers } : headers,
+    body,
+  })
+}
+
+describe('Inbound email API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.INBOUND_EMAIL_SECRET = 'inbound-secret'
+    vi.mocked(processInboundEmail).mockResolvedValue({ replies: 1, updated: 1 })
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it('should return 404 when inbound email is not enabled', async () => {
+    delete process.env.INBOUND_EMAIL_SECRET
+
+    const response = await receiveEmail(inboundRequest({ headers: { Authorization: 'Bearer ' } }))
+
+    expect(response.status).toBe(404)
+    expect(processInboundEmail).not.toHaveBeenCalled()
+  })
+
+  it('should return 401 without the right secret', async () => {
+    const response = await receiveEmail(inboundRequest({ headers: { Authorization: 'Bearer wrong-secret' } }))
+
+    expect(response.status).toBe(401)
+    expect(processInboundEmail).not.toHaveBeenCalled()
+  })
+
+  it('should process a raw message sent with the secret header', async () => {
+    const response = await receiveEmail(inboundRequest({ headers: { Authorization: 'Bearer inbound-secret' } }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({ success: true, replies: 1, updated: 1 })
+    expect(processInboundEmail).toHaveBeenCalledWith(rawMessage)
+  })
+
+  it('should take the raw message from a webhook form with the secret in the URL', async () => {
+    const form = new FormData()
+    form.set('email', rawMessage)
+
+    const response = await receiveEmail(
+      inboundRequest({ url: 'http://localhost:3000/api/inbound/email?secret=inbound-secret', body: form })
+    )
+
+    expect(response.status).toBe(200)
+    expect(processInboundEmail).toHaveBeenCalledWith(rawMessage)
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { auth } from '@/auth'
+import { parseJsonResponse } from '../helpers/api-test-utils'
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import { POST } from '@/app/api/media/route'
+import { GET } from '@/app/api/media/[id]/route'
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('png-data')])
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.from('jpeg-data')])
+
+const originalEnv = { ...process.env }
+
+function uploadRequest(files: Record<string, Buffer>) {
+  const formData = new FormData()
+  Object.entries(files).forEach(([variant, data]) => {
+    formData.append(variant, new Blob([new Uint8Array(data)]), `${variant}.img`)
+  })
+  return new NextRequest('http://localhost:3000/api/media', { method: 'POST', body: formData })
+}
+
+function imageRequest(url: string) {
+  const id = url.split('/').pop()!.split('?')[0]
+  return GET(new NextRequest(`http://localhost:3000${url}`), { params: Promise.resolve({ id }) })
+}
+
+describe('Media API', () => {
+  let tmpDir: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ownrsvp-media-api-'))
+    process.env.MEDIA_DIR = tmpDir
+    vi.mocked(auth).mockResolvedValue({ user: { id: 'user-1', email: 'host@example.com' } } as any)
+  })
+
+  afterEach(async () => {
+    process.env = { ...originalEnv }
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  describe('POST /api/media', () => {
+    it('requires a signed-in user', async () => {
+      vi.mocked(auth).mockResolvedValue(null as any)
+
+      const response = await POST(uploadRequest({ original: PNG }))
+
+      expect(response.status).toBe(401)
+    })
+
+    it('stores the uploaded sizes and returns the image URL', async () => {
+      const response = await POST(uploadRequest({ original: PNG, card: JPEG }))
+      const data = await parseJsonResponse(response)
+
+      expect(response.status).toBe(201)
+      expect(data.url).toMatch(/^\/api\/media\/[a-f0-9]{24}$/)
+    })
+
+    it('rejects files that are not images', async () => {
+      const response = await POST(uploadRequest({ original: Buffer.from('<svg onload="alert(1)"></svg>') }))
+      const data = await parseJsonResponse(response)
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Please upload a JPG, PNG, GIF or WebP image')
+      expect(await fs.readdir(tmpDir)).toEqual([])
+    })
+
+    it('requires the original image', async () => {
+      const response = await POST(uploadRequest({ thumb: JPEG }))
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('GET /api/media/[id]', () => {
+    it('serves the requested size with long-lived caching', async () => {
+      const { url } = await parseJsonResponse(await POST(uploadRequest({ original: PNG, card: JPEG })))
+
+      const card = await imageRequest(`${url}?size=card`)
+      expect(card.status).toBe(200)
+      expect(card.headers.get('Content-Type')).toBe('image/jpeg')
+      expect(card.headers.get('Cache-Control')).toContain('immutable')
+      expect(Buffer.from(await card.arrayBuffer())).toEqual(JPEG)
+
+      // Sizes that weren't uploaded fall back to the original
+      const thumb = await imageRequest(`${url}?size=thumb`)
+      expect(thumb.headers.get('Content-Type')).toBe('image/png')
+    })
+
+    it('returns 404 for unknown images', async () => {
+      const response = await imageRequest('/api/media/0123456789abcdef01234567')
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
@@ -23,7 +23,7 @@ vi.mock('@/lib/logger', () => ({
 }))
 
 // Import route after mocks
-import { GET } from '@/app/api/rsvp/[token]/quick/route'
+import { GET, POST } from '@/app/api/rsvp/[token]/quick/route'
 import { sendConfirmation } from '@/lib/email'
 import { getAppUrl } from '@/lib/config'
 import { NextRequest } from 'next/server'
@@ -36,6 +36,14 @@ function createQuickRsvpRequest(token: string, status?: string): NextRequest {
   return new NextRequest(url)
 }
 
+// Helper to create the confirmation page's form submission
+function createQuickRsvpPost(token: string, status: string): NextRequest {
+  return new NextRequest(`http://localhost:3000/api/rsvp/${token}/quick`, {
+    method: 'POST',
+    body: new URLSearchParams({ status }),
+  })
+}
+
 // Helper to create route context
 function createRouteContext(token: string) {
   return { params: Promise.resolve({ token }) }
@@ -50,13 +58,42 @@ function setupPrismaMock(model: string, method: string, returnValue: unknown) {
   }
 }
 
-describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
+describe('Quick RSVP API Route - /api/rsvp/[token]/quick', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     vi.mocked(getAppUrl).mockResolvedValue('http://localhost:3000')
     vi.mocked(sendConfirmation).mockResolvedValue(undefined)
   })
 
+  describe('Link scanner safety', () => {
+    it('should forward GET requests to the confirmation page without recording anything', async () => {
+      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const context = createRouteContext('valid-token')
+
+      const response = await GET(request, context)
+
+      expect(response.status).toBe(307)
+      expect(response.headers.get('location')).toBe(
+        'http://localhost:3000/rsvp/valid-token/quick?status=ATTENDING'
+      )
+      expect(prisma.guest.findUnique).not.toHaveBeenCalled()
+      expect(prisma.guest.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject a posted form with an invalid status', async () => {
+      const request = createQuickRsvpPost('valid-token', 'INVALID_STATUS')
+      const context = createRouteContext('valid-token')
+
+      const response = await POST(request, context)
+
+      expect(response.status).toBe(303)
+      expect(response.headers.get('location')).toBe(
+        'http://localhost:3000/rsvp/valid-token?error=invalid_status'
+      )
+      expect(prisma.guest.update).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Status parameter validation', () => {
     it('should redirect with error for missing status parameter', async () => {
       const request = createQuickRsvpRequest('valid-token')
@@ -99,12 +136,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'findUnique', mockGuest)
       setupPrismaMock('guest', 'update', { ...mockGuest, status: 'ATTENDING' })
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toContain('success=rsvp_attending')
     })
 
@@ -125,12 +162,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'findUnique', mockGuest)
       setupPrismaMock('guest', 'update', { ...mockGuest, status: 'NOT_ATTENDING' })
 
-      const request = createQuickRsvpRequest('valid-token', 'NOT_ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'NOT_ATTENDING')
       const context = createRouteContext('valid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toContain('success=rsvp_not_attending')
     })
 
@@ -151,12 +188,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'findUnique', mockGuest)
       setupPrismaMock('guest', 'update', { ...mockGuest, status: 'MAYBE' })
 
-      const request = createQuickRsvpRequest('valid-token', 'MAYBE')
+      const request = createQuickRsvpPost('valid-token', 'MAYBE')
       const context = createRouteContext('valid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toContain('success=rsvp_maybe')
     })
   })
@@ -165,12 +202,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
     it('should redirect to home with error for invalid token', async () => {
       setupPrismaMock('guest', 'findUnique', null)
 
-      const request = createQuickRsvpRequest('invalid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('invalid-token', 'ATTENDING')
       const context = createRouteContext('invalid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toContain('error=invalid_token')
     })
   })
@@ -192,12 +229,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       })
       setupPrismaMock('guest', 'findUnique', mockGuest)
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toBe(
         'http://localhost:3000/events/test-event?error=deadline_passed'
       )
@@ -220,12 +257,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'findUnique', mockGuest)
       setupPrismaMock('guest', 'update', { ...mockGuest, status: 'ATTENDING' })
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toContain('success=rsvp_attending')
     })
   })
@@ -248,10 +285,10 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'findUnique', mockGuest)
       setupPrismaMock('guest', 'update', { ...mockGuest, status: 'ATTENDING' })
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      await GET(request, context)
+      await POST(request, context)
 
       expect(prisma.guest.update).toHaveBeenCalledWith({
         where: { id: 'guest-1' },
@@ -262,6 +299,33 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       })
     })
 
+    it('should record that the answer came from a quick link', async () => {
+      const mockEvent = createMockEvent({
+        id: 'event-1',
+        slug: 'test-event',
+        rsvpDeadline: null,
+      })
+      const mockGuest = createMockGuest({
+        id: 'guest-1',
+        token: 'valid-token',
+        status: 'PENDING',
+        event: mockEvent,
+      })
+      setupPrismaMock('guest', 'findUnique', mockGuest)
+      setupPrismaMock('guest', 'update', { ...mockGuest, status: 'MAYBE' })
+
+      const request = createQuickRsvpPost('valid-token', 'MAYBE')
+      const context = createRouteContext('valid-token')
+
+      await POST(request, context)
+
+      expect(prisma.guest.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ respondedVia: 'QUICK_LINK' }),
+        })
+      )
+    })
+
     it('should update respondedAt timestamp', async () => {
       const mockEvent = createMockEvent({
         id: 'event-1',
@@ -284,10 +348,10 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
         respondedAt: new Date(),
       })
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      await GET(request, context)
+      await POST(request, context)
 
       expect(prisma.guest.update).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -320,10 +384,10 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'findUnique', mockGuest)
       setupPrismaMock('guest', 'update', { ...mockGuest, status: 'ATTENDING' })
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      await GET(request, context)
+      await POST(request, context)
 
       expect(sendConfirmation).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -353,13 +417,13 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'update', { ...mockGuest, status: 'ATTENDING' })
       vi.mocked(sendConfirmation).mockRejectedValue(new Error('Email service down'))
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
       // Should still redirect successfully
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toContain('success=rsvp_attending')
     })
   })
@@ -382,12 +446,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'findUnique', mockGuest)
       setupPrismaMock('guest', 'update', { ...mockGuest, status: 'ATTENDING' })
 
-      const request = createQuickRsvpRequest('abc123', 'ATTENDING')
+      const request = createQuickRsvpPost('abc123', 'ATTENDING')
       const context = createRouteContext('abc123')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       const location = response.headers.get('location')
       expect(location).toContain('/events/my-test-event')
       expect(location).toContain('token=abc123')
@@ -421,10 +485,10 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
         setupPrismaMock('guest', 'findUnique', mockGuest)
         setupPrismaMock('guest', 'update', { ...mockGuest, status })
 
-        const request = createQuickRsvpRequest('valid-token', status)
+        const request = createQuickRsvpPost('valid-token', status)
         const context = createRouteContext('valid-token')
 
-        const response = await GET(request, context)
+        const response = await POST(request, context)
         const location = response.headers.get('location')
 
         expect(location).toContain(`success=${expected}`)
@@ -438,12 +502,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
         new Error('Database connection failed')
       )
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toContain('error=rsvp_failed')
     })
 
@@ -464,12 +528,12 @@ describe('Quick RSVP API Route - GET /api/rsvp/[token]/quick', () => {
       setupPrismaMock('guest', 'findUnique', mockGuest)
       vi.mocked(prisma.guest.update).mockRejectedValue(new Error('Update failed'))
 
-      const request = createQuickRsvpRequest('valid-token', 'ATTENDING')
+      const request = createQuickRsvpPost('valid-token', 'ATTENDING')
       const context = createRouteContext('valid-token')
 
-      const response = await GET(request, context)
+      const response = await POST(request, context)
 
-      expect(response.status).toBe(307)
+      expect(response.status).toBe(303)
       expect(response.headers.get('location')).toContain('error=rsvp_failed')
     })
   })
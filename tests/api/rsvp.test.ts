@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createHash } from 'crypto'
 import { prisma } from '@/lib/prisma'
 import {
   createMockRequest,
@@ -16,7 +17,9 @@ import {
 vi.mock('@/lib/email', () => ({
   sendConfirmation: vi.fn().mockResolvedValue(undefined),
   sendRsvpChangeNotification: vi.fn().mockResolvedValue(undefined),
+  sendWaitlistPromotion: vi.fn().mockResolvedValue(undefined),
   getEventHostsForNotification: vi.fn().mockResolvedValue([]),
+  sendRsvpEditLink: vi.fn().mockResolvedValue(true),
 }))
 
 // Mock config functions
@@ -31,6 +34,18 @@ vi.mock('@/lib/config', () => ({
   }),
 }))
 
+// Mock rate limiting
+vi.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: vi.fn(),
+  getClientIp: vi.fn(),
+}))
+
+// Mock the spam check
+vi.mock('@/lib/challenge', () => ({
+  isChallengeRequired: vi.fn(),
+  verifyChallengeSolution: vi.fn(),
+}))
+
 // Mock logger
 vi.mock('@/lib/logger', () => ({
   logger: {
@@ -45,8 +60,10 @@ vi.mock('@/lib/logger', () => ({
 import { POST } from '@/app/api/rsvp/route'
 import { GET, PATCH } from '@/app/api/rsvp/[token]/route'
 import { POST as sendEditLink } from '@/app/api/rsvp/send-edit-link/route'
-import { sendConfirmation, sendRsvpChangeNotification, getEventHostsForNotification } from '@/lib/email'
+import { sendConfirmation, sendRsvpChangeNotification, sendWaitlistPromotion, getEventHostsForNotification, sendRsvpEditLink } from '@/lib/email'
 import { getEmailConfig, getAppUrl } from '@/lib/config'
+import { checkRateLimit, getClientIp } from '@/lib/rate-limit'
+import { isChallengeRequired, verifyChallengeSolution } from '@/lib/challenge'
 
 // Helper to set up prisma mock - uses the already mocked prisma from setup.ts
 // Uses mockResolvedValueOnce to avoid interference between tests
@@ -75,7 +92,13 @@ describe('RSVP API Routes', () => {
     })
     vi.mocked(sendConfirmation).mockResolvedValue(undefined)
     vi.mocked(sendRsvpChangeNotification).mockResolvedValue(undefined)
+    vi.mocked(sendWaitlistPromotion).mockResolvedValue(undefined)
     vi.mocked(getEventHostsForNotification).mockResolvedValue([])
+    vi.mocked(sendRsvpEditLink).mockResolvedValue(true)
+    vi.mocked(prisma.eventSession.findMany).mockResolvedValue([])
+    vi.mocked(checkRateLimit).mockResolvedValue({ allowed: true, retryAfterSeconds: 0 })
+    vi.mocked(getClientIp).mockReturnValue('203.0.113.7')
+    vi.mocked(isChallengeRequired).mockResolvedValue(false)
   })
 
   // ===========================================
@@ -419,6 +442,7 @@ describe('RSVP API Routes', () => {
         const request = createMockRequest('POST', '/api/rsvp', {
           body: {
             eventId: 'event-1',
+            token: 'guest-token-123',
             name: 'Existing Guest',
             email: 'existing@example.com',
             status: 'ATTENDING',
@@ -455,6 +479,7 @@ describe('RSVP API Routes', () => {
         const request = createMockRequest('POST', '/api/rsvp', {
           body: {
             eventId: 'event-1',
+            token: 'guest-token-123',
             name: 'Existing Guest',
             email: 'existing@example.com',
             status: 'NOT_ATTENDING',
@@ -495,6 +520,7 @@ describe('RSVP API Routes', () => {
         const request = createMockRequest('POST', '/api/rsvp', {
           body: {
             eventId: 'event-1',
+            token: 'guest-token-123',
             name: 'Existing Guest',
             email: 'existing@example.com',
             status: 'NOT_ATTENDING',
@@ -509,6 +535,170 @@ describe('RSVP API Routes', () => {
       })
     })
 
+    describe('Ownership verification', () => {
+      const hashCode = (code: string) => createHash('sha256').update(code).digest('hex')
+      const existingGuest = (overrides = {}) =>
+        createMockGuest({
+          status: 'ATTENDING',
+          additionalGuests: [],
+          verificationCode: hashCode('123456'),
+          verificationExpiresAt: new Date(Date.now() + 10 * 60 * 1000),
+          verificationAttempts: 0,
+          ...overrides,
+        })
+      const rsvpRequest = (extra = {}) =>
+        createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Someone Else',
+            email: 'guest@example.com',
+            status: 'NOT_ATTENDING',
+            ...extra,
+          },
+        })
+
+      it('should email a code instead of changing an RSVP for an email already on the list', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', existingGuest({ verificationCode: null }))
+
+        const response = await POST(rsvpRequest())
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(200)
+        expect(body).toEqual({ verificationRequired: true })
+        const { data } = vi.mocked(prisma.guest.update).mock.calls[0][0] as any
+        expect(data).toEqual({
+          verificationCode: expect.stringMatching(/^[0-9a-f]{64}$/),
+          verificationExpiresAt: expect.any(Date),
+          verificationAttempts: 0,
+        })
+        expect(sendRsvpEditLink).toHaveBeenCalledWith(
+          expect.objectContaining({
+            to: 'guest@example.com',
+            rsvpToken: 'guest-token-123',
+            verification: expect.objectContaining({ code: expect.stringMatching(/^\d{6}$/) }),
+          })
+        )
+        expect(prisma.additionalGuest.deleteMany).not.toHaveBeenCalled()
+      })
+
+      it('should not email another code moments after the last one', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', existingGuest({ verificationExpiresAt: new Date(Date.now() + 14.5 * 60 * 1000) }))
+
+        const response = await POST(rsvpRequest())
+
+        expect(await parseJsonResponse(response)).toEqual({ verificationRequired: true })
+        expect(prisma.guest.update).not.toHaveBeenCalled()
+        expect(sendRsvpEditLink).not.toHaveBeenCalled()
+      })
+
+      it('should keep the wrong guesses when replacing a code that is still valid', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', existingGuest({ verificationAttempts: 4 }))
+
+        await POST(rsvpRequest())
+
+        const { data } = vi.mocked(prisma.guest.update).mock.calls[0][0] as any
+        expect(data.verificationCode).toMatch(/^[0-9a-f]{64}$/)
+        expect(data).not.toHaveProperty('verificationAttempts')
+        expect(sendRsvpEditLink).toHaveBeenCalled()
+      })
+
+      it('should reject a wrong code and count the attempt', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', existingGuest())
+        setupPrismaMock('guest', 'updateMany', { count: 1 })
+
+        const response = await POST(rsvpRequest({ verificationCode: '654321' }))
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(400)
+        expect(body.error).toContain('invalid or has expired')
+        expect(prisma.guest.updateMany).toHaveBeenCalledWith({
+          where: { id: 'guest-1', verificationAttempts: { lt: 5 } },
+          data: { verificationAttempts: { increment: 1 } },
+        })
+      })
+
+      it('should reject an expired code', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', existingGuest({ verificationExpiresAt: new Date(Date.now() - 1000) }))
+
+        const response = await POST(rsvpRequest({ verificationCode: '123456' }))
+
+        expect(response.status).toBe(400)
+        expect(prisma.guest.update).not.toHaveBeenCalled()
+      })
+
+      it('should stop accepting a code after too many wrong guesses', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', existingGuest({ verificationAttempts: 4 }))
+        // Another guess used up the last attempt in the meantime
+        setupPrismaMock('guest', 'updateMany', { count: 0 })
+
+        const response = await POST(rsvpRequest({ verificationCode: '123456' }))
+
+        expect(response.status).toBe(400)
+        expect(prisma.guest.update).not.toHaveBeenCalled()
+      })
+
+      it('should apply the change and use up the code once it is confirmed', async () => {
+        const guest = existingGuest()
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', guest)
+        setupPrismaMock('guest', 'updateMany', { count: 1 })
+        setupPrismaMock('additionalGuest', 'deleteMany', { count: 0 })
+        setupPrismaMock('guest', 'update', { ...guest, status: 'NOT_ATTENDING' })
+
+        const response = await POST(rsvpRequest({ verificationCode: '123456' }))
+
+        expect(response.status).toBe(200)
+        const { data } = vi.mocked(prisma.guest.update).mock.calls[0][0] as any
+        expect(data.status).toBe('NOT_ATTENDING')
+        expect(data.verificationCode).toBeNull()
+        expect(data.verificationAttempts).toBe(0)
+        expect(sendRsvpEditLink).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('Spam protection', () => {
+      it('should reject an RSVP without a solved spam check when the event requires one', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+        vi.mocked(isChallengeRequired).mockResolvedValue(true)
+        vi.mocked(verifyChallengeSolution).mockResolvedValue(false)
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: { eventId: 'event-1', name: 'Spammer', email: 'spam@example.com', status: 'ATTENDING', challenge: 'bogus' },
+        })
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(400)
+        expect(body.code).toBe('CHALLENGE_FAILED')
+        expect(isChallengeRequired).toHaveBeenCalledWith(mockEvent)
+        expect(verifyChallengeSolution).toHaveBeenCalledWith('bogus')
+        expect(prisma.guest.create).not.toHaveBeenCalled()
+      })
+
+      it('should not ask guests using their own RSVP link for a spam check', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', createMockGuest({ additionalGuests: [] }))
+        vi.mocked(isChallengeRequired).mockResolvedValue(true)
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: { eventId: 'event-1', name: 'Test Guest', email: 'guest@example.com', status: 'ATTENDING', token: 'guest-token-123' },
+        })
+
+        const response = await POST(request)
+
+        expect(response.status).not.toBe(400)
+        expect(verifyChallengeSolution).not.toHaveBeenCalled()
+      })
+    })
+
     describe('Guest limit validation', () => {
       it('should reject RSVP when additional guests exceed global limit', async () => {
         const limitedEvent = { ...mockEvent, maxGuestsPerInvitee: 2 }
@@ -598,6 +788,7 @@ describe('RSVP API Routes', () => {
         const request = createMockRequest('POST', '/api/rsvp', {
           body: {
             eventId: 'event-1',
+            token: 'guest-token-123',
             name: 'VIP Guest',
             email: 'vip@example.com',
             status: 'ATTENDING',
@@ -781,6 +972,322 @@ describe('RSVP API Routes', () => {
       })
     })
 
+    describe('Custom RSVP questions', () => {
+      const questionEvent = {
+        ...mockEvent,
+        rsvpQuestions: JSON.stringify([
+          { id: 'meal', label: 'Meal choice', type: 'single_choice', options: ['Chicken', 'Fish'], required: true, scope: 'attendee' },
+          { id: 'song', label: 'Song request', type: 'text', required: false, scope: 'party' },
+        ]),
+      }
+
+      it('should reject an RSVP missing a required answer', async () => {
+        setupPrismaMock('event', 'findUnique', questionEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Test Guest',
+            email: 'test@example.com',
+            status: 'ATTENDING',
+            additionalGuests: ['Plus One'],
+            answers: { meal: 'Fish' },
+          },
+        })
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(400)
+        expect(body.error).toBe('Please answer "Meal choice" for Plus One')
+        expect(prisma.guest.create).not.toHaveBeenCalled()
+      })
+
+      it('should store party and per-attendee answers', async () => {
+        setupPrismaMock('event', 'findUnique', questionEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+        setupPrismaMock('guest', 'create', createMockGuest({ status: 'ATTENDING', additionalGuests: [] }))
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Test Guest',
+            email: 'test@example.com',
+            status: 'ATTENDING',
+            additionalGuests: ['Plus One', '  '],
+            answers: { meal: 'Fish', song: 'September', unknown: 'ignored' },
+            additionalGuestAnswers: [{ meal: 'Chicken' }, {}],
+          },
+        })
+
+        const response = await POST(request)
+
+        expect(response.status).toBe(200)
+        const { data } = vi.mocked(prisma.guest.create).mock.calls[0][0] as any
+        expect(JSON.parse(data.rsvpAnswers)).toEqual({ meal: 'Fish', song: 'September' })
+        expect(data.additionalGuests.create).toEqual([
+          { name: 'Plus One', rsvpAnswers: JSON.stringify({ meal: 'Chicken' }) },
+        ])
+      })
+
+      it('should not ask questions of guests who are not attending', async () => {
+        setupPrismaMock('event', 'findUnique', questionEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+        setupPrismaMock('guest', 'create', createMockGuest({ status: 'NOT_ATTENDING', additionalGuests: [] }))
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Test Guest',
+            email: 'test@example.com',
+            status: 'NOT_ATTENDING',
+          },
+        })
+
+        const response = await POST(request)
+
+        expect(response.status).toBe(200)
+        const { data } = vi.mocked(prisma.guest.create).mock.calls[0][0] as any
+        expect(data.rsvpAnswers).toBeNull()
+      })
+    })
+
+    describe('Event capacity', () => {
+      const fullEvent = { ...mockEvent, capacity: 2 }
+
+      it('should waitlist a new guest when the event is full', async () => {
+        setupPrismaMock('event', 'findUnique', fullEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+        setupPrismaMock('guest', 'findMany', [{ _count: { additionalGuests: 1 } }])
+        setupPrismaMock('guest', 'count', 0)
+        setupPrismaMock('guest', 'create', createMockGuest({ status: 'WAITLISTED', notifyByEmail: true, additionalGuests: [] }))
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Test Guest',
+            email: 'test@example.com',
+            status: 'ATTENDING',
+          },
+        })
+
+        const response = await POST(request)
+
+        expect(response.status).toBe(200)
+        const { data } = vi.mocked(prisma.guest.create).mock.calls[0][0] as any
+        expect(data.status).toBe('WAITLISTED')
+        expect(data.waitlistedAt).toBeInstanceOf(Date)
+        expect(sendConfirmation).toHaveBeenCalledWith(
+          expect.objectContaining({ status: 'WAITLISTED' })
+        )
+      })
+
+      it('should not let an attending guest grow their party past the capacity', async () => {
+        setupPrismaMock('event', 'findUnique', fullEvent)
+        setupPrismaMock('guest', 'findUnique', createMockGuest({ status: 'ATTENDING', additionalGuests: [] }))
+        setupPrismaMock('guest', 'findMany', [{ _count: { additionalGuests: 0 } }])
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            token: 'guest-token-123',
+            name: 'Test Guest',
+            email: 'guest@example.com',
+            status: 'ATTENDING',
+            additionalGuests: ['Plus One'],
+          },
+        })
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(400)
+        expect(body.error).toContain('almost full')
+        expect(prisma.guest.update).not.toHaveBeenCalled()
+      })
+
+      it('should promote the next waitlisted guest when an attending guest declines', async () => {
+        const existingGuest = createMockGuest({ status: 'ATTENDING', additionalGuests: [] })
+        const waitlistedGuest = createMockGuest({
+          id: 'guest-2',
+          email: 'waiting@example.com',
+          token: 'waiting-token',
+          status: 'WAITLISTED',
+          notifyByEmail: true,
+          _count: { additionalGuests: 0 },
+        })
+        setupPrismaMock('event', 'findUnique', fullEvent)
+        setupPrismaMock('guest', 'findUnique', existingGuest)
+        setupPrismaMock('additionalGuest', 'deleteMany', { count: 0 })
+        setupPrismaMock('guest', 'update', { ...existingGuest, status: 'NOT_ATTENDING' })
+        setupPrismaMock('guest', 'updateMany', { count: 1 })
+        vi.mocked(prisma.guest.findMany)
+          .mockResolvedValueOnce([waitlistedGuest] as any)
+          .mockResolvedValueOnce([{ _count: { additionalGuests: 0 } }] as any)
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            token: 'guest-token-123',
+            name: 'Test Guest',
+            email: 'guest@example.com',
+            status: 'NOT_ATTENDING',
+          },
+        })
+
+        const response = await POST(request)
+
+        expect(response.status).toBe(200)
+        expect(prisma.guest.updateMany).toHaveBeenCalledWith({
+          where: { id: 'guest-2', status: 'WAITLISTED' },
+          data: { status: 'ATTENDING', waitlistedAt: null },
+        })
+        expect(sendWaitlistPromotion).toHaveBeenCalledWith(
+          expect.objectContaining({ to: 'waiting@example.com', rsvpToken: 'waiting-token' })
+        )
+      })
+    })
+
+    describe('Host approval', () => {
+      const approvalEvent = { ...mockEvent, requireApproval: true }
+
+      it('should hold a new RSVP for approval without sending a confirmation', async () => {
+        setupPrismaMock('event', 'findUnique', approvalEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+        setupPrismaMock('guest', 'create', createMockGuest({ status: 'PENDING_APPROVAL', notifyByEmail: true, additionalGuests: [] }))
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Test Guest',
+            email: 'test@example.com',
+            status: 'MAYBE',
+          },
+        })
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(200)
+        expect(body).toEqual({ pendingApproval: true })
+        const { data } = vi.mocked(prisma.guest.create).mock.calls[0][0] as any
+        expect(data.status).toBe('PENDING_APPROVAL')
+        expect(data.requestedStatus).toBe('MAYBE')
+        expect(sendConfirmation).not.toHaveBeenCalled()
+      })
+
+      it('should let guests already on the list RSVP without approval', async () => {
+        const existingGuest = createMockGuest({ status: 'PENDING', notifyByEmail: true, additionalGuests: [] })
+        setupPrismaMock('event', 'findUnique', approvalEvent)
+        setupPrismaMock('guest', 'findUnique', existingGuest)
+        setupPrismaMock('additionalGuest', 'deleteMany', { count: 0 })
+        setupPrismaMock('guest', 'update', { ...existingGuest, status: 'ATTENDING' })
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            token: 'guest-token-123',
+            name: 'Test Guest',
+            email: 'guest@example.com',
+            status: 'ATTENDING',
+          },
+        })
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(200)
+        expect(body.pendingApproval).toBeUndefined()
+        const { data } = vi.mocked(prisma.guest.update).mock.calls[0][0] as any
+        expect(data.status).toBe('ATTENDING')
+        expect(sendConfirmation).toHaveBeenCalled()
+      })
+    })
+
+    describe('Sessions', () => {
+      const reception = {
+        id: 'session-1',
+        eventId: 'event-1',
+        name: 'Reception',
+        date: new Date('2099-06-01T18:00:00Z'),
+        capacity: 2,
+        inviteAll: true,
+        guests: [],
+      }
+
+      it('should save an answer for each session', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+        setupPrismaMock('eventSession', 'findMany', [{ ...reception, capacity: null }])
+        setupPrismaMock('guest', 'create', createMockGuest({ id: 'guest-1', status: 'ATTENDING', additionalGuests: [] }))
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Test Guest',
+            email: 'test@example.com',
+            status: 'ATTENDING',
+            sessions: [{ sessionId: 'session-1', attending: true }],
+          },
+        })
+
+        const response = await POST(request)
+
+        expect(response.status).toBe(200)
+        expect(prisma.sessionGuest.upsert).toHaveBeenCalledWith({
+          where: { sessionId_guestId: { sessionId: 'session-1', guestId: 'guest-1' } },
+          create: { sessionId: 'session-1', guestId: 'guest-1', status: 'ATTENDING', respondedAt: expect.any(Date) },
+          update: { status: 'ATTENDING', respondedAt: expect.any(Date) },
+        })
+      })
+
+      it('should reject answers for sessions the guest is not invited to', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Test Guest',
+            email: 'test@example.com',
+            status: 'ATTENDING',
+            sessions: [{ sessionId: 'private-session', attending: true }],
+          },
+        })
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(400)
+        expect(body.error).toBe('You are not invited to one of the selected sessions')
+        expect(prisma.guest.create).not.toHaveBeenCalled()
+      })
+
+      it('should reject a party that does not fit in a full session', async () => {
+        setupPrismaMock('event', 'findUnique', mockEvent)
+        setupPrismaMock('guest', 'findUnique', null)
+        setupPrismaMock('eventSession', 'findMany', [reception])
+        setupPrismaMock('sessionGuest', 'findMany', [{ guest: { _count: { additionalGuests: 1 } } }])
+
+        const request = createMockRequest('POST', '/api/rsvp', {
+          body: {
+            eventId: 'event-1',
+            name: 'Test Guest',
+            email: 'test@example.com',
+            status: 'ATTENDING',
+            sessions: [{ sessionId: 'session-1', attending: true }],
+          },
+        })
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+
+        expect(response.status).toBe(400)
+        expect(body.error).toBe('Reception is full')
+      })
+    })
+
     describe('Email notifications', () => {
       it('should send confirmation email to guest', async () => {
         setupPrismaMock('event', 'findUnique', mockEvent)
@@ -1661,4 +2168,53 @@ describe('RSVP API Routes', () => {
       })
     })
   })
+
+  // ===========================================
+  // Rate limiting
+  // ===========================================
+  describe('Rate limiting', () => {
+    it('should count RSVPs per IP and per event and email', async () => {
+      setupPrismaMock('event', 'findUnique', null)
+
+      const request = createMockRequest('POST', '/api/rsvp', {
+        body: { eventId: 'event-1', name: 'Test Guest', email: 'guest@example.com', status: 'ATTENDING' },
+      })
+
+      await POST(request)
+
+      expect(checkRateLimit).toHaveBeenCalledWith('rsvp', { ip: '203.0.113.7', target: 'event-1:guest@example.com', fallback: 'event-1' })
+    })
+
+    it('should return 429 with Retry-After once the limit is reached', async () => {
+      vi.mocked(checkRateLimit).mockResolvedValue({ allowed: false, retryAfterSeconds: 300 })
+
+      const request = createMockRequest('POST', '/api/rsvp', {
+        body: { eventId: 'event-1', name: 'Test Guest', email: 'guest@example.com', status: 'ATTENDING' },
+      })
+
+      const response = await POST(request)
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get('Retry-After')).toBe('300')
+      expect(body.code).toBe('RATE_LIMITED')
+      expect(body.error).toBe('Too many requests. Please try again in 5 minutes.')
+      expect(prisma.event.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should throttle edit link emails before looking up the guest', async () => {
+      vi.mocked(checkRateLimit).mockResolvedValue({ allowed: false, retryAfterSeconds: 30 })
+
+      const request = createMockRequest('POST', '/api/rsvp/send-edit-link', {
+        body: { email: 'guest@example.com', eventId: 'event-1' },
+      })
+
+      const response = await sendEditLink(request)
+
+      expect(response.status).toBe(429)
+      expect(checkRateLimit).toHaveBeenCalledWith('editLink', { ip: '203.0.113.7', target: 'event-1:guest@example.com', fallback: 'event-1' })
+      expect(prisma.guest.findUnique).not.toHaveBeenCalled()
+      expect(sendRsvpEditLink).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { hashApiToken } from '@/lib/api-tokens'
+import {
+  createMockRequest,
+  createMockRouteContext,
+  parseJsonResponse,
+} from '../helpers/api-test-utils'
+import { createMockGuest } from '../setup'
+
+vi.mock('@/lib/event-access', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/event-access')>()),
+  getEventRole: vi.fn(),
+}))
+
+vi.mock('@/lib/guests', () => ({
+  addGuest: vi.fn(),
+  getInvitationEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import { GET as listGuests, POST as addGuestRoute } from '@/app/api/v1/events/[id]/guests/route'
+import { getEventRole } from '@/lib/event-access'
+import { addGuest, getInvitationEvent } from '@/lib/guests'
+
+const TOKEN = 'ownrsvp_test'
+
+function mockToken(scopes: string[]) {
+  vi.mocked(prisma.apiToken.findUnique).mockResolvedValue({
+    id: 'token-1',
+    userId: 'user-1',
+    tokenHash: hashApiToken(TOKEN),
+    scopes: JSON.stringify(scopes),
+    lastUsedAt: new Date(),
+    expiresAt: null,
+  } as any)
+}
+
+const authorized = { Authorization: `Bearer ${TOKEN}` }
+
+describe('REST API v1', () => {
+  const context = createMockRouteContext({ id: 'event-1' })
+
+  beforeEach(() => {
+    vi.mocked(getEventRole).mockResolvedValue('HOST')
+  })
+
+  describe('GET /api/v1/events/[id]/guests', () => {
+    it('requires an API token', async () => {
+      const response = await listGuests(createMockRequest('GET', '/api/v1/events/event-1/guests'), context)
+
+      expect(response.status).toBe(401)
+    })
+
+    it("hides events the token's user has no role on", async () => {
+      mockToken(['events:read'])
+      vi.mocked(getEventRole).mockResolvedValue(null)
+
+      const response = await listGuests(
+        createMockRequest('GET', '/api/v1/events/event-1/guests', { headers: authorized }),
+        context
+      )
+
+      expect(response.status).toBe(404)
+      expect(prisma.guest.findMany).not.toHaveBeenCalled()
+    })
+
+    it('lists guests with pagination', async () => {
+      mockToken(['events:read'])
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([
+        createMockGuest({ status: 'ATTENDING', additionalGuests: [{ name: 'Plus One' }] }),
+      ] as any)
+      vi.mocked(prisma.guest.count).mockResolvedValue(41)
+
+      const response = await listGuests(
+        createMockRequest('GET', '/api/v1/events/event-1/guests', {
+          headers: authorized,
+          searchParams: { page: '3', limit: '20', status: 'ATTENDING' },
+        }),
+        context
+      )
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(200)
+      expect(prisma.guest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { eventId: 'event-1', status: 'ATTENDING' }, skip: 40, take: 20 })
+      )
+      expect(body.data.pagination).toEqual({ page: 3, limit: 20, total: 41 })
+      expect(body.data.guests[0]).toMatchObject({ status: 'ATTENDING', additionalGuests: ['Plus One'] })
+      expect(body.data.guests[0]).not.toHaveProperty('token')
+    })
+  })
+
+  describe('POST /api/v1/events/[id]/guests', () => {
+    it('needs the guests:write scope', async () => {
+      mockToken(['events:read'])
+
+      const response = await addGuestRoute(
+        createMockRequest('POST', '/api/v1/events/event-1/guests', {
+          headers: authorized,
+          body: { email: 'new@example.com', sendInvite: false },
+        }),
+        context
+      )
+
+      expect(response.status).toBe(403)
+      expect(addGuest).not.toHaveBeenCalled()
+    })
+
+    it('needs messages:send to send the invitation', async () => {
+      mockToken(['guests:write'])
+
+      const response = await addGuestRoute(
+        createMockRequest('POST', '/api/v1/events/event-1/guests', {
+          headers: authorized,
+          body: { email: 'new@example.com' },
+        }),
+        context
+      )
+
+      expect(response.status).toBe(403)
+      expect(addGuest).not.toHaveBeenCalled()
+    })
+
+    it('does not let viewers change the guest list', async () => {
+      mockToken(['guests:write'])
+      vi.mocked(getEventRole).mockResolvedValue('VIEWER')
+
+      const response = await addGuestRoute(
+        createMockRequest('POST', '/api/v1/events/event-1/guests', {
+          headers: authorized,
+          body: { email: 'new@example.com', sendInvite: false },
+        }),
+        context
+      )
+
+      expect(response.status).toBe(403)
+    })
+
+    it('reports validation errors by field', async () => {
+      mockToken(['guests:write'])
+
+      const response = await addGuestRoute(
+        createMockRequest('POST', '/api/v1/events/event-1/guests', {
+          headers: authorized,
+          body: { email: 'not-an-email', sendInvite: false },
+        }),
+        context
+      )
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(400)
+      expect(body).toMatchObject({ code: 'VALIDATION_ERROR', details: [{ path: 'email' }] })
+    })
+
+    it('adds the guest', async () => {
+      mockToken(['guests:write'])
+      vi.mocked(getInvitationEvent).mockResolvedValue({ id: 'event-1' } as any)
+      vi.mocked(addGuest).mockResolvedValue({ guest: createMockGuest({ email: 'new@example.com' }) } as any)
+
+      const response = await addGuestRoute(
+        createMockRequest('POST', '/api/v1/events/event-1/guests', {
+          headers: authorized,
+          body: { email: 'new@example.com', name: 'New Guest', sendInvite: false },
+        }),
+        context
+      )
+      const body = await parseJsonResponse(response)
+
+      expect(response.status).toBe(201)
+      expect(addGuest).toHaveBeenCalledWith(
+        { id: 'event-1' },
+        expect.objectContaining({ email: 'new@example.com', name: 'New Guest', sendInvite: false })
+      )
+      expect(body.data.guest.email).toBe('new@example.com')
+    })
+
+    it('reports a guest who is already on the list', async () => {
+      mockToken(['guests:write'])
+      vi.mocked(getInvitationEvent).mockResolvedValue({ id: 'event-1' } as any)
+      vi.mocked(addGuest).mockResolvedValue({ error: 'This guest has already been added' })
+
+      const response = await addGuestRoute(
+        createMockRequest('POST', '/api/v1/events/event-1/guests', {
+          headers: authorized,
+          body: { email: 'new@example.com', sendInvite: false },
+        }),
+        context
+      )
+
+      expect(response.status).toBe(409)
+    })
+  })
+})
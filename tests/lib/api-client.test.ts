@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ApiError, requestApi } from '@/lib/api-client'
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+describe('requestApi', () => {
+  let mockFetch: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockResolvedValue(json({ success: true }))
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends JSON bodies to the filled-in path with the route\'s method', async () => {
+    await requestApi('updateEventGuest', {
+      params: { id: 'event-1', guestId: 'guest-1' },
+      body: { status: 'ATTENDING' },
+    })
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('/api/events/event-1/guests/guest-1')
+    expect(init.method).toBe('PATCH')
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json' })
+    expect(JSON.parse(init.body)).toEqual({ status: 'ATTENDING' })
+  })
+
+  it('returns the response of the app\'s own routes as sent', async () => {
+    mockFetch.mockResolvedValue(json({ registrationEnabled: true }))
+
+    await expect(requestApi('getRegistrationStatus')).resolves.toEqual({ registrationEnabled: true })
+  })
+
+  it('adds the query, skipping empty values, and unwraps the data of token routes', async () => {
+    mockFetch.mockResolvedValue(json({ data: { guests: [] } }))
+
+    const data = await requestApi('listGuests', {
+      params: { id: 'event-1' },
+      query: { status: 'ATTENDING', page: undefined },
+      token: 'rsvp_test',
+    })
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('/api/v1/events/event-1/guests?status=ATTENDING')
+    expect(init.headers).toEqual({ Authorization: 'Bearer rsvp_test' })
+    expect(init.body).toBeUndefined()
+    expect(data).toEqual({ guests: [] })
+  })
+
+  it('throws the API\'s error with its status and body', async () => {
+    mockFetch.mockResolvedValue(json({ error: 'Guest not found', code: 'missing' }, 404))
+
+    const error = await requestApi('removeEventGuest', { params: { id: 'event-1', guestId: 'guest-1' } })
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ message: 'Guest not found', status: 404, body: { code: 'missing' } })
+  })
+
+  it('falls back to the status when the error has no JSON body', async () => {
+    mockFetch.mockResolvedValue(new Response('Bad gateway', { status: 502 }))
+
+    await expect(requestApi('getHealth')).rejects.toThrow('Request failed with status 502')
+  })
+
+  it('sends uploads as multipart form data without setting the content type', async () => {
+    mockFetch.mockResolvedValue(json({ url: '/api/media/abc' }, 201))
+    const original = new File(['image'], 'cover.jpg', { type: 'image/jpeg' })
+
+    await requestApi('uploadImage', { body: { original } })
+
+    const [, init] = mockFetch.mock.calls[0]
+    expect(init.headers).toEqual({})
+    expect(init.body).toBeInstanceOf(FormData)
+    expect((init.body as FormData).get('original')).toBeInstanceOf(Blob)
+    expect((init.body as FormData).has('thumb')).toBe(false)
+  })
+
+  it('returns downloads as a file named by the response', async () => {
+    mockFetch.mockResolvedValue(new Response('name,email\n', {
+      headers: { 'Content-Type': 'text/csv', 'Content-Disposition': 'attachment; filename="party-guests.csv"' },
+    }))
+
+    const file = await requestApi('exportGuestList', { params: { id: 'event-1' } })
+
+    expect(file.name).toBe('party-guests.csv')
+    expect(await file.text()).toBe('name,email\n')
+  })
+})
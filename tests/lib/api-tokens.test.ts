@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authenticateApiRequest, createApiToken, hashApiToken } from '@/lib/api-tokens'
+
+const apiToken = (overrides = {}) => ({
+  id: 'token-1',
+  userId: 'user-1',
+  name: 'Sync script',
+  tokenHash: hashApiToken('ownrsvp_secret'),
+  tokenPrefix: 'ownrsvp_secret',
+  scopes: JSON.stringify(['events:read']),
+  lastUsedAt: null,
+  expiresAt: null,
+  createdAt: new Date(),
+  ...overrides,
+})
+
+const requestWith = (authorization?: string) =>
+  new Request('http://localhost:3000/api/v1/events', {
+    headers: authorization ? { Authorization: authorization } : {},
+  })
+
+describe('API tokens', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.apiToken.update).mockResolvedValue(apiToken() as any)
+  })
+
+  it('stores only a hash of a new token', async () => {
+    vi.mocked(prisma.apiToken.create).mockImplementation((async ({ data }: any) => ({ id: 'token-1', ...data })) as any)
+
+    const { token } = await createApiToken('user-1', { name: 'Sync script', scopes: ['events:read'], expiresInDays: 30 })
+
+    const { data } = vi.mocked(prisma.apiToken.create).mock.calls[0][0] as any
+    expect(token).toMatch(/^ownrsvp_[0-9a-f]{48}$/)
+    expect(data.tokenHash).toBe(hashApiToken(token))
+    expect(JSON.stringify(data)).not.toContain(token)
+    expect(token.startsWith(data.tokenPrefix)).toBe(true)
+    expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000)
+  })
+
+  describe('authenticateApiRequest', () => {
+    it('rejects requests without a bearer token', async () => {
+      const result = await authenticateApiRequest(requestWith(), 'events:read')
+
+      expect((result as NextResponse).status).toBe(401)
+      expect(prisma.apiToken.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('rejects unknown and expired tokens', async () => {
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValueOnce(null)
+      const unknown = await authenticateApiRequest(requestWith('Bearer ownrsvp_nope'), 'events:read')
+
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValueOnce(apiToken({ expiresAt: new Date(Date.now() - 1000) }) as any)
+      const expired = await authenticateApiRequest(requestWith('Bearer ownrsvp_secret'), 'events:read')
+
+      expect((unknown as NextResponse).status).toBe(401)
+      expect((expired as NextResponse).status).toBe(401)
+    })
+
+    it('rejects tokens without the scope', async () => {
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValue(apiToken() as any)
+
+      const result = await authenticateApiRequest(requestWith('Bearer ownrsvp_secret'), 'guests:write')
+
+      expect((result as NextResponse).status).toBe(403)
+    })
+
+    it("returns the token's user and records the use", async () => {
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValue(apiToken() as any)
+
+      const result = await authenticateApiRequest(requestWith('Bearer ownrsvp_secret'), 'events:read')
+
+      expect(result).toEqual({ userId: 'user-1', scopes: ['events:read'] })
+      expect(prisma.apiToken.findUnique).toHaveBeenCalledWith({ where: { tokenHash: hashApiToken('ownrsvp_secret') } })
+      expect(prisma.apiToken.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'token-1' }, data: { lastUsedAt: expect.any(Date) } })
+      )
+    })
+
+    it('does not rewrite lastUsedAt on every call', async () => {
+      vi.mocked(prisma.apiToken.findUnique).mockResolvedValue(apiToken({ lastUsedAt: new Date() }) as any)
+
+      await authenticateApiRequest(requestWith('Bearer ownrsvp_secret'), 'events:read')
+
+      expect(prisma.apiToken.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { getAppUrl } from '@/lib/config'
+import { generateCalendarFeed, resetHostCalendarFeed, getOrCreateGuestCalendarFeed } from '@/lib/calendar-feed'
+
+vi.mock('@/lib/config', () => ({
+  getAppUrl: vi.fn(),
+}))
+
+const event = (overrides = {}) => ({
+  id: 'event-1',
+  slug: 'game-night',
+  title: 'Game Night',
+  description: 'Bring snacks',
+  date: new Date('2030-01-10T01:00:00Z'),
+  endDate: null,
+  timezone: 'America/Chicago',
+  calendarSequence: 3,
+  updatedAt: new Date('2029-12-01T12:00:00Z'),
+  locationName: 'The Den',
+  streetAddress1: null,
+  streetAddress2: null,
+  city: 'Austin',
+  state: 'TX',
+  zipCode: null,
+  ...overrides,
+})
+
+describe('Calendar feeds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getAppUrl).mockResolvedValue('https://rsvp.example.com')
+  })
+
+  describe('generateCalendarFeed', () => {
+    it('returns null for an unknown or revoked token', async () => {
+      vi.mocked(prisma.calendarFeed.findUnique).mockResolvedValue(null)
+
+      expect(await generateCalendarFeed('nope')).toBeNull()
+    })
+
+    it('lists the events a user hosts or co-hosts', async () => {
+      vi.mocked(prisma.calendarFeed.findUnique).mockResolvedValue({ token: 'abc', userId: 'user-1', email: null, user: { id: 'user-1' } } as any)
+      vi.mocked(prisma.event.findMany).mockResolvedValue([
+        event(),
+        event({ id: 'event-2', title: 'Book Club', timezone: 'Europe/London' }),
+      ] as any)
+
+      const content = (await generateCalendarFeed('abc'))!
+
+      expect(prisma.event.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: [{ hostId: 'user-1' }, { coHosts: { some: { userId: 'user-1' } } }],
+          }),
+        })
+      )
+      expect(content).toContain('X-WR-CALNAME:OwnRSVP: Events I host')
+      expect(content).toContain('UID:event-1@ownrsvp')
+      expect(content).toContain('UID:event-2@ownrsvp')
+      expect(content).toContain('SEQUENCE:3')
+      expect(content).toContain('TZID:America/Chicago')
+      expect(content).toContain('TZID:Europe/London')
+      expect(content).toContain('URL:https://rsvp.example.com/dashboard/events/event-1')
+    })
+
+    it("shows a guest's own RSVP and leaves out declined events", async () => {
+      vi.mocked(prisma.calendarFeed.findUnique).mockResolvedValue({ token: 'abc', userId: null, email: 'sam@example.com', user: null } as any)
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([
+        { status: 'ATTENDING', event: event({ isPublic: true }) },
+        { status: 'MAYBE', event: event({ id: 'event-2', description: null, isPublic: false }) },
+      ] as any)
+
+      const content = (await generateCalendarFeed('abc'))!
+      const [, first, second] = content.split('BEGIN:VEVENT')
+
+      expect(prisma.guest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ email: 'sam@example.com', status: { not: 'NOT_ATTENDING' } }),
+        })
+      )
+      expect(content).toContain('X-WR-CALNAME:OwnRSVP: My invitations')
+      expect(first).toContain('DESCRIPTION:Your RSVP: Attending\\n\\nBring snacks')
+      expect(first).toContain('STATUS:CONFIRMED')
+      expect(first).toContain('URL:https://rsvp.example.com/events/game-night')
+      expect(second).toContain('DESCRIPTION:Your RSVP: Maybe\r\n')
+      expect(second).toContain('STATUS:TENTATIVE')
+      // The feed spans hosts, so it never links to the guest's RSVPs
+      expect(content).not.toContain('/rsvp/')
+      expect(second).not.toContain('URL:')
+    })
+  })
+
+  describe('feed links', () => {
+    it('gives a feed a new token when it is reset', async () => {
+      vi.mocked(prisma.calendarFeed.upsert).mockResolvedValue({ token: 'new' } as any)
+
+      await resetHostCalendarFeed('user-1')
+
+      const args = vi.mocked(prisma.calendarFeed.upsert).mock.calls[0][0]
+      expect(args.where).toEqual({ userId: 'user-1' })
+      expect(args.update.token).toMatch(/^[0-9a-f]{48}$/)
+      expect(args.create.token).toBe(args.update.token)
+    })
+
+    it("keeps a guest's existing link", async () => {
+      vi.mocked(prisma.calendarFeed.upsert).mockResolvedValue({ token: 'existing' } as any)
+
+      await getOrCreateGuestCalendarFeed('sam@example.com')
+
+      expect(prisma.calendarFeed.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { email: 'sam@example.com' }, update: {} })
+      )
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CalendarEvent,
+  generateCalendarInvite,
+  generateGoogleCalendarUrl,
+  generateIcalContent,
+  generateIcalFeed,
+  generateOutlookCalendarUrl,
+  hasCalendarChanges,
+  parseCalendarUid,
+  toCalendarEvent,
+} from '@/lib/calendar'
+
+const event: CalendarEvent = {
+  id: 'event-1',
+  title: 'Summer Party',
+  description: 'Bring a dish, and a chair',
+  address: {
+    locationName: 'Zilker Park',
+    streetAddress1: '2100 Barton Springs Rd',
+    city: 'Austin',
+    state: 'TX',
+    zipCode: '78746',
+  },
+  // 6pm in Austin
+  startDate: new Date('2026-07-04T23:00:00Z'),
+  endDate: new Date('2026-07-05T02:00:00Z'),
+  timezone: 'America/Chicago',
+  sequence: 3,
+  url: 'https://rsvp.example.com/events/summer-party',
+}
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '')
+
+describe('Calendar exports', () => {
+  describe('generateIcalContent', () => {
+    it('writes times in the event timezone with a matching VTIMEZONE', () => {
+      const ics = unfold(generateIcalContent(event))
+
+      expect(ics).toContain('DTSTART;TZID=America/Chicago:20260704T180000')
+      expect(ics).toContain('DTEND;TZID=America/Chicago:20260704T210000')
+      expect(ics).toContain('BEGIN:VTIMEZONE\r\nTZID:America/Chicago')
+      // Daylight saving starts on the second Sunday of March at 2am local time
+      expect(ics).toContain(
+        'BEGIN:DAYLIGHT\r\nDTSTART:20260308T020000\r\nTZOFFSETFROM:-0600\r\nTZOFFSETTO:-0500\r\nTZNAME:CDT\r\nEND:DAYLIGHT'
+      )
+      expect(ics).toContain('TZOFFSETFROM:-0500\r\nTZOFFSETTO:-0600\r\nTZNAME:CST')
+    })
+
+    it('uses the same UID on every export, with the event sequence', () => {
+      const first = generateIcalContent(event)
+      const second = generateIcalContent({ ...event, title: 'Summer Party (moved)', sequence: 4 })
+
+      expect(first).toContain('UID:event-1@ownrsvp')
+      expect(second).toContain('UID:event-1@ownrsvp')
+      expect(first).toContain('SEQUENCE:3')
+      expect(second).toContain('SEQUENCE:4')
+    })
+
+    it('includes the full address', () => {
+      expect(unfold(generateIcalContent(event))).toContain(
+        'LOCATION:Zilker Park\\, 2100 Barton Springs Rd\\, Austin\\, TX 78746'
+      )
+    })
+
+    it('falls back to UTC times without a VTIMEZONE', () => {
+      const ics = generateIcalContent({ ...event, timezone: null, endDate: null })
+
+      expect(ics).not.toContain('VTIMEZONE')
+      expect(ics).toContain('DTSTART:20260704T230000Z')
+      // Events without an end time last two hours
+      expect(ics).toContain('DTEND:20260705T010000Z')
+    })
+
+    it('folds long lines at 75 bytes', () => {
+      const ics = generateIcalContent({ ...event, description: 'Long description '.repeat(20) })
+
+      ics.split('\r\n').forEach((line) => {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+      })
+      expect(unfold(ics)).toContain(`DESCRIPTION:${'Long description '.repeat(20)}`)
+    })
+  })
+
+  describe('generateCalendarInvite', () => {
+    const organizer = { email: 'replies@example.com', name: 'OwnRSVP' }
+
+    it('asks the guest to reply, with their current answer', () => {
+      const ics = unfold(
+        generateCalendarInvite(event, {
+          method: 'REQUEST',
+          organizer,
+          attendee: { email: 'sam@example.com', name: 'Sam, Jr.', status: 'MAYBE' },
+        })
+      )
+
+      expect(ics).toContain('METHOD:REQUEST')
+      expect(ics).toContain('ORGANIZER;CN="OwnRSVP":mailto:replies@example.com')
+      expect(ics).toContain('ATTENDEE;CN="Sam, Jr.";ROLE=REQ-PARTICIPANT;PARTSTAT=TENTATIVE;RSVP=TRUE:mailto:sam@example.com')
+      expect(ics).toContain('STATUS:CONFIRMED')
+    })
+
+    it('marks cancellations as cancelled', () => {
+      const ics = generateCalendarInvite(event, {
+        method: 'CANCEL',
+        organizer,
+        attendee: { email: 'sam@example.com' },
+      })
+
+      expect(ics).toContain('METHOD:CANCEL')
+      expect(ics).toContain('STATUS:CANCELLED')
+      expect(ics).toContain('PARTSTAT=NEEDS-ACTION')
+    })
+  })
+
+  describe('generateIcalFeed', () => {
+    it('lists every event under one name, with one VTIMEZONE per timezone', () => {
+      const ics = unfold(generateIcalFeed('OwnRSVP: My invitations', [
+        event,
+        { ...event, id: 'event-2', startDate: new Date('2026-12-31T23:00:00Z'), endDate: null, status: 'TENTATIVE' },
+      ]))
+
+      expect(ics).toContain('METHOD:PUBLISH')
+      expect(ics).toContain('X-WR-CALNAME:OwnRSVP: My invitations')
+      expect(ics.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1)
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2)
+      expect(ics).toContain('UID:event-2@ownrsvp')
+      expect(ics).toContain('STATUS:TENTATIVE')
+    })
+  })
+
+  describe('parseCalendarUid', () => {
+    it('reads the event id back from a UID', () => {
+      expect(parseCalendarUid('event-1@ownrsvp')).toBe('event-1')
+      expect(parseCalendarUid('abc123@google.com')).toBeNull()
+    })
+  })
+
+  describe('calendar links', () => {
+    it('gives Google local times and the event timezone', () => {
+      const params = new URL(generateGoogleCalendarUrl(event)).searchParams
+
+      expect(params.get('dates')).toBe('20260704T180000/20260704T210000')
+      expect(params.get('ctz')).toBe('America/Chicago')
+      expect(params.get('location')).toBe('Zilker Park, 2100 Barton Springs Rd, Austin, TX 78746')
+    })
+
+    it('gives Outlook times with the event timezone offset', () => {
+      const params = new URL(generateOutlookCalendarUrl(event)).searchParams
+
+      expect(params.get('startdt')).toBe('2026-07-04T18:00:00-05:00')
+      expect(params.get('enddt')).toBe('2026-07-04T21:00:00-05:00')
+    })
+  })
+
+  describe('hasCalendarChanges', () => {
+    const existing = {
+      title: 'Summer Party',
+      date: new Date('2026-07-04T23:00:00Z'),
+      city: 'Austin',
+      description: null,
+    }
+
+    it('spots changes to what calendars show', () => {
+      expect(hasCalendarChanges(existing, { date: new Date('2026-07-05T23:00:00Z') })).toBe(true)
+      expect(hasCalendarChanges(existing, { city: 'Dallas' })).toBe(true)
+    })
+
+    it('ignores unchanged and missing fields', () => {
+      expect(hasCalendarChanges(existing, { title: 'Summer Party', date: new Date('2026-07-04T23:00:00Z') })).toBe(false)
+      expect(hasCalendarChanges(existing, { description: '' })).toBe(false)
+      expect(hasCalendarChanges(existing, {})).toBe(false)
+    })
+  })
+
+  describe('toCalendarEvent', () => {
+    it('builds an export from an event row', () => {
+      const calendarEvent = toCalendarEvent(
+        {
+          id: 'event-1',
+          title: 'Summer Party',
+          description: null,
+          date: event.startDate,
+          endDate: null,
+          timezone: 'America/Chicago',
+          calendarSequence: 2,
+          city: 'Austin',
+        },
+        'https://rsvp.example.com/events/summer-party'
+      )
+
+      expect(calendarEvent).toMatchObject({ id: 'event-1', sequence: 2, address: { city: 'Austin' } })
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+
+vi.mock('@/lib/auth-secret', () => ({
+  getOrCreateAuthSecret: vi.fn(() => 'test-auth-secret-value'),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import { createChallenge, isChallengeRequired, verifyChallengeSolution } from '@/lib/challenge'
+import { solveChallenge } from '@/lib/challenge-solver'
+
+const spamProtection = (enabled: boolean) => [
+  { category: 'spamProtection', key: 'SPAM_PROTECTION_ENABLED', value: String(enabled) },
+  { category: 'spamProtection', key: 'SPAM_PROTECTION_DIFFICULTY', value: 'low' },
+]
+
+const decode = (payload: string) => JSON.parse(Buffer.from(payload, 'base64').toString('utf8'))
+const encode = (solution: object) => Buffer.from(JSON.stringify(solution)).toString('base64')
+
+describe('Proof-of-work spam check', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.appConfig.findMany).mockResolvedValue(spamProtection(true) as any)
+    vi.mocked(prisma.usedChallenge.create).mockResolvedValue({} as any)
+  })
+
+  describe('isChallengeRequired', () => {
+    it('follows the admin setting, and lets events opt out', async () => {
+      expect(await isChallengeRequired()).toBe(true)
+      expect(await isChallengeRequired({ spamProtection: true })).toBe(true)
+      expect(await isChallengeRequired({ spamProtection: false })).toBe(false)
+
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue(spamProtection(false) as any)
+      expect(await isChallengeRequired({ spamProtection: true })).toBe(false)
+    })
+  })
+
+  describe('verifyChallengeSolution', () => {
+    it('accepts a solved challenge and records its signature', async () => {
+      const challenge = await createChallenge()
+      expect(challenge.maxnumber).toBe(20000)
+
+      const solution = await solveChallenge(challenge)
+
+      expect(solution).not.toBeNull()
+      expect(await verifyChallengeSolution(solution)).toBe(true)
+      expect(prisma.usedChallenge.create).toHaveBeenCalledWith({
+        data: { signature: challenge.signature, expiresAt: expect.any(Date) },
+      })
+      expect(prisma.usedChallenge.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: expect.any(Date) } },
+      })
+    })
+
+    it('rejects a solution already used, here or on another instance', async () => {
+      const solution = await solveChallenge(await createChallenge())
+      vi.mocked(prisma.usedChallenge.create).mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }))
+
+      expect(await verifyChallengeSolution(solution)).toBe(false)
+    })
+
+    it('does not record solutions that fail the check', async () => {
+      const solution = decode((await solveChallenge(await createChallenge()))!)
+
+      expect(await verifyChallengeSolution(encode({ ...solution, number: solution.number + 1 }))).toBe(false)
+      expect(prisma.usedChallenge.create).not.toHaveBeenCalled()
+    })
+
+    it('rejects a wrong number', async () => {
+      const solution = decode((await solveChallenge(await createChallenge()))!)
+
+      expect(await verifyChallengeSolution(encode({ ...solution, number: solution.number + 1 }))).toBe(false)
+    })
+
+    it('rejects a challenge the server did not sign', async () => {
+      const solution = decode((await solveChallenge(await createChallenge()))!)
+
+      expect(await verifyChallengeSolution(encode({ ...solution, signature: 'f'.repeat(64) }))).toBe(false)
+    })
+
+    it('rejects an expired challenge', async () => {
+      const challenge = await createChallenge()
+      const solution = await solveChallenge(challenge)
+
+      vi.useFakeTimers({ now: Date.now() + 6 * 60 * 1000 })
+      try {
+        expect(await verifyChallengeSolution(solution)).toBe(false)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('rejects missing or malformed payloads', async () => {
+      expect(await verifyChallengeSolution(undefined)).toBe(false)
+      expect(await verifyChallengeSolution('not base64 json')).toBe(false)
+      expect(await verifyChallengeSolution(encode({ algorithm: 'SHA-256' }))).toBe(false)
+    })
+  })
+})
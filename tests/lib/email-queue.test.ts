@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import nodemailer from 'nodemailer'
+import { prisma } from '@/lib/prisma'
+import {
+  getRetryDelay,
+  processEmailQueue,
+  resetEmailRateLimits,
+} from '@/lib/email-queue'
+
+const originalEnv = { ...process.env }
+
+const queuedEmail = (overrides = {}) => ({
+  id: 'email-1',
+  eventId: 'event-1',
+  guestId: 'guest-1',
+  type: 'invitation',
+  to: 'guest@example.com',
+  replyTo: null,
+  subject: "You're invited!",
+  html: '<p>Hello</p>',
+  calendarMethod: null,
+  calendarInvite: null,
+  status: 'PENDING',
+  attempts: 0,
+  maxAttempts: 5,
+  lastError: null,
+  nextRetryAt: new Date(),
+  sentAt: null,
+  smtpHost: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+describe('Email Queue', () => {
+  let mockSendMail: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    resetEmailRateLimits()
+    process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000'
+    mockSendMail = vi.fn().mockResolvedValue({ messageId: 'test-message-id' })
+    vi.mocked(nodemailer.createTransport).mockReturnValue({
+      sendMail: mockSendMail,
+      verify: vi.fn().mockResolvedValue(true),
+    } as any)
+    vi.mocked(prisma.appConfig.findMany).mockResolvedValue([
+      { category: 'email', key: 'SMTP_HOST', value: 'smtp.example.com' },
+      { category: 'email', key: 'SMTP_PORT', value: '587' },
+      { category: 'email', key: 'SMTP_USER', value: 'user@example.com' },
+      { category: 'email', key: 'SMTP_PASSWORD', value: 'password' },
+    ] as any)
+    vi.mocked(prisma.appConfig.findUnique).mockResolvedValue(null)
+    vi.mocked(prisma.outboundEmail.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(prisma.outboundEmail.update).mockResolvedValue(queuedEmail() as any)
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  describe('getRetryDelay', () => {
+    it('doubles the delay after each attempt', () => {
+      expect(getRetryDelay(1)).toBe(30 * 1000)
+      expect(getRetryDelay(2)).toBe(60 * 1000)
+      expect(getRetryDelay(3)).toBe(120 * 1000)
+    })
+
+    it('caps the delay at one hour', () => {
+      expect(getRetryDelay(20)).toBe(60 * 60 * 1000)
+    })
+  })
+
+  describe('processEmailQueue', () => {
+    it('sends due messages and marks them sent', async () => {
+      vi.mocked(prisma.outboundEmail.findMany).mockResolvedValue([queuedEmail()] as any)
+
+      const result = await processEmailQueue()
+
+      expect(result).toEqual({ sent: 1, retrying: 0, failed: 0, deferred: 0 })
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'guest@example.com', subject: "You're invited!" })
+      )
+      expect(prisma.outboundEmail.update).toHaveBeenCalledWith({
+        where: { id: 'email-1' },
+        data: expect.objectContaining({ status: 'SENT', attempts: 1, smtpHost: 'smtp.example.com' }),
+      })
+    })
+
+    it('schedules a retry with backoff when sending fails', async () => {
+      vi.mocked(prisma.outboundEmail.findMany).mockResolvedValue([queuedEmail({ attempts: 1 })] as any)
+      mockSendMail.mockRejectedValue(new Error('Connection refused'))
+
+      const before = Date.now()
+      const result = await processEmailQueue()
+
+      expect(result.retrying).toBe(1)
+      const { data } = vi.mocked(prisma.outboundEmail.update).mock.calls[0][0] as any
+      expect(data.status).toBe('PENDING')
+      expect(data.attempts).toBe(2)
+      expect(data.lastError).toBe('Connection refused')
+      expect(data.nextRetryAt.getTime()).toBeGreaterThanOrEqual(before + getRetryDelay(2))
+    })
+
+    it('gives up after the last attempt', async () => {
+      vi.mocked(prisma.outboundEmail.findMany).mockResolvedValue([queuedEmail({ attempts: 4 })] as any)
+      mockSendMail.mockRejectedValue(new Error('Mailbox unavailable'))
+
+      const result = await processEmailQueue()
+
+      expect(result.failed).toBe(1)
+      expect(prisma.outboundEmail.update).toHaveBeenCalledWith({
+        where: { id: 'email-1' },
+        data: expect.objectContaining({ status: 'FAILED', attempts: 5, lastError: 'Mailbox unavailable' }),
+      })
+    })
+
+    it('defers messages once the server rate limit is reached', async () => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue([
+        { category: 'email', key: 'SMTP_HOST', value: 'smtp.example.com' },
+        { category: 'email', key: 'SMTP_PORT', value: '587' },
+        { category: 'email', key: 'SMTP_USER', value: 'user@example.com' },
+        { category: 'email', key: 'SMTP_PASSWORD', value: 'password' },
+        { category: 'email', key: 'SMTP_RATE_LIMIT', value: '2' },
+      ] as any)
+      vi.mocked(prisma.outboundEmail.findMany).mockResolvedValue([
+        queuedEmail({ id: 'email-1' }),
+        queuedEmail({ id: 'email-2' }),
+        queuedEmail({ id: 'email-3' }),
+      ] as any)
+
+      const result = await processEmailQueue()
+
+      expect(result).toEqual({ sent: 2, retrying: 0, failed: 0, deferred: 1 })
+      expect(mockSendMail).toHaveBeenCalledTimes(2)
+      expect(prisma.outboundEmail.updateMany).toHaveBeenCalledTimes(2)
+    })
+
+    it('skips messages already claimed by another worker', async () => {
+      vi.mocked(prisma.outboundEmail.findMany).mockResolvedValue([queuedEmail()] as any)
+      vi.mocked(prisma.outboundEmail.updateMany).mockResolvedValue({ count: 0 })
+
+      const result = await processEmailQueue()
+
+      expect(result.sent).toBe(0)
+      expect(mockSendMail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('calendar invites', () => {
+    it('sends a queued invite as the calendar part of the message', async () => {
+      vi.mocked(prisma.outboundEmail.findMany).mockResolvedValue([
+        queuedEmail({ calendarMethod: 'REQUEST', calendarInvite: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR' }),
+      ] as any)
+
+      await processEmailQueue()
+
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          icalEvent: { method: 'REQUEST', content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR' },
+        })
+      )
+    })
+
+    it('stores the invite with the queued invitation', async () => {
+      process.env.CALENDAR_REPLY_ADDRESS = 'replies@example.com'
+      vi.mocked(prisma.eventEmailTemplate.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.emailTemplate.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.outboundEmail.create).mockResolvedValue(queuedEmail() as any)
+      vi.mocked(prisma.outboundEmail.findMany).mockResolvedValue([])
+
+      const { sendInvitation } = await import('@/lib/email')
+      await sendInvitation({
+        to: 'guest@example.com',
+        guestName: 'Sam',
+        event: { id: 'event-1', title: 'Game Night', date: new Date('2030-01-10T01:00:00Z'), timezone: 'America/New_York' },
+        rsvpToken: 'tok123',
+        guestId: 'guest-1',
+        queue: true,
+      })
+
+      const { data } = vi.mocked(prisma.outboundEmail.create).mock.calls[0][0] as any
+      const invite = data.calendarInvite.replace(/\r\n /g, '')
+      expect(data.calendarMethod).toBe('REQUEST')
+      expect(invite).toContain('METHOD:REQUEST')
+      expect(invite).toContain('UID:event-1@ownrsvp')
+      expect(invite).toContain('DTSTART;TZID=America/New_York:20300109T200000')
+      expect(invite).toContain('ORGANIZER;CN="OwnRSVP":mailto:replies@example.com')
+      expect(invite).toContain('ATTENDEE;CN="Sam";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:guest@example.com')
+      expect(invite).toContain('URL:http://localhost:3000/rsvp/tok123')
+    })
+  })
+
+  describe('queued sending', () => {
+    it('adds guest emails to the outbox instead of sending inline', async () => {
+      vi.mocked(prisma.eventEmailTemplate.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.emailTemplate.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.outboundEmail.create).mockResolvedValue(queuedEmail() as any)
+      vi.mocked(prisma.outboundEmail.findMany).mockResolvedValue([])
+
+      const { sendInvitation } = await import('@/lib/email')
+      await sendInvitation({
+        to: 'guest@example.com',
+        event: { id: 'event-1', title: 'Game Night', date: new Date() },
+        rsvpToken: 'tok123',
+        guestId: 'guest-1',
+        queue: true,
+      })
+
+      expect(prisma.outboundEmail.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'invitation',
+          to: 'guest@example.com',
+          subject: "You're invited to Game Night!",
+          eventId: 'event-1',
+          guestId: 'guest-1',
+        }),
+      })
+      // The background drain picks the message up rather than the caller
+      await vi.waitFor(() => expect(prisma.outboundEmail.findMany).toHaveBeenCalled())
+      expect(mockSendMail).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import nodemailer from 'nodemailer'
+import { prisma } from '@/lib/prisma'
+import { renderTemplate, getTemplateVariables } from '@/lib/template-utils'
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  renderEmailTemplate,
+  withTemplateDefaults,
+} from '@/lib/email-templates'
+
+const originalEnv = { ...process.env }
+
+describe('Email Templates', () => {
+  describe('renderTemplate', () => {
+    it('replaces variables and blanks unknown ones', () => {
+      expect(renderTemplate('Hi {{ name }}, see {{missing}}you', { name: 'Sam' })).toBe('Hi Sam, see you')
+    })
+
+    it('escapes values when rendering HTML', () => {
+      const output = renderTemplate('<p>{{name}}</p>', { name: '<b>Sam & Co</b>' }, { escapeHtml: true })
+      expect(output).toBe('<p>&lt;b&gt;Sam &amp; Co&lt;/b&gt;</p>')
+    })
+
+    it('inserts pre-rendered HTML values as-is', () => {
+      const output = renderTemplate(
+        '<div>{{address}}</div>',
+        { address: 'Home, Town' },
+        { escapeHtml: true, htmlValues: { address: 'Home<br>Town' } }
+      )
+      expect(output).toBe('<div>Home<br>Town</div>')
+    })
+
+    it('handles conditional blocks with else branches', () => {
+      const template = '{{#if name}}Hi {{name}}{{else}}Hello{{/if}}!'
+      expect(renderTemplate(template, { name: 'Sam' })).toBe('Hi Sam!')
+      expect(renderTemplate(template, { name: '' })).toBe('Hello!')
+    })
+
+    it('resolves nested conditional blocks', () => {
+      const template = '{{#if a}}A{{#if b}}B{{/if}}{{else}}none{{/if}}'
+      expect(renderTemplate(template, { a: 'x', b: 'y' })).toBe('AB')
+      expect(renderTemplate(template, { a: 'x' })).toBe('A')
+      expect(renderTemplate(template, { b: 'y' })).toBe('none')
+    })
+
+    it('lists the variables a template uses', () => {
+      expect(getTemplateVariables('{{#if address}}{{address}}{{else}}{{eventTitle}}{{/if}}')).toEqual([
+        'address',
+        'eventTitle',
+      ])
+    })
+  })
+
+  describe('renderEmailTemplate', () => {
+    const data = {
+      appUrl: 'http://localhost:3000',
+      guestName: 'Jane',
+      hostName: 'Sam',
+      event: {
+        title: 'Game Night',
+        date: new Date('2030-01-10T19:00:00Z'),
+        locationName: 'The Den',
+        city: 'Austin',
+      },
+      rsvpToken: 'tok123',
+    }
+
+    it('renders the default invitation', () => {
+      const { subject, html } = renderEmailTemplate('invitation', DEFAULT_EMAIL_TEMPLATES.invitation, data)
+
+      expect(subject).toBe("You're invited to Game Night!")
+      expect(html).toContain("You're Invited!")
+      expect(html).toContain('Hi Jane,')
+      expect(html).toContain('Sam has invited you')
+      expect(html).toContain('The Den')
+      expect(html).toContain('/api/rsvp/tok123/quick?status=ATTENDING')
+      expect(html).toContain('http://localhost:3000/rsvp/tok123')
+    })
+
+    it('omits the address block when the event has no address', () => {
+      const { html } = renderEmailTemplate('invitation', DEFAULT_EMAIL_TEMPLATES.invitation, {
+        ...data,
+        event: { title: 'Game Night', date: new Date('2030-01-10T19:00:00Z') },
+      })
+
+      expect(html).not.toContain('Where:')
+    })
+
+    it('shows event details in confirmations only when attending', () => {
+      const attending = renderEmailTemplate('confirmation', DEFAULT_EMAIL_TEMPLATES.confirmation, {
+        ...data,
+        status: 'ATTENDING',
+      })
+      const declined = renderEmailTemplate('confirmation', DEFAULT_EMAIL_TEMPLATES.confirmation, {
+        ...data,
+        status: 'NOT_ATTENDING',
+      })
+
+      expect(attending.html).toContain('Event Details')
+      expect(declined.html).not.toContain('Event Details')
+      expect(declined.html).toContain("We're sorry you can't make it")
+    })
+
+    it('keeps subjects as plain text', () => {
+      const { subject } = renderEmailTemplate(
+        'broadcast',
+        DEFAULT_EMAIL_TEMPLATES.broadcast,
+        { appUrl: 'http://localhost:3000', eventTitle: 'Tom & Jerry', subject: 'Update' }
+      )
+
+      expect(subject).toBe('[Tom & Jerry] Update')
+    })
+
+    it('falls back to the default heading when a stored one is blank', () => {
+      const template = withTemplateDefaults('reminder', { subject: 'Custom', heading: '', body: '<p>Body</p>' })
+
+      expect(template).toEqual({
+        subject: 'Custom',
+        heading: DEFAULT_EMAIL_TEMPLATES.reminder.heading,
+        body: '<p>Body</p>',
+      })
+    })
+  })
+
+  describe('sending with stored templates', () => {
+    let mockSendMail: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000'
+      mockSendMail = vi.fn().mockResolvedValue({ messageId: 'test-message-id' })
+      vi.mocked(nodemailer.createTransport).mockReturnValue({
+        sendMail: mockSendMail,
+        verify: vi.fn().mockResolvedValue(true),
+      } as any)
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue([
+        { category: 'email', key: 'SMTP_HOST', value: 'smtp.example.com' },
+        { category: 'email', key: 'SMTP_PORT', value: '587' },
+        { category: 'email', key: 'SMTP_USER', value: 'user@example.com' },
+        { category: 'email', key: 'SMTP_PASSWORD', value: 'password' },
+      ] as any)
+      vi.mocked(prisma.appConfig.findUnique).mockResolvedValue(null)
+    })
+
+    afterEach(() => {
+      process.env = { ...originalEnv }
+    })
+
+    it('uses the global template when the event has no override', async () => {
+      vi.mocked(prisma.eventEmailTemplate.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.emailTemplate.findUnique).mockResolvedValue({
+        id: 't1',
+        name: 'reminder',
+        subject: 'Still coming to {{eventTitle}}?',
+        heading: '',
+        body: '<p>{{greeting}} please reply: {{rsvpLink}}</p>',
+        isDefault: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+
+      const { sendReminder } = await import('@/lib/email')
+      await sendReminder({
+        to: 'guest@example.com',
+        guestName: 'Jane',
+        event: { id: 'event-1', title: 'Game Night', date: new Date() },
+        rsvpToken: 'tok123',
+      })
+
+      expect(prisma.eventEmailTemplate.findUnique).toHaveBeenCalledWith({
+        where: { eventId_name: { eventId: 'event-1', name: 'reminder' } },
+      })
+      const callArgs = mockSendMail.mock.calls[0][0]
+      expect(callArgs.subject).toBe('Still coming to Game Night?')
+      expect(callArgs.html).toContain('<p>Hi Jane, please reply: http://localhost:3000/rsvp/tok123</p>')
+      expect(callArgs.html).toContain('Reminder: RSVP Needed')
+    })
+
+    it('prefers the per-event override', async () => {
+      vi.mocked(prisma.eventEmailTemplate.findUnique).mockResolvedValue({
+        id: 'o1',
+        eventId: 'event-1',
+        name: 'invitation',
+        subject: 'Party time: {{eventTitle}}',
+        heading: 'Come celebrate',
+        body: '<p>{{hostName}} wants you there</p>',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+
+      const { sendInvitation } = await import('@/lib/email')
+      await sendInvitation({
+        to: 'guest@example.com',
+        event: { id: 'event-1', title: 'Game Night', date: new Date() },
+        rsvpToken: 'tok123',
+        hostName: 'Sam',
+      })
+
+      expect(prisma.emailTemplate.findUnique).not.toHaveBeenCalled()
+      const callArgs = mockSendMail.mock.calls[0][0]
+      expect(callArgs.subject).toBe('Party time: Game Night')
+      expect(callArgs.html).toContain('Come celebrate')
+      expect(callArgs.html).toContain('<p>Sam wants you there</p>')
+    })
+  })
+})
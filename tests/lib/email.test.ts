@@ -1519,14 +1519,14 @@ describe('Email System', () => {
                 token: 'abc123',
                 status: 'PENDING',
                 notifyByEmail: true,
-                reminderSentAt: null,
+                reminderDeliveries: [],
               },
             ],
           },
         ]
 
         vi.mocked(prisma.event.findMany).mockResolvedValue(mockEvents as any)
-        vi.mocked(prisma.guest.update).mockResolvedValue({} as any)
+        vi.mocked(prisma.reminderDelivery.create).mockResolvedValue({} as any)
 
         const { POST } = await import('@/app/api/cron/reminders/route')
         const request = createMockRequest('POST', '/api/cron/reminders')
@@ -1555,7 +1555,9 @@ describe('Email System', () => {
                 token: 'abc123',
                 status: 'PENDING',
                 notifyByEmail: true,
-                reminderSentAt: new Date(), // Already sent
+                reminderDeliveries: [
+                  { slot: 'day:2', channel: 'email', sentAt: new Date() }, // Already sent
+                ],
               },
             ],
           },
@@ -1589,7 +1591,7 @@ describe('Email System', () => {
                 token: 'abc123',
                 status: 'PENDING',
                 notifyByEmail: false,
-                reminderSentAt: null,
+                reminderDeliveries: [],
               },
             ],
           },
@@ -1624,14 +1626,14 @@ describe('Email System', () => {
                 token: 'abc123',
                 status: 'PENDING',
                 notifyByEmail: true,
-                reminderSentAt: null,
+                reminderDeliveries: [],
               },
             ],
           },
         ]
 
         vi.mocked(prisma.event.findMany).mockResolvedValue(mockEvents as any)
-        vi.mocked(prisma.guest.update).mockResolvedValue({} as any)
+        vi.mocked(prisma.reminderDelivery.create).mockResolvedValue({} as any)
 
         const { POST } = await import('@/app/api/cron/reminders/route')
         const request = createMockRequest('POST', '/api/cron/reminders')
@@ -1641,7 +1643,7 @@ describe('Email System', () => {
         expect(body.emailsSent).toBe(1)
       })
 
-      it('should update reminderSentAt after sending', async () => {
+      it('should record the reminder delivery after sending', async () => {
         const twoDaysFromNow = new Date()
         twoDaysFromNow.setDate(twoDaysFromNow.getDate() + 2)
 
@@ -1659,26 +1661,101 @@ describe('Email System', () => {
                 token: 'abc123',
                 status: 'PENDING',
                 notifyByEmail: true,
-                reminderSentAt: null,
+                reminderDeliveries: [],
               },
             ],
           },
         ]
 
         vi.mocked(prisma.event.findMany).mockResolvedValue(mockEvents as any)
-        vi.mocked(prisma.guest.update).mockResolvedValue({} as any)
+        vi.mocked(prisma.reminderDelivery.create).mockResolvedValue({} as any)
 
         const { POST } = await import('@/app/api/cron/reminders/route')
         const request = createMockRequest('POST', '/api/cron/reminders')
 
         await POST(request)
 
-        expect(prisma.guest.update).toHaveBeenCalledWith({
-          where: { id: 'guest-1' },
-          data: { reminderSentAt: expect.any(Date) },
+        expect(prisma.reminderDelivery.create).toHaveBeenCalledWith({
+          data: { guestId: 'guest-1', slot: 'day:2', channel: 'email' },
         })
       })
 
+      it('should send each reminder in the schedule once', async () => {
+        const twoDaysFromNow = new Date()
+        twoDaysFromNow.setDate(twoDaysFromNow.getDate() + 2)
+        const fiveDaysAgo = new Date()
+        fiveDaysAgo.setDate(fiveDaysAgo.getDate() - 5)
+
+        const mockEvents = [
+          {
+            id: 'event-1',
+            title: 'Event',
+            date: twoDaysFromNow,
+            reminderSchedule: '[{"type":"day","value":7},{"type":"day","value":2}]',
+            guests: [
+              {
+                id: 'guest-1',
+                email: 'guest@example.com',
+                name: 'Guest',
+                token: 'abc123',
+                status: 'PENDING',
+                notifyByEmail: true,
+                reminderDeliveries: [{ slot: 'day:7', channel: 'email', sentAt: fiveDaysAgo }],
+              },
+            ],
+          },
+        ]
+
+        vi.mocked(prisma.event.findMany).mockResolvedValue(mockEvents as any)
+        vi.mocked(prisma.reminderDelivery.create).mockResolvedValue({} as any)
+
+        const { POST } = await import('@/app/api/cron/reminders/route')
+        const request = createMockRequest('POST', '/api/cron/reminders')
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+        expect(body.emailsSent).toBe(1)
+        expect(prisma.reminderDelivery.create).toHaveBeenCalledWith({
+          data: { guestId: 'guest-1', slot: 'day:2', channel: 'email' },
+        })
+      })
+
+      it('should not send a reminder to guests invited after it was due', async () => {
+        const twoDaysFromNow = new Date()
+        twoDaysFromNow.setDate(twoDaysFromNow.getDate() + 2)
+
+        const mockEvents = [
+          {
+            id: 'event-1',
+            title: 'Event',
+            date: twoDaysFromNow,
+            reminderSchedule: '[{"type":"day","value":3}]',
+            guests: [
+              {
+                id: 'guest-1',
+                email: 'guest@example.com',
+                name: 'Guest',
+                token: 'abc123',
+                status: 'PENDING',
+                notifyByEmail: true,
+                invitedAt: new Date(),
+                reminderDeliveries: [],
+              },
+            ],
+          },
+        ]
+
+        vi.mocked(prisma.event.findMany).mockResolvedValue(mockEvents as any)
+
+        const { POST } = await import('@/app/api/cron/reminders/route')
+        const request = createMockRequest('POST', '/api/cron/reminders')
+
+        const response = await POST(request)
+        const body = await parseJsonResponse(response)
+        expect(body.emailsSent).toBe(0)
+        expect(prisma.reminderDelivery.create).not.toHaveBeenCalled()
+      })
+
       it('should include reply-to from event when sending reminders', async () => {
         const twoDaysFromNow = new Date()
         twoDaysFromNow.setDate(twoDaysFromNow.getDate() + 2)
@@ -1699,14 +1776,15 @@ describe('Email System', () => {
                 token: 'abc123',
                 status: 'PENDING',
                 notifyByEmail: true,
-                reminderSentAt: null,
+                reminderDeliveries: [],
               },
             ],
           },
         ]
 
         vi.mocked(prisma.event.findMany).mockResolvedValue(mockEvents as any)
-        vi.mocked(prisma.guest.update).mockResolvedValue({} as any)
+        vi.mocked(prisma.reminderDelivery.create).mockResolvedValue({} as any)
+        vi.mocked(prisma.outboundEmail.create).mockResolvedValue({ id: 'email-1' } as any)
 
         const mockSendMail = vi.fn().mockResolvedValue({ messageId: 'test' })
         vi.mocked(nodemailer.createTransport).mockReturnValue({
@@ -1718,11 +1796,14 @@ describe('Email System', () => {
 
         await POST(request)
 
-        expect(mockSendMail).toHaveBeenCalledWith(
-          expect.objectContaining({
+        // Reminders are handed to the email queue rather than sent inline
+        expect(prisma.outboundEmail.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            type: 'reminder',
             replyTo: 'host@example.com',
-          })
-        )
+            guestId: 'guest-1',
+          }),
+        })
       })
 
       it('should handle email send failures gracefully', async () => {
@@ -1743,13 +1824,14 @@ describe('Email System', () => {
                 token: 'abc123',
                 status: 'PENDING',
                 notifyByEmail: true,
-                reminderSentAt: null,
+                reminderDeliveries: [],
               },
             ],
           },
         ]
 
         vi.mocked(prisma.event.findMany).mockResolvedValue(mockEvents as any)
+        vi.mocked(prisma.outboundEmail.create).mockRejectedValue(new Error('Database error'))
 
         const mockSendMail = vi.fn().mockRejectedValue(new Error('SMTP error'))
         vi.mocked(nodemailer.createTransport).mockReturnValue({
@@ -1764,6 +1846,10 @@ describe('Email System', () => {
         const body = await parseJsonResponse(response)
         expect(body.errors).toBe(1)
         expect(body.emailsSent).toBe(0)
+        // The slot is released so the next run tries again
+        expect(prisma.reminderDelivery.deleteMany).toHaveBeenCalledWith({
+          where: { guestId: 'guest-1', slot: 'day:2', channel: 'email' },
+        })
       })
 
       it('should return 500 when an unexpected error occurs', async () => {
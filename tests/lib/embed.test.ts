@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildEmbedSnippets,
+  buildFrameAncestorsPolicy,
+  getFramingOrigin,
+  hexToHslChannels,
+  isEmbedOriginAllowed,
+  normalizeEmbedOrigin,
+  parseEmbedOptions,
+  parseEmbedOrigins,
+  serializeEmbedOrigins,
+} from '@/lib/embed'
+
+describe('Embeddable RSVP widget', () => {
+  describe('normalizeEmbedOrigin', () => {
+    it('keeps only the scheme, host and port of a website', () => {
+      expect(normalizeEmbedOrigin('https://ourwedding.example.com/rsvp?x=1')).toBe('https://ourwedding.example.com')
+      expect(normalizeEmbedOrigin('http://localhost:8080/')).toBe('http://localhost:8080')
+    })
+
+    it('assumes https when no scheme is given', () => {
+      expect(normalizeEmbedOrigin('  www.example-club.org ')).toBe('https://www.example-club.org')
+    })
+
+    it('rejects anything that is not a website', () => {
+      expect(normalizeEmbedOrigin('')).toBeNull()
+      expect(normalizeEmbedOrigin('javascript:alert(1)')).toBeNull()
+      expect(normalizeEmbedOrigin('ftp://files.example.com')).toBeNull()
+      expect(normalizeEmbedOrigin('not a url')).toBeNull()
+    })
+  })
+
+  it('stores allowed websites as JSON, and nothing when there are none', () => {
+    expect(serializeEmbedOrigins([])).toBeNull()
+    expect(parseEmbedOrigins(serializeEmbedOrigins(['https://a.example']))).toEqual(['https://a.example'])
+    expect(parseEmbedOrigins('not json')).toEqual([])
+    expect(parseEmbedOrigins(null)).toEqual([])
+  })
+
+  it('only allows the framing site when it is on the list', () => {
+    const origins = ['https://ourwedding.example.com']
+
+    expect(isEmbedOriginAllowed(origins, getFramingOrigin('https://ourwedding.example.com/rsvp'))).toBe(true)
+    expect(isEmbedOriginAllowed(origins, getFramingOrigin('https://evil.example.com/'))).toBe(false)
+    expect(isEmbedOriginAllowed(origins, getFramingOrigin(null))).toBe(false)
+  })
+
+  it('lets only the allowed sites frame the widget', () => {
+    expect(buildFrameAncestorsPolicy(['https://a.example', 'https://b.example:8443'])).toBe(
+      'frame-ancestors https://a.example https://b.example:8443'
+    )
+    expect(buildFrameAncestorsPolicy([])).toBe("frame-ancestors 'none'")
+  })
+
+  it('reads widget options from the query string, ignoring bad values', () => {
+    expect(parseEmbedOptions({})).toEqual({ theme: 'auto', accent: null, headcount: true })
+    expect(parseEmbedOptions({ theme: 'dark', accent: '#C2410C', headcount: '0' })).toEqual({
+      theme: 'dark',
+      accent: 'c2410c',
+      headcount: false,
+    })
+    expect(parseEmbedOptions({ theme: 'neon', accent: 'red;}' })).toEqual({ theme: 'auto', accent: null, headcount: true })
+  })
+
+  it('converts accent colors to the theme variables format', () => {
+    expect(hexToHslChannels('ff0000')).toBe('0 100% 50%')
+    expect(hexToHslChannels('ffffff')).toBe('0 0% 100%')
+    expect(hexToHslChannels('1e40af')).toBe('226 71% 40%')
+  })
+
+  it('builds iframe and script snippets with the chosen options', () => {
+    const snippets = buildEmbedSnippets('https://rsvp.example.com/', 'summer-party', {
+      theme: 'light',
+      accent: 'c2410c',
+      headcount: false,
+    })
+
+    expect(snippets.iframe).toContain(
+      'src="https://rsvp.example.com/embed/events/summer-party?theme=light&accent=c2410c&headcount=0"'
+    )
+    expect(snippets.script).toBe(
+      '<script src="https://rsvp.example.com/embed.js" data-event="summer-party" data-theme="light" data-accent="#c2410c" data-headcount="0" async></script>'
+    )
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest'
+import { prisma } from '@/lib/prisma'
+
+import {
+  getSessionHeadcount,
+  getSessionStats,
+  setSessionInvites,
+  validateSessionResponses,
+} from '@/lib/event-sessions'
+
+const session = (overrides = {}) => ({
+  id: 'session-1',
+  eventId: 'event-1',
+  name: 'Reception',
+  date: new Date('2099-06-01T18:00:00Z'),
+  endDate: null,
+  capacity: null,
+  inviteAll: true,
+  guests: [],
+  ...overrides,
+})
+
+const response = (guestId: string, status: string, guestStatus = 'ATTENDING', additionalGuests = 0) => ({
+  guestId,
+  status,
+  guest: { status: guestStatus, _count: { additionalGuests } },
+})
+
+describe('Event sessions', () => {
+  describe('getSessionHeadcount', () => {
+    it('counts each attending invitee plus their additional guests', async () => {
+      vi.mocked(prisma.sessionGuest.findMany).mockResolvedValue([
+        { guest: { _count: { additionalGuests: 0 } } },
+        { guest: { _count: { additionalGuests: 2 } } },
+      ] as any)
+
+      expect(await getSessionHeadcount('session-1')).toBe(4)
+    })
+  })
+
+  describe('validateSessionResponses', () => {
+    it('says how much room is left when the party is too big', async () => {
+      vi.mocked(prisma.eventSession.findMany).mockResolvedValue([session({ capacity: 3 })] as any)
+      vi.mocked(prisma.sessionGuest.findMany).mockResolvedValue([
+        { guest: { _count: { additionalGuests: 1 } } },
+      ] as any)
+
+      const result = await validateSessionResponses(
+        'event-1',
+        'guest-1',
+        [{ sessionId: 'session-1', attending: true }],
+        2,
+        true
+      )
+
+      expect(result).toEqual({ valid: false, error: 'Reception only has room for 1 more person' })
+    })
+
+    it('ignores capacity for guests not attending the event', async () => {
+      vi.mocked(prisma.eventSession.findMany).mockResolvedValue([session({ capacity: 1 })] as any)
+
+      const result = await validateSessionResponses(
+        'event-1',
+        'guest-1',
+        [{ sessionId: 'session-1', attending: true }],
+        2,
+        false
+      )
+
+      expect(result.valid).toBe(true)
+      expect(prisma.sessionGuest.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('setSessionInvites', () => {
+    it('removes guests no longer invited and adds new ones', async () => {
+      vi.mocked(prisma.sessionGuest.findMany).mockResolvedValue([{ guestId: 'guest-1' }] as any)
+
+      await setSessionInvites('session-1', ['guest-1', 'guest-2'])
+
+      expect(prisma.sessionGuest.deleteMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', guestId: { notIn: ['guest-1', 'guest-2'] } },
+      })
+      expect(prisma.sessionGuest.create).toHaveBeenCalledTimes(1)
+      expect(prisma.sessionGuest.create).toHaveBeenCalledWith({
+        data: { sessionId: 'session-1', guestId: 'guest-2' },
+      })
+    })
+  })
+
+  describe('getSessionStats', () => {
+    it('counts people attending and invitees yet to answer', async () => {
+      vi.mocked(prisma.eventSession.findMany).mockResolvedValue([
+        session({
+          guests: [
+            response('guest-1', 'ATTENDING', 'ATTENDING', 1),
+            response('guest-2', 'ATTENDING', 'WAITLISTED'),
+            response('guest-3', 'NOT_ATTENDING'),
+          ],
+        }),
+        session({ id: 'session-2', name: 'After-party', inviteAll: false, guests: [response('guest-1', 'PENDING')] }),
+      ] as any)
+      vi.mocked(prisma.guest.count).mockResolvedValue(5)
+
+      const [reception, afterParty] = await getSessionStats('event-1')
+
+      expect(reception.stats).toEqual({ invited: 5, attending: 2, notAttending: 1, pending: 2 })
+      expect(afterParty.stats).toEqual({ invited: 1, attending: 0, notAttending: 0, pending: 1 })
+      expect(afterParty.invitedGuestIds).toEqual(['guest-1'])
+    })
+  })
+})
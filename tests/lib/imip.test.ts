@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { extractCalendarParts, parseCalendarReply, processInboundEmail } from '@/lib/imip'
+
+const reply = (partstat: string, { uid = 'event-1@ownrsvp', method = 'REPLY', attendee = 'sam@example.com' } = {}) =>
+  [
+    'BEGIN:VCALENDAR',
+    'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+    'VERSION:2.0',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    'DTSTART:20300110T010000Z',
+    `UID:${uid}`,
+    `ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=${partstat};CN="Sam, Jr.":mailto:${attendee}`,
+    'SEQUENCE:2',
+    'SUMMARY:Accepted: Game Night',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n')
+
+// How Gmail sends a reply: the answer in a base64 text/calendar part next to the text
+const gmailReply = (calendar: string, from = 'Sam <Sam@Example.com>') =>
+  [
+    `From: ${from}`,
+    'To: replies@example.com',
+    'Subject: Accepted: Game Night',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/mixed; boundary="outer"',
+    '',
+    '--outer',
+    'Content-Type: multipart/alternative; boundary="inner"',
+    '',
+    '--inner',
+    'Content-Type: text/plain; charset="UTF-8"',
+    '',
+    'Sam has accepted this invitation.',
+    '--inner',
+    'Content-Type: text/calendar; charset="UTF-8"; method=REPLY',
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from(calendar).toString('base64').replace(/(.{76})/g, '$1\r\n'),
+    '--inner--',
+    '--outer--',
+    '',
+  ].join('\r\n')
+
+const guest = (overrides = {}) => ({
+  id: 'guest-1',
+  email: 'sam@example.com',
+  name: 'Sam',
+  token: 'tok123',
+  status: 'PENDING',
+  waitlistedAt: null,
+  event: {
+    id: 'event-1',
+    title: 'Game Night',
+    date: new Date('2030-01-10T01:00:00Z'),
+    rsvpDeadline: null,
+    replyTo: null,
+    capacity: null,
+  },
+  _count: { additionalGuests: 0 },
+  ...overrides,
+})
+
+describe('Calendar replies (iMIP)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('extractCalendarParts', () => {
+    it('finds and decodes nested calendar parts', () => {
+      expect(extractCalendarParts(gmailReply(reply('ACCEPTED')))).toEqual([reply('ACCEPTED')])
+    })
+
+    it('decodes quoted-printable attachments', () => {
+      const message = [
+        'From: sam@example.com',
+        'Content-Type: application/ics; name="invite.ics"',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'METHOD:REPLY=0D=0ABEGIN:VEVENT=0D=0AUID:event-1@ow=',
+        'nrsvp=0D=0AEND:VEVENT',
+      ].join('\r\n')
+
+      expect(extractCalendarParts(message)).toEqual(['METHOD:REPLY\r\nBEGIN:VEVENT\r\nUID:event-1@ownrsvp\r\nEND:VEVENT'])
+    })
+  })
+
+  describe('parseCalendarReply', () => {
+    it('reads the answer for an OwnRSVP event', () => {
+      expect(parseCalendarReply(reply('TENTATIVE'))).toEqual([
+        { eventId: 'event-1', email: 'sam@example.com', partstat: 'TENTATIVE' },
+      ])
+    })
+
+    it('ignores invites and events from elsewhere', () => {
+      expect(parseCalendarReply(reply('ACCEPTED', { method: 'REQUEST' }))).toEqual([])
+      expect(parseCalendarReply(reply('ACCEPTED', { uid: 'abc123@google.com' }))).toEqual([])
+    })
+  })
+
+  describe('processInboundEmail', () => {
+    it("updates the sender's RSVP", async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(guest() as any)
+
+      const result = await processInboundEmail(gmailReply(reply('ACCEPTED')))
+
+      expect(result).toEqual({ replies: 1, updated: 1 })
+      expect(prisma.guest.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { eventId_email: { eventId: 'event-1', email: 'sam@example.com' } } })
+      )
+      expect(prisma.guest.update).toHaveBeenCalledWith({
+        where: { id: 'guest-1' },
+        data: expect.objectContaining({ status: 'ATTENDING', respondedVia: 'CALENDAR' }),
+      })
+    })
+
+    it('finds the guest when the calendar app sends the address in mixed case', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(guest() as any)
+
+      const result = await processInboundEmail(gmailReply(reply('ACCEPTED', { attendee: 'Sam@Example.COM' })))
+
+      expect(result).toEqual({ replies: 1, updated: 1 })
+      expect(prisma.guest.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { eventId_email: { eventId: 'event-1', email: 'sam@example.com' } } })
+      )
+    })
+
+    it('ignores answers on behalf of another guest', async () => {
+      const result = await processInboundEmail(gmailReply(reply('DECLINED'), 'Mallory <mallory@example.com>'))
+
+      expect(result).toEqual({ replies: 1, updated: 0 })
+      expect(prisma.guest.findUnique).not.toHaveBeenCalled()
+      expect(prisma.guest.update).not.toHaveBeenCalled()
+    })
+
+    it('leaves guests alone when the answer is unchanged or awaiting approval', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValueOnce(guest({ status: 'NOT_ATTENDING' }) as any)
+      vi.mocked(prisma.guest.findUnique).mockResolvedValueOnce(guest({ status: 'PENDING_APPROVAL' }) as any)
+
+      await processInboundEmail(gmailReply(reply('DECLINED')))
+      await processInboundEmail(gmailReply(reply('ACCEPTED')))
+
+      expect(prisma.guest.update).not.toHaveBeenCalled()
+    })
+  })
+})
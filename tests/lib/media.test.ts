@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import sharp from 'sharp'
+import { prisma } from '@/lib/prisma'
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import {
+  deleteUnusedMedia,
+  detectImageType,
+  getMediaId,
+  migrateInlineCoverImages,
+  pruneOrphanedMedia,
+  readMedia,
+  saveMedia,
+} from '@/lib/media'
+import { getAbsoluteImageUrl, getImageUrl } from '@/lib/media-variants'
+
+// Just enough of each format for the type check, which only looks at the first bytes
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('png-data')])
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.from('jpeg-data')])
+
+// A real image, for the sizes the server makes itself
+const photo = (format: 'png' | 'jpeg', width = 1600, height = 800) =>
+  sharp({ create: { width, height, channels: 3, background: '#3366cc' } })[format]().toBuffer()
+
+const originalEnv = { ...process.env }
+
+describe('Media store', () => {
+  let tmpDir: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ownrsvp-media-'))
+    process.env.MEDIA_DIR = tmpDir
+  })
+
+  afterEach(async () => {
+    process.env = { ...originalEnv }
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  describe('detectImageType', () => {
+    it('recognises images by their contents', () => {
+      expect(detectImageType(PNG)).toEqual({ mimeType: 'image/png', extension: 'png' })
+      expect(detectImageType(JPEG)).toEqual({ mimeType: 'image/jpeg', extension: 'jpg' })
+      expect(detectImageType(Buffer.from('GIF89a...'))?.mimeType).toBe('image/gif')
+    })
+
+    it('rejects other files, including SVG', () => {
+      expect(detectImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBeNull()
+      expect(detectImageType(Buffer.from('not an image'))).toBeNull()
+    })
+  })
+
+  describe('saveMedia and readMedia', () => {
+    it('stores each size and serves the original when a size is missing', async () => {
+      const url = await saveMedia({ original: PNG, thumb: JPEG })
+      const id = getMediaId(url)!
+
+      expect(url).toMatch(/^\/api\/media\/[a-f0-9]{24}$/)
+      expect((await fs.readdir(path.join(tmpDir, id))).sort()).toEqual(['original.png', 'thumb.jpg'])
+
+      expect(await readMedia(id, 'thumb')).toEqual({ data: JPEG, mimeType: 'image/jpeg' })
+      expect(await readMedia(id, 'card')).toEqual({ data: PNG, mimeType: 'image/png' })
+    })
+
+    it('makes the sizes the upload left out from the original', async () => {
+      const url = await saveMedia({ original: await photo('png') })
+      const id = getMediaId(url)!
+
+      expect((await fs.readdir(path.join(tmpDir, id))).sort()).toEqual(['card.png', 'email.png', 'original.png', 'thumb.png'])
+      const email = await readMedia(id, 'email')
+      expect(await sharp(email!.data).metadata()).toMatchObject({ format: 'png', width: 600, height: 300 })
+    })
+
+    it('refuses files that are not images', async () => {
+      await expect(saveMedia({ original: PNG, card: Buffer.from('<script>') })).rejects.toThrow(
+        'The card image is not a supported image type'
+      )
+      expect(await fs.readdir(tmpDir)).toEqual([])
+    })
+
+    it('does not read outside the store', async () => {
+      expect(await readMedia('../../etc', 'original')).toBeNull()
+      expect(getMediaId('/api/media/../../etc/passwd')).toBeNull()
+      expect(await readMedia('0123456789abcdef01234567', 'original')).toBeNull()
+    })
+  })
+
+  describe('deleteUnusedMedia', () => {
+    it('keeps images other events still use', async () => {
+      const shared = await saveMedia({ original: PNG })
+      const unused = await saveMedia({ original: PNG })
+      vi.mocked(prisma.event.count).mockImplementation((async ({ where }: any) =>
+        where.coverImage === shared ? 1 : 0) as any)
+
+      await deleteUnusedMedia([shared, unused, 'https://example.com/cover.jpg', null])
+
+      expect(await fs.readdir(tmpDir)).toEqual([getMediaId(shared)])
+    })
+  })
+
+  describe('pruneOrphanedMedia', () => {
+    it('deletes old uploads no event uses', async () => {
+      const used = await saveMedia({ original: PNG })
+      const orphaned = await saveMedia({ original: PNG })
+      const recent = await saveMedia({ original: PNG })
+      const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
+      for (const url of [used, orphaned]) {
+        await fs.utimes(path.join(tmpDir, getMediaId(url)!), twoDaysAgo, twoDaysAgo)
+      }
+      vi.mocked(prisma.event.count).mockImplementation((async ({ where }: any) =>
+        where.coverImage === used ? 1 : 0) as any)
+
+      expect(await pruneOrphanedMedia()).toBe(1)
+      expect((await fs.readdir(tmpDir)).sort()).toEqual([getMediaId(used), getMediaId(recent)].sort())
+    })
+  })
+
+  describe('migrateInlineCoverImages', () => {
+    it('moves each inline image once and points every event using it at the stored copy', async () => {
+      const original = await photo('jpeg')
+      const dataUrl = `data:image/jpeg;base64,${original.toString('base64')}`
+      vi.mocked(prisma.event.findFirst)
+        .mockResolvedValueOnce({ id: 'event-1', coverImage: dataUrl } as any)
+        .mockResolvedValueOnce(null)
+      vi.mocked(prisma.event.updateMany).mockResolvedValue({ count: 3 })
+
+      const result = await migrateInlineCoverImages()
+
+      expect(result).toEqual({ migrated: 3, failed: 0 })
+      const { data } = vi.mocked(prisma.event.updateMany).mock.calls[0][0] as any
+      expect(prisma.event.updateMany).toHaveBeenCalledWith({
+        where: { coverImage: dataUrl },
+        data: { coverImage: expect.stringMatching(/^\/api\/media\//) },
+      })
+      expect((await readMedia(getMediaId(data.coverImage)!, 'original'))?.data).toEqual(original)
+      // Emails get the smaller size rather than the full image
+      const email = await readMedia(getMediaId(data.coverImage)!, 'email')
+      expect(await sharp(email!.data).metadata()).toMatchObject({ format: 'jpeg', width: 600 })
+    })
+
+    it('leaves covers it cannot read in place', async () => {
+      const dataUrl = 'data:text/plain;base64,aGVsbG8='
+      vi.mocked(prisma.event.findFirst)
+        .mockResolvedValueOnce({ id: 'event-1', coverImage: dataUrl } as any)
+        .mockResolvedValueOnce(null)
+      vi.mocked(prisma.event.findMany).mockResolvedValue([{ id: 'event-1' }, { id: 'event-2' }] as any)
+
+      const result = await migrateInlineCoverImages()
+
+      expect(result).toEqual({ migrated: 0, failed: 2 })
+      expect(prisma.event.updateMany).not.toHaveBeenCalled()
+      expect(vi.mocked(prisma.event.findFirst).mock.calls[1][0]).toMatchObject({
+        where: { id: { notIn: ['event-1', 'event-2'] } },
+      })
+    })
+  })
+
+  describe('image URLs', () => {
+    it('picks a size of stored images and leaves other URLs alone', () => {
+      expect(getImageUrl('/api/media/abc', 'thumb')).toBe('/api/media/abc?size=thumb')
+      expect(getImageUrl('/api/media/abc', 'original')).toBe('/api/media/abc')
+      expect(getImageUrl('https://example.com/cover.jpg', 'card')).toBe('https://example.com/cover.jpg')
+      expect(getImageUrl(null, 'card')).toBeNull()
+    })
+
+    it('makes stored image URLs absolute for emails', () => {
+      expect(getAbsoluteImageUrl('/api/media/abc', 'email', 'https://rsvp.example.com/')).toBe(
+        'https://rsvp.example.com/api/media/abc?size=email'
+      )
+      expect(getAbsoluteImageUrl('https://example.com/cover.jpg', 'email', 'https://rsvp.example.com')).toBe(
+        'https://example.com/cover.jpg'
+      )
+    })
+  })
+})
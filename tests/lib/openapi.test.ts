@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import { readdirSync, readFileSync } from 'fs'
+import { join, relative } from 'path'
+import { z } from 'zod'
+import { zodToJsonSchema } from '@/lib/json-schema'
+import { buildOpenApiDocument } from '@/lib/openapi'
+import { API_ROUTES, buildApiPath } from '@/lib/api-routes'
+import { addGuestSchema, eventListResponseSchema, paginationSchema } from '@/lib/schemas'
+
+describe('zodToJsonSchema', () => {
+  it('converts objects with their checks and required fields', () => {
+    const schema = z.object({
+      email: z.string().email(),
+      name: z.string().min(1).max(100).optional(),
+      guests: z.number().int().min(1),
+      tags: z.array(z.enum(['a', 'b'])).min(1),
+    })
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email' },
+        name: { type: 'string', minLength: 1, maxLength: 100 },
+        guests: { type: 'integer', minimum: 1 },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] }, minItems: 1 },
+      },
+      required: ['email', 'guests', 'tags'],
+    })
+  })
+
+  it('makes defaulted fields optional to send but present in output', () => {
+    expect(zodToJsonSchema(paginationSchema, 'input')).toMatchObject({
+      properties: { page: { type: 'integer', default: 1 }, limit: { maximum: 100, default: 20 } },
+    })
+    expect(zodToJsonSchema(paginationSchema, 'input').required).toBeUndefined()
+    expect(zodToJsonSchema(paginationSchema, 'output').required).toEqual(['page', 'limit'])
+  })
+
+  it('marks nullable values and describes refined schemas by what they check', () => {
+    const schema = z.object({
+      phone: z.string().nullable(),
+      url: z.string().url().refine((value) => value.startsWith('https://')),
+    })
+
+    expect(zodToJsonSchema(schema).properties).toEqual({
+      phone: { type: ['string', 'null'] },
+      url: { type: 'string', format: 'uri' },
+    })
+  })
+})
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument('https://rsvp.example.com/')
+
+  it('describes every route once', () => {
+    const operations = Object.values(document.paths).flatMap((methods) => Object.values(methods))
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.servers).toEqual([{ url: 'https://rsvp.example.com' }])
+    expect(operations.map((operation) => operation.operationId).sort()).toEqual(Object.keys(API_ROUTES).sort())
+  })
+
+  it('takes request bodies from the schemas the routes validate with', () => {
+    const operation = document.paths['/api/v1/events/{id}/guests'].post
+
+    expect(operation.requestBody?.content['application/json'].schema).toEqual(zodToJsonSchema(addGuestSchema))
+    expect(operation.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, description: 'Event ID', schema: { type: 'string' } },
+    ])
+    expect(Object.keys(operation.responses)).toEqual(['201', '400', '401', '403', '404'])
+    expect(operation.security).toEqual([{ bearerAuth: ['guests:write'] }])
+  })
+
+  it('lists query parameters', () => {
+    const operation = document.paths['/api/v1/events/{id}/guests'].get
+
+    expect(operation.parameters?.map((parameter) => `${parameter.in}:${parameter.name}`)).toEqual([
+      'path:id',
+      'query:page',
+      'query:limit',
+      'query:status',
+    ])
+  })
+
+  it('documents downloads as plain text', () => {
+    const response = document.paths['/api/v1/events/{id}/export'].get.responses['200']
+
+    expect(response).toEqual({ description: 'OK', content: { 'text/csv': { schema: { type: 'string' } } } })
+  })
+
+  it('describes the app\'s own routes with the session cookie and unwrapped responses', () => {
+    const operation = document.paths['/api/events'].get
+
+    expect(operation.security).toEqual([{ sessionCookie: [] }])
+    expect(operation['x-required-scope']).toBeUndefined()
+    expect(operation.responses['200']).toEqual({
+      description: 'OK',
+      content: { 'application/json': { schema: zodToJsonSchema(eventListResponseSchema, 'output') } },
+    })
+    expect(document.components.securitySchemes.sessionCookie).toMatchObject({ type: 'apiKey', in: 'cookie' })
+  })
+
+  it('leaves public routes unsecured and lists rate limiting', () => {
+    const operation = document.paths['/api/rsvp'].post
+
+    expect(operation.security).toEqual([])
+    expect(Object.keys(operation.responses)).toContain('429')
+    expect(Object.keys(operation.responses)).not.toContain('401')
+  })
+
+  it('describes file uploads as multipart with binary fields', () => {
+    const schema = document.paths['/api/media'].post.requestBody?.content['multipart/form-data'].schema
+
+    expect(schema).toMatchObject({
+      properties: { original: { type: 'string', format: 'binary' } },
+      required: ['original'],
+    })
+  })
+
+  it('documents redirects without a body', () => {
+    expect(document.paths['/api/rsvp/{token}/quick'].get.responses['302'])
+      .toEqual({ description: 'Redirects to a page of the app' })
+    expect(document.paths['/api/rsvp/{token}/quick'].post.requestBody?.content)
+      .toHaveProperty('application/x-www-form-urlencoded')
+  })
+})
+
+describe('API_ROUTES', () => {
+  const apiDir = join(__dirname, '../../src/app/api')
+
+  function routeFiles(dir: string): string[] {
+    return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      const path = join(dir, entry.name)
+      if (entry.isDirectory()) return routeFiles(path)
+      return entry.name === 'route.ts' ? [path] : []
+    })
+  }
+
+  it('has an entry for every method of every route file', () => {
+    const documented = new Set(Object.values(API_ROUTES).map((route) => `${route.method} ${route.path}`))
+    const served = routeFiles(apiDir)
+      // Auth.js serves its own endpoints
+      .filter((file) => !file.includes('[...nextauth]'))
+      .flatMap((file) => {
+        const path = '/api/' + relative(apiDir, file).replace(/\/route\.ts$/, '').replace(/\[(\w+)\]/g, '{$1}')
+        const methods = readFileSync(file, 'utf8').match(/export (?:async function|const) (GET|POST|PUT|PATCH|DELETE)\b/g) || []
+        return methods.map((match) => `${match.split(' ').pop()} ${path}`)
+      })
+      // Only answers on a /sync-env path that no route serves
+      .filter((operation) => operation !== 'POST /api/admin/config')
+
+    expect(served.filter((operation) => !documented.has(operation))).toEqual([])
+    expect(served.length).toBe(documented.size)
+  })
+})
+
+describe('buildApiPath', () => {
+  it('fills in and escapes path parameters', () => {
+    expect(buildApiPath('/api/v1/events/{id}/guests/{guestId}', { id: 'event 1', guestId: 'guest-1' }))
+      .toBe('/api/v1/events/event%201/guests/guest-1')
+  })
+
+  it('refuses to build a path with a missing parameter', () => {
+    expect(() => buildApiPath('/api/v1/events/{id}')).toThrow('Missing path parameter "id"')
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import { checkRateLimit, getClientIp } from '@/lib/rate-limit'
+
+const config = (entries: Record<string, string>) =>
+  Object.entries(entries).map(([key, value]) => ({ category: 'rateLimit', key, value }))
+
+// In-memory counters persist for the whole file, so each test uses its own IP address
+describe('Rate limiting', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.appConfig.findMany).mockResolvedValue(
+      config({ RSVP_LIMIT: '2', RSVP_WINDOW_MINUTES: '10' }) as any
+    )
+  })
+
+  describe('checkRateLimit', () => {
+    it('allows requests up to the limit, then asks the caller to wait out the window', async () => {
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.1' })).allowed).toBe(true)
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.1' })).allowed).toBe(true)
+
+      const blocked = await checkRateLimit('rsvp', { ip: '198.51.100.1' })
+      expect(blocked.allowed).toBe(false)
+      expect(blocked.retryAfterSeconds).toBeGreaterThan(590)
+      expect(blocked.retryAfterSeconds).toBeLessThanOrEqual(600)
+    })
+
+    it('limits a target email across IP addresses', async () => {
+      const target = 'event-1:victim@example.com'
+
+      await checkRateLimit('rsvp', { ip: '198.51.100.2', target })
+      await checkRateLimit('rsvp', { ip: '198.51.100.3', target: 'EVENT-1:Victim@Example.com' })
+
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.4', target })).allowed).toBe(false)
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.4', target: 'event-1:other@example.com' })).allowed).toBe(true)
+    })
+
+    it('only limits the target when the IP address is unknown', async () => {
+      await checkRateLimit('rsvp', { ip: null, target: 'event-2:sam@example.com' })
+      await checkRateLimit('rsvp', { ip: null, target: 'event-2:sam@example.com' })
+
+      expect((await checkRateLimit('rsvp', { ip: null, target: 'event-2:sam@example.com' })).allowed).toBe(false)
+      expect((await checkRateLimit('rsvp', { ip: null, target: 'event-2:alex@example.com' })).allowed).toBe(true)
+    })
+
+    it('shares a fallback bucket among callers without an IP address, at ten times the limit', async () => {
+      for (let i = 0; i < 20; i++) {
+        expect((await checkRateLimit('rsvp', { ip: null, target: `event-3:guest${i}@example.com`, fallback: 'event-3' })).allowed).toBe(true)
+      }
+
+      expect((await checkRateLimit('rsvp', { ip: null, target: 'event-3:another@example.com', fallback: 'event-3' })).allowed).toBe(false)
+      // Callers with an address are counted by it instead
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.10', target: 'event-3:another@example.com', fallback: 'event-3' })).allowed).toBe(true)
+    })
+
+    it('counts each action separately', async () => {
+      await checkRateLimit('rsvp', { ip: '198.51.100.5' })
+      await checkRateLimit('rsvp', { ip: '198.51.100.5' })
+
+      expect((await checkRateLimit('comment', { ip: '198.51.100.5' })).allowed).toBe(true)
+    })
+
+    it('lets everything through when turned off', async () => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue(config({ ENABLED: 'false', RSVP_LIMIT: '1' }) as any)
+
+      await checkRateLimit('rsvp', { ip: '198.51.100.6' })
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.6' })).allowed).toBe(true)
+    })
+
+    it('keeps counters in the database when configured to', async () => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue(
+        config({ STORE: 'database', RSVP_LIMIT: '2' }) as any
+      )
+      vi.mocked(prisma.rateLimitBucket.upsert).mockResolvedValue({
+        key: 'rsvp:ip:198.51.100.7',
+        count: 3,
+        resetAt: new Date(Date.now() + 60 * 1000),
+      })
+
+      const result = await checkRateLimit('rsvp', { ip: '198.51.100.7' })
+
+      expect(result.allowed).toBe(false)
+      // Counted in one statement, so concurrent first hits can't reset each other
+      expect(prisma.rateLimitBucket.upsert).toHaveBeenCalledWith({
+        where: { key: 'rsvp:ip:198.51.100.7' },
+        update: { count: { increment: 1 } },
+        create: expect.objectContaining({ key: 'rsvp:ip:198.51.100.7', count: 1 }),
+      })
+      expect(prisma.rateLimitBucket.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('starts a new database window once the old one has expired', async () => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue(config({ STORE: 'database' }) as any)
+      const expiredAt = new Date(Date.now() - 1000)
+      vi.mocked(prisma.rateLimitBucket.upsert).mockResolvedValue({
+        key: 'rsvp:ip:198.51.100.8',
+        count: 51,
+        resetAt: expiredAt,
+      })
+      vi.mocked(prisma.rateLimitBucket.updateMany).mockResolvedValue({ count: 1 })
+
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.8' })).allowed).toBe(true)
+      expect(prisma.rateLimitBucket.updateMany).toHaveBeenCalledWith({
+        where: { key: 'rsvp:ip:198.51.100.8', resetAt: expiredAt },
+        data: expect.objectContaining({ count: 1 }),
+      })
+    })
+
+    it('counts against the new window when a concurrent request already started it', async () => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue(config({ STORE: 'database', RSVP_LIMIT: '2' }) as any)
+      vi.mocked(prisma.rateLimitBucket.upsert).mockResolvedValue({
+        key: 'rsvp:ip:198.51.100.11',
+        count: 51,
+        resetAt: new Date(Date.now() - 1000),
+      })
+      vi.mocked(prisma.rateLimitBucket.updateMany).mockResolvedValue({ count: 0 })
+      vi.mocked(prisma.rateLimitBucket.update).mockResolvedValue({
+        key: 'rsvp:ip:198.51.100.11',
+        count: 2,
+        resetAt: new Date(Date.now() + 60 * 1000),
+      })
+
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.11' })).allowed).toBe(true)
+      expect(prisma.rateLimitBucket.update).toHaveBeenCalledWith({
+        where: { key: 'rsvp:ip:198.51.100.11' },
+        data: { count: { increment: 1 } },
+      })
+    })
+
+    it('fails open when the counters cannot be read', async () => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue(config({ STORE: 'database' }) as any)
+      vi.mocked(prisma.rateLimitBucket.upsert).mockRejectedValue(new Error('database is locked'))
+
+      expect((await checkRateLimit('rsvp', { ip: '198.51.100.9' })).allowed).toBe(true)
+    })
+  })
+
+  describe('getClientIp', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('ignores forwarding headers unless proxies are trusted', () => {
+      const request = new Request('http://localhost', {
+        headers: { 'x-forwarded-for': '203.0.113.9', 'x-real-ip': '203.0.113.10' },
+      })
+      expect(getClientIp(request)).toBeNull()
+    })
+
+    it('takes the address the outermost trusted proxy saw, not what the client claims', () => {
+      const request = new Request('http://localhost', {
+        headers: { 'x-forwarded-for': '1.2.3.4, 203.0.113.9, 10.0.0.1' },
+      })
+
+      vi.stubEnv('TRUSTED_PROXY_HOPS', '1')
+      expect(getClientIp(request)).toBe('10.0.0.1')
+      vi.stubEnv('TRUSTED_PROXY_HOPS', '2')
+      expect(getClientIp(request)).toBe('203.0.113.9')
+      vi.stubEnv('TRUSTED_PROXY_HOPS', '4')
+      expect(getClientIp(request)).toBeNull()
+    })
+
+    it('falls back to X-Real-IP behind a trusted proxy', () => {
+      vi.stubEnv('TRUSTED_PROXY_HOPS', '1')
+      expect(getClientIp(new Request('http://localhost', { headers: { 'x-real-ip': '203.0.113.10' } }))).toBe('203.0.113.10')
+      expect(getClientIp(new Request('http://localhost'))).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeRecurrenceRule,
+  getMonthlySetPos,
+  getOccurrenceDates,
+  parseRecurrenceExceptions,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  validateRecurrenceRule,
+} from '@/lib/recurrence'
+
+const isoDates = (dates: Date[]) => dates.map((date) => date.toISOString())
+
+describe('Recurrence', () => {
+  describe('parseRecurrenceRule / serializeRecurrenceRule', () => {
+    it('round-trips a weekly rule', () => {
+      const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10')
+
+      expect(rule).toEqual({ freq: 'WEEKLY', interval: 2, byDay: ['TU', 'TH'], count: 10 })
+      expect(serializeRecurrenceRule(rule!)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10')
+    })
+
+    it('round-trips a monthly rule on the last weekday', () => {
+      const rule = parseRecurrenceRule('RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20271231')
+
+      expect(rule).toEqual({ freq: 'MONTHLY', interval: 1, byDay: ['FR'], setPos: -1, until: '2027-12-31' })
+      expect(serializeRecurrenceRule(rule!)).toBe('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20271231')
+    })
+
+    it('returns null for unsupported rules', () => {
+      expect(parseRecurrenceRule('FREQ=DAILY;COUNT=3')).toBeNull()
+      expect(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull()
+      expect(parseRecurrenceRule(null)).toBeNull()
+    })
+  })
+
+  describe('validateRecurrenceRule', () => {
+    it('accepts a valid rule', () => {
+      expect(validateRecurrenceRule({ freq: 'WEEKLY', interval: 1, byDay: ['MO'], count: 4 }).valid).toBe(true)
+    })
+
+    it('rejects out-of-range counts and intervals', () => {
+      expect(validateRecurrenceRule({ freq: 'WEEKLY', interval: 1, byDay: ['MO'], count: 1 }).valid).toBe(false)
+      expect(validateRecurrenceRule({ freq: 'WEEKLY', interval: 1, byDay: ['MO'], count: 53 }).valid).toBe(false)
+      expect(validateRecurrenceRule({ freq: 'WEEKLY', interval: 0, byDay: ['MO'] }).valid).toBe(false)
+    })
+
+    it('allows a single weekday for monthly rules', () => {
+      const result = validateRecurrenceRule({ freq: 'MONTHLY', interval: 1, byDay: ['MO', 'TU'], setPos: 1 })
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toBe('Monthly events can only repeat on one day of the week')
+    })
+  })
+
+  describe('describeRecurrenceRule', () => {
+    it('describes weekly and monthly rules', () => {
+      expect(describeRecurrenceRule({ freq: 'WEEKLY', interval: 1, byDay: ['TU', 'TH'], count: 10 }))
+        .toBe('Weekly on Tuesday, Thursday, 10 times')
+      expect(describeRecurrenceRule({ freq: 'MONTHLY', interval: 1, byDay: ['FR'], setPos: -1 }))
+        .toBe('Monthly on the last Friday')
+    })
+  })
+
+  describe('getMonthlySetPos', () => {
+    it('treats the final weekday of the month as the last one', () => {
+      expect(getMonthlySetPos(new Date('2026-10-06T18:00:00Z'), 'UTC')).toBe(1)
+      expect(getMonthlySetPos(new Date('2026-10-30T18:00:00Z'), 'UTC')).toBe(-1)
+    })
+  })
+
+  describe('getOccurrenceDates', () => {
+    it('repeats weekly on several days', () => {
+      // Tuesday 6 October 2026
+      const dates = getOccurrenceDates(
+        new Date('2026-10-06T18:00:00Z'),
+        'UTC',
+        { freq: 'WEEKLY', interval: 1, byDay: ['TU', 'TH'], count: 4 }
+      )
+
+      expect(isoDates(dates)).toEqual([
+        '2026-10-06T18:00:00.000Z',
+        '2026-10-08T18:00:00.000Z',
+        '2026-10-13T18:00:00.000Z',
+        '2026-10-15T18:00:00.000Z',
+      ])
+    })
+
+    it('skips whole weeks for intervals above one', () => {
+      const dates = getOccurrenceDates(
+        new Date('2026-10-06T18:00:00Z'),
+        'UTC',
+        { freq: 'WEEKLY', interval: 2, byDay: ['TU'], count: 3 }
+      )
+
+      expect(isoDates(dates)).toEqual([
+        '2026-10-06T18:00:00.000Z',
+        '2026-10-20T18:00:00.000Z',
+        '2026-11-03T18:00:00.000Z',
+      ])
+    })
+
+    it('repeats monthly on the last weekday', () => {
+      // Friday 30 October 2026
+      const dates = getOccurrenceDates(
+        new Date('2026-10-30T18:00:00Z'),
+        'UTC',
+        { freq: 'MONTHLY', interval: 1, byDay: ['FR'], setPos: -1, count: 3 }
+      )
+
+      expect(isoDates(dates)).toEqual([
+        '2026-10-30T18:00:00.000Z',
+        '2026-11-27T18:00:00.000Z',
+        '2026-12-25T18:00:00.000Z',
+      ])
+    })
+
+    it('stops at the until date', () => {
+      const dates = getOccurrenceDates(
+        new Date('2026-10-06T18:00:00Z'),
+        'UTC',
+        { freq: 'WEEKLY', interval: 1, byDay: ['TU'], until: '2026-10-20' }
+      )
+
+      expect(dates).toHaveLength(3)
+    })
+
+    it('leaves out exceptions but still counts them', () => {
+      const dates = getOccurrenceDates(
+        new Date('2026-10-06T18:00:00Z'),
+        'UTC',
+        { freq: 'WEEKLY', interval: 1, byDay: ['TU'], count: 3 },
+        ['2026-10-13']
+      )
+
+      expect(isoDates(dates)).toEqual(['2026-10-06T18:00:00.000Z', '2026-10-20T18:00:00.000Z'])
+    })
+
+    it('keeps the local start time across daylight saving changes', () => {
+      // 7pm in New York, before and after clocks go back on 1 November 2026
+      const dates = getOccurrenceDates(
+        new Date('2026-10-27T23:00:00Z'),
+        'America/New_York',
+        { freq: 'WEEKLY', interval: 1, byDay: ['TU'], count: 2 }
+      )
+
+      expect(isoDates(dates)).toEqual(['2026-10-27T23:00:00.000Z', '2026-11-04T00:00:00.000Z'])
+    })
+  })
+
+  describe('parseRecurrenceExceptions', () => {
+    it('returns an empty list for missing or invalid JSON', () => {
+      expect(parseRecurrenceExceptions(null)).toEqual([])
+      expect(parseRecurrenceExceptions('not json')).toEqual([])
+      expect(parseRecurrenceExceptions('["2026-10-13"]')).toEqual(['2026-10-13'])
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { createMockEvent, createMockGuest } from '../setup'
+
+vi.mock('@/lib/email', () => ({
+  sendRsvpApproved: vi.fn(),
+  sendRsvpDenied: vi.fn(),
+  sendWaitlistPromotion: vi.fn(),
+}))
+
+vi.mock('@/lib/sms', () => ({
+  sendConfirmationSms: vi.fn(),
+  shouldSendSms: vi.fn(),
+}))
+
+import { approveGuest, denyGuest, needsApproval } from '@/lib/rsvp-approval'
+import { sendRsvpApproved, sendRsvpDenied } from '@/lib/email'
+import { shouldSendSms } from '@/lib/sms'
+
+const pendingGuest = (overrides = {}) =>
+  createMockGuest({
+    status: 'PENDING_APPROVAL',
+    requestedStatus: 'ATTENDING',
+    notifyByEmail: true,
+    _count: { additionalGuests: 1 },
+    event: createMockEvent({ capacity: null, replyTo: null }),
+    ...overrides,
+  })
+
+describe('RSVP approval', () => {
+  beforeEach(() => {
+    vi.mocked(sendRsvpApproved).mockResolvedValue(undefined)
+    vi.mocked(sendRsvpDenied).mockResolvedValue(undefined)
+    vi.mocked(shouldSendSms).mockReturnValue(false)
+    vi.mocked(prisma.guest.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(prisma.guest.deleteMany).mockResolvedValue({ count: 1 })
+  })
+
+  describe('needsApproval', () => {
+    it('holds RSVPs from people not on the guest list', () => {
+      expect(needsApproval({ requireApproval: true }, null)).toBe(true)
+      expect(needsApproval({ requireApproval: true }, { status: 'PENDING_APPROVAL' })).toBe(true)
+    })
+
+    it('lets invited guests and open events through', () => {
+      expect(needsApproval({ requireApproval: true }, { status: 'PENDING' })).toBe(false)
+      expect(needsApproval({ requireApproval: false }, null)).toBe(false)
+    })
+  })
+
+  describe('approveGuest', () => {
+    it('gives the guest the response they asked for and sends their confirmation', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(pendingGuest({ requestedStatus: 'MAYBE' }) as any)
+
+      expect(await approveGuest('event-1', 'guest-1', 'See you there')).toBe('MAYBE')
+      expect(prisma.guest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'guest-1', status: 'PENDING_APPROVAL' },
+        data: { status: 'MAYBE', requestedStatus: null, waitlistedAt: null },
+      })
+      expect(sendRsvpApproved).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'guest@example.com', status: 'MAYBE', rsvpToken: 'guest-token-123', message: 'See you there' })
+      )
+    })
+
+    it('waitlists an attending party that no longer fits', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(
+        pendingGuest({ event: createMockEvent({ capacity: 3, replyTo: null }) }) as any
+      )
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([{ _count: { additionalGuests: 1 } }] as any)
+      vi.mocked(prisma.guest.count).mockResolvedValue(0)
+
+      expect(await approveGuest('event-1', 'guest-1')).toBe('WAITLISTED')
+      const { data } = vi.mocked(prisma.guest.updateMany).mock.calls[0][0] as any
+      expect(data.waitlistedAt).toBeInstanceOf(Date)
+    })
+
+    it('ignores guests that are not awaiting approval', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(pendingGuest({ status: 'ATTENDING' }) as any)
+
+      expect(await approveGuest('event-1', 'guest-1')).toBeNull()
+      expect(prisma.guest.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('does not email a guest another host already approved', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(pendingGuest() as any)
+      vi.mocked(prisma.guest.updateMany).mockResolvedValue({ count: 0 })
+
+      expect(await approveGuest('event-1', 'guest-1')).toBeNull()
+      expect(sendRsvpApproved).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('denyGuest', () => {
+    it('removes the request and lets the guest know', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(pendingGuest() as any)
+
+      expect(await denyGuest('event-1', 'guest-1', 'Invite only, sorry')).toBe(true)
+      expect(prisma.guest.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'guest-1', status: 'PENDING_APPROVAL' },
+      })
+      expect(sendRsvpDenied).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'guest@example.com', message: 'Invite only, sorry' })
+      )
+    })
+
+    it('ignores guests from another event', async () => {
+      vi.mocked(prisma.guest.findUnique).mockResolvedValue(pendingGuest({ eventId: 'event-2' }) as any)
+
+      expect(await denyGuest('event-1', 'guest-1')).toBe(false)
+      expect(prisma.guest.deleteMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  RsvpQuestion,
+  formatRsvpAnswer,
+  parseRsvpQuestions,
+  serializeRsvpQuestions,
+  validateRsvpAnswers,
+  validateRsvpQuestions,
+  validateRsvpSubmission,
+} from '@/lib/rsvp-questions'
+
+const question = (overrides: Partial<RsvpQuestion> = {}): RsvpQuestion => ({
+  id: 'q1',
+  label: 'Meal choice',
+  type: 'single_choice',
+  options: ['Chicken', 'Fish', 'Vegetarian'],
+  required: true,
+  scope: 'attendee',
+  ...overrides,
+})
+
+describe('RSVP Questions', () => {
+  describe('validateRsvpQuestions', () => {
+    it('accepts a valid question list', () => {
+      expect(validateRsvpQuestions([question(), question({ id: 'q2', type: 'yes_no', options: undefined })])).toEqual({ valid: true })
+    })
+
+    it('requires a label', () => {
+      expect(validateRsvpQuestions([question({ label: '  ' })]).error).toBe('Every question needs a label')
+    })
+
+    it('requires at least two distinct options for choice questions', () => {
+      expect(validateRsvpQuestions([question({ options: ['Chicken'] })]).error).toBe('"Meal choice" needs at least two options')
+      expect(validateRsvpQuestions([question({ options: ['Fish', 'Fish'] })]).error).toBe('"Meal choice" has duplicate options')
+    })
+
+    it('rejects duplicate ids', () => {
+      expect(validateRsvpQuestions([question(), question()]).valid).toBe(false)
+    })
+  })
+
+  describe('parse and serialize', () => {
+    it('round-trips questions and drops options from non-choice types', () => {
+      const questions = [question(), question({ id: 'q2', label: 'Song', type: 'text', options: ['x'] })]
+      const parsed = parseRsvpQuestions(serializeRsvpQuestions(questions))
+
+      expect(parsed[0]).toEqual(question())
+      expect(parsed[1].options).toBeUndefined()
+    })
+
+    it('handles empty and invalid values', () => {
+      expect(serializeRsvpQuestions([])).toBeNull()
+      expect(parseRsvpQuestions(null)).toEqual([])
+      expect(parseRsvpQuestions('not json')).toEqual([])
+    })
+  })
+
+  describe('validateRsvpAnswers', () => {
+    const questions = [
+      question(),
+      question({ id: 'size', label: 'T-shirt size', type: 'multi_choice', options: ['S', 'M', 'L'], required: false }),
+      question({ id: 'kids', label: 'Children', type: 'number', required: false, scope: 'party' }),
+      question({ id: 'parking', label: 'Need parking?', type: 'yes_no', required: false, scope: 'party' }),
+    ]
+
+    it('only checks questions in the requested scope', () => {
+      const result = validateRsvpAnswers(questions, { kids: '2', parking: false }, 'party')
+      expect(result).toEqual({ valid: true, answers: { kids: 2, parking: false } })
+    })
+
+    it('rejects missing required answers', () => {
+      expect(validateRsvpAnswers(questions, {}, 'attendee', 'Sam').error).toBe('Please answer "Meal choice" for Sam')
+    })
+
+    it('rejects options that are not offered', () => {
+      expect(validateRsvpAnswers(questions, { q1: 'Beef' }, 'attendee').valid).toBe(false)
+      expect(validateRsvpAnswers(questions, { q1: 'Fish', size: ['XL'] }, 'attendee').valid).toBe(false)
+    })
+
+    it('drops blank and unknown answers', () => {
+      const result = validateRsvpAnswers(questions, { q1: 'Fish', size: [], other: 'x' }, 'attendee')
+      expect(result.answers).toEqual({ q1: 'Fish' })
+    })
+  })
+
+  describe('validateRsvpSubmission', () => {
+    it('splits answers between the guest and each additional guest', () => {
+      const questions = [question(), question({ id: 'song', label: 'Song', type: 'text', required: false, scope: 'party' })]
+      const result = validateRsvpSubmission(questions, {
+        name: 'Jane',
+        answers: { q1: 'Fish', song: ' Dancing Queen ' },
+        additionalGuests: [{ name: 'Sam', answers: { q1: 'Chicken' } }],
+      })
+
+      expect(result.valid).toBe(true)
+      expect(result.guestAnswers).toEqual({ q1: 'Fish', song: 'Dancing Queen' })
+      expect(result.additionalGuestAnswers).toEqual([{ q1: 'Chicken' }])
+    })
+  })
+
+  describe('formatRsvpAnswer', () => {
+    it('formats each answer type', () => {
+      expect(formatRsvpAnswer(true)).toBe('Yes')
+      expect(formatRsvpAnswer(false)).toBe('No')
+      expect(formatRsvpAnswer(['S', 'M'])).toBe('S, M')
+      expect(formatRsvpAnswer(3)).toBe('3')
+      expect(formatRsvpAnswer(undefined)).toBe('')
+    })
+  })
+})
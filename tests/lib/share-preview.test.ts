@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import { getShareCoverImage, getSharePreview } from '@/lib/share-preview'
+import { saveMedia } from '@/lib/media'
+
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.from('jpeg-data')])
+const WEBP = Buffer.concat([Buffer.from('RIFF'), Buffer.from([0, 0, 0, 0]), Buffer.from('WEBPVP8 ')])
+
+const originalEnv = { ...process.env }
+
+const publicEvent = {
+  title: 'Summer Party',
+  description: 'Bring a dish to share.',
+  date: new Date('2026-07-04T23:00:00Z'),
+  timezone: 'America/Chicago',
+  locationName: 'Zilker Park',
+  city: 'Austin',
+  state: 'TX',
+  coverImage: null,
+  isPublic: true,
+}
+
+describe('Share previews', () => {
+  let tmpDir: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ownrsvp-share-'))
+    process.env.MEDIA_DIR = tmpDir
+  })
+
+  afterEach(async () => {
+    process.env = { ...originalEnv }
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  describe('getSharePreview', () => {
+    it('shows the date in the event timezone and the venue', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(publicEvent as any)
+
+      const preview = await getSharePreview('summer-party')
+
+      expect(preview).toMatchObject({
+        title: 'Summer Party',
+        dateLabel: 'Saturday, July 4, 2026 at 6:00 PM CDT',
+        venue: 'Zilker Park · Austin, TX',
+        description: 'Saturday, July 4, 2026 at 6:00 PM CDT · Zilker Park · Austin, TX. Bring a dish to share.',
+      })
+    })
+
+    it('gives nothing away for private events', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue({ ...publicEvent, isPublic: false } as any)
+
+      expect(await getSharePreview('secret-party')).toBeNull()
+    })
+
+    it('shortens long descriptions', async () => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue({
+        ...publicEvent,
+        description: 'Lots of details. '.repeat(50),
+      } as any)
+
+      const preview = await getSharePreview('summer-party')
+
+      expect(preview!.description.length).toBeLessThanOrEqual(200)
+      expect(preview!.description.endsWith('…')).toBe(true)
+    })
+  })
+
+  describe('getShareCoverImage', () => {
+    it('embeds JPEG and PNG covers from the media store', async () => {
+      const url = await saveMedia({ original: JPEG })
+
+      expect(await getShareCoverImage(url)).toBe(`data:image/jpeg;base64,${JPEG.toString('base64')}`)
+    })
+
+    it('skips covers the renderer cannot draw or would have to fetch', async () => {
+      const webp = await saveMedia({ original: WEBP })
+
+      expect(await getShareCoverImage(webp)).toBeNull()
+      expect(await getShareCoverImage('https://example.com/cover.jpg')).toBeNull()
+      expect(await getShareCoverImage(null)).toBeNull()
+    })
+  })
+})
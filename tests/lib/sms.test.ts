@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import {
+  normalizePhoneNumber,
+  shouldSendSms,
+  createTwilioProvider,
+  createLogProvider,
+  sendBroadcastSms,
+  sendInvitationSms,
+  sendSms,
+} from '@/lib/sms'
+
+const originalEnv = { ...process.env }
+
+describe('SMS System', () => {
+  let tmpDir: string
+  let logFile: string
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ownrsvp-sms-'))
+    logFile = path.join(tmpDir, 'sms.log')
+    process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000'
+  })
+
+  afterEach(async () => {
+    process.env = { ...originalEnv }
+    vi.unstubAllGlobals()
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  describe('normalizePhoneNumber', () => {
+    it('keeps numbers already in E.164 format', () => {
+      expect(normalizePhoneNumber('+447700900123')).toBe('+447700900123')
+    })
+
+    it('assumes ten-digit numbers are North American', () => {
+      expect(normalizePhoneNumber('(555) 123-4567')).toBe('+15551234567')
+    })
+
+    it('accepts eleven-digit numbers with a leading 1', () => {
+      expect(normalizePhoneNumber('1-555-123-4567')).toBe('+15551234567')
+    })
+
+    it('returns null for empty or unusable numbers', () => {
+      expect(normalizePhoneNumber(null)).toBeNull()
+      expect(normalizePhoneNumber('')).toBeNull()
+      expect(normalizePhoneNumber('12345')).toBeNull()
+    })
+  })
+
+  describe('shouldSendSms', () => {
+    it('requires both opt-in and a usable phone number', () => {
+      expect(shouldSendSms({ notifyBySms: true, phone: '+15551234567' })).toBe(true)
+      expect(shouldSendSms({ notifyBySms: false, phone: '+15551234567' })).toBe(false)
+      expect(shouldSendSms({ notifyBySms: true, phone: null })).toBe(false)
+      expect(shouldSendSms({ notifyBySms: true, phone: 'abc' })).toBe(false)
+    })
+  })
+
+  describe('Twilio provider', () => {
+    it('posts a form-encoded message with basic auth', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 201,
+        json: () => Promise.resolve({ sid: 'SM123' }),
+      })
+      vi.stubGlobal('fetch', fetchMock)
+
+      const provider = createTwilioProvider({
+        provider: 'twilio',
+        accountSid: 'AC123',
+        authToken: 'secret',
+        phoneNumber: '+15550000000',
+        apiUrl: 'http://sms-gateway.local/',
+      })
+
+      const result = await provider.send({ to: '+15551234567', body: 'Hello' })
+
+      expect(result).toEqual({ id: 'SM123', provider: 'twilio' })
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe('http://sms-gateway.local/2010-04-01/Accounts/AC123/Messages.json')
+      expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('AC123:secret').toString('base64')}`)
+      const params = new URLSearchParams(init.body)
+      expect(params.get('To')).toBe('+15551234567')
+      expect(params.get('From')).toBe('+15550000000')
+      expect(params.get('Body')).toBe('Hello')
+    })
+
+    it('throws with the provider error message on failure', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: () => Promise.resolve({ message: "The 'To' number is not valid" }),
+      }))
+
+      const provider = createTwilioProvider({
+        provider: 'twilio',
+        accountSid: 'AC123',
+        authToken: 'secret',
+        phoneNumber: '+15550000000',
+      })
+
+      await expect(provider.send({ to: '+15551234567', body: 'Hello' }))
+        .rejects.toThrow("SMS provider error (400): The 'To' number is not valid")
+    })
+  })
+
+  describe('Log provider', () => {
+    it('appends each message as a JSON line', async () => {
+      const provider = createLogProvider({ provider: 'log', logFile })
+
+      await provider.send({ to: '+15551234567', body: 'First' })
+      await provider.send({ to: '+15557654321', body: 'Second' })
+
+      const lines = (await fs.readFile(logFile, 'utf-8')).trim().split('\n').map((line) => JSON.parse(line))
+      expect(lines).toHaveLength(2)
+      expect(lines[0]).toMatchObject({ to: '+15551234567', body: 'First' })
+      expect(lines[1]).toMatchObject({ to: '+15557654321', body: 'Second' })
+    })
+  })
+
+  describe('sendSms', () => {
+    it('throws when no provider is configured', async () => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue([])
+      delete process.env.SMS_PROVIDER
+      delete process.env.TWILIO_ACCOUNT_SID
+
+      await expect(sendSms({ to: '+15551234567', body: 'Hi' }))
+        .rejects.toThrow('SMS service not configured')
+    })
+
+    it('rejects invalid phone numbers', async () => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue([])
+      process.env.SMS_PROVIDER = 'log'
+      process.env.SMS_LOG_FILE = logFile
+
+      await expect(sendSms({ to: '123', body: 'Hi' })).rejects.toThrow('Invalid phone number')
+    })
+  })
+
+  describe('sendInvitationSms', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue([
+        { category: 'sms', key: 'SMS_PROVIDER', value: 'log' },
+        { category: 'sms', key: 'SMS_LOG_FILE', value: logFile },
+      ] as any)
+      vi.mocked(prisma.appConfig.findUnique).mockResolvedValue(null)
+    })
+
+    it('renders the default invitation template', async () => {
+      vi.mocked(prisma.smsTemplate.findUnique).mockResolvedValue(null)
+
+      await sendInvitationSms({
+        to: '555-123-4567',
+        guestName: 'Jane',
+        event: { title: 'Game Night', date: new Date('2030-01-10T19:00:00Z'), city: 'Austin', state: 'TX' },
+        rsvpToken: 'tok123',
+        hostName: 'Sam',
+      })
+
+      const entry = JSON.parse((await fs.readFile(logFile, 'utf-8')).trim())
+      expect(entry.to).toBe('+15551234567')
+      expect(entry.body).toContain('Hi Jane, Sam invited you to Game Night')
+      expect(entry.body).toContain('at Austin, TX')
+      expect(entry.body).toContain('http://localhost:3000/rsvp/tok123')
+    })
+
+    it('uses a stored SmsTemplate when one exists', async () => {
+      vi.mocked(prisma.smsTemplate.findUnique).mockResolvedValue({
+        id: 't1',
+        name: 'invitation',
+        message: 'Come to {{eventTitle}}! {{rsvpLink}}',
+        isDefault: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+
+      await sendInvitationSms({
+        to: '+15551234567',
+        event: { title: 'Game Night', date: new Date('2030-01-10T19:00:00Z') },
+        rsvpToken: 'tok123',
+      })
+
+      const entry = JSON.parse((await fs.readFile(logFile, 'utf-8')).trim())
+      expect(entry.body).toBe('Come to Game Night! http://localhost:3000/rsvp/tok123')
+    })
+
+    it('drops empty placeholders with the space before them and keeps line breaks', async () => {
+      vi.mocked(prisma.smsTemplate.findUnique).mockResolvedValue({
+        id: 't1',
+        name: 'invitation',
+        message: '{{greeting}}\nCome to {{eventTitle}} {{eventAddress}}!\nRSVP: {{rsvpLink}}',
+        isDefault: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+
+      await sendInvitationSms({
+        to: '+15551234567',
+        event: { title: 'Game Night', date: new Date('2030-01-10T19:00:00Z') },
+        rsvpToken: 'tok123',
+      })
+
+      const entry = JSON.parse((await fs.readFile(logFile, 'utf-8')).trim())
+      expect(entry.body).toBe('Hi,\nCome to Game Night!\nRSVP: http://localhost:3000/rsvp/tok123')
+    })
+  })
+
+  describe('sendBroadcastSms', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.appConfig.findMany).mockResolvedValue([
+        { category: 'sms', key: 'SMS_PROVIDER', value: 'log' },
+        { category: 'sms', key: 'SMS_LOG_FILE', value: logFile },
+      ] as any)
+      vi.mocked(prisma.appConfig.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.smsTemplate.findUnique).mockResolvedValue(null)
+    })
+
+    it('keeps the line breaks of the host\'s message', async () => {
+      await sendBroadcastSms({
+        to: '+15551234567',
+        subject: 'Parking',
+        message: 'Use the back lot.\n\nGate code: 1234',
+        eventTitle: 'Game Night',
+      })
+
+      const entry = JSON.parse((await fs.readFile(logFile, 'utf-8')).trim())
+      expect(entry.body).toBe('[Game Night] Parking: Use the back lot.\n\nGate code: 1234')
+    })
+  })
+})
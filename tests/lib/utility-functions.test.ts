@@ -12,16 +12,25 @@ import {
   canViewEvent,
   isEventHost,
   getEventRole,
+  hasEventPermission,
+  getEventPermissions,
 } from '@/lib/event-access'
 
 import { validateGuestLimit } from '@/lib/rsvp-validation'
 
+import { extractTicketToken, getCheckInStats } from '@/lib/check-in'
+
 import {
   parseReminderSchedule,
   formatReminder,
   validateReminders,
   shouldSendReminder,
   serializeReminderSchedule,
+  getEffectiveReminders,
+  getReminderSlot,
+  getReminderSendTime,
+  getDueReminder,
+  getNextReminder,
   Reminder,
 } from '@/lib/reminder-utils'
 
@@ -124,6 +133,58 @@ describe('Event Access Functions', () => {
 
       expect(result).toBe(false)
     })
+
+    test('lets a viewer co-host view guests but not change them', async () => {
+      const regularUser = createMockUser({ id: 'user-2', role: 'USER' })
+      const event = createMockEvent({ id: 'event-1', hostId: 'user-1' })
+      const viewer = createMockCoHost({ eventId: 'event-1', userId: 'user-2', role: 'VIEWER' })
+
+      mockedPrisma.user.findUnique.mockResolvedValue(regularUser)
+      mockedPrisma.event.findUnique.mockResolvedValue(event)
+      mockedPrisma.eventCoHost.findUnique.mockResolvedValue(viewer)
+
+      expect(await canManageEvent('user-2', 'event-1', 'viewGuests')).toBe(true)
+      expect(await canManageEvent('user-2', 'event-1', 'exportGuests')).toBe(true)
+      expect(await canManageEvent('user-2', 'event-1', 'editGuests')).toBe(false)
+      expect(await canManageEvent('user-2', 'event-1', 'sendMessages')).toBe(false)
+      expect(await canManageEvent('user-2', 'event-1')).toBe(false)
+    })
+
+    test('does not let a co-host manage other co-hosts', async () => {
+      const regularUser = createMockUser({ id: 'user-2', role: 'USER' })
+      const event = createMockEvent({ id: 'event-1', hostId: 'user-1' })
+      const coHost = createMockCoHost({ eventId: 'event-1', userId: 'user-2' })
+
+      mockedPrisma.user.findUnique.mockResolvedValue(regularUser)
+      mockedPrisma.event.findUnique.mockResolvedValue(event)
+      mockedPrisma.eventCoHost.findUnique.mockResolvedValue(coHost)
+
+      expect(await canManageEvent('user-2', 'event-1', 'editGuests')).toBe(true)
+      expect(await canManageEvent('user-2', 'event-1', 'manageCoHosts')).toBe(false)
+    })
+  })
+
+  describe('hasEventPermission', () => {
+    test('gives hosts and admins every permission', () => {
+      expect(Object.values(getEventPermissions('HOST')).every(Boolean)).toBe(true)
+      expect(Object.values(getEventPermissions('ADMIN')).every(Boolean)).toBe(true)
+    })
+
+    test('limits viewers to viewing and exporting', () => {
+      expect(getEventPermissions('VIEWER')).toEqual({
+        viewGuests: true,
+        editGuests: false,
+        sendMessages: false,
+        editEvent: false,
+        manageCoHosts: false,
+        exportGuests: true,
+        moderateComments: false,
+      })
+    })
+
+    test('grants nothing without a role', () => {
+      expect(hasEventPermission(null, 'viewGuests')).toBe(false)
+    })
   })
 
   describe('canViewEvent', () => {
@@ -906,4 +967,80 @@ describe('Reminder Utility Functions', () => {
       expect(parsed).toEqual(original)
     })
   })
+
+  describe('reminder slots', () => {
+    const eventDate = new Date('2024-12-25T18:00:00Z')
+    const schedule: Reminder[] = [
+      { type: 'day', value: 7 },
+      { type: 'day', value: 2 },
+      { type: 'hour', value: 2 },
+    ]
+
+    test('falls back to the default schedule', () => {
+      expect(getEffectiveReminders(null)).toEqual([{ type: 'day', value: 2 }])
+      expect(getEffectiveReminders('[{"type":"hour","value":4}]')).toEqual([{ type: 'hour', value: 4 }])
+    })
+
+    test('identifies each reminder by type and value', () => {
+      expect(getReminderSlot({ type: 'day', value: 7 })).toBe('day:7')
+      expect(getReminderSlot({ type: 'hour', value: 2 })).toBe('hour:2')
+    })
+
+    test('calculates when a reminder is sent', () => {
+      expect(getReminderSendTime({ type: 'day', value: 2 }, eventDate)).toEqual(new Date('2024-12-23T18:00:00Z'))
+      expect(getReminderSendTime({ type: 'hour', value: 2 }, eventDate)).toEqual(new Date('2024-12-25T16:00:00Z'))
+    })
+
+    test('returns the most recent reminder that has come due', () => {
+      expect(getDueReminder(schedule, eventDate, new Date('2024-12-10T00:00:00Z'))).toBeNull()
+      expect(getDueReminder(schedule, eventDate, new Date('2024-12-19T00:00:00Z'))).toEqual({ type: 'day', value: 7 })
+      expect(getDueReminder(schedule, eventDate, new Date('2024-12-24T00:00:00Z'))).toEqual({ type: 'day', value: 2 })
+      expect(getDueReminder(schedule, eventDate, new Date('2024-12-25T17:00:00Z'))).toEqual({ type: 'hour', value: 2 })
+    })
+
+    test('returns nothing once the event has started', () => {
+      expect(getDueReminder(schedule, eventDate, new Date('2024-12-25T19:00:00Z'))).toBeNull()
+    })
+
+    test('previews the next reminder', () => {
+      expect(getNextReminder(schedule, eventDate, new Date('2024-12-20T00:00:00Z'))).toEqual({
+        reminder: { type: 'day', value: 2 },
+        sendAt: new Date('2024-12-23T18:00:00Z'),
+      })
+      expect(getNextReminder(schedule, eventDate, new Date('2024-12-25T17:00:00Z'))).toBeNull()
+    })
+  })
+})
+
+describe('Check-in Utility Functions', () => {
+  describe('extractTicketToken', () => {
+    test('should read the token from a ticket or RSVP link', () => {
+      expect(extractTicketToken('https://rsvp.example.com/rsvp/clx123abc456/ticket')).toBe('clx123abc456')
+      expect(extractTicketToken('http://localhost:3000/rsvp/clx123abc456')).toBe('clx123abc456')
+    })
+
+    test('should accept a bare token', () => {
+      expect(extractTicketToken('  clx123abc456  ')).toBe('clx123abc456')
+    })
+
+    test('should reject anything else', () => {
+      expect(extractTicketToken('')).toBeNull()
+      expect(extractTicketToken('hello')).toBeNull()
+      expect(extractTicketToken('https://example.com/events/party')).toBeNull()
+    })
+  })
+
+  describe('getCheckInStats', () => {
+    test('should count attending parties as expected and anyone checked in as arrived', () => {
+      const arrived = new Date('2024-12-25T18:05:00Z')
+      const stats = getCheckInStats([
+        { status: 'ATTENDING', checkedInAt: arrived, additionalGuests: [{ checkedInAt: null }, { checkedInAt: arrived }] },
+        { status: 'ATTENDING', checkedInAt: null, additionalGuests: [] },
+        { status: 'MAYBE', checkedInAt: arrived, additionalGuests: [] },
+        { status: 'NOT_ATTENDING', checkedInAt: null, additionalGuests: [{ checkedInAt: null }] },
+      ])
+
+      expect(stats).toEqual({ expected: 4, arrived: 3 })
+    })
+  })
 })
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { createMockEvent, createMockGuest } from '../setup'
+
+vi.mock('@/lib/email', () => ({
+  sendWaitlistPromotion: vi.fn(),
+}))
+
+import {
+  getAttendingHeadcount,
+  promoteWaitlistedGuests,
+  resolveAttendingStatus,
+} from '@/lib/waitlist'
+import { sendWaitlistPromotion } from '@/lib/email'
+
+const attending = (additionalGuests: number) => ({ _count: { additionalGuests } })
+
+const waitlisted = (id: string, additionalGuests = 0, overrides = {}) =>
+  createMockGuest({
+    id,
+    email: `${id}@example.com`,
+    token: `${id}-token`,
+    status: 'WAITLISTED',
+    notifyByEmail: true,
+    _count: { additionalGuests },
+    ...overrides,
+  })
+
+describe('Waitlist', () => {
+  beforeEach(() => {
+    vi.mocked(sendWaitlistPromotion).mockResolvedValue(undefined)
+    vi.mocked(prisma.guest.updateMany).mockResolvedValue({ count: 1 })
+  })
+
+  describe('getAttendingHeadcount', () => {
+    it('counts each attending guest plus their additional guests', async () => {
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([attending(0), attending(2)] as any)
+
+      expect(await getAttendingHeadcount('event-1')).toBe(4)
+    })
+  })
+
+  describe('resolveAttendingStatus', () => {
+    const event = { id: 'event-1', capacity: 4 }
+
+    it('always admits guests when the event has no capacity', async () => {
+      expect(await resolveAttendingStatus({ id: 'event-1', capacity: null }, 10)).toEqual({ status: 'ATTENDING' })
+      expect(prisma.guest.findMany).not.toHaveBeenCalled()
+    })
+
+    it('admits a party that fits when nobody is waiting', async () => {
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([attending(1)] as any)
+      vi.mocked(prisma.guest.count).mockResolvedValue(0)
+
+      expect(await resolveAttendingStatus(event, 2)).toEqual({ status: 'ATTENDING' })
+    })
+
+    it('waitlists a party that does not fit', async () => {
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([attending(1)] as any)
+      vi.mocked(prisma.guest.count).mockResolvedValue(0)
+
+      expect(await resolveAttendingStatus(event, 3)).toEqual({ status: 'WAITLISTED' })
+    })
+
+    it('waitlists a party that fits if others are already waiting', async () => {
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([attending(0)] as any)
+      vi.mocked(prisma.guest.count).mockResolvedValue(1)
+
+      expect(await resolveAttendingStatus(event, 1)).toEqual({ status: 'WAITLISTED' })
+    })
+
+    it('only counts guests ahead of a waitlisted guest in line', async () => {
+      const waitlistedAt = new Date('2024-06-01')
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([] as any)
+      vi.mocked(prisma.guest.count).mockResolvedValue(0)
+
+      await resolveAttendingStatus(event, 1, { id: 'guest-1', status: 'WAITLISTED', waitlistedAt })
+
+      expect(prisma.guest.count).toHaveBeenCalledWith({
+        where: {
+          eventId: 'event-1',
+          status: 'WAITLISTED',
+          id: { not: 'guest-1' },
+          waitlistedAt: { lt: waitlistedAt },
+        },
+      })
+    })
+
+    it('keeps an attending guest in but rejects a party larger than the remaining spots', async () => {
+      vi.mocked(prisma.guest.findMany).mockResolvedValue([attending(1)] as any)
+
+      const result = await resolveAttendingStatus(event, 3, { id: 'guest-1', status: 'ATTENDING' })
+
+      expect(result.status).toBe('ATTENDING')
+      expect(result.error).toContain('at most 2 people')
+      expect(prisma.guest.count).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('promoteWaitlistedGuests', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.event.findUnique).mockResolvedValue(createMockEvent({ capacity: 4 }) as any)
+    })
+
+    it('promotes waitlisted guests in order while there is room', async () => {
+      vi.mocked(prisma.guest.findMany)
+        .mockResolvedValueOnce([waitlisted('first'), waitlisted('second', 1), waitlisted('third')] as any)
+        .mockResolvedValueOnce([] as any)
+
+      expect(await promoteWaitlistedGuests('event-1')).toBe(3)
+      expect(vi.mocked(prisma.guest.updateMany).mock.calls.map(([args]) => args.where)).toEqual([
+        { id: 'first', status: 'WAITLISTED' },
+        { id: 'second', status: 'WAITLISTED' },
+        { id: 'third', status: 'WAITLISTED' },
+      ])
+      expect(sendWaitlistPromotion).toHaveBeenCalledTimes(3)
+      expect(sendWaitlistPromotion).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'first@example.com', rsvpToken: 'first-token', queue: true })
+      )
+    })
+
+    it('does not let a smaller party skip ahead of one that does not fit', async () => {
+      vi.mocked(prisma.guest.findMany)
+        .mockResolvedValueOnce([waitlisted('big', 2), waitlisted('small')] as any)
+        .mockResolvedValueOnce([attending(1)] as any)
+
+      expect(await promoteWaitlistedGuests('event-1')).toBe(0)
+      expect(prisma.guest.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('skips guests another request already promoted', async () => {
+      vi.mocked(prisma.guest.findMany)
+        .mockResolvedValueOnce([waitlisted('first')] as any)
+        .mockResolvedValueOnce([] as any)
+      vi.mocked(prisma.guest.updateMany).mockResolvedValue({ count: 0 })
+
+      expect(await promoteWaitlistedGuests('event-1')).toBe(0)
+      expect(sendWaitlistPromotion).not.toHaveBeenCalled()
+    })
+
+    it('does not email guests who opted out', async () => {
+      vi.mocked(prisma.guest.findMany)
+        .mockResolvedValueOnce([waitlisted('first', 0, { notifyByEmail: false })] as any)
+        .mockResolvedValueOnce([] as any)
+
+      expect(await promoteWaitlistedGuests('event-1')).toBe(1)
+      expect(sendWaitlistPromotion).not.toHaveBeenCalled()
+    })
+  })
+})
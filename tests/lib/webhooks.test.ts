@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import crypto from 'crypto'
+import { lookup } from 'dns/promises'
+import { Agent, fetch } from 'undici'
+import { prisma } from '@/lib/prisma'
+import {
+  checkWebhookTarget,
+  dispatchWebhookEvent,
+  getRsvpWebhookType,
+  processWebhookQueue,
+  isPublicAddress,
+  sendTestWebhook,
+  signWebhookPayload,
+} from '@/lib/webhooks'
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(),
+}))
+
+vi.mock('undici', () => ({
+  Agent: vi.fn(),
+  fetch: vi.fn(),
+}))
+
+const webhook = (overrides = {}) => ({
+  id: 'hook-1',
+  userId: 'user-1',
+  eventId: null,
+  url: 'https://hooks.example.com/ownrsvp',
+  secret: 'whsec_test',
+  events: JSON.stringify(['rsvp.created', 'rsvp.updated']),
+  active: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+const delivery = (overrides = {}) => ({
+  id: 'delivery-1',
+  webhookId: 'hook-1',
+  type: 'rsvp.created',
+  payload: '{"type":"rsvp.created"}',
+  status: 'PENDING',
+  attempts: 0,
+  maxAttempts: 5,
+  responseStatus: null,
+  lastError: null,
+  nextRetryAt: new Date(),
+  deliveredAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+describe('Webhooks', () => {
+  const mockFetch = vi.mocked(fetch)
+
+  beforeEach(() => {
+    mockFetch.mockResolvedValue(new Response('ok', { status: 200 }) as any)
+    vi.mocked(Agent).mockImplementation(function () {
+      return { close: vi.fn().mockResolvedValue(undefined) }
+    } as any)
+    vi.mocked(lookup).mockResolvedValue([{ address: '203.0.113.10', family: 4 }] as any)
+    vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([])
+    vi.mocked(prisma.webhookDelivery.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(prisma.webhookDelivery.update).mockImplementation(
+      (async ({ data }: any) => delivery(data)) as any
+    )
+  })
+
+  it('signs the timestamp and body with the secret', () => {
+    const expected = crypto.createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex')
+
+    expect(signWebhookPayload('whsec_test', 1700000000, '{"a":1}')).toBe(`t=1700000000,v1=${expected}`)
+  })
+
+  it('treats a first answer as a new RSVP', () => {
+    expect(getRsvpWebhookType(undefined)).toBe('rsvp.created')
+    expect(getRsvpWebhookType('PENDING')).toBe('rsvp.created')
+    expect(getRsvpWebhookType('MAYBE')).toBe('rsvp.updated')
+  })
+
+  describe('dispatchWebhookEvent', () => {
+    it('queues a delivery for each webhook subscribed to the type', async () => {
+      vi.mocked(prisma.webhook.findMany).mockResolvedValue([
+        webhook(),
+        webhook({ id: 'hook-2', events: JSON.stringify(['checkin']) }),
+      ] as any)
+      vi.mocked(prisma.event.findUnique).mockResolvedValue({
+        id: 'event-1', title: 'Game Night', slug: 'game-night', date: new Date('2030-01-10T01:00:00Z'),
+      } as any)
+
+      await dispatchWebhookEvent('rsvp.created', 'event-1', { guest: { id: 'guest-1' } })
+
+      const { data } = vi.mocked(prisma.webhookDelivery.createMany).mock.calls[0][0] as any
+      expect(data).toHaveLength(1)
+      expect(data[0]).toMatchObject({ webhookId: 'hook-1', type: 'rsvp.created' })
+      expect(JSON.parse(data[0].payload)).toMatchObject({
+        type: 'rsvp.created',
+        event: { id: 'event-1', title: 'Game Night', slug: 'game-night' },
+        data: { guest: { id: 'guest-1' } },
+      })
+    })
+
+    it('does nothing when no webhook wants the type', async () => {
+      vi.mocked(prisma.webhook.findMany).mockResolvedValue([webhook()] as any)
+
+      await dispatchWebhookEvent('comment.created', 'event-1', {})
+
+      expect(prisma.webhookDelivery.createMany).not.toHaveBeenCalled()
+    })
+
+    it('never throws', async () => {
+      vi.mocked(prisma.webhook.findMany).mockRejectedValue(new Error('database is locked'))
+
+      await expect(dispatchWebhookEvent('checkin', 'event-1', {})).resolves.toBeUndefined()
+    })
+  })
+
+  describe('processWebhookQueue', () => {
+    it('posts signed deliveries and marks them delivered', async () => {
+      vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([
+        { ...delivery(), webhook: webhook() },
+      ] as any)
+
+      const result = await processWebhookQueue()
+
+      expect(result).toEqual({ sent: 1, retrying: 0, failed: 0 })
+      const [url, init] = mockFetch.mock.calls[0] as [string, any]
+      expect(url).toBe('https://hooks.example.com/ownrsvp')
+      expect(init.headers['X-OwnRSVP-Event']).toBe('rsvp.created')
+      expect(init.headers['X-OwnRSVP-Signature']).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/)
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'SENT', responseStatus: 200 }) })
+      )
+    })
+
+    it('retries later when the endpoint answers with an error', async () => {
+      mockFetch.mockResolvedValue(new Response('Bad gateway', { status: 502 }) as any)
+      vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([
+        { ...delivery({ attempts: 1 }), webhook: webhook() },
+      ] as any)
+
+      const result = await processWebhookQueue()
+
+      expect(result).toEqual({ sent: 0, retrying: 1, failed: 0 })
+      const { data } = vi.mocked(prisma.webhookDelivery.update).mock.calls[0][0] as any
+      expect(data).toMatchObject({ status: 'PENDING', attempts: 2, responseStatus: 502, lastError: 'HTTP 502' })
+      expect(data.nextRetryAt.getTime()).toBeGreaterThan(Date.now())
+    })
+
+    it('gives up after the last attempt', async () => {
+      mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'))
+      vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([
+        { ...delivery({ attempts: 4 }), webhook: webhook() },
+      ] as any)
+
+      const result = await processWebhookQueue()
+
+      expect(result).toEqual({ sent: 0, retrying: 0, failed: 1 })
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'FAILED', lastError: 'connect ECONNREFUSED' }) })
+      )
+    })
+
+    it('drops deliveries to webhooks that were turned off', async () => {
+      vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([
+        { ...delivery(), webhook: webhook({ active: false }) },
+      ] as any)
+
+      await processWebhookQueue()
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: { status: 'FAILED', lastError: 'Webhook turned off' },
+      })
+    })
+  })
+
+  it('sends a test ping once without retrying', async () => {
+    mockFetch.mockResolvedValue(new Response('', { status: 500 }) as any)
+    vi.mocked(prisma.webhookDelivery.create).mockImplementation(
+      (async ({ data }: any) => delivery(data)) as any
+    )
+
+    const result = await sendTestWebhook(webhook() as any)
+
+    const { data } = vi.mocked(prisma.webhookDelivery.create).mock.calls[0][0] as any
+    expect(data).toMatchObject({ type: 'ping', maxAttempts: 1 })
+    expect(result).toMatchObject({ status: 'FAILED', lastError: 'HTTP 500' })
+  })
+
+  describe('target addresses', () => {
+    it('only allows public addresses', () => {
+      expect(isPublicAddress('203.0.113.10')).toBe(true)
+      expect(isPublicAddress('2606:4700::1111')).toBe(true)
+      for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+        expect(isPublicAddress(address)).toBe(false)
+      }
+    })
+
+    it('refuses host names that resolve to a private address', async () => {
+      vi.mocked(lookup).mockResolvedValue([
+        { address: '203.0.113.10', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ] as any)
+
+      expect(await checkWebhookTarget('https://hooks.example.com/ownrsvp')).toMatch(/private or local/)
+      expect(await checkWebhookTarget('http://[::1]:7787/api')).toMatch(/private or local/)
+    })
+
+    it('fails the delivery without calling the endpoint', async () => {
+      vi.mocked(lookup).mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as any)
+      vi.mocked(prisma.webhookDelivery.create).mockImplementation(
+        (async ({ data }: any) => delivery(data)) as any
+      )
+
+      const result = await sendTestWebhook(webhook({ url: 'http://localhost:7787/api/admin' }) as any)
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ status: 'FAILED', lastError: 'Webhook URL points to a private or local network address' })
+    })
+
+    it('connects to the checked address, not to a second, different resolution', async () => {
+      // A rebinding host answers with a public address, then with loopback
+      vi.mocked(lookup)
+        .mockResolvedValueOnce([{ address: '203.0.113.10', family: 4 }] as any)
+        .mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as any)
+      vi.mocked(prisma.webhookDelivery.findMany).mockResolvedValue([
+        { ...delivery(), webhook: webhook() },
+      ] as any)
+
+      await processWebhookQueue()
+
+      const [, init] = mockFetch.mock.calls[0] as [string, any]
+      expect(init.dispatcher).toBe(vi.mocked(Agent).mock.results[0].value)
+      const connectLookup = (vi.mocked(Agent).mock.calls[0][0] as any).connect.lookup
+      const single = vi.fn()
+      const all = vi.fn()
+      connectLookup('hooks.example.com', {}, single)
+      connectLookup('hooks.example.com', { all: true }, all)
+
+      expect(single).toHaveBeenCalledWith(null, '203.0.113.10', 4)
+      expect(all).toHaveBeenCalledWith(null, [{ address: '203.0.113.10', family: 4 }])
+      expect(lookup).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -10,6 +10,7 @@ vi.mock('@/lib/prisma', () => ({
       create: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
+      updateMany: vi.fn(),
       deleteMany: vi.fn(),
       count: vi.fn(),
     },
@@ -17,6 +18,7 @@ vi.mock('@/lib/prisma', () => ({
       findMany: vi.fn(),
       create: vi.fn(),
       createMany: vi.fn(),
+      updateMany: vi.fn(),
       delete: vi.fn(),
       deleteMany: vi.fn(),
       count: vi.fn(),
@@ -26,11 +28,16 @@ vi.mock('@/lib/prisma', () => ({
       findFirst: vi.fn(),
       findMany: vi.fn(),
       create: vi.fn(),
+      upsert: vi.fn(),
       delete: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
     },
     comment: {
       findMany: vi.fn(),
+      findUnique: vi.fn(),
       create: vi.fn(),
+      update: vi.fn(),
       delete: vi.fn(),
     },
     eventUpdate: {
@@ -43,6 +50,47 @@ vi.mock('@/lib/prisma', () => ({
       upsert: vi.fn(),
       deleteMany: vi.fn(),
     },
+    smsTemplate: {
+      findUnique: vi.fn(),
+    },
+    rateLimitBucket: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    usedChallenge: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    emailTemplate: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    eventEmailTemplate: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    reminderDelivery: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    outboundEmail: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+      groupBy: vi.fn(),
+    },
     passwordResetToken: {
       findUnique: vi.fn(),
       create: vi.fn(),
@@ -82,8 +130,56 @@ vi.mock('@/lib/prisma', () => ({
       update: vi.fn(),
       delete: vi.fn(),
       deleteMany: vi.fn(),
+      updateMany: vi.fn(),
       count: vi.fn(),
     },
+    eventSeries: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    eventSession: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    sessionGuest: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    calendarFeed: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    webhook: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    webhookDelivery: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    apiToken: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
     $transaction: vi.fn((callback) => callback({
       user: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn(), delete: vi.fn() },
       event: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn(), delete: vi.fn() },
@@ -197,6 +293,8 @@ export const createMockEvent = (overrides = {}) => ({
   isPublic: false,
   rsvpDeadline: new Date('2024-12-20T23:59:59Z'),
   reminderSchedule: '[{"value":2,"unit":"days"}]',
+  rsvpQuestions: null,
+  capacity: null,
   replyTo: null,
   hostId: 'user-1',
   createdAt: new Date('2024-01-01'),
@@ -210,13 +308,16 @@ export const createMockGuest = (overrides = {}) => ({
   email: 'guest@example.com',
   phone: null,
   status: 'PENDING',
+  waitlistedAt: null,
+  checkedInAt: null,
   dietaryNotes: null,
+  rsvpAnswers: null,
   token: 'guest-token-123',
   emailNotifications: true,
   smsNotifications: false,
   maxGuests: null,
   invitationSentAt: null,
-  reminderSentAt: null,
+  reminderDeliveries: [],
   respondedAt: null,
   eventId: 'event-1',
   createdAt: new Date('2024-01-01'),
@@ -228,6 +329,8 @@ export const createMockAdditionalGuest = (overrides = {}) => ({
   id: 'additional-guest-1',
   name: 'Additional Guest',
   guestId: 'guest-1',
+  rsvpAnswers: null,
+  checkedInAt: null,
   createdAt: new Date('2024-01-01'),
   ...overrides,
 })